@@ -154,6 +154,9 @@ export const TOOL_ANNOTATIONS: Record<string, ToolAnnotations> = {
 
     // ---- scripting: arbitrary server-side JavaScript with the caller's rights.
     execute_script: ARBITRARY,
+    // A library script is still arbitrary code; the library is only where it came from.
+    run_saved_script: ARBITRARY,
+    list_saved_scripts: READ,
 
     // ---- flows: running one executes whatever the flow author wrote.
     execute_flow: ARBITRARY,
@@ -161,13 +164,20 @@ export const TOOL_ANNOTATIONS: Record<string, ToolAnnotations> = {
     execute_action: ARBITRARY,
     test_flow: ARBITRARY,
     get_flow_context_status: READ,
+    await_flow_context: READ,
     get_flow_outputs: READ,
     get_flow_error: READ,
     get_flow_execution_details: READ,
     get_flow_logs: READ,
+    search_flow_executions: READ,
+    describe_flow: READ,
+    flow_dependencies: READ,
     // Terminates a running execution; whatever it had not yet done is lost.
     cancel_flow: OVERWRITE,
     copy_flow: CREATE,
+    create_flow: CREATE,
+    // Removes and rewrites the whole definition; the previous one is not kept.
+    update_flow: OVERWRITE,
 
     // ---- health
     check_instance_health: READ,
@@ -193,10 +203,17 @@ export const TOOL_ANNOTATIONS: Record<string, ToolAnnotations> = {
     // most destructive thing in the surface after execute_script.
     query_update_records: OVERWRITE,
     query_delete_records: OVERWRITE,
+    // Restores journaled prior values; a second call finds them already restored.
+    undo_operation: OVERWRITE,
 
     // ---- plain queries
     query_syslog: READ,
     query_table: READ,
+    // Reads two instances; changes neither.
+    diff_records: READ,
+    // Writes the matching records to a LOCAL .csv, .jsonl or .xlsx file; an existing
+    // file is replaced only with overwrite.
+    export_table: LOCAL_WRITE,
 
     // ---- schema
     discover_table_schema: READ,
@@ -215,6 +232,15 @@ export const TOOL_ANNOTATIONS: Record<string, ToolAnnotations> = {
     pull_script: LOCAL_WRITE,
     // Overwrites the script record on the instance.
     push_script: OVERWRITE,
+    // Writes a folder of files and deletes the ones it tracked for records now gone.
+    pull_application: LOCAL_WRITE,
+    // Overwrites script fields; pushing the same folder again sends nothing.
+    push_application: OVERWRITE,
+    // Overwrites the script record on every save until stopped — a push_script per save.
+    watch_scripts: OVERWRITE,
+    // Stop and list watches; change nothing on the instance or the disk.
+    unwatch_scripts: READ,
+    list_script_watches: READ,
 
     // ---- tasks: field updates and appends
     find_task: READ,
@@ -229,11 +255,25 @@ export const TOOL_ANNOTATIONS: Record<string, ToolAnnotations> = {
     get_current_update_set: READ,
     list_update_sets: READ,
     inspect_update_set: READ,
+    analyze_update_set_conflicts: READ,
     create_update_set: CREATE,
     set_current_update_set: SET,
     clone_update_set: CREATE,
     // Relocates customisations out of one update set into another.
     move_update_set_records: OVERWRITE,
+    // ---- update set promotion
+    retrieve_update_set: CREATE,
+    // Saves an update set as unload XML in a LOCAL file, for import_update_set_xml
+    // on another instance. The instance is only read.
+    export_update_set: LOCAL_WRITE,
+    import_update_set_xml: CREATE,
+    // Regenerates the preview problems from scratch; repeating settles.
+    preview_update_set: SET,
+    list_update_set_problems: READ,
+    // Sets each problem's status, which decides what the commit applies.
+    resolve_update_set_problems: SET,
+    // Applies the set's updates over the target's configuration.
+    commit_update_set: OVERWRITE_ONCE,
 
     // ---- workflow
     create_workflow: CREATE,
@@ -0,0 +1,170 @@
+/**
+ * The local copy of a scoped application: where each record's code lives on disk,
+ * and what the instance held when it was pulled.
+ *
+ * pull_application writes one file per script field into a folder, plus a manifest
+ * naming the record behind each file. push_application uses the manifest to send
+ * back only what changed: a file whose content hash still matches the one recorded at
+ * pull time is left alone, so an unedited file can never overwrite a colleague's
+ * change on the instance.
+ *
+ * Layout, relative to the folder:
+ *
+ *   <table>/<name>.<ext>              a record with one script field
+ *   <table>/<name>/<field>.<ext>      a record with several
+ *
+ * Names are the record's name field, made safe for a file name. Two records whose
+ * names collide — business rules often share one — both get their sys_id appended,
+ * so neither depends on which was read first. The same records always produce the
+ * same layout, which is what lets the folder live in git.
+ */
+
+import { createHash } from "node:crypto";
+import { existsSync, readdirSync, readFileSync, writeFileSync } from "node:fs";
+import { isAbsolute, join, relative, resolve, sep } from "node:path";
+
+import type { ScriptTable } from "./script-tables.js";
+
+export const MANIFEST_FILE = "nex-app.json";
+
+export interface ManifestRecord {
+    table: string;
+    sys_id: string;
+    name: string;
+    /** As read at the last pull or push. The instance has moved on if it differs. */
+    sys_updated_on: string;
+    /** Field to path, relative to the folder. */
+    files: Record<string, string>;
+    /** Field to the sha256 of the content last pulled or pushed. */
+    hashes: Record<string, string>;
+}
+
+export interface AppManifest {
+    version: 1;
+    scope: string;
+    scopeSysId: string;
+    /** The alias pulled from. Pushing elsewhere is refused. */
+    instance: string | null;
+    pulledAt: string;
+    records: ManifestRecord[];
+}
+
+export function contentHash(content: string): string {
+    return createHash("sha256").update(content, "utf8").digest("hex");
+}
+
+/** Characters no common filesystem objects to; runs of anything else become one `_`. */
+function safeName(name: string): string {
+    return name.replace(/[^A-Za-z0-9._ -]+/g, "_").replace(/^[. ]+|[. ]+$/g, "").slice(0, 100);
+}
+
+/**
+ * Each record's base name within its table folder, by sys_id. Collisions are compared
+ * case-insensitively, because macOS and Windows file systems do.
+ */
+export function baseNames(records: { sys_id: string; name: string }[]): Map<string, string> {
+    const wanted = new Map<string, string>();
+    const counts = new Map<string, number>();
+    for (const record of records) {
+        const base = safeName(record.name) || record.sys_id;
+        wanted.set(record.sys_id, base);
+        counts.set(base.toLowerCase(), (counts.get(base.toLowerCase()) ?? 0) + 1);
+    }
+    const names = new Map<string, string>();
+    for (const [sysId, base] of wanted) {
+        names.set(sysId, (counts.get(base.toLowerCase()) ?? 0) > 1 ? `${base}-${sysId}` : base);
+    }
+    return names;
+}
+
+/** Field to relative path for one record. */
+export function recordFiles(definition: ScriptTable, base: string): Record<string, string> {
+    if (definition.fields.length === 1) {
+        const [only] = definition.fields;
+        return { [only.field]: `${definition.table}/${base}.${only.extension}` };
+    }
+    return Object.fromEntries(
+        definition.fields.map((f) => [f.field, `${definition.table}/${base}/${f.field}.${f.extension}`]),
+    );
+}
+
+/**
+ * An absolute path for a manifest path. THROWS for one that would leave the folder:
+ * the manifest is a file in the workspace, and anyone can edit it.
+ */
+export function localPath(directory: string, path: string): string {
+    const full = resolve(directory, path);
+    const rel = relative(resolve(directory), full);
+    if (!rel || rel.startsWith("..") || isAbsolute(rel)) {
+        throw new Error(`"${path}" in ${MANIFEST_FILE} is outside the application folder.`);
+    }
+    return full;
+}
+
+export interface LocalChange {
+    record: ManifestRecord;
+    field: string;
+    path: string;
+    content: string;
+}
+
+/**
+ * Files edited since the last pull or push — their content no longer hashes to what
+ * the manifest recorded — and tracked files that are gone.
+ */
+export function localChanges(directory: string, manifest: AppManifest): { changed: LocalChange[]; missing: string[] } {
+    const changed: LocalChange[] = [];
+    const missing: string[] = [];
+    for (const record of manifest.records) {
+        for (const [field, path] of Object.entries(record.files)) {
+            const full = localPath(directory, path);
+            if (!existsSync(full)) {
+                missing.push(path);
+                continue;
+            }
+            const content = readFileSync(full, "utf8");
+            if (contentHash(content) !== record.hashes[field]) {
+                changed.push({ record, field, path, content });
+            }
+        }
+    }
+    return { changed, missing };
+}
+
+/** Files under the folder the manifest does not name. Dot-files and dot-folders are skipped. */
+export function untrackedFiles(directory: string, manifest: AppManifest): string[] {
+    const tracked = new Set(manifest.records.flatMap((r) => Object.values(r.files)));
+    return readdirSync(directory, { recursive: true, withFileTypes: true })
+        .filter((entry) => entry.isFile())
+        .map((entry) => relative(directory, join(entry.parentPath, entry.name)).split(sep).join("/"))
+        .filter((path) => path !== MANIFEST_FILE && !tracked.has(path) && !path.split("/").some((p) => p.startsWith(".")))
+        .sort();
+}
+
+/** `undefined` when the folder has no manifest. THROWS for one that cannot be read. */
+export function readManifest(directory: string): AppManifest | undefined {
+    const path = join(directory, MANIFEST_FILE);
+    if (!existsSync(path)) {
+        return undefined;
+    }
+    let manifest: AppManifest;
+    try {
+        manifest = JSON.parse(readFileSync(path, "utf8")) as AppManifest;
+    } catch (error) {
+        throw new Error(`${path} is not valid JSON: ${(error as Error).message}`);
+    }
+    if (manifest.version !== 1 || !Array.isArray(manifest.records)) {
+        throw new Error(`${path} is not a manifest this server wrote.`);
+    }
+    return manifest;
+}
+
+/** Records sorted by table and path, so the manifest diffs cleanly in git. */
+export function writeManifest(directory: string, manifest: AppManifest): void {
+    const records = [...manifest.records].sort(
+        (a, b) =>
+            a.table.localeCompare(b.table) ||
+            (Object.values(a.files)[0] ?? "").localeCompare(Object.values(b.files)[0] ?? ""),
+    );
+    writeFileSync(join(directory, MANIFEST_FILE), JSON.stringify({ ...manifest, records }, null, 2) + "\n");
+}
@@ -0,0 +1,248 @@
+/**
+ * Append-only audit trail of the changes this server made to instances.
+ *
+ * The "Permitted a change" log line says a tool ran. It does not say against which
+ * instance, with what arguments, on which records, or whether it worked — and it
+ * shares a stream with everything else at whatever level the operator chose. This is
+ * the record someone reviews AFTER a session: one JSON object per line, one line per
+ * permitted write or execute call, in a file of its own.
+ *
+ * Off unless NEX_AUDIT_LOG names a file. Environment-only, like the policy, and for
+ * the same reason: a path the model could set is a path the model could point at
+ * /dev/null.
+ *
+ * Written synchronously, with the file held open for append. Every line has reached
+ * the kernel before the tool's result is returned, so a crash or a SIGKILL straight
+ * after a change cannot lose its entry — the failure that matters for an audit trail.
+ * Mutations are rare next to reads; the cost of a blocking write is not visible.
+ *
+ * Only instance-target writes and executes are recorded. Refusals are in the ordinary
+ * log, and LOCAL writes (pull_script) change nothing on an instance. Nor are previews:
+ * a result whose structured content reports `dryRun: true` changed nothing — the
+ * unconfirmed first call of query_delete_records, for one.
+ */
+
+import { closeSync, mkdirSync, openSync, writeSync } from "node:fs";
+import { dirname, resolve } from "node:path";
+import type { Verb } from "@sonisoft/now-sdk-ext-core";
+
+import { getLogger } from "./logging.js";
+
+const log = getLogger("audit");
+
+/** One line of the audit file. */
+export interface AuditEntry {
+    /** ISO-8601, taken when the call started. */
+    timestamp: string;
+    /** Alias the call connected to, as the guard resolved it. */
+    alias: string | null;
+    tool: string;
+    verbs: readonly Verb[];
+    /** The call's arguments, with credential-shaped values replaced. */
+    arguments: unknown;
+    /** True when the tool reported failure OR threw. */
+    isError: boolean;
+    durationMs: number;
+    /** Records the call named or reported, so far as they can be read off it. */
+    records: AuditRecordRef[];
+    /** The thrown error's message, when the tool threw rather than returning. */
+    error?: string;
+}
+
+export interface AuditRecordRef {
+    table?: string;
+    sys_id: string;
+}
+
+const REDACTED = "[redacted]";
+
+/**
+ * Argument keys whose values never reach the file. Matched as substrings, case-
+ * insensitively — `client_secret`, `x-auth-token` and `proxyPassword` all hit.
+ */
+const SENSITIVE_KEY = /password|passwd|secret|token|authorization|cookie|credential|api_?key|private_?key/i;
+
+/** Bearer/Basic credentials inside otherwise innocent strings, e.g. a header in a script. */
+const INLINE_CREDENTIAL = /\b(Bearer|Basic)\s+[A-Za-z0-9._~+/=-]{8,}/g;
+
+/**
+ * Longest string kept verbatim. Scripts are the point of an execute_script entry and
+ * are kept whole up to this; import_records_xml can carry megabytes, which would make
+ * the file unreadable for the sake of data the instance already holds.
+ */
+const MAX_STRING_LENGTH = 64 * 1024;
+
+/** Cap on record references per entry — a bulk update's ids belong on the instance. */
+const MAX_RECORDS = 500;
+
+let fd: number | undefined;
+let filePath: string | undefined;
+
+/**
+ * Opens NEX_AUDIT_LOG for append, creating its directory. THROWS if it cannot: an
+ * operator who asked for an audit trail and got a server that silently kept none is
+ * worse off than one whose server failed to start.
+ */
+export function initAudit(env: NodeJS.ProcessEnv): void {
+    const raw = env.NEX_AUDIT_LOG?.trim();
+    if (!raw) {
+        return;
+    }
+    const path = resolve(raw);
+    try {
+        mkdirSync(dirname(path), { recursive: true });
+        fd = openSync(path, "a", 0o600);
+    } catch (error) {
+        throw new Error(`NEX_AUDIT_LOG: cannot open "${path}" for append: ${(error as Error).message}`);
+    }
+    filePath = path;
+    log.info("Auditing instance changes", { path });
+}
+
+/** Whether entries are being written. */
+export function auditEnabled(): boolean {
+    return fd !== undefined;
+}
+
+/** Test seam: closes the file and turns auditing off. */
+export function resetAuditForTests(): void {
+    if (fd !== undefined) {
+        closeSync(fd);
+    }
+    fd = undefined;
+    filePath = undefined;
+}
+
+/** Copies `value` with sensitive keys replaced and long strings cut. */
+export function redactArguments(value: unknown): unknown {
+    if (typeof value === "string") {
+        const scrubbed = value.replace(INLINE_CREDENTIAL, `$1 ${REDACTED}`);
+        return scrubbed.length > MAX_STRING_LENGTH
+            ? `${scrubbed.slice(0, MAX_STRING_LENGTH)}…[truncated ${scrubbed.length - MAX_STRING_LENGTH} chars]`
+            : scrubbed;
+    }
+    if (Array.isArray(value)) {
+        return value.map(redactArguments);
+    }
+    if (value && typeof value === "object") {
+        const out: Record<string, unknown> = {};
+        for (const [key, inner] of Object.entries(value)) {
+            out[key] = SENSITIVE_KEY.test(key) ? REDACTED : redactArguments(inner);
+        }
+        return out;
+    }
+    return value;
+}
+
+/**
+ * Record identifiers named by the arguments or reported in the structured result.
+ *
+ * Read generically rather than per tool: any object carrying a `sys_id` (or a
+ * `sys_ids` list) contributes, with the nearest `table` it sits beside — or the
+ * call's own `table` argument — as its table. That covers single-record tools
+ * (`{table, sys_id}` in), creators (`{article: {sys_id}}` out) and batch results
+ * without a mapping for each of 87 tools that would drift as they change.
+ */
+export function affectedRecords(args: unknown, structured: unknown): AuditRecordRef[] {
+    const found = new Map<string, AuditRecordRef>();
+    const fallbackTable =
+        args && typeof args === "object" && typeof (args as { table?: unknown }).table === "string"
+            ? (args as { table: string }).table
+            : undefined;
+
+    const add = (sysId: unknown, table: string | undefined) => {
+        if (typeof sysId !== "string" || sysId.length === 0 || found.size >= MAX_RECORDS) {
+            return;
+        }
+        const key = `${table ?? ""}:${sysId}`;
+        if (!found.has(key)) {
+            found.set(key, table ? { table, sys_id: sysId } : { sys_id: sysId });
+        }
+    };
+
+    const walk = (value: unknown, table: string | undefined) => {
+        if (Array.isArray(value)) {
+            value.forEach((v) => walk(v, table));
+            return;
+        }
+        if (!value || typeof value !== "object") {
+            return;
+        }
+        const record = value as Record<string, unknown>;
+        const here = typeof record.table === "string" ? record.table : table;
+        add(record.sys_id ?? record.sysId, here);
+        if (Array.isArray(record.sys_ids)) {
+            record.sys_ids.forEach((id) => add(id, here));
+        }
+        for (const [key, inner] of Object.entries(record)) {
+            if (key !== "sys_ids" && inner && typeof inner === "object") {
+                walk(inner, here);
+            }
+        }
+    };
+
+    walk(args, fallbackTable);
+    walk(structured, fallbackTable);
+    return [...found.values()];
+}
+
+/** Appends one entry. A failed write is logged, never thrown — the change has happened. */
+export function recordAudit(entry: AuditEntry): void {
+    if (fd === undefined) {
+        return;
+    }
+    try {
+        writeSync(fd, JSON.stringify(entry) + "\n");
+    } catch (error) {
+        log.error("Could not write an audit entry", { path: filePath, tool: entry.tool, error });
+    }
+}
+
+/**
+ * Runs a permitted call and records it. The guard's single entry point: it knows the
+ * tool, verbs and alias; this owns timing, redaction and what counts as an error.
+ */
+export async function auditCall<T>(
+    call: { tool: string; verbs: readonly Verb[]; alias: string | undefined },
+    args: unknown[],
+    run: () => Promise<T>,
+): Promise<T> {
+    if (fd === undefined) {
+        return run();
+    }
+
+    const started = Date.now();
+    const base = {
+        timestamp: new Date(started).toISOString(),
+        alias: call.alias ?? null,
+        tool: call.tool,
+        verbs: call.verbs,
+        arguments: redactArguments(args[0] ?? {}),
+    };
+
+    let result: T;
+    try {
+        result = await run();
+    } catch (error) {
+        recordAudit({
+            ...base,
+            isError: true,
+            durationMs: Date.now() - started,
+            records: affectedRecords(args[0], undefined),
+            error: redactArguments(error instanceof Error ? error.message : String(error)) as string,
+        });
+        throw error;
+    }
+
+    const { isError, structuredContent } = (result ?? {}) as { isError?: boolean; structuredContent?: unknown };
+    if ((structuredContent as { dryRun?: unknown } | undefined)?.dryRun === true) {
+        return result;
+    }
+    recordAudit({
+        ...base,
+        isError: isError === true,
+        durationMs: Date.now() - started,
+        records: affectedRecords(args[0], structuredContent),
+    });
+    return result;
+}
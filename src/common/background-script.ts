@@ -0,0 +1,126 @@
+/**
+ * Running a background script and reporting what it did — shared by execute_script
+ * and run_saved_script, so a saved script answers in exactly the shape an inline one
+ * does: its output sorted by log level, its nex.result value, and in preview the
+ * writes it would have made.
+ *
+ * Policy is not decided here. Both tools are ARBITRARY, so the guard has already
+ * applied the instance's policy and opened the audit entry by the time this runs.
+ */
+
+import { z } from "zod";
+import { BackgroundScriptExecutor } from "@sonisoft/now-sdk-ext-core";
+
+import { withConnectionRetry } from "./connection.js";
+import { previewOutputShape } from "./dry-run.js";
+import { instrumentScript, parseScriptOutput } from "./script-channel.js";
+import { describePreview, PREVIEW_TAGS, previewScript, readPreview } from "./script-preview.js";
+
+/** The outputSchema of a tool that runs a script with runBackgroundScript. */
+export const scriptOutputShape = {
+    scope: z.string(),
+    output: z.array(z.string()),
+    affectedRecords: z.string().optional(),
+    scriptFile: z.string().optional(),
+    executionTimeMs: z.number().optional(),
+    print: z.array(z.string()).optional(),
+    logs: z.object({ info: z.array(z.string()), warn: z.array(z.string()), error: z.array(z.string()) }).optional(),
+    result: z.unknown().optional(),
+    resultError: z.string().optional(),
+    preview: z.boolean().optional(),
+    changeCount: z.number().optional(),
+    changes: previewOutputShape.changes,
+    truncated: previewOutputShape.truncated,
+};
+
+export interface RunOptions {
+    preview?: boolean;
+    /** The local file the script was read from, reported back as `scriptFile`. */
+    scriptFile?: string;
+    /** More structured fields, for what the calling tool knows about the run. */
+    extra?: Record<string, unknown>;
+}
+
+/** A finished run: the text block and the structured content, for structuredResult. */
+export interface ScriptRun {
+    text: string;
+    structured: Record<string, unknown>;
+}
+
+/**
+ * Runs `script` in `scope` and reports it. Throws what the connection or the executor
+ * throws; the calling tool words the error.
+ */
+export async function runBackgroundScript(
+    instance: string | undefined,
+    script: string,
+    scope: string,
+    options: RunOptions = {},
+): Promise<ScriptRun> {
+    const { preview = false, scriptFile, extra } = options;
+    let executionTimeMs = 0;
+    const result = await withConnectionRetry(instance, async (snInstance) => {
+        const executor = new BackgroundScriptExecutor(snInstance, scope);
+        const started = Date.now();
+        try {
+            const instrumented = instrumentScript(script);
+            return await executor.executeScript(preview ? previewScript(instrumented) : instrumented, scope, snInstance);
+        } finally {
+            executionTimeMs = Date.now() - started;
+        }
+    });
+
+    if (!result || !result.scriptResults) {
+        return {
+            text: "Script executed but returned no output. If you expected output, make sure your script uses gs.print() or gs.info().",
+            structured: { ...extra, scope, output: [], scriptFile, executionTimeMs, preview: preview || undefined },
+        };
+    }
+
+    const scriptLines = result.scriptResults
+        .filter((line) => line.line && line.line.trim().length > 0)
+        .map((line) => line.line);
+    const parsed = parseScriptOutput(scriptLines, preview ? PREVIEW_TAGS : []);
+    const report = preview ? readPreview(parsed.extra) : undefined;
+
+    let fullOutput = parsed.display.join("\n");
+    if (report) {
+        fullOutput = [...describePreview(report), "", ...parsed.display].join("\n");
+    }
+
+    if (parsed.result) {
+        fullOutput +=
+            "value" in parsed.result
+                ? `\n\n[Result]\n${JSON.stringify(parsed.result.value, null, 2)}`
+                : `\n\n[Result error: ${parsed.result.error}]`;
+    }
+
+    if (result.affectedRecords) {
+        fullOutput += `\n\n[Affected Records: ${result.affectedRecords}]`;
+        if (report && String(result.affectedRecords).trim() !== "0") {
+            fullOutput +=
+                "\nWARNING: the instance reports records affected during the preview. Something " +
+                "the script called wrote outside the interception; those changes were committed.";
+        }
+    }
+
+    return {
+        text: fullOutput.trim() || "(Script produced no output)",
+        structured: {
+            ...extra,
+            scope,
+            output: parsed.output,
+            affectedRecords: result.affectedRecords ? String(result.affectedRecords) : undefined,
+            scriptFile,
+            executionTimeMs,
+            print: parsed.print,
+            logs: parsed.logs,
+            result: parsed.result && "value" in parsed.result ? parsed.result.value : undefined,
+            resultError: parsed.result && "error" in parsed.result ? parsed.result.error : undefined,
+            preview: preview || undefined,
+            changeCount: report?.total,
+            changes: report?.changes,
+            truncated: report?.truncated,
+        },
+    };
+}
@@ -0,0 +1,128 @@
+/**
+ * Two-phase confirmation for bulk writes: preview, then commit with a token.
+ *
+ * query_update_records and query_delete_records used to execute on `confirm: true`,
+ * which the model could set in its very first call — the "dry run first" advice in the
+ * description was advice. Now the first call only previews, and returns a token; the
+ * change runs only when a second call presents that token. A token cannot be made up:
+ * it is random, and this server holds the only record of what it was issued for.
+ *
+ * A token is bound to the operation it previewed — tool, alias, table, query, limit and
+ * a hash of the data — so it cannot authorise a different change than the one shown. It
+ * is single-use, expires after CONFIRMATION_TTL_MS, and carries the match count seen at
+ * preview time: the commit recounts, and a different count means the preview no longer
+ * describes what would happen, so a new preview is required.
+ *
+ * Redeeming checks and spends the token in one synchronous step, before the commit's
+ * first await. Two calls arriving together with the same token cannot both pass the
+ * check while the first is still recounting: the second finds it already used.
+ *
+ * Tokens live in this process's memory. A restart forgets them, which fails safe — the
+ * caller previews again.
+ */
+
+import { createHash, randomBytes } from "node:crypto";
+
+/** How long a preview stays redeemable. Long enough to read it; short enough to be current. */
+export const CONFIRMATION_TTL_MS = 5 * 60 * 1000;
+
+/** Everything a token is bound to. `data` is hashed, not stored. */
+export interface ConfirmationBinding {
+    tool: string;
+    alias: string | undefined;
+    table: string;
+    query: string;
+    limit?: number;
+    data?: Record<string, unknown>;
+}
+
+interface Issued {
+    binding: string;
+    matchCount: number;
+    expiresAt: number;
+}
+
+/** A token that cannot be redeemed for this call. The message says why, and what to do. */
+export class ConfirmationError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "ConfirmationError";
+    }
+}
+
+const issued = new Map<string, Issued>();
+
+/** JSON with object keys sorted, so `{a, b}` and `{b, a}` hash the same. */
+function canonical(value: unknown): string {
+    if (Array.isArray(value)) {
+        return `[${value.map(canonical).join(",")}]`;
+    }
+    if (value && typeof value === "object") {
+        const entries = Object.entries(value)
+            .filter(([, v]) => v !== undefined)
+            .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+        return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonical(v)}`).join(",")}}`;
+    }
+    return JSON.stringify(value ?? null);
+}
+
+function bindingKey(binding: ConfirmationBinding): string {
+    return createHash("sha256").update(canonical(binding)).digest("hex");
+}
+
+function sweep(now: number): void {
+    for (const [token, entry] of issued) {
+        if (entry.expiresAt <= now) {
+            issued.delete(token);
+        }
+    }
+}
+
+/** Issues a token for `binding`, remembering the count the preview showed. */
+export function issueConfirmation(
+    binding: ConfirmationBinding,
+    matchCount: number,
+    now: number = Date.now(),
+): { token: string; expiresAt: string } {
+    sweep(now);
+    const token = randomBytes(18).toString("base64url");
+    const expiresAt = now + CONFIRMATION_TTL_MS;
+    issued.set(token, { binding: bindingKey(binding), matchCount, expiresAt });
+    return { token, expiresAt: new Date(expiresAt).toISOString() };
+}
+
+/**
+ * Checks `token` against the call presenting it and spends it. THROWS a
+ * ConfirmationError if it is unknown, expired or was issued for a different operation.
+ * Returns the match count seen at preview time, for the caller to recount against;
+ * whatever the recount finds, the token is gone.
+ */
+export function redeemConfirmation(token: string, binding: ConfirmationBinding, now: number = Date.now()): number {
+    const entry = issued.get(token);
+    if (!entry) {
+        throw new ConfirmationError(
+            "The confirmation token is unknown or has already been used. Call again without " +
+                "confirmation_token to preview, then confirm with the new token.",
+        );
+    }
+    if (entry.expiresAt <= now) {
+        issued.delete(token);
+        throw new ConfirmationError(
+            "The confirmation token has expired. Call again without confirmation_token for a fresh preview.",
+        );
+    }
+    // Left unspent: the token is still good for the operation it was issued for.
+    if (entry.binding !== bindingKey(binding)) {
+        throw new ConfirmationError(
+            "The confirmation token was issued for a different operation. The instance, table, " +
+                "query, limit and data must be exactly those of the preview.",
+        );
+    }
+    issued.delete(token);
+    return entry.matchCount;
+}
+
+/** Test seam, mirroring resetDryRunForTests. */
+export function resetConfirmationsForTests(): void {
+    issued.clear();
+}
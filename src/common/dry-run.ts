@@ -0,0 +1,201 @@
+/**
+ * Dry-run: write tools report what they WOULD change, and change nothing.
+ *
+ * Two ways in. Per call, a write tool that can preview itself takes a `dry_run`
+ * argument. Server-wide, NEX_DRY_RUN in the environment puts every call in preview —
+ * environment-only, like the policy, so it holds against a model that would rather
+ * not be previewing.
+ *
+ * The guard enforces the server-wide mode, not the tools. A tool declares it can
+ * preview simply by having `dry_run` in its input schema; under NEX_DRY_RUN the guard
+ * forces that argument to true, and a write tool WITHOUT one is never called at all.
+ * So a tool added later without a preview is refused, not silently live.
+ *
+ * A preview is a list of record changes — table, sys_id, create/update/delete, and for
+ * updates each field's current and proposed value — read from the instance with plain
+ * GETs. Reads only: the preview path must not send anything that mutates.
+ */
+
+import { z } from "zod";
+import { TableAPIRequest, type ServiceNowInstance } from "@sonisoft/now-sdk-ext-core";
+
+/** The argument name. The guard looks for it in a tool's input schema. */
+export const DRY_RUN_PARAM = "dry_run";
+
+/** The input-schema entry every previewable write tool declares. */
+export const dryRunParam = z
+    .boolean()
+    .default(false)
+    .describe(
+        "When true, nothing is changed: the result lists the records and fields this " +
+            "call WOULD change, with their current and proposed values.",
+    );
+
+/**
+ * Most records a preview reads. A preview is for checking intent — "these are the
+ * records I meant" — and a thousand-row diff does not serve that. `truncated` says
+ * when there were more.
+ */
+export const PREVIEW_LIMIT = 100;
+
+export interface FieldChange {
+    field: string;
+    before: unknown;
+    after: unknown;
+}
+
+export interface RecordChange {
+    table: string;
+    /** Absent for a create — the instance assigns it. */
+    sys_id?: string;
+    action: "create" | "update" | "delete";
+    /** For updates: only the fields whose value would actually differ. */
+    fields?: FieldChange[];
+}
+
+const fieldChangeSchema = z.object({
+    field: z.string(),
+    before: z.unknown(),
+    after: z.unknown(),
+});
+
+const recordChangeSchema = z.object({
+    table: z.string(),
+    sys_id: z.string().optional(),
+    action: z.enum(["create", "update", "delete"]),
+    fields: z.array(fieldChangeSchema).optional(),
+});
+
+/** Spread into the outputSchema of every previewable tool. */
+export const previewOutputShape = {
+    dryRun: z.boolean().optional(),
+    changes: z.array(recordChangeSchema).optional(),
+    truncated: z.boolean().optional(),
+};
+
+let serverWide = false;
+
+/**
+ * Reads NEX_DRY_RUN. An unrecognised value turns dry-run ON and warns: an operator who
+ * typed `ture` meant to be safe, and guessing "live" is the unsafe direction.
+ */
+export function dryRunFromEnvironment(env: NodeJS.ProcessEnv, warn: (message: string) => void): boolean {
+    const raw = env.NEX_DRY_RUN?.trim().toLowerCase();
+    if (!raw || ["0", "false", "no", "off"].includes(raw)) {
+        return false;
+    }
+    if (!["1", "true", "yes", "on"].includes(raw)) {
+        warn(`NEX_DRY_RUN: unrecognised value "${env.NEX_DRY_RUN}"; dry-run is ON for safety`);
+    }
+    return true;
+}
+
+/** Sets the server-wide mode for this process. Call once, at startup, from initPolicy. */
+export function installDryRun(enabled: boolean): void {
+    serverWide = enabled;
+}
+
+/** Whether NEX_DRY_RUN is in force. */
+export function serverDryRun(): boolean {
+    return serverWide;
+}
+
+/** Test seam, mirroring resetInstancePolicyForTests. */
+export function resetDryRunForTests(): void {
+    serverWide = false;
+}
+
+/**
+ * Table API values are strings, while tool arguments may be numbers or booleans, so
+ * values compare as strings — `3` and `"3"` are no change.
+ */
+function sameValue(before: unknown, after: unknown): boolean {
+    const normalise = (v: unknown) =>
+        v === null || v === undefined ? "" : typeof v === "object" ? JSON.stringify(v) : String(v);
+    return normalise(before) === normalise(after);
+}
+
+/** The fields of `data` whose value differs from `current`. Unknown current values count as changes. */
+export function fieldChanges(current: Record<string, unknown> | undefined, data: Record<string, unknown>): FieldChange[] {
+    return Object.entries(data)
+        .filter(([field, after]) => !current || !sameValue(current[field], after))
+        .map(([field, after]) => ({ field, before: current?.[field], after }));
+}
+
+interface TableResponse {
+    result: Record<string, unknown>[];
+}
+
+/**
+ * Reads records for a preview: raw values, reference links stripped, at most `limit`
+ * plus one so the caller can tell it was cut.
+ */
+export async function readRecords(
+    snInstance: ServiceNowInstance,
+    table: string,
+    query: string,
+    fields: string[],
+    limit: number = PREVIEW_LIMIT,
+): Promise<{ records: Record<string, unknown>[]; truncated: boolean }> {
+    const tableApi = new TableAPIRequest(snInstance);
+    const params: Record<string, string | number> = {
+        sysparm_query: query,
+        sysparm_limit: limit + 1,
+        sysparm_exclude_reference_link: "true",
+    };
+    if (fields.length > 0) {
+        params.sysparm_fields = [...new Set(["sys_id", ...fields])].join(",");
+    }
+    const response = await tableApi.get<TableResponse>(table, params);
+    // "No response" in the message is what lets withConnectionRetry retry a dead session.
+    if (!response || response.status !== 200) {
+        const status = response?.status ?? "unknown";
+        const statusText = response?.statusText ?? "No response";
+        throw new Error(`HTTP ${status} ${statusText} reading "${table}" for a preview`);
+    }
+    const records = response.bodyObject?.result ?? [];
+    return { records: records.slice(0, limit), truncated: records.length > limit };
+}
+
+/** sys_ids per read. An `sys_idIN` list of thousands would outgrow a URL. */
+const READ_CHUNK = 100;
+
+/** Reads `fields` plus sys_mod_count for the given sys_ids of one table, in chunks. */
+export async function readBySysId(
+    snInstance: ServiceNowInstance,
+    table: string,
+    sysIds: string[],
+    fields: string[],
+): Promise<Map<string, Record<string, unknown>>> {
+    const found = new Map<string, Record<string, unknown>>();
+    for (let i = 0; i < sysIds.length; i += READ_CHUNK) {
+        const chunk = sysIds.slice(i, i + READ_CHUNK);
+        const { records } = await readRecords(
+            snInstance,
+            table,
+            `sys_idIN${chunk.join(",")}`,
+            [...fields, "sys_mod_count"],
+            chunk.length,
+        );
+        records.forEach((record) => found.set(String(record.sys_id), record));
+    }
+    return found;
+}
+
+/** The text block for a preview. Values are shown in full; the model is checking them. */
+export function describeChanges(changes: RecordChange[], truncated = false): string[] {
+    const lines = ["=== DRY RUN — nothing was changed ==="];
+    if (changes.length === 0) {
+        lines.push("No records would change.");
+    }
+    for (const change of changes) {
+        lines.push(`${change.action.toUpperCase()} ${change.table}${change.sys_id ? ` ${change.sys_id}` : ""}`);
+        for (const f of change.fields ?? []) {
+            lines.push(`  ${f.field}: ${JSON.stringify(f.before ?? null)} -> ${JSON.stringify(f.after ?? null)}`);
+        }
+    }
+    if (truncated) {
+        lines.push(`(Showing the first ${PREVIEW_LIMIT} records; more would be affected.)`);
+    }
+    return lines;
+}
@@ -0,0 +1,127 @@
+/**
+ * Waiting on a flow context started in the background, until it ends or a timeout
+ * passes — what a model otherwise does by calling get_flow_context_status over and
+ * over, and usually gives up on too early.
+ *
+ * Polling backs off: a context that has just changed state tends to change again
+ * soon, and one that has been waiting a while (on an approval, a timer) tends to go
+ * on waiting. Each change of state is reported as it is seen. WAITING is reported
+ * with the approvals pending on the flow's source record, when there are any, since
+ * a flow waiting for a person is the usual reason a background flow takes long.
+ */
+
+import { FlowManager } from "@sonisoft/now-sdk-ext-core";
+
+import { withConnectionRetry } from "./connection.js";
+import type { ProgressCallback } from "./progress.js";
+import { readRecords } from "./table-pages.js";
+
+/** States a context does not leave. */
+export const TERMINAL_FLOW_STATES = new Set(["COMPLETE", "CANCELLED", "ERROR"]);
+
+/** The first wait between polls, and the one after each change of state. */
+export const FIRST_POLL_MS = 1000;
+
+/** The longest wait between polls. */
+export const MAX_POLL_MS = 15000;
+
+export interface FlowContextTransition {
+    state: string;
+    /** When the change was seen, not when it happened on the instance. */
+    seenAt: string;
+    detail?: string;
+}
+
+export interface FlowContextWait {
+    contextId: string;
+    name?: string;
+    state: string;
+    /** False when the timeout passed first; the flow carries on regardless. */
+    finished: boolean;
+    elapsedMs: number;
+    transitions: FlowContextTransition[];
+    /** Approvers whose approval the flow is waiting on, when it is. */
+    waitingOn?: string[];
+    outputs?: Record<string, unknown>;
+    flowErrorMessage?: string;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/** The approvers of requested approvals on the context's source record. */
+async function pendingApprovers(alias: string | undefined, contextId: string): Promise<string[]> {
+    return withConnectionRetry(alias, async (snInstance) => {
+        const [context] = await readRecords(snInstance, "sys_flow_context", `sys_id=${contextId}`, "source_record");
+        if (!context?.source_record) return [];
+        const approvals = await readRecords(
+            snInstance,
+            "sysapproval_approver",
+            `document_id=${context.source_record}^state=requested`,
+            "sys_id,approver.name",
+        );
+        return approvals.map((approval) => approval["approver.name"]).filter(Boolean);
+    });
+}
+
+/**
+ * Polls the context until it reaches COMPLETE, CANCELLED or ERROR, or `timeoutMs`
+ * passes, then reads its outputs or error. THROWS if there is no such context.
+ */
+export async function awaitFlowContext(
+    alias: string | undefined,
+    contextId: string,
+    options: { timeoutMs: number; onProgress?: ProgressCallback; firstPollMs?: number; maxPollMs?: number },
+): Promise<FlowContextWait> {
+    const { timeoutMs, onProgress, firstPollMs = FIRST_POLL_MS, maxPollMs = MAX_POLL_MS } = options;
+    const started = Date.now();
+    const transitions: FlowContextTransition[] = [];
+    let interval = firstPollMs;
+    let last = "";
+
+    for (;;) {
+        const status = await withConnectionRetry(alias, (snInstance) =>
+            new FlowManager(snInstance).getFlowContextStatus(contextId),
+        );
+        if (!status.found) {
+            throw new Error(status.errorMessage || `No flow context ${contextId}.`);
+        }
+        const state = String(status.state ?? "UNKNOWN");
+        const waitingOn = state === "WAITING" ? await pendingApprovers(alias, contextId) : [];
+        const detail = waitingOn.length > 0 ? `waiting for approval from ${waitingOn.join(", ")}` : undefined;
+
+        const seen = `${state}|${detail ?? ""}`;
+        if (seen !== last) {
+            transitions.push({ state, seenAt: new Date().toISOString(), ...(detail ? { detail } : {}) });
+            onProgress?.(`${status.name || contextId}: ${state}${detail ? ` — ${detail}` : ""}`);
+            last = seen;
+            interval = firstPollMs;
+        }
+
+        const result: FlowContextWait = {
+            contextId,
+            ...(status.name ? { name: status.name } : {}),
+            state,
+            finished: TERMINAL_FLOW_STATES.has(state),
+            elapsedMs: Date.now() - started,
+            transitions,
+            ...(waitingOn.length > 0 ? { waitingOn } : {}),
+        };
+        if (state === "COMPLETE") {
+            const outputs = await withConnectionRetry(alias, (snInstance) =>
+                new FlowManager(snInstance).getFlowOutputs(contextId),
+            );
+            return { ...result, outputs: outputs.outputs ?? {} };
+        }
+        if (state === "ERROR" || state === "CANCELLED") {
+            const error = await withConnectionRetry(alias, (snInstance) =>
+                new FlowManager(snInstance).getFlowError(contextId),
+            );
+            return { ...result, ...(error.flowErrorMessage ? { flowErrorMessage: error.flowErrorMessage } : {}) };
+        }
+        if (Date.now() + interval > started + timeoutMs) {
+            return result;
+        }
+        await sleep(interval);
+        interval = Math.min(interval * 2, maxPollMs);
+    }
+}
@@ -0,0 +1,886 @@
+/**
+ * Flow Designer flows and subflows built from a declarative definition, for create_flow
+ * and update_flow. A definition names a trigger (flows) or declares inputs and outputs
+ * (subflows), then lists steps: an action, a subflow call, or an `if` with `then` and
+ * `else` branches. Step inputs may hold data pills — `{{trigger.current.number}}`,
+ * `{{inputs.user}}` in a subflow, or `{{<step id>.<output>}}` for an earlier step.
+ *
+ * Every problem is found before anything is written, and each names the step it is in
+ * by path (`steps[1].then[0].inputs.table`) and id: actions and subflows that do not
+ * exist or are ambiguous, inputs they do not declare, mandatory inputs left out, and
+ * pills that point at nothing, or at a step that has not always run by then.
+ *
+ * The records are those Flow Designer keeps a flow in: sys_hub_flow, one instance
+ * record per trigger and step, and a sys_variable_value per input given. They are
+ * written through the Table API, so they land in the session's current application
+ * and are captured in its current update set, as an edit in Flow Designer would be.
+ * The flow is left as an inactive draft, to be opened, checked and published there.
+ */
+
+import { randomUUID } from "node:crypto";
+
+import {
+    BatchOperations,
+    QueryBatchOperations,
+    ScopeManager,
+    UpdateSetManager,
+    type ServiceNowInstance,
+} from "@sonisoft/now-sdk-ext-core";
+
+import { withConnectionRetry } from "./connection.js";
+import { fieldChanges, type RecordChange } from "./dry-run.js";
+import {
+    findComponents,
+    readVariables,
+    STEP_INSTANCES,
+    type ComponentKind,
+    type FlowComponent,
+    type FlowVariable,
+} from "./flow-records.js";
+import type { ProgressCallback } from "./progress.js";
+import { ID_CHUNK, readRecords } from "./table-pages.js";
+
+export interface FlowVariableDefinition {
+    name: string;
+    label?: string;
+    /** A Flow Designer type such as `string`, `integer`, `boolean` or `reference`. */
+    type?: string;
+    mandatory?: boolean;
+    /** The table a `reference` variable points at. */
+    reference?: string;
+}
+
+/** Exactly one of `action`, `subflow` or `if`. */
+export interface FlowStep {
+    id: string;
+    action?: string;
+    subflow?: string;
+    inputs?: Record<string, unknown>;
+    /** An encoded condition, which may hold data pills. */
+    if?: string;
+    then?: FlowStep[];
+    else?: FlowStep[];
+}
+
+export interface FlowDefinition {
+    name: string;
+    type?: "flow" | "subflow";
+    description?: string;
+    run_as?: "system" | "user";
+    /** Flows only. `type` is the trigger type, such as `record_create`. */
+    trigger?: { type: string; inputs?: Record<string, unknown> };
+    /** Subflows only. */
+    inputs?: FlowVariableDefinition[];
+    /** Subflows only. */
+    outputs?: FlowVariableDefinition[];
+    steps: FlowStep[];
+}
+
+export interface DefinitionProblem {
+    /** Where in the definition, e.g. `steps[1].then[0].inputs.table`. */
+    path: string;
+    /** The id of the step the problem is in. */
+    step?: string;
+    message: string;
+}
+
+/** A definition that cannot be built. `problems` holds all of them, not only the first. */
+export class FlowDefinitionError extends Error {
+    constructor(readonly problems: DefinitionProblem[]) {
+        super(
+            `The definition has ${problems.length} problem${problems.length === 1 ? "" : "s"}:\n` +
+                problems.map((p) => `- ${p.path}${p.step ? ` (step "${p.step}")` : ""}: ${p.message}`).join("\n"),
+        );
+        this.name = "FlowDefinitionError";
+    }
+}
+
+export interface BuiltStep {
+    id: string;
+    kind: "action" | "subflow" | "if" | "else";
+    table: string;
+    sys_id: string;
+}
+
+export interface FlowBuildResult {
+    flowSysId: string;
+    name: string;
+    internalName: string;
+    type: "flow" | "subflow";
+    /** Records written, the flow itself included. */
+    recordCount: number;
+    steps: BuiltStep[];
+    /** Records of the previous definition removed (update_flow only). */
+    removedCount?: number;
+    application?: { sys_id: string; name: string; scope: string };
+    updateSet?: { sys_id: string; name: string };
+}
+
+/** What update_flow would do, for its dry run. */
+export interface FlowUpdatePreview extends Pick<FlowBuildResult, "flowSysId" | "name" | "internalName" | "type" | "application" | "updateSet"> {
+    changes: RecordChange[];
+}
+
+const STEP_ID = /^[A-Za-z_]\w*$/;
+const VARIABLE_NAME = /^[A-Za-z_]\w*$/;
+const PILL = /\{\{([^{}]*)\}\}/g;
+const PILL_REF = /^\s*([A-Za-z_]\w*)((?:\.[A-Za-z_]\w*)*)\s*$/;
+
+/** The roots a pill may start from besides a step id. */
+const RESERVED_IDS = new Set(["trigger", "inputs"]);
+
+/** Each step kind's instance table, and the field on it naming what it runs. */
+const STEP_TABLES = {
+    ...STEP_INSTANCES,
+    logic: { table: "sys_hub_flow_logic", field: "logic_definition" },
+} as const;
+
+/** The instance tables a flow's definition lives in, trigger first. */
+const INSTANCE_TABLES = [
+    STEP_TABLES.trigger.table,
+    STEP_TABLES.action.table,
+    STEP_TABLES.subflow.table,
+    STEP_TABLES.logic.table,
+];
+
+/** A resolved action, subflow or trigger, with what it declares. */
+interface Component {
+    record: FlowComponent;
+    inputs: FlowVariable[];
+    outputs: FlowVariable[];
+}
+
+/** What the definition names, as the instance has it. */
+interface Catalog {
+    matches: Record<"trigger" | "action" | "subflow", Map<string, FlowComponent[]>>;
+    components: Map<string, Component>;
+    /** Logic definition sys_ids by type (IF, ELSE). */
+    logic: Map<string, string>;
+}
+
+interface Operation {
+    table: string;
+    data: Record<string, unknown>;
+    saveAs?: string;
+}
+
+const kindLabel = (kind: ComponentKind) => (kind === "action" ? "action" : kind === "subflow" ? "subflow" : "trigger type");
+
+/** internal_name as Flow Designer derives it from a name. */
+export function internalNameOf(name: string): string {
+    return name
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, "_")
+        .replace(/^_+|_+$/g, "");
+}
+
+function forEachStep(steps: FlowStep[], visit: (step: FlowStep) => void): void {
+    for (const step of steps) {
+        visit(step);
+        forEachStep(step.then ?? [], visit);
+        forEachStep(step.else ?? [], visit);
+    }
+}
+
+/** Every string inside a value, with the path to it. */
+function strings(value: unknown, path: string, found: [string, string][] = []): [string, string][] {
+    if (typeof value === "string") {
+        found.push([path, value]);
+    } else if (Array.isArray(value)) {
+        value.forEach((item, i) => strings(item, `${path}[${i}]`, found));
+    } else if (value && typeof value === "object") {
+        Object.entries(value).forEach(([key, item]) => strings(item, `${path}.${key}`, found));
+    }
+    return found;
+}
+
+/** The single match for a reference, or undefined when there is none or several. */
+function resolved(catalog: Catalog, kind: "trigger" | "action" | "subflow", ref: string): Component | undefined {
+    const matches = catalog.matches[kind].get(ref) ?? [];
+    return matches.length === 1 ? catalog.components.get(matches[0].sys_id) : undefined;
+}
+
+/** Everything wrong with the definition. Empty when it can be built. */
+function checkDefinition(definition: FlowDefinition, catalog: Catalog): DefinitionProblem[] {
+    const problems: DefinitionProblem[] = [];
+    const add = (path: string, message: string, step?: string) =>
+        problems.push({ path, ...(step !== undefined ? { step } : {}), message });
+    const subflow = definition.type === "subflow";
+
+    if (subflow && definition.trigger) {
+        add("trigger", "A subflow has no trigger; it runs when a flow calls it.");
+    }
+    if (!subflow && !definition.trigger) {
+        add("trigger", "A flow needs a trigger.");
+    }
+    for (const direction of ["inputs", "outputs"] as const) {
+        const variables = definition[direction] ?? [];
+        if (!subflow && variables.length > 0) {
+            add(direction, "Only a subflow declares inputs and outputs; a flow's data comes from its trigger.");
+        }
+        const seen = new Set<string>();
+        variables.forEach((variable, i) => {
+            if (!VARIABLE_NAME.test(variable.name)) {
+                add(`${direction}[${i}].name`, `"${variable.name}" is not a variable name: use letters, digits and underscores.`);
+            } else if (seen.has(variable.name)) {
+                add(`${direction}[${i}].name`, `"${variable.name}" is declared twice.`);
+            }
+            seen.add(variable.name);
+            if (variable.type === "reference" && !variable.reference) {
+                add(`${direction}[${i}].reference`, "A reference variable needs the table it points at.");
+            }
+        });
+    }
+
+    const allIds = new Set<string>();
+    const idPaths = new Map<string, string>();
+    const collect = (steps: FlowStep[], path: string) =>
+        steps.forEach((step, i) => {
+            const at = `${path}[${i}]`;
+            if (!STEP_ID.test(step.id) || RESERVED_IDS.has(step.id)) {
+                add(`${at}.id`, `"${step.id}" cannot be a step id: use letters, digits and underscores, and not "trigger" or "inputs".`, step.id);
+            } else if (allIds.has(step.id)) {
+                add(`${at}.id`, `Step id "${step.id}" is already used at ${idPaths.get(step.id)}.`, step.id);
+            }
+            allIds.add(step.id);
+            if (!idPaths.has(step.id)) idPaths.set(step.id, at);
+            collect(step.then ?? [], `${at}.then`);
+            collect(step.else ?? [], `${at}.else`);
+        });
+    collect(definition.steps, "steps");
+
+    const trigger = definition.trigger ? resolved(catalog, "trigger", definition.trigger.type) : undefined;
+    const declaredInputs = new Set((definition.inputs ?? []).map((variable) => variable.name));
+
+    /** The pills in `value`, checked against the steps that have run by then. */
+    const checkPills = (value: unknown, path: string, stepId: string | undefined, ran: Map<string, FlowStep>) => {
+        for (const [at, string] of strings(value, path)) {
+            for (const [pill, body] of string.matchAll(PILL)) {
+                const ref = PILL_REF.exec(body);
+                const fail = (message: string) => add(at, `${pill}: ${message}`, stepId);
+                if (!ref) {
+                    fail("a data pill is a step id, trigger or inputs, then a dotted path.");
+                    continue;
+                }
+                const [root, ...path] = `${ref[1]}${ref[2]}`.split(".");
+                if (root === "trigger") {
+                    if (subflow) {
+                        fail("a subflow has no trigger; pass what it needs as inputs.");
+                    } else if (trigger && path.length > 0 && trigger.outputs.length > 0 && !trigger.outputs.some((o) => o.name === path[0])) {
+                        fail(`the trigger has no output "${path[0]}"; it has ${trigger.outputs.map((o) => o.name).join(", ")}.`);
+                    }
+                } else if (root === "inputs") {
+                    if (!subflow) {
+                        fail("only a subflow has inputs; a flow's data comes from its trigger.");
+                    } else if (!declaredInputs.has(path[0])) {
+                        fail(`the subflow declares no input "${path[0] ?? ""}".`);
+                    }
+                } else if (!ran.has(root)) {
+                    fail(
+                        allIds.has(root)
+                            ? `step "${root}" has not always run by this point: it is later, or in a branch this step is not in.`
+                            : `there is no step "${root}".`,
+                    );
+                } else {
+                    const source = ran.get(root)!;
+                    const component = source.action
+                        ? resolved(catalog, "action", source.action)
+                        : source.subflow
+                          ? resolved(catalog, "subflow", source.subflow)
+                          : undefined;
+                    if (source.if !== undefined) {
+                        fail(`step "${root}" is a condition and has no outputs.`);
+                    } else if (path.length === 0) {
+                        fail(`name one of step "${root}"'s outputs, as {{${root}.<output>}}.`);
+                    } else if (component && !component.outputs.some((o) => o.name === path[0])) {
+                        const outputs = component.outputs.map((o) => o.name);
+                        fail(
+                            `${component.record.name} has no output "${path[0]}"` +
+                                (outputs.length > 0 ? `; it has ${outputs.join(", ")}.` : "; it has none."),
+                        );
+                    }
+                }
+            }
+        }
+    };
+
+    /** The inputs given to a trigger, action or subflow, against those it declares. */
+    const checkInputs = (
+        given: Record<string, unknown> | undefined,
+        component: Component,
+        path: string,
+        stepId: string | undefined,
+        ran: Map<string, FlowStep>,
+    ) => {
+        const declared = new Map(component.inputs.map((input) => [input.name, input]));
+        for (const [name, value] of Object.entries(given ?? {})) {
+            if (!declared.has(name)) {
+                const names = [...declared.keys()];
+                add(
+                    `${path}.${name}`,
+                    `${component.record.name} has no input "${name}"` +
+                        (names.length > 0 ? `; it has ${names.join(", ")}.` : "; it takes none."),
+                    stepId,
+                );
+            } else {
+                checkPills(value, `${path}.${name}`, stepId, ran);
+            }
+        }
+        for (const input of component.inputs) {
+            const value = given?.[input.name];
+            if (input.mandatory && (value === undefined || value === null || value === "")) {
+                add(path, `${component.record.name} needs its mandatory input "${input.name}".`, stepId);
+            }
+        }
+    };
+
+    /** A reference that matched no component, or several. */
+    const checkMatch = (kind: "trigger" | "action" | "subflow", ref: string, path: string, stepId?: string): boolean => {
+        const matches = catalog.matches[kind].get(ref) ?? [];
+        if (matches.length === 0) {
+            add(path, `There is no ${kindLabel(kind)} "${ref}".`, stepId);
+        } else if (matches.length > 1) {
+            add(
+                path,
+                `"${ref}" names ${matches.length} ${kindLabel(kind)}s; use the scoped name: ` +
+                    `${matches.map((m) => `${m.scope}.${m.internalName}`).join(", ")}.`,
+                stepId,
+            );
+        }
+        return matches.length === 1;
+    };
+
+    if (definition.trigger && !subflow && checkMatch("trigger", definition.trigger.type, "trigger.type") && trigger) {
+        checkInputs(definition.trigger.inputs, trigger, "trigger.inputs", undefined, new Map());
+    }
+
+    const walk = (steps: FlowStep[], path: string, ran: Map<string, FlowStep>) =>
+        steps.forEach((step, i) => {
+            const at = `${path}[${i}]`;
+            const kinds = (["action", "subflow", "if"] as const).filter((kind) => step[kind] !== undefined);
+            if (kinds.length !== 1) {
+                add(at, "A step is exactly one of action, subflow or if.", step.id);
+            } else if (step.if !== undefined) {
+                if (step.inputs) {
+                    add(`${at}.inputs`, "A condition takes no inputs; the test goes in if.", step.id);
+                }
+                if (!step.if.trim()) {
+                    add(`${at}.if`, "The condition is empty.", step.id);
+                }
+                if (!step.then || step.then.length === 0) {
+                    add(`${at}.then`, "A condition needs at least one step to run when it holds.", step.id);
+                }
+                checkPills(step.if, `${at}.if`, step.id, ran);
+                walk(step.then ?? [], `${at}.then`, new Map(ran));
+                walk(step.else ?? [], `${at}.else`, new Map(ran));
+            } else {
+                if (step.then || step.else) {
+                    add(at, "Only a condition has then and else.", step.id);
+                }
+                const kind = step.action !== undefined ? "action" : "subflow";
+                const ref = (step.action ?? step.subflow)!;
+                if (checkMatch(kind, ref, `${at}.${kind}`, step.id)) {
+                    checkInputs(step.inputs, resolved(catalog, kind, ref)!, `${at}.inputs`, step.id, ran);
+                }
+            }
+            ran.set(step.id, step);
+        });
+    walk(definition.steps, "steps", new Map());
+
+    return problems;
+}
+
+/** Reads what the definition refers to. Nothing here is a problem yet; checkDefinition decides. */
+async function readCatalog(snInstance: ServiceNowInstance, definition: FlowDefinition): Promise<Catalog> {
+    const refs = { trigger: [] as string[], action: [] as string[], subflow: [] as string[] };
+    if (definition.trigger && definition.type !== "subflow") refs.trigger.push(definition.trigger.type);
+    let conditions = false;
+    forEachStep(definition.steps, (step) => {
+        if (step.action !== undefined) refs.action.push(step.action);
+        if (step.subflow !== undefined) refs.subflow.push(step.subflow);
+        if (step.if !== undefined) conditions = true;
+    });
+
+    const catalog: Catalog = {
+        matches: { trigger: new Map(), action: new Map(), subflow: new Map() },
+        components: new Map(),
+        logic: new Map(),
+    };
+    for (const kind of ["trigger", "action", "subflow"] as const) {
+        catalog.matches[kind] = await findComponents(snInstance, kind, refs[kind]);
+        const found = [...catalog.matches[kind].values()].filter((m) => m.length === 1).map(([m]) => m);
+        const ids = [...new Set(found.map((m) => m.sys_id))];
+        const inputs = await readVariables(snInstance, kind, "inputs", ids);
+        const outputs = await readVariables(snInstance, kind, "outputs", ids);
+        for (const record of found) {
+            catalog.components.set(record.sys_id, {
+                record,
+                inputs: inputs.get(record.sys_id) ?? [],
+                outputs: outputs.get(record.sys_id) ?? [],
+            });
+        }
+    }
+
+    if (conditions) {
+        const logic = await readRecords(snInstance, "sys_hub_flow_logic_definition", "typeINIF,ELSE", "sys_id,type");
+        logic.forEach((record) => catalog.logic.set(record.type, record.sys_id));
+        for (const type of ["IF", "ELSE"]) {
+            if (!catalog.logic.has(type)) {
+                throw new Error(`This instance has no ${type} flow logic definition in sys_hub_flow_logic_definition.`);
+            }
+        }
+    }
+    return catalog;
+}
+
+interface Plan {
+    operations: Operation[];
+    /** For each operation, the definition path and step it writes, to place write errors. */
+    owners: { path: string; step?: string }[];
+    steps: (Omit<BuiltStep, "sys_id"> & { key: string })[];
+}
+
+/** The records for the definition's variables, trigger and steps, under the flow `flowRef`. */
+function planRecords(definition: FlowDefinition, catalog: Catalog, flowRef: string): Plan {
+    const plan: Plan = { operations: [], owners: [], steps: [] };
+    const push = (operation: Operation, path: string, step?: string) => {
+        plan.operations.push(operation);
+        plan.owners.push({ path, ...(step !== undefined ? { step } : {}) });
+    };
+
+    const uiIds = new Map<string, string>();
+    const uiIdOf = (id: string) => {
+        if (!uiIds.has(id)) uiIds.set(id, randomUUID());
+        return uiIds.get(id)!;
+    };
+    // Pills name steps by id here; Flow Designer names them by ui_id.
+    const rewrite = (value: unknown): unknown => {
+        if (typeof value === "string") {
+            return value.replace(PILL, (pill, body: string) => {
+                const ref = PILL_REF.exec(body);
+                if (!ref || ref[1] === "inputs") return pill;
+                return `{{${uiIdOf(ref[1])}${ref[2]}}}`;
+            });
+        }
+        if (Array.isArray(value)) return value.map(rewrite);
+        if (value && typeof value === "object") {
+            return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, rewrite(item)]));
+        }
+        return value;
+    };
+    const values = (table: string, key: string, given: Record<string, unknown> | undefined, component: Component, path: string, step?: string) => {
+        for (const input of component.inputs) {
+            const value = given?.[input.name];
+            if (value === undefined) continue;
+            const written = rewrite(value);
+            push(
+                {
+                    table: "sys_variable_value",
+                    data: {
+                        document: table,
+                        document_key: `\${${key}}`,
+                        variable: input.sys_id,
+                        value: typeof written === "string" ? written : JSON.stringify(written),
+                    },
+                },
+                `${path}.${input.name}`,
+                step,
+            );
+        }
+    };
+
+    for (const direction of ["inputs", "outputs"] as const) {
+        (definition[direction] ?? []).forEach((variable, i) =>
+            push(
+                {
+                    table: direction === "inputs" ? "sys_hub_flow_input" : "sys_hub_flow_output",
+                    data: {
+                        model: flowRef,
+                        element: variable.name,
+                        label: variable.label ?? variable.name,
+                        internal_type: variable.type ?? "string",
+                        mandatory: variable.mandatory ?? false,
+                        reference: variable.reference ?? "",
+                        order: (i + 1) * 100,
+                    },
+                },
+                `${direction}[${i}]`,
+            ),
+        );
+    }
+
+    if (definition.trigger && definition.type !== "subflow") {
+        const trigger = resolved(catalog, "trigger", definition.trigger.type)!;
+        push(
+            {
+                table: STEP_TABLES.trigger.table,
+                saveAs: "trigger",
+                data: {
+                    flow: flowRef,
+                    [STEP_TABLES.trigger.field]: trigger.record.sys_id,
+                    trigger_type: trigger.record.internalName,
+                    ui_id: uiIdOf("trigger"),
+                    order: 0,
+                },
+            },
+            "trigger",
+        );
+        values(STEP_TABLES.trigger.table, "trigger", definition.trigger.inputs, trigger, "trigger.inputs");
+    }
+
+    let order = 0;
+    const walk = (steps: FlowStep[], path: string, parentUiId: string) =>
+        steps.forEach((step, i) => {
+            const at = `${path}[${i}]`;
+            const key = `step_${step.id}`;
+            const base = { flow: flowRef, order: ++order, ui_id: uiIdOf(step.id), parent_ui_id: parentUiId };
+            if (step.if !== undefined) {
+                const table = STEP_TABLES.logic.table;
+                push(
+                    {
+                        table,
+                        saveAs: key,
+                        data: {
+                            ...base,
+                            [STEP_TABLES.logic.field]: catalog.logic.get("IF"),
+                            values: JSON.stringify({ condition: rewrite(step.if) }),
+                        },
+                    },
+                    at,
+                    step.id,
+                );
+                plan.steps.push({ id: step.id, kind: "if", table, key });
+                walk(step.then ?? [], `${at}.then`, base.ui_id);
+                if (step.else && step.else.length > 0) {
+                    const elseUiId = randomUUID();
+                    push(
+                        {
+                            table,
+                            saveAs: `${key}_else`,
+                            data: {
+                                flow: flowRef,
+                                order: ++order,
+                                ui_id: elseUiId,
+                                parent_ui_id: parentUiId,
+                                connected_to: base.ui_id,
+                                [STEP_TABLES.logic.field]: catalog.logic.get("ELSE"),
+                            },
+                        },
+                        `${at}.else`,
+                        step.id,
+                    );
+                    plan.steps.push({ id: step.id, kind: "else", table, key: `${key}_else` });
+                    walk(step.else, `${at}.else`, elseUiId);
+                }
+            } else {
+                const kind = step.action !== undefined ? "action" : "subflow";
+                const component = resolved(catalog, kind, (step.action ?? step.subflow)!)!;
+                const { table, field } = STEP_TABLES[kind];
+                push({ table, saveAs: key, data: { ...base, [field]: component.record.sys_id } }, at, step.id);
+                plan.steps.push({ id: step.id, kind, table, key });
+                values(table, key, step.inputs, component, `${at}.inputs`, step.id);
+            }
+        });
+    walk(definition.steps, "steps", "");
+
+    return plan;
+}
+
+/** Where the writes land: the session's current application and update set. */
+async function currentTarget(snInstance: ServiceNowInstance): Promise<Pick<FlowBuildResult, "application" | "updateSet">> {
+    const application = await new ScopeManager(snInstance).getCurrentApplication();
+    const updateSet = await new UpdateSetManager(snInstance).getCurrentUpdateSet();
+    return {
+        ...(application ? { application: { sys_id: application.sys_id, name: application.name, scope: application.scope } } : {}),
+        ...(updateSet ? { updateSet: { sys_id: updateSet.sys_id, name: updateSet.name } } : {}),
+    };
+}
+
+/** Reads what the definition refers to and checks it. THROWS FlowDefinitionError with every problem. */
+async function prepare(snInstance: ServiceNowInstance, definition: FlowDefinition): Promise<Catalog> {
+    const catalog = await readCatalog(snInstance, definition);
+    const problems = checkDefinition(definition, catalog);
+    if (problems.length > 0) {
+        throw new FlowDefinitionError(problems);
+    }
+    return catalog;
+}
+
+/** Writes the planned records. THROWS naming the step whose record the instance refused. */
+async function writePlan(
+    snInstance: ServiceNowInstance,
+    plan: Plan,
+    incomplete: (sysIds: Record<string, string>) => string,
+): Promise<Record<string, string>> {
+    if (plan.operations.length === 0) return {};
+    const created = await new BatchOperations(snInstance).batchCreate({ operations: plan.operations, transaction: true });
+    if (created.errors.length > 0) {
+        const failed = created.errors[0];
+        const owner = plan.owners[failed.operationIndex];
+        const where = owner ? `${owner.path}${owner.step ? ` (step "${owner.step}")` : ""}` : failed.table;
+        throw new Error(
+            `Wrote ${created.createdCount} of ${plan.operations.length} records, then the instance refused ` +
+                `the ${failed.table} record for ${where}: ${failed.error}. ${incomplete(created.sysIds)}`,
+        );
+    }
+    return created.sysIds;
+}
+
+function builtSteps(plan: Plan, sysIds: Record<string, string>): BuiltStep[] {
+    return plan.steps.map(({ key, ...step }) => ({ ...step, sys_id: sysIds[key] ?? "" }));
+}
+
+/**
+ * Creates an inactive draft flow or subflow from `definition`. THROWS
+ * FlowDefinitionError, before writing anything, if the definition has problems, and
+ * refuses a name the current application already has a flow by.
+ */
+export async function createFlow(
+    alias: string | undefined,
+    definition: FlowDefinition,
+    onProgress?: ProgressCallback,
+): Promise<FlowBuildResult> {
+    const type = definition.type ?? "flow";
+    const internalName = internalNameOf(definition.name);
+    if (!internalName) {
+        throw new FlowDefinitionError([{ path: "name", message: "The name needs at least one letter or digit." }]);
+    }
+    return withConnectionRetry(alias, async (snInstance) => {
+        const catalog = await prepare(snInstance, definition);
+        onProgress?.(`Checked ${definition.steps.length} top-level steps against the instance`);
+
+        const target = await currentTarget(snInstance);
+        if (target.application) {
+            const [existing] = await readRecords(
+                snInstance,
+                "sys_hub_flow",
+                `internal_name=${internalName}^sys_scope=${target.application.sys_id}`,
+                "sys_id,type",
+            );
+            if (existing) {
+                throw new Error(
+                    `${target.application.name} already has a ${existing.type || "flow"} "${internalName}" (${existing.sys_id}). ` +
+                        "Use update_flow to change it, or choose another name.",
+                );
+            }
+        }
+
+        const plan = planRecords(definition, catalog, "${flow}");
+        plan.operations.unshift({
+            table: "sys_hub_flow",
+            saveAs: "flow",
+            data: {
+                name: definition.name,
+                internal_name: internalName,
+                type,
+                description: definition.description ?? "",
+                run_as: definition.run_as ?? "system",
+                active: false,
+                status: "draft",
+            },
+        });
+        plan.owners.unshift({ path: "name" });
+
+        const sysIds = await writePlan(snInstance, plan, (written) =>
+            written.flow
+                ? `Draft ${type} ${written.flow} is incomplete; delete it before creating it again.`
+                : "Nothing was created.",
+        );
+        onProgress?.(`Wrote ${plan.operations.length} records`);
+        return {
+            flowSysId: sysIds.flow,
+            name: definition.name,
+            internalName,
+            type,
+            recordCount: plan.operations.length,
+            steps: builtSteps(plan, sysIds),
+            ...target,
+        };
+    });
+}
+
+/** The flow or subflow `flowRef` names, if update_flow may replace it with a `type` definition. */
+async function replaceableFlow(
+    snInstance: ServiceNowInstance,
+    flowRef: string,
+    type: "flow" | "subflow",
+): Promise<FlowComponent> {
+    const matches = [
+        ...((await findComponents(snInstance, "flow", [flowRef])).get(flowRef) ?? []),
+        ...((await findComponents(snInstance, "subflow", [flowRef])).get(flowRef) ?? []),
+    ];
+    if (matches.length === 0) {
+        throw new Error(`There is no flow or subflow "${flowRef}".`);
+    }
+    if (matches.length > 1) {
+        throw new Error(
+            `"${flowRef}" names ${matches.length} flows; use the sys_id or scoped name: ` +
+                `${matches.map((m) => `${m.scope}.${m.internalName}`).join(", ")}.`,
+        );
+    }
+    const [flow] = matches;
+    if (flow.kind !== type) {
+        throw new Error(
+            `${flow.name} is a ${flow.kind} and the definition is a ${type}; a ${flow.kind} cannot become a ${type}. ` +
+                "Create a new one instead.",
+        );
+    }
+    if (flow.active) {
+        throw new Error(
+            `${flow.name} is active, and would run half-replaced while it is rewritten. Deactivate it in Flow Designer first.`,
+        );
+    }
+    return flow;
+}
+
+/**
+ * Every record of the flow's current definition, by table, in the order they are
+ * removed: input values before the instances they belong to.
+ */
+async function definitionRecords(snInstance: ServiceNowInstance, flowSysId: string): Promise<Map<string, string[]>> {
+    const records = new Map<string, string[]>();
+    const instanceIds: string[] = [];
+    for (const table of INSTANCE_TABLES) {
+        const ids = (await readRecords(snInstance, table, `flow=${flowSysId}`, "sys_id")).map((record) => record.sys_id);
+        records.set(table, ids);
+        instanceIds.push(...ids);
+    }
+    const valueIds: string[] = [];
+    for (let i = 0; i < instanceIds.length; i += ID_CHUNK) {
+        const query = `document_keyIN${instanceIds.slice(i, i + ID_CHUNK).join(",")}`;
+        valueIds.push(...(await readRecords(snInstance, "sys_variable_value", query, "sys_id")).map((record) => record.sys_id));
+    }
+    for (const table of ["sys_hub_flow_input", "sys_hub_flow_output"]) {
+        records.set(table, (await readRecords(snInstance, table, `model=${flowSysId}`, "sys_id")).map((record) => record.sys_id));
+    }
+    return new Map([["sys_variable_value", valueIds], ...records]);
+}
+
+/** The fields update_flow sets on the sys_hub_flow record itself. */
+function flowFields(definition: FlowDefinition): Record<string, string> {
+    return {
+        name: definition.name,
+        description: definition.description ?? "",
+        run_as: definition.run_as ?? "system",
+    };
+}
+
+/**
+ * Replaces the definition of an existing, inactive flow or subflow: its name,
+ * description and run-as, and every trigger, step and declared variable, which are
+ * written again from `definition`. THROWS FlowDefinitionError, before anything is
+ * changed, if the definition has problems.
+ *
+ * The new records are written first, in one batch; then the flow's own fields are
+ * updated, and the previous records deleted — by the sys_ids read beforehand, so
+ * nothing just written is touched. If the batch fails, nothing of the flow has
+ * changed but for the records it managed to write; a later failure leaves the flow
+ * holding both definitions. Never neither: running update_flow again replaces both.
+ */
+export async function updateFlow(
+    alias: string | undefined,
+    flowRef: string,
+    definition: FlowDefinition,
+    onProgress?: ProgressCallback,
+): Promise<FlowBuildResult> {
+    const type = definition.type ?? "flow";
+    return withConnectionRetry(alias, async (snInstance) => {
+        const flow = await replaceableFlow(snInstance, flowRef, type);
+        const catalog = await prepare(snInstance, definition);
+        onProgress?.(`Checked ${definition.steps.length} top-level steps against the instance`);
+        const target = await currentTarget(snInstance);
+        const previous = await definitionRecords(snInstance, flow.sys_id);
+
+        const plan = planRecords(definition, catalog, flow.sys_id);
+        const sysIds = await writePlan(
+            snInstance,
+            plan,
+            () =>
+                `${flow.name} still holds its previous definition, with any records written here beside it; ` +
+                "fix this and run update_flow again, which replaces both.",
+        );
+        onProgress?.(`Wrote ${plan.operations.length} records`);
+
+        const updated = await new BatchOperations(snInstance).batchUpdate({
+            updates: [{ table: "sys_hub_flow", sysId: flow.sys_id, data: flowFields(definition) }],
+            stopOnError: true,
+        });
+        if (updated.errors.length > 0) {
+            throw new Error(
+                `Wrote ${flow.name}'s new definition, then could not update its name, description and run-as: ` +
+                    `${updated.errors[0].error}. It holds both the new definition and the previous one; ` +
+                    "run update_flow again, which replaces both.",
+            );
+        }
+
+        const queryBatch = new QueryBatchOperations(snInstance);
+        let removedCount = 0;
+        for (const [table, ids] of previous) {
+            for (let i = 0; i < ids.length; i += ID_CHUNK) {
+                const query = `sys_idIN${ids.slice(i, i + ID_CHUNK).join(",")}`;
+                const removed = await queryBatch.queryDelete({ table, query, confirm: true });
+                removedCount += removed.deletedCount;
+                if (!removed.success) {
+                    throw new Error(
+                        `Wrote ${flow.name}'s new definition and removed ${removedCount} records of its previous one, ` +
+                            `then could not delete from ${table}: ${JSON.stringify(removed.errors?.[0] ?? "unknown error")}. ` +
+                            "It now holds the new definition and part of the old; run update_flow again to clear the rest.",
+                    );
+                }
+            }
+        }
+        onProgress?.(`Removed ${removedCount} records of the previous definition`);
+
+        return {
+            flowSysId: flow.sys_id,
+            name: definition.name,
+            internalName: flow.internalName,
+            type,
+            recordCount: plan.operations.length + 1,
+            steps: builtSteps(plan, sysIds),
+            removedCount,
+            ...target,
+        };
+    });
+}
+
+/**
+ * What updateFlow would change, for its dry run: the sys_hub_flow fields, each record
+ * it would write and each it would delete. Reads only. THROWS as updateFlow does.
+ */
+export async function previewFlowUpdate(
+    alias: string | undefined,
+    flowRef: string,
+    definition: FlowDefinition,
+): Promise<FlowUpdatePreview> {
+    const type = definition.type ?? "flow";
+    return withConnectionRetry(alias, async (snInstance) => {
+        const flow = await replaceableFlow(snInstance, flowRef, type);
+        const catalog = await prepare(snInstance, definition);
+        const target = await currentTarget(snInstance);
+        const previous = await definitionRecords(snInstance, flow.sys_id);
+        const [current] = await readRecords(snInstance, "sys_hub_flow", `sys_id=${flow.sys_id}`, "name,description,run_as");
+        const plan = planRecords(definition, catalog, flow.sys_id);
+
+        const headerChanges = fieldChanges(current, flowFields(definition));
+        const changes: RecordChange[] = [
+            ...(headerChanges.length > 0
+                ? [{ table: "sys_hub_flow", sys_id: flow.sys_id, action: "update" as const, fields: headerChanges }]
+                : []),
+            ...plan.operations.map((op) => ({
+                table: op.table,
+                action: "create" as const,
+                fields: fieldChanges(undefined, op.data),
+            })),
+            ...[...previous].flatMap(([table, ids]) => ids.map((sys_id) => ({ table, sys_id, action: "delete" as const }))),
+        ];
+        return {
+            flowSysId: flow.sys_id,
+            name: definition.name,
+            internalName: flow.internalName,
+            type,
+            changes,
+            ...target,
+        };
+    });
+}
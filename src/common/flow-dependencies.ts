@@ -0,0 +1,234 @@
+/**
+ * Who runs a flow, subflow or action, and what it runs in turn — the question to
+ * answer before changing a subflow or custom action other flows may be built on.
+ *
+ * The calls are in the step records: an action step names its action in
+ * `action_type`, a subflow step its subflow in `subflow`, and both name the flow they
+ * belong to in `flow`. Reading them by `flow` gives a component's callees; reading
+ * them by `action_type` or `subflow` gives its callers. Both walks go level by level,
+ * a few queries per level, and a component met again is shown but not expanded again,
+ * which is also what stops a cycle.
+ */
+
+import type { ServiceNowInstance } from "@sonisoft/now-sdk-ext-core";
+
+import { withConnectionRetry } from "./connection.js";
+import { findComponents, resolveComponent, STEP_INSTANCES, type FlowComponent } from "./flow-records.js";
+import { RUNNABLE_KINDS, type RunnableKind } from "./flow-signature.js";
+import { ID_CHUNK, readRecords } from "./table-pages.js";
+
+export type DependencyDirection = "callers" | "callees" | "both";
+
+export const MAX_DEPENDENCY_DEPTH = 10;
+
+export interface FlowTrigger {
+    /** The trigger type, such as record_create. */
+    type: string;
+    name: string;
+}
+
+export interface DependencyNode extends FlowComponent {
+    /** For a flow, what starts it. */
+    trigger?: FlowTrigger;
+    /** Steps of the caller that run the callee. */
+    uses: number;
+    /** Shown earlier in the tree, with its own dependencies; not expanded again. */
+    repeated?: boolean;
+    /** Has dependencies deeper than the walk went. */
+    truncated?: boolean;
+    children: DependencyNode[];
+}
+
+export interface FlowDependencies {
+    root: FlowComponent & { trigger?: FlowTrigger };
+    depth: number;
+    callers?: DependencyNode[];
+    callees?: DependencyNode[];
+    /** Distinct components running the root, at any depth walked. */
+    callerCount: number;
+    /** Distinct components the root runs, at any depth walked. */
+    calleeCount: number;
+    /** Active flows — not subflows — among the callers: what a change to the root reaches. */
+    activeCallingFlows: number;
+}
+
+interface Link {
+    component: FlowComponent;
+    uses: number;
+}
+
+/** The records of `table` whose `field` is one of `ids`. */
+async function readIn(
+    snInstance: ServiceNowInstance,
+    table: string,
+    field: string,
+    ids: string[],
+    fields: string,
+): Promise<Record<string, string>[]> {
+    const records: Record<string, string>[] = [];
+    for (let i = 0; i < ids.length; i += ID_CHUNK) {
+        records.push(...(await readRecords(snInstance, table, `${field}IN${ids.slice(i, i + ID_CHUNK).join(",")}`, fields)));
+    }
+    return records;
+}
+
+/** The components each of `nodes` runs (callees) or is run by (callers), by the node's sys_id. */
+async function neighbours(
+    snInstance: ServiceNowInstance,
+    nodes: FlowComponent[],
+    direction: "callers" | "callees",
+): Promise<Map<string, Link[]>> {
+    // Each step record links a flow or subflow to the action or subflow it runs
+    const links: { from: string; to: string; toAction: boolean }[] = [];
+    for (const kind of ["action", "subflow"] as const) {
+        const { table, field } = STEP_INSTANCES[kind];
+        if (direction === "callees") {
+            const flows = nodes.filter((node) => node.kind === "flow" || node.kind === "subflow");
+            const steps = await readIn(snInstance, table, "flow", flows.map((node) => node.sys_id), `flow,${field}`);
+            links.push(...steps.map((step) => ({ from: step.flow, to: step[field], toAction: kind === "action" })));
+        } else {
+            const called = nodes.filter((node) => node.kind === kind);
+            const steps = await readIn(snInstance, table, field, called.map((node) => node.sys_id), `flow,${field}`);
+            links.push(...steps.map((step) => ({ from: step[field], to: step.flow, toAction: false })));
+        }
+    }
+
+    const actionIds = [...new Set(links.filter((link) => link.toAction).map((link) => link.to))];
+    const flowIds = [...new Set(links.filter((link) => !link.toAction).map((link) => link.to))];
+    const components = new Map<string, FlowComponent>();
+    for (const [kind, ids] of [
+        ["action", actionIds],
+        ["flow", flowIds],
+        ["subflow", flowIds],
+    ] as const) {
+        if (ids.length === 0) continue;
+        for (const [id, found] of await findComponents(snInstance, kind, ids)) {
+            if (found.length > 0) components.set(id, found[0]);
+        }
+    }
+
+    // A step whose action or subflow is gone, or not readable, has nothing to show
+    const uses = new Map<string, Map<string, number>>();
+    for (const link of links) {
+        if (!components.has(link.to)) continue;
+        const counts = uses.get(link.from) ?? new Map<string, number>();
+        counts.set(link.to, (counts.get(link.to) ?? 0) + 1);
+        uses.set(link.from, counts);
+    }
+    return new Map(
+        [...uses.entries()].map(([from, counts]) => [
+            from,
+            [...counts.entries()]
+                .map(([to, count]) => ({ component: components.get(to)!, uses: count }))
+                .sort(
+                    (a, b) =>
+                        a.component.kind.localeCompare(b.component.kind) ||
+                        `${a.component.scope}.${a.component.internalName}`.localeCompare(
+                            `${b.component.scope}.${b.component.internalName}`,
+                        ),
+                ),
+        ]),
+    );
+}
+
+/** The tree of dependencies in one direction, and every node in it. */
+async function walk(
+    snInstance: ServiceNowInstance,
+    root: FlowComponent,
+    direction: "callers" | "callees",
+    depth: number,
+): Promise<{ tree: DependencyNode[]; nodes: DependencyNode[] }> {
+    const tree: DependencyNode[] = [];
+    const nodes: DependencyNode[] = [];
+    const seen = new Set([root.sys_id]);
+    let level: { component: FlowComponent; children: DependencyNode[]; node?: DependencyNode }[] = [
+        { component: root, children: tree },
+    ];
+
+    // One level more than shown, to tell a leaf from a node the depth cut off
+    for (let d = 0; d <= depth && level.length > 0; d++) {
+        const found = await neighbours(
+            snInstance,
+            level.map((entry) => entry.component),
+            direction,
+        );
+        const next: typeof level = [];
+        for (const entry of level) {
+            const links = found.get(entry.component.sys_id) ?? [];
+            if (d === depth) {
+                if (links.length > 0 && entry.node) entry.node.truncated = true;
+                continue;
+            }
+            for (const { component, uses } of links) {
+                const node: DependencyNode = { ...component, uses, children: [] };
+                if (seen.has(component.sys_id)) {
+                    node.repeated = true;
+                } else {
+                    seen.add(component.sys_id);
+                    next.push({ component, children: node.children, node });
+                }
+                entry.children.push(node);
+                nodes.push(node);
+            }
+        }
+        level = next;
+    }
+    return { tree, nodes };
+}
+
+/** What starts each of the flows among `components`, by the flow's sys_id. */
+async function triggersOf(snInstance: ServiceNowInstance, components: FlowComponent[]): Promise<Map<string, FlowTrigger>> {
+    const flowIds = [...new Set(components.filter((c) => c.kind === "flow").map((c) => c.sys_id))];
+    const { table, field } = STEP_INSTANCES.trigger;
+    const instances = await readIn(snInstance, table, "flow", flowIds, `flow,${field}`);
+    const definitions =
+        instances.length > 0
+            ? await findComponents(snInstance, "trigger", [...new Set(instances.map((instance) => instance[field]))])
+            : new Map<string, FlowComponent[]>();
+
+    const triggers = new Map<string, FlowTrigger>();
+    for (const instance of instances) {
+        const [definition] = definitions.get(instance[field]) ?? [];
+        if (definition) triggers.set(instance.flow, { type: definition.internalName, name: definition.name });
+    }
+    return triggers;
+}
+
+/**
+ * The callers and callees of the flow, subflow or action `ref` names, `depth` levels
+ * deep. THROWS if `ref` names none, or several.
+ */
+export async function flowDependencies(
+    alias: string | undefined,
+    ref: string,
+    options: { kind?: RunnableKind; direction: DependencyDirection; depth: number },
+): Promise<FlowDependencies> {
+    const { kind, direction, depth } = options;
+    return withConnectionRetry(alias, async (snInstance) => {
+        const root = await resolveComponent(snInstance, ref, kind ? [kind] : RUNNABLE_KINDS);
+        if (!root) {
+            throw new Error(`There is no ${kind ?? "flow, subflow or action"} "${ref}".`);
+        }
+
+        const callers = direction === "callees" ? undefined : await walk(snInstance, root, "callers", depth);
+        const callees = direction === "callers" ? undefined : await walk(snInstance, root, "callees", depth);
+        const all = [root, ...(callers?.nodes ?? []), ...(callees?.nodes ?? [])];
+        const triggers = await triggersOf(snInstance, all);
+        for (const node of [...(callers?.nodes ?? []), ...(callees?.nodes ?? [])]) {
+            const trigger = triggers.get(node.sys_id);
+            if (trigger) node.trigger = trigger;
+        }
+        const rootTrigger = triggers.get(root.sys_id);
+
+        const distinct = (nodes: DependencyNode[] = []) => nodes.filter((node) => !node.repeated);
+        return {
+            root: { ...root, ...(rootTrigger ? { trigger: rootTrigger } : {}) },
+            depth,
+            ...(callers ? { callers: callers.tree } : {}),
+            ...(callees ? { callees: callees.tree } : {}),
+            callerCount: distinct(callers?.nodes).length,
+            calleeCount: distinct(callees?.nodes).length,
+            activeCallingFlows: distinct(callers?.nodes).filter((node) => node.kind === "flow" && node.active).length,
+        };
+    });
+}
@@ -0,0 +1,288 @@
+/**
+ * Searching flow execution history — sys_flow_context — and summing up its failures,
+ * for when a flow starts failing and one known context is not where to start.
+ *
+ * Where a context failed, and why, is in its log: sys_flow_log entries at level -1
+ * (error) name the step (`action`) and carry the message. The first error logged is
+ * taken as the failure; later ones tend to be the flow reporting that it stopped.
+ * Failures are grouped by that step and message, with sys_ids and numbers in the
+ * message masked, so "No user 7f3a…" and "No user 9b21…" count as one problem.
+ */
+
+import type { ServiceNowInstance } from "@sonisoft/now-sdk-ext-core";
+
+import { withConnectionRetry } from "./connection.js";
+import type { ProgressCallback } from "./progress.js";
+import { ID_CHUNK, readRecords } from "./table-pages.js";
+
+export const FLOW_STATES = ["QUEUED", "IN_PROGRESS", "WAITING", "COMPLETE", "CANCELLED", "ERROR"] as const;
+
+export type FlowState = (typeof FLOW_STATES)[number];
+
+/** Most failed contexts one summary reads. */
+export const MAX_SUMMARIZED_FAILURES = 5000;
+
+/** Most error log entries an error-text search reads. */
+const MAX_ERROR_MATCHES = 1000;
+
+const CONTEXT_FIELDS = "sys_id,name,state,sys_created_on,sys_updated_on,source_table,source_record";
+
+const DATE_TIME = /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}$/;
+
+export interface FlowExecutionFilter {
+    /** Part of the flow's name. */
+    flowName?: string;
+    states?: FlowState[];
+    /** Started within this many hours. */
+    sinceHours?: number;
+    /** Started at or after, `YYYY-MM-DD HH:MM:SS`. */
+    since?: string;
+    /** Started before, `YYYY-MM-DD HH:MM:SS`. */
+    until?: string;
+    /** Part of an error the execution logged. */
+    errorText?: string;
+}
+
+export interface FlowFailure {
+    step: string;
+    message: string;
+}
+
+export interface FlowExecution {
+    sys_id: string;
+    name: string;
+    state: string;
+    started: string;
+    updated: string;
+    sourceTable?: string;
+    sourceRecord?: string;
+    /** For a failed execution, where and why, when it logged an error. */
+    failure?: FlowFailure;
+}
+
+export interface FlowExecutionSearch {
+    query: string;
+    executions: FlowExecution[];
+    /** More executions match than were returned. */
+    truncated: boolean;
+}
+
+export interface FailureGroup {
+    step: string;
+    /** The message with sys_ids and numbers masked. */
+    message: string;
+    count: number;
+    /** One real message of the group, unmasked. */
+    example: string;
+    exampleContextId: string;
+    firstSeen: string;
+    lastSeen: string;
+    /** Failures per flow name. */
+    flows: Record<string, number>;
+}
+
+export interface FailureSummary {
+    query: string;
+    failureCount: number;
+    /** Failures per step, most first. */
+    bySteps: { step: string; count: number }[];
+    /** Most first. */
+    groups: FailureGroup[];
+    /** More failures match than MAX_SUMMARIZED_FAILURES; the summary covers the newest. */
+    truncated: boolean;
+}
+
+/** A value as an encoded query takes it: `^` would otherwise start a new condition. */
+function queryValue(value: string): string {
+    return value.replace(/\^/g, "^^");
+}
+
+/** The message with sys_ids and numbers masked, so failures differing only in those group. */
+function masked(message: string): string {
+    return message
+        .replace(/\b[0-9a-f]{32}\b/gi, "<sys_id>")
+        .replace(/\d+/g, "<n>")
+        .trim();
+}
+
+/** The sys_flow_context query for everything in `filter` except the error text. */
+export function executionQuery(filter: FlowExecutionFilter): string {
+    for (const [label, value] of [
+        ["since", filter.since],
+        ["until", filter.until],
+    ] as const) {
+        if (value !== undefined && !DATE_TIME.test(value)) {
+            throw new Error(`${label} must be a date-time as YYYY-MM-DD HH:MM:SS, not "${value}".`);
+        }
+    }
+    const parts: string[] = [];
+    if (filter.flowName) parts.push(`nameLIKE${queryValue(filter.flowName)}`);
+    if (filter.states && filter.states.length > 0) parts.push(`stateIN${filter.states.join(",")}`);
+    if (filter.sinceHours !== undefined) parts.push(`sys_created_on>=javascript:gs.hoursAgo(${Number(filter.sinceHours)})`);
+    if (filter.since) parts.push(`sys_created_on>=${filter.since}`);
+    if (filter.until) parts.push(`sys_created_on<${filter.until}`);
+    return parts.join("^");
+}
+
+/** Up to `limit` records, newest first, and whether there were more. THROWS on a failed read. */
+async function newest(
+    snInstance: ServiceNowInstance,
+    table: string,
+    query: string,
+    fields: string,
+    limit: number,
+): Promise<{ records: Record<string, string>[]; truncated: boolean }> {
+    // One past the limit, to tell "exactly this many" from "more"
+    const records = await readRecords(
+        snInstance,
+        table,
+        [query, "ORDERBYDESCsys_created_on"].filter(Boolean).join("^"),
+        fields,
+        { limit: limit + 1 },
+    );
+    return { records: records.slice(0, limit), truncated: records.length > limit };
+}
+
+/** The first error each context logged, by context sys_id. */
+async function firstErrors(snInstance: ServiceNowInstance, contextIds: string[]): Promise<Map<string, FlowFailure>> {
+    const failures = new Map<string, FlowFailure>();
+    for (let i = 0; i < contextIds.length; i += ID_CHUNK) {
+        const logs = await readRecords(
+            snInstance,
+            "sys_flow_log",
+            `contextIN${contextIds.slice(i, i + ID_CHUNK).join(",")}^level=-1^ORDERBYsys_created_on`,
+            "context,action,message,sys_created_on",
+        );
+        for (const log of logs) {
+            if (!failures.has(log.context)) {
+                failures.set(log.context, { step: log.action || "(flow)", message: log.message });
+            }
+        }
+    }
+    return failures;
+}
+
+/** The contexts that logged an error containing `errorText`, newest first. */
+async function contextsWithError(
+    snInstance: ServiceNowInstance,
+    errorText: string,
+): Promise<{ ids: string[]; truncated: boolean }> {
+    const { records, truncated } = await newest(
+        snInstance,
+        "sys_flow_log",
+        `level=-1^messageLIKE${queryValue(errorText)}`,
+        "context",
+        MAX_ERROR_MATCHES,
+    );
+    return { ids: [...new Set(records.map((record) => record.context).filter(Boolean))], truncated };
+}
+
+// A field the instance leaves out of a record reads as empty, not as missing
+const execution = (record: Record<string, string>): FlowExecution => ({
+    sys_id: record.sys_id ?? "",
+    name: record.name ?? "",
+    state: record.state ?? "",
+    started: record.sys_created_on ?? "",
+    updated: record.sys_updated_on ?? "",
+    ...(record.source_table ? { sourceTable: record.source_table } : {}),
+    ...(record.source_record ? { sourceRecord: record.source_record } : {}),
+});
+
+/**
+ * The newest `limit` executions matching `filter`, each failed one with its first
+ * logged error. THROWS on a malformed date-time.
+ */
+export async function searchFlowExecutions(
+    alias: string | undefined,
+    filter: FlowExecutionFilter,
+    limit: number,
+): Promise<FlowExecutionSearch> {
+    const query = executionQuery(filter);
+    return withConnectionRetry(alias, async (snInstance) => {
+        let records: Record<string, string>[];
+        let truncated: boolean;
+        if (filter.errorText) {
+            const matched = await contextsWithError(snInstance, filter.errorText);
+            const found: Record<string, string>[] = [];
+            for (let i = 0; i < matched.ids.length; i += ID_CHUNK) {
+                const ids = `sys_idIN${matched.ids.slice(i, i + ID_CHUNK).join(",")}`;
+                found.push(...(await readRecords(snInstance, "sys_flow_context", [query, ids].filter(Boolean).join("^"), CONTEXT_FIELDS)));
+            }
+            found.sort((a, b) => b.sys_created_on.localeCompare(a.sys_created_on));
+            records = found.slice(0, limit);
+            truncated = matched.truncated || found.length > limit;
+        } else {
+            ({ records, truncated } = await newest(snInstance, "sys_flow_context", query, CONTEXT_FIELDS, limit));
+        }
+
+        const failures = await firstErrors(
+            snInstance,
+            records.filter((record) => record.state === "ERROR").map((record) => record.sys_id),
+        );
+        const executions = records.map((record) => {
+            const failure = failures.get(record.sys_id);
+            return { ...execution(record), ...(failure ? { failure } : {}) };
+        });
+        return { query, executions, truncated };
+    });
+}
+
+/**
+ * Groups the failed executions matching `filter` by failing step and message. Only
+ * ERROR contexts count as failures, whatever states the filter names.
+ */
+export async function summarizeFlowFailures(
+    alias: string | undefined,
+    filter: FlowExecutionFilter,
+    onProgress?: ProgressCallback,
+): Promise<FailureSummary> {
+    const query = executionQuery({ ...filter, states: ["ERROR"] });
+    return withConnectionRetry(alias, async (snInstance) => {
+        const { records, truncated } = await newest(snInstance, "sys_flow_context", query, CONTEXT_FIELDS, MAX_SUMMARIZED_FAILURES);
+        onProgress?.(`Read ${records.length} failed executions`);
+        const failures = await firstErrors(
+            snInstance,
+            records.map((record) => record.sys_id),
+        );
+        onProgress?.(`Read the errors of ${failures.size} of them`);
+
+        const needle = filter.errorText?.toLowerCase();
+        const groups = new Map<string, FailureGroup>();
+        const steps = new Map<string, number>();
+        let failureCount = 0;
+        for (const record of records) {
+            const failure = failures.get(record.sys_id) ?? { step: "(unknown)", message: "(no error logged)" };
+            if (needle && !failure.message.toLowerCase().includes(needle)) continue;
+            failureCount += 1;
+            steps.set(failure.step, (steps.get(failure.step) ?? 0) + 1);
+
+            const message = masked(failure.message);
+            const key = `${failure.step}\u0000${message}`;
+            const group = groups.get(key) ?? {
+                step: failure.step,
+                message,
+                count: 0,
+                example: failure.message,
+                exampleContextId: record.sys_id,
+                firstSeen: record.sys_created_on,
+                lastSeen: record.sys_created_on,
+                flows: {},
+            };
+            group.count += 1;
+            group.flows[record.name] = (group.flows[record.name] ?? 0) + 1;
+            if (record.sys_created_on < group.firstSeen) group.firstSeen = record.sys_created_on;
+            if (record.sys_created_on > group.lastSeen) group.lastSeen = record.sys_created_on;
+            groups.set(key, group);
+        }
+
+        return {
+            query,
+            failureCount,
+            bySteps: [...steps.entries()]
+                .map(([step, count]) => ({ step, count }))
+                .sort((a, b) => b.count - a.count || a.step.localeCompare(b.step)),
+            groups: [...groups.values()].sort((a, b) => b.count - a.count || a.step.localeCompare(b.step)),
+            truncated,
+        };
+    });
+}
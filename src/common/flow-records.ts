@@ -0,0 +1,197 @@
+/**
+ * Reads the Flow Designer definition records: the flows, subflows, actions and triggers
+ * themselves, and the inputs and outputs each declares. Flows and subflows share
+ * sys_hub_flow, told apart by `type`; actions are sys_hub_action_type_definition and
+ * triggers sys_hub_trigger_definition. Each kind keeps its declared variables in its
+ * own pair of tables, pointing back through `model`.
+ *
+ * A component is named by sys_id, by internal name, or by scoped name
+ * (`<scope>.<internal name>`, as execute_flow takes it) — except a trigger, which is
+ * named by its type, such as `record_create`.
+ */
+
+import type { ServiceNowInstance } from "@sonisoft/now-sdk-ext-core";
+
+import { readRecords } from "./table-pages.js";
+
+export type ComponentKind = "flow" | "subflow" | "action" | "trigger";
+
+interface KindTables {
+    table: string;
+    /** Narrows a table two kinds share. */
+    query?: string;
+    /** The field a component is named by, besides its sys_id. */
+    nameField: string;
+    inputs: string;
+    outputs: string;
+}
+
+export const COMPONENT_TABLES: Record<ComponentKind, KindTables> = {
+    flow: {
+        table: "sys_hub_flow",
+        query: "type=flow",
+        nameField: "internal_name",
+        inputs: "sys_hub_flow_input",
+        outputs: "sys_hub_flow_output",
+    },
+    subflow: {
+        table: "sys_hub_flow",
+        query: "type=subflow",
+        nameField: "internal_name",
+        inputs: "sys_hub_flow_input",
+        outputs: "sys_hub_flow_output",
+    },
+    action: {
+        table: "sys_hub_action_type_definition",
+        nameField: "internal_name",
+        inputs: "sys_hub_action_input",
+        outputs: "sys_hub_action_output",
+    },
+    trigger: {
+        table: "sys_hub_trigger_definition",
+        nameField: "type",
+        inputs: "sys_hub_trigger_input",
+        outputs: "sys_hub_trigger_output",
+    },
+};
+
+/**
+ * The tables a flow's steps and trigger live in, each with the field naming what the
+ * step runs. All of them point back to their flow or subflow through `flow`.
+ */
+export const STEP_INSTANCES = {
+    action: { table: "sys_hub_action_instance", field: "action_type" },
+    subflow: { table: "sys_hub_sub_flow_instance", field: "subflow" },
+    trigger: { table: "sys_hub_trigger_instance", field: "trigger_definition" },
+} as const;
+
+const SYS_ID = /^[0-9a-f]{32}$/;
+
+export interface FlowComponent {
+    kind: ComponentKind;
+    sys_id: string;
+    name: string;
+    /** internal_name, or a trigger's type. */
+    internalName: string;
+    scope: string;
+    active: boolean;
+}
+
+/** An input or output a component declares. */
+export interface FlowVariable {
+    sys_id: string;
+    name: string;
+    label: string;
+    type: string;
+    mandatory: boolean;
+    /** The table a reference variable points at. */
+    reference?: string;
+}
+
+/**
+ * The components of one kind that each reference names. A reference that matches
+ * nothing maps to an empty list; an unscoped internal name used in several scopes maps
+ * to all of them, and it is the caller's to call that ambiguous.
+ */
+export async function findComponents(
+    snInstance: ServiceNowInstance,
+    kind: ComponentKind,
+    refs: string[],
+): Promise<Map<string, FlowComponent[]>> {
+    const { table, query, nameField } = COMPONENT_TABLES[kind];
+    const unique = [...new Set(refs)];
+    const found = new Map<string, FlowComponent[]>(unique.map((ref) => [ref, []]));
+    if (unique.length === 0) return found;
+
+    const ids = unique.filter((ref) => SYS_ID.test(ref));
+    // A trigger type has no scope to qualify it; anything else may be scope.name.
+    const split = (ref: string) => {
+        const dot = kind === "trigger" ? -1 : ref.lastIndexOf(".");
+        return dot === -1 ? { scope: "", name: ref } : { scope: ref.slice(0, dot), name: ref.slice(dot + 1) };
+    };
+    const names = [...new Set(unique.filter((ref) => !SYS_ID.test(ref)).map((ref) => split(ref).name))];
+    const clauses = [
+        ...(ids.length > 0 ? [`sys_idIN${ids.join(",")}`] : []),
+        ...(names.length > 0 ? [`${nameField}IN${names.join(",")}`] : []),
+    ];
+    const records = await readRecords(
+        snInstance,
+        table,
+        [query, clauses.join("^OR")].filter(Boolean).join("^"),
+        `sys_id,name,${nameField},sys_scope.scope,active`,
+    );
+
+    const components = records.map(
+        (record): FlowComponent => ({
+            kind,
+            sys_id: record.sys_id,
+            name: record.name,
+            internalName: record[nameField],
+            scope: record["sys_scope.scope"],
+            active: record.active !== "false",
+        }),
+    );
+    for (const ref of unique) {
+        const { scope, name } = split(ref);
+        found.set(
+            ref,
+            components.filter((component) =>
+                SYS_ID.test(ref)
+                    ? component.sys_id === ref
+                    : component.internalName === name && (!scope || component.scope === scope),
+            ),
+        );
+    }
+    return found;
+}
+
+/**
+ * The one component among `kinds` that `ref` names. Undefined if none does. THROWS if
+ * several do.
+ */
+export async function resolveComponent(
+    snInstance: ServiceNowInstance,
+    ref: string,
+    kinds: ComponentKind[],
+): Promise<FlowComponent | undefined> {
+    const matches: FlowComponent[] = [];
+    for (const kind of kinds) {
+        matches.push(...((await findComponents(snInstance, kind, [ref])).get(ref) ?? []));
+    }
+    if (matches.length > 1) {
+        throw new Error(
+            `"${ref}" names ${matches.length} components: ` +
+                matches.map((m) => `${m.kind} ${m.scope}.${m.internalName} (${m.sys_id})`).join(", ") +
+                ". Pass a scoped name or a sys_id.",
+        );
+    }
+    return matches[0];
+}
+
+/** The inputs or outputs each component declares, by the component's sys_id, in declared order. */
+export async function readVariables(
+    snInstance: ServiceNowInstance,
+    kind: ComponentKind,
+    direction: "inputs" | "outputs",
+    componentIds: string[],
+): Promise<Map<string, FlowVariable[]>> {
+    const variables = new Map<string, FlowVariable[]>(componentIds.map((id) => [id, []]));
+    if (componentIds.length === 0) return variables;
+    const records = await readRecords(
+        snInstance,
+        COMPONENT_TABLES[kind][direction],
+        `modelIN${[...new Set(componentIds)].join(",")}^ORDERBYorder`,
+        "sys_id,model,element,label,internal_type,mandatory,reference",
+    );
+    for (const record of records) {
+        variables.get(record.model)?.push({
+            sys_id: record.sys_id,
+            name: record.element,
+            label: record.label,
+            type: record.internal_type,
+            mandatory: record.mandatory === "true",
+            reference: record.reference || undefined,
+        });
+    }
+    return variables;
+}
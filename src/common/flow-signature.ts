@@ -0,0 +1,178 @@
+/**
+ * The inputs and outputs a flow, subflow or action declares, and checking the values
+ * an execute call passes against them before anything runs.
+ *
+ * FlowAPI takes whatever inputs it is given: a missing mandatory input or a word where
+ * a number belongs surfaces as an error on the instance, part-way through a run that
+ * may already have changed records. The declarations are in the *_input tables, so the
+ * same mistakes can be caught here first, all of them at once.
+ *
+ * Types are checked by the JSON shape a value must have to mean anything for the
+ * declared internal_type. A type not known here is passed through unchecked — the
+ * instance remains the authority, this only refuses what it would certainly refuse.
+ */
+
+import type { ServiceNowInstance } from "@sonisoft/now-sdk-ext-core";
+
+import { withConnectionRetry } from "./connection.js";
+import {
+    findComponents,
+    readVariables,
+    resolveComponent,
+    type ComponentKind,
+    type FlowComponent,
+    type FlowVariable,
+} from "./flow-records.js";
+
+/** The kinds a caller can run or describe; trigger types are neither. */
+export type RunnableKind = Exclude<ComponentKind, "trigger">;
+
+export const RUNNABLE_KINDS: RunnableKind[] = ["flow", "subflow", "action"];
+
+export interface FlowSignature {
+    component: FlowComponent;
+    inputs: FlowVariable[];
+    outputs: FlowVariable[];
+}
+
+export interface InputProblem {
+    input: string;
+    message: string;
+}
+
+/** Inputs that do not fit the declaration. `problems` holds all of them, not only the first. */
+export class FlowInputError extends Error {
+    constructor(
+        readonly target: string,
+        readonly problems: InputProblem[],
+    ) {
+        super(
+            `The inputs do not match what ${target} declares:\n` +
+                problems.map((p) => `- ${p.input}: ${p.message}`).join("\n"),
+        );
+        this.name = "FlowInputError";
+    }
+}
+
+const SYS_ID = /^[0-9a-f]{32}$/i;
+const NUMBER = /^-?\d+(\.\d+)?$/;
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+const DATE_TIME = /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}$/;
+
+const NUMERIC_TYPES = new Set(["integer", "longint", "decimal", "float", "currency", "price"]);
+const RECORD_TYPES = new Set(["reference", "document_id"]);
+
+/** What is wrong with `value` for an input of `type`, or undefined if nothing is. */
+function typeMismatch(type: string, value: unknown): string | undefined {
+    const got = Array.isArray(value) ? "an array" : typeof value === "object" ? "an object" : JSON.stringify(value);
+    const scalar = typeof value === "string" || typeof value === "number" || typeof value === "boolean";
+    if (type.startsWith("array")) {
+        return Array.isArray(value) ? undefined : `expects an array (${type}), got ${got}`;
+    }
+    if (type === "object") {
+        return typeof value === "object" && !Array.isArray(value) ? undefined : `expects an object, got ${got}`;
+    }
+    if (!scalar) {
+        return `expects a single ${type} value, got ${got}`;
+    }
+    const text = String(value);
+    if (type === "boolean") {
+        return text === "true" || text === "false" ? undefined : `expects true or false, got ${got}`;
+    }
+    if (NUMERIC_TYPES.has(type)) {
+        if (!NUMBER.test(text)) return `expects a number (${type}), got ${got}`;
+        return (type === "integer" || type === "longint") && text.includes(".")
+            ? `expects a whole number (${type}), got ${got}`
+            : undefined;
+    }
+    if (RECORD_TYPES.has(type)) {
+        return SYS_ID.test(text) ? undefined : `expects a record sys_id (${type}), got ${got}`;
+    }
+    if (type === "glide_date") {
+        return DATE.test(text) ? undefined : `expects a date as YYYY-MM-DD, got ${got}`;
+    }
+    if (type === "glide_date_time") {
+        return DATE_TIME.test(text) ? undefined : `expects a date-time as YYYY-MM-DD HH:MM:SS, got ${got}`;
+    }
+    return undefined;
+}
+
+/** Every way `values` fails `inputs`: mandatory inputs left out, and values of the wrong type. */
+export function inputProblems(inputs: FlowVariable[], values: Record<string, unknown>): InputProblem[] {
+    const problems: InputProblem[] = [];
+    for (const input of inputs) {
+        const value = values[input.name];
+        if (value === undefined || value === null || value === "") {
+            if (input.mandatory) {
+                problems.push({ input: input.name, message: `missing, and mandatory${input.type ? ` (${input.type})` : ""}` });
+            }
+            continue;
+        }
+        const mismatch = typeMismatch(input.type, value);
+        if (mismatch) problems.push({ input: input.name, message: mismatch });
+    }
+    return problems;
+}
+
+/**
+ * The signature of the one component among `kinds` that `ref` — a sys_id, internal
+ * name or scope.name — names. Undefined if none does. THROWS if several do.
+ */
+export async function readSignature(
+    snInstance: ServiceNowInstance,
+    ref: string,
+    kinds: RunnableKind[] = RUNNABLE_KINDS,
+): Promise<FlowSignature | undefined> {
+    const component = await resolveComponent(snInstance, ref, kinds);
+    if (!component) return undefined;
+    const [inputs, outputs] = await Promise.all([
+        readVariables(snInstance, component.kind, "inputs", [component.sys_id]),
+        readVariables(snInstance, component.kind, "outputs", [component.sys_id]),
+    ]);
+    return {
+        component,
+        inputs: inputs.get(component.sys_id) ?? [],
+        outputs: outputs.get(component.sys_id) ?? [],
+    };
+}
+
+/** The signature `ref` names, for describe_flow. THROWS if there is none or several. */
+export async function describeFlow(
+    alias: string | undefined,
+    ref: string,
+    kind?: RunnableKind,
+): Promise<FlowSignature> {
+    return withConnectionRetry(alias, async (snInstance) => {
+        const signature = await readSignature(snInstance, ref, kind ? [kind] : RUNNABLE_KINDS);
+        if (!signature) {
+            throw new Error(`There is no ${kind ?? "flow, subflow or action"} "${ref}".`);
+        }
+        return signature;
+    });
+}
+
+/**
+ * Checks the inputs of an execute call before it runs. THROWS FlowInputError if they
+ * do not fit. A name this cannot resolve to one component, or declarations it cannot
+ * read, are left to the instance, which reports them with the rest of the execution.
+ */
+export async function checkExecutionInputs(
+    snInstance: ServiceNowInstance,
+    kind: RunnableKind,
+    scopedName: string,
+    values: Record<string, unknown> = {},
+): Promise<void> {
+    let inputs: FlowVariable[];
+    try {
+        const matches = (await findComponents(snInstance, kind, [scopedName])).get(scopedName) ?? [];
+        if (matches.length !== 1) return;
+        const [component] = matches;
+        inputs = (await readVariables(snInstance, kind, "inputs", [component.sys_id])).get(component.sys_id) ?? [];
+    } catch {
+        return;
+    }
+    const problems = inputProblems(inputs, values);
+    if (problems.length > 0) {
+        throw new FlowInputError(`${kind} ${scopedName}`, problems);
+    }
+}
@@ -11,6 +11,15 @@ import {
 } from "@sonisoft/now-sdk-ext-core";
 
 import { requirementFor } from "./annotations.js";
+import { auditCall } from "./audit.js";
+import { DRY_RUN_PARAM, dryRunFromEnvironment, installDryRun, serverDryRun } from "./dry-run.js";
+import {
+    checkInstance,
+    describeInstancePolicy,
+    installInstancePolicy,
+    instanceRulesFromEnvironment,
+    resolveCallAlias,
+} from "./instance-policy.js";
 import { getLogger } from "./logging.js";
 
 /**
@@ -58,6 +67,24 @@ export function initPolicy(): void {
     if (envDeny) {
         log.info("Instance changes are restricted by the environment", { layer: envDeny.name });
     }
+
+    // 3. Per-alias rules, checked per call AFTER the ladder — they can only narrow it.
+    //    Not a PolicyLayer: a layer is consulted without knowing which instance the call
+    //    is for, and that is the one thing these rules need.
+    const instanceRules = instanceRulesFromEnvironment(process.env, (m) => log.warn(m));
+    installInstancePolicy(instanceRules);
+    if (instanceRules.length > 0) {
+        log.info("Instance changes are restricted per alias", {
+            matrix: describeInstancePolicy(instanceRules, process.env.SN_AUTH_ALIAS),
+        });
+    }
+
+    // 4. Dry-run. Not a refusal — a previewable tool still runs, with dry_run forced on.
+    const dryRun = dryRunFromEnvironment(process.env, (m) => log.warn(m));
+    installDryRun(dryRun);
+    if (dryRun) {
+        log.info("Dry-run mode: write tools preview their changes and make none", { source: "NEX_DRY_RUN" });
+    }
 }
 
 /** Shape of what registerTool receives, narrowed to what the guard touches. */
@@ -68,10 +95,14 @@ interface ToolResult {
     isError?: boolean;
 }
 
-function refusalResult(toolName: string, verbs: readonly Verb[], layer: string): ToolResult {
-    const what = verbs.includes("execute")
-        ? "run scripts, flows or tests"
-        : "change instance data";
+/**
+ * `alias` is set when a per-instance rule refused, so the model learns the restriction
+ * is about WHERE, not WHAT — the same call against another alias may well succeed.
+ */
+function refusalResult(toolName: string, verbs: readonly Verb[], layer: string, alias?: string): ToolResult {
+    const what =
+        (verbs.includes("execute") ? "run scripts, flows or tests" : "change instance data") +
+        (alias ? ` on "${alias}"` : "");
     return {
         content: [
             {
@@ -90,6 +121,28 @@ function refusalResult(toolName: string, verbs: readonly Verb[], layer: string):
     };
 }
 
+/** What a write tool with no preview returns under NEX_DRY_RUN. */
+function dryRunUnavailableResult(toolName: string): ToolResult {
+    return {
+        content: [
+            {
+                type: "text" as const,
+                text:
+                    `Dry run: this server is in dry-run mode (NEX_DRY_RUN), and "${toolName}" ` +
+                    `has no preview, so it was not called and nothing was changed. ` +
+                    `Read-only tools and write tools that accept dry_run are unaffected.`,
+            },
+        ],
+        isError: true,
+    };
+}
+
+/** Whether a tool declared `dry_run` in its input schema — its claim that it can preview. */
+function acceptsDryRun(config: unknown): boolean {
+    const inputSchema = (config as { inputSchema?: Record<string, unknown> } | undefined)?.inputSchema;
+    return Boolean(inputSchema && DRY_RUN_PARAM in inputSchema);
+}
+
 /**
  * Wraps a server so every tool registered through it is permission-checked.
  *
@@ -123,6 +176,7 @@ export function guardServer(server: McpServer): McpServer {
                 // without a permission classification cannot start the server, rather
                 // than failing on first call in front of a user.
                 const requirement = requirementFor(name);
+                const previewable = acceptsDryRun(config);
 
                 const guarded: ToolHandler = async (...args: unknown[]) => {
                     const decision = checkRequirement(requirement);
@@ -135,15 +189,52 @@ export function guardServer(server: McpServer): McpServer {
                         return refusalResult(name, decision.verbs, decision.decidingLayer);
                     }
 
-                    // Logged so a session's mutations are reconstructable afterwards.
-                    // Reads are not logged — they are the overwhelming majority and
-                    // would drown the signal.
                     if (requirement.verbs.length > 0 && requirement.target === "instance") {
+                        // args[0] is the parsed input for every tool with an inputSchema,
+                        // which every instance-targeting tool has.
+                        const input = args[0] as { instance?: unknown } | undefined;
+                        const alias = resolveCallAlias(input?.instance);
+                        const denial = checkInstance(alias, requirement.verbs);
+                        if (denial) {
+                            log.warn("Refused a tool call", {
+                                tool: name,
+                                alias: denial.alias,
+                                verbs: denial.verbs,
+                                decidingLayer: denial.source,
+                            });
+                            return refusalResult(name, denial.verbs, denial.source, denial.alias);
+                        }
+
+                        // Server-wide dry-run is enforced HERE, not trusted to each tool:
+                        // a previewable tool runs with dry_run forced on, whatever the
+                        // model passed, and any other write tool does not run at all.
+                        if (serverDryRun()) {
+                            if (!previewable) {
+                                log.info("Refused a tool call with no preview in dry-run mode", { tool: name, alias });
+                                return dryRunUnavailableResult(name);
+                            }
+                            return handler({ ...(input ?? {}), [DRY_RUN_PARAM]: true }, ...args.slice(1));
+                        }
+                        // A per-call preview changes nothing, so there is nothing to audit.
+                        if (previewable && (input as Record<string, unknown> | undefined)?.[DRY_RUN_PARAM] === true) {
+                            return handler(...args);
+                        }
+
+                        // Logged so a session's mutations are reconstructable afterwards.
+                        // Reads are not logged — they are the overwhelming majority and
+                        // would drown the signal.
                         log.info("Permitted a change", {
                             tool: name,
+                            alias,
                             verbs: requirement.verbs,
                             grantedBy: decision.decidingLayer,
                         });
+
+                        // The durable record, when NEX_AUDIT_LOG is set: arguments,
+                        // outcome and the records touched, which the line above omits.
+                        return auditCall({ tool: name, verbs: requirement.verbs, alias }, args, () =>
+                            handler(...args),
+                        );
                     }
 
                     return handler(...args);
@@ -0,0 +1,343 @@
+/**
+ * Streamable HTTP transport — one shared server for a team instead of one process each.
+ *
+ * Opt-in. stdio stays the default because that is how every MCP client launches a
+ * server, and a listener nobody asked for is a listener nobody secured. Selection is
+ * environment-only for the same reason as everything else here: the server does not
+ * own its argv.
+ *
+ * Each MCP session gets its OWN McpServer, built by the factory it is given. An
+ * McpServer holds a single transport, and the tool registrations on it close over
+ * nothing session-specific, so one-per-session is both required and cheap. What IS
+ * shared is everything decided once at startup — the policy ladder, the tool package,
+ * the credential store, the connection cache — so every session sees the same
+ * restrictions and the same instances.
+ *
+ * Streamable HTTP covers SSE as well: a POST may be answered with an event stream, and
+ * a GET opens the standalone stream the server uses for notifications. The older
+ * HTTP+SSE transport is deprecated in the spec and not offered.
+ *
+ * Authentication is a single static bearer token. That is deliberately modest — it
+ * keeps a port on a shared network from being an open door to every instance this
+ * server holds credentials for. It is not per-user identity, and every caller acts
+ * with the server's credentials.
+ *
+ * The token is optional on loopback, which is exactly where a browser is the threat:
+ * any page the developer visits can rebind its own hostname to 127.0.0.1 and post to
+ * the port. So a loopback listener only answers requests addressed to it by a loopback
+ * Host, and any listener refuses a request carrying an Origin it was not told to trust.
+ *
+ * A client that goes away without a DELETE leaves its session behind; sessions with
+ * no request for a while are closed, so a long-lived shared server does not collect them.
+ */
+
+import { createHash, randomUUID, timingSafeEqual } from "node:crypto";
+import { createServer as createHttpServer, IncomingMessage, Server, ServerResponse } from "node:http";
+import { AddressInfo } from "node:net";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+
+import { getLogger } from "./logging.js";
+
+const log = getLogger("http");
+
+/** Which transport the server speaks. */
+export type TransportKind = "stdio" | "http";
+
+export interface HttpTransportConfig {
+    host: string;
+    port: number;
+    /** Bearer token required on every request. Undefined only on a loopback bind. */
+    token?: string;
+    /** Browser origins to accept besides the listener's own loopback ones. */
+    allowedOrigins?: string[];
+    /** How long a session may go without a request before it is closed. */
+    sessionIdleMs?: number;
+}
+
+/** The single endpoint path. Streamable HTTP uses one URL for POST, GET and DELETE. */
+export const MCP_PATH = "/mcp";
+
+const DEFAULT_HOST = "127.0.0.1";
+const DEFAULT_PORT = 3000;
+const DEFAULT_SESSION_IDLE_MS = 30 * 60 * 1000;
+
+/** The longest wait between sweeps for idle sessions. */
+const MAX_SWEEP_MS = 60 * 1000;
+
+/**
+ * Largest request body accepted. Generous for JSON-RPC — import_records_xml carries
+ * whole XML documents — but bounded, so an unauthenticated caller cannot make the
+ * server buffer without limit before the token has even been checked.
+ */
+const MAX_BODY_BYTES = 16 * 1024 * 1024;
+
+const LOOPBACK_HOSTS = new Set(["127.0.0.1", "::1", "localhost"]);
+
+/**
+ * Reads MCP_TRANSPORT. An unrecognised value THROWS rather than falling back to stdio:
+ * an operator who asked for a listener and got a process that exits when stdin closes
+ * would see a container restart loop with no reason attached.
+ */
+export function transportFromEnvironment(env: NodeJS.ProcessEnv): TransportKind {
+    const raw = env.MCP_TRANSPORT?.trim().toLowerCase();
+    if (!raw || raw === "stdio") {
+        return "stdio";
+    }
+    if (raw === "http") {
+        return "http";
+    }
+    throw new Error(`MCP_TRANSPORT must be "stdio" or "http", got "${env.MCP_TRANSPORT}".`);
+}
+
+/**
+ * Reads MCP_HTTP_HOST, MCP_HTTP_PORT, MCP_HTTP_TOKEN, MCP_HTTP_ALLOWED_ORIGINS and
+ * MCP_HTTP_SESSION_IDLE_MINUTES.
+ *
+ * Refuses to bind anything but loopback without a token. The alternative is a server
+ * that answers anyone who can reach the port with the credentials of every instance
+ * it knows — and "I forgot to set the token" must not be how that happens.
+ */
+export function httpConfigFromEnvironment(env: NodeJS.ProcessEnv): HttpTransportConfig {
+    const host = env.MCP_HTTP_HOST?.trim() || DEFAULT_HOST;
+
+    const rawPort = env.MCP_HTTP_PORT?.trim();
+    const port = rawPort ? Number(rawPort) : DEFAULT_PORT;
+    if (!Number.isInteger(port) || port < 0 || port > 65535) {
+        throw new Error(`MCP_HTTP_PORT must be a port number, got "${rawPort}".`);
+    }
+
+    const token = env.MCP_HTTP_TOKEN?.trim() || undefined;
+    if (!token && !LOOPBACK_HOSTS.has(host)) {
+        throw new Error(
+            `MCP_HTTP_TOKEN is required when MCP_HTTP_HOST is not a loopback address (got "${host}").`,
+        );
+    }
+
+    const origins = env.MCP_HTTP_ALLOWED_ORIGINS?.split(",").map((o) => o.trim()).filter(Boolean);
+    const allowedOrigins = origins && origins.length > 0 ? origins : undefined;
+
+    const rawIdle = env.MCP_HTTP_SESSION_IDLE_MINUTES?.trim();
+    const idleMinutes = rawIdle ? Number(rawIdle) : undefined;
+    if (idleMinutes !== undefined && !(idleMinutes > 0)) {
+        throw new Error(`MCP_HTTP_SESSION_IDLE_MINUTES must be a positive number, got "${rawIdle}".`);
+    }
+    const sessionIdleMs = idleMinutes === undefined ? undefined : idleMinutes * 60 * 1000;
+
+    return { host, port, token, allowedOrigins, sessionIdleMs };
+}
+
+/** Constant-time comparison. Hashing first makes the lengths equal, which timingSafeEqual requires. */
+function tokenMatches(header: string | undefined, expected: string): boolean {
+    const match = /^Bearer\s+(.+)$/i.exec(header ?? "");
+    if (!match) {
+        return false;
+    }
+    const digest = (s: string) => createHash("sha256").update(s).digest();
+    return timingSafeEqual(digest(match[1].trim()), digest(expected));
+}
+
+/** A JSON-RPC error with no id — the shape the SDK itself uses for transport-level rejections. */
+function sendJsonRpcError(res: ServerResponse, status: number, code: number, message: string): void {
+    res.writeHead(status, { "Content-Type": "application/json" }).end(
+        JSON.stringify({ jsonrpc: "2.0", error: { code, message }, id: null }),
+    );
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of req) {
+        size += (chunk as Buffer).length;
+        if (size > MAX_BODY_BYTES) {
+            throw new RangeError(`Request body exceeds ${MAX_BODY_BYTES} bytes`);
+        }
+        chunks.push(chunk as Buffer);
+    }
+    return JSON.parse(Buffer.concat(chunks).toString("utf8"));
+}
+
+interface Session {
+    transport: StreamableHTTPServerTransport;
+    server: McpServer;
+    /** When the last request on the session ended. */
+    lastActive: number;
+    /** Requests still open, the standalone GET stream among them. */
+    inFlight: number;
+}
+
+export interface RunningHttpTransport {
+    /** The listening socket's actual address — the port is meaningful when 0 was requested. */
+    address: AddressInfo;
+    /** Live session count, for logging and tests. */
+    sessionCount(): number;
+    /** Closes every session, then the listener. */
+    close(): Promise<void>;
+}
+
+/**
+ * Starts the listener. Resolves once it is accepting connections; rejects if the
+ * bind fails (port in use, address not available), so startup fails loudly.
+ */
+export async function startHttpTransport(
+    createServer: () => McpServer,
+    config: HttpTransportConfig,
+): Promise<RunningHttpTransport> {
+    const sessions = new Map<string, Session>();
+    const sessionIdleMs = config.sessionIdleMs ?? DEFAULT_SESSION_IDLE_MS;
+    // Known once the listener is bound, which is before any request arrives.
+    let allowedHosts: string[] = [];
+    let allowedOrigins: string[] = [];
+
+    if (!config.token) {
+        log.warn("HTTP transport has no MCP_HTTP_TOKEN; accepting unauthenticated requests on loopback only", {
+            host: config.host,
+        });
+    }
+
+    async function openSession(req: IncomingMessage, res: ServerResponse, body: unknown): Promise<void> {
+        const server = createServer();
+        const transport = new StreamableHTTPServerTransport({
+            sessionIdGenerator: () => randomUUID(),
+            // handle() checks the same lists first; this keeps the transport safe on its own.
+            enableDnsRebindingProtection: true,
+            allowedHosts: allowedHosts.length > 0 ? allowedHosts : undefined,
+            allowedOrigins,
+            onsessioninitialized: (sessionId) => {
+                sessions.set(sessionId, { transport, server, lastActive: Date.now(), inFlight: 0 });
+                log.info("Opened an MCP session", { sessionId, sessions: sessions.size });
+            },
+        });
+        // Set before connect: Protocol.connect chains onto an existing onclose rather
+        // than replacing it. Fires for a client DELETE and for close() alike.
+        transport.onclose = () => {
+            const sessionId = transport.sessionId;
+            if (sessionId && sessions.delete(sessionId)) {
+                log.info("Closed an MCP session", { sessionId, sessions: sessions.size });
+            }
+        };
+        await server.connect(transport);
+        await transport.handleRequest(req, res, body);
+    }
+
+    async function handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+        const url = new URL(req.url ?? "/", "http://localhost");
+        if (url.pathname !== MCP_PATH) {
+            res.writeHead(404).end();
+            return;
+        }
+
+        // A page rebinding its hostname to loopback still sends that hostname as Host.
+        const host = req.headers.host;
+        if (allowedHosts.length > 0 && (!host || !allowedHosts.includes(host))) {
+            sendJsonRpcError(res, 403, -32000, `Invalid Host header: ${host}`);
+            return;
+        }
+        const origin = req.headers.origin;
+        if (origin && !allowedOrigins.includes(origin)) {
+            sendJsonRpcError(res, 403, -32000, `Invalid Origin header: ${origin}`);
+            return;
+        }
+
+        // Before the body is read: an unauthenticated caller should cost nothing.
+        if (config.token && !tokenMatches(req.headers.authorization, config.token)) {
+            res.writeHead(401, { "WWW-Authenticate": "Bearer", "Content-Type": "application/json" }).end(
+                JSON.stringify({ error: "unauthorized" }),
+            );
+            return;
+        }
+
+        let body: unknown;
+        if (req.method === "POST") {
+            try {
+                body = await readJsonBody(req);
+            } catch (error) {
+                const tooLarge = error instanceof RangeError;
+                sendJsonRpcError(res, tooLarge ? 413 : 400, -32700, tooLarge ? error.message : "Parse error");
+                return;
+            }
+        }
+
+        const sessionId = req.headers["mcp-session-id"];
+        if (typeof sessionId === "string") {
+            const session = sessions.get(sessionId);
+            if (!session) {
+                // 404 is what the spec tells a client to answer by re-initializing.
+                sendJsonRpcError(res, 404, -32001, "Session not found");
+                return;
+            }
+            session.inFlight += 1;
+            res.once("close", () => {
+                session.inFlight -= 1;
+                session.lastActive = Date.now();
+            });
+            await session.transport.handleRequest(req, res, body);
+            return;
+        }
+
+        if (req.method === "POST" && isInitializeRequest(body)) {
+            await openSession(req, res, body);
+            return;
+        }
+
+        sendJsonRpcError(res, 400, -32000, "Bad Request: no valid session ID provided");
+    }
+
+    const httpServer: Server = createHttpServer((req, res) => {
+        handle(req, res).catch((error) => {
+            log.error("HTTP request failed", { error });
+            if (!res.headersSent) {
+                sendJsonRpcError(res, 500, -32603, "Internal server error");
+            } else {
+                res.end();
+            }
+        });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+        httpServer.once("error", reject);
+        httpServer.listen(config.port, config.host, () => {
+            httpServer.off("error", reject);
+            resolve();
+        });
+    });
+
+    const address = httpServer.address() as AddressInfo;
+    const loopback = ["127.0.0.1", "localhost", "[::1]"].map((h) => `${h}:${address.port}`);
+    if (LOOPBACK_HOSTS.has(config.host)) {
+        allowedHosts = loopback;
+    }
+    allowedOrigins = [...loopback.map((h) => `http://${h}`), ...(config.allowedOrigins ?? [])];
+
+    const sweeper = setInterval(
+        () => {
+            const now = Date.now();
+            for (const [sessionId, session] of sessions) {
+                if (session.inFlight === 0 && now - session.lastActive >= sessionIdleMs) {
+                    log.info("Closing an idle MCP session", { sessionId });
+                    // onclose removes it from the map.
+                    session.transport.close().catch((error) => log.warn("Closing an idle session failed", { error }));
+                }
+            }
+        },
+        Math.min(sessionIdleMs, MAX_SWEEP_MS),
+    );
+    sweeper.unref();
+
+    return {
+        address,
+        sessionCount: () => sessions.size,
+        async close() {
+            clearInterval(sweeper);
+            // Copy first: each close fires onclose, which deletes from the map.
+            for (const { server } of [...sessions.values()]) {
+                await server.close();
+            }
+            // Keep-alive sockets would otherwise hold close() open until they time out.
+            const closed = new Promise<void>((resolve) => httpServer.close(() => resolve()));
+            httpServer.closeAllConnections();
+            await closed;
+        },
+    };
+}
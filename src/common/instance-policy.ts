@@ -0,0 +1,194 @@
+import type { Verb } from "@sonisoft/now-sdk-ext-core";
+
+/**
+ * Per-instance restrictions: "dev is writable, prod is read-only" inside one session.
+ *
+ * The ladder in guard.ts is process-wide — NEX_POLICY_DENY blocks a verb for every
+ * alias or for none. That matches the CLI, where one invocation talks to one instance,
+ * but a model session routinely holds several aliases and the difference between them
+ * is the whole point. These rules are evaluated per call, against the alias the call
+ * will actually connect to.
+ *
+ * They only ever REMOVE permission. An alias rule cannot grant what NEX_POLICY_DENY
+ * refused; the process-wide ladder is checked first and this is checked after.
+ *
+ * Two sources, both environment-only for the same reason as the rest of the policy:
+ *
+ *   NEX_POLICY_DENY_<alias>=write,execute     one alias, named in the variable
+ *   NEX_POLICY_INSTANCE_DENY="prod*:all; *-uat:write"
+ *                                            glob patterns, for aliases that cannot
+ *                                            be spelled as an env var name, or for a
+ *                                            naming convention rather than a list
+ *
+ * Alias matching is case-insensitive: environment variable names are on Windows, and
+ * a rule that silently stopped applying because of case is the failure to avoid.
+ */
+
+/** One configured restriction. */
+export interface InstanceRule {
+    /** Alias, or glob pattern with `*` and `?`. */
+    pattern: string;
+    /** Verbs refused on matching aliases. */
+    deny: Verb[];
+    /** Where the rule came from, for refusals and the startup log. */
+    source: string;
+}
+
+/** A refusal decided by an instance rule. */
+export interface InstanceDenial {
+    alias: string;
+    verbs: Verb[];
+    source: string;
+}
+
+const ALIAS_PREFIX = "NEX_POLICY_DENY_";
+const PATTERN_VARIABLE = "NEX_POLICY_INSTANCE_DENY";
+
+const ALL_VERBS: Verb[] = ["write", "execute"];
+
+let installed: InstanceRule[] = [];
+
+/**
+ * Parses a verb list. Malformed values FAIL CLOSED — refuse everything — matching how
+ * core treats NEX_POLICY_DENY: an operator who typed `wirte` meant to restrict
+ * something, and guessing "nothing" is the unsafe direction.
+ */
+function parseVerbs(raw: string, source: string, warn: (message: string) => void): Verb[] {
+    const verbs = new Set<Verb>();
+    for (const part of raw.split(",").map((p) => p.trim().toLowerCase()).filter((p) => p.length > 0)) {
+        if (part === "all") {
+            ALL_VERBS.forEach((v) => verbs.add(v));
+        } else if (part === "write" || part === "execute") {
+            verbs.add(part);
+        } else {
+            warn(`${source}: unrecognised verb "${part}"; refusing write and execute for safety`);
+            return [...ALL_VERBS];
+        }
+    }
+    return ALL_VERBS.filter((v) => verbs.has(v));
+}
+
+/** Reads both sources. Rules with an empty verb list are dropped — they restrict nothing. */
+export function instanceRulesFromEnvironment(
+    env: NodeJS.ProcessEnv,
+    warn: (message: string) => void,
+): InstanceRule[] {
+    const rules: InstanceRule[] = [];
+
+    for (const [name, value] of Object.entries(env)) {
+        if (!name.startsWith(ALIAS_PREFIX) || value === undefined) {
+            continue;
+        }
+        const alias = name.slice(ALIAS_PREFIX.length);
+        if (alias.length === 0) {
+            continue;
+        }
+        const deny = parseVerbs(value, name, warn);
+        if (deny.length > 0) {
+            rules.push({ pattern: alias, deny, source: name });
+        }
+    }
+
+    const patterns = env[PATTERN_VARIABLE];
+    if (patterns) {
+        for (const entry of patterns.split(/[;\n]/).map((e) => e.trim()).filter((e) => e.length > 0)) {
+            const separator = entry.lastIndexOf(":");
+            if (separator <= 0) {
+                // No verbs to read, but the operator meant to restrict something. Fail
+                // closed on the pattern they wrote — or on every alias, when even the
+                // pattern is missing.
+                warn(`${PATTERN_VARIABLE}: entry "${entry}" has no ":verbs"; refusing write and execute for safety`);
+                rules.push({ pattern: separator === 0 ? "*" : entry, deny: [...ALL_VERBS], source: PATTERN_VARIABLE });
+                continue;
+            }
+            const pattern = entry.slice(0, separator).trim();
+            const deny = parseVerbs(entry.slice(separator + 1), `${PATTERN_VARIABLE} (${pattern})`, warn);
+            if (deny.length > 0) {
+                rules.push({ pattern, deny, source: PATTERN_VARIABLE });
+            }
+        }
+    }
+
+    return rules;
+}
+
+function matches(pattern: string, alias: string): boolean {
+    const regex = new RegExp(
+        "^" + pattern.replace(/[.+^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*").replace(/\?/g, ".") + "$",
+        "i",
+    );
+    return regex.test(alias);
+}
+
+/** Installs the rules for this process. Call once, at startup, from initPolicy. */
+export function installInstancePolicy(rules: InstanceRule[]): void {
+    installed = rules;
+}
+
+/** Test seam, mirroring core's resetPolicyForTests. */
+export function resetInstancePolicyForTests(): void {
+    installed = [];
+}
+
+/** The alias a call will connect to — the same resolution connection.ts applies. */
+export function resolveCallAlias(instance: unknown): string | undefined {
+    if (typeof instance === "string" && instance.length > 0) {
+        return instance;
+    }
+    return process.env.SN_AUTH_ALIAS || undefined;
+}
+
+/**
+ * Which of `verbs` the installed rules refuse on `alias`, and which rule said so.
+ * Undefined when nothing is refused. Every matching rule contributes; the first one
+ * to deny a requested verb is the one named in the refusal.
+ */
+export function checkInstance(alias: string | undefined, verbs: readonly Verb[]): InstanceDenial | undefined {
+    if (!alias || verbs.length === 0) {
+        return undefined;
+    }
+    const refused = new Set<Verb>();
+    let source: string | undefined;
+    for (const rule of installed) {
+        if (!matches(rule.pattern, alias)) {
+            continue;
+        }
+        for (const verb of rule.deny) {
+            if (verbs.includes(verb)) {
+                refused.add(verb);
+                source ??= rule.source;
+            }
+        }
+    }
+    if (!source) {
+        return undefined;
+    }
+    return { alias, verbs: ALL_VERBS.filter((v) => refused.has(v)), source };
+}
+
+/**
+ * The effective matrix for the startup log: one row per rule, plus the default alias
+ * when one is set, since that is what every call without an `instance` resolves to.
+ */
+export function describeInstancePolicy(
+    rules: InstanceRule[],
+    defaultAlias: string | undefined,
+): Record<string, string>[] {
+    const verdict = (denied: boolean) => (denied ? "denied" : "permitted");
+    const rows = rules.map((rule) => ({
+        alias: rule.pattern,
+        write: verdict(rule.deny.includes("write")),
+        execute: verdict(rule.deny.includes("execute")),
+        source: rule.source,
+    }));
+    if (defaultAlias) {
+        const matching = rules.filter((r) => matches(r.pattern, defaultAlias));
+        rows.push({
+            alias: `${defaultAlias} (SN_AUTH_ALIAS)`,
+            write: verdict(matching.some((r) => r.deny.includes("write"))),
+            execute: verdict(matching.some((r) => r.deny.includes("execute"))),
+            source: matching.map((r) => r.source).join(", ") || "no instance rule",
+        });
+    }
+    return rows;
+}
@@ -0,0 +1,153 @@
+/**
+ * Field-level comparison of records read from two instances.
+ *
+ * "Is this script include the same in test and prod?" is a promotion check people ran
+ * by opening two browser tabs. Both reads are plain Table API GETs; what needs care is
+ * deciding what counts as different:
+ *
+ * - sys_updated_on, sys_updated_by and sys_mod_count differ between any two instances
+ *   that were ever touched separately, so they are ignored unless the caller says
+ *   otherwise. Noise in every result teaches the reader to skim past the real diff.
+ * - A field present on one side and absent on the other is a difference, not a match:
+ *   it usually means the two instances' schemas have drifted, which is exactly what a
+ *   promotion check is for.
+ * - Records are matched by a key field. sys_id works for records that travelled by
+ *   update set; a record created separately on each side has a different sys_id and
+ *   must be matched on something like `name`.
+ */
+
+/** Ignored unless the caller passes its own list. `*` matches any run of characters. */
+export const DEFAULT_IGNORED_FIELDS = ["sys_updated_*", "sys_mod_count"];
+
+export interface FieldDifference {
+    field: string;
+    /** `null` when the field is absent on that side. */
+    source: unknown;
+    target: unknown;
+}
+
+export interface RecordPairDifference {
+    key: string;
+    sourceSysId: string;
+    targetSysId: string;
+    differences: FieldDifference[];
+}
+
+export interface UnmatchedRecord {
+    key: string;
+    sys_id: string;
+}
+
+export interface SetComparison {
+    /** In the source only. */
+    missing: UnmatchedRecord[];
+    /** In the target only. */
+    extra: UnmatchedRecord[];
+    differing: RecordPairDifference[];
+    identicalCount: number;
+    /** Keys held by more than one record on a side. Those records are left out of the comparison. */
+    duplicateKeys: { side: "source" | "target"; key: string }[];
+}
+
+/** A predicate for the ignore list. Matching is case-sensitive, as field names are. */
+export function fieldFilter(ignored: string[]): (field: string) => boolean {
+    const patterns = ignored.map(
+        (pattern) => new RegExp("^" + pattern.replace(/[.+?^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*") + "$"),
+    );
+    return (field) => !patterns.some((pattern) => pattern.test(field));
+}
+
+/** Reference fields read without exclude_reference_link come back as `{ link, value }`; the link names the instance. */
+function comparable(value: unknown): string {
+    if (value !== null && typeof value === "object" && "value" in value && "link" in value) {
+        return JSON.stringify((value as { value: unknown }).value);
+    }
+    return JSON.stringify(value ?? null);
+}
+
+/** The compared fields whose values differ, in field-name order. */
+export function diffRecords(
+    source: Record<string, unknown>,
+    target: Record<string, unknown>,
+    compared: (field: string) => boolean,
+): FieldDifference[] {
+    const fields = [...new Set([...Object.keys(source), ...Object.keys(target)])].filter(compared).sort();
+    const differences: FieldDifference[] = [];
+    for (const field of fields) {
+        const inSource = field in source;
+        const inTarget = field in target;
+        if (inSource && inTarget && comparable(source[field]) === comparable(target[field])) {
+            continue;
+        }
+        differences.push({
+            field,
+            source: inSource ? source[field] ?? null : null,
+            target: inTarget ? target[field] ?? null : null,
+        });
+    }
+    return differences;
+}
+
+function indexByKey(
+    records: Record<string, unknown>[],
+    keyField: string,
+    side: "source" | "target",
+    duplicateKeys: SetComparison["duplicateKeys"],
+): Map<string, Record<string, unknown>> {
+    const index = new Map<string, Record<string, unknown>>();
+    const duplicated = new Set<string>();
+    for (const record of records) {
+        const key = String(record[keyField] ?? "");
+        if (index.has(key)) {
+            duplicated.add(key);
+        }
+        index.set(key, record);
+    }
+    for (const key of duplicated) {
+        index.delete(key);
+        duplicateKeys.push({ side, key });
+    }
+    return index;
+}
+
+/**
+ * Compares two result sets record by record, matched on `keyField`. A key held by two
+ * records on one side cannot be paired honestly, so it is reported rather than guessed.
+ */
+export function compareRecordSets(
+    source: Record<string, unknown>[],
+    target: Record<string, unknown>[],
+    keyField: string,
+    compared: (field: string) => boolean,
+): SetComparison {
+    const duplicateKeys: SetComparison["duplicateKeys"] = [];
+    const sourceIndex = indexByKey(source, keyField, "source", duplicateKeys);
+    const targetIndex = indexByKey(target, keyField, "target", duplicateKeys);
+    const skipped = new Set(duplicateKeys.map((d) => d.key));
+
+    const comparison: SetComparison = { missing: [], extra: [], differing: [], identicalCount: 0, duplicateKeys };
+    for (const [key, record] of sourceIndex) {
+        const other = targetIndex.get(key);
+        if (!other) {
+            if (!skipped.has(key)) comparison.missing.push({ key, sys_id: String(record.sys_id ?? "") });
+            continue;
+        }
+        const differences = diffRecords(record, other, compared);
+        if (differences.length === 0) {
+            comparison.identicalCount += 1;
+        } else {
+            comparison.differing.push({
+                key,
+                sourceSysId: String(record.sys_id ?? ""),
+                targetSysId: String(other.sys_id ?? ""),
+                differences,
+            });
+        }
+    }
+    for (const [key, record] of targetIndex) {
+        if (!sourceIndex.has(key) && !skipped.has(key)) {
+            comparison.extra.push({ key, sys_id: String(record.sys_id ?? "") });
+        }
+    }
+    return comparison;
+}
@@ -0,0 +1,157 @@
+/**
+ * Structured output from a background script.
+ *
+ * Scripts - Background returns one thing: the lines the script printed. A log line
+ * comes back the same as a print, with no level, and a value the script computed
+ * comes back as whatever its toString made of it. So the script is given a way to
+ * say which is which. `gs.info(…)`, `gs.warn(…)` and `gs.error(…)` calls are
+ * rewritten to print the message under a level tag, and `nex.result(value)` prints
+ * `value` as JSON under a result tag; the lines that come back are sorted by tag.
+ *
+ * The rewrite is textual — a call spelled `gs["info"](…)`, or made through a
+ * variable holding `gs`, is not seen and logs as it always did. String literals and
+ * comments are stepped over, so `"call gs.info(x)"` stays as written, and so is
+ * `foo.gs.info(…)`, which is not the global. A regex literal holding a quote can
+ * throw that stepping off; a call after it may then be missed or a string changed.
+ * A rewritten call prints instead of writing to the system log; that is the trade
+ * for getting its level back.
+ *
+ * A script that uses neither is sent exactly as written. The helpers go on the
+ * script's first line, so a line number in an error still points at the user's line.
+ */
+
+export type LogLevel = "info" | "warn" | "error";
+
+const LEVELS: readonly LogLevel[] = ["info", "warn", "error"];
+
+/** Tags are bracketed and namespaced so an ordinary print cannot be mistaken for one. */
+const TAG_PREFIX = "[[nex:";
+const TAG_SUFFIX = "]] ";
+const RESULT_TAG = scriptTag("result");
+
+/** The text a script prints before a line to tag it `name`. */
+export function scriptTag(name: string): string {
+    return `${TAG_PREFIX}${name}${TAG_SUFFIX}`;
+}
+
+const LOG_CALL = /(?<![.\w$])gs\s*\.\s*(info|warn|error)\s*\(/;
+const RESULT_CALL = /(?<![.\w$])nex\s*\.\s*result\s*\(/;
+
+/** A comment or a string literal, template literals included. A call inside one is not a call. */
+const NOT_CODE = /\/\/[^\n]*|\/\*[\s\S]*?\*\/|"(?:\\[\s\S]|[^"\\\n])*"|'(?:\\[\s\S]|[^'\\\n])*'|`(?:\\[\s\S]|[^`\\])*`/;
+
+/** Matches comments and strings whole, so a log call is only found outside them. */
+const SCAN = new RegExp(`(${NOT_CODE.source})|${LOG_CALL.source}`, "g");
+
+/**
+ * Rhino-safe (ES5) helpers. A log call formats `{0}`-style arguments as gs.info
+ * does and prints each line of the message under its tag, so a multi-line message
+ * stays one level.
+ */
+const PRELUDE =
+    "var __nexLog = function (level) { return function (message) { " +
+    "var text = String(message); " +
+    "for (var i = 1; i < arguments.length; i++) { text = text.split('{' + (i - 1) + '}').join(String(arguments[i])); } " +
+    "var lines = text.split('\\n'); " +
+    `for (var j = 0; j < lines.length; j++) { gs.print('${TAG_PREFIX}' + level + '${TAG_SUFFIX}' + lines[j]); } ` +
+    "}; }; " +
+    `var nex = { result: function (value) { gs.print('${RESULT_TAG}' + JSON.stringify(value === undefined ? null : value)); } }; `;
+
+/** `script` with comments and strings blanked out, leaving only its code. */
+function codeOf(script: string): string {
+    return script.replace(new RegExp(NOT_CODE.source, "g"), " ");
+}
+
+/** Whether `script` uses the result channel or a log level the output can separate. */
+export function usesScriptChannel(script: string): boolean {
+    const code = codeOf(script);
+    return RESULT_CALL.test(code) || LOG_CALL.test(code);
+}
+
+/** `script` ready to send: with the helpers and its log calls rewritten, if it uses them. */
+export function instrumentScript(script: string): string {
+    if (!usesScriptChannel(script)) {
+        return script;
+    }
+    return (
+        PRELUDE +
+        script.replace(SCAN, (match, notCode: string | undefined, level: string) =>
+            notCode !== undefined ? match : `__nexLog('${level}')(`,
+        )
+    );
+}
+
+export interface ScriptOutput {
+    /** Every printed and logged line, in order, tags removed. */
+    output: string[];
+    /** The lines written with gs.print, or logged in a way the rewrite did not see. */
+    print: string[];
+    logs: Record<LogLevel, string[]>;
+    /** Set when the script called nex.result; the last call wins. */
+    result?: { value: unknown } | { error: string };
+    /** `output` with warnings and errors marked, for the text result. */
+    display: string[];
+    /** Messages under the extra tags the caller asked for, by tag. */
+    extra: Record<string, string[]>;
+}
+
+/** The tag on a line, and the message. Undefined for a line with no tag in `known`. */
+function tagged(line: string, known: readonly string[]): { tag: string; message: string } | undefined {
+    // Instances may put their own prefix ("*** Script: ") in front of the tag.
+    const start = line.indexOf(TAG_PREFIX);
+    if (start < 0) {
+        return undefined;
+    }
+    const end = line.indexOf(TAG_SUFFIX, start);
+    if (end < 0) {
+        return undefined;
+    }
+    const tag = line.slice(start + TAG_PREFIX.length, end);
+    if (!known.includes(tag)) {
+        return undefined;
+    }
+    return { tag, message: line.slice(end + TAG_SUFFIX.length) };
+}
+
+/**
+ * Sorts the lines a script printed into prints, log levels and its result. Lines
+ * under `extraTags` are set aside in `extra`, out of the output.
+ */
+export function parseScriptOutput(lines: string[], extraTags: readonly string[] = []): ScriptOutput {
+    const parsed: ScriptOutput = {
+        output: [],
+        print: [],
+        logs: { info: [], warn: [], error: [] },
+        display: [],
+        extra: Object.fromEntries(extraTags.map((tag) => [tag, []])),
+    };
+    const known = ["result", ...LEVELS, ...extraTags];
+    for (const line of lines) {
+        const found = tagged(line, known);
+        if (!found) {
+            parsed.output.push(line);
+            parsed.print.push(line);
+            parsed.display.push(line);
+            continue;
+        }
+        if (found.tag === "result") {
+            try {
+                parsed.result = { value: JSON.parse(found.message) };
+            } catch (error) {
+                parsed.result = {
+                    error: `nex.result printed something that is not JSON: ${error instanceof Error ? error.message : String(error)}`,
+                };
+            }
+            continue;
+        }
+        if (extraTags.includes(found.tag)) {
+            parsed.extra[found.tag].push(found.message);
+            continue;
+        }
+        const level = found.tag as LogLevel;
+        parsed.output.push(found.message);
+        parsed.logs[level].push(found.message);
+        parsed.display.push(level === "info" ? found.message : `${level.toUpperCase()}: ${found.message}`);
+    }
+    return parsed;
+}
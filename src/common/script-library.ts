@@ -0,0 +1,336 @@
+/**
+ * The saved script library: a local directory of background scripts that declare
+ * their parameters, so a diagnostic written once can be run again by name.
+ *
+ * A script's header is its leading JSDoc block:
+ *
+ *     /**
+ *      * Lists records whose reference field points at nothing.
+ *      * @scope global
+ *      * @param {string} table - Table to check
+ *      * @param {integer} [limit=100] - Most records to list
+ *      * @param {"open"|"closed"} [state] - Only records in this state
+ *      *\/
+ *
+ * Types are string, number, integer, boolean and sys_id, or a list of quoted values.
+ * A bracketed name is optional; `=value` gives it a default. Other tags (@author,
+ * @returns) are left alone.
+ *
+ * Parameters are bound as variables rather than substituted into the text: the run
+ * starts with `var table = "incident", limit = 100;` on the script's first line, so
+ * line numbers hold and a value is always a literal — a quote in it is escaped, never
+ * the end of a string. execute_script's `{param}` replacement does no escaping, which
+ * is why this exists.
+ *
+ * NEX_SCRIPT_LIBRARY names the directory, read at startup like the other NEX_*
+ * settings. Scripts are read on every call, so an edit needs no restart.
+ */
+
+import { readdir, readFile } from "node:fs/promises";
+import { statSync } from "node:fs";
+import { join, relative, resolve, sep } from "node:path";
+
+export type ParamType = "string" | "number" | "integer" | "boolean" | "sys_id" | "enum";
+
+export type ParamValue = string | number | boolean;
+
+export interface ScriptParam {
+    name: string;
+    type: ParamType;
+    /** The allowed values of an enum. */
+    values?: string[];
+    required: boolean;
+    default?: ParamValue;
+    description: string;
+}
+
+export interface SavedScript {
+    /** The path below the library, without `.js`, with `/` separators. */
+    name: string;
+    file: string;
+    description: string;
+    scope?: string;
+    params: ScriptParam[];
+}
+
+/** A listed script. One whose header cannot be read is listed with why. */
+export type SavedScriptEntry = SavedScript & { error?: string };
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+const SYS_ID = /^[0-9a-f]{32}$/;
+const HEADER = /^\s*\/\*\*([\s\S]*?)\*\//;
+const PARAM_TAG = /^@param\s+\{([^}]+)\}\s+(\[[^\]]*\]|\S+)\s*(?:-\s*)?(.*)$/;
+
+/**
+ * Names a parameter may not take: the language's own, the globals a script is
+ * unlikely to mean to shadow, and the helpers script-channel puts in front of it —
+ * a parameter declared after them would replace them.
+ */
+const RESERVED = new Set([
+    "break", "case", "catch", "class", "const", "continue", "debugger", "default", "delete",
+    "do", "else", "enum", "export", "extends", "false", "finally", "for", "function", "if",
+    "import", "in", "instanceof", "new", "null", "return", "super", "switch", "this", "throw",
+    "true", "try", "typeof", "var", "void", "while", "with", "let", "static", "yield",
+    "undefined", "arguments", "gs", "current", "previous", "GlideRecord", "GlideRecordSecure",
+    "nex", "__nexLog",
+]);
+
+let directory: string | undefined;
+
+/** Reads NEX_SCRIPT_LIBRARY. THROWS when it is set but is not a directory. */
+export function initScriptLibrary(env: NodeJS.ProcessEnv): void {
+    const raw = env.NEX_SCRIPT_LIBRARY?.trim();
+    if (!raw) {
+        return;
+    }
+    const path = resolve(raw);
+    let isDirectory = false;
+    try {
+        isDirectory = statSync(path).isDirectory();
+    } catch (error) {
+        throw new Error(`NEX_SCRIPT_LIBRARY: cannot read "${path}": ${(error as Error).message}`);
+    }
+    if (!isDirectory) {
+        throw new Error(`NEX_SCRIPT_LIBRARY: "${path}" is not a directory`);
+    }
+    directory = path;
+}
+
+/** The library directory. Throws, saying how to set one, when there is none. */
+export function scriptLibraryDirectory(): string {
+    if (!directory) {
+        throw new Error(
+            "No script library is configured. Set NEX_SCRIPT_LIBRARY in the server's environment " +
+                "to a directory of .js files.",
+        );
+    }
+    return directory;
+}
+
+/** Test seam, mirroring resetUndoJournalForTests. */
+export function resetScriptLibraryForTests(): void {
+    directory = undefined;
+}
+
+/** `raw` as a value of `param`'s type, or a message saying why it is not one. */
+function coerce(param: ScriptParam, raw: ParamValue): ParamValue | { error: string } {
+    const text = String(raw).trim();
+    switch (param.type) {
+        case "number":
+        case "integer": {
+            const n = typeof raw === "number" ? raw : text === "" ? NaN : Number(text);
+            if (!Number.isFinite(n)) return { error: `${param.name} must be a number, not ${JSON.stringify(raw)}` };
+            if (param.type === "integer" && !Number.isInteger(n)) {
+                return { error: `${param.name} must be a whole number, not ${n}` };
+            }
+            return n;
+        }
+        case "boolean":
+            if (raw === true || text === "true") return true;
+            if (raw === false || text === "false") return false;
+            return { error: `${param.name} must be true or false, not ${JSON.stringify(raw)}` };
+        case "sys_id":
+            return SYS_ID.test(text) ? text : { error: `${param.name} must be a 32-character sys_id, not ${JSON.stringify(raw)}` };
+        case "enum":
+            return param.values!.includes(String(raw))
+                ? String(raw)
+                : { error: `${param.name} must be one of ${param.values!.map((v) => JSON.stringify(v)).join(", ")}` };
+        default:
+            return String(raw);
+    }
+}
+
+function parseType(raw: string): Pick<ScriptParam, "type" | "values"> {
+    const type = raw.trim();
+    if (["string", "number", "integer", "boolean", "sys_id"].includes(type)) {
+        return { type: type as ParamType };
+    }
+    const values = type.split("|").map((v) => v.trim());
+    if (values.every((v) => /^"[^"]*"$/.test(v) || /^'[^']*'$/.test(v))) {
+        return { type: "enum", values: values.map((v) => v.slice(1, -1)) };
+    }
+    throw new Error(`unknown type {${type}}; use string, number, integer, boolean, sys_id or "a"|"b"`);
+}
+
+function parseParam(tag: string): ScriptParam {
+    const match = PARAM_TAG.exec(tag);
+    if (!match) {
+        throw new Error(`cannot read "${tag}"; expected @param {type} name - description`);
+    }
+    const [, typeText, nameText, description] = match;
+    const optional = nameText.startsWith("[");
+    const [name, defaultText] = optional ? splitDefault(nameText.slice(1, -1)) : [nameText, undefined];
+    if (!IDENTIFIER.test(name) || RESERVED.has(name)) {
+        throw new Error(`"${name}" cannot be a parameter name`);
+    }
+    const param: ScriptParam = { name, ...parseType(typeText), required: !optional, description: description.trim() };
+    if (defaultText !== undefined) {
+        const value = coerce(param, unquote(defaultText));
+        if (typeof value === "object") {
+            throw new Error(`default for ${value.error}`);
+        }
+        param.default = value;
+    }
+    return param;
+}
+
+function splitDefault(text: string): [string, string | undefined] {
+    const at = text.indexOf("=");
+    return at < 0 ? [text.trim(), undefined] : [text.slice(0, at).trim(), text.slice(at + 1).trim()];
+}
+
+function unquote(text: string): string {
+    return /^(["']).*\1$/.test(text) ? text.slice(1, -1) : text;
+}
+
+/** The description, scope and parameters in `source`'s header. Throws on a malformed @param. */
+export function parseScriptHeader(source: string): Omit<SavedScript, "name" | "file"> {
+    const header = HEADER.exec(source);
+    if (!header) {
+        return { description: "", params: [] };
+    }
+    const lines = header[1].split(/\r?\n/).map((line) => line.replace(/^\s*\*?\s?/, "").trim());
+    const description: string[] = [];
+    const params: ScriptParam[] = [];
+    let scope: string | undefined;
+    let inTags = false;
+    for (const line of lines) {
+        if (line.startsWith("@")) {
+            inTags = true;
+            if (line.startsWith("@param")) {
+                const param = parseParam(line);
+                if (params.some((p) => p.name === param.name)) {
+                    throw new Error(`parameter ${param.name} is declared twice`);
+                }
+                params.push(param);
+            } else if (line.startsWith("@scope")) {
+                scope = line.slice("@scope".length).trim() || undefined;
+            }
+        } else if (!inTags && line) {
+            description.push(line);
+        }
+    }
+    return { description: description.join(" "), scope, params };
+}
+
+/** Every .js file under `root`, as paths relative to it, sorted. */
+async function scriptFiles(root: string): Promise<string[]> {
+    const found: string[] = [];
+    const walk = async (dir: string) => {
+        for (const entry of await readdir(dir, { withFileTypes: true })) {
+            const path = join(dir, entry.name);
+            if (entry.isDirectory() && !entry.name.startsWith(".")) {
+                await walk(path);
+            } else if (entry.isFile() && entry.name.endsWith(".js")) {
+                found.push(relative(root, path));
+            }
+        }
+    };
+    await walk(root);
+    return found.sort();
+}
+
+/** The library's scripts, by name. */
+export async function listSavedScripts(): Promise<SavedScriptEntry[]> {
+    const root = scriptLibraryDirectory();
+    const entries: SavedScriptEntry[] = [];
+    for (const path of await scriptFiles(root)) {
+        const name = path.slice(0, -".js".length).split(sep).join("/");
+        const file = join(root, path);
+        try {
+            entries.push({ name, file, ...parseScriptHeader(await readFile(file, "utf8")) });
+        } catch (error) {
+            entries.push({ name, file, description: "", params: [], error: (error as Error).message });
+        }
+    }
+    return entries;
+}
+
+/**
+ * The script called `name` and its source. Looked up among the listed scripts, so a
+ * name can only ever reach a file inside the library.
+ */
+export async function loadSavedScript(name: string): Promise<{ script: SavedScript; source: string }> {
+    const entries = await listSavedScripts();
+    const entry = entries.find((e) => e.name === name);
+    if (!entry) {
+        const known = entries.map((e) => e.name);
+        throw new Error(
+            `No saved script "${name}". ` +
+                (known.length > 0 ? `Known: ${known.join(", ")}.` : `The library at ${scriptLibraryDirectory()} is empty.`),
+        );
+    }
+    // Read again rather than trusting the listing: the header is checked against the
+    // very text that is about to run.
+    const source = await readFile(entry.file, "utf8");
+    let header: Omit<SavedScript, "name" | "file">;
+    try {
+        header = parseScriptHeader(source);
+    } catch (error) {
+        throw new Error(`The header of ${name} cannot be read: ${(error as Error).message}`);
+    }
+    return { script: { name, file: entry.file, ...header }, source };
+}
+
+/**
+ * `given` checked against the declared parameters, with defaults filled in. Throws
+ * one error listing every problem, so a call is fixed in one go.
+ */
+export function bindParams(script: SavedScript, given: Record<string, ParamValue>): Record<string, ParamValue | undefined> {
+    const errors: string[] = [];
+    const bound: Record<string, ParamValue | undefined> = {};
+    for (const name of Object.keys(given)) {
+        if (!script.params.some((p) => p.name === name)) {
+            errors.push(`${name} is not a parameter of ${script.name}`);
+        }
+    }
+    for (const param of script.params) {
+        if (given[param.name] === undefined) {
+            if (param.required) {
+                errors.push(`${param.name} is required`);
+            }
+            bound[param.name] = param.default;
+            continue;
+        }
+        const value = coerce(param, given[param.name]);
+        if (typeof value === "object") {
+            errors.push(value.error);
+        } else {
+            bound[param.name] = value;
+        }
+    }
+    if (errors.length > 0) {
+        const expected = script.params.map(describeParam).join("; ") || "none";
+        throw new Error(`${errors.join(". ")}. Parameters of ${script.name}: ${expected}.`);
+    }
+    return bound;
+}
+
+/** `value` as a JavaScript literal that evaluates to exactly it. */
+export function jsLiteral(value: ParamValue | undefined): string {
+    if (value === undefined) {
+        return "undefined";
+    }
+    if (typeof value !== "string") {
+        return String(value);
+    }
+    // JSON escapes quotes, backslashes and control characters. U+2028 and U+2029 are
+    // valid in JSON but end the line in an ES5 string literal, so they are escaped too.
+    return JSON.stringify(value).replace(/\u2028/g, "\\u2028").replace(/\u2029/g, "\\u2029");
+}
+
+/** `source` with its parameters declared in front, on its first line. */
+export function renderSavedScript(source: string, bound: Record<string, ParamValue | undefined>): string {
+    const names = Object.keys(bound);
+    if (names.length === 0) {
+        return source;
+    }
+    return `var ${names.map((name) => `${name} = ${jsLiteral(bound[name])}`).join(", ")}; ${source}`;
+}
+
+/** One parameter, as listed: `limit (integer, default 100)`. */
+export function describeParam(param: ScriptParam): string {
+    const type = param.type === "enum" ? param.values!.map((v) => JSON.stringify(v)).join("|") : param.type;
+    const detail = param.required ? "required" : param.default !== undefined ? `default ${JSON.stringify(param.default)}` : "optional";
+    return `${param.name} (${type}, ${detail})`;
+}
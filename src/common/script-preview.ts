@@ -0,0 +1,129 @@
+/**
+ * Preview for background scripts: run a fix script with its GlideRecord writes
+ * intercepted, and report what it would have written.
+ *
+ * The script runs inside a function whose `GlideRecord` and `GlideRecordSecure` are
+ * stand-ins. Each constructs the real thing — queries, reads and dot-walks behave as
+ * they always do — then replaces insert, update, deleteRecord, updateMultiple and
+ * deleteMultiple on that one instance with versions that print the change under a tag
+ * and return as if it had happened. An insert hands back a fresh sys_id so the rest
+ * of the script can carry on.
+ *
+ * The replacement is checked before the record is returned: if an instance will not
+ * let a method be replaced, the script stops there, before that record can write.
+ *
+ * What this does NOT catch is the point to keep in mind. Only records the script
+ * itself constructs are intercepted. A Script Include it calls builds its own
+ * GlideRecords from the real class; so do GlideMultipleUpdate, import sets, events
+ * and flows it starts. Those write. The instance's affected-records count is the
+ * check on that, and the tool reports it. So the guard still treats a preview as
+ * ARBITRARY — NEX_DRY_RUN refuses it like any other execute_script call.
+ */
+
+import { PREVIEW_LIMIT, type RecordChange } from "./dry-run.js";
+import { scriptTag } from "./script-channel.js";
+
+const CHANGE_TAG = "change";
+const SUMMARY_TAG = "preview";
+
+/** The tags a preview prints; pass them to parseScriptOutput. */
+export const PREVIEW_TAGS = [CHANGE_TAG, SUMMARY_TAG] as const;
+
+/**
+ * Rhino-safe (ES5). `list` reads both a Java ArrayList (global scope) and a JS array
+ * (scoped) from getElements(). Values are compared and reported as strings, as the
+ * Table API would return them.
+ */
+const PRELUDE =
+    "var __nexPreview = (function () { " +
+    `var LIMIT = ${PREVIEW_LIMIT}, total = 0; ` +
+    `function report(change) { total++; if (total <= LIMIT) { gs.print('${scriptTag(CHANGE_TAG)}' + JSON.stringify(change)); } } ` +
+    "function list(items) { var n = typeof items.size === 'function' ? items.size() : items.length, out = []; " +
+    "for (var i = 0; i < n; i++) { out.push(typeof items.get === 'function' ? items.get(i) : items[i]); } return out; } " +
+    "function changed(gr) { var names = [], els = list(gr.getElements()); " +
+    "for (var i = 0; i < els.length; i++) { if (els[i].changes()) { names.push(String(els[i].getName())); } } return names; } " +
+    "function value(gr, field) { var v = gr ? gr.getValue(field) : null; return v === null || v === undefined ? null : String(v); } " +
+    "function tableOf(gr) { return String(gr.getRecordClassName() || gr.getTableName()); } " +
+    "function fields(names, before, after) { var out = []; for (var i = 0; i < names.length; i++) { " +
+    "var b = value(before, names[i]), a = value(after, names[i]); if (b !== a) { out.push({ field: names[i], before: b, after: a }); } } return out; } " +
+    "function probe(Real, gr, each) { var matches = new Real(gr.getTableName()); matches.addEncodedQuery(gr.getEncodedQuery()); matches.query(); " +
+    "var rows = matches.getRowCount(), seen = 0; while (total < LIMIT && matches.next()) { seen++; each(matches); } total += rows - seen; } " +
+    "function intercept(Real, gr) { var methods = { " +
+    "insert: function () { report({ table: tableOf(gr), action: 'create', fields: fields(changed(gr), null, gr) }); " +
+    "var id = String(gr.getUniqueValue() || ''); if (!id) { id = String(gs.generateGUID()); try { gr.setNewGuidValue(id); } catch (e) {} } return id; }, " +
+    "update: function () { if (gr.isNewRecord()) { return methods.insert(); } var id = String(gr.getUniqueValue()), table = tableOf(gr), before = new Real(table); " +
+    "report({ table: table, sys_id: id, action: 'update', fields: fields(changed(gr), before.get(id) ? before : null, gr) }); return id; }, " +
+    "deleteRecord: function () { report({ table: tableOf(gr), sys_id: String(gr.getUniqueValue()), action: 'delete' }); return true; }, " +
+    "updateMultiple: function () { var names = changed(gr); probe(Real, gr, function (match) { " +
+    "report({ table: tableOf(match), sys_id: String(match.getUniqueValue()), action: 'update', fields: fields(names, match, gr) }); }); }, " +
+    "deleteMultiple: function () { probe(Real, gr, function (match) { " +
+    "report({ table: tableOf(match), sys_id: String(match.getUniqueValue()), action: 'delete' }); }); } }; " +
+    "methods.insertWithReferences = methods.insert; methods.updateWithReferences = methods.update; " +
+    "for (var name in methods) { Object.defineProperty(gr, name, { value: methods[name] }); " +
+    "if (gr[name] !== methods[name]) { throw new Error('Preview cannot intercept ' + name + '() on this instance, so the script was stopped before it could write.'); } } } " +
+    "return { " +
+    "wrap: function (Real) { if (typeof Real !== 'function') { return Real; } return function (table) { var gr = new Real(table); intercept(Real, gr); return gr; }; }, " +
+    `done: function () { gs.print('${scriptTag(SUMMARY_TAG)}' + JSON.stringify({ total: total })); } ` +
+    "}; })(); ";
+
+/**
+ * `script` wrapped for a preview. The wrapper opens on the script's first line, so
+ * line numbers in an error still match; it closes on a line of its own after it.
+ */
+export function previewScript(script: string): string {
+    return (
+        PRELUDE +
+        "try { (function (GlideRecord, GlideRecordSecure) { " +
+        script +
+        "\n}).call(this, __nexPreview.wrap(GlideRecord), __nexPreview.wrap(GlideRecordSecure)); } " +
+        "finally { __nexPreview.done(); }"
+    );
+}
+
+export interface PreviewReport {
+    /** The first PREVIEW_LIMIT intercepted writes, in the order the script made them. */
+    changes: RecordChange[];
+    /** Every intercepted write, including those past the limit. */
+    total: number;
+    truncated: boolean;
+}
+
+/** The intercepted writes, from the lines parseScriptOutput set aside under PREVIEW_TAGS. */
+export function readPreview(extra: Record<string, string[]>): PreviewReport {
+    const changes: RecordChange[] = [];
+    for (const line of extra[CHANGE_TAG] ?? []) {
+        try {
+            changes.push(JSON.parse(line) as RecordChange);
+        } catch {
+            // A line cut short by the instance's output limit; the total still counts it.
+        }
+    }
+    const summaries = extra[SUMMARY_TAG] ?? [];
+    let total = changes.length;
+    if (summaries.length > 0) {
+        try {
+            total = Math.max(total, Number(JSON.parse(summaries[summaries.length - 1]).total) || 0);
+        } catch {
+            // Keep the count of the lines that did arrive.
+        }
+    }
+    return { changes, total, truncated: total > changes.length };
+}
+
+/** The text block for a preview, in describeChanges' layout. */
+export function describePreview(report: PreviewReport): string[] {
+    const lines = ["=== PREVIEW — GlideRecord writes were intercepted, not committed ==="];
+    if (report.changes.length === 0) {
+        lines.push("The script made no GlideRecord writes.");
+    }
+    for (const change of report.changes) {
+        lines.push(`${change.action.toUpperCase()} ${change.table}${change.sys_id ? ` ${change.sys_id}` : ""}`);
+        for (const f of change.fields ?? []) {
+            lines.push(`  ${f.field}: ${JSON.stringify(f.before ?? null)} -> ${JSON.stringify(f.after ?? null)}`);
+        }
+    }
+    if (report.truncated) {
+        lines.push(`(Showing the first ${report.changes.length} of ${report.total} writes.)`);
+    }
+    return lines;
+}
@@ -0,0 +1,201 @@
+/**
+ * Pulling a script record to local files and pushing it back, with the conflict
+ * check: the part pull_script, push_script and watch_scripts share.
+ *
+ * Split from the push_script handler when the watcher arrived, so a push made on a
+ * file save is checked exactly as one the model asked for — a watcher that skipped
+ * the check would be the easiest way yet to discard a colleague's change.
+ *
+ * Driven by the script table registry rather than core's ScriptSync, which knows five
+ * tables with one `script` field each. A record with one script field is one file; a
+ * record with several is a directory holding `<field>.<extension>` for each, the
+ * layout pull_application uses for the same records.
+ */
+
+import { existsSync } from "node:fs";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import { BatchOperations, type ServiceNowInstance } from "@sonisoft/now-sdk-ext-core";
+
+import { withConnectionRetry } from "./connection.js";
+import { readRecords } from "./dry-run.js";
+import { getLogger } from "./logging.js";
+import {
+    detectConflict,
+    readSidecar,
+    sidecarFor,
+    sidecarPath,
+    writeSidecar,
+    type ScriptConflict,
+    type ScriptSidecar,
+} from "./script-sidecar.js";
+import type { ScriptTable } from "./script-tables.js";
+
+const log = getLogger("script-push");
+
+/** A field of a record and the local file that holds it. */
+export interface ScriptFile {
+    field: string;
+    file: string;
+}
+
+/** Everything known before a push is attempted. */
+export interface PushCheck {
+    /** Field to local content, for the fields whose files exist. */
+    local: Record<string, string>;
+    /** Fields whose files do not exist. They are left alone on the instance. */
+    missing: string[];
+    /** The sidecar, when it was written for this record. */
+    base?: ScriptSidecar;
+    /** The record as it is now; undefined when there is no such record. */
+    current?: Record<string, unknown>;
+    /** Fields whose push would discard a change made on the instance since the pull. */
+    conflicts: ScriptConflict[];
+}
+
+/** Where each script field of a record lives under `path`. */
+export function scriptFiles(definition: ScriptTable, path: string): ScriptFile[] {
+    if (definition.fields.length === 1) {
+        return [{ field: definition.fields[0].field, file: path }];
+    }
+    return definition.fields.map(({ field, extension }) => ({ field, file: join(path, `${field}.${extension}`) }));
+}
+
+/**
+ * The record, with its script fields and modification stamps, found by sys_id or by
+ * name. Throws when the name matches several records: pushing to whichever came back
+ * first would be a guess. Throws, too, on a name holding `^`: in the query it would
+ * start a condition of its own and could match some other record.
+ */
+export async function readScriptRecord(
+    snInstance: ServiceNowInstance,
+    definition: ScriptTable,
+    match: { name?: string; sysId?: string },
+): Promise<Record<string, unknown> | undefined> {
+    if (!match.sysId && match.name?.includes("^")) {
+        throw new Error(
+            `The ${definition.nameField} "${match.name}" contains "^", which cannot be matched by name. Pass sys_id instead.`,
+        );
+    }
+    const { records, truncated } = await readRecords(
+        snInstance,
+        definition.table,
+        match.sysId ? `sys_id=${match.sysId}` : `${definition.nameField}=${match.name}`,
+        [definition.nameField, ...definition.fields.map((f) => f.field), "sys_updated_on", "sys_mod_count"],
+        1,
+    );
+    if (truncated) {
+        throw new Error(
+            `Several ${definition.table} records have ${definition.nameField} "${match.name}". Pass sys_id to choose one.`,
+        );
+    }
+    return records[0];
+}
+
+/**
+ * Records what was pulled or pushed. A failure here is logged, not raised: the
+ * transfer itself worked, and the next push only loses its conflict check.
+ */
+function recordSidecar(
+    alias: string | undefined,
+    definition: ScriptTable,
+    record: Record<string, unknown>,
+    path: string,
+): string | undefined {
+    try {
+        const fields = definition.fields.map((f) => f.field);
+        writeSidecar(path, sidecarFor(definition.table, record, definition.nameField, fields, alias));
+        return sidecarPath(path);
+    } catch (error) {
+        log.warn("Could not write the script sidecar; the next push cannot check for conflicts", {
+            path,
+            error,
+        });
+        return undefined;
+    }
+}
+
+/** Writes the record's script fields under `path`, and the sidecar beside it. */
+export async function pullScriptRecord(
+    alias: string | undefined,
+    definition: ScriptTable,
+    match: { name?: string; sysId?: string },
+    path: string,
+): Promise<{ record: Record<string, unknown>; files: ScriptFile[]; sidecar?: string }> {
+    const record = await withConnectionRetry(alias, (snInstance) => readScriptRecord(snInstance, definition, match));
+    if (!record) {
+        throw new Error(
+            match.sysId
+                ? `No ${definition.table} record has sys_id ${match.sysId}.`
+                : `No ${definition.table} record has ${definition.nameField} "${match.name}".`,
+        );
+    }
+    const files = scriptFiles(definition, path);
+    for (const { field, file } of files) {
+        await mkdir(dirname(file), { recursive: true });
+        await writeFile(file, String(record[field] ?? ""));
+    }
+    return { record, files, sidecar: recordSidecar(alias, definition, record, path) };
+}
+
+/** Reads the files, the sidecar and the record, and decides whether pushing would lose anything. */
+export async function checkScriptPush(
+    alias: string | undefined,
+    definition: ScriptTable,
+    name: string,
+    path: string,
+    force: boolean,
+): Promise<PushCheck> {
+    const local: Record<string, string> = {};
+    const missing: string[] = [];
+    for (const { field, file } of scriptFiles(definition, path)) {
+        if (existsSync(file)) {
+            local[field] = await readFile(file, "utf8");
+        } else {
+            missing.push(field);
+        }
+    }
+    if (Object.keys(local).length === 0) {
+        throw new Error(`Nothing to push: ${path} holds none of ${definition.table}'s script fields.`);
+    }
+
+    const sidecar = readSidecar(path);
+    // A sidecar for another record — the file was pulled from elsewhere and
+    // renamed — says nothing about this one.
+    const base = sidecar && sidecar.table === definition.table && sidecar.name === name ? sidecar : undefined;
+
+    const current = await withConnectionRetry(alias, (snInstance) =>
+        readScriptRecord(snInstance, definition, base ? { sysId: base.sys_id } : { name }),
+    );
+    const conflicts =
+        current && base && !force
+            ? Object.entries(local)
+                  .map(([field, content]) => detectConflict(base, current, field, content))
+                  .filter((c): c is ScriptConflict => c !== undefined)
+            : [];
+    return { local, missing, base, current, conflicts };
+}
+
+/** Updates the record's fields, then records the new stamps as the base of the next push. */
+export async function pushScriptRecord(
+    alias: string | undefined,
+    definition: ScriptTable,
+    sysId: string,
+    data: Record<string, string>,
+    path: string,
+): Promise<{ sidecar?: string }> {
+    return withConnectionRetry(alias, async (snInstance) => {
+        const batch = new BatchOperations(snInstance);
+        const result = await batch.batchUpdate({
+            updates: [{ table: definition.table, sysId, data }],
+            stopOnError: true,
+        });
+        if (result.errors.length > 0) {
+            throw new Error(String(result.errors[0].error));
+        }
+        // The new stamps become the base, so the next push does not take our own
+        // update for someone else's.
+        const record = await readScriptRecord(snInstance, definition, { sysId });
+        return { sidecar: record ? recordSidecar(alias, definition, record, path) : undefined };
+    });
+}
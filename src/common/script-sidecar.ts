@@ -0,0 +1,119 @@
+/**
+ * What a pulled script file was pulled from: the record, its modification stamps,
+ * and the content as pulled.
+ *
+ * push_script used to overwrite the instance copy unconditionally, so a colleague's
+ * edit made after our pull was lost without a word. The sidecar is the "base" of a
+ * three-way comparison: if the record's sys_mod_count has moved since the pull AND
+ * its script no longer matches the base, someone else changed the code, and pushing
+ * would discard that. A change to some other field of the record moves the stamps
+ * too, but loses nothing — so the content decides, not the stamps alone.
+ *
+ * Kept beside the file as `.<file>.nex.json`: hidden, so it does not clutter an
+ * editor's file list, and next to the file, so moving the pair keeps them together.
+ */
+
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+import { basename, dirname, join } from "node:path";
+
+import { changedRanges, diffLines, rangesOverlap, unifiedDiff } from "./text-diff.js";
+
+export interface ScriptSidecar {
+    table: string;
+    sys_id: string;
+    name: string;
+    sys_updated_on: string;
+    sys_mod_count: string;
+    pulledAt: string;
+    /** Alias the file was pulled from. Absent in sidecars written before it was recorded. */
+    instance?: string;
+    /** Field to content as pulled (or last pushed). */
+    base: Record<string, string>;
+}
+
+export interface ScriptConflict {
+    field: string;
+    /** Stamps as pulled, and as they are now. */
+    pulled: { sys_updated_on: string; sys_mod_count: string };
+    remote: { sys_updated_on: string; sys_mod_count: string };
+    /** Base to local file: our edit. */
+    localDiff: string;
+    /** Base to the instance: theirs. */
+    remoteDiff: string;
+    /** Whether the two edits touch the same lines. */
+    overlapping: boolean;
+}
+
+export function sidecarPath(filePath: string): string {
+    return join(dirname(filePath), `.${basename(filePath)}.nex.json`);
+}
+
+/** `undefined` when the file has no sidecar, or one that cannot be read. */
+export function readSidecar(filePath: string): ScriptSidecar | undefined {
+    const path = sidecarPath(filePath);
+    if (!existsSync(path)) {
+        return undefined;
+    }
+    try {
+        const sidecar = JSON.parse(readFileSync(path, "utf8")) as ScriptSidecar;
+        return sidecar.sys_id && sidecar.base ? sidecar : undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+export function writeSidecar(filePath: string, sidecar: ScriptSidecar): void {
+    writeFileSync(sidecarPath(filePath), JSON.stringify(sidecar, null, 2) + "\n");
+}
+
+/** The sidecar for a record as just read, with `fields` as its base content. */
+export function sidecarFor(
+    table: string,
+    record: Record<string, unknown>,
+    nameField: string,
+    fields: string[],
+    instance?: string,
+): ScriptSidecar {
+    return {
+        table,
+        sys_id: String(record.sys_id ?? ""),
+        name: String(record[nameField] ?? ""),
+        sys_updated_on: String(record.sys_updated_on ?? ""),
+        sys_mod_count: String(record.sys_mod_count ?? ""),
+        pulledAt: new Date().toISOString(),
+        ...(instance ? { instance } : {}),
+        base: Object.fromEntries(fields.map((f) => [f, String(record[f] ?? "")])),
+    };
+}
+
+/**
+ * The conflict pushing `local` into `field` would cause, or undefined if none: the
+ * record has been modified since the pull, and that field's content with it. A remote
+ * that already holds exactly `local` is no conflict — there is nothing to lose.
+ */
+export function detectConflict(
+    sidecar: ScriptSidecar,
+    remote: Record<string, unknown>,
+    field: string,
+    local: string,
+): ScriptConflict | undefined {
+    const remoteContent = String(remote[field] ?? "");
+    const base = sidecar.base[field] ?? "";
+    const moved =
+        String(remote.sys_mod_count ?? "") !== sidecar.sys_mod_count ||
+        String(remote.sys_updated_on ?? "") !== sidecar.sys_updated_on;
+    if (!moved || remoteContent === base || remoteContent === local) {
+        return undefined;
+    }
+    return {
+        field,
+        pulled: { sys_updated_on: sidecar.sys_updated_on, sys_mod_count: sidecar.sys_mod_count },
+        remote: {
+            sys_updated_on: String(remote.sys_updated_on ?? ""),
+            sys_mod_count: String(remote.sys_mod_count ?? ""),
+        },
+        localDiff: unifiedDiff(base, local, { before: "pulled", after: "local" }),
+        remoteDiff: unifiedDiff(base, remoteContent, { before: "pulled", after: "instance" }),
+        overlapping: rangesOverlap(changedRanges(diffLines(base, local)), changedRanges(diffLines(base, remoteContent))),
+    };
+}
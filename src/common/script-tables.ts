@@ -0,0 +1,142 @@
+/**
+ * The tables that hold code, and which of their fields are code.
+ *
+ * Core's ScriptSync knows five tables, each with one `script` field. An application's
+ * code lives in many more — fix scripts, scripted REST resources, ACL scripts — and
+ * some records hold several pieces: a UI page has its HTML, client script and
+ * processing script side by side. Each field is a file; the extension is what an
+ * editor needs to highlight it.
+ *
+ * Instances carry custom tables with code in them too, so the built-in list can be
+ * extended — or a built-in table's fields replaced — with NEX_SCRIPT_TABLES. pull_script,
+ * push_script and pull_application all read the combined list. Environment-only, like
+ * the rest of this server's configuration.
+ */
+
+export interface ScriptField {
+    field: string;
+    /** Without the dot. */
+    extension: string;
+}
+
+export interface ScriptTable {
+    table: string;
+    /** The field a record's files are named after. */
+    nameField: string;
+    fields: ScriptField[];
+}
+
+const js = (field: string): ScriptField => ({ field, extension: "js" });
+
+/** In the order pull_application reads them. */
+export const SCRIPT_TABLES: ScriptTable[] = [
+    { table: "sys_script_include", nameField: "name", fields: [js("script")] },
+    { table: "sys_script", nameField: "name", fields: [js("script")] },
+    { table: "sys_script_client", nameField: "name", fields: [js("script")] },
+    { table: "sys_ui_script", nameField: "name", fields: [js("script")] },
+    { table: "sys_ui_action", nameField: "name", fields: [js("script")] },
+    { table: "sys_script_fix", nameField: "name", fields: [js("script")] },
+    { table: "sysauto_script", nameField: "name", fields: [js("script")] },
+    { table: "sys_ws_operation", nameField: "name", fields: [js("operation_script")] },
+    { table: "sys_security_acl", nameField: "name", fields: [js("script")] },
+    {
+        table: "sys_ui_page",
+        nameField: "name",
+        fields: [{ field: "html", extension: "html" }, js("client_script"), js("processing_script")],
+    },
+    {
+        table: "sp_widget",
+        nameField: "id",
+        fields: [
+            { field: "template", extension: "html" },
+            { field: "css", extension: "scss" },
+            js("client_script"),
+            js("script"),
+            js("link"),
+        ],
+    },
+];
+
+const SCRIPT_TABLES_VARIABLE = "NEX_SCRIPT_TABLES";
+
+const IDENTIFIER = /^[a-z0-9_]+$/i;
+const EXTENSION = /^[a-z0-9]+$/i;
+
+let installed: ScriptTable[] = SCRIPT_TABLES;
+
+/**
+ * Parses NEX_SCRIPT_TABLES: entries separated by `;` or newlines, each
+ * `table[:nameField]=field[.extension],…`. The name field defaults to `name` and the
+ * extension to `js`:
+ *
+ *     x_acme_rule=condition_script,action_script; x_acme_page:title=body.html,client_script
+ *
+ * THROWS on a malformed entry. A mapping the operator wrote and the server quietly
+ * dropped would surface later as "unknown script type", far from its cause.
+ */
+export function scriptTablesFromEnvironment(env: NodeJS.ProcessEnv): ScriptTable[] {
+    const raw = env[SCRIPT_TABLES_VARIABLE]?.trim();
+    if (!raw) {
+        return [];
+    }
+    const tables: ScriptTable[] = [];
+    for (const entry of raw.split(/[;\n]/).map((e) => e.trim()).filter((e) => e.length > 0)) {
+        const bad = (why: string) => new Error(`${SCRIPT_TABLES_VARIABLE}: entry "${entry}" ${why}`);
+        const equals = entry.indexOf("=");
+        if (equals <= 0) {
+            throw bad("is not table=field,…");
+        }
+        const [table, nameField = "name", ...extra] = entry.slice(0, equals).split(":").map((p) => p.trim());
+        if (extra.length > 0 || !IDENTIFIER.test(table) || !IDENTIFIER.test(nameField)) {
+            throw bad("does not name a table, and optionally its name field, as table:name_field");
+        }
+        const fields = entry
+            .slice(equals + 1)
+            .split(",")
+            .map((f) => f.trim())
+            .filter((f) => f.length > 0)
+            .map((f): ScriptField => {
+                const [field, extension = "js", ...rest] = f.split(".");
+                if (rest.length > 0 || !IDENTIFIER.test(field) || !EXTENSION.test(extension)) {
+                    throw bad(`has an unusable field "${f}"; write field or field.extension`);
+                }
+                return { field, extension };
+            });
+        if (fields.length === 0 || new Set(fields.map((f) => f.field)).size !== fields.length) {
+            throw bad("must list each field once, and at least one");
+        }
+        tables.push({ table, nameField, fields });
+    }
+    return tables;
+}
+
+/**
+ * Reads NEX_SCRIPT_TABLES at startup. A custom entry for a built-in table replaces
+ * it; any other is added after the built-ins.
+ */
+export function initScriptTables(env: NodeJS.ProcessEnv): void {
+    const custom = scriptTablesFromEnvironment(env);
+    if (custom.length === 0) {
+        return;
+    }
+    const byTable = new Map(custom.map((t) => [t.table, t]));
+    installed = [
+        ...SCRIPT_TABLES.map((t) => byTable.get(t.table) ?? t),
+        ...custom.filter((t) => !SCRIPT_TABLES.some((b) => b.table === t.table)),
+    ];
+}
+
+/** Test seam: back to the built-in tables. */
+export function resetScriptTablesForTests(): void {
+    installed = SCRIPT_TABLES;
+}
+
+/** Every table pull and push know, built-in and configured. */
+export function scriptTables(): ScriptTable[] {
+    return installed;
+}
+
+/** The definition for `table`, or undefined if it is not a script table. */
+export function scriptTable(table: string): ScriptTable | undefined {
+    return installed.find((t) => t.table === table);
+}
@@ -0,0 +1,198 @@
+/**
+ * Watches on pulled script files: which files are watched, for whom, and when a
+ * change is due to be pushed.
+ *
+ * Iterating on a Script Include meant asking the model to push after every save. A
+ * watch does that on its own: an editor's save arrives as a burst of fs events —
+ * truncate, write, rename, chmod — so they are debounced into one push, and a push
+ * is never started while the previous one for the same file is still running; a
+ * save during it schedules one more once it ends.
+ *
+ * The directory is watched rather than the file. Editors that save atomically write
+ * a temporary file and rename it over the original, and a watch on the original
+ * inode goes quiet after the first such save. A multi-field record is already a
+ * directory, and is watched as one.
+ *
+ * Each watch belongs to the MCP session (the server) that started it, so one client
+ * cannot list or stop another's over HTTP. What a change DOES is the caller's: this
+ * module only decides when.
+ */
+
+import { randomBytes } from "node:crypto";
+import { statSync, watch, type FSWatcher } from "node:fs";
+import { basename, dirname } from "node:path";
+
+import { getLogger } from "./logging.js";
+
+const log = getLogger("script-watch");
+
+export const DEFAULT_DEBOUNCE_MS = 500;
+
+export type WatchStatus = "pushed" | "unchanged" | "conflict" | "error";
+
+/** What happened the last time a change was handled. */
+export interface WatchOutcome {
+    at: string;
+    status: WatchStatus;
+    message: string;
+}
+
+export interface ScriptWatch {
+    id: string;
+    /** Absolute path of the watched file, or of a multi-field record's directory. */
+    filePath: string;
+    alias: string | undefined;
+    scriptType: string;
+    scriptName: string;
+    sysId: string;
+    debounceMs: number;
+    startedAt: string;
+    pushCount: number;
+    last?: WatchOutcome;
+}
+
+export type WatchSpec = Pick<ScriptWatch, "filePath" | "alias" | "scriptType" | "scriptName" | "sysId" | "debounceMs">;
+
+/** Handles one settled change; the returned outcome is kept on the watch. */
+export type ChangeHandler = (watch: ScriptWatch) => Promise<WatchOutcome>;
+
+interface ActiveWatch {
+    watch: ScriptWatch;
+    owner: object;
+    watcher: FSWatcher;
+    onChange: ChangeHandler;
+    timer?: NodeJS.Timeout;
+    running: boolean;
+    /** A change arrived while a push was running. */
+    again: boolean;
+}
+
+const active = new Map<string, ActiveWatch>();
+
+/** Copies, so a caller cannot edit the live state. */
+function snapshot(entry: ActiveWatch): ScriptWatch {
+    return { ...entry.watch, last: entry.watch.last ? { ...entry.watch.last } : undefined };
+}
+
+function schedule(entry: ActiveWatch): void {
+    if (entry.timer) {
+        clearTimeout(entry.timer);
+    }
+    entry.timer = setTimeout(() => void run(entry), entry.watch.debounceMs);
+    entry.timer.unref?.();
+}
+
+async function run(entry: ActiveWatch): Promise<void> {
+    entry.timer = undefined;
+    if (entry.running) {
+        entry.again = true;
+        return;
+    }
+    entry.running = true;
+    let outcome: WatchOutcome;
+    try {
+        outcome = await entry.onChange(snapshot(entry));
+    } catch (error) {
+        outcome = {
+            at: new Date().toISOString(),
+            status: "error",
+            message: error instanceof Error ? error.message : String(error),
+        };
+    }
+    entry.running = false;
+    // Stopped while the push ran: nothing left to record or reschedule.
+    if (!active.has(entry.watch.id)) {
+        return;
+    }
+    entry.watch.last = outcome;
+    if (outcome.status === "pushed") {
+        entry.watch.pushCount += 1;
+    }
+    if (entry.again) {
+        entry.again = false;
+        schedule(entry);
+    }
+}
+
+/** The watch on `filePath`, in any session. One file is pushed by one watch. */
+export function findWatch(filePath: string): ScriptWatch | undefined {
+    for (const entry of active.values()) {
+        if (entry.watch.filePath === filePath) {
+            return snapshot(entry);
+        }
+    }
+    return undefined;
+}
+
+/** Starts watching. Throws if the file is already watched or its directory cannot be. */
+export function startWatch(owner: object, spec: WatchSpec, onChange: ChangeHandler): ScriptWatch {
+    const existing = findWatch(spec.filePath);
+    if (existing) {
+        throw new Error(`${spec.filePath} is already watched (${existing.id}).`);
+    }
+
+    const id = `w-${randomBytes(4).toString("hex")}`;
+    const name = basename(spec.filePath);
+    // A multi-field record is a directory of field files: any change in it counts.
+    const directory = statSync(spec.filePath).isDirectory();
+    const watcher = watch(directory ? spec.filePath : dirname(spec.filePath), (_event, changed) => {
+        // Some platforms report no file name; a spurious run finds nothing changed.
+        if (directory || changed === null || changed === name) {
+            const entry = active.get(id);
+            if (entry) schedule(entry);
+        }
+    });
+    watcher.unref();
+
+    const entry: ActiveWatch = {
+        watch: { ...spec, id, startedAt: new Date().toISOString(), pushCount: 0 },
+        owner,
+        watcher,
+        onChange,
+        running: false,
+        again: false,
+    };
+    watcher.on("error", (error) => {
+        log.warn("Stopped a script watch whose directory could not be watched", { id, filePath: spec.filePath, error });
+        stopEntry(entry);
+    });
+    active.set(id, entry);
+    log.info("Watching a script file", { id, filePath: spec.filePath, alias: spec.alias });
+    return snapshot(entry);
+}
+
+function stopEntry(entry: ActiveWatch): void {
+    if (entry.timer) {
+        clearTimeout(entry.timer);
+    }
+    entry.watcher.close();
+    active.delete(entry.watch.id);
+}
+
+/** Stops one of `owner`'s watches. Undefined when it has none by that id. */
+export function stopWatch(owner: object, id: string): ScriptWatch | undefined {
+    const entry = active.get(id);
+    if (!entry || entry.owner !== owner) {
+        return undefined;
+    }
+    stopEntry(entry);
+    log.info("Stopped watching a script file", { id, filePath: entry.watch.filePath });
+    return snapshot(entry);
+}
+
+/** `owner`'s watches, oldest first. */
+export function watchesFor(owner: object): ScriptWatch[] {
+    return [...active.values()].filter((entry) => entry.owner === owner).map(snapshot);
+}
+
+/** Stops every watch `owner` started — its session has ended. */
+export function stopWatchesFor(owner: object): ScriptWatch[] {
+    return watchesFor(owner).map((watch) => stopWatch(owner, watch.id)!);
+}
+
+/** Test seam: stops every watch, in every session. */
+export function resetWatchesForTests(): void {
+    for (const entry of [...active.values()]) {
+        stopEntry(entry);
+    }
+}
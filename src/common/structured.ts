@@ -0,0 +1,60 @@
+/**
+ * Structured tool output — `structuredContent` alongside the text block.
+ *
+ * Every handler builds a human-readable text block. On its own, that block forces a
+ * client that wants a record count or a context state to regex it back out of
+ * "=== Query Results ===" banners, which breaks the first time someone rewords a
+ * line. MCP has a field for exactly this: a tool declares an
+ * `outputSchema`, and each result carries the same facts as JSON in
+ * `structuredContent`.
+ *
+ * The text stays, and stays first. The spec asks that structured results also be
+ * serialised into a text block for clients that do not read `structuredContent`,
+ * and the model is one of those readers — the prose is written for it.
+ *
+ * The schemas mirror core's result types (BatchCreateResult, FlowContextStatusResult
+ * and friends) rather than inventing a second vocabulary. They are deliberately
+ * permissive — optional fields, `z.unknown()` for record bodies — because the SDK
+ * VALIDATES every non-error result against the declared schema and turns a mismatch
+ * into a protocol error. A field core starts omitting must degrade to "absent", not
+ * to a tool that fails on every call.
+ *
+ * Error results carry no structured content. The SDK skips validation when
+ * `isError` is set, and an error's one fact is its message, which the text already is.
+ */
+
+import { z } from "zod";
+
+/** What every tool result is, narrowed to the single-text-block shape used here. */
+export interface StructuredToolResult {
+    content: { type: "text"; text: string }[];
+    structuredContent: Record<string, unknown>;
+    isError?: boolean;
+    [key: string]: unknown;
+}
+
+/**
+ * Builds a successful result: the text block the model reads, plus the same facts as
+ * JSON for clients that consume them.
+ *
+ * `structured` is typed `object` rather than `Record<string, unknown>` so core's
+ * result interfaces can be passed straight through — an interface has no implicit
+ * index signature, and copying every field out by hand just to satisfy the compiler
+ * would be one more chance per tool to drop one.
+ */
+export function structuredResult(text: string, structured: object): StructuredToolResult {
+    return {
+        content: [{ type: "text" as const, text }],
+        structuredContent: structured as Record<string, unknown>,
+    };
+}
+
+/**
+ * A record as the Table API returns it: field name to value. Values are strings for
+ * raw reads and `{value, display_value}` objects for display-value reads, so neither
+ * is assumed.
+ */
+export const recordSchema = z.record(z.unknown());
+
+/** Per-item error entries from core's batch and bulk operations. Shapes vary by operation. */
+export const errorListSchema = z.array(z.unknown());
@@ -0,0 +1,171 @@
+/**
+ * Paging through the Table API past a single request's limit.
+ *
+ * One GET returns at most the `sysparm_limit` it was asked for, and query_table caps
+ * that at 1000 — so anything larger used to truncate without saying so. Paging walks
+ * `sysparm_offset`, with `ORDERBYsys_id` appended to the query so that page N and page
+ * N+1 are cut from the SAME ordering. Without it the instance is free to order each
+ * request differently, and offset paging would skip and repeat records at random.
+ *
+ * Offsets are not a snapshot. A record inserted or deleted mid-walk shifts every
+ * later page by one; sys_id ordering keeps that to a shift rather than a shuffle.
+ * For an audit across tens of thousands of rows that is the honest guarantee, and it
+ * is stated in TOOLS.md rather than hidden here.
+ *
+ * Continuation is an opaque cursor rather than a bare offset, so a resumed call cannot
+ * quietly apply an offset from one query to a different one.
+ */
+
+import { TableAPIRequest, type ServiceNowInstance } from "@sonisoft/now-sdk-ext-core";
+
+import { isRetryableResponse } from "./connection.js";
+
+/** What identifies a result set: the same four values must be used for every page. */
+export interface TableQuery {
+    table: string;
+    query?: string;
+    fields?: string;
+    /** `"all"` returns `{ value, display_value }` for every field, for callers that want both. */
+    displayValue: boolean | "all";
+    /** Raw reference values as plain sys_ids rather than `{ link, value }`. Not part of the cursor: it does not change which records match. */
+    excludeReferenceLink?: boolean;
+}
+
+interface TableResponse {
+    result: Record<string, unknown>[];
+}
+
+/** Largest page the Table API is asked for. Also query_table's `limit` cap. */
+export const MAX_PAGE_SIZE = 1000;
+
+/** The query with a stable ordering appended. Existing ORDERBY clauses keep precedence. */
+export function pagedQuery(query: string | undefined): string {
+    return query ? `${query}^ORDERBYsys_id` : "ORDERBYsys_id";
+}
+
+interface CursorBody {
+    t: string;
+    q: string;
+    f: string;
+    d: boolean | "all";
+    o: number;
+}
+
+/** An opaque token for "the same query, from this offset". */
+export function encodeCursor(request: TableQuery, offset: number): string {
+    const body: CursorBody = {
+        t: request.table,
+        q: request.query ?? "",
+        f: request.fields ?? "",
+        d: request.displayValue,
+        o: offset,
+    };
+    return Buffer.from(JSON.stringify(body)).toString("base64url");
+}
+
+/**
+ * The offset a cursor resumes from. THROWS if the cursor is malformed or was issued
+ * for a different table, query, field list or display mode — resuming anyway would
+ * return records from the middle of some other result set.
+ */
+export function decodeCursor(cursor: string, request: TableQuery): number {
+    let body: Partial<CursorBody>;
+    try {
+        body = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8")) as Partial<CursorBody>;
+    } catch {
+        throw new Error("The cursor is not one this server issued.");
+    }
+    if (typeof body.o !== "number" || !Number.isInteger(body.o) || body.o < 0) {
+        throw new Error("The cursor is not one this server issued.");
+    }
+    if (
+        body.t !== request.table ||
+        body.q !== (request.query ?? "") ||
+        body.f !== (request.fields ?? "") ||
+        body.d !== request.displayValue
+    ) {
+        throw new Error(
+            "The cursor was issued for a different query. Pass the same table, query, fields " +
+                "and display_value as the call that returned it.",
+        );
+    }
+    return body.o;
+}
+
+/**
+ * Fetches one page. `offset` undefined means an ordinary, unordered single request —
+ * exactly what query_table sent before paging existed.
+ *
+ * Returns the raw response so the caller decides how a non-200 is reported; throws
+ * only for a dead session, so withConnectionRetry can evict the cache and retry.
+ */
+export async function fetchTablePage(
+    snInstance: ServiceNowInstance,
+    request: TableQuery,
+    offset: number | undefined,
+    limit: number,
+) {
+    const tableApi = new TableAPIRequest(snInstance);
+
+    const queryParams: Record<string, string | number> = {
+        sysparm_limit: limit,
+    };
+    if (offset !== undefined) {
+        queryParams.sysparm_query = pagedQuery(request.query);
+        queryParams.sysparm_offset = offset;
+    } else if (request.query) {
+        queryParams.sysparm_query = request.query;
+    }
+    if (request.fields) queryParams.sysparm_fields = request.fields;
+    if (request.displayValue) queryParams.sysparm_display_value = request.displayValue === "all" ? "all" : "true";
+    if (request.excludeReferenceLink) queryParams.sysparm_exclude_reference_link = "true";
+
+    const resp = await tableApi.get<TableResponse>(request.table, queryParams);
+
+    if (isRetryableResponse(resp)) {
+        const status = resp?.status ?? "unknown";
+        const statusText = resp?.statusText ?? "No response";
+        throw new Error(`HTTP ${status} ${statusText} querying table "${request.table}"`);
+    }
+
+    return resp;
+}
+
+/** sys_ids per `IN` query: enough to save requests, few enough to keep the URL short. */
+export const ID_CHUNK = 100;
+
+/** A Table API value as text; a missing one as "". */
+export function valueText(value: unknown): string {
+    return value === undefined || value === null ? "" : String(value);
+}
+
+/**
+ * Every record matching `query`, page by page, each value as text — or the first
+ * `limit`, when one is given. `onPage` is told how many have been read after each
+ * page. THROWS on a failed read.
+ */
+export async function readRecords(
+    snInstance: ServiceNowInstance,
+    table: string,
+    query: string,
+    fields: string,
+    options: { limit?: number; onPage?: (read: number) => void } = {},
+): Promise<Record<string, string>[]> {
+    const { limit = Infinity, onPage } = options;
+    const request: TableQuery = { table, query, fields, displayValue: false, excludeReferenceLink: true };
+    const records: Record<string, string>[] = [];
+    while (records.length < limit) {
+        const pageSize = Math.min(MAX_PAGE_SIZE, limit - records.length);
+        const response = await fetchTablePage(snInstance, request, records.length, pageSize);
+        if (response.status !== 200) {
+            throw new Error(`HTTP ${response.status} ${response.statusText} reading "${table}"`);
+        }
+        const page: Record<string, unknown>[] = response.bodyObject?.result ?? [];
+        records.push(
+            ...page.map((record) => Object.fromEntries(Object.entries(record).map(([k, v]) => [k, valueText(v)]))),
+        );
+        onPage?.(records.length);
+        if (page.length < pageSize) break;
+    }
+    return records;
+}
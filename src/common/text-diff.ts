@@ -0,0 +1,208 @@
+/**
+ * Line diffs, for showing a person what changed in a script.
+ *
+ * Written here rather than taken from a package for the reason xlsx.ts is: one
+ * function's worth of need does not justify a dependency. It is Myers' algorithm on
+ * the lines left after trimming the common prefix and suffix — edits to a script are
+ * usually local, so the part diffed is usually small. A middle too different to diff
+ * cheaply is shown as replaced outright, which is correct, just not minimal.
+ */
+
+export interface DiffOp {
+    kind: "equal" | "delete" | "insert";
+    line: string;
+}
+
+/** A changed region as a half-open range of lines in the OLD text. An insertion is empty. */
+export interface ChangedRange {
+    start: number;
+    end: number;
+}
+
+/** Edit distance past which the middle is shown as replaced rather than searched for. */
+const MAX_EDIT_DISTANCE = 2000;
+
+export function splitLines(text: string): string[] {
+    if (text === "") {
+        return [];
+    }
+    return text.replace(/\r\n/g, "\n").replace(/\n$/, "").split("\n");
+}
+
+/**
+ * Myers' shortest edit script for `a` to `b`, or undefined once it exceeds `limit`.
+ *
+ * Step d only reaches diagonals -d..d, so that is all the trace keeps of each step:
+ * memory grows with the square of the edit distance, not with the file length times
+ * it, and the limit bounds it whatever the size of the texts.
+ */
+function myers(a: string[], b: string[], limit: number): DiffOp[] | undefined {
+    const n = a.length;
+    const m = b.length;
+    const max = Math.min(n + m, limit);
+    const offset = max + 1;
+    let v = new Array<number>(2 * offset + 1).fill(0);
+    const trace: number[][] = [];
+
+    for (let d = 0; d <= max; d++) {
+        trace.push(v.slice(offset - d, offset + d + 1));
+        const next = v.slice();
+        for (let k = -d; k <= d; k += 2) {
+            let x =
+                k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+                    ? v[offset + k + 1]
+                    : v[offset + k - 1] + 1;
+            let y = x - k;
+            while (x < n && y < m && a[x] === b[y]) {
+                x++;
+                y++;
+            }
+            next[offset + k] = x;
+            if (x >= n && y >= m) {
+                return backtrack(a, b, trace, d);
+            }
+        }
+        v = next;
+    }
+    return undefined;
+}
+
+/** Walks the trace back from the end. `trace[d]` holds diagonals -d..d, diagonal k at index k + d. */
+function backtrack(a: string[], b: string[], trace: number[][], distance: number): DiffOp[] {
+    const ops: DiffOp[] = [];
+    let x = a.length;
+    let y = b.length;
+    for (let d = distance; d > 0; d--) {
+        const v = trace[d];
+        const k = x - y;
+        const down = k === -d || (k !== d && v[k - 1 + d] < v[k + 1 + d]);
+        const prevK = down ? k + 1 : k - 1;
+        const prevX = v[prevK + d];
+        const prevY = prevX - prevK;
+        while (x > prevX && y > prevY) {
+            ops.push({ kind: "equal", line: a[--x] });
+            y--;
+        }
+        if (down) {
+            ops.push({ kind: "insert", line: b[--y] });
+        } else {
+            ops.push({ kind: "delete", line: a[--x] });
+        }
+    }
+    while (x > 0 && y > 0) {
+        ops.push({ kind: "equal", line: a[--x] });
+        y--;
+    }
+    return ops.reverse();
+}
+
+/** The edit script turning `before` into `after`, line by line. */
+export function diffLines(before: string, after: string): DiffOp[] {
+    const a = splitLines(before);
+    const b = splitLines(after);
+    let prefix = 0;
+    while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+        prefix++;
+    }
+    let suffix = 0;
+    while (
+        suffix < a.length - prefix &&
+        suffix < b.length - prefix &&
+        a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+    ) {
+        suffix++;
+    }
+    const middleA = a.slice(prefix, a.length - suffix);
+    const middleB = b.slice(prefix, b.length - suffix);
+    const middle = myers(middleA, middleB, MAX_EDIT_DISTANCE) ?? [
+        ...middleA.map((line): DiffOp => ({ kind: "delete", line })),
+        ...middleB.map((line): DiffOp => ({ kind: "insert", line })),
+    ];
+    return [
+        ...a.slice(0, prefix).map((line): DiffOp => ({ kind: "equal", line })),
+        ...middle,
+        ...a.slice(a.length - suffix).map((line): DiffOp => ({ kind: "equal", line })),
+    ];
+}
+
+/** The regions of the old text an edit script touches. */
+export function changedRanges(ops: DiffOp[]): ChangedRange[] {
+    const ranges: ChangedRange[] = [];
+    let line = 0;
+    let open: ChangedRange | undefined;
+    for (const op of ops) {
+        if (op.kind === "equal") {
+            open = undefined;
+            line++;
+            continue;
+        }
+        if (!open) {
+            open = { start: line, end: line };
+            ranges.push(open);
+        }
+        if (op.kind === "delete") {
+            line++;
+            open.end = line;
+        }
+    }
+    return ranges;
+}
+
+/**
+ * Whether two sets of edits to the same text touch the same lines. Edits that meet —
+ * one inserts where the other's change begins or ends — count: merging those needs a
+ * person as much as true overlaps do.
+ */
+export function rangesOverlap(first: ChangedRange[], second: ChangedRange[]): boolean {
+    return first.some((a) => second.some((b) => a.start <= b.end && b.start <= a.end));
+}
+
+/** A unified diff, `---`/`+++` headers and `@@` hunks with `context` lines around each change. */
+export function unifiedDiff(
+    before: string,
+    after: string,
+    labels: { before: string; after: string },
+    context = 3,
+): string {
+    const ops = diffLines(before, after);
+    if (ops.every((op) => op.kind === "equal")) {
+        return "";
+    }
+
+    // Old and new line numbers at each op, for the hunk headers.
+    const positions: { a: number; b: number }[] = [];
+    let a = 0;
+    let b = 0;
+    for (const op of ops) {
+        positions.push({ a, b });
+        if (op.kind !== "insert") a++;
+        if (op.kind !== "delete") b++;
+    }
+
+    const changed = ops.map((op, i) => (op.kind === "equal" ? -1 : i)).filter((i) => i >= 0);
+    const hunks: [number, number][] = [];
+    for (const index of changed) {
+        const start = Math.max(0, index - context);
+        const end = Math.min(ops.length, index + context + 1);
+        const last = hunks[hunks.length - 1];
+        if (last && start <= last[1]) {
+            last[1] = Math.max(last[1], end);
+        } else {
+            hunks.push([start, end]);
+        }
+    }
+
+    const lines = [`--- ${labels.before}`, `+++ ${labels.after}`];
+    for (const [start, end] of hunks) {
+        const slice = ops.slice(start, end);
+        const oldCount = slice.filter((op) => op.kind !== "insert").length;
+        const newCount = slice.filter((op) => op.kind !== "delete").length;
+        const oldStart = oldCount === 0 ? positions[start].a : positions[start].a + 1;
+        const newStart = newCount === 0 ? positions[start].b : positions[start].b + 1;
+        lines.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+        for (const op of slice) {
+            lines.push(`${op.kind === "equal" ? " " : op.kind === "delete" ? "-" : "+"}${op.line}`);
+        }
+    }
+    return lines.join("\n");
+}
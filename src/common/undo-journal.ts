@@ -0,0 +1,312 @@
+/**
+ * Undo journal: the prior value of every field a bulk update is about to change.
+ *
+ * When batch_update_records or query_update_records sets the wrong value on a few
+ * hundred records, the instance keeps no "before" that can be replayed — history and
+ * audit tables show it, one record at a time, and rebuilding from an XML export is a
+ * morning's work. So before such a write the records are read, and their current
+ * values for the fields being set are saved under an operation id; undo_operation
+ * puts them back.
+ *
+ * One JSON file per operation, in NEX_UNDO_DIR. Off unless that is set: like file
+ * logging and the audit trail, this server does not write to disk unasked (NEX-3).
+ *
+ * The sequence for a journaled write:
+ *
+ *   1. read the target records: the fields being set, plus sys_mod_count
+ *   2. save the journal as "pending" — BEFORE the write, so a crash mid-write still
+ *      leaves the before-values on disk
+ *   3. run the write
+ *   4. read the same records back, by sys_id, and save what actually changed as
+ *      "applied". Records the write left alone — a `limit`, a failed update — are
+ *      dropped, so undo never touches a record this operation did not.
+ *
+ * Undo checks each record first. If its sys_mod_count has moved since step 4 AND one
+ * of the journaled fields no longer holds the value this operation wrote, someone
+ * else has changed it since: that is a conflict, reported and skipped unless forced.
+ * A change to some other field is not a conflict — restoring ours loses nothing.
+ */
+
+import { mkdirSync, readFileSync, renameSync, writeFileSync } from "node:fs";
+import { randomBytes } from "node:crypto";
+import { join, resolve } from "node:path";
+import type { ServiceNowInstance } from "@sonisoft/now-sdk-ext-core";
+
+import { fieldChanges, readBySysId, readRecords } from "./dry-run.js";
+import { getLogger } from "./logging.js";
+
+const log = getLogger("undo");
+
+/**
+ * Most records one journaled write may touch. Past this the write is refused rather
+ * than run with an undo that covers part of it — a partial undo is the trap, not a
+ * convenience. Narrow the query, or unset NEX_UNDO_DIR for a write that should not
+ * be journaled.
+ */
+export const MAX_JOURNAL_RECORDS = 10000;
+
+/** Operation ids are file names: nothing that could step outside the directory. */
+const OPERATION_ID = /^[A-Za-z0-9-]{1,64}$/;
+
+/** One record as journaled. */
+export interface JournalRecord {
+    table: string;
+    sys_id: string;
+    /** The journaled fields before the write. */
+    before: Record<string, unknown>;
+    /** The same fields as read back after it. Absent while the entry is pending. */
+    after?: Record<string, unknown>;
+    /** sys_mod_count as read back after the write. */
+    modCount?: string;
+    /** Set once undo has restored this record. */
+    undone?: boolean;
+}
+
+export interface JournalEntry {
+    id: string;
+    tool: string;
+    alias: string | null;
+    createdAt: string;
+    status: "pending" | "applied" | "undone";
+    records: JournalRecord[];
+}
+
+/** What a journaled write reads: records by sys_id, or by query. */
+export interface JournalTarget {
+    table: string;
+    fields: string[];
+    sysIds?: string[];
+    query?: string;
+}
+
+/** A record undo will not restore without `force`, and why. */
+export interface UndoConflict {
+    table: string;
+    sys_id: string;
+    reason: "deleted" | "modified";
+    /** For "modified": the journaled fields whose value has changed since. */
+    fields?: { field: string; expected: unknown; current: unknown }[];
+}
+
+let directory: string | undefined;
+
+/**
+ * Creates NEX_UNDO_DIR if needed. THROWS if it cannot, for the reason initAudit does:
+ * an operator who asked for undo and silently got none finds out at the worst time.
+ */
+export function initUndoJournal(env: NodeJS.ProcessEnv): void {
+    const raw = env.NEX_UNDO_DIR?.trim();
+    if (!raw) {
+        return;
+    }
+    const path = resolve(raw);
+    try {
+        mkdirSync(path, { recursive: true, mode: 0o700 });
+    } catch (error) {
+        throw new Error(`NEX_UNDO_DIR: cannot create "${path}": ${(error as Error).message}`);
+    }
+    directory = path;
+    log.info("Journaling bulk updates for undo", { path });
+}
+
+/** Whether writes are being journaled. */
+export function undoJournalEnabled(): boolean {
+    return directory !== undefined;
+}
+
+/** Test seam, mirroring resetAuditForTests. */
+export function resetUndoJournalForTests(): void {
+    directory = undefined;
+}
+
+function journalPath(id: string): string {
+    if (!directory) {
+        throw new Error("The undo journal is off. Set NEX_UNDO_DIR in the server's environment to turn it on.");
+    }
+    if (!OPERATION_ID.test(id)) {
+        throw new Error(`"${id}" is not an operation id.`);
+    }
+    return join(directory, `${id}.json`);
+}
+
+/** Written to a temporary name and renamed, so a reader never sees half an entry. */
+export function saveJournal(entry: JournalEntry): void {
+    const path = journalPath(entry.id);
+    const temporary = `${path}.tmp`;
+    writeFileSync(temporary, JSON.stringify(entry, null, 2), { mode: 0o600 });
+    renameSync(temporary, path);
+}
+
+/** THROWS if the journal is off or holds no such operation. */
+export function loadJournal(id: string): JournalEntry {
+    const path = journalPath(id);
+    try {
+        return JSON.parse(readFileSync(path, "utf8")) as JournalEntry;
+    } catch {
+        throw new Error(`No undo journal entry "${id}" in ${directory}.`);
+    }
+}
+
+/** Sortable by time, unique by the random tail. */
+function newOperationId(now: Date): string {
+    const stamp = now.toISOString().replace(/[-:]/g, "").replace(/\.\d+Z$/, "Z");
+    return `${stamp}-${randomBytes(4).toString("hex")}`;
+}
+
+function pick(record: Record<string, unknown>, fields: string[]): Record<string, unknown> {
+    return Object.fromEntries(fields.map((field) => [field, record[field]]));
+}
+
+/**
+ * Runs `write` with the records it targets journaled around it. Returns the write's
+ * result and, when the journal is on, the operation id to undo it by.
+ *
+ * THROWS before writing if the targets cannot be read or number more than
+ * MAX_JOURNAL_RECORDS: a write the journal cannot cover does not go ahead uncovered.
+ */
+export async function journaledWrite<T>(
+    snInstance: ServiceNowInstance,
+    meta: { tool: string; alias: string | undefined },
+    targets: JournalTarget[],
+    write: () => T,
+): Promise<{ result: Awaited<T>; operationId?: string }> {
+    if (!directory) {
+        return { result: await write() };
+    }
+
+    const records: JournalRecord[] = [];
+    for (const target of targets) {
+        const fields = [...new Set(target.fields)];
+        let snapshot: Record<string, unknown>[];
+        if (target.sysIds) {
+            snapshot = [...(await readBySysId(snInstance, target.table, [...new Set(target.sysIds)], fields)).values()];
+        } else {
+            const read = await readRecords(
+                snInstance,
+                target.table,
+                target.query ?? "",
+                [...fields, "sys_mod_count"],
+                MAX_JOURNAL_RECORDS,
+            );
+            if (read.truncated) {
+                throw new Error(
+                    `More than ${MAX_JOURNAL_RECORDS} records of ${target.table} match, more than the undo ` +
+                        "journal covers. Nothing was changed. Narrow the query, or unset NEX_UNDO_DIR.",
+                );
+            }
+            snapshot = read.records;
+        }
+        for (const record of snapshot) {
+            records.push({ table: target.table, sys_id: String(record.sys_id), before: pick(record, fields) });
+        }
+    }
+    if (records.length > MAX_JOURNAL_RECORDS) {
+        throw new Error(
+            `This write would change ${records.length} records, more than the ${MAX_JOURNAL_RECORDS} the undo ` +
+                "journal covers. Nothing was changed.",
+        );
+    }
+
+    const entry: JournalEntry = {
+        id: newOperationId(new Date()),
+        tool: meta.tool,
+        alias: meta.alias ?? null,
+        createdAt: new Date().toISOString(),
+        status: "pending",
+        records,
+    };
+    saveJournal(entry);
+
+    let result: Awaited<T>;
+    try {
+        result = await write();
+    } finally {
+        // Also after a throw: a write that failed part-way has still changed the
+        // records it reached, and those are exactly the ones worth undoing.
+        try {
+            await recordOutcome(snInstance, entry);
+        } catch (error) {
+            log.warn("Could not read back an operation for the undo journal; it stays pending", {
+                operationId: entry.id,
+                error,
+            });
+        }
+    }
+    return { result, operationId: entry.id };
+}
+
+/** Step 4: read back, keep only the records that changed, mark applied. */
+async function recordOutcome(snInstance: ServiceNowInstance, entry: JournalEntry): Promise<void> {
+    const changed: JournalRecord[] = [];
+    for (const table of new Set(entry.records.map((r) => r.table))) {
+        const forTable = entry.records.filter((r) => r.table === table);
+        const fields = [...new Set(forTable.flatMap((r) => Object.keys(r.before)))];
+        const current = await readBySysId(
+            snInstance,
+            table,
+            forTable.map((r) => r.sys_id),
+            fields,
+        );
+        for (const record of forTable) {
+            const now = current.get(record.sys_id);
+            if (!now) {
+                continue;
+            }
+            const after = pick(now, Object.keys(record.before));
+            if (fieldChanges(record.before, after).length > 0) {
+                changed.push({ ...record, after, modCount: String(now.sys_mod_count ?? "") });
+            }
+        }
+    }
+    entry.records = changed;
+    entry.status = "applied";
+    saveJournal(entry);
+}
+
+/**
+ * Splits an entry's not-yet-undone records into those to restore and conflicts.
+ * With `force`, a record someone has changed since is restored anyway; a deleted one
+ * never is. Reads only.
+ */
+export async function planUndo(
+    snInstance: ServiceNowInstance,
+    entry: JournalEntry,
+    force: boolean,
+): Promise<{ restore: JournalRecord[]; conflicts: UndoConflict[]; current: Map<string, Record<string, unknown>> }> {
+    const pending = entry.records.filter((r) => !r.undone);
+    const restore: JournalRecord[] = [];
+    const conflicts: UndoConflict[] = [];
+    const current = new Map<string, Record<string, unknown>>();
+
+    for (const table of new Set(pending.map((r) => r.table))) {
+        const forTable = pending.filter((r) => r.table === table);
+        const fields = [...new Set(forTable.flatMap((r) => Object.keys(r.before)))];
+        const read = await readBySysId(
+            snInstance,
+            table,
+            forTable.map((r) => r.sys_id),
+            fields,
+        );
+        for (const record of forTable) {
+            const now = read.get(record.sys_id);
+            if (!now) {
+                conflicts.push({ table, sys_id: record.sys_id, reason: "deleted" });
+                continue;
+            }
+            current.set(`${table}:${record.sys_id}`, now);
+            const untouched = String(now.sys_mod_count ?? "") === record.modCount;
+            const moved = untouched ? [] : fieldChanges(record.after, pick(now, Object.keys(record.before)));
+            if (moved.length > 0 && !force) {
+                conflicts.push({
+                    table,
+                    sys_id: record.sys_id,
+                    reason: "modified",
+                    fields: moved.map((f) => ({ field: f.field, expected: f.before, current: f.after })),
+                });
+            } else {
+                restore.push(record);
+            }
+        }
+    }
+    return { restore, conflicts, current };
+}
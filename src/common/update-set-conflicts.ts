@@ -0,0 +1,216 @@
+/**
+ * Which update sets touch the same records — what has to be known before sets are
+ * merged or promoted, because whichever commits last wins each shared record, whatever
+ * order they were meant to go in.
+ *
+ * A record's customer update is identified by sys_update_xml `name` (for example
+ * `sys_script_include_<sys_id>`), not by target_name, which is only its display label
+ * and is shared by unrelated records. Two sets conflict on a name when both hold an
+ * update for it.
+ *
+ * The Default update set is checked as well. A change made while Default was current —
+ * someone forgot to switch sets — is captured there and never promoted with the named
+ * set that holds the rest of that record's work. When that Default update is the newer
+ * one, promoting the named set carries a stale version.
+ */
+
+import type { ServiceNowInstance } from "@sonisoft/now-sdk-ext-core";
+
+import { withConnectionRetry } from "./connection.js";
+import type { ProgressCallback } from "./progress.js";
+import { readRecords } from "./table-pages.js";
+
+/** Most update sets one analysis compares. */
+export const MAX_ANALYZED_SETS = 100;
+
+/** Names per `nameIN` query. A list of thousands would outgrow a URL. */
+const NAME_CHUNK = 100;
+
+const UPDATE_FIELDS = "sys_id,name,target_name,type,update_set,sys_updated_on,sys_updated_by";
+
+export interface AnalyzedSet {
+    sys_id: string;
+    name: string;
+    state: string;
+    updateCount: number;
+}
+
+/** One set's newest update for a record. */
+export interface SetUpdate {
+    sys_id: string;
+    name: string;
+    author: string;
+    updatedOn: string;
+}
+
+export interface UpdateConflict {
+    /** The sys_update_xml name that identifies the record. */
+    name: string;
+    targetName: string;
+    type: string;
+    /** Newest first. */
+    sets: SetUpdate[];
+}
+
+export interface MisplacedUpdate {
+    /** The Default set's sys_update_xml record, as move_update_set_records takes it. */
+    updateSysId: string;
+    name: string;
+    targetName: string;
+    type: string;
+    defaultUpdateSet: { sys_id: string; name: string };
+    author: string;
+    updatedOn: string;
+    /** The analyzed sets that also hold an update for this record. */
+    belongsTo: { sys_id: string; name: string }[];
+    /** True when the Default update is newer than every named set's. */
+    newer: boolean;
+}
+
+export interface ConflictAnalysis {
+    updateSets: AnalyzedSet[];
+    conflicts: UpdateConflict[];
+    misplaced: MisplacedUpdate[];
+}
+
+type UpdateRecord = Record<string, string>;
+
+/** Keeps the newer of two updates; sys_updated_on sorts as text. */
+function newer(a: UpdateRecord | undefined, b: UpdateRecord): UpdateRecord {
+    return !a || b.sys_updated_on > a.sys_updated_on ? b : a;
+}
+
+/**
+ * Compares the update sets chosen by `selection` — a list of sys_ids, or an encoded
+ * query over sys_update_set. THROWS if it selects no set, or more than
+ * MAX_ANALYZED_SETS.
+ */
+export async function analyzeUpdateSetConflicts(
+    alias: string | undefined,
+    selection: { sysIds?: string[]; query?: string },
+    onProgress?: ProgressCallback,
+): Promise<ConflictAnalysis> {
+    const invalid = selection.sysIds?.find((id) => !/^[0-9a-f]{32}$/.test(id));
+    if (invalid !== undefined) {
+        throw new Error(`"${invalid}" is not a sys_id.`);
+    }
+    const setQuery = selection.sysIds ? `sys_idIN${selection.sysIds.join(",")}` : (selection.query ?? "");
+
+    return withConnectionRetry(alias, async (snInstance) => {
+        const sets = await readRecords(snInstance, "sys_update_set", setQuery, "sys_id,name,state,application,is_default");
+        if (sets.length === 0) {
+            throw new Error(`No update sets match ${selection.sysIds ? "those sys_ids" : `"${setQuery}"`}.`);
+        }
+        if (sets.length > MAX_ANALYZED_SETS) {
+            throw new Error(
+                `${sets.length} update sets match; compare at most ${MAX_ANALYZED_SETS} at a time. Narrow the query.`,
+            );
+        }
+        if (selection.sysIds) {
+            const found = new Set(sets.map((set) => set.sys_id));
+            const missing = selection.sysIds.filter((id) => !found.has(id));
+            if (missing.length > 0) {
+                throw new Error(`No update set ${missing.join(", ")}.`);
+            }
+        }
+        const setNames = new Map(sets.map((set) => [set.sys_id, set.name]));
+
+        const updates = await readRecords(
+            snInstance,
+            "sys_update_xml",
+            `update_setIN${sets.map((set) => set.sys_id).join(",")}`,
+            UPDATE_FIELDS,
+            { onPage: (read) => onProgress?.(`Read ${read} updates from ${sets.length} update sets`) },
+        );
+
+        // name -> update set -> that set's newest update of the record
+        const byName = new Map<string, Map<string, UpdateRecord>>();
+        const counts = new Map<string, number>();
+        for (const update of updates) {
+            const perSet = byName.get(update.name) ?? new Map<string, UpdateRecord>();
+            perSet.set(update.update_set, newer(perSet.get(update.update_set), update));
+            byName.set(update.name, perSet);
+            counts.set(update.update_set, (counts.get(update.update_set) ?? 0) + 1);
+        }
+
+        const setUpdate = (update: UpdateRecord): SetUpdate => ({
+            sys_id: update.update_set,
+            name: setNames.get(update.update_set) ?? update.update_set,
+            author: update.sys_updated_by,
+            updatedOn: update.sys_updated_on,
+        });
+        const latest = (perSet: Map<string, UpdateRecord>) =>
+            [...perSet.values()].reduce<UpdateRecord | undefined>((a, b) => newer(a, b), undefined)!;
+
+        const conflicts: UpdateConflict[] = [...byName.entries()]
+            .filter(([, perSet]) => perSet.size > 1)
+            .map(([name, perSet]) => {
+                const first = latest(perSet);
+                return {
+                    name,
+                    targetName: first.target_name,
+                    type: first.type,
+                    sets: [...perSet.values()]
+                        .sort((a, b) => b.sys_updated_on.localeCompare(a.sys_updated_on))
+                        .map(setUpdate),
+                };
+            })
+            .sort((a, b) => a.name.localeCompare(b.name));
+
+        // The Default sets of the applications these named sets belong to.
+        const named = sets.filter((set) => set.is_default !== "true");
+        const applications = [...new Set(named.map((set) => set.application).filter(Boolean))];
+        const misplaced: MisplacedUpdate[] = [];
+        if (named.length > 0 && applications.length > 0) {
+            const defaults = await readRecords(
+                snInstance,
+                "sys_update_set",
+                `is_default=true^applicationIN${applications.join(",")}`,
+                "sys_id,name",
+            );
+            const namedIds = new Set(named.map((set) => set.sys_id));
+            const names = [...byName.entries()]
+                .filter(([, perSet]) => [...perSet.keys()].some((id) => namedIds.has(id)))
+                .map(([name]) => name);
+            const defaultNames = new Map(defaults.map((set) => [set.sys_id, set.name]));
+            for (let i = 0; defaults.length > 0 && i < names.length; i += NAME_CHUNK) {
+                const chunk = names.slice(i, i + NAME_CHUNK);
+                const found = await readRecords(
+                    snInstance,
+                    "sys_update_xml",
+                    `update_setIN${defaults.map((set) => set.sys_id).join(",")}^nameIN${chunk.join(",")}`,
+                    UPDATE_FIELDS,
+                );
+                const newest = new Map<string, UpdateRecord>();
+                found.forEach((update) => newest.set(update.name, newer(newest.get(update.name), update)));
+                for (const update of newest.values()) {
+                    const inNamed = [...byName.get(update.name)!.values()].filter((u) => namedIds.has(u.update_set));
+                    misplaced.push({
+                        updateSysId: update.sys_id,
+                        name: update.name,
+                        targetName: update.target_name,
+                        type: update.type,
+                        defaultUpdateSet: { sys_id: update.update_set, name: defaultNames.get(update.update_set) ?? "Default" },
+                        author: update.sys_updated_by,
+                        updatedOn: update.sys_updated_on,
+                        belongsTo: inNamed.map((u) => ({ sys_id: u.update_set, name: setNames.get(u.update_set) ?? u.update_set })),
+                        newer: inNamed.every((u) => update.sys_updated_on > u.sys_updated_on),
+                    });
+                }
+                onProgress?.(`Checked ${Math.min(i + NAME_CHUNK, names.length)} of ${names.length} records against Default`);
+            }
+            misplaced.sort((a, b) => a.name.localeCompare(b.name));
+        }
+
+        return {
+            updateSets: sets.map((set) => ({
+                sys_id: set.sys_id,
+                name: set.name,
+                state: set.state,
+                updateCount: counts.get(set.sys_id) ?? 0,
+            })),
+            conflicts,
+            misplaced,
+        };
+    });
+}
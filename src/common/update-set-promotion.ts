@@ -0,0 +1,492 @@
+/**
+ * Promoting a completed update set from one instance to another: retrieve, preview,
+ * resolve the preview's problems, commit — the steps an admin otherwise clicks through
+ * on the target's Retrieved Update Sets list.
+ *
+ * Core has no remote update set API, so the pieces are built from what it does have.
+ * Retrieval reads sys_update_set and its sys_update_xml on the source and creates the
+ * sys_remote_update_set and its children on the target through the Table API. Preview,
+ * problem resolution and commit call the same platform classes the UI actions call, in
+ * a background script. Preview and commit start a worker and return its progress id,
+ * so a large set runs on the instance's own schedule rather than inside the background
+ * script's transaction timeout; awaitTracker polls sys_execution_tracker until it ends.
+ */
+
+import { BatchOperations, TableAPIRequest, type ServiceNowInstance } from "@sonisoft/now-sdk-ext-core";
+
+import { runBackgroundScript } from "./background-script.js";
+import { withConnectionRetry } from "./connection.js";
+import type { ProgressCallback } from "./progress.js";
+import { jsLiteral } from "./script-library.js";
+import { valueText } from "./table-pages.js";
+
+const SYS_ID = /^[0-9a-f]{32}$/;
+
+/** The sys_update_xml fields a retrieved update carries over from the source. */
+const UPDATE_FIELDS = [
+    "name",
+    "type",
+    "target_name",
+    "action",
+    "category",
+    "table",
+    "application",
+    "payload",
+    "payload_hash",
+    "update_domain",
+    "update_guid",
+    "update_guid_history",
+    "replace_on_upgrade",
+    "view",
+    "comments",
+    "sys_recorded_at",
+];
+
+/** Updates read per page. Payloads are whole records as XML, so pages stay small. */
+const UPDATE_PAGE_SIZE = 100;
+
+/** Updates created per batch, so progress is reported as the set is written. */
+const CREATE_CHUNK = 50;
+
+/** How often a running preview or commit is checked. */
+export const POLL_INTERVAL_MS = 2000;
+
+interface TableResponse {
+    result: Record<string, unknown>[];
+}
+
+/** sys_execution_tracker states. */
+const TRACKER_STATES: Record<string, string> = {
+    "0": "pending",
+    "1": "running",
+    "2": "successful",
+    "3": "failed",
+    "4": "cancelled",
+};
+
+export interface PromotionSource {
+    sys_id: string;
+    name: string;
+    state: string;
+    application?: string;
+}
+
+/**
+ * An update set as it travels between instances: the sys_remote_update_set fields and
+ * the sys_update_xml records, as strings — the same whether read from a source
+ * instance or from an exported file.
+ */
+export interface UpdateSetCopy {
+    header: Record<string, string>;
+    updates: Record<string, string>[];
+}
+
+export interface LoadResult {
+    remoteUpdateSetId: string;
+    updateCount: number;
+}
+
+export interface RetrieveResult extends LoadResult {
+    source: PromotionSource;
+}
+
+export interface TrackerResult {
+    progressId: string;
+    /** false when the wait timed out; the worker carries on on the instance. */
+    finished: boolean;
+    state: string;
+    percentComplete: number;
+    message?: string;
+}
+
+export interface RemoteUpdateSet {
+    sys_id: string;
+    name: string;
+    state: string;
+    remote_sys_id?: string;
+}
+
+export type ProblemAction = "accept" | "skip";
+
+export interface PreviewProblem {
+    sys_id: string;
+    type: string;
+    status: string;
+    description: string;
+    /** What the problem is about: the remote update's target name. */
+    update?: string;
+    missingItem?: string;
+    missingItemTable?: string;
+    /** How this kind of problem is usually resolved. */
+    resolution: string;
+}
+
+/** The one argument that reaches a script: it must be a sys_id, whatever the caller sent. */
+function checkSysId(value: string, label: string): string {
+    if (!SYS_ID.test(value)) {
+        throw new Error(`${label} must be a 32-character sys_id, not "${value}".`);
+    }
+    return value;
+}
+
+async function readTable(
+    snInstance: ServiceNowInstance,
+    table: string,
+    query: string,
+    fields: string[],
+    limit: number,
+    offset = 0,
+): Promise<Record<string, unknown>[]> {
+    const tableApi = new TableAPIRequest(snInstance);
+    const response = await tableApi.get<TableResponse>(table, {
+        sysparm_query: query,
+        sysparm_fields: fields.join(","),
+        sysparm_limit: limit,
+        sysparm_offset: offset,
+        sysparm_exclude_reference_link: "true",
+    });
+    // "No response" in the message is what lets withConnectionRetry retry a dead session.
+    if (!response || response.status !== 200) {
+        const status = response?.status ?? "unknown";
+        const statusText = response?.statusText ?? "No response";
+        throw new Error(`HTTP ${status} ${statusText} reading "${table}"`);
+    }
+    return response.bodyObject?.result ?? [];
+}
+
+const strings = (record: Record<string, unknown>): Record<string, string> =>
+    Object.fromEntries(Object.entries(record).map(([field, value]) => [field, valueText(value)]));
+
+/**
+ * Reads a complete update set and its updates from `alias`, as the copy retrieval and
+ * export both start from. THROWS if the set is not complete: an in-progress set is
+ * still collecting changes, and a copy of it would be promoted as if it were whole.
+ */
+export async function readUpdateSet(
+    alias: string | undefined,
+    updateSetSysId: string,
+    onProgress?: ProgressCallback,
+): Promise<{ source: PromotionSource; copy: UpdateSetCopy }> {
+    checkSysId(updateSetSysId, "update_set_sys_id");
+    const where = alias ?? "the instance";
+    return withConnectionRetry(alias, async (snInstance) => {
+        const [set] = await readTable(
+            snInstance,
+            "sys_update_set",
+            `sys_id=${updateSetSysId}`,
+            ["sys_id", "name", "state", "description", "application", "application.name", "application.scope", "release_date"],
+            1,
+        );
+        if (!set) {
+            throw new Error(`No update set ${updateSetSysId} on ${where}.`);
+        }
+        if (set.state !== "complete") {
+            throw new Error(
+                `Update set "${valueText(set.name)}" is ${valueText(set.state) || "not complete"} on ${where}. ` +
+                    "Only a complete update set can be promoted; mark it complete first.",
+            );
+        }
+        const updates: Record<string, string>[] = [];
+        for (;;) {
+            const page = await readTable(
+                snInstance,
+                "sys_update_xml",
+                `update_set=${updateSetSysId}^ORDERBYsys_id`,
+                UPDATE_FIELDS,
+                UPDATE_PAGE_SIZE,
+                updates.length,
+            );
+            updates.push(...page.map(strings));
+            onProgress?.(`Read ${updates.length} updates from ${where}`);
+            if (page.length < UPDATE_PAGE_SIZE) break;
+        }
+        const header = strings(set);
+        return {
+            source: { sys_id: updateSetSysId, name: header.name, state: header.state, application: header.application || undefined },
+            copy: {
+                header: {
+                    name: header.name,
+                    description: header.description ?? "",
+                    application: header.application ?? "",
+                    application_name: header["application.name"] ?? "",
+                    application_scope: header["application.scope"] ?? "",
+                    release_date: header.release_date ?? "",
+                    remote_sys_id: updateSetSysId,
+                },
+                updates,
+            },
+        };
+    });
+}
+
+/**
+ * Creates `copy` on `alias` as a retrieved update set in state "loaded", ready to
+ * preview. THROWS if the target already holds a copy of the same source set that was
+ * never committed — previewing two copies side by side only produces collisions.
+ */
+export async function loadRemoteUpdateSet(
+    alias: string | undefined,
+    copy: UpdateSetCopy,
+    onProgress?: ProgressCallback,
+): Promise<LoadResult> {
+    const { header, updates } = copy;
+    return withConnectionRetry(alias, async (snInstance) => {
+        if (header.remote_sys_id) {
+            const [existing] = await readTable(
+                snInstance,
+                "sys_remote_update_set",
+                `remote_sys_id=${checkSysId(header.remote_sys_id, "remote_sys_id")}^state!=committed`,
+                ["sys_id", "state"],
+                1,
+            );
+            if (existing) {
+                throw new Error(
+                    `"${header.name}" was already retrieved as ${valueText(existing.sys_id)} (${valueText(existing.state)}). ` +
+                        "Preview and commit that one, or delete it on the target before loading it again.",
+                );
+            }
+        }
+
+        const batch = new BatchOperations(snInstance);
+        const created = await batch.batchCreate({
+            operations: [
+                {
+                    table: "sys_remote_update_set",
+                    saveAs: "remote",
+                    data: { ...header, origin_sys_id: header.remote_sys_id ?? "", state: "loaded" },
+                },
+            ],
+            transaction: true,
+        });
+        const remoteId = created.sysIds.remote;
+        if (!remoteId) {
+            throw new Error(`Could not create the retrieved update set: ${valueText(created.errors[0]?.error)}`);
+        }
+
+        let written = 0;
+        for (let i = 0; i < updates.length; i += CREATE_CHUNK) {
+            const chunk = updates.slice(i, i + CREATE_CHUNK);
+            const result = await batch.batchCreate({
+                operations: chunk.map((update) => ({
+                    table: "sys_update_xml",
+                    data: { ...update, remote_update_set: remoteId, update_set: "" },
+                })),
+                transaction: true,
+            });
+            written += result.createdCount;
+            if (result.errors.length > 0) {
+                throw new Error(
+                    `Wrote ${written} of ${updates.length} updates into retrieved update set ${remoteId}, then: ` +
+                        `${valueText(result.errors[0].error)}. It is incomplete — delete it on the target before ` +
+                        "loading it again; previewing it would miss the rest.",
+                );
+            }
+            onProgress?.(`Wrote ${written} of ${updates.length} updates`);
+        }
+        return { remoteUpdateSetId: remoteId, updateCount: written };
+    });
+}
+
+/** Copies a complete update set from `sourceAlias` into `targetAlias`, ready to preview. */
+export async function retrieveUpdateSet(
+    sourceAlias: string,
+    targetAlias: string | undefined,
+    updateSetSysId: string,
+    onProgress?: ProgressCallback,
+): Promise<RetrieveResult> {
+    const { source, copy } = await readUpdateSet(sourceAlias, updateSetSysId, onProgress);
+    const loaded = await loadRemoteUpdateSet(targetAlias, copy, onProgress);
+    return { source, ...loaded };
+}
+
+/** Reads a retrieved update set. THROWS if there is none with that sys_id. */
+export async function readRemoteUpdateSet(alias: string | undefined, sysId: string): Promise<RemoteUpdateSet> {
+    checkSysId(sysId, "remote_update_set_sys_id");
+    const [record] = await withConnectionRetry(alias, (snInstance) =>
+        readTable(snInstance, "sys_remote_update_set", `sys_id=${sysId}`, ["sys_id", "name", "state", "remote_sys_id"], 1),
+    );
+    if (!record) {
+        throw new Error(`No retrieved update set ${sysId}. Retrieved update sets are in sys_remote_update_set.`);
+    }
+    return {
+        sys_id: valueText(record.sys_id),
+        name: valueText(record.name),
+        state: valueText(record.state),
+        remote_sys_id: valueText(record.remote_sys_id) || undefined,
+    };
+}
+
+/** Runs a script that answers with nex.result, and returns that value. */
+async function scriptResult(alias: string | undefined, script: string): Promise<Record<string, unknown>> {
+    const run = await runBackgroundScript(alias, script, "global");
+    if (run.structured.resultError) {
+        throw new Error(String(run.structured.resultError));
+    }
+    const value = run.structured.result as Record<string, unknown> | undefined;
+    if (!value) {
+        throw new Error(`The instance did not answer: ${run.text}`);
+    }
+    if (value.error) {
+        throw new Error(String(value.error));
+    }
+    return value;
+}
+
+/** Starts generating the preview, as the Preview Update Set UI action does. Returns the progress id. */
+export async function startPreview(alias: string | undefined, remoteUpdateSetId: string): Promise<string> {
+    const id = jsLiteral(checkSysId(remoteUpdateSetId, "remote_update_set_sys_id"));
+    const result = await scriptResult(
+        alias,
+        `var remote = new GlideRecord('sys_remote_update_set');
+if (!remote.get(${id})) {
+    nex.result({ error: 'No retrieved update set ' + ${id} });
+} else {
+    var worker = new GlideScriptedHierarchicalWorker();
+    worker.setProgressName('Generating Update Set Preview for: ' + remote.getValue('name'));
+    worker.setBackground(true);
+    worker.setCannotCancel(true);
+    worker.setScriptIncludeName('UpdateSetPreviewer');
+    worker.setScriptIncludeMethod('generatePreviewRecordsWithUpdate');
+    worker.putMethodArg('sys_id', ${id});
+    worker.start();
+    nex.result({ progressId: String(worker.getProgressID()) });
+}`,
+    );
+    return String(result.progressId);
+}
+
+/** Starts committing, as the Commit Update Set UI action does. Returns the progress id. */
+export async function startCommit(alias: string | undefined, remoteUpdateSetId: string): Promise<string> {
+    const id = jsLiteral(checkSysId(remoteUpdateSetId, "remote_update_set_sys_id"));
+    const result = await scriptResult(
+        alias,
+        `var worker = new GlideUpdateSetWorker();
+worker.setUpdateSetSysId(${id});
+worker.setBackground(true);
+worker.start();
+nex.result({ progressId: String(worker.getProgressID()) });`,
+    );
+    return String(result.progressId);
+}
+
+/**
+ * Polls the worker's sys_execution_tracker until it ends or `timeoutMs` passes,
+ * reporting each change of percentage or message. A timeout is not a failure: the
+ * worker carries on, and the result says so with `finished: false`.
+ */
+export async function awaitTracker(
+    alias: string | undefined,
+    progressId: string,
+    options: { label: string; timeoutMs: number; onProgress?: ProgressCallback; pollIntervalMs?: number },
+): Promise<TrackerResult> {
+    const { label, timeoutMs, onProgress, pollIntervalMs = POLL_INTERVAL_MS } = options;
+    checkSysId(progressId, "progress id");
+    const deadline = Date.now() + timeoutMs;
+    let last = "";
+    for (;;) {
+        const [tracker] = await withConnectionRetry(alias, (snInstance) =>
+            readTable(snInstance, "sys_execution_tracker", `sys_id=${progressId}`, ["state", "percent_complete", "message"], 1),
+        );
+        if (!tracker) {
+            throw new Error(`No progress record ${progressId} for the ${label}.`);
+        }
+        const state = TRACKER_STATES[valueText(tracker.state)] ?? valueText(tracker.state);
+        const result: TrackerResult = {
+            progressId,
+            finished: state !== "pending" && state !== "running",
+            state,
+            percentComplete: Number(tracker.percent_complete) || 0,
+            message: valueText(tracker.message) || undefined,
+        };
+        const report = `${label}: ${result.percentComplete}%${result.message ? ` — ${result.message}` : ""}`;
+        if (report !== last) {
+            onProgress?.(report);
+            last = report;
+        }
+        if (result.finished || Date.now() + pollIntervalMs > deadline) {
+            return result;
+        }
+        await new Promise((resolve) => setTimeout(resolve, pollIntervalMs));
+    }
+}
+
+/** The usual way out of a preview problem, from the wording the previewer uses. */
+export function problemResolution(description: string): string {
+    if (/could not find a record/i.test(description)) {
+        return (
+            "A record this update refers to is missing on the target. Commit the update set " +
+            "that creates it first and preview again; accept only if the reference does not matter."
+        );
+    }
+    if (/newer than this one|local update/i.test(description)) {
+        return "The target has a newer change to the same record. Accept to overwrite it with this update; skip to keep the target's version.";
+    }
+    if (/application/i.test(description)) {
+        return "The update belongs to an application that is missing or a different version on the target. Install that application first.";
+    }
+    return "Accept to apply the update anyway, or skip to leave it out of the commit.";
+}
+
+/** The preview's problems. Resolved ones (accepted or skipped) only with `includeResolved`. */
+export async function listPreviewProblems(
+    alias: string | undefined,
+    remoteUpdateSetId: string,
+    includeResolved = false,
+): Promise<PreviewProblem[]> {
+    checkSysId(remoteUpdateSetId, "remote_update_set_sys_id");
+    const records = await withConnectionRetry(alias, async (snInstance) => {
+        const all: Record<string, unknown>[] = [];
+        for (;;) {
+            const page = await readTable(
+                snInstance,
+                "sys_update_preview_problem",
+                `remote_update_set=${remoteUpdateSetId}${includeResolved ? "" : "^statusISEMPTY"}^ORDERBYtype^ORDERBYsys_id`,
+                ["sys_id", "type", "status", "description", "remote_update.target_name", "missing_item", "missing_item_table"],
+                1000,
+                all.length,
+            );
+            all.push(...page);
+            if (page.length < 1000) return all;
+        }
+    });
+    return records.map((record) => ({
+        sys_id: valueText(record.sys_id),
+        type: valueText(record.type),
+        status: valueText(record.status) || "unresolved",
+        description: valueText(record.description),
+        update: valueText(record["remote_update.target_name"]) || undefined,
+        missingItem: valueText(record.missing_item) || undefined,
+        missingItemTable: valueText(record.missing_item_table) || undefined,
+        resolution: problemResolution(valueText(record.description)),
+    }));
+}
+
+/**
+ * Accepts or skips preview problems, as the Accept remote update and Skip remote update
+ * UI actions do. Problems not in `remoteUpdateSetId` are reported, not touched.
+ */
+export async function resolvePreviewProblems(
+    alias: string | undefined,
+    remoteUpdateSetId: string,
+    problemIds: string[],
+    action: ProblemAction,
+): Promise<{ resolved: string[]; notFound: string[] }> {
+    checkSysId(remoteUpdateSetId, "remote_update_set_sys_id");
+    problemIds.forEach((id) => checkSysId(id, "Each problem id"));
+    const result = await scriptResult(
+        alias,
+        `var ids = ${jsLiteral(problemIds.join(","))}.split(','), resolved = [], notFound = [];
+for (var i = 0; i < ids.length; i++) {
+    var problem = new GlideRecord('sys_update_preview_problem');
+    if (!problem.get(ids[i]) || problem.getValue('remote_update_set') != ${jsLiteral(remoteUpdateSetId)}) {
+        notFound.push(ids[i]);
+        continue;
+    }
+    var problemAction = new GlidePreviewProblemAction(gs.action, problem);
+    ${action === "accept" ? "problemAction.ignoreProblem();" : "problemAction.skipUpdate();"}
+    resolved.push(ids[i]);
+}
+nex.result({ resolved: resolved, notFound: notFound });`,
+    );
+    return { resolved: (result.resolved as string[]) ?? [], notFound: (result.notFound as string[]) ?? [] };
+}
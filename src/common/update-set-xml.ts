@@ -0,0 +1,188 @@
+/**
+ * The unload XML an update set is exported as — the file the platform's "Export to XML"
+ * writes and "Import Update Set from XML" reads: one `<unload>` holding a
+ * sys_remote_update_set record and the sys_update_xml records that point at it, each
+ * field an element of its own. Files written here import through the platform's UI,
+ * and files the platform wrote load through import_update_set_xml.
+ *
+ * The reader is for this format only, not for XML at large: records are the children
+ * of `<unload>`, fields are the children of a record, and a field holds text — the
+ * payload is a whole record as XML, but escaped or in CDATA, never as elements.
+ */
+
+import { randomBytes } from "node:crypto";
+
+import type { UpdateSetCopy } from "./update-set-promotion.js";
+
+const ENTITIES: Record<string, string> = { lt: "<", gt: ">", amp: "&", quot: '"', apos: "'" };
+
+function escapeXml(value: string): string {
+    return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+function unescapeXml(value: string): string {
+    return value.replace(/&(#x[0-9a-f]+|#[0-9]+|[a-z]+);/gi, (entity, name: string) => {
+        if (name[0] === "#") {
+            const code = name[1] === "x" || name[1] === "X" ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+            return String.fromCodePoint(code);
+        }
+        const known = ENTITIES[name];
+        if (known === undefined) {
+            throw new Error(`Unknown entity ${entity}.`);
+        }
+        return known;
+    });
+}
+
+/** A new sys_id, for the sys_remote_update_set record an export introduces. */
+function newSysId(): string {
+    return randomBytes(16).toString("hex");
+}
+
+/** `YYYY-MM-DD HH:MM:SS` in UTC, the platform's date-time format. */
+function glideDateTime(date: Date): string {
+    return date.toISOString().slice(0, 19).replace("T", " ");
+}
+
+function recordXml(table: string, fields: Record<string, string>): string {
+    const lines = [`<${table} action="INSERT_OR_UPDATE">`];
+    for (const field of Object.keys(fields).sort()) {
+        const value = fields[field];
+        lines.push(value === "" ? `<${field}/>` : `<${field}>${escapeXml(value)}</${field}>`);
+    }
+    lines.push(`</${table}>`);
+    return lines.join("\n");
+}
+
+/**
+ * The unload XML for `copy`. The sys_remote_update_set gets a new sys_id, as the
+ * platform's own export does, and every update points at it.
+ */
+export function buildUnloadXml(copy: UpdateSetCopy, now: Date = new Date()): string {
+    const remoteId = newSysId();
+    const records = [
+        recordXml("sys_remote_update_set", {
+            ...copy.header,
+            state: "loaded",
+            sys_class_name: "sys_remote_update_set",
+            sys_id: remoteId,
+        }),
+        ...copy.updates.map((update) =>
+            recordXml("sys_update_xml", { ...update, remote_update_set: remoteId, update_set: "" }),
+        ),
+    ];
+    return (
+        `<?xml version="1.0" encoding="UTF-8"?><unload unload_date="${glideDateTime(now)}">\n` +
+        `${records.join("\n")}\n</unload>\n`
+    );
+}
+
+interface Element {
+    name: string;
+    children: Element[];
+    text: string;
+}
+
+/** Parses the element tree. THROWS on anything malformed, naming the offset. */
+function parseElements(xml: string): Element {
+    const root: Element = { name: "", children: [], text: "" };
+    const stack: Element[] = [root];
+    let position = 0;
+    const fail = (message: string): never => {
+        throw new Error(`Not a well-formed unload file: ${message} at character ${position}.`);
+    };
+
+    while (position < xml.length) {
+        const open = xml.indexOf("<", position);
+        const current = stack[stack.length - 1];
+        if (open === -1 || open > position) {
+            current.text += unescapeXml(xml.slice(position, open === -1 ? xml.length : open));
+            if (open === -1) break;
+            position = open;
+        }
+        if (xml.startsWith("<?", position) || xml.startsWith("<!--", position)) {
+            const close = xml.startsWith("<?", position) ? "?>" : "-->";
+            const end = xml.indexOf(close, position);
+            if (end === -1) fail("an unclosed declaration or comment");
+            position = end + close.length;
+        } else if (xml.startsWith("<![CDATA[", position)) {
+            const end = xml.indexOf("]]>", position);
+            if (end === -1) fail("an unclosed CDATA section");
+            current.text += xml.slice(position + 9, end);
+            position = end + 3;
+        } else if (xml.startsWith("</", position)) {
+            const end = xml.indexOf(">", position);
+            const name = xml.slice(position + 2, end).trim();
+            if (end === -1 || stack.length === 1 || name !== current.name) {
+                fail(`a closing tag </${name}> that closes nothing open`);
+            }
+            stack.pop();
+            position = end + 1;
+        } else {
+            const match = /^<([A-Za-z_][\w.:-]*)((?:\s+[\w.:-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/.exec(
+                xml.slice(position, position + 4096),
+            );
+            if (!match) fail("a tag that cannot be read");
+            const element: Element = { name: match![1], children: [], text: "" };
+            current.children.push(element);
+            if (!match![3]) stack.push(element);
+            position += match![0].length;
+        }
+    }
+    if (stack.length > 1) {
+        fail(`<${stack[stack.length - 1].name}> never closed`);
+    }
+    return root;
+}
+
+/**
+ * Reads an update set from unload XML. THROWS unless the file holds exactly one
+ * sys_remote_update_set and its updates — a batch export of several sets, or an
+ * unload of some other table, is refused rather than loaded in part.
+ */
+export function parseUnloadXml(xml: string): UpdateSetCopy {
+    const unload = parseElements(xml).children;
+    if (unload.length !== 1 || unload[0].name !== "unload") {
+        throw new Error("Not an unload file: the document must be a single <unload> element.");
+    }
+    const fields = (record: Element): Record<string, string> => {
+        const values: Record<string, string> = {};
+        for (const field of record.children) {
+            if (field.children.length > 0) {
+                throw new Error(`Field <${field.name}> of <${record.name}> holds elements, not a value.`);
+            }
+            values[field.name] = field.text;
+        }
+        return values;
+    };
+
+    const sets = unload[0].children.filter((record) => record.name === "sys_remote_update_set");
+    const others = unload[0].children.filter(
+        (record) => record.name !== "sys_remote_update_set" && record.name !== "sys_update_xml",
+    );
+    if (others.length > 0) {
+        throw new Error(`The file holds <${others[0].name}> records; an update set export holds only sys_remote_update_set and sys_update_xml.`);
+    }
+    if (sets.length !== 1) {
+        throw new Error(
+            sets.length === 0
+                ? "The file holds no sys_remote_update_set. Is it an update set export?"
+                : `The file holds ${sets.length} update sets (a batch export). Export and load them one at a time.`,
+        );
+    }
+
+    const header = fields(sets[0]);
+    const remoteId = header.sys_id;
+    const updates = unload[0].children.filter((record) => record.name === "sys_update_xml").map(fields);
+    const stray = updates.find((update) => update.remote_update_set !== remoteId);
+    if (stray) {
+        throw new Error(`Update "${stray.name}" belongs to update set ${stray.remote_update_set || "(none)"}, not ${remoteId}.`);
+    }
+
+    // What identifies and stamps these records on the instance that exported them
+    // means nothing on the one they load into, which assigns its own.
+    const local = /^(sys_id|sys_class_name|state|remote_update_set|update_set|sys_created_.*|sys_updated_.*|sys_mod_count)$/;
+    const strip = (record: Record<string, string>) =>
+        Object.fromEntries(Object.entries(record).filter(([field]) => !local.test(field)));
+    return { header: strip(header), updates: updates.map(strip) };
+}
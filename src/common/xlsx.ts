@@ -0,0 +1,200 @@
+/**
+ * A minimal XLSX writer: one worksheet, a header row, every cell a string.
+ *
+ * An .xlsx file is a zip of a handful of XML parts. Writing those parts for a single
+ * sheet of text cells is about a page of code, against a spreadsheet dependency that
+ * would be the largest thing in the install for one export format. Node's zlib already
+ * does the deflate; the zip container is written here.
+ *
+ * Every cell is an inline string. Table API values are strings, and guessing which of
+ * them are numbers would turn `0012` into `12` and a sys_id that happens to be all
+ * digits into scientific notation — the classic way a spreadsheet corrupts an export.
+ */
+
+import { deflateRawSync } from "node:zlib";
+
+/** Excel refuses to open a file with a longer cell, so longer values are cut. */
+export const MAX_CELL_LENGTH = 32767;
+
+/** Excel's own limits on a sheet name: 31 characters, none of these. */
+const SHEET_NAME_FORBIDDEN = /[\][:*?/\\]/g;
+const MAX_SHEET_NAME_LENGTH = 31;
+
+/** Characters XML 1.0 does not allow at all, even escaped. */
+const XML_INVALID = /[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g;
+
+export interface XlsxWorkbook {
+    data: Buffer;
+    /** Cells cut to MAX_CELL_LENGTH. Reported so a truncated export is never silent. */
+    truncatedCells: number;
+}
+
+function escapeXml(value: string): string {
+    return value
+        .replace(XML_INVALID, "")
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;");
+}
+
+/** `0` -> `A`, `25` -> `Z`, `26` -> `AA`. */
+export function columnName(index: number): string {
+    let name = "";
+    for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+        name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+    }
+    return name;
+}
+
+/** A sheet name Excel will accept, derived from `name`. */
+export function sheetName(name: string): string {
+    const cleaned = name.replace(SHEET_NAME_FORBIDDEN, "_").slice(0, MAX_SHEET_NAME_LENGTH).trim();
+    return cleaned || "Sheet1";
+}
+
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) {
+            c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        }
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+function crc32(data: Buffer): number {
+    let crc = 0xffffffff;
+    for (const byte of data) {
+        crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * A zip archive of `entries`, deflated. No zip64: a sheet that needed it would be far
+ * past the row counts an export returns.
+ */
+function zip(entries: { name: string; data: Buffer }[]): Buffer {
+    const locals: Buffer[] = [];
+    const centrals: Buffer[] = [];
+    let offset = 0;
+
+    for (const entry of entries) {
+        const name = Buffer.from(entry.name, "utf8");
+        const compressed = deflateRawSync(entry.data);
+        const crc = crc32(entry.data);
+
+        const local = Buffer.alloc(30);
+        local.writeUInt32LE(0x04034b50, 0);
+        local.writeUInt16LE(20, 4); // version needed
+        local.writeUInt16LE(0x0800, 6); // UTF-8 names
+        local.writeUInt16LE(8, 8); // deflate
+        local.writeUInt32LE(0, 10); // time and date: none
+        local.writeUInt32LE(crc, 14);
+        local.writeUInt32LE(compressed.length, 18);
+        local.writeUInt32LE(entry.data.length, 22);
+        local.writeUInt16LE(name.length, 26);
+        local.writeUInt16LE(0, 28);
+
+        const central = Buffer.alloc(46);
+        central.writeUInt32LE(0x02014b50, 0);
+        central.writeUInt16LE(20, 4); // version made by
+        central.writeUInt16LE(20, 6);
+        central.writeUInt16LE(0x0800, 8);
+        central.writeUInt16LE(8, 10);
+        central.writeUInt32LE(0, 12);
+        central.writeUInt32LE(crc, 16);
+        central.writeUInt32LE(compressed.length, 20);
+        central.writeUInt32LE(entry.data.length, 24);
+        central.writeUInt16LE(name.length, 28);
+        central.writeUInt32LE(offset, 42);
+
+        locals.push(local, name, compressed);
+        centrals.push(central, name);
+        offset += local.length + name.length + compressed.length;
+    }
+
+    const directory = Buffer.concat(centrals);
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(entries.length, 8);
+    end.writeUInt16LE(entries.length, 10);
+    end.writeUInt32LE(directory.length, 12);
+    end.writeUInt32LE(offset, 16);
+
+    return Buffer.concat([...locals, directory, end]);
+}
+
+const CONTENT_TYPES =
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+    '<Default Extension="xml" ContentType="application/xml"/>' +
+    '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+    '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+    "</Types>";
+
+const ROOT_RELS =
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+    "</Relationships>";
+
+const WORKBOOK_RELS =
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+    "</Relationships>";
+
+function workbookXml(name: string): string {
+    return (
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" ' +
+        'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+        `<sheets><sheet name="${escapeXml(sheetName(name))}" sheetId="1" r:id="rId1"/></sheets>` +
+        "</workbook>"
+    );
+}
+
+/**
+ * Builds a workbook with one sheet named after `name`: `columns` as the header row,
+ * then one row per entry of `rows`. Empty cells are left out, as Excel does itself.
+ */
+export function buildXlsx(name: string, columns: string[], rows: string[][]): XlsxWorkbook {
+    let truncatedCells = 0;
+    const cell = (value: string, column: number, row: number): string => {
+        if (value === "") {
+            return "";
+        }
+        let text = value;
+        if (text.length > MAX_CELL_LENGTH) {
+            text = text.slice(0, MAX_CELL_LENGTH);
+            truncatedCells++;
+        }
+        const space = /^\s|\s$/.test(text) ? ' xml:space="preserve"' : "";
+        return `<c r="${columnName(column)}${row}" t="inlineStr"><is><t${space}>${escapeXml(text)}</t></is></c>`;
+    };
+
+    const sheetRows = [columns, ...rows].map(
+        (values, r) => `<row r="${r + 1}">${values.map((v, c) => cell(v, c, r + 1)).join("")}</row>`,
+    );
+    const sheet =
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+        // The header stays in view while scrolling, as a person opening an export expects.
+        '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>' +
+        `<sheetData>${sheetRows.join("")}</sheetData>` +
+        "</worksheet>";
+
+    const data = zip([
+        { name: "[Content_Types].xml", data: Buffer.from(CONTENT_TYPES, "utf8") },
+        { name: "_rels/.rels", data: Buffer.from(ROOT_RELS, "utf8") },
+        { name: "xl/workbook.xml", data: Buffer.from(workbookXml(name), "utf8") },
+        { name: "xl/_rels/workbook.xml.rels", data: Buffer.from(WORKBOOK_RELS, "utf8") },
+        { name: "xl/worksheets/sheet1.xml", data: Buffer.from(sheet, "utf8") },
+    ]);
+    return { data, truncatedCells };
+}
@@ -54,7 +54,11 @@ export const TOOL_PACKAGES: Record<string, ToolPackage> = {
             "update sets, scope, logs and code search.",
         tools: [
             "execute_script",
+            "list_saved_scripts",
+            "run_saved_script",
             "query_table",
+            "export_table",
+            "diff_records",
             "query_syslog",
             "count_records",
             "aggregate_query",
@@ -67,6 +71,11 @@ export const TOOL_PACKAGES: Record<string, ToolPackage> = {
             "list_instance_tables",
             "pull_script",
             "push_script",
+            "pull_application",
+            "push_application",
+            "watch_scripts",
+            "unwatch_scripts",
+            "list_script_watches",
             "code_search",
             "list_code_search_groups",
             "list_code_search_tables",
@@ -76,8 +85,16 @@ export const TOOL_PACKAGES: Record<string, ToolPackage> = {
             "create_update_set",
             "set_current_update_set",
             "inspect_update_set",
+            "analyze_update_set_conflicts",
             "clone_update_set",
             "move_update_set_records",
+            "retrieve_update_set",
+            "export_update_set",
+            "import_update_set_xml",
+            "preview_update_set",
+            "list_update_set_problems",
+            "resolve_update_set_problems",
+            "commit_update_set",
             "get_current_scope",
             "set_current_scope",
             "list_scoped_apps",
@@ -123,10 +140,13 @@ export const TOOL_PACKAGES: Record<string, ToolPackage> = {
             "without it is not an admin package.",
         tools: [
             "query_table",
+            "export_table",
             "query_syslog",
             "count_records",
             "find_task",
             "execute_script",
+            "list_saved_scripts",
+            "run_saved_script",
             "list_plugins",
             "list_instance_tables",
             "check_instance_health",
@@ -165,10 +185,21 @@ export const TOOL_PACKAGES: Record<string, ToolPackage> = {
             "create_update_set",
             "set_current_update_set",
             "inspect_update_set",
+            "analyze_update_set_conflicts",
             "clone_update_set",
             "move_update_set_records",
+            "retrieve_update_set",
+            "export_update_set",
+            "import_update_set_xml",
+            "preview_update_set",
+            "list_update_set_problems",
+            "resolve_update_set_problems",
+            "commit_update_set",
             "execute_flow",
+            "describe_flow",
+            "flow_dependencies",
             "get_flow_context_status",
+            "await_flow_context",
             "get_flow_outputs",
             "get_flow_error",
             "get_flow_logs",
@@ -188,20 +219,26 @@ export const TOOL_PACKAGES: Record<string, ToolPackage> = {
 
     flow_developer: {
         description:
-            "Flow Designer work end to end: run, test, copy, inspect and diagnose " +
+            "Flow Designer work end to end: build, run, test, copy, inspect and diagnose " +
             "flows, plus the schema and logs needed to debug them.",
         tools: [
             "execute_flow",
             "execute_subflow",
             "execute_action",
+            "describe_flow",
+            "flow_dependencies",
             "test_flow",
             "copy_flow",
+            "create_flow",
+            "update_flow",
             "cancel_flow",
             "get_flow_context_status",
+            "await_flow_context",
             "get_flow_outputs",
             "get_flow_error",
             "get_flow_execution_details",
             "get_flow_logs",
+            "search_flow_executions",
             "query_table",
             "query_syslog",
             "discover_table_schema",
@@ -15,64 +15,31 @@ initLogging();
 // Third, before any tool is registered: the permission ladder. Changes are permitted
 // by default; NEX_POLICY_DENY in the server's environment is what restricts them, and
 // it is the only layer the model cannot reach.
-import { guardServer, initPolicy } from "./common/guard.js";
+import { initPolicy } from "./common/guard.js";
 initPolicy();
 
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { registerServiceNowResources } from "./resources/servicenow.js";
-import { TOOL_REGISTRY } from "./tools/registry.js";
-import { registerListToolPackagesTool } from "./tools/tool-packages.js";
 import { resolveToolPackage, reportResolution } from "./common/tool-packages.js";
-import { readServerVersion } from "./common/version.js";
+import {
+  httpConfigFromEnvironment,
+  MCP_PATH,
+  startHttpTransport,
+  transportFromEnvironment,
+} from "./common/http-transport.js";
+import { initAudit } from "./common/audit.js";
+import { initUndoJournal } from "./common/undo-journal.js";
+import { initScriptTables } from "./common/script-tables.js";
+import { initScriptLibrary } from "./common/script-library.js";
+import { createServer } from "./server.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 
 const log = getLogger("mcp");
-const server = new McpServer(
-  {
-    name: "now-sdk-ext-mcp",
-    version: readServerVersion(),
-  },
-  {
-    // Declared explicitly rather than inferred from what happens to get registered.
-    //
-    // Note progress is NOT a capability — it is base protocol, driven entirely by
-    // the client putting a progressToken in a request's _meta. So there is nothing
-    // to advertise for it; the server just has to honour the token when it is sent.
-    capabilities: {
-      tools: {},
-      resources: {},
-    },
-  }
-);
-
-// Intentionally the RAW server, not the guard. MCP resources are representational and
-// read-only — the ServiceNow ones expose scope, update-set and schema — so there is
-// nothing here for a permission check to refuse. Stated explicitly because the loop
-// below deliberately does use the guard, and the difference should not read as an
-// oversight in a security-relevant path.
-registerServiceNowResources(server);
 
-// Tools are registered through the registry rather than 86 direct calls, so a
-// package can select a subset. Resolution happens once, before registration —
-// filtering after the fact would still pay the import cost and still advertise
-// the tools in tools/list.
+// Resolution happens once, before any server is built — filtering after the fact would
+// still pay the import cost and still advertise the tools in tools/list. Every server
+// createServer builds, one over stdio or one per HTTP session, gets the same package.
 const activePackage = resolveToolPackage(process.env.MCP_TOOL_PACKAGE);
 reportResolution(activePackage);
 
-// Registered through the guard, not the server directly. The Proxy intercepts
-// registerTool and wraps each handler with a permission check — a tool cannot opt out,
-// and an unclassified tool fails at startup rather than on first use.
-const guarded = guardServer(server);
-for (const name of activePackage.tools) {
-  TOOL_REGISTRY[name](guarded);
-}
-
-// Always registered, whatever the package. A filtered session otherwise has no
-// way to tell "this server cannot do that" from "that tool is filtered out of
-// this session".
-registerListToolPackagesTool(guarded, activePackage);
-
-
 // Prevent the process from crashing silently on unexpected errors.
 // Log to stderr (stdout is reserved for JSON-RPC).
 // Through the logger, not console.error: an uncaught error here can be an auth or
@@ -127,16 +94,46 @@ async function flushAndExit(code: number): Promise<void> {
 //
 // `once`, so a second signal from an impatient client still terminates immediately
 // rather than queueing another flush.
+//
+// Over HTTP the listener and its sessions are closed first, so open clients see their
+// streams end rather than the process vanish. A failed close must not stop the exit.
+let closeHttpTransport: (() => Promise<void>) | undefined;
+
 for (const signal of ["SIGINT", "SIGTERM"] as const) {
   process.once(signal, () => {
-    void flushAndExit(0);
+    const closing = closeHttpTransport?.() ?? Promise.resolve();
+    void closing
+      .catch((error) => log.warn("Closing the HTTP transport failed", { error }))
+      .finally(() => flushAndExit(0));
   });
 }
 
-// Start the server on stdio transport
+// stdio unless MCP_TRANSPORT says otherwise. Both read from the environment here, inside
+// main, so a bad value fails startup through the same logged, flushed exit as any
+// other fatal error.
 async function main(): Promise<void> {
-  const transport = new StdioServerTransport();
-  await server.connect(transport);
+  // Before any server exists, so no change can be made without its entry. Inside main
+  // rather than beside initPolicy so an unwritable NEX_AUDIT_LOG takes the same exit.
+  initAudit(process.env);
+  initUndoJournal(process.env);
+  // Before any server exists: tool descriptions list the script tables.
+  initScriptTables(process.env);
+  initScriptLibrary(process.env);
+
+  if (transportFromEnvironment(process.env) === "http") {
+    const config = httpConfigFromEnvironment(process.env);
+    const running = await startHttpTransport(() => createServer(activePackage), config);
+    closeHttpTransport = running.close;
+    const { address } = running;
+    log.info("now-sdk-ext-mcp server listening over HTTP", {
+      url: `http://${config.host}:${address.port}${MCP_PATH}`,
+      authenticated: Boolean(config.token),
+    });
+    return;
+  }
+
+  const server = createServer(activePackage);
+  await server.connect(new StdioServerTransport());
   log.info("now-sdk-ext-mcp server running on stdio");
 }
 
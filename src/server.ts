@@ -0,0 +1,69 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { registerServiceNowResources } from "./resources/servicenow.js";
+import { TOOL_REGISTRY } from "./tools/registry.js";
+import { registerListToolPackagesTool } from "./tools/tool-packages.js";
+import { guardServer } from "./common/guard.js";
+import { ResolvedPackage } from "./common/tool-packages.js";
+import { readServerVersion } from "./common/version.js";
+
+/**
+ * Builds one fully registered server: resources, the active package's tools behind
+ * the guard, and list_tool_packages.
+ *
+ * A factory rather than a module-level singleton because the HTTP transport needs one
+ * McpServer PER SESSION — an McpServer holds exactly one transport, so a shared
+ * instance would hand the second client's connection to the first client's session.
+ * Over stdio it is simply called once.
+ *
+ * Process-wide setup (credential store, logging, the policy ladder, package
+ * resolution) is NOT done here. It is decided once from the environment, in index.ts,
+ * and every session inherits the same answer.
+ */
+export function createServer(activePackage: ResolvedPackage): McpServer {
+  const server = new McpServer(
+    {
+      name: "now-sdk-ext-mcp",
+      version: readServerVersion(),
+    },
+    {
+      // Declared explicitly rather than inferred from what happens to get registered.
+      //
+      // Note progress is NOT a capability — it is base protocol, driven entirely by
+      // the client putting a progressToken in a request's _meta. So there is nothing
+      // to advertise for it; the server just has to honour the token when it is sent.
+      //
+      // Logging IS one: watch_scripts reports the pushes it makes between tool calls as
+      // notifications/message, and the SDK drops those unless it is declared.
+      capabilities: {
+        tools: {},
+        resources: {},
+        logging: {},
+      },
+    }
+  );
+
+  // Intentionally the RAW server, not the guard. MCP resources are representational and
+  // read-only — the ServiceNow ones expose scope, update-set and schema — so there is
+  // nothing here for a permission check to refuse. Stated explicitly because the loop
+  // below deliberately does use the guard, and the difference should not read as an
+  // oversight in a security-relevant path.
+  registerServiceNowResources(server);
+
+  // Registered through the guard, not the server directly. The Proxy intercepts
+  // registerTool and wraps each handler with a permission check — a tool cannot opt out,
+  // and an unclassified tool fails at startup rather than on first use.
+  //
+  // Through the registry rather than 86 direct calls, so a package can select a subset.
+  // Filtering after the fact would still advertise the tools in tools/list.
+  const guarded = guardServer(server);
+  for (const name of activePackage.tools) {
+    TOOL_REGISTRY[name](guarded);
+  }
+
+  // Always registered, whatever the package. A filtered session otherwise has no
+  // way to tell "this server cannot do that" from "that tool is filtered out of
+  // this session".
+  registerListToolPackagesTool(guarded, activePackage);
+
+  return server;
+}
@@ -3,6 +3,7 @@ import { z } from "zod";
 import { AggregateQuery } from "@sonisoft/now-sdk-ext-core";
 import { withConnectionRetry } from "../common/connection.js";
 import { annotationsFor } from "../common/annotations.js";
+import { structuredResult } from "../common/structured.js";
 
 /**
  * Registers the count_records tool on the MCP server.
@@ -45,6 +46,11 @@ export function registerCountRecordsTool(server: McpServer): void {
               "If omitted, counts all records in the table."
           ),
       },
+      outputSchema: {
+        table: z.string(),
+        query: z.string().optional(),
+        count: z.number(),
+      },
     },
     async ({ instance, table, query }) => {
       try {
@@ -62,9 +68,7 @@ export function registerCountRecordsTool(server: McpServer): void {
         if (query) lines.push(`Query: ${query}`);
         lines.push(`Count: ${count}`);
 
-        return {
-          content: [{ type: "text" as const, text: lines.join("\n") }],
-        };
+        return structuredResult(lines.join("\n"), { table, query, count });
       } catch (error) {
         const message =
           error instanceof Error ? error.message : String(error);
@@ -146,6 +150,11 @@ export function registerAggregateQueryTool(server: McpServer): void {
               'internal values, "all" returns both. If omitted, returns internal values.'
           ),
       },
+      outputSchema: {
+        table: z.string(),
+        query: z.string().optional(),
+        stats: z.record(z.unknown()),
+      },
     },
     async ({
       instance,
@@ -184,9 +193,11 @@ export function registerAggregateQueryTool(server: McpServer): void {
         lines.push("Stats:");
         lines.push(JSON.stringify(result.stats, null, 2));
 
-        return {
-          content: [{ type: "text" as const, text: lines.join("\n") }],
-        };
+        return structuredResult(lines.join("\n"), {
+          table,
+          query,
+          stats: result.stats ?? {},
+        });
       } catch (error) {
         const message =
           error instanceof Error ? error.message : String(error);
@@ -281,6 +292,21 @@ export function registerAggregateGroupedTool(server: McpServer): void {
               'internal values, "all" returns both.'
           ),
       },
+      outputSchema: {
+        table: z.string(),
+        groupBy: z.array(z.string()),
+        query: z.string().optional(),
+        groups: z.array(
+          z
+            .object({
+              groupby_fields: z
+                .array(z.object({ field: z.string(), value: z.unknown() }).passthrough())
+                .optional(),
+              stats: z.record(z.unknown()).optional(),
+            })
+            .passthrough()
+        ),
+      },
     },
     async ({
       instance,
@@ -336,9 +362,12 @@ export function registerAggregateGroupedTool(server: McpServer): void {
         lines.push("");
         lines.push(`=== ${result.groups.length} group(s) returned ===`);
 
-        return {
-          content: [{ type: "text" as const, text: lines.join("\n") }],
-        };
+        return structuredResult(lines.join("\n"), {
+          table,
+          groupBy: group_by,
+          query,
+          groups: result.groups,
+        });
       } catch (error) {
         const message =
           error instanceof Error ? error.message : String(error);
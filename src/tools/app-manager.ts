@@ -10,6 +10,7 @@ import {
 } from "@sonisoft/now-sdk-ext-core";
 import { withConnectionRetry } from "../common/connection.js";
 import { annotationsFor } from "../common/annotations.js";
+import { recordSchema, structuredResult } from "../common/structured.js";
 
 /**
  * Registers the get_app_details tool on the MCP server.
@@ -41,6 +42,10 @@ export function registerGetAppDetailsTool(server: McpServer): void {
           .string()
           .describe("The sys_id of the application to get details for."),
       },
+      outputSchema: {
+        found: z.boolean(),
+        application: recordSchema.optional(),
+      },
     },
     async ({ instance, app_id }) => {
       try {
@@ -53,14 +58,10 @@ export function registerGetAppDetailsTool(server: McpServer): void {
         );
 
         if (!details) {
-          return {
-            content: [
-              {
-                type: "text" as const,
-                text: `Application '${app_id}' not found or not available on this instance.`,
-              },
-            ],
-          };
+          return structuredResult(
+            `Application '${app_id}' not found or not available on this instance.`,
+            { found: false }
+          );
         }
 
         const lines: string[] = [];
@@ -86,9 +87,10 @@ export function registerGetAppDetailsTool(server: McpServer): void {
           lines.push(`Store Link: ${details.store_link}`);
         lines.push(`Can Install/Upgrade: ${details.can_install_or_upgrade}`);
 
-        return {
-          content: [{ type: "text" as const, text: lines.join("\n") }],
-        };
+        return structuredResult(lines.join("\n"), {
+          found: true,
+          application: details,
+        });
       } catch (error) {
         const message =
           error instanceof Error ? error.message : String(error);
@@ -150,6 +152,15 @@ export function registerValidateAppInstallTool(server: McpServer): void {
           )
           .describe("List of applications to validate."),
       },
+      outputSchema: {
+        isValid: z.boolean(),
+        totalApplications: z.number(),
+        alreadyValid: z.number(),
+        needsInstallation: z.number(),
+        needsUpgrade: z.number(),
+        errors: z.number(),
+        applications: z.array(recordSchema),
+      },
     },
     async ({ instance, packages }) => {
       try {
@@ -196,9 +207,7 @@ export function registerValidateAppInstallTool(server: McpServer): void {
           if (app.error) lines.push(`  Error: ${app.error}`);
         }
 
-        return {
-          content: [{ type: "text" as const, text: lines.join("\n") }],
-        };
+        return structuredResult(lines.join("\n"), result);
       } catch (error) {
         const message =
           error instanceof Error ? error.message : String(error);
@@ -216,6 +225,21 @@ export function registerValidateAppInstallTool(server: McpServer): void {
   );
 }
 
+/**
+ * Structured output shared by the four *AndWait tools. Mirrors core's progress
+ * result — the same status fields the text block prints — plus the wall-clock
+ * duration, which only this layer measures.
+ */
+const progressOutputSchema = {
+  success: z.boolean(),
+  status_label: z.string().nullish(),
+  status_message: z.string().nullish(),
+  status_detail: z.string().nullish(),
+  percent_complete: z.union([z.number(), z.string()]).nullish(),
+  error: z.unknown(),
+  durationMs: z.number(),
+};
+
 /** Formats elapsed time from a start timestamp. */
 function formatDuration(startMs: number): string {
   const elapsed = Date.now() - startMs;
@@ -271,6 +295,11 @@ export function registerSearchStoreAppsTool(server: McpServer): void {
           .default(50)
           .describe("Maximum number of results to return. Default 50."),
       },
+      outputSchema: {
+        tabContext: z.string(),
+        searchKey: z.string().optional(),
+        applications: z.array(recordSchema),
+      },
     },
     async ({ instance, tab_context, search_key, limit }) => {
       try {
@@ -319,9 +348,11 @@ export function registerSearchStoreAppsTool(server: McpServer): void {
             "Use install_store_app or update_store_app to take action."
         );
 
-        return {
-          content: [{ type: "text" as const, text: lines.join("\n") }],
-        };
+        return structuredResult(lines.join("\n"), {
+          tabContext: tab_context,
+          searchKey: search_key,
+          applications: apps,
+        });
       } catch (error) {
         const message =
           error instanceof Error ? error.message : String(error);
@@ -382,6 +413,9 @@ export function registerListCompanyAppsTool(server: McpServer): void {
           .default(false)
           .describe("When true, only returns installed applications."),
       },
+      outputSchema: {
+        applications: z.array(recordSchema),
+      },
     },
     async ({ instance, scope, sys_id, installed_only }) => {
       try {
@@ -452,9 +486,7 @@ export function registerListCompanyAppsTool(server: McpServer): void {
           }
         }
 
-        return {
-          content: [{ type: "text" as const, text: lines.join("\n") }],
-        };
+        return structuredResult(lines.join("\n"), { applications: result });
       } catch (error) {
         const message =
           error instanceof Error ? error.message : String(error);
@@ -528,6 +560,7 @@ export function registerInstallStoreAppTool(server: McpServer): void {
             "Maximum time to wait for installation to complete, in minutes. Default 30."
           ),
       },
+      outputSchema: progressOutputSchema,
     },
     async ({ instance, app_id, version, load_demo_data, timeout_minutes }) => {
       const startMs = Date.now();
@@ -563,7 +596,10 @@ export function registerInstallStoreAppTool(server: McpServer): void {
         lines.push(`Duration: ${formatDuration(startMs)}`);
 
         return {
-          content: [{ type: "text" as const, text: lines.join("\n") }],
+          ...structuredResult(lines.join("\n"), {
+            ...result,
+            durationMs: Date.now() - startMs,
+          }),
           isError: !result.success,
         };
       } catch (error) {
@@ -640,6 +676,7 @@ export function registerUpdateStoreAppTool(server: McpServer): void {
             "Maximum time to wait for the update to complete, in minutes. Default 30."
           ),
       },
+      outputSchema: progressOutputSchema,
     },
     async ({ instance, app_id, version, load_demo_data, timeout_minutes }) => {
       const startMs = Date.now();
@@ -675,7 +712,10 @@ export function registerUpdateStoreAppTool(server: McpServer): void {
         lines.push(`Duration: ${formatDuration(startMs)}`);
 
         return {
-          content: [{ type: "text" as const, text: lines.join("\n") }],
+          ...structuredResult(lines.join("\n"), {
+            ...result,
+            durationMs: Date.now() - startMs,
+          }),
           isError: !result.success,
         };
       } catch (error) {
@@ -758,6 +798,7 @@ export function registerInstallFromAppRepoTool(server: McpServer): void {
             "Maximum time to wait for installation to complete, in minutes. Default 30."
           ),
       },
+      outputSchema: progressOutputSchema,
     },
     async ({
       instance,
@@ -806,7 +847,10 @@ export function registerInstallFromAppRepoTool(server: McpServer): void {
         lines.push(`Duration: ${formatDuration(startMs)}`);
 
         return {
-          content: [{ type: "text" as const, text: lines.join("\n") }],
+          ...structuredResult(lines.join("\n"), {
+            ...result,
+            durationMs: Date.now() - startMs,
+          }),
           isError: !result.success,
         };
       } catch (error) {
@@ -881,6 +925,7 @@ export function registerPublishToAppRepoTool(server: McpServer): void {
             "Maximum time to wait for publishing to complete, in minutes. Default 30."
           ),
       },
+      outputSchema: progressOutputSchema,
     },
     async ({ instance, scope, sys_id, version, dev_notes, timeout_minutes }) => {
       const startMs = Date.now();
@@ -920,7 +965,10 @@ export function registerPublishToAppRepoTool(server: McpServer): void {
         lines.push(`Duration: ${formatDuration(startMs)}`);
 
         return {
-          content: [{ type: "text" as const, text: lines.join("\n") }],
+          ...structuredResult(lines.join("\n"), {
+            ...result,
+            durationMs: Date.now() - startMs,
+          }),
           isError: !result.success,
         };
       } catch (error) {
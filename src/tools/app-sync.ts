@@ -0,0 +1,578 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { existsSync, readdirSync, rmdirSync, unlinkSync } from "node:fs";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { dirname, resolve } from "node:path";
+import { z } from "zod";
+import { BatchOperations, type ServiceNowInstance } from "@sonisoft/now-sdk-ext-core";
+import { withConnectionRetry } from "../common/connection.js";
+import { annotationsFor } from "../common/annotations.js";
+import { resolveCallAlias } from "../common/instance-policy.js";
+import { progressReporter, type ProgressCallback } from "../common/progress.js";
+import { errorListSchema, structuredResult } from "../common/structured.js";
+import { fetchTablePage, MAX_PAGE_SIZE } from "../common/table-pages.js";
+import { scriptTables, type ScriptTable } from "../common/script-tables.js";
+import {
+  describeChanges,
+  dryRunParam,
+  fieldChanges,
+  previewOutputShape,
+  readBySysId,
+  readRecords,
+  type RecordChange,
+} from "../common/dry-run.js";
+import {
+  baseNames,
+  contentHash,
+  localChanges,
+  localPath,
+  MANIFEST_FILE,
+  readManifest,
+  recordFiles,
+  untrackedFiles,
+  writeManifest,
+  type AppManifest,
+  type ManifestRecord,
+} from "../common/app-manifest.js";
+
+/**
+ * Whether a failed read says the table does not exist, rather than that this read
+ * failed. An instance answers a table it lacks with 404, or with 400 and "Invalid
+ * table". A 403 is not that: an ACL or a session can refuse a table that is there,
+ * and taking it for absent would drop its files from the folder.
+ */
+function tableAbsent(response: { status: number; bodyObject?: { error?: { message?: string } } }): boolean {
+  return (
+    response.status === 404 ||
+    (response.status === 400 && /invalid table/i.test(response.bodyObject?.error?.message ?? ""))
+  );
+}
+
+const instanceParam = z
+  .string()
+  .optional()
+  .describe(
+    "The ServiceNow instance auth alias (e.g., " +
+      '"myinstance", "prod"). If not provided, falls back ' +
+      "to the SN_AUTH_ALIAS environment variable."
+  );
+
+const recordRefSchema = z.object({
+  table: z.string(),
+  sys_id: z.string(),
+  name: z.string(),
+  fields: z.array(z.string()).optional(),
+  reason: z.string().optional(),
+});
+
+/** THROWS when no application has that scope, or for global. */
+async function findScope(
+  snInstance: ServiceNowInstance,
+  scope: string
+): Promise<{ sys_id: string; scope: string; name: string }> {
+  const bySysId = /^[0-9a-f]{32}$/.test(scope);
+  const { records } = await readRecords(
+    snInstance,
+    "sys_scope",
+    bySysId ? `sys_id=${scope}` : `scope=${scope}`,
+    ["scope", "name"],
+    1
+  );
+  const app = records[0];
+  if (!app) {
+    throw new Error(`No application with ${bySysId ? "sys_id" : "scope"} "${scope}".`);
+  }
+  if (app.scope === "global") {
+    throw new Error("pull_application mirrors a scoped application. Global holds the whole instance's code.");
+  }
+  return { sys_id: String(app.sys_id), scope: String(app.scope), name: String(app.name ?? "") };
+}
+
+/** Every record of one table in the scope, or the reason the table was skipped. */
+async function readScopeTable(
+  snInstance: ServiceNowInstance,
+  definition: ScriptTable,
+  scopeSysId: string,
+  onProgress: ProgressCallback | undefined
+): Promise<{ records: Record<string, unknown>[] } | { skipped: string }> {
+  const request = {
+    table: definition.table,
+    query: `sys_scope=${scopeSysId}`,
+    fields: ["sys_id", "sys_updated_on", definition.nameField, ...definition.fields.map((f) => f.field)].join(","),
+    displayValue: false,
+    excludeReferenceLink: true,
+  };
+  const records: Record<string, unknown>[] = [];
+  for (;;) {
+    const response = await fetchTablePage(snInstance, request, records.length, MAX_PAGE_SIZE);
+    if (response.status !== 200) {
+      // Service Portal and friends are plugins: a table an instance lacks is a
+      // normal gap, not a reason to throw away everything else pulled.
+      if (records.length === 0 && tableAbsent(response)) {
+        return { skipped: `HTTP ${response.status} ${response.statusText}` };
+      }
+      throw new Error(`HTTP ${response.status} ${response.statusText} reading "${definition.table}"`);
+    }
+    const page: Record<string, unknown>[] = response.bodyObject?.result ?? [];
+    records.push(...page);
+    onProgress?.(`Read ${records.length} ${definition.table} record(s)`);
+    if (page.length < MAX_PAGE_SIZE) {
+      return { records };
+    }
+  }
+}
+
+/** Removes the folder a multi-field record lived in once it is empty. */
+function removeIfEmpty(directory: string): void {
+  try {
+    if (readdirSync(directory).length === 0) rmdirSync(directory);
+  } catch {
+    // Best effort: a leftover empty folder is harmless.
+  }
+}
+
+/**
+ * Registers the pull_application tool on the MCP server.
+ *
+ * Mirrors every script field of a scoped application into a local folder.
+ */
+export function registerPullApplicationTool(server: McpServer): void {
+  server.registerTool(
+    "pull_application",
+    {
+      annotations: annotationsFor("pull_application"),
+      title: "Pull Application to Folder",
+      description:
+        "Mirror every scriptable record of a scoped application into a local folder, one " +
+        "file per script field, so it can be edited, searched and kept in git. Writes " +
+        `${MANIFEST_FILE} recording each file's record and its sys_updated_on; ` +
+        "push_application uses it to send back only what changed.\n\n" +
+        `Tables: ${scriptTables().map((t) => t.table).join(", ")}. ` +
+        "A table the instance lacks (e.g. sp_widget without Service Portal) is skipped.\n\n" +
+        "Pulling again refreshes the folder. It refuses while files have local edits that " +
+        "were never pushed, unless overwrite is true. A first pull refuses a folder that " +
+        "already holds files, unless overwrite is true. Writes to the local filesystem only.",
+      inputSchema: {
+        instance: instanceParam,
+        scope: z
+          .string()
+          .describe('The application scope (e.g., "x_acme_helpdesk") or its sys_id.'),
+        directory: z
+          .string()
+          .describe("Local folder to mirror the application into. Created if needed."),
+        overwrite: z
+          .boolean()
+          .default(false)
+          .describe(
+            "When true, replaces files with unpushed local edits, and allows a first pull " +
+              "into a folder that already holds files."
+          ),
+      },
+      outputSchema: {
+        scope: z.string(),
+        scopeSysId: z.string(),
+        directory: z.string(),
+        recordCount: z.number(),
+        tables: z.array(z.object({ table: z.string(), count: z.number() })),
+        filesWritten: z.number(),
+        filesUnchanged: z.number(),
+        removed: z.array(z.string()),
+        skippedTables: z.array(z.object({ table: z.string(), reason: z.string() })),
+      },
+    },
+    async ({ instance, scope, directory, overwrite }, extra) => {
+      try {
+        const root = resolve(directory);
+        const previous = existsSync(root) ? readManifest(root) : undefined;
+        // Without a manifest nothing says which files are the application's, so a
+        // same-named file already there would be overwritten unseen.
+        if (!previous && !overwrite && existsSync(root) && readdirSync(root).length > 0) {
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text:
+                  `Error pulling application: ${root} is not empty and was not pulled into before, ` +
+                  "so files in it could be overwritten. Choose an empty or new folder, or pass " +
+                  "overwrite: true to pull into it anyway.",
+              },
+            ],
+            isError: true,
+          };
+        }
+        if (previous && !overwrite) {
+          const { changed } = localChanges(root, previous);
+          if (changed.length > 0) {
+            return {
+              content: [
+                {
+                  type: "text" as const,
+                  text:
+                    `Error pulling application: ${changed.length} file(s) have local edits that were not ` +
+                    `pushed, and pulling would replace them:\n${changed.map((c) => `  ${c.path}`).join("\n")}\n` +
+                    "Push them with push_application, or pass overwrite: true to discard them.",
+                },
+              ],
+              isError: true,
+            };
+          }
+        }
+
+        const onProgress = progressReporter(extra);
+        const pulled = await withConnectionRetry(instance, async (snInstance) => {
+          const app = await findScope(snInstance, scope);
+          if (previous && previous.scopeSysId !== app.sys_id) {
+            throw new Error(`${root} holds ${previous.scope}, not ${app.scope}. Use another folder.`);
+          }
+          const tables: { definition: ScriptTable; records: Record<string, unknown>[] }[] = [];
+          const skippedTables: { table: string; reason: string }[] = [];
+          for (const definition of scriptTables()) {
+            const read = await readScopeTable(snInstance, definition, app.sys_id, onProgress);
+            if ("skipped" in read) {
+              skippedTables.push({ table: definition.table, reason: read.skipped });
+            } else {
+              tables.push({ definition, records: read.records });
+            }
+          }
+          return { app, tables, skippedTables };
+        });
+
+        // Everything is read before anything is written: a failed read leaves the
+        // folder as it was.
+        const records: ManifestRecord[] = [];
+        let filesWritten = 0;
+        let filesUnchanged = 0;
+        for (const { definition, records: rows } of pulled.tables) {
+          const named = rows.map((row) => ({
+            row,
+            sys_id: String(row.sys_id),
+            name: String(row[definition.nameField] ?? ""),
+          }));
+          const bases = baseNames(named);
+          for (const { row, sys_id, name } of named) {
+            const files = recordFiles(definition, bases.get(sys_id) as string);
+            const hashes: Record<string, string> = {};
+            for (const [field, path] of Object.entries(files)) {
+              const content = String(row[field] ?? "");
+              const full = localPath(root, path);
+              hashes[field] = contentHash(content);
+              if (existsSync(full) && contentHash(await readFile(full, "utf8")) === hashes[field]) {
+                filesUnchanged += 1;
+                continue;
+              }
+              await mkdir(dirname(full), { recursive: true });
+              await writeFile(full, content);
+              filesWritten += 1;
+            }
+            records.push({
+              table: definition.table,
+              sys_id,
+              name,
+              sys_updated_on: String(row.sys_updated_on ?? ""),
+              files,
+              hashes,
+            });
+          }
+        }
+
+        // A skipped table was not read, so nothing is known about its records: the
+        // files already pulled for it stay, and so do their manifest entries.
+        const skipped = new Set(pulled.skippedTables.map((t) => t.table));
+        const kept = (previous?.records ?? []).filter((r) => skipped.has(r.table));
+        const recordCount = records.length;
+        records.push(...kept);
+
+        // Files this folder tracked for records no longer in the scope.
+        const current = new Set(records.flatMap((r) => Object.values(r.files)));
+        const removed = (previous?.records ?? [])
+          .flatMap((r) => Object.values(r.files))
+          .filter((path) => !current.has(path))
+          .sort();
+        for (const path of removed) {
+          const full = localPath(root, path);
+          if (existsSync(full)) unlinkSync(full);
+          removeIfEmpty(dirname(full));
+        }
+
+        await mkdir(root, { recursive: true });
+        writeManifest(root, {
+          version: 1,
+          scope: pulled.app.scope,
+          scopeSysId: pulled.app.sys_id,
+          instance: resolveCallAlias(instance) ?? null,
+          pulledAt: new Date().toISOString(),
+          records,
+        });
+
+        const tables = pulled.tables
+          .map(({ definition, records: rows }) => ({ table: definition.table, count: rows.length }))
+          .filter((t) => t.count > 0);
+
+        const lines: string[] = [];
+        lines.push("=== Pull Application Result ===");
+        lines.push(`Scope: ${pulled.app.scope}${pulled.app.name ? ` (${pulled.app.name})` : ""}`);
+        lines.push(`Folder: ${root}`);
+        lines.push(`Records: ${recordCount}`);
+        tables.forEach((t) => lines.push(`  ${t.table}: ${t.count}`));
+        lines.push(`Files written: ${filesWritten} (unchanged: ${filesUnchanged})`);
+        if (removed.length > 0) {
+          lines.push(`Removed — no longer on the instance (${removed.length}):`);
+          removed.forEach((path) => lines.push(`  ${path}`));
+        }
+        if (pulled.skippedTables.length > 0) {
+          lines.push("Skipped tables:");
+          pulled.skippedTables.forEach((t) => lines.push(`  ${t.table}: ${t.reason}`));
+          if (kept.length > 0) {
+            lines.push(`Files of ${kept.length} record(s) in skipped tables were left as they were.`);
+          }
+        }
+
+        return structuredResult(lines.join("\n"), {
+          scope: pulled.app.scope,
+          scopeSysId: pulled.app.sys_id,
+          directory: root,
+          recordCount,
+          tables,
+          filesWritten,
+          filesUnchanged,
+          removed,
+          skippedTables: pulled.skippedTables,
+        });
+      } catch (error) {
+        const message =
+          error instanceof Error ? error.message : String(error);
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Error pulling application: ${message}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+}
+
+/**
+ * Registers the push_application tool on the MCP server.
+ *
+ * Pushes the files edited since the last pull back to their records.
+ */
+export function registerPushApplicationTool(server: McpServer): void {
+  server.registerTool(
+    "push_application",
+    {
+      annotations: annotationsFor("push_application"),
+      title: "Push Application from Folder",
+      description:
+        "Push the files edited in a folder written by pull_application back to their " +
+        "records. Only files whose content changed since the last pull or push are sent; " +
+        "the rest are not touched.\n\n" +
+        "A record changed on the instance since it was pulled (its sys_updated_on moved) " +
+        "is a conflict: it is not pushed, unless force is true. Pull again to take the " +
+        "instance's changes first. New files are listed but not pushed — this updates " +
+        "existing records and does not create them.\n\n" +
+        "IMPORTANT: This modifies code on the ServiceNow instance. Use dry_run to see what " +
+        "would be pushed first.",
+      inputSchema: {
+        instance: instanceParam,
+        directory: z
+          .string()
+          .describe("The folder pull_application wrote."),
+        force: z
+          .boolean()
+          .default(false)
+          .describe(
+            "When true, also pushes records changed on the instance since the pull, " +
+              "overwriting those changes."
+          ),
+        dry_run: dryRunParam,
+      },
+      outputSchema: {
+        scope: z.string(),
+        directory: z.string(),
+        pushed: z.array(recordRefSchema),
+        conflicts: z.array(recordRefSchema),
+        missingFiles: z.array(z.string()),
+        untrackedFiles: z.array(z.string()),
+        errors: errorListSchema,
+        ...previewOutputShape,
+      },
+    },
+    async ({ instance, directory, force, dry_run }) => {
+      try {
+        const root = resolve(directory);
+        const manifest: AppManifest | undefined = existsSync(root) ? readManifest(root) : undefined;
+        if (!manifest) {
+          throw new Error(`${root} has no ${MANIFEST_FILE}. Run pull_application into it first.`);
+        }
+        // sys_ids are only meaningful on the instance they were read from.
+        const alias = resolveCallAlias(instance);
+        if ((manifest.instance ?? undefined) !== alias) {
+          throw new Error(
+            `${root} was pulled from "${manifest.instance}", not "${alias ?? "(none)"}". ` +
+              `Pass instance: "${manifest.instance}".`
+          );
+        }
+
+        const { changed, missing } = localChanges(root, manifest);
+        const untracked = untrackedFiles(root, manifest);
+
+        // One update per record, carrying every changed field of it.
+        const byRecord = new Map<string, { record: ManifestRecord; data: Record<string, string> }>();
+        for (const change of changed) {
+          const key = `${change.record.table}:${change.record.sys_id}`;
+          const entry = byRecord.get(key) ?? { record: change.record, data: {} };
+          entry.data[change.field] = change.content;
+          byRecord.set(key, entry);
+        }
+        const pending = [...byRecord.values()];
+
+        const outcome = await withConnectionRetry(instance, async (snInstance) => {
+          const toPush: typeof pending = [];
+          const conflicts: z.infer<typeof recordRefSchema>[] = [];
+          const changes: RecordChange[] = [];
+          for (const table of new Set(pending.map((p) => p.record.table))) {
+            const forTable = pending.filter((p) => p.record.table === table);
+            const fields = [...new Set(forTable.flatMap((p) => Object.keys(p.data)))];
+            const remote = await readBySysId(
+              snInstance,
+              table,
+              forTable.map((p) => p.record.sys_id),
+              [...fields, "sys_updated_on"]
+            );
+            for (const item of forTable) {
+              const ref = { table, sys_id: item.record.sys_id, name: item.record.name, fields: Object.keys(item.data) };
+              const now = remote.get(item.record.sys_id);
+              if (!now) {
+                conflicts.push({ ...ref, reason: "deleted on the instance" });
+              } else if (String(now.sys_updated_on ?? "") !== item.record.sys_updated_on && !force) {
+                conflicts.push({
+                  ...ref,
+                  reason: `changed on the instance at ${String(now.sys_updated_on)} (pulled ${item.record.sys_updated_on})`,
+                });
+              } else {
+                toPush.push(item);
+                changes.push({
+                  table,
+                  sys_id: item.record.sys_id,
+                  action: "update",
+                  fields: fieldChanges(now, item.data),
+                });
+              }
+            }
+          }
+          if (dry_run || toPush.length === 0) {
+            return { toPush, conflicts, changes, failed: new Set<number>(), errors: [] as unknown[], stamps: new Map() };
+          }
+
+          const batch = new BatchOperations(snInstance);
+          const result = await batch.batchUpdate({
+            updates: toPush.map((p) => ({ table: p.record.table, sysId: p.record.sys_id, data: p.data })),
+            stopOnError: false,
+          });
+          const failed = new Set(result.errors.map((e) => e.updateIndex));
+
+          // The new stamps, so the next push does not mistake our own update for a
+          // colleague's.
+          const stamps = new Map<string, string>();
+          for (const table of new Set(toPush.map((p) => p.record.table))) {
+            const read = await readBySysId(
+              snInstance,
+              table,
+              toPush.filter((p, i) => p.record.table === table && !failed.has(i)).map((p) => p.record.sys_id),
+              ["sys_updated_on"]
+            );
+            read.forEach((record, sysId) => stamps.set(`${table}:${sysId}`, String(record.sys_updated_on ?? "")));
+          }
+          return { toPush, conflicts, changes, failed, errors: result.errors as unknown[], stamps };
+        });
+
+        const header = {
+          scope: manifest.scope,
+          directory: root,
+          conflicts: outcome.conflicts,
+          missingFiles: missing,
+          untrackedFiles: untracked,
+        };
+        const notes: string[] = [];
+        if (outcome.conflicts.length > 0) {
+          notes.push("", `Conflicts — not pushed (${outcome.conflicts.length}):`);
+          outcome.conflicts.forEach((c) => notes.push(`  ${c.table} ${c.name}: ${c.reason}`));
+          notes.push("Pull again to take the instance's version, or pass force: true to overwrite it.");
+        }
+        if (missing.length > 0) {
+          notes.push("", `Missing files — not pushed (${missing.length}):`);
+          missing.forEach((path) => notes.push(`  ${path}`));
+        }
+        if (untracked.length > 0) {
+          notes.push("", `Untracked files — push_application does not create records (${untracked.length}):`);
+          untracked.forEach((path) => notes.push(`  ${path}`));
+        }
+
+        if (dry_run) {
+          return structuredResult([...describeChanges(outcome.changes), ...notes].join("\n"), {
+            ...header,
+            pushed: [],
+            errors: [],
+            dryRun: true,
+            changes: outcome.changes,
+          });
+        }
+
+        const pushed: z.infer<typeof recordRefSchema>[] = [];
+        outcome.toPush.forEach((item, index) => {
+          if (outcome.failed.has(index)) return;
+          for (const [field, content] of Object.entries(item.data)) {
+            item.record.hashes[field] = contentHash(content);
+          }
+          item.record.sys_updated_on =
+            outcome.stamps.get(`${item.record.table}:${item.record.sys_id}`) ?? item.record.sys_updated_on;
+          pushed.push({
+            table: item.record.table,
+            sys_id: item.record.sys_id,
+            name: item.record.name,
+            fields: Object.keys(item.data),
+          });
+        });
+        if (pushed.length > 0) {
+          writeManifest(root, manifest);
+        }
+
+        const lines: string[] = [];
+        lines.push("=== Push Application Result ===");
+        lines.push(`Scope: ${manifest.scope}`);
+        lines.push(`Folder: ${root}`);
+        if (pending.length === 0) {
+          lines.push("No files have changed since the last pull or push. Nothing was pushed.");
+        } else {
+          lines.push(`Pushed: ${pushed.length} record(s)`);
+          pushed.forEach((p) => lines.push(`  ${p.table} ${p.name}: ${(p.fields ?? []).join(", ")}`));
+        }
+        if (outcome.errors.length > 0) {
+          lines.push("", "Errors:");
+          outcome.errors.forEach((err) => lines.push(`  ${JSON.stringify(err)}`));
+        }
+        lines.push(...notes);
+
+        return {
+          ...structuredResult(lines.join("\n"), { ...header, pushed, errors: outcome.errors }),
+          isError: outcome.errors.length > 0,
+        };
+      } catch (error) {
+        const message =
+          error instanceof Error ? error.message : String(error);
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Error pushing application: ${message}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+}
@@ -3,6 +3,7 @@ import { z } from "zod";
 import { ATFTestExecutor } from "@sonisoft/now-sdk-ext-core";
 import { withConnectionRetry } from "../common/connection.js";
 import { annotationsFor } from "../common/annotations.js";
+import { structuredResult } from "../common/structured.js";
 
 /**
  * Registers the run_atf_test tool on the MCP server.
@@ -39,6 +40,15 @@ export function registerRunAtfTestTool(server: McpServer): void {
             "for the test record in the sys_atf_test table."
           ),
       },
+      outputSchema: {
+        testName: z.string().optional(),
+        status: z.string().optional(),
+        passed: z.boolean(),
+        runTime: z.string().optional(),
+        testSysId: z.string().optional(),
+        resultSysId: z.string().optional(),
+        output: z.string().optional(),
+      },
     },
     async ({ instance, test_sys_id }) => {
       try {
@@ -82,14 +92,15 @@ export function registerRunAtfTestTool(server: McpServer): void {
           lines.push("FAILED: Test did not pass.");
         }
 
-        return {
-          content: [
-            {
-              type: "text" as const,
-              text: lines.join("\n"),
-            },
-          ],
-        };
+        return structuredResult(lines.join("\n"), {
+          testName: result.test_name,
+          status: result.status,
+          passed: result.status === "success",
+          runTime: result.run_time,
+          testSysId: result.test?.value,
+          resultSysId: result.sys_id,
+          output: result.output,
+        });
       } catch (error) {
         const message =
           error instanceof Error ? error.message : String(error);
@@ -173,6 +184,20 @@ export function registerRunAtfTestSuiteTool(server: McpServer): void {
           .optional()
           .describe("Whether to run tests in the cloud runner."),
       },
+      outputSchema: {
+        testSuiteSysId: z.string().optional(),
+        resultSysId: z.string().optional(),
+        status: z.string().optional(),
+        success: z.string().optional(),
+        runTime: z.string().optional(),
+        startTime: z.string().optional(),
+        endTime: z.string().optional(),
+        totalTests: z.number(),
+        passed: z.number(),
+        failed: z.number(),
+        skipped: z.number(),
+        errors: z.number(),
+      },
     },
     async ({
       instance,
@@ -272,14 +297,20 @@ export function registerRunAtfTestSuiteTool(server: McpServer): void {
           );
         }
 
-        return {
-          content: [
-            {
-              type: "text" as const,
-              text: lines.join("\n"),
-            },
-          ],
-        };
+        return structuredResult(lines.join("\n"), {
+          testSuiteSysId: result.test_suite?.value,
+          resultSysId: result.sys_id,
+          status: result.status,
+          success: result.success,
+          runTime: result.run_time,
+          startTime: result.start_time,
+          endTime: result.end_time,
+          totalTests,
+          passed: successCount,
+          failed: failureCount,
+          skipped: skipCount,
+          errors: errorCount,
+        });
       } catch (error) {
         const message =
           error instanceof Error ? error.message : String(error);
@@ -3,6 +3,7 @@ import { z } from "zod";
 import { AttachmentManager } from "@sonisoft/now-sdk-ext-core";
 import { withConnectionRetry } from "../common/connection.js";
 import { annotationsFor } from "../common/annotations.js";
+import { recordSchema, structuredResult } from "../common/structured.js";
 
 /**
  * Registers the list_attachments tool on the MCP server.
@@ -44,6 +45,11 @@ export function registerListAttachmentsTool(server: McpServer): void {
           .default(50)
           .describe("Maximum number of attachments to return. Default 50."),
       },
+      outputSchema: {
+        table: z.string(),
+        recordSysId: z.string(),
+        attachments: z.array(recordSchema),
+      },
     },
     async ({ instance, table, record_sys_id, limit }) => {
       try {
@@ -79,9 +85,11 @@ export function registerListAttachmentsTool(server: McpServer): void {
           }
         }
 
-        return {
-          content: [{ type: "text" as const, text: lines.join("\n") }],
-        };
+        return structuredResult(lines.join("\n"), {
+          table,
+          recordSysId: record_sys_id,
+          attachments,
+        });
       } catch (error) {
         const message =
           error instanceof Error ? error.message : String(error);
@@ -126,6 +134,9 @@ export function registerGetAttachmentInfoTool(server: McpServer): void {
           .string()
           .describe("The sys_id of the attachment to retrieve."),
       },
+      outputSchema: {
+        attachment: recordSchema,
+      },
     },
     async ({ instance, sys_id }) => {
       try {
@@ -148,9 +159,7 @@ export function registerGetAttachmentInfoTool(server: McpServer): void {
         if (att.sys_created_on) lines.push(`Created: ${att.sys_created_on}`);
         if (att.sys_created_by) lines.push(`Created By: ${att.sys_created_by}`);
 
-        return {
-          content: [{ type: "text" as const, text: lines.join("\n") }],
-        };
+        return structuredResult(lines.join("\n"), { attachment: att });
       } catch (error) {
         const message =
           error instanceof Error ? error.message : String(error);
@@ -216,6 +225,11 @@ export function registerUploadAttachmentTool(server: McpServer): void {
               "encode the text content to base64 before passing."
           ),
       },
+      outputSchema: {
+        table: z.string(),
+        recordSysId: z.string(),
+        attachment: recordSchema,
+      },
     },
     async ({ instance, table, record_sys_id, file_name, content_type, content_base64 }) => {
       try {
@@ -244,9 +258,11 @@ export function registerUploadAttachmentTool(server: McpServer): void {
         if (result.content_type) lines.push(`Content Type: ${result.content_type}`);
         if (result.size_bytes) lines.push(`Size: ${result.size_bytes} bytes`);
 
-        return {
-          content: [{ type: "text" as const, text: lines.join("\n") }],
-        };
+        return structuredResult(lines.join("\n"), {
+          table,
+          recordSysId: record_sys_id,
+          attachment: result,
+        });
       } catch (error) {
         const message =
           error instanceof Error ? error.message : String(error);
@@ -1,9 +1,20 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
-import { BatchOperations } from "@sonisoft/now-sdk-ext-core";
+import { BatchOperations, type ServiceNowInstance } from "@sonisoft/now-sdk-ext-core";
 import { withConnectionRetry } from "../common/connection.js";
+import { resolveCallAlias } from "../common/instance-policy.js";
+import { journaledWrite } from "../common/undo-journal.js";
 import { progressReporter } from "../common/progress.js";
 import { annotationsFor } from "../common/annotations.js";
+import { errorListSchema, structuredResult } from "../common/structured.js";
+import {
+  describeChanges,
+  dryRunParam,
+  fieldChanges,
+  previewOutputShape,
+  readRecords,
+  type RecordChange,
+} from "../common/dry-run.js";
 
 /**
  * Registers the batch_create_records tool on the MCP server.
@@ -59,10 +70,39 @@ export function registerBatchCreateRecordsTool(server: McpServer): void {
             "When true (default), stops on first error. " +
               "When false, continues past errors."
           ),
+        dry_run: dryRunParam,
+      },
+      outputSchema: {
+        success: z.boolean(),
+        createdCount: z.number(),
+        requestedCount: z.number(),
+        sysIds: z.record(z.string()),
+        errors: errorListSchema,
+        executionTimeMs: z.number().optional(),
+        ...previewOutputShape,
       },
     },
-    async ({ instance, operations, transaction }, extra) => {
+    async ({ instance, operations, transaction, dry_run }, extra) => {
       try {
+        if (dry_run) {
+          // Nothing to read: a create has no current values. saveAs references stay
+          // as written, since the sys_ids they would resolve to do not exist yet.
+          const changes: RecordChange[] = operations.map((op) => ({
+            table: op.table,
+            action: "create",
+            fields: fieldChanges(undefined, op.data),
+          }));
+          return structuredResult(describeChanges(changes).join("\n"), {
+            success: true,
+            createdCount: 0,
+            requestedCount: operations.length,
+            sysIds: {},
+            errors: [],
+            dryRun: true,
+            changes,
+          });
+        }
+
         const onProgress = progressReporter(extra);
         const result = await withConnectionRetry(
           instance,
@@ -96,9 +136,14 @@ export function registerBatchCreateRecordsTool(server: McpServer): void {
           }
         }
 
-        return {
-          content: [{ type: "text" as const, text: lines.join("\n") }],
-        };
+        return structuredResult(lines.join("\n"), {
+          success: result.success,
+          createdCount: result.createdCount,
+          requestedCount: operations.length,
+          sysIds: result.sysIds,
+          errors: result.errors,
+          executionTimeMs: result.executionTimeMs,
+        });
       } catch (error) {
         const message =
           error instanceof Error ? error.message : String(error);
@@ -113,6 +158,35 @@ export function registerBatchCreateRecordsTool(server: McpServer): void {
   );
 }
 
+/**
+ * Reads the current value of every field each update would set, one query per table.
+ * A record that does not exist is reported with no current values — the real call
+ * would fail for it, and the preview should not hide that it was asked for.
+ */
+async function previewBatchUpdate(
+  snInstance: ServiceNowInstance,
+  updates: { table: string; sysId: string; data: Record<string, unknown> }[]
+): Promise<RecordChange[]> {
+  const current = new Map<string, Record<string, unknown>>();
+  const tables = new Set(updates.map((u) => u.table));
+  for (const table of tables) {
+    const forTable = updates.filter((u) => u.table === table);
+    const fields = [...new Set(forTable.flatMap((u) => Object.keys(u.data)))];
+    const sysIds = [...new Set(forTable.map((u) => u.sysId))];
+    const { records } = await readRecords(snInstance, table, `sys_idIN${sysIds.join(",")}`, fields, sysIds.length);
+    for (const record of records) {
+      current.set(`${table}:${String(record.sys_id)}`, record);
+    }
+  }
+
+  return updates.map((u) => ({
+    table: u.table,
+    sys_id: u.sysId,
+    action: "update",
+    fields: fieldChanges(current.get(`${u.table}:${u.sysId}`), u.data),
+  }));
+}
+
 /**
  * Registers the batch_update_records tool on the MCP server.
  *
@@ -127,6 +201,8 @@ export function registerBatchUpdateRecordsTool(server: McpServer): void {
       description:
         "Update multiple records across one or more ServiceNow tables in a single batch. " +
         "Each update specifies a table, sys_id, and the field data to update.\n\n" +
+        "When the server's undo journal is on, the result includes an undoOperationId " +
+        "that undo_operation can restore the prior values from.\n\n" +
         "IMPORTANT: This modifies records on the ServiceNow instance.",
       inputSchema: {
         instance: z
@@ -155,20 +231,58 @@ export function registerBatchUpdateRecordsTool(server: McpServer): void {
             "When true, stops on first error. " +
               "When false (default), continues past errors."
           ),
+        dry_run: dryRunParam,
+      },
+      outputSchema: {
+        success: z.boolean(),
+        updatedCount: z.number(),
+        requestedCount: z.number(),
+        errors: errorListSchema,
+        executionTimeMs: z.number().optional(),
+        undoOperationId: z.string().optional(),
+        ...previewOutputShape,
       },
     },
-    async ({ instance, updates, stop_on_error }, extra) => {
+    async ({ instance, updates, stop_on_error, dry_run }, extra) => {
       try {
+        if (dry_run) {
+          const changes = await withConnectionRetry(instance, (snInstance) =>
+            previewBatchUpdate(snInstance, updates)
+          );
+          return structuredResult(describeChanges(changes).join("\n"), {
+            success: true,
+            updatedCount: 0,
+            requestedCount: updates.length,
+            errors: [],
+            dryRun: true,
+            changes,
+          });
+        }
+
         const onProgress = progressReporter(extra);
-        const result = await withConnectionRetry(
+        const { result, operationId } = await withConnectionRetry(
           instance,
           async (snInstance) => {
             const batchOps = new BatchOperations(snInstance);
-            return await batchOps.batchUpdate({
-              updates,
-              stopOnError: stop_on_error,
-              onProgress,
+            const targets = [...new Set(updates.map((u) => u.table))].map((table) => {
+              const forTable = updates.filter((u) => u.table === table);
+              return {
+                table,
+                fields: forTable.flatMap((u) => Object.keys(u.data)),
+                sysIds: forTable.map((u) => u.sysId),
+              };
             });
+            return await journaledWrite(
+              snInstance,
+              { tool: "batch_update_records", alias: resolveCallAlias(instance) },
+              targets,
+              () =>
+                batchOps.batchUpdate({
+                  updates,
+                  stopOnError: stop_on_error,
+                  onProgress,
+                })
+            );
           }
         );
 
@@ -177,6 +291,7 @@ export function registerBatchUpdateRecordsTool(server: McpServer): void {
         lines.push(`Success: ${result.success}`);
         lines.push(`Updated: ${result.updatedCount}/${updates.length}`);
         lines.push(`Execution Time: ${result.executionTimeMs}ms`);
+        if (operationId) lines.push(`Undo: undo_operation with operation_id "${operationId}"`);
 
         if (result.errors.length > 0) {
           lines.push("");
@@ -188,9 +303,14 @@ export function registerBatchUpdateRecordsTool(server: McpServer): void {
           }
         }
 
-        return {
-          content: [{ type: "text" as const, text: lines.join("\n") }],
-        };
+        return structuredResult(lines.join("\n"), {
+          success: result.success,
+          updatedCount: result.updatedCount,
+          requestedCount: updates.length,
+          errors: result.errors,
+          executionTimeMs: result.executionTimeMs,
+          undoOperationId: operationId,
+        });
       } catch (error) {
         const message =
           error instanceof Error ? error.message : String(error);
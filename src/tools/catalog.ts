@@ -3,6 +3,7 @@ import { z } from "zod";
 import { CatalogManager } from "@sonisoft/now-sdk-ext-core";
 import { withConnectionRetry } from "../common/connection.js";
 import { annotationsFor } from "../common/annotations.js";
+import { recordSchema, structuredResult } from "../common/structured.js";
 
 /**
  * Instance parameter description shared across catalog tools.
@@ -47,6 +48,9 @@ export function registerListCatalogItemsTool(server: McpServer): void {
         limit: z.number().int().min(1).default(20).describe("Maximum number of records to return (default 20)."),
         offset: z.number().int().min(0).default(0).describe("Number of records to skip for pagination (default 0)."),
       },
+      outputSchema: {
+        items: z.array(recordSchema),
+      },
     },
     async ({ instance, text_search, category_sys_id, catalog_sys_id, active, query, limit, offset }) => {
       try {
@@ -64,9 +68,7 @@ export function registerListCatalogItemsTool(server: McpServer): void {
         });
 
         if (results.length === 0) {
-          return {
-            content: [{ type: "text" as const, text: "No catalog items found." }],
-          };
+          return structuredResult("No catalog items found.", { items: [] });
         }
 
         const lines = results.map(
@@ -74,14 +76,10 @@ export function registerListCatalogItemsTool(server: McpServer): void {
             `- ${item.name}: ${item.short_description || "(no description)"} ` +
             `(sys_id: ${item.sys_id}, active: ${item.active})`
         );
-        return {
-          content: [
-            {
-              type: "text" as const,
-              text: `Found ${results.length} catalog item(s):\n\n${lines.join("\n")}`,
-            },
-          ],
-        };
+        return structuredResult(
+          `Found ${results.length} catalog item(s):\n\n${lines.join("\n")}`,
+          { items: results }
+        );
       } catch (error) {
         const message = error instanceof Error ? error.message : String(error);
         return {
@@ -116,6 +114,10 @@ export function registerGetCatalogItemTool(server: McpServer): void {
           .default(true)
           .describe("Whether to include the item's variables/form fields (default true)."),
       },
+      outputSchema: {
+        item: recordSchema,
+        variables: z.array(recordSchema).optional(),
+      },
     },
     async ({ instance, sys_id, include_variables }) => {
       try {
@@ -145,9 +147,10 @@ export function registerGetCatalogItemTool(server: McpServer): void {
             .join("\n");
         }
 
-        return {
-          content: [{ type: "text" as const, text }],
-        };
+        return structuredResult(text, {
+          item,
+          variables: result.variables,
+        });
       } catch (error) {
         const message = error instanceof Error ? error.message : String(error);
         return {
@@ -189,6 +192,9 @@ export function registerListCatalogCategoriesTool(server: McpServer): void {
         limit: z.number().int().min(1).default(20).describe("Maximum number of records to return (default 20)."),
         offset: z.number().int().min(0).default(0).describe("Number of records to skip for pagination (default 0)."),
       },
+      outputSchema: {
+        categories: z.array(recordSchema),
+      },
     },
     async ({ instance, parent_sys_id, catalog_sys_id, active, title, query, limit, offset }) => {
       try {
@@ -206,9 +212,7 @@ export function registerListCatalogCategoriesTool(server: McpServer): void {
         });
 
         if (results.length === 0) {
-          return {
-            content: [{ type: "text" as const, text: "No catalog categories found." }],
-          };
+          return structuredResult("No catalog categories found.", { categories: [] });
         }
 
         const lines = results.map(
@@ -216,14 +220,10 @@ export function registerListCatalogCategoriesTool(server: McpServer): void {
             `- ${cat.title}: ${cat.description || "(no description)"} ` +
             `(sys_id: ${cat.sys_id}, active: ${cat.active})`
         );
-        return {
-          content: [
-            {
-              type: "text" as const,
-              text: `Found ${results.length} catalog category(ies):\n\n${lines.join("\n")}`,
-            },
-          ],
-        };
+        return structuredResult(
+          `Found ${results.length} catalog category(ies):\n\n${lines.join("\n")}`,
+          { categories: results }
+        );
       } catch (error) {
         const message = error instanceof Error ? error.message : String(error);
         return {
@@ -252,6 +252,10 @@ export function registerGetCatalogCategoryTool(server: McpServer): void {
         instance: z.string().optional().describe(INSTANCE_DESC),
         sys_id: z.string().describe("The sys_id of the catalog category."),
       },
+      outputSchema: {
+        category: recordSchema,
+        itemCount: z.number().optional(),
+      },
     },
     async ({ instance, sys_id }) => {
       try {
@@ -269,9 +273,10 @@ export function registerGetCatalogCategoryTool(server: McpServer): void {
           `Parent: ${cat.parent || "N/A"}\n` +
           `Items in Category: ${result.itemCount}`;
 
-        return {
-          content: [{ type: "text" as const, text }],
-        };
+        return structuredResult(text, {
+          category: cat,
+          itemCount: result.itemCount,
+        });
       } catch (error) {
         const message = error instanceof Error ? error.message : String(error);
         return {
@@ -313,6 +318,9 @@ export function registerListCatalogItemVariablesTool(server: McpServer): void {
             "Set to false to only get directly-assigned variables."
           ),
       },
+      outputSchema: {
+        variables: z.array(recordSchema),
+      },
     },
     async ({ instance, catalog_item_sys_id, include_variable_sets }) => {
       try {
@@ -325,9 +333,7 @@ export function registerListCatalogItemVariablesTool(server: McpServer): void {
         });
 
         if (results.length === 0) {
-          return {
-            content: [{ type: "text" as const, text: "No variables found for this catalog item." }],
-          };
+          return structuredResult("No variables found for this catalog item.", { variables: [] });
         }
 
         const lines = results.map(
@@ -338,14 +344,10 @@ export function registerListCatalogItemVariablesTool(server: McpServer): void {
             (v.help_text ? `\n    Help: ${v.help_text}` : "") +
             (v.reference ? `\n    Reference: ${v.reference}` : "")
         );
-        return {
-          content: [
-            {
-              type: "text" as const,
-              text: `Found ${results.length} variable(s):\n\n${lines.join("\n")}`,
-            },
-          ],
-        };
+        return structuredResult(
+          `Found ${results.length} variable(s):\n\n${lines.join("\n")}`,
+          { variables: results }
+        );
       } catch (error) {
         const message = error instanceof Error ? error.message : String(error);
         return {
@@ -395,6 +397,12 @@ export function registerSubmitCatalogRequestTool(server: McpServer): void {
             "use the sys_id of the referenced record."
           ),
       },
+      outputSchema: {
+        requestNumber: z.string().optional(),
+        requestSysId: z.string().optional(),
+        requestItemNumber: z.string().optional(),
+        requestItemSysId: z.string().optional(),
+      },
     },
     async ({ instance, catalog_item_sys_id, quantity, variables }) => {
       try {
@@ -413,9 +421,12 @@ export function registerSubmitCatalogRequestTool(server: McpServer): void {
           text += `\nRequest Item: ${result.requestItemNumber} (sys_id: ${result.requestItemSysId})`;
         }
 
-        return {
-          content: [{ type: "text" as const, text }],
-        };
+        return structuredResult(text, {
+          requestNumber: result.requestNumber,
+          requestSysId: result.requestSysId,
+          requestItemNumber: result.requestItemNumber,
+          requestItemSysId: result.requestItemSysId,
+        });
       } catch (error) {
         const message = error instanceof Error ? error.message : String(error);
         return {
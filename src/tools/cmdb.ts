@@ -3,6 +3,7 @@ import { z } from "zod";
 import { CMDBRelationships } from "@sonisoft/now-sdk-ext-core";
 import { withConnectionRetry } from "../common/connection.js";
 import { annotationsFor } from "../common/annotations.js";
+import { recordSchema, structuredResult } from "../common/structured.js";
 
 /**
  * Registers the get_cmdb_relationships tool on the MCP server.
@@ -55,6 +56,11 @@ export function registerGetCmdbRelationshipsTool(server: McpServer): void {
           .default(100)
           .describe("Maximum number of relationships to return. Default is 100."),
       },
+      outputSchema: {
+        ci: recordSchema.optional(),
+        direction: z.string(),
+        relationships: z.array(recordSchema),
+      },
     },
     async ({ instance, ci_sys_id, direction, relation_type, limit }) => {
       try {
@@ -93,9 +99,11 @@ export function registerGetCmdbRelationshipsTool(server: McpServer): void {
           lines.push("No relationships found.");
         }
 
-        return {
-          content: [{ type: "text" as const, text: lines.join("\n") }],
-        };
+        return structuredResult(lines.join("\n"), {
+          ci: result.ci ?? undefined,
+          direction,
+          relationships: result.relationships ?? [],
+        });
       } catch (error) {
         const message =
           error instanceof Error ? error.message : String(error);
@@ -175,6 +183,16 @@ export function registerTraverseCmdbGraphTool(server: McpServer): void {
               "reached. Default is 200, max is 1000."
           ),
       },
+      outputSchema: {
+        rootCI: recordSchema.optional(),
+        direction: z.string(),
+        maxDepth: z.number(),
+        nodes: z.array(recordSchema),
+        edges: z.array(recordSchema),
+        apiCallCount: z.number().optional(),
+        truncated: z.boolean().optional(),
+        truncationReason: z.string().optional(),
+      },
     },
     async ({
       instance,
@@ -237,9 +255,16 @@ export function registerTraverseCmdbGraphTool(server: McpServer): void {
           }
         }
 
-        return {
-          content: [{ type: "text" as const, text: lines.join("\n") }],
-        };
+        return structuredResult(lines.join("\n"), {
+          rootCI: result.rootCI ?? undefined,
+          direction,
+          maxDepth: max_depth,
+          nodes: result.nodes ?? [],
+          edges: result.edges ?? [],
+          apiCallCount: result.apiCallCount,
+          truncated: result.truncated,
+          truncationReason: result.truncationReason || undefined,
+        });
       } catch (error) {
         const message =
           error instanceof Error ? error.message : String(error);
@@ -3,6 +3,7 @@ import { z } from "zod";
 import { CodeSearch } from "@sonisoft/now-sdk-ext-core";
 import { withConnectionRetry } from "../common/connection.js";
 import { annotationsFor } from "../common/annotations.js";
+import { recordSchema, structuredResult } from "../common/structured.js";
 
 /**
  * Registers the code_search tool on the MCP server.
@@ -83,6 +84,13 @@ export function registerCodeSearchTool(server: McpServer): void {
           .optional()
           .describe("Maximum number of results to return."),
       },
+      outputSchema: {
+        term: z.string(),
+        searchGroup: z.string().optional(),
+        table: z.string().optional(),
+        currentApp: z.string().optional(),
+        results: z.array(z.unknown()),
+      },
     },
     async ({
       instance,
@@ -149,14 +157,13 @@ export function registerCodeSearchTool(server: McpServer): void {
           );
         }
 
-        return {
-          content: [
-            {
-              type: "text" as const,
-              text: lines.join("\n"),
-            },
-          ],
-        };
+        return structuredResult(lines.join("\n"), {
+          term,
+          searchGroup: search_group,
+          table,
+          currentApp: current_app,
+          results,
+        });
       } catch (error) {
         const message =
           error instanceof Error ? error.message : String(error);
@@ -209,6 +216,9 @@ export function registerListCodeSearchGroupsTool(server: McpServer): void {
             "Maximum number of search groups to return. Default is 100."
           ),
       },
+      outputSchema: {
+        groups: z.array(recordSchema),
+      },
     },
     async ({ instance, limit }) => {
       try {
@@ -251,14 +261,7 @@ export function registerListCodeSearchGroupsTool(server: McpServer): void {
             "Use the sys_id as `search_group` in `add_code_search_table`."
         );
 
-        return {
-          content: [
-            {
-              type: "text" as const,
-              text: lines.join("\n"),
-            },
-          ],
-        };
+        return structuredResult(lines.join("\n"), { groups });
       } catch (error) {
         const message =
           error instanceof Error ? error.message : String(error);
@@ -309,6 +312,10 @@ export function registerListCodeSearchTablesTool(server: McpServer): void {
               "Use `list_code_search_groups` to find available group names."
           ),
       },
+      outputSchema: {
+        searchGroup: z.string(),
+        tables: z.array(recordSchema),
+      },
     },
     async ({ instance, search_group }) => {
       try {
@@ -350,14 +357,10 @@ export function registerListCodeSearchTablesTool(server: McpServer): void {
           );
         }
 
-        return {
-          content: [
-            {
-              type: "text" as const,
-              text: lines.join("\n"),
-            },
-          ],
-        };
+        return structuredResult(lines.join("\n"), {
+          searchGroup: search_group,
+          tables,
+        });
       } catch (error) {
         const message =
           error instanceof Error ? error.message : String(error);
@@ -425,6 +428,10 @@ export function registerAddCodeSearchTableTool(server: McpServer): void {
               "`list_code_search_groups`."
           ),
       },
+      outputSchema: {
+        searchGroup: z.string(),
+        record: recordSchema,
+      },
     },
     async ({ instance, table, search_fields, search_group }) => {
       try {
@@ -454,14 +461,10 @@ export function registerAddCodeSearchTableTool(server: McpServer): void {
             "this group will now include results from this table."
         );
 
-        return {
-          content: [
-            {
-              type: "text" as const,
-              text: lines.join("\n"),
-            },
-          ],
-        };
+        return structuredResult(lines.join("\n"), {
+          searchGroup: search_group,
+          record,
+        });
       } catch (error) {
         const message =
           error instanceof Error ? error.message : String(error);
@@ -0,0 +1,385 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { withConnectionRetry } from "../common/connection.js";
+import { annotationsFor } from "../common/annotations.js";
+import { progressReporter, type ProgressCallback } from "../common/progress.js";
+import { structuredResult } from "../common/structured.js";
+import { fetchTablePage, MAX_PAGE_SIZE, type TableQuery } from "../common/table-pages.js";
+import {
+  compareRecordSets,
+  DEFAULT_IGNORED_FIELDS,
+  diffRecords,
+  fieldFilter,
+  type FieldDifference,
+} from "../common/record-diff.js";
+
+/** Records read from each side in table mode by default, and at most. */
+const DEFAULT_TABLE_RECORDS = 2000;
+const MAX_TABLE_RECORDS = 20000;
+
+/** Longest value shown in the text block. Scripts run to thousands of characters. */
+const TEXT_VALUE_LIMIT = 200;
+
+const differenceSchema = z.object({ field: z.string(), source: z.unknown(), target: z.unknown() });
+const unmatchedSchema = z.object({ key: z.string(), sys_id: z.string() });
+
+/** `^` separates conditions in an encoded query; a literal one is written `^^`. */
+function equalsCondition(field: string, value: string): string {
+  return `${field}=${value.replace(/\^/g, "^^")}`;
+}
+
+function shown(value: unknown): string {
+  const text = JSON.stringify(value);
+  return text.length > TEXT_VALUE_LIMIT ? `${text.slice(0, TEXT_VALUE_LIMIT)}… (${text.length} chars)` : text;
+}
+
+function describeDifferences(
+  differences: FieldDifference[],
+  sourceAlias: string,
+  targetAlias: string,
+  indent: string
+): string[] {
+  return differences.flatMap((d) => [
+    `${indent}${d.field}:`,
+    `${indent}  ${sourceAlias}: ${shown(d.source)}`,
+    `${indent}  ${targetAlias}: ${shown(d.target)}`,
+  ]);
+}
+
+/**
+ * Reads every record matching the request from one instance, page by page. THROWS on
+ * a failed page, naming the alias, and when more than `max` records match — a partial
+ * read would show the unread records as missing on that side.
+ */
+async function readAll(
+  alias: string,
+  request: TableQuery,
+  max: number,
+  onProgress: ProgressCallback | undefined
+): Promise<Record<string, unknown>[]> {
+  const records: Record<string, unknown>[] = [];
+  for (;;) {
+    // One past the cap, to tell "exactly max" from "more than max".
+    const requested = Math.min(MAX_PAGE_SIZE, max + 1 - records.length);
+    const response = await withConnectionRetry(alias, (snInstance) =>
+      fetchTablePage(snInstance, request, records.length, requested)
+    );
+    if (response.status !== 200) {
+      throw new Error(`HTTP ${response.status} ${response.statusText} reading "${request.table}" on ${alias}`);
+    }
+    const page: Record<string, unknown>[] = response.bodyObject?.result ?? [];
+    records.push(...page);
+    onProgress?.(`Read ${records.length} record(s) of ${request.table} from ${alias}`);
+    if (records.length > max) {
+      throw new Error(
+        `More than ${max} records of "${request.table}" match on ${alias}. Narrow the query, ` +
+          "or raise max_records."
+      );
+    }
+    if (page.length < requested) {
+      return records;
+    }
+  }
+}
+
+/**
+ * Registers the diff_records tool on the MCP server.
+ *
+ * Compares one record, or the records a query matches, between two instances.
+ */
+export function registerDiffRecordsTool(server: McpServer): void {
+  server.registerTool(
+    "diff_records",
+    {
+      annotations: annotationsFor("diff_records"),
+      title: "Diff Records Across Instances",
+      description:
+        "Compare records between two ServiceNow instances, field by field. Use it for " +
+        'promotion checks such as "is this script include the same in test and prod?".\n\n' +
+        "Record mode: pass sys_id, or key_value with key_field (e.g. key_field \"name\"), to " +
+        "compare one record. Table mode: pass query to compare every matching record; the " +
+        "result lists records missing from the target, extra in the target, and differing.\n\n" +
+        "Records are matched on key_field, sys_id by default. Records created separately on " +
+        "each instance have different sys_ids; match them on a field such as name. " +
+        "sys_updated_* and sys_mod_count are not compared by default; sys_id and the key never are.",
+      inputSchema: {
+        source_instance: z
+          .string()
+          .optional()
+          .describe(
+            "The auth alias of the instance to compare from (e.g. \"test\"). If not " +
+              "provided, falls back to the SN_AUTH_ALIAS environment variable."
+          ),
+        target_instance: z
+          .string()
+          .describe('The auth alias of the instance to compare against (e.g. "prod").'),
+        table: z.string().describe('The table to compare (e.g. "sys_script_include").'),
+        sys_id: z
+          .string()
+          .optional()
+          .describe("Record mode: the sys_id of the record on both instances."),
+        key_field: z
+          .string()
+          .default("sys_id")
+          .describe(
+            "The field records are matched on across the two instances. Default sys_id. " +
+              'Use a field such as "name" for records not moved by update set.'
+          ),
+        key_value: z
+          .string()
+          .optional()
+          .describe("Record mode: the key_field value of the record to compare."),
+        query: z
+          .string()
+          .optional()
+          .describe(
+            "Table mode: an encoded query selecting the records to compare on both " +
+              'instances (e.g. "sys_scope.scope=x_acme_app").'
+          ),
+        fields: z
+          .string()
+          .optional()
+          .describe(
+            "Comma-separated fields to compare. If omitted, every field is compared."
+          ),
+        ignore_fields: z
+          .array(z.string())
+          .default(DEFAULT_IGNORED_FIELDS)
+          .describe(
+            `Fields not compared; \`*\` matches any characters. Default ${JSON.stringify(DEFAULT_IGNORED_FIELDS)}. ` +
+              "Pass [] to compare those too."
+          ),
+        max_records: z
+          .number()
+          .int()
+          .min(1)
+          .max(MAX_TABLE_RECORDS)
+          .default(DEFAULT_TABLE_RECORDS)
+          .describe(
+            `Table mode: the most records read from each instance. Default ${DEFAULT_TABLE_RECORDS}, ` +
+              `max ${MAX_TABLE_RECORDS}. More matches than this is an error, not a partial diff.`
+          ),
+      },
+      outputSchema: {
+        mode: z.enum(["record", "table"]),
+        table: z.string(),
+        sourceInstance: z.string(),
+        targetInstance: z.string(),
+        keyField: z.string(),
+        ignoredFields: z.array(z.string()),
+        identical: z.boolean(),
+        sourceFound: z.boolean().optional(),
+        targetFound: z.boolean().optional(),
+        differences: z.array(differenceSchema).optional(),
+        query: z.string().optional(),
+        sourceCount: z.number().optional(),
+        targetCount: z.number().optional(),
+        missing: z.array(unmatchedSchema).optional(),
+        extra: z.array(unmatchedSchema).optional(),
+        differing: z
+          .array(
+            z.object({
+              key: z.string(),
+              sourceSysId: z.string(),
+              targetSysId: z.string(),
+              differences: z.array(differenceSchema),
+            })
+          )
+          .optional(),
+        identicalCount: z.number().optional(),
+        duplicateKeys: z.array(z.object({ side: z.string(), key: z.string() })).optional(),
+      },
+    },
+    async (
+      {
+        source_instance,
+        target_instance,
+        table,
+        sys_id,
+        key_field,
+        key_value,
+        query,
+        fields,
+        ignore_fields,
+        max_records,
+      },
+      extra
+    ) => {
+      try {
+        const sourceAlias = source_instance || process.env.SN_AUTH_ALIAS || "";
+        const selectors = [sys_id, key_value, query].filter((s) => s !== undefined).length;
+        let problem: string | undefined;
+        if (!sourceAlias) {
+          problem = "No source instance. Pass source_instance or set SN_AUTH_ALIAS.";
+        } else if (sourceAlias === target_instance) {
+          problem = `source_instance and target_instance are both "${target_instance}".`;
+        } else if (selectors !== 1) {
+          problem = "Pass exactly one of sys_id, key_value (record mode) or query (table mode).";
+        }
+        if (problem) {
+          return {
+            content: [{ type: "text" as const, text: `Error comparing records: ${problem}` }],
+            isError: true,
+          };
+        }
+
+        const keyField = sys_id !== undefined ? "sys_id" : key_field;
+        const compared = fieldFilter([...ignore_fields, "sys_id", keyField]);
+        // The key and sys_id are needed to pair records even when not compared.
+        const fieldList = fields
+          ? [...new Set([...fields.split(",").map((f) => f.trim()).filter(Boolean), "sys_id", keyField])].join(",")
+          : undefined;
+        const header = {
+          table,
+          sourceInstance: sourceAlias,
+          targetInstance: target_instance,
+          keyField,
+          ignoredFields: ignore_fields,
+        };
+
+        if (query === undefined) {
+          const matchValue = (sys_id ?? key_value) as string;
+          const request: TableQuery = {
+            table,
+            query: equalsCondition(keyField, matchValue),
+            fields: fieldList,
+            displayValue: false,
+            excludeReferenceLink: true,
+          };
+          const [source, target] = await Promise.all(
+            [sourceAlias, target_instance].map(async (alias) => {
+              // Two, so a key_value shared by several records is caught rather than
+              // one of them compared at random.
+              const response = await withConnectionRetry(alias, (snInstance) =>
+                fetchTablePage(snInstance, request, undefined, 2)
+              );
+              if (response.status !== 200) {
+                throw new Error(`HTTP ${response.status} ${response.statusText} reading "${table}" on ${alias}`);
+              }
+              const found: Record<string, unknown>[] = response.bodyObject?.result ?? [];
+              if (found.length > 1) {
+                throw new Error(
+                  `More than one ${table} record has ${keyField} "${matchValue}" on ${alias}.` +
+                    (sys_id === undefined ? " Compare by sys_id." : "")
+                );
+              }
+              return found[0];
+            })
+          );
+
+          const differences = source && target ? diffRecords(source, target, compared) : [];
+          const identical = !!source && !!target && differences.length === 0;
+
+          const lines: string[] = [];
+          lines.push("=== Record Diff ===");
+          lines.push(`Table: ${table}`);
+          lines.push(`Matched on: ${keyField} = ${JSON.stringify(matchValue)}`);
+          lines.push(`Source: ${sourceAlias}${source ? "" : " (not found)"}`);
+          lines.push(`Target: ${target_instance}${target ? "" : " (not found)"}`);
+          lines.push(`Ignored: ${ignore_fields.length > 0 ? ignore_fields.join(", ") : "(none)"}`);
+          lines.push("");
+          if (!source && !target) {
+            lines.push("The record exists on neither instance.");
+          } else if (!source || !target) {
+            lines.push(`The record exists on ${source ? sourceAlias : target_instance} only.`);
+          } else if (identical) {
+            lines.push("The records are identical in every compared field.");
+          } else {
+            lines.push(`Differences (${differences.length}):`);
+            lines.push(...describeDifferences(differences, sourceAlias, target_instance, "  "));
+          }
+
+          return structuredResult(lines.join("\n"), {
+            mode: "record",
+            ...header,
+            identical,
+            sourceFound: !!source,
+            targetFound: !!target,
+            differences,
+          });
+        }
+
+        const request: TableQuery = {
+          table,
+          query,
+          fields: fieldList,
+          displayValue: false,
+          excludeReferenceLink: true,
+        };
+        const onProgress = progressReporter(extra);
+        // One side after the other: the progress messages stay in order, and a bad
+        // query fails once rather than twice.
+        const source = await readAll(sourceAlias, request, max_records, onProgress);
+        const target = await readAll(target_instance, request, max_records, onProgress);
+        const comparison = compareRecordSets(source, target, keyField, compared);
+        const identical =
+          comparison.missing.length === 0 &&
+          comparison.extra.length === 0 &&
+          comparison.differing.length === 0 &&
+          comparison.duplicateKeys.length === 0;
+
+        const lines: string[] = [];
+        lines.push("=== Table Diff ===");
+        lines.push(`Table: ${table}`);
+        lines.push(`Query: ${query || "(all records)"}`);
+        lines.push(`Matched on: ${keyField}`);
+        lines.push(`Source: ${sourceAlias} (${source.length} record(s))`);
+        lines.push(`Target: ${target_instance} (${target.length} record(s))`);
+        lines.push(`Ignored: ${ignore_fields.length > 0 ? ignore_fields.join(", ") : "(none)"}`);
+        lines.push(`Identical: ${comparison.identicalCount}`);
+
+        if (comparison.missing.length > 0) {
+          lines.push("");
+          lines.push(`Missing from ${target_instance} (${comparison.missing.length}):`);
+          comparison.missing.forEach((r) => lines.push(`  ${r.key} (${r.sys_id})`));
+        }
+        if (comparison.extra.length > 0) {
+          lines.push("");
+          lines.push(`Only in ${target_instance} (${comparison.extra.length}):`);
+          comparison.extra.forEach((r) => lines.push(`  ${r.key} (${r.sys_id})`));
+        }
+        if (comparison.differing.length > 0) {
+          lines.push("");
+          lines.push(`Differing (${comparison.differing.length}):`);
+          for (const pair of comparison.differing) {
+            lines.push(`  ${pair.key}:`);
+            lines.push(...describeDifferences(pair.differences, sourceAlias, target_instance, "    "));
+          }
+        }
+        if (comparison.duplicateKeys.length > 0) {
+          lines.push("");
+          lines.push(`Not compared — ${keyField} is not unique (${comparison.duplicateKeys.length}):`);
+          comparison.duplicateKeys.forEach((d) =>
+            lines.push(`  ${d.key} on ${d.side === "source" ? sourceAlias : target_instance}`)
+          );
+        }
+        if (identical) {
+          lines.push("");
+          lines.push("Both instances hold the same records, identical in every compared field.");
+        }
+
+        return structuredResult(lines.join("\n"), {
+          mode: "table",
+          ...header,
+          identical,
+          query,
+          sourceCount: source.length,
+          targetCount: target.length,
+          ...comparison,
+        });
+      } catch (error) {
+        const message =
+          error instanceof Error ? error.message : String(error);
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Error comparing records: ${message}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+}
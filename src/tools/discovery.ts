@@ -3,6 +3,7 @@ import { z } from "zod";
 import { InstanceDiscovery } from "@sonisoft/now-sdk-ext-core";
 import { withConnectionRetry } from "../common/connection.js";
 import { annotationsFor } from "../common/annotations.js";
+import { recordSchema, structuredResult } from "../common/structured.js";
 
 /**
  * Registers the list_instance_tables tool on the MCP server.
@@ -69,6 +70,9 @@ export function registerListInstanceTablesTool(server: McpServer): void {
           .optional()
           .describe("Offset for pagination (skip this many records)."),
       },
+      outputSchema: {
+        tables: z.array(recordSchema),
+      },
     },
     async ({ instance, name_prefix, scope, extendable_only, query, limit, offset }) => {
       try {
@@ -115,9 +119,7 @@ export function registerListInstanceTablesTool(server: McpServer): void {
         lines.push("");
         lines.push(`=== ${tables.length} table(s) returned ===`);
 
-        return {
-          content: [{ type: "text" as const, text: lines.join("\n") }],
-        };
+        return structuredResult(lines.join("\n"), { tables });
       } catch (error) {
         const message =
           error instanceof Error ? error.message : String(error);
@@ -182,6 +184,9 @@ export function registerListPluginsTool(server: McpServer): void {
           .default(50)
           .describe("Maximum number of plugins to return. Default is 50."),
       },
+      outputSchema: {
+        plugins: z.array(recordSchema),
+      },
     },
     async ({ instance, name_prefix, active_only, query, limit }) => {
       try {
@@ -221,9 +226,7 @@ export function registerListPluginsTool(server: McpServer): void {
         lines.push("");
         lines.push(`=== ${plugins.length} plugin(s) returned ===`);
 
-        return {
-          content: [{ type: "text" as const, text: lines.join("\n") }],
-        };
+        return structuredResult(lines.join("\n"), { plugins });
       } catch (error) {
         const message =
           error instanceof Error ? error.message : String(error);
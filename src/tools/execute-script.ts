@@ -1,8 +1,9 @@
+import { readFile } from "node:fs/promises";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
-import { BackgroundScriptExecutor } from "@sonisoft/now-sdk-ext-core";
-import { withConnectionRetry } from "../common/connection.js";
 import { annotationsFor } from "../common/annotations.js";
+import { structuredResult } from "../common/structured.js";
+import { runBackgroundScript, scriptOutputShape } from "../common/background-script.js";
 
 /**
  * Registers the execute_script tool on the MCP server.
@@ -21,6 +22,20 @@ export function registerExecuteScriptTool(server: McpServer): void {
         "(the /sys.scripts.do endpoint). The script runs server-side with full " +
         "GlideSystem API access (gs, GlideRecord, GlideAggregate, GlideDateTime, " +
         "GlideUser, etc.). Use gs.print() or gs.info() to produce output.\n\n" +
+        "Pass the script inline as script, or as file_path to run a local file " +
+        "without putting its text in the conversation.\n\n" +
+        "STRUCTURED RESULTS: call nex.result(value) to return a JSON-serialisable " +
+        "value; it comes back parsed as result (the last call wins). Convert Glide " +
+        "values to strings first, e.g. String(gr.number). gs.info(), gs.warn() and " +
+        "gs.error() calls are returned separately as logs.info, logs.warn and " +
+        "logs.error; they are printed rather than written to the system log. Only " +
+        "calls written as gs.info(...) in code are rewritten: not those in strings or " +
+        "comments, and not gs[\"info\"](...).\n\n" +
+        "PREVIEW: with preview: true, inserts, updates and deletes made through " +
+        "GlideRecord or GlideRecordSecure objects the script creates are reported as " +
+        "changes instead of being written. Writes made any other way — by a Script " +
+        "Include it calls, GlideMultipleUpdate, events, flows — are NOT intercepted " +
+        "and do happen; check affectedRecords.\n\n" +
         "SCOPE BEHAVIOR: Scripts execute within the specified application scope. " +
         "When running in a scoped app (e.g., scope: 'x_myapp_custom'), you can " +
         "reference that scope's Script Includes and classes directly by name " +
@@ -43,6 +58,7 @@ export function registerExecuteScriptTool(server: McpServer): void {
           ),
         script: z
           .string()
+          .optional()
           .describe(
             "The JavaScript code to execute on the ServiceNow instance. " +
             "Use gs.print() or gs.info() to output results — these are the only " +
@@ -50,7 +66,24 @@ export function registerExecuteScriptTool(server: McpServer): void {
             "the server-side Rhino engine with access to all ServiceNow server-side " +
             "APIs: GlideRecord, GlideAggregate, GlideDateTime, GlideUser, " +
             "gs.getUser(), gs.now(), GlideSysAttachment, and more. " +
-            "Scripts execute with the permissions of the authenticated user."
+            "Scripts execute with the permissions of the authenticated user. " +
+            "Pass either script or file_path."
+          ),
+        file_path: z
+          .string()
+          .optional()
+          .describe(
+            "Path to a local .js file to execute instead of an inline script. " +
+            "Params are substituted into it the same way."
+          ),
+        preview: z
+          .boolean()
+          .default(false)
+          .describe(
+            "When true, GlideRecord and GlideRecordSecure writes the script makes " +
+            "directly are intercepted and listed in changes rather than committed. " +
+            "Writes made inside Script Includes or other APIs it calls are not " +
+            "intercepted."
           ),
         scope: z
           .string()
@@ -76,11 +109,17 @@ export function registerExecuteScriptTool(server: McpServer): void {
             "{table} and {field} in the script."
           ),
       },
+      outputSchema: scriptOutputShape,
     },
-    async ({ instance, script, scope, params }) => {
+    async ({ instance, script, file_path, scope, params, preview }) => {
       try {
+        if ((script === undefined) === (file_path === undefined)) {
+          throw new Error("Pass exactly one of script or file_path.");
+        }
+        const source = file_path !== undefined ? await readFile(file_path, "utf8") : script!;
+
         // Apply parameter substitutions if provided
-        let processedScript = script;
+        let processedScript = source;
         if (params && Object.keys(params).length > 0) {
           for (const [key, value] of Object.entries(params)) {
             const placeholder = `{${key}}`;
@@ -88,43 +127,11 @@ export function registerExecuteScriptTool(server: McpServer): void {
           }
         }
 
-        const result = await withConnectionRetry(instance, async (snInstance) => {
-          const executor = new BackgroundScriptExecutor(snInstance, scope);
-          return await executor.executeScript(processedScript, scope, snInstance);
+        const run = await runBackgroundScript(instance, processedScript, scope, {
+          preview,
+          scriptFile: file_path,
         });
-
-        if (!result || !result.scriptResults) {
-          return {
-            content: [
-              {
-                type: "text" as const,
-                text: "Script executed but returned no output. If you expected output, make sure your script uses gs.print() or gs.info().",
-              },
-            ],
-          };
-        }
-
-        // Build structured output
-        const scriptLines = result.scriptResults
-          .filter((line) => line.line && line.line.trim().length > 0)
-          .map((line) => line.line);
-
-        const output = scriptLines.join("\n");
-
-        // Include affected records info if present
-        let fullOutput = output;
-        if (result.affectedRecords) {
-          fullOutput += `\n\n[Affected Records: ${result.affectedRecords}]`;
-        }
-
-        return {
-          content: [
-            {
-              type: "text" as const,
-              text: fullOutput || "(Script produced no output)",
-            },
-          ],
-        };
+        return structuredResult(run.text, run.structured);
       } catch (error) {
         const message =
           error instanceof Error ? error.message : String(error);
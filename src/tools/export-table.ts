@@ -0,0 +1,367 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { existsSync } from "node:fs";
+import { mkdir, writeFile } from "node:fs/promises";
+import { dirname, extname, resolve } from "node:path";
+import { z } from "zod";
+import { withConnectionRetry } from "../common/connection.js";
+import { annotationsFor } from "../common/annotations.js";
+import { progressReporter } from "../common/progress.js";
+import { structuredResult } from "../common/structured.js";
+import {
+  decodeCursor,
+  encodeCursor,
+  fetchTablePage,
+  MAX_PAGE_SIZE,
+  type TableQuery,
+} from "../common/table-pages.js";
+import { buildXlsx } from "../common/xlsx.js";
+
+type ExportFormat = "csv" | "jsonl" | "xlsx";
+type ValueMode = "raw" | "display" | "both";
+
+const DEFAULT_EXPORT_RECORDS = 10000;
+const MAX_EXPORT_RECORDS = 100000;
+
+/** Suffix of the display-value column when `values` is "both". */
+const DISPLAY_SUFFIX = "_display";
+
+const FORMAT_BY_EXTENSION: Record<string, ExportFormat> = {
+  ".csv": "csv",
+  ".jsonl": "jsonl",
+  ".ndjson": "jsonl",
+  ".xlsx": "xlsx",
+};
+
+/**
+ * Flattens a record to one value per column. With `sysparm_display_value=all` every
+ * field arrives as `{ value, display_value }`, which becomes two columns side by side.
+ */
+function flattenRecord(
+  record: Record<string, unknown>,
+  values: ValueMode
+): Record<string, unknown> {
+  if (values !== "both") return record;
+  const flat: Record<string, unknown> = {};
+  for (const [field, value] of Object.entries(record)) {
+    if (value && typeof value === "object" && "value" in value) {
+      const pair = value as { value?: unknown; display_value?: unknown };
+      flat[field] = pair.value;
+      flat[`${field}${DISPLAY_SUFFIX}`] = pair.display_value;
+    } else {
+      flat[field] = value;
+    }
+  }
+  return flat;
+}
+
+/**
+ * Column order: the `fields` the caller asked for, in their order, when given;
+ * otherwise every field in the order it first appears. A field the instance left
+ * out of every record is still a column, so the header matches the request.
+ */
+function exportColumns(
+  fields: string | undefined,
+  values: ValueMode,
+  rows: Record<string, unknown>[]
+): string[] {
+  if (fields) {
+    const named = fields.split(",").map((f) => f.trim()).filter(Boolean);
+    return values === "both"
+      ? named.flatMap((f) => [f, `${f}${DISPLAY_SUFFIX}`])
+      : named;
+  }
+  const seen = new Set<string>();
+  rows.forEach((row) => Object.keys(row).forEach((key) => seen.add(key)));
+  return [...seen];
+}
+
+function cellText(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+/** RFC 4180: quote a field holding a delimiter, quote, line break or edge whitespace. */
+function csvField(value: string): string {
+  return /[",\r\n]|^\s|\s$/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * A cell a spreadsheet would run as a formula — one starting with =, +, -, @, tab or
+ * carriage return — gets a leading apostrophe, so it opens as text. Instance data is
+ * user-entered: a short description of `=HYPERLINK(...)` must not become a live link
+ * in whoever opens the export. A plain number such as -5 is no formula and is left be.
+ */
+function formulaSafe(value: string): string {
+  return /^[=+\-@\t\r]/.test(value) && !/^[+-]?\d+(\.\d+)?$/.test(value) ? `'${value}` : value;
+}
+
+export function toCsv(columns: string[], rows: Record<string, unknown>[], escapeFormulas = true): string {
+  const cell = (value: unknown) => (escapeFormulas ? formulaSafe(cellText(value)) : cellText(value));
+  const lines = [columns, ...rows.map((row) => columns.map((c) => cell(row[c])))];
+  return lines.map((cells) => cells.map(csvField).join(",")).join("\r\n") + "\r\n";
+}
+
+export function toJsonl(columns: string[], rows: Record<string, unknown>[]): string {
+  return rows
+    .map((row) => JSON.stringify(Object.fromEntries(columns.map((c) => [c, row[c] ?? null]))))
+    .map((line) => `${line}\n`)
+    .join("");
+}
+
+/**
+ * Registers the export_table tool on the MCP server.
+ *
+ * Runs a paged Table API query and writes the records to a local file.
+ */
+export function registerExportTableTool(server: McpServer): void {
+  server.registerTool(
+    "export_table",
+    {
+      annotations: annotationsFor("export_table"),
+      title: "Export ServiceNow Table to File",
+      description:
+        "Export records from any ServiceNow table to a local CSV, JSONL or XLSX file. " +
+        "Pages through the Table API, so exports are not limited to 1000 records. " +
+        "Returns the row count and columns; the records themselves go to the file, " +
+        "not into the conversation.\n\n" +
+        "Use this instead of query_table when the data is wanted as a file — for a " +
+        "spreadsheet, an audit, or another tool. Writes to the LOCAL filesystem and " +
+        "does not modify the instance.\n\n" +
+        "In CSV, a cell starting with =, +, -, @, a tab or a carriage return is written " +
+        "with a leading ' so a spreadsheet opens it as text rather than running it as a " +
+        "formula; plain numbers are left as they are. Set escape_formulas to false for the " +
+        "exact values. XLSX cells are always written as text and need no escaping.",
+      inputSchema: {
+        instance: z
+          .string()
+          .optional()
+          .describe(
+            "The ServiceNow instance auth alias (e.g., " +
+              '"myinstance", "prod"). If not provided, falls back ' +
+              "to the SN_AUTH_ALIAS environment variable."
+          ),
+        table: z
+          .string()
+          .describe(
+            'The ServiceNow table name to export (e.g., "incident", "sys_user").'
+          ),
+        file_path: z
+          .string()
+          .describe(
+            "Local file path to write. Parent directories are created. The format " +
+              "is taken from the extension (.csv, .jsonl, .xlsx) unless format is given."
+          ),
+        format: z
+          .enum(["csv", "jsonl", "xlsx"])
+          .optional()
+          .describe("Output format. Defaults to the one named by file_path's extension."),
+        query: z
+          .string()
+          .optional()
+          .describe(
+            'A ServiceNow encoded query string to filter records (e.g., "active=true^priority=1").'
+          ),
+        fields: z
+          .string()
+          .optional()
+          .describe(
+            "Comma-separated list of fields to export, in column order. " +
+              "If omitted, every field is exported."
+          ),
+        values: z
+          .enum(["raw", "display", "both"])
+          .default("raw")
+          .describe(
+            'Which value of each field to export. "raw" gives internal values such ' +
+              'as sys_ids and choice values, "display" the labels a user sees, and ' +
+              `"both" a raw column followed by a <field>${DISPLAY_SUFFIX} column.`
+          ),
+        max_records: z
+          .number()
+          .int()
+          .min(1)
+          .max(MAX_EXPORT_RECORDS)
+          .default(DEFAULT_EXPORT_RECORDS)
+          .describe(
+            `The most records to export. Default ${DEFAULT_EXPORT_RECORDS}, max ${MAX_EXPORT_RECORDS}. ` +
+              "If more match, the result has a nextCursor to export the rest to another file."
+          ),
+        cursor: z
+          .string()
+          .optional()
+          .describe(
+            "The nextCursor from a previous export_table or query_table call, to " +
+              "continue where it stopped. table, query, fields and values must match."
+          ),
+        overwrite: z
+          .boolean()
+          .default(false)
+          .describe("When true, replaces an existing file at file_path. Otherwise an existing file is an error."),
+        escape_formulas: z
+          .boolean()
+          .default(true)
+          .describe(
+            "CSV only. When true (the default), cells a spreadsheet would run as a formula " +
+              "are prefixed with '. Set false to write every value exactly as the instance holds it."
+          ),
+      },
+      outputSchema: {
+        table: z.string(),
+        format: z.string(),
+        filePath: z.string(),
+        rowCount: z.number(),
+        columns: z.array(z.string()),
+        bytes: z.number(),
+        pages: z.number(),
+        complete: z.boolean(),
+        nextCursor: z.string().optional(),
+        truncatedCells: z.number().optional(),
+      },
+    },
+    async (
+      {
+        instance,
+        table,
+        file_path,
+        format,
+        query,
+        fields,
+        values,
+        max_records,
+        cursor,
+        overwrite,
+        escape_formulas,
+      },
+      extra
+    ) => {
+      const fail = (message: string) => ({
+        content: [{ type: "text" as const, text: `Error exporting table: ${message}` }],
+        isError: true,
+      });
+
+      try {
+        const filePath = resolve(file_path);
+        const outputFormat = format ?? FORMAT_BY_EXTENSION[extname(filePath).toLowerCase()];
+        if (!outputFormat) {
+          return fail(
+            `cannot tell the format from "${file_path}". Use a .csv, .jsonl or .xlsx extension, or pass format.`
+          );
+        }
+        // Checked before any request so a mistake costs nothing. The write itself is
+        // exclusive as well, in case the file appears while the pages are fetched.
+        if (!overwrite && existsSync(filePath)) {
+          return fail(`"${filePath}" already exists. Pass overwrite: true to replace it.`);
+        }
+
+        const request: TableQuery = {
+          table,
+          query,
+          fields,
+          displayValue: values === "raw" ? false : values === "display" ? true : "all",
+          excludeReferenceLink: true,
+        };
+
+        let offset = 0;
+        if (cursor) {
+          try {
+            offset = decodeCursor(cursor, request);
+          } catch (error) {
+            return fail((error as Error).message);
+          }
+        }
+        const startOffset = offset;
+        const onProgress = progressReporter(extra);
+
+        const records: Record<string, unknown>[] = [];
+        let pages = 0;
+        let complete = false;
+        while (records.length < max_records) {
+          const requested = Math.min(MAX_PAGE_SIZE, max_records - records.length);
+          const response = await withConnectionRetry(instance, (snInstance) =>
+            fetchTablePage(snInstance, request, offset, requested)
+          );
+          if (response.status !== 200) {
+            // Nothing is written: a file holding the first N pages of an export reads
+            // as the whole export to whoever opens it next.
+            return fail(
+              `HTTP ${response.status} ${response.statusText} reading "${table}" after ` +
+                `${records.length} record(s). No file was written.`
+            );
+          }
+          const page: Record<string, unknown>[] = response.bodyObject?.result ?? [];
+          records.push(...page);
+          offset += page.length;
+          pages += 1;
+          onProgress?.(`Read ${records.length} record(s) from ${table} (page ${pages})`);
+          if (page.length < requested) {
+            complete = true;
+            break;
+          }
+        }
+
+        const rows = records.map((record) => flattenRecord(record, values));
+        const columns = exportColumns(fields, values, rows);
+
+        let data: string | Buffer;
+        let truncatedCells = 0;
+        if (outputFormat === "csv") {
+          data = toCsv(columns, rows, escape_formulas);
+        } else if (outputFormat === "jsonl") {
+          data = toJsonl(columns, rows);
+        } else {
+          const workbook = buildXlsx(
+            table,
+            columns,
+            rows.map((row) => columns.map((c) => cellText(row[c])))
+          );
+          data = workbook.data;
+          truncatedCells = workbook.truncatedCells;
+        }
+
+        await mkdir(dirname(filePath), { recursive: true });
+        await writeFile(filePath, data, { flag: overwrite ? "w" : "wx" });
+        const bytes = typeof data === "string" ? Buffer.byteLength(data) : data.length;
+
+        const nextCursor = complete ? undefined : encodeCursor(request, offset);
+
+        const lines: string[] = [];
+        lines.push("=== Export Result ===");
+        lines.push(`Table: ${table}`);
+        if (query) lines.push(`Query: ${query}`);
+        lines.push(`Format: ${outputFormat}`);
+        lines.push(`Values: ${values}`);
+        lines.push(`File: ${filePath}`);
+        if (startOffset > 0) lines.push(`Starting offset: ${startOffset}`);
+        lines.push(`Rows written: ${records.length}`);
+        lines.push(`Columns (${columns.length}): ${columns.join(", ")}`);
+        lines.push(`Size: ${bytes} bytes`);
+        if (truncatedCells > 0) {
+          lines.push(`WARNING: ${truncatedCells} cell(s) were cut to Excel's 32767-character limit.`);
+        }
+        if (nextCursor) {
+          lines.push("");
+          lines.push(
+            `max_records was reached and more records exist. To export the rest to another file, call again with cursor: ${nextCursor}`
+          );
+        }
+
+        return structuredResult(lines.join("\n"), {
+          table,
+          format: outputFormat,
+          filePath,
+          rowCount: records.length,
+          columns,
+          bytes,
+          pages,
+          complete,
+          nextCursor,
+          ...(truncatedCells > 0 ? { truncatedCells } : {}),
+        });
+      } catch (error) {
+        const message =
+          error instanceof Error ? error.message : String(error);
+        return fail(message);
+      }
+    }
+  );
+}
@@ -6,6 +6,7 @@ import {
   isRetryableResponse,
 } from "../common/connection.js";
 import { annotationsFor } from "../common/annotations.js";
+import { recordSchema, structuredResult } from "../common/structured.js";
 
 interface ATFTestRecord {
   sys_id: string;
@@ -76,6 +77,9 @@ export function registerFindAtfTestsTool(server: McpServer): void {
           .default(25)
           .describe("Maximum number of tests to return. Default is 25."),
       },
+      outputSchema: {
+        tests: z.array(recordSchema),
+      },
     },
     async ({ instance, search_term, category, active, limit }) => {
       try {
@@ -172,14 +176,7 @@ export function registerFindAtfTestsTool(server: McpServer): void {
           );
         }
 
-        return {
-          content: [
-            {
-              type: "text" as const,
-              text: lines.join("\n"),
-            },
-          ],
-        };
+        return structuredResult(lines.join("\n"), { tests });
       } catch (error) {
         const message =
           error instanceof Error ? error.message : String(error);
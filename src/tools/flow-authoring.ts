@@ -0,0 +1,288 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { progressReporter } from "../common/progress.js";
+import { annotationsFor } from "../common/annotations.js";
+import { structuredResult } from "../common/structured.js";
+import { describeChanges, dryRunParam, previewOutputShape } from "../common/dry-run.js";
+import {
+  createFlow,
+  previewFlowUpdate,
+  updateFlow,
+  type FlowBuildResult,
+  type FlowStep,
+} from "../common/flow-definition.js";
+
+const INSTANCE_DESC =
+  "The ServiceNow instance auth alias to use. " +
+  'This is the alias configured via `now-sdk auth --add` (e.g., "myinstance", "prod", "test"). ' +
+  "The flow is written in this session's current application and captured in its current " +
+  "update set — set them first with set_current_scope and set_current_update_set. " +
+  "If not provided, falls back to the SN_AUTH_ALIAS environment variable.";
+
+const stepSchema: z.ZodType<FlowStep> = z.lazy(() =>
+  z.object({
+    id: z
+      .string()
+      .describe(
+        "Unique step id (letters, digits, underscores). Later steps use it in data pills: {{<id>.<output>}}."
+      ),
+    action: z
+      .string()
+      .optional()
+      .describe(
+        'Action to run: internal name, scoped name (e.g., "global.look_up_record") or sys_id.'
+      ),
+    subflow: z
+      .string()
+      .optional()
+      .describe("Subflow to call: internal name, scoped name or sys_id."),
+    inputs: z
+      .record(z.unknown())
+      .optional()
+      .describe(
+        "Input values by input name. Values may hold data pills such as {{trigger.current.sys_id}}."
+      ),
+    if: z
+      .string()
+      .optional()
+      .describe(
+        "Makes this step a condition: an encoded condition, which may hold data pills."
+      ),
+    then: z.array(stepSchema).optional().describe("Steps run when the condition holds."),
+    else: z.array(stepSchema).optional().describe("Steps run when it does not."),
+  })
+);
+
+const variableSchema = z.object({
+  name: z.string(),
+  label: z.string().optional(),
+  type: z
+    .string()
+    .optional()
+    .describe('Flow Designer type, e.g. "string", "integer", "boolean", "reference". Default "string".'),
+  mandatory: z.boolean().optional(),
+  reference: z.string().optional().describe("Table a reference variable points at."),
+});
+
+const definitionSchema = z
+  .object({
+    name: z.string().describe("Display name of the flow or subflow."),
+    type: z.enum(["flow", "subflow"]).default("flow"),
+    description: z.string().optional(),
+    run_as: z
+      .enum(["system", "user"])
+      .optional()
+      .describe('Run as the system or as the user who triggers it. Default "system".'),
+    trigger: z
+      .object({
+        type: z
+          .string()
+          .describe(
+            'Trigger type from sys_hub_trigger_definition, e.g. "record_create", "record_update", "daily".'
+          ),
+        inputs: z
+          .record(z.unknown())
+          .optional()
+          .describe('Trigger inputs by name, e.g. { "table": "incident", "condition": "priority=1" }.'),
+      })
+      .optional()
+      .describe("Flows only: what starts the flow."),
+    inputs: z.array(variableSchema).optional().describe("Subflows only: declared inputs, used as {{inputs.<name>}}."),
+    outputs: z.array(variableSchema).optional().describe("Subflows only: declared outputs."),
+    steps: z.array(stepSchema).describe("The steps, in order."),
+  })
+  .describe(
+    "Declarative flow definition: a trigger (flows) or inputs and outputs (subflows), then steps. " +
+      "Each step is exactly one of action, subflow, or if (with then and else)."
+  );
+
+const buildOutputSchema = {
+  flowSysId: z.string(),
+  name: z.string(),
+  internalName: z.string(),
+  type: z.enum(["flow", "subflow"]),
+  recordCount: z.number(),
+  steps: z.array(
+    z.object({
+      id: z.string(),
+      kind: z.enum(["action", "subflow", "if", "else"]),
+      table: z.string(),
+      sys_id: z.string(),
+    })
+  ),
+  removedCount: z.number().optional(),
+  application: z.object({ sys_id: z.string(), name: z.string(), scope: z.string() }).optional(),
+  updateSet: z.object({ sys_id: z.string(), name: z.string() }).optional(),
+};
+
+function formatBuildResult(heading: string, result: FlowBuildResult): string {
+  const lines: string[] = [];
+  lines.push(`=== ${heading} ===`);
+  lines.push(`Name: ${result.name} (${result.internalName})`);
+  lines.push(`Type: ${result.type}`);
+  lines.push(`sys_id: ${result.flowSysId}`);
+  if (result.application) {
+    lines.push(`Application: ${result.application.name} (${result.application.scope})`);
+  }
+  if (result.updateSet) {
+    lines.push(`Update set: ${result.updateSet.name} (${result.updateSet.sys_id})`);
+  }
+  if (result.removedCount !== undefined) {
+    lines.push(`Previous definition records removed: ${result.removedCount}`);
+  }
+  lines.push(`Records written: ${result.recordCount}`);
+
+  if (result.steps.length > 0) {
+    lines.push("");
+    lines.push("Steps:");
+    for (const step of result.steps) {
+      lines.push(`  ${step.id.padEnd(24)} ${step.kind.padEnd(8)} ${step.table}/${step.sys_id}`);
+    }
+  }
+
+  lines.push("");
+  lines.push(
+    `The ${result.type} is an inactive draft. Open it in Flow Designer to check it, ` +
+      "then activate or publish it there."
+  );
+  return lines.join("\n");
+}
+
+// ============================================================
+// 1. create_flow
+// ============================================================
+
+/**
+ * Registers the create_flow MCP tool.
+ *
+ * Builds a new flow or subflow from a declarative definition. Every problem in the
+ * definition is reported, by step, before anything is written.
+ *
+ * @param server - The McpServer instance to register the tool on
+ */
+export function registerCreateFlowTool(server: McpServer): void {
+  server.registerTool(
+    "create_flow",
+    {
+      annotations: annotationsFor("create_flow"),
+      title: "Create Flow (Flow Designer)",
+      description:
+        "Create a Flow Designer flow or subflow from a declarative JSON definition: a trigger " +
+        "(flows) or declared inputs and outputs (subflows), then steps — actions, subflow calls " +
+        "and if/else conditions — whose inputs may hold data pills:\n" +
+        "  {{trigger.current.number}}   a trigger output (flows)\n" +
+        "  {{inputs.user}}              a declared input (subflows)\n" +
+        "  {{lookup_user.Record}}       an output of an earlier step, by step id\n\n" +
+        "The definition is checked against the instance first: actions, subflows and trigger " +
+        "types must exist, inputs must be ones they declare, mandatory inputs must be given, and " +
+        "pills must name a step that has always run by then. All problems are returned at once, " +
+        "each with its path (e.g. steps[1].then[0].inputs.table) and step id, and nothing is written.\n\n" +
+        "The flow is written in the session's current application and update set as an " +
+        "inactive draft, to be reviewed and published in Flow Designer. " +
+        "Use update_flow to change it afterwards.",
+      inputSchema: {
+        instance: z.string().optional().describe(INSTANCE_DESC),
+        definition: definitionSchema,
+      },
+      outputSchema: buildOutputSchema,
+    },
+    async ({ instance, definition }, extra) => {
+      try {
+        const onProgress = progressReporter(extra);
+        const result = await createFlow(instance, definition, onProgress);
+        return structuredResult(formatBuildResult("Flow Created", result), result);
+      } catch (error) {
+        const message =
+          error instanceof Error ? error.message : String(error);
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Error creating flow: ${message}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+}
+
+// ============================================================
+// 2. update_flow
+// ============================================================
+
+/**
+ * Registers the update_flow MCP tool.
+ *
+ * Replaces the whole definition of an inactive flow or subflow — the same
+ * declarative definition create_flow takes, checked the same way.
+ *
+ * @param server - The McpServer instance to register the tool on
+ */
+export function registerUpdateFlowTool(server: McpServer): void {
+  server.registerTool(
+    "update_flow",
+    {
+      annotations: annotationsFor("update_flow"),
+      title: "Update Flow (Flow Designer)",
+      description:
+        "Replace the definition of an existing flow or subflow with a declarative JSON " +
+        "definition, in the same form create_flow takes. Its name, description and run-as are " +
+        "updated, and its trigger, steps and declared variables are removed and written again " +
+        "from the definition — anything not in the definition is gone.\n\n" +
+        "The definition is checked first, exactly as for create_flow, and nothing changes if it " +
+        "has problems. The flow must be inactive (deactivate it in Flow Designer first), and a " +
+        "flow cannot become a subflow or the other way round.\n\n" +
+        "The new records are written before the old ones are deleted, so a failure part-way " +
+        "leaves the previous definition in place; running update_flow again cleans up. " +
+        "Use dry_run to see every record that would be written and deleted.",
+      inputSchema: {
+        instance: z.string().optional().describe(INSTANCE_DESC),
+        flow_id: z
+          .string()
+          .describe(
+            'Flow or subflow to replace: sys_id, scoped name (e.g., "x_acme_hr.onboard_user") or internal name.'
+          ),
+        definition: definitionSchema,
+        dry_run: dryRunParam,
+      },
+      outputSchema: {
+        ...buildOutputSchema,
+        recordCount: buildOutputSchema.recordCount.optional(),
+        steps: buildOutputSchema.steps.optional(),
+        ...previewOutputShape,
+      },
+    },
+    async ({ instance, flow_id, definition, dry_run }, extra) => {
+      try {
+        if (dry_run) {
+          const preview = await previewFlowUpdate(instance, flow_id, definition);
+          const count = (action: string) => preview.changes.filter((c) => c.action === action).length;
+          const lines = describeChanges(preview.changes);
+          lines.push("");
+          lines.push(
+            `${preview.name} (${preview.flowSysId}): ${count("create")} record(s) would be written, ` +
+              `then ${count("delete")} of the previous definition deleted.`
+          );
+          return structuredResult(lines.join("\n"), { ...preview, dryRun: true });
+        }
+        const onProgress = progressReporter(extra);
+        const result = await updateFlow(instance, flow_id, definition, onProgress);
+        return structuredResult(formatBuildResult("Flow Updated", result), result);
+      } catch (error) {
+        const message =
+          error instanceof Error ? error.message : String(error);
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Error updating flow: ${message}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+}
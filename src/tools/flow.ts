@@ -9,6 +9,28 @@ import {
 } from "@sonisoft/now-sdk-ext-core";
 import { withConnectionRetry } from "../common/connection.js";
 import { annotationsFor } from "../common/annotations.js";
+import { recordSchema, structuredResult } from "../common/structured.js";
+import { progressReporter } from "../common/progress.js";
+import { awaitFlowContext, type FlowContextWait } from "../common/flow-context.js";
+import {
+  FLOW_STATES,
+  MAX_SUMMARIZED_FAILURES,
+  searchFlowExecutions,
+  summarizeFlowFailures,
+  type FailureSummary,
+  type FlowExecutionSearch,
+} from "../common/flow-executions.js";
+import {
+  checkExecutionInputs,
+  describeFlow,
+  type FlowSignature,
+} from "../common/flow-signature.js";
+import {
+  flowDependencies,
+  MAX_DEPENDENCY_DEPTH,
+  type DependencyNode,
+  type FlowDependencies,
+} from "../common/flow-dependencies.js";
 
 /**
  * Instance parameter description shared across flow tools.
@@ -36,7 +58,14 @@ const executionInputSchema = {
     .optional()
     .describe(
       "Input name-value pairs to pass to the flow/subflow/action. " +
-        "Keys are the input variable names defined in Flow Designer."
+        "Keys are the input variable names defined in Flow Designer — describe_flow lists them."
+    ),
+  validate_inputs: z
+    .boolean()
+    .optional()
+    .describe(
+      "Check the inputs against the declared ones before running: missing mandatory inputs " +
+        "and values of the wrong type are refused, and nothing runs. Default true."
     ),
   mode: z
     .enum(["foreground", "background"])
@@ -44,8 +73,8 @@ const executionInputSchema = {
     .describe(
       'Execution mode. "foreground" (default) runs synchronously and returns outputs ' +
         "when complete. " +
-        '"background" returns immediately with a context ID — use get_flow_context_status ' +
-        "to poll, then get_flow_outputs or get_flow_error to retrieve results. " +
+        '"background" returns immediately with a context ID — use await_flow_context ' +
+        "to wait for it to finish and get its outputs or error in one call. " +
         "Use background for flows with approval/wait steps."
     ),
   timeout: z
@@ -71,6 +100,20 @@ const executionInputSchema = {
     ),
 };
 
+/**
+ * Structured output shared by the three execute tools — a FlowExecutionResult.
+ */
+const executionOutputSchema = {
+  success: z.boolean(),
+  flowObjectName: z.string(),
+  flowObjectType: z.string(),
+  contextId: z.string().nullish(),
+  executionDate: z.string().nullish(),
+  outputs: recordSchema.nullish(),
+  debugOutput: z.string().nullish(),
+  errorMessage: z.string().nullish(),
+};
+
 /**
  * Format a FlowExecutionResult into human-readable text output.
  */
@@ -128,7 +171,7 @@ export function registerExecuteFlowTool(server: McpServer): void {
         "Runs the flow using sn_fd.FlowAPI via a background script.\n\n" +
         "In foreground mode (default), the call blocks until the flow completes and " +
         "returns outputs directly. In background mode, it returns immediately with a " +
-        "context ID that you can poll with get_flow_context_status.\n\n" +
+        "context ID to pass to await_flow_context, which waits for the flow to finish.\n\n" +
         "IMPORTANT: Flows with approval or wait steps MUST use background mode — " +
         "foreground mode will fail if the flow enters a waiting state.\n\n" +
         "NOTE: This tool requires the flow to be published. If you are iterating and " +
@@ -136,12 +179,16 @@ export function registerExecuteFlowTool(server: McpServer): void {
         "tests the flow in its current draft state, exactly as the 'Test' button in " +
         "Flow Designer does.",
       inputSchema: executionInputSchema,
+      outputSchema: executionOutputSchema,
     },
-    async ({ instance, scoped_name, inputs, mode, timeout, quick, scope }) => {
+    async ({ instance, scoped_name, inputs, validate_inputs, mode, timeout, quick, scope }) => {
       try {
         const result = await withConnectionRetry(
           instance,
           async (snInstance) => {
+            if (validate_inputs !== false) {
+              await checkExecutionInputs(snInstance, "flow", scoped_name, inputs);
+            }
             const mgr = new FlowManager(snInstance, scope);
             return await mgr.executeFlow({
               scopedName: scoped_name,
@@ -154,11 +201,7 @@ export function registerExecuteFlowTool(server: McpServer): void {
           }
         );
 
-        return {
-          content: [
-            { type: "text" as const, text: formatExecutionResult(result) },
-          ],
-        };
+        return structuredResult(formatExecutionResult(result), result);
       } catch (error) {
         const message =
           error instanceof Error ? error.message : String(error);
@@ -189,15 +232,19 @@ export function registerExecuteSubflowTool(server: McpServer): void {
         "primary tool for testing subflows during development.\n\n" +
         "In foreground mode (default), the call blocks until the subflow completes " +
         "and returns outputs directly. In background mode, it returns a context ID " +
-        "for polling with get_flow_context_status.\n\n" +
+        "to pass to await_flow_context.\n\n" +
         "Pass inputs as key-value pairs matching the subflow's input variables.",
       inputSchema: executionInputSchema,
+      outputSchema: executionOutputSchema,
     },
-    async ({ instance, scoped_name, inputs, mode, timeout, quick, scope }) => {
+    async ({ instance, scoped_name, inputs, validate_inputs, mode, timeout, quick, scope }) => {
       try {
         const result = await withConnectionRetry(
           instance,
           async (snInstance) => {
+            if (validate_inputs !== false) {
+              await checkExecutionInputs(snInstance, "subflow", scoped_name, inputs);
+            }
             const mgr = new FlowManager(snInstance, scope);
             return await mgr.executeSubflow({
               scopedName: scoped_name,
@@ -210,11 +257,7 @@ export function registerExecuteSubflowTool(server: McpServer): void {
           }
         );
 
-        return {
-          content: [
-            { type: "text" as const, text: formatExecutionResult(result) },
-          ],
-        };
+        return structuredResult(formatExecutionResult(result), result);
       } catch (error) {
         const message =
           error instanceof Error ? error.message : String(error);
@@ -250,12 +293,16 @@ export function registerExecuteActionTool(server: McpServer): void {
         "and returns outputs directly. Actions typically complete quickly and " +
         "foreground mode is usually appropriate.",
       inputSchema: executionInputSchema,
+      outputSchema: executionOutputSchema,
     },
-    async ({ instance, scoped_name, inputs, mode, timeout, quick, scope }) => {
+    async ({ instance, scoped_name, inputs, validate_inputs, mode, timeout, quick, scope }) => {
       try {
         const result = await withConnectionRetry(
           instance,
           async (snInstance) => {
+            if (validate_inputs !== false) {
+              await checkExecutionInputs(snInstance, "action", scoped_name, inputs);
+            }
             const mgr = new FlowManager(snInstance, scope);
             return await mgr.executeAction({
               scopedName: scoped_name,
@@ -268,11 +315,7 @@ export function registerExecuteActionTool(server: McpServer): void {
           }
         );
 
-        return {
-          content: [
-            { type: "text" as const, text: formatExecutionResult(result) },
-          ],
-        };
+        return structuredResult(formatExecutionResult(result), result);
       } catch (error) {
         const message =
           error instanceof Error ? error.message : String(error);
@@ -306,7 +349,8 @@ export function registerGetFlowContextStatusTool(server: McpServer): void {
         "execute_subflow, or execute_action in background mode.\n\n" +
         "Possible states: QUEUED, IN_PROGRESS, WAITING, COMPLETE, CANCELLED, ERROR.\n\n" +
         "Typical pattern: execute in background -> poll this tool every few seconds -> " +
-        "once COMPLETE, call get_flow_outputs. If ERROR, call get_flow_error.",
+        "once COMPLETE, call get_flow_outputs. If ERROR, call get_flow_error. " +
+        "To wait for the flow to finish, use await_flow_context instead, which does all of that in one call.",
       inputSchema: {
         instance: z.string().optional().describe(INSTANCE_DESC),
         context_id: z
@@ -316,6 +360,16 @@ export function registerGetFlowContextStatusTool(server: McpServer): void {
               "execute_subflow, or execute_action call (the contextId field)."
           ),
       },
+      outputSchema: {
+        success: z.boolean().optional(),
+        contextId: z.string(),
+        found: z.boolean(),
+        state: z.string().nullish(),
+        name: z.string().nullish(),
+        started: z.string().nullish(),
+        ended: z.string().nullish(),
+        errorMessage: z.string().nullish(),
+      },
     },
     async ({ instance, context_id }) => {
       try {
@@ -342,9 +396,7 @@ export function registerGetFlowContextStatusTool(server: McpServer): void {
           lines.push(`Error: ${result.errorMessage}`);
         }
 
-        return {
-          content: [{ type: "text" as const, text: lines.join("\n") }],
-        };
+        return structuredResult(lines.join("\n"), result);
       } catch (error) {
         const message =
           error instanceof Error ? error.message : String(error);
@@ -384,6 +436,12 @@ export function registerGetFlowOutputsTool(server: McpServer): void {
             "The flow context sys_id from the execution result's contextId field."
           ),
       },
+      outputSchema: {
+        success: z.boolean(),
+        contextId: z.string(),
+        outputs: recordSchema.nullish(),
+        errorMessage: z.string().nullish(),
+      },
     },
     async ({ instance, context_id }) => {
       try {
@@ -411,9 +469,7 @@ export function registerGetFlowOutputsTool(server: McpServer): void {
           lines.push(`\nError: ${result.errorMessage}`);
         }
 
-        return {
-          content: [{ type: "text" as const, text: lines.join("\n") }],
-        };
+        return structuredResult(lines.join("\n"), result);
       } catch (error) {
         const message =
           error instanceof Error ? error.message : String(error);
@@ -455,6 +511,12 @@ export function registerGetFlowErrorTool(server: McpServer): void {
             "The flow context sys_id from the execution result's contextId field."
           ),
       },
+      outputSchema: {
+        success: z.boolean(),
+        contextId: z.string(),
+        flowErrorMessage: z.string().nullish(),
+        errorMessage: z.string().nullish(),
+      },
     },
     async ({ instance, context_id }) => {
       try {
@@ -480,9 +542,7 @@ export function registerGetFlowErrorTool(server: McpServer): void {
           lines.push(`\nExecution Error: ${result.errorMessage}`);
         }
 
-        return {
-          content: [{ type: "text" as const, text: lines.join("\n") }],
-        };
+        return structuredResult(lines.join("\n"), result);
       } catch (error) {
         const message =
           error instanceof Error ? error.message : String(error);
@@ -568,6 +628,11 @@ export function registerCancelFlowTool(server: McpServer): void {
             'Reason for cancellation. Default: "Cancelled via FlowManager".'
           ),
       },
+      outputSchema: {
+        success: z.boolean(),
+        contextId: z.string(),
+        errorMessage: z.string().nullish(),
+      },
     },
     async ({ instance, context_id, reason }) => {
       try {
@@ -587,9 +652,7 @@ export function registerCancelFlowTool(server: McpServer): void {
           lines.push(`Error: ${result.errorMessage}`);
         }
 
-        return {
-          content: [{ type: "text" as const, text: lines.join("\n") }],
-        };
+        return structuredResult(lines.join("\n"), result);
       } catch (error) {
         const message =
           error instanceof Error ? error.message : String(error);
@@ -675,6 +738,12 @@ export function registerTestFlowTool(server: McpServer): void {
             "Whether to run the test synchronously on the current thread. Default: true."
           ),
       },
+      outputSchema: {
+        success: z.boolean(),
+        contextId: z.string().nullish(),
+        errorMessage: z.string().nullish(),
+        errorCode: z.number().nullish(),
+      },
     },
     async ({ instance, flow_id, output_map, scope, run_on_thread }) => {
       const runOnThread = run_on_thread ?? true;
@@ -695,9 +764,7 @@ export function registerTestFlowTool(server: McpServer): void {
           }
         );
 
-        return {
-          content: [{ type: "text" as const, text: formatTestResult(result, runOnThread) }],
-        };
+        return structuredResult(formatTestResult(result, runOnThread), result);
       } catch (error) {
         const message =
           error instanceof Error ? error.message : String(error);
@@ -819,6 +886,12 @@ export function registerCopyFlowTool(server: McpServer): void {
               "Use list_scoped_apps to find the sys_id for your application scope."
           ),
       },
+      outputSchema: {
+        success: z.boolean(),
+        newFlowSysId: z.string().nullish(),
+        errorMessage: z.string().nullish(),
+        errorCode: z.number().nullish(),
+      },
     },
     async ({ instance, source_flow_id, name, target_scope }) => {
       try {
@@ -837,9 +910,7 @@ export function registerCopyFlowTool(server: McpServer): void {
           }
         );
 
-        return {
-          content: [{ type: "text" as const, text: formatCopyResult(result) }],
-        };
+        return structuredResult(formatCopyResult(result), result);
       } catch (error) {
         const message =
           error instanceof Error ? error.message : String(error);
@@ -1068,6 +1139,15 @@ export function registerGetFlowExecutionDetailsTool(server: McpServer): void {
               "Default: false. Enable only when you need to inspect the raw flow structure."
           ),
       },
+      outputSchema: {
+        success: z.boolean().optional(),
+        contextId: z.string(),
+        flowContext: recordSchema.nullish(),
+        flowReport: recordSchema.nullish(),
+        flowReportAvailabilityDetails: recordSchema.nullish(),
+        flowDefinition: recordSchema.nullish(),
+        errorMessage: z.string().nullish(),
+      },
     },
     async ({ instance, context_id, scope, include_flow_definition }) => {
       try {
@@ -1086,14 +1166,7 @@ export function registerGetFlowExecutionDetailsTool(server: McpServer): void {
           }
         );
 
-        return {
-          content: [
-            {
-              type: "text" as const,
-              text: formatFlowExecutionDetails(result),
-            },
-          ],
-        };
+        return structuredResult(formatFlowExecutionDetails(result), result);
       } catch (error) {
         const message =
           error instanceof Error ? error.message : String(error);
@@ -1159,6 +1232,12 @@ export function registerGetFlowLogsTool(server: McpServer): void {
             'Order direction: "asc" (default, oldest first) or "desc" (newest first).'
           ),
       },
+      outputSchema: {
+        success: z.boolean().optional(),
+        contextId: z.string(),
+        entries: z.array(recordSchema),
+        errorMessage: z.string().nullish(),
+      },
     },
     async ({ instance, context_id, limit, order_direction }) => {
       try {
@@ -1175,11 +1254,137 @@ export function registerGetFlowLogsTool(server: McpServer): void {
           }
         );
 
+        return structuredResult(formatFlowLogs(result), result);
+      } catch (error) {
+        const message =
+          error instanceof Error ? error.message : String(error);
         return {
           content: [
-            { type: "text" as const, text: formatFlowLogs(result) },
+            {
+              type: "text" as const,
+              text: `Error getting flow logs: ${message}`,
+            },
           ],
+          isError: true,
         };
+      }
+    }
+  );
+}
+
+// ============================================================
+// 12. await_flow_context
+// ============================================================
+
+function formatFlowContextWait(result: FlowContextWait, timeoutSeconds: number): string {
+  const lines: string[] = [];
+  lines.push("=== Flow Context ===");
+  lines.push(`Context ID: ${result.contextId}`);
+  if (result.name) lines.push(`Name: ${result.name}`);
+  lines.push(`State: ${result.state}`);
+  lines.push(`Waited: ${(result.elapsedMs / 1000).toFixed(1)}s`);
+  if (result.waitingOn) {
+    lines.push(`Waiting for approval from: ${result.waitingOn.join(", ")}`);
+  }
+
+  lines.push("");
+  lines.push("State changes:");
+  for (const transition of result.transitions) {
+    lines.push(
+      `  ${transition.seenAt}  ${transition.state}${transition.detail ? ` (${transition.detail})` : ""}`
+    );
+  }
+
+  if (!result.finished) {
+    lines.push("");
+    lines.push(
+      `Still ${result.state} after ${timeoutSeconds}s. The flow carries on; ` +
+        "call await_flow_context again to keep waiting."
+    );
+  }
+  if (result.outputs) {
+    lines.push("");
+    if (Object.keys(result.outputs).length > 0) {
+      lines.push("Outputs:");
+      lines.push(JSON.stringify(result.outputs, null, 2));
+    } else {
+      lines.push("No outputs returned.");
+    }
+  }
+  if (result.flowErrorMessage) {
+    lines.push("");
+    lines.push(`Flow Error Message:\n${result.flowErrorMessage}`);
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Registers the await_flow_context MCP tool.
+ *
+ * Waits for a background execution to finish, polling with backoff and reporting
+ * each change of state as a progress notification, then returns its outputs or
+ * error — the poll-then-fetch loop of get_flow_context_status, get_flow_outputs
+ * and get_flow_error in one call.
+ *
+ * @param server - The McpServer instance to register the tool on
+ */
+export function registerAwaitFlowContextTool(server: McpServer): void {
+  server.registerTool(
+    "await_flow_context",
+    {
+      annotations: annotationsFor("await_flow_context"),
+      title: "Await Flow Context",
+      description:
+        "Wait for a flow, subflow or action execution started in background mode to finish, " +
+        "and return its outputs (COMPLETE) or error (ERROR, CANCELLED) in one result.\n\n" +
+        "Polls the context with backoff — every second at first, then less often, up to every " +
+        "15 seconds — and sends a progress notification on every change of state, including " +
+        "WAITING with the approvers a flow is waiting on.\n\n" +
+        "Reaching the timeout is not an error: the flow carries on, and the result says which " +
+        "state it was still in. Call this again with the same context_id to keep waiting.",
+      inputSchema: {
+        instance: z.string().optional().describe(INSTANCE_DESC),
+        context_id: z
+          .string()
+          .describe(
+            "The flow context sys_id returned from an execute_flow, " +
+              "execute_subflow, execute_action or test_flow call."
+          ),
+        timeout_seconds: z
+          .number()
+          .int()
+          .min(1)
+          .max(3600)
+          .default(300)
+          .describe("How long to wait before returning the state reached so far. Default 300."),
+      },
+      outputSchema: {
+        contextId: z.string(),
+        name: z.string().optional(),
+        state: z.string(),
+        finished: z.boolean(),
+        elapsedMs: z.number(),
+        transitions: z.array(
+          z.object({
+            state: z.string(),
+            seenAt: z.string(),
+            detail: z.string().optional(),
+          })
+        ),
+        waitingOn: z.array(z.string()).optional(),
+        outputs: recordSchema.optional(),
+        flowErrorMessage: z.string().optional(),
+      },
+    },
+    async ({ instance, context_id, timeout_seconds }, extra) => {
+      try {
+        const result = await awaitFlowContext(instance, context_id, {
+          timeoutMs: timeout_seconds * 1000,
+          onProgress: progressReporter(extra),
+        });
+
+        return structuredResult(formatFlowContextWait(result, timeout_seconds), result);
       } catch (error) {
         const message =
           error instanceof Error ? error.message : String(error);
@@ -1187,7 +1392,459 @@ export function registerGetFlowLogsTool(server: McpServer): void {
           content: [
             {
               type: "text" as const,
-              text: `Error getting flow logs: ${message}`,
+              text: `Error awaiting flow context: ${message}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+}
+
+// ============================================================
+// 13. search_flow_executions
+// ============================================================
+
+function formatFlowExecutions(result: FlowExecutionSearch): string {
+  const lines: string[] = [];
+  lines.push("=== Flow Executions ===");
+  if (result.query) lines.push(`Query: ${result.query}`);
+  lines.push(
+    `Found: ${result.executions.length}${result.truncated ? " (more match; narrow the search or raise the limit)" : ""}`
+  );
+
+  for (const execution of result.executions) {
+    lines.push("");
+    lines.push(`[${execution.started}] ${execution.state.padEnd(11)} ${execution.name}`);
+    lines.push(`  Context ID: ${execution.sys_id}`);
+    if (execution.sourceTable) {
+      lines.push(`  Source: ${execution.sourceTable}/${execution.sourceRecord ?? ""}`);
+    }
+    if (execution.failure) {
+      lines.push(`  Failed in: ${execution.failure.step}`);
+      lines.push(`  Error: ${execution.failure.message}`);
+    }
+  }
+
+  return lines.join("\n");
+}
+
+function formatFailureSummary(result: FailureSummary): string {
+  const lines: string[] = [];
+  lines.push("=== Flow Failures ===");
+  if (result.query) lines.push(`Query: ${result.query}`);
+  const [top] = result.bySteps;
+  lines.push(
+    `${result.failureCount} failures` +
+      (top ? `, ${top.count} in step "${top.step}"` : "") +
+      (result.truncated ? ` (the newest ${MAX_SUMMARIZED_FAILURES} failed executions only)` : "")
+  );
+  if (result.failureCount === 0) return lines.join("\n");
+
+  lines.push("");
+  lines.push("By step:");
+  for (const { step, count } of result.bySteps) {
+    lines.push(`  ${String(count).padStart(5)}  ${step}`);
+  }
+
+  lines.push("");
+  lines.push("By error:");
+  for (const group of result.groups) {
+    lines.push(`  ${String(group.count).padStart(5)}  ${group.step}: ${group.message}`);
+    lines.push(`         e.g. ${group.example} (context ${group.exampleContextId})`);
+    lines.push(`         ${group.firstSeen} .. ${group.lastSeen}`);
+    const flows = Object.entries(group.flows);
+    if (flows.length > 1) {
+      lines.push(`         flows: ${flows.map(([name, count]) => `${name} (${count})`).join(", ")}`);
+    }
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Registers the search_flow_executions MCP tool.
+ *
+ * Searches sys_flow_context by flow name, state, start time and logged error, and
+ * either lists the executions found, each failed one with the step it failed in, or
+ * sums up the failures by failing step and error message.
+ *
+ * @param server - The McpServer instance to register the tool on
+ */
+export function registerSearchFlowExecutionsTool(server: McpServer): void {
+  server.registerTool(
+    "search_flow_executions",
+    {
+      annotations: annotationsFor("search_flow_executions"),
+      title: "Search Flow Executions",
+      description:
+        "Search flow execution history (sys_flow_context) by flow name, state, start time " +
+        "and error text.\n\n" +
+        'view "executions" (default) lists the newest matching executions, newest first; ' +
+        "each failed one comes with the step it failed in and the error it logged.\n\n" +
+        'view "failures" sums up the failed (ERROR) executions matching the search instead: ' +
+        "how many failed, how many in each step, and groups of the same error in the same " +
+        'step — "82 failures, 80 in step Lookup user". Messages that differ only in sys_ids ' +
+        "and numbers are grouped together.\n\n" +
+        "Use get_flow_execution_details or get_flow_logs on a context ID for the full story " +
+        "of one execution.",
+      inputSchema: {
+        instance: z.string().optional().describe(INSTANCE_DESC),
+        flow_name: z.string().optional().describe("Part of the flow, subflow or action name."),
+        states: z
+          .array(z.enum(FLOW_STATES))
+          .optional()
+          .describe('Only executions in these states. Ignored by view "failures", which reads ERROR only.'),
+        since_hours: z
+          .number()
+          .positive()
+          .max(8760)
+          .optional()
+          .describe("Only executions started within this many hours, e.g. 24 for the last day."),
+        since: z
+          .string()
+          .optional()
+          .describe("Only executions started at or after this date-time, as YYYY-MM-DD HH:MM:SS."),
+        until: z
+          .string()
+          .optional()
+          .describe("Only executions started before this date-time, as YYYY-MM-DD HH:MM:SS."),
+        error_text: z
+          .string()
+          .optional()
+          .describe("Only executions that logged an error containing this text."),
+        view: z
+          .enum(["executions", "failures"])
+          .default("executions")
+          .describe('"executions" to list them (default), "failures" to group failures by step and error.'),
+        limit: z
+          .number()
+          .int()
+          .min(1)
+          .max(500)
+          .default(50)
+          .describe('Most executions to list. Default 50. Not used by view "failures".'),
+      },
+      outputSchema: {
+        query: z.string(),
+        truncated: z.boolean(),
+        executions: z
+          .array(
+            z.object({
+              sys_id: z.string(),
+              name: z.string(),
+              state: z.string(),
+              started: z.string(),
+              updated: z.string(),
+              sourceTable: z.string().optional(),
+              sourceRecord: z.string().optional(),
+              failure: z.object({ step: z.string(), message: z.string() }).optional(),
+            })
+          )
+          .optional(),
+        failureCount: z.number().optional(),
+        bySteps: z.array(z.object({ step: z.string(), count: z.number() })).optional(),
+        groups: z
+          .array(
+            z.object({
+              step: z.string(),
+              message: z.string(),
+              count: z.number(),
+              example: z.string(),
+              exampleContextId: z.string(),
+              firstSeen: z.string(),
+              lastSeen: z.string(),
+              flows: z.record(z.number()),
+            })
+          )
+          .optional(),
+      },
+    },
+    async ({ instance, flow_name, states, since_hours, since, until, error_text, view, limit }, extra) => {
+      try {
+        const filter = {
+          flowName: flow_name,
+          states,
+          sinceHours: since_hours,
+          since,
+          until,
+          errorText: error_text,
+        };
+        if (view === "failures") {
+          const summary = await summarizeFlowFailures(instance, filter, progressReporter(extra));
+          return structuredResult(formatFailureSummary(summary), summary);
+        }
+        const result = await searchFlowExecutions(instance, filter, limit);
+        return structuredResult(formatFlowExecutions(result), result);
+      } catch (error) {
+        const message =
+          error instanceof Error ? error.message : String(error);
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Error searching flow executions: ${message}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+}
+
+// ============================================================
+// 14. describe_flow
+// ============================================================
+
+function formatFlowSignature(result: FlowSignature): string {
+  const { component } = result;
+  const lines: string[] = [];
+  lines.push("=== Flow Signature ===");
+  lines.push(`Type: ${component.kind}`);
+  lines.push(`Name: ${component.name}`);
+  lines.push(`Scoped name: ${component.scope}.${component.internalName}`);
+  lines.push(`Sys ID: ${component.sys_id}`);
+  lines.push(`Active: ${component.active}`);
+
+  for (const [heading, variables] of [
+    ["Inputs", result.inputs],
+    ["Outputs", result.outputs],
+  ] as const) {
+    lines.push("");
+    lines.push(`${heading} (${variables.length}):`);
+    if (variables.length === 0) lines.push("  (none)");
+    for (const variable of variables) {
+      lines.push(
+        `  ${variable.name.padEnd(24)} ${(variable.type || "?").padEnd(16)}` +
+          `${variable.mandatory ? " mandatory" : ""}` +
+          `${variable.reference ? ` -> ${variable.reference}` : ""}` +
+          `${variable.label && variable.label !== variable.name ? `  "${variable.label}"` : ""}`
+      );
+    }
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Registers the describe_flow MCP tool.
+ *
+ * Reads the inputs and outputs a flow, subflow or action declares — name, type,
+ * mandatory flag and reference table — from the Flow Designer variable tables, so
+ * an execute call can be written against them instead of guessed at.
+ *
+ * @param server - The McpServer instance to register the tool on
+ */
+export function registerDescribeFlowTool(server: McpServer): void {
+  const variableSchema = z.object({
+    sys_id: z.string(),
+    name: z.string(),
+    label: z.string(),
+    type: z.string(),
+    mandatory: z.boolean(),
+    reference: z.string().optional(),
+  });
+
+  server.registerTool(
+    "describe_flow",
+    {
+      annotations: annotationsFor("describe_flow"),
+      title: "Describe Flow",
+      description:
+        "List the inputs and outputs a flow, subflow or action declares: name, type, " +
+        "whether it is mandatory, and the table a reference input points to.\n\n" +
+        "Call this before execute_flow, execute_subflow or execute_action to know which " +
+        "inputs to pass. Those tools check inputs against the same declarations and refuse " +
+        "missing mandatory inputs and values of the wrong type before anything runs.",
+      inputSchema: {
+        instance: z.string().optional().describe(INSTANCE_DESC),
+        name: z
+          .string()
+          .describe(
+            'Scoped name (e.g., "global.my_flow"), internal name or sys_id of the flow, ' +
+              "subflow or action."
+          ),
+        type: z
+          .enum(["flow", "subflow", "action"])
+          .optional()
+          .describe('"flow", "subflow" or "action", when the name alone matches more than one.'),
+      },
+      outputSchema: {
+        component: z.object({
+          kind: z.string(),
+          sys_id: z.string(),
+          name: z.string(),
+          internalName: z.string(),
+          scope: z.string(),
+          active: z.boolean(),
+        }),
+        inputs: z.array(variableSchema),
+        outputs: z.array(variableSchema),
+      },
+    },
+    async ({ instance, name, type }) => {
+      try {
+        const result = await describeFlow(instance, name, type);
+
+        return structuredResult(formatFlowSignature(result), result);
+      } catch (error) {
+        const message =
+          error instanceof Error ? error.message : String(error);
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Error describing flow: ${message}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+}
+
+// ============================================================
+// 15. flow_dependencies
+// ============================================================
+
+function describeDependency(node: Omit<DependencyNode, "uses" | "children"> & { uses?: number }): string {
+  return (
+    `${node.kind.padEnd(8)} ${node.scope}.${node.internalName}  "${node.name}"` +
+    `  ${node.active ? "active" : "INACTIVE"}` +
+    (node.trigger ? `  trigger: ${node.trigger.type}` : "") +
+    (node.uses && node.uses > 1 ? `  (${node.uses} steps)` : "")
+  );
+}
+
+function formatDependencyTree(nodes: DependencyNode[], indent: string, lines: string[]): void {
+  for (const node of nodes) {
+    lines.push(
+      `${indent}${describeDependency(node)}` +
+        (node.repeated ? "  (shown above)" : "") +
+        (node.truncated ? "  (more below the depth limit)" : "")
+    );
+    formatDependencyTree(node.children, `${indent}  `, lines);
+  }
+}
+
+function formatFlowDependencies(result: FlowDependencies): string {
+  const lines: string[] = [];
+  lines.push("=== Flow Dependencies ===");
+  lines.push(describeDependency(result.root));
+  lines.push(`Sys ID: ${result.root.sys_id}`);
+  lines.push(`Depth: ${result.depth}`);
+
+  if (result.callers) {
+    lines.push("");
+    lines.push(
+      `Callers (${result.callerCount}, ${result.activeCallingFlows} active flow` +
+        `${result.activeCallingFlows === 1 ? "" : "s"} affected by a change):`
+    );
+    if (result.callers.length === 0) lines.push("  (none)");
+    formatDependencyTree(result.callers, "  ", lines);
+  }
+  if (result.callees) {
+    lines.push("");
+    lines.push(`Callees (${result.calleeCount}):`);
+    if (result.callees.length === 0) lines.push("  (none)");
+    formatDependencyTree(result.callees, "  ", lines);
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Registers the flow_dependencies MCP tool.
+ *
+ * Walks the Flow Designer step records from a flow, subflow or action to what runs
+ * it (callers) and what it runs (callees), and returns both as trees with each
+ * component's scope, active state and, for flows, trigger type.
+ *
+ * @param server - The McpServer instance to register the tool on
+ */
+export function registerFlowDependenciesTool(server: McpServer): void {
+  const componentShape = {
+    kind: z.string(),
+    sys_id: z.string(),
+    name: z.string(),
+    internalName: z.string(),
+    scope: z.string(),
+    active: z.boolean(),
+    trigger: z.object({ type: z.string(), name: z.string() }).optional(),
+  };
+  const nodeSchema: z.ZodType<DependencyNode> = z.lazy(() =>
+    z.object({
+      ...componentShape,
+      uses: z.number(),
+      repeated: z.boolean().optional(),
+      truncated: z.boolean().optional(),
+      children: z.array(nodeSchema),
+    })
+  ) as z.ZodType<DependencyNode>;
+
+  server.registerTool(
+    "flow_dependencies",
+    {
+      annotations: annotationsFor("flow_dependencies"),
+      title: "Flow Dependencies",
+      description:
+        "Show what depends on a flow, subflow or action, and what it depends on, before " +
+        "changing it.\n\n" +
+        "Callers are the flows and subflows with a step that runs it, then their callers, " +
+        "and so on; callees are the actions and subflows its steps run, and theirs. Each " +
+        "entry has its scope, whether it is active, and for a flow its trigger type. The " +
+        "result counts the active flows among the callers — the flows a change would reach.\n\n" +
+        "A component met twice is listed again but not expanded again, so cycles end.",
+      inputSchema: {
+        instance: z.string().optional().describe(INSTANCE_DESC),
+        name: z
+          .string()
+          .describe(
+            'Scoped name (e.g., "global.my_subflow"), internal name or sys_id of the flow, ' +
+              "subflow or action."
+          ),
+        type: z
+          .enum(["flow", "subflow", "action"])
+          .optional()
+          .describe('"flow", "subflow" or "action", when the name alone matches more than one.'),
+        direction: z
+          .enum(["both", "callers", "callees"])
+          .default("both")
+          .describe('"callers" (what runs it), "callees" (what it runs) or "both" (default).'),
+        depth: z
+          .number()
+          .int()
+          .min(1)
+          .max(MAX_DEPENDENCY_DEPTH)
+          .default(5)
+          .describe(`Levels to follow in each direction, 1 to ${MAX_DEPENDENCY_DEPTH}. Default 5.`),
+      },
+      outputSchema: {
+        root: z.object(componentShape),
+        depth: z.number(),
+        callers: z.array(nodeSchema).optional(),
+        callees: z.array(nodeSchema).optional(),
+        callerCount: z.number(),
+        calleeCount: z.number(),
+        activeCallingFlows: z.number(),
+      },
+    },
+    async ({ instance, name, type, direction, depth }) => {
+      try {
+        const result = await flowDependencies(instance, name, { kind: type, direction, depth });
+
+        return structuredResult(formatFlowDependencies(result), result);
+      } catch (error) {
+        const message =
+          error instanceof Error ? error.message : String(error);
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Error reading flow dependencies: ${message}`,
             },
           ],
           isError: true,
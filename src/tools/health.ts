@@ -3,6 +3,7 @@ import { z } from "zod";
 import { InstanceHealth, AggregateQuery } from "@sonisoft/now-sdk-ext-core";
 import { withConnectionRetry } from "../common/connection.js";
 import { annotationsFor } from "../common/annotations.js";
+import { recordSchema, structuredResult } from "../common/structured.js";
 
 /**
  * Registers the check_instance_health tool on the MCP server.
@@ -61,6 +62,15 @@ export function registerCheckInstanceHealthTool(server: McpServer): void {
               "Jobs running longer than this are flagged. Default is 30 minutes."
           ),
       },
+      outputSchema: {
+        timestamp: z.unknown(),
+        version: recordSchema.nullish(),
+        clusterNodes: z.array(recordSchema).nullish(),
+        stuckJobs: z.array(recordSchema).nullish(),
+        activeSemaphoreCount: z.number().nullish(),
+        operationalCounts: recordSchema.nullish(),
+        summary: z.string().nullish(),
+      },
     },
     async ({
       instance,
@@ -150,9 +160,7 @@ export function registerCheckInstanceHealthTool(server: McpServer): void {
           lines.push(`Summary: ${result.summary}`);
         }
 
-        return {
-          content: [{ type: "text" as const, text: lines.join("\n") }],
-        };
+        return structuredResult(lines.join("\n"), result);
       } catch (error) {
         const message =
           error instanceof Error ? error.message : String(error);
@@ -3,6 +3,14 @@ import { z } from "zod";
 import { KnowledgeManager } from "@sonisoft/now-sdk-ext-core";
 import { withConnectionRetry } from "../common/connection.js";
 import { annotationsFor } from "../common/annotations.js";
+import { recordSchema, structuredResult } from "../common/structured.js";
+import {
+  describeChanges,
+  dryRunParam,
+  fieldChanges,
+  previewOutputShape,
+  readRecords,
+} from "../common/dry-run.js";
 
 /**
  * Instance parameter description shared across knowledge tools.
@@ -53,6 +61,9 @@ export function registerListKnowledgeBasesTool(server: McpServer): void {
           .default(0)
           .describe("Number of records to skip for pagination (default 0)."),
       },
+      outputSchema: {
+        knowledgeBases: z.array(recordSchema),
+      },
     },
     async ({ instance, query, active, limit, offset }) => {
       try {
@@ -62,23 +73,17 @@ export function registerListKnowledgeBasesTool(server: McpServer): void {
         });
 
         if (results.length === 0) {
-          return {
-            content: [{ type: "text" as const, text: "No knowledge bases found." }],
-          };
+          return structuredResult("No knowledge bases found.", { knowledgeBases: [] });
         }
 
         const lines = results.map(
           (kb) =>
             `- ${kb.title} (sys_id: ${kb.sys_id}, active: ${kb.active})`
         );
-        return {
-          content: [
-            {
-              type: "text" as const,
-              text: `Found ${results.length} knowledge base(s):\n\n${lines.join("\n")}`,
-            },
-          ],
-        };
+        return structuredResult(
+          `Found ${results.length} knowledge base(s):\n\n${lines.join("\n")}`,
+          { knowledgeBases: results }
+        );
       } catch (error) {
         const message = error instanceof Error ? error.message : String(error);
         return {
@@ -108,6 +113,11 @@ export function registerGetKnowledgeBaseTool(server: McpServer): void {
         instance: z.string().optional().describe(INSTANCE_DESC),
         sys_id: z.string().describe("The sys_id of the knowledge base."),
       },
+      outputSchema: {
+        knowledgeBase: recordSchema,
+        articleCount: z.number(),
+        categoryCount: z.number(),
+      },
     },
     async ({ instance, sys_id }) => {
       try {
@@ -124,9 +134,7 @@ export function registerGetKnowledgeBaseTool(server: McpServer): void {
           `Articles: ${result.articleCount}\n` +
           `Categories: ${result.categoryCount}`;
 
-        return {
-          content: [{ type: "text" as const, text }],
-        };
+        return structuredResult(text, result);
       } catch (error) {
         const message = error instanceof Error ? error.message : String(error);
         return {
@@ -167,6 +175,9 @@ export function registerListKbCategoriesTool(server: McpServer): void {
         limit: z.number().int().min(1).default(20).describe("Maximum number of records to return (default 20)."),
         offset: z.number().int().min(0).default(0).describe("Number of records to skip for pagination (default 0)."),
       },
+      outputSchema: {
+        categories: z.array(recordSchema),
+      },
     },
     async ({ instance, knowledge_base_sys_id, parent_category, query, active, limit, offset }) => {
       try {
@@ -183,22 +194,16 @@ export function registerListKbCategoriesTool(server: McpServer): void {
         });
 
         if (results.length === 0) {
-          return {
-            content: [{ type: "text" as const, text: "No categories found." }],
-          };
+          return structuredResult("No categories found.", { categories: [] });
         }
 
         const lines = results.map(
           (cat) => `- ${cat.label} (sys_id: ${cat.sys_id}, active: ${cat.active})`
         );
-        return {
-          content: [
-            {
-              type: "text" as const,
-              text: `Found ${results.length} category(ies):\n\n${lines.join("\n")}`,
-            },
-          ],
-        };
+        return structuredResult(
+          `Found ${results.length} category(ies):\n\n${lines.join("\n")}`,
+          { categories: results }
+        );
       } catch (error) {
         const message = error instanceof Error ? error.message : String(error);
         return {
@@ -239,6 +244,9 @@ export function registerCreateKbCategoryTool(server: McpServer): void {
           .optional()
           .describe("Whether the category is active (default true)."),
       },
+      outputSchema: {
+        category: recordSchema,
+      },
     },
     async ({ instance, label, knowledge_base_sys_id, parent_category, active }) => {
       try {
@@ -252,14 +260,10 @@ export function registerCreateKbCategoryTool(server: McpServer): void {
           });
         });
 
-        return {
-          content: [
-            {
-              type: "text" as const,
-              text: `Category '${result.label}' created successfully (sys_id: ${result.sys_id}).`,
-            },
-          ],
-        };
+        return structuredResult(
+          `Category '${result.label}' created successfully (sys_id: ${result.sys_id}).`,
+          { category: result }
+        );
       } catch (error) {
         const message = error instanceof Error ? error.message : String(error);
         return {
@@ -308,6 +312,9 @@ export function registerListKbArticlesTool(server: McpServer): void {
         limit: z.number().int().min(1).default(20).describe("Maximum number of records to return (default 20)."),
         offset: z.number().int().min(0).default(0).describe("Number of records to skip for pagination (default 0)."),
       },
+      outputSchema: {
+        articles: z.array(recordSchema),
+      },
     },
     async ({ instance, knowledge_base_sys_id, category_sys_id, workflow_state, text_search, query, limit, offset }) => {
       try {
@@ -325,23 +332,17 @@ export function registerListKbArticlesTool(server: McpServer): void {
         });
 
         if (results.length === 0) {
-          return {
-            content: [{ type: "text" as const, text: "No articles found." }],
-          };
+          return structuredResult("No articles found.", { articles: [] });
         }
 
         const lines = results.map(
           (a) =>
             `- ${a.number}: ${a.short_description} (state: ${a.workflow_state}, sys_id: ${a.sys_id})`
         );
-        return {
-          content: [
-            {
-              type: "text" as const,
-              text: `Found ${results.length} article(s):\n\n${lines.join("\n")}`,
-            },
-          ],
-        };
+        return structuredResult(
+          `Found ${results.length} article(s):\n\n${lines.join("\n")}`,
+          { articles: results }
+        );
       } catch (error) {
         const message = error instanceof Error ? error.message : String(error);
         return {
@@ -370,6 +371,9 @@ export function registerGetKbArticleTool(server: McpServer): void {
         instance: z.string().optional().describe(INSTANCE_DESC),
         sys_id: z.string().describe("The sys_id of the knowledge article."),
       },
+      outputSchema: {
+        article: recordSchema,
+      },
     },
     async ({ instance, sys_id }) => {
       try {
@@ -389,9 +393,7 @@ export function registerGetKbArticleTool(server: McpServer): void {
           `Category: ${article.kb_category || "N/A"}\n\n` +
           `--- Body ---\n${article.text || article.wiki || "(No body content)"}`;
 
-        return {
-          content: [{ type: "text" as const, text }],
-        };
+        return structuredResult(text, { article });
       } catch (error) {
         const message = error instanceof Error ? error.message : String(error);
         return {
@@ -453,6 +455,9 @@ export function registerCreateKbArticleTool(server: McpServer): void {
           .optional()
           .describe("Optional additional fields to set on the article record as key-value pairs."),
       },
+      outputSchema: {
+        article: recordSchema,
+      },
     },
     async ({
       instance,
@@ -480,18 +485,13 @@ export function registerCreateKbArticleTool(server: McpServer): void {
           });
         });
 
-        return {
-          content: [
-            {
-              type: "text" as const,
-              text:
-                `Article '${article.short_description}' created successfully.\n` +
-                `Number: ${article.number}\n` +
-                `sys_id: ${article.sys_id}\n` +
-                `Workflow State: ${article.workflow_state}`,
-            },
-          ],
-        };
+        return structuredResult(
+          `Article '${article.short_description}' created successfully.\n` +
+          `Number: ${article.number}\n` +
+          `sys_id: ${article.sys_id}\n` +
+          `Workflow State: ${article.workflow_state}`,
+          { article }
+        );
       } catch (error) {
         const message = error instanceof Error ? error.message : String(error);
         return {
@@ -541,6 +541,11 @@ export function registerUpdateKbArticleTool(server: McpServer): void {
           .record(z.string())
           .optional()
           .describe("Optional additional fields to update as key-value pairs."),
+        dry_run: dryRunParam,
+      },
+      outputSchema: {
+        article: recordSchema,
+        ...previewOutputShape,
       },
     },
     async ({
@@ -555,8 +560,47 @@ export function registerUpdateKbArticleTool(server: McpServer): void {
       article_type,
       active,
       additional_fields,
+      dry_run,
     }) => {
       try {
+        if (dry_run) {
+          // The kb_knowledge columns each argument lands in. Undefined arguments are
+          // left out: the update does not touch them.
+          const data: Record<string, unknown> = Object.fromEntries(
+            Object.entries({
+              short_description,
+              text,
+              wiki,
+              kb_knowledge_base: knowledge_base_sys_id,
+              kb_category: category_sys_id,
+              workflow_state,
+              article_type,
+              active,
+              ...additional_fields,
+            }).filter(([, value]) => value !== undefined)
+          );
+          const { records } = await withConnectionRetry(instance, (snInstance) =>
+            readRecords(snInstance, "kb_knowledge", `sys_id=${sys_id}`, Object.keys(data), 1)
+          );
+          if (records.length === 0) {
+            return {
+              content: [
+                { type: "text" as const, text: `Dry run: no kb_knowledge record with sys_id ${sys_id} exists.` },
+              ],
+              isError: true,
+            };
+          }
+
+          const changes = [
+            { table: "kb_knowledge", sys_id, action: "update" as const, fields: fieldChanges(records[0], data) },
+          ];
+          return structuredResult(describeChanges(changes).join("\n"), {
+            article: records[0],
+            dryRun: true,
+            changes,
+          });
+        }
+
         const article = await withConnectionRetry(instance, async (snInstance) => {
           const mgr = new KnowledgeManager(snInstance);
           return await mgr.updateArticle(sys_id, {
@@ -572,17 +616,12 @@ export function registerUpdateKbArticleTool(server: McpServer): void {
           });
         });
 
-        return {
-          content: [
-            {
-              type: "text" as const,
-              text:
-                `Article '${article.short_description}' updated successfully.\n` +
-                `sys_id: ${article.sys_id}\n` +
-                `Workflow State: ${article.workflow_state}`,
-            },
-          ],
-        };
+        return structuredResult(
+          `Article '${article.short_description}' updated successfully.\n` +
+          `sys_id: ${article.sys_id}\n` +
+          `Workflow State: ${article.workflow_state}`,
+          { article }
+        );
       } catch (error) {
         const message = error instanceof Error ? error.message : String(error);
         return {
@@ -613,6 +652,9 @@ export function registerPublishKbArticleTool(server: McpServer): void {
         instance: z.string().optional().describe(INSTANCE_DESC),
         sys_id: z.string().describe("The sys_id of the article to publish."),
       },
+      outputSchema: {
+        article: recordSchema,
+      },
     },
     async ({ instance, sys_id }) => {
       try {
@@ -621,17 +663,12 @@ export function registerPublishKbArticleTool(server: McpServer): void {
           return await mgr.publishArticle(sys_id);
         });
 
-        return {
-          content: [
-            {
-              type: "text" as const,
-              text:
-                `Article '${article.short_description}' published successfully.\n` +
-                `Number: ${article.number}\n` +
-                `sys_id: ${article.sys_id}`,
-            },
-          ],
-        };
+        return structuredResult(
+          `Article '${article.short_description}' published successfully.\n` +
+          `Number: ${article.number}\n` +
+          `sys_id: ${article.sys_id}`,
+          { article }
+        );
       } catch (error) {
         const message = error instanceof Error ? error.message : String(error);
         return {
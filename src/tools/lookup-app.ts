@@ -6,6 +6,7 @@ import {
   isRetryableResponse,
 } from "../common/connection.js";
 import { annotationsFor } from "../common/annotations.js";
+import { recordSchema, structuredResult } from "../common/structured.js";
 
 interface SysScopeRecord {
   sys_id: string;
@@ -110,6 +111,12 @@ export function registerLookupAppTool(server: McpServer): void {
               "Default is false (returns all matches regardless of active status)."
           ),
       },
+      outputSchema: {
+        searchTerm: z.string(),
+        type: z.string(),
+        applications: z.array(recordSchema),
+        plugins: z.array(recordSchema),
+      },
     },
     async ({ instance, search_term, type, active_only }) => {
       try {
@@ -288,14 +295,12 @@ export function registerLookupAppTool(server: McpServer): void {
           );
         }
 
-        return {
-          content: [
-            {
-              type: "text" as const,
-              text: lines.join("\n"),
-            },
-          ],
-        };
+        return structuredResult(lines.join("\n"), {
+          searchTerm: search_term,
+          type,
+          applications: apps,
+          plugins,
+        });
       } catch (error) {
         const message =
           error instanceof Error ? error.message : String(error);
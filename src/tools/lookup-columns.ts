@@ -6,6 +6,7 @@ import {
   isRetryableResponse,
 } from "../common/connection.js";
 import { annotationsFor } from "../common/annotations.js";
+import { recordSchema, structuredResult } from "../common/structured.js";
 
 /* eslint-disable @typescript-eslint/no-explicit-any */
 
@@ -98,6 +99,10 @@ export function registerLookupColumnsTool(server: McpServer): void {
             "Maximum number of columns to return. Default is 50, max is 200."
           ),
       },
+      outputSchema: {
+        table: z.string(),
+        columns: z.array(recordSchema),
+      },
     },
     async ({ instance, table, search_term, limit }) => {
       try {
@@ -218,14 +223,7 @@ export function registerLookupColumnsTool(server: McpServer): void {
           );
         }
 
-        return {
-          content: [
-            {
-              type: "text" as const,
-              text: lines.join("\n"),
-            },
-          ],
-        };
+        return structuredResult(lines.join("\n"), { table, columns });
       } catch (error) {
         const message =
           error instanceof Error ? error.message : String(error);
@@ -6,6 +6,7 @@ import {
   isRetryableResponse,
 } from "../common/connection.js";
 import { annotationsFor } from "../common/annotations.js";
+import { recordSchema, structuredResult } from "../common/structured.js";
 
 /* eslint-disable @typescript-eslint/no-explicit-any */
 
@@ -84,6 +85,9 @@ export function registerLookupTableTool(server: McpServer): void {
           .default(25)
           .describe("Maximum number of results to return. Default is 25, max is 100."),
       },
+      outputSchema: {
+        tables: z.array(recordSchema),
+      },
     },
     async ({ instance, search_term, limit }) => {
       try {
@@ -177,14 +181,7 @@ export function registerLookupTableTool(server: McpServer): void {
           );
         }
 
-        return {
-          content: [
-            {
-              type: "text" as const,
-              text: lines.join("\n"),
-            },
-          ],
-        };
+        return structuredResult(lines.join("\n"), { tables });
       } catch (error) {
         const message =
           error instanceof Error ? error.message : String(error);
@@ -2,14 +2,75 @@ import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { QueryBatchOperations } from "@sonisoft/now-sdk-ext-core";
 import { withConnectionRetry } from "../common/connection.js";
+import {
+  issueConfirmation,
+  redeemConfirmation,
+} from "../common/confirmation.js";
+import { resolveCallAlias } from "../common/instance-policy.js";
+import { journaledWrite } from "../common/undo-journal.js";
 import { progressReporter } from "../common/progress.js";
 import { annotationsFor } from "../common/annotations.js";
+import { errorListSchema, structuredResult } from "../common/structured.js";
+import {
+  describeChanges,
+  dryRunParam,
+  fieldChanges,
+  PREVIEW_LIMIT,
+  previewOutputShape,
+  readRecords,
+} from "../common/dry-run.js";
+
+const confirmationTokenParam = z
+  .string()
+  .optional()
+  .describe(
+    "The token returned by a preview of this exact operation. Omit it to preview: " +
+      "the result shows the match count and a sample, and returns a token. Pass it " +
+      "back, with the same arguments, to execute. Tokens are single-use and expire."
+  );
+
+const confirmationOutputShape = {
+  confirmationToken: z.string().optional(),
+  confirmationExpiresAt: z.string().optional(),
+};
+
+/**
+ * The closing lines of a preview, and the token that commits it. No token when
+ * nothing matches: there is nothing to confirm.
+ */
+function confirmationStep(
+  binding: Parameters<typeof issueConfirmation>[0],
+  matchCount: number,
+  verb: string
+): { lines: string[]; token?: { token: string; expiresAt: string } } {
+  if (matchCount === 0) {
+    return { lines: ["No records match, so there is nothing to confirm."] };
+  }
+  const token = issueConfirmation(binding, matchCount);
+  return {
+    lines: [
+      `To ${verb} these ${matchCount} record(s), call again with the same arguments and`,
+      `confirmation_token: ${token.token}`,
+      `The token expires at ${token.expiresAt} and is void if the match count changes.`,
+    ],
+    token,
+  };
+}
+
+/** The count a commit found differs from the preview's. The token is spent. */
+function staleCountMessage(previewed: number, now: number | undefined, nothing: string): string {
+  return (
+    `The match count has changed from ${previewed} to ${now ?? "unknown"} since the preview. ` +
+    `${nothing} Call again without confirmation_token to preview the current matches.`
+  );
+}
 
 /**
  * Registers the query_update_records tool on the MCP server.
  *
  * Finds records matching an encoded query and updates them in bulk.
- * Supports dry-run mode (confirm=false) to preview affected records before committing.
+ * A call without a confirmation token previews and issues one; only a call
+ * presenting that token updates anything.
  */
 export function registerQueryUpdateRecordsTool(server: McpServer): void {
   server.registerTool(
@@ -19,10 +80,14 @@ export function registerQueryUpdateRecordsTool(server: McpServer): void {
       title: "Query Update Records",
       description:
         "Find records matching an encoded query and update them all with the specified data. " +
-        "Supports a dry-run mode: set confirm=false (the default) to see how many records " +
-        "would be affected WITHOUT making changes, then set confirm=true to execute.\n\n" +
-        "IMPORTANT: When confirm=true, this modifies records on the ServiceNow instance. " +
-        "Always run a dry-run first to verify the match count before committing.",
+        "Works in two calls. The first, without confirmation_token, changes nothing: it " +
+        "returns the match count, a sample of the records with their current and proposed " +
+        "values, and a confirmation token. The second, with the same arguments plus that " +
+        "token, executes the update.\n\n" +
+        "IMPORTANT: The confirmed call modifies records on the ServiceNow instance. Check " +
+        "the preview before confirming. The token expires after a few minutes and is void " +
+        "if the number of matching records changes in between. When the server's undo " +
+        "journal is on, the result includes an undoOperationId for undo_operation.",
       inputSchema: {
         instance: z
           .string()
@@ -48,13 +113,7 @@ export function registerQueryUpdateRecordsTool(server: McpServer): void {
           .describe(
             'Field values to set on all matching records (e.g., {"priority": "3", "state": "2"}).'
           ),
-        confirm: z
-          .boolean()
-          .default(false)
-          .describe(
-            "When false (default), performs a dry-run that returns the match count " +
-              "without making changes. Set to true to actually execute the updates."
-          ),
+        confirmation_token: confirmationTokenParam,
         limit: z
           .number()
           .int()
@@ -63,57 +122,143 @@ export function registerQueryUpdateRecordsTool(server: McpServer): void {
           .describe(
             "Maximum number of records to update. If omitted, updates all matches."
           ),
+        dry_run: dryRunParam,
+      },
+      outputSchema: {
+        table: z.string(),
+        query: z.string(),
+        success: z.boolean().optional(),
+        matchCount: z.number().optional(),
+        updatedCount: z.number().optional(),
+        executionTimeMs: z.number().optional(),
+        undoOperationId: z.string().optional(),
+        errors: errorListSchema.optional(),
+        ...previewOutputShape,
+        ...confirmationOutputShape,
       },
     },
-    async ({ instance, table, query, data, confirm, limit }, extra) => {
+    async ({ instance, table, query, data, limit, dry_run, confirmation_token }, extra) => {
+      const binding = {
+        tool: "query_update_records",
+        alias: resolveCallAlias(instance),
+        table,
+        query,
+        limit,
+        data,
+      };
       try {
+        if (dry_run || !confirmation_token) {
+          // The preview. Under dry_run a token is never issued or spent: the point of
+          // dry_run is that nothing can be sent. Core's own confirm=false path supplies
+          // the count; the read supplies the per-record before/after a count cannot.
+          const preview = await withConnectionRetry(instance, async (snInstance) => {
+            const qb = new QueryBatchOperations(snInstance);
+            const counted = await qb.queryUpdate({ table, query, data, confirm: false, limit });
+            const read = await readRecords(
+              snInstance,
+              table,
+              query,
+              Object.keys(data),
+              Math.min(limit ?? PREVIEW_LIMIT, PREVIEW_LIMIT)
+            );
+            return { matchCount: counted.matchCount, ...read };
+          });
+
+          const changes = preview.records.map((record) => ({
+            table,
+            sys_id: String(record.sys_id),
+            action: "update" as const,
+            fields: fieldChanges(record, data),
+          }));
+          const truncated = preview.truncated || (preview.matchCount ?? 0) > changes.length;
+          const lines = [
+            ...describeChanges(changes, truncated),
+            "",
+            `Table: ${table}`,
+            `Query: ${query}`,
+            `Records that would be updated: ${preview.matchCount}`,
+          ];
+
+          const step = dry_run
+            ? undefined
+            : confirmationStep(binding, preview.matchCount ?? 0, "update");
+          if (step) {
+            lines.push("", "No changes were made.", ...step.lines);
+          }
+
+          return structuredResult(lines.join("\n"), {
+            table,
+            query,
+            matchCount: preview.matchCount,
+            dryRun: true,
+            changes,
+            truncated,
+            confirmationToken: step?.token?.token,
+            confirmationExpiresAt: step?.token?.expiresAt,
+          });
+        }
+
+        const previewed = redeemConfirmation(confirmation_token, binding);
         const onProgress = progressReporter(extra);
-        const result = await withConnectionRetry(
+        const outcome = await withConnectionRetry(
           instance,
           async (snInstance) => {
             const qb = new QueryBatchOperations(snInstance);
-            return await qb.queryUpdate({
-              table,
-              query,
-              data,
-              confirm,
-              limit,
-              onProgress,
-            });
+            // Recounted immediately before the update: the token vouches for the
+            // preview, and the preview is only worth something if it is still true.
+            const counted = await qb.queryUpdate({ table, query, data, confirm: false, limit });
+            if (counted.matchCount !== previewed) {
+              return { stale: counted.matchCount };
+            }
+            return await journaledWrite(
+              snInstance,
+              { tool: "query_update_records", alias: binding.alias },
+              [{ table, query, fields: Object.keys(data) }],
+              () =>
+                qb.queryUpdate({
+                  table,
+                  query,
+                  data,
+                  confirm: true,
+                  limit,
+                  onProgress,
+                })
+            );
           }
         );
 
+        if ("stale" in outcome) {
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: `Error in query update: ${staleCountMessage(previewed, outcome.stale, "Nothing was updated.")}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+
+        const { result, operationId } = outcome;
         const lines: string[] = [];
-        if (result.dryRun) {
-          lines.push("=== Query Update — DRY RUN ===");
-          lines.push(`Table: ${table}`);
-          lines.push(`Query: ${query}`);
-          lines.push(`Records that would be updated: ${result.matchCount}`);
+        lines.push("=== Query Update Results ===");
+        lines.push(`Table: ${table}`);
+        lines.push(`Query: ${query}`);
+        lines.push(`Success: ${result.success}`);
+        lines.push(`Matched: ${result.matchCount}`);
+        lines.push(`Updated: ${result.updatedCount}`);
+        lines.push(`Execution Time: ${result.executionTimeMs}ms`);
+        if (operationId) lines.push(`Undo: undo_operation with operation_id "${operationId}"`);
+
+        if (result.errors && result.errors.length > 0) {
           lines.push("");
-          lines.push(
-            "No changes were made. Set confirm=true to execute the update."
-          );
-        } else {
-          lines.push("=== Query Update Results ===");
-          lines.push(`Table: ${table}`);
-          lines.push(`Query: ${query}`);
-          lines.push(`Success: ${result.success}`);
-          lines.push(`Matched: ${result.matchCount}`);
-          lines.push(`Updated: ${result.updatedCount}`);
-          lines.push(`Execution Time: ${result.executionTimeMs}ms`);
-
-          if (result.errors && result.errors.length > 0) {
-            lines.push("");
-            lines.push("Errors:");
-            for (const err of result.errors) {
-              lines.push(`  ${JSON.stringify(err)}`);
-            }
+          lines.push("Errors:");
+          for (const err of result.errors) {
+            lines.push(`  ${JSON.stringify(err)}`);
           }
         }
 
-        return {
-          content: [{ type: "text" as const, text: lines.join("\n") }],
-        };
+        return structuredResult(lines.join("\n"), { table, query, ...result, undoOperationId: operationId });
       } catch (error) {
         const message =
           error instanceof Error ? error.message : String(error);
@@ -135,7 +280,8 @@ export function registerQueryUpdateRecordsTool(server: McpServer): void {
  * Registers the query_delete_records tool on the MCP server.
  *
  * Finds records matching an encoded query and deletes them in bulk.
- * Supports dry-run mode (confirm=false) to preview affected records before committing.
+ * A call without a confirmation token previews and issues one; only a call
+ * presenting that token deletes anything.
  */
 export function registerQueryDeleteRecordsTool(server: McpServer): void {
   server.registerTool(
@@ -145,10 +291,12 @@ export function registerQueryDeleteRecordsTool(server: McpServer): void {
       title: "Query Delete Records",
       description:
         "Find records matching an encoded query and delete them all. " +
-        "Supports a dry-run mode: set confirm=false (the default) to see how many records " +
-        "would be deleted WITHOUT making changes, then set confirm=true to execute.\n\n" +
-        "IMPORTANT: When confirm=true, this PERMANENTLY DELETES records on the ServiceNow " +
-        "instance. Always run a dry-run first to verify the match count before committing. " +
+        "Works in two calls. The first, without confirmation_token, deletes nothing: it " +
+        "returns the match count, a sample of the records, and a confirmation token. The " +
+        "second, with the same arguments plus that token, executes the deletion.\n\n" +
+        "IMPORTANT: The confirmed call PERMANENTLY DELETES records on the ServiceNow " +
+        "instance. Check the preview before confirming. The token expires after a few " +
+        "minutes and is void if the number of matching records changes in between. " +
         "This operation cannot be undone.",
       inputSchema: {
         instance: z
@@ -170,13 +318,7 @@ export function registerQueryDeleteRecordsTool(server: McpServer): void {
             "An encoded query string to find records to delete. " +
               'Examples: "active=false^sys_created_on<javascript:gs.daysAgoStart(365)".'
           ),
-        confirm: z
-          .boolean()
-          .default(false)
-          .describe(
-            "When false (default), performs a dry-run that returns the match count " +
-              "without deleting anything. Set to true to actually execute the deletes."
-          ),
+        confirmation_token: confirmationTokenParam,
         limit: z
           .number()
           .int()
@@ -185,56 +327,131 @@ export function registerQueryDeleteRecordsTool(server: McpServer): void {
           .describe(
             "Maximum number of records to delete. If omitted, deletes all matches."
           ),
+        dry_run: dryRunParam,
+      },
+      outputSchema: {
+        table: z.string(),
+        query: z.string(),
+        success: z.boolean().optional(),
+        matchCount: z.number().optional(),
+        deletedCount: z.number().optional(),
+        executionTimeMs: z.number().optional(),
+        errors: errorListSchema.optional(),
+        ...previewOutputShape,
+        ...confirmationOutputShape,
       },
     },
-    async ({ instance, table, query, confirm, limit }, extra) => {
+    async ({ instance, table, query, limit, dry_run, confirmation_token }, extra) => {
+      const binding = {
+        tool: "query_delete_records",
+        alias: resolveCallAlias(instance),
+        table,
+        query,
+        limit,
+      };
       try {
+        if (dry_run || !confirmation_token) {
+          // As for query_update_records, and the sys_ids are read so the preview
+          // names the records rather than only counting them.
+          const preview = await withConnectionRetry(instance, async (snInstance) => {
+            const qb = new QueryBatchOperations(snInstance);
+            const counted = await qb.queryDelete({ table, query, confirm: false, limit });
+            const read = await readRecords(
+              snInstance,
+              table,
+              query,
+              ["sys_id"],
+              Math.min(limit ?? PREVIEW_LIMIT, PREVIEW_LIMIT)
+            );
+            return { matchCount: counted.matchCount, ...read };
+          });
+
+          const changes = preview.records.map((record) => ({
+            table,
+            sys_id: String(record.sys_id),
+            action: "delete" as const,
+          }));
+          const truncated = preview.truncated || (preview.matchCount ?? 0) > changes.length;
+          const lines = [
+            ...describeChanges(changes, truncated),
+            "",
+            `Table: ${table}`,
+            `Query: ${query}`,
+            `Records that would be deleted: ${preview.matchCount}`,
+          ];
+
+          const step = dry_run
+            ? undefined
+            : confirmationStep(binding, preview.matchCount ?? 0, "delete");
+          if (step) {
+            lines.push("", "No records were deleted.", ...step.lines);
+          }
+
+          return structuredResult(lines.join("\n"), {
+            table,
+            query,
+            matchCount: preview.matchCount,
+            dryRun: true,
+            changes,
+            truncated,
+            confirmationToken: step?.token?.token,
+            confirmationExpiresAt: step?.token?.expiresAt,
+          });
+        }
+
+        const previewed = redeemConfirmation(confirmation_token, binding);
         const onProgress = progressReporter(extra);
-        const result = await withConnectionRetry(
+        const outcome = await withConnectionRetry(
           instance,
           async (snInstance) => {
             const qb = new QueryBatchOperations(snInstance);
-            return await qb.queryDelete({
-              table,
-              query,
-              confirm,
-              limit,
-              onProgress,
-            });
+            const counted = await qb.queryDelete({ table, query, confirm: false, limit });
+            if (counted.matchCount !== previewed) {
+              return { stale: counted.matchCount };
+            }
+            return {
+              result: await qb.queryDelete({
+                table,
+                query,
+                confirm: true,
+                limit,
+                onProgress,
+              }),
+            };
           }
         );
 
+        if (!outcome.result) {
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: `Error in query delete: ${staleCountMessage(previewed, outcome.stale, "Nothing was deleted.")}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+
+        const result = outcome.result;
         const lines: string[] = [];
-        if (result.dryRun) {
-          lines.push("=== Query Delete — DRY RUN ===");
-          lines.push(`Table: ${table}`);
-          lines.push(`Query: ${query}`);
-          lines.push(`Records that would be deleted: ${result.matchCount}`);
+        lines.push("=== Query Delete Results ===");
+        lines.push(`Table: ${table}`);
+        lines.push(`Query: ${query}`);
+        lines.push(`Success: ${result.success}`);
+        lines.push(`Matched: ${result.matchCount}`);
+        lines.push(`Deleted: ${result.deletedCount}`);
+        lines.push(`Execution Time: ${result.executionTimeMs}ms`);
+
+        if (result.errors && result.errors.length > 0) {
           lines.push("");
-          lines.push(
-            "No records were deleted. Set confirm=true to execute the deletion."
-          );
-        } else {
-          lines.push("=== Query Delete Results ===");
-          lines.push(`Table: ${table}`);
-          lines.push(`Query: ${query}`);
-          lines.push(`Success: ${result.success}`);
-          lines.push(`Matched: ${result.matchCount}`);
-          lines.push(`Deleted: ${result.deletedCount}`);
-          lines.push(`Execution Time: ${result.executionTimeMs}ms`);
-
-          if (result.errors && result.errors.length > 0) {
-            lines.push("");
-            lines.push("Errors:");
-            for (const err of result.errors) {
-              lines.push(`  ${JSON.stringify(err)}`);
-            }
+          lines.push("Errors:");
+          for (const err of result.errors) {
+            lines.push(`  ${JSON.stringify(err)}`);
           }
         }
 
-        return {
-          content: [{ type: "text" as const, text: lines.join("\n") }],
-        };
+        return structuredResult(lines.join("\n"), { table, query, ...result });
       } catch (error) {
         const message =
           error instanceof Error ? error.message : String(error);
@@ -3,6 +3,7 @@ import { z } from "zod";
 import { SyslogReader } from "@sonisoft/now-sdk-ext-core";
 import { withConnectionRetry } from "../common/connection.js";
 import { annotationsFor } from "../common/annotations.js";
+import { recordSchema, structuredResult } from "../common/structured.js";
 
 /**
  * Registers the query_syslog tool on the MCP server.
@@ -72,6 +73,10 @@ export function registerQuerySyslogTool(server: McpServer): void {
             "the application scope field."
           ),
       },
+      outputSchema: {
+        table: z.string(),
+        records: z.array(recordSchema),
+      },
     },
     async ({ instance, query, level, source, limit, table }) => {
       try {
@@ -129,14 +134,7 @@ export function registerQuerySyslogTool(server: McpServer): void {
         lines.push("");
         lines.push(`=== ${records.length} entries returned ===`);
 
-        return {
-          content: [
-            {
-              type: "text" as const,
-              text: lines.join("\n"),
-            },
-          ],
-        };
+        return structuredResult(lines.join("\n"), { table, records });
       } catch (error) {
         const message =
           error instanceof Error ? error.message : String(error);
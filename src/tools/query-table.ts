@@ -1,15 +1,23 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
-import { TableAPIRequest } from "@sonisoft/now-sdk-ext-core";
-import {
-  withConnectionRetry,
-  isRetryableResponse,
-} from "../common/connection.js";
+import { withConnectionRetry } from "../common/connection.js";
 import { annotationsFor } from "../common/annotations.js";
+import { progressReporter } from "../common/progress.js";
+import { recordSchema, structuredResult } from "../common/structured.js";
+import {
+  decodeCursor,
+  encodeCursor,
+  fetchTablePage,
+  MAX_PAGE_SIZE,
+  type TableQuery,
+} from "../common/table-pages.js";
 
-interface TableResponse {
-  result: Record<string, unknown>[];
-}
+/** Records one all_pages call returns by default, and at most. */
+const DEFAULT_AUTO_PAGE_RECORDS = 5000;
+const MAX_AUTO_PAGE_RECORDS = 50000;
+
+/** Records an all_pages call shows; the rest are only counted. */
+const ALL_PAGES_SAMPLE_SIZE = 20;
 
 /**
  * Registers the query_table tool on the MCP server.
@@ -27,7 +35,11 @@ export function registerQueryTableTool(server: McpServer): void {
         "the specified criteria. Supports encoded query strings, field selection, " +
         "and display value resolution.\n\n" +
         "Use this for general-purpose data retrieval from any table (incident, " +
-        "sys_user, cmdb_ci, change_request, etc.).",
+        "sys_user, cmdb_ci, change_request, etc.).\n\n" +
+        "One call returns at most 1000 records. For more, page with offset and the " +
+        "returned nextCursor. all_pages walks every page but returns a summary — the " +
+        "count, the field names and the first records — not the records themselves; " +
+        "use export_table to get them all in a file.",
       inputSchema: {
         instance: z
           .string()
@@ -67,10 +79,11 @@ export function registerQueryTableTool(server: McpServer): void {
           .number()
           .int()
           .min(1)
-          .max(1000)
+          .max(MAX_PAGE_SIZE)
           .default(20)
           .describe(
-            "Maximum number of records to return. Default is 20, max is 1000."
+            "Maximum number of records to return. Default is 20, max is 1000. " +
+            "With all_pages, this is the page size instead."
           ),
         display_value: z
           .boolean()
@@ -80,62 +93,164 @@ export function registerQueryTableTool(server: McpServer): void {
             "reference and choice fields. For example, assignment_group returns " +
             "the group name instead of the sys_id."
           ),
+        offset: z
+          .number()
+          .int()
+          .min(0)
+          .optional()
+          .describe(
+            "Number of records to skip. Setting it orders results by sys_id, so " +
+            "consecutive offsets return consecutive pages. Prefer cursor to resume."
+          ),
+        cursor: z
+          .string()
+          .optional()
+          .describe(
+            "The nextCursor from a previous call. Resumes exactly where that call " +
+            "stopped. table, query, fields and display_value must be the same. " +
+            "Cannot be combined with offset."
+          ),
+        all_pages: z
+          .boolean()
+          .default(false)
+          .describe(
+            "When true, fetches page after page of `limit` records until the query " +
+            "is exhausted or max_records is reached, and returns a summary: the record " +
+            `count, the field names and the first ${ALL_PAGES_SAMPLE_SIZE} records. ` +
+            "Returns nextCursor if it stopped early."
+          ),
+        max_records: z
+          .number()
+          .int()
+          .min(1)
+          .max(MAX_AUTO_PAGE_RECORDS)
+          .default(DEFAULT_AUTO_PAGE_RECORDS)
+          .describe(
+            `With all_pages, the most records counted by one call. Default ${DEFAULT_AUTO_PAGE_RECORDS}, ` +
+            `max ${MAX_AUTO_PAGE_RECORDS}. Continue from nextCursor for more.`
+          ),
+      },
+      outputSchema: {
+        table: z.string(),
+        query: z.string().optional(),
+        fields: z.string().optional(),
+        records: z.array(recordSchema),
+        recordCount: z.number().optional(),
+        fieldNames: z.array(z.string()).optional(),
+        offset: z.number().optional(),
+        pages: z.number().optional(),
+        complete: z.boolean().optional(),
+        nextCursor: z.string().optional(),
       },
     },
-    async ({ instance, table, query, fields, limit, display_value }) => {
+    async (
+      { instance, table, query, fields, limit, display_value, offset, cursor, all_pages, max_records },
+      extra
+    ) => {
       try {
-        const response = await withConnectionRetry(
-          instance,
-          async (snInstance) => {
-            const tableApi = new TableAPIRequest(snInstance);
-
-            const queryParams: Record<string, string | number> = {
-              sysparm_limit: limit,
-            };
-            if (query) queryParams.sysparm_query = query;
-            if (fields) queryParams.sysparm_fields = fields;
-            if (display_value) queryParams.sysparm_display_value = "true";
-
-            const resp = await tableApi.get<TableResponse>(table, queryParams);
-
-            // If the response looks like a dead session, throw so
-            // withConnectionRetry can evict the cache and retry.
-            if (isRetryableResponse(resp)) {
-              const status = resp?.status ?? "unknown";
-              const statusText = resp?.statusText ?? "No response";
-              throw new Error(
-                `HTTP ${status} ${statusText} querying table "${table}"`
-              );
-            }
-
-            return resp;
-          }
-        );
+        const request: TableQuery = { table, query, fields, displayValue: display_value };
 
-        if (response.status !== 200) {
+        if (cursor && offset !== undefined) {
           return {
             content: [
               {
                 type: "text" as const,
-                text: `Error querying table "${table}": HTTP ${response.status} ${response.statusText}`,
+                text: "Error querying table: pass either cursor or offset, not both. The cursor already holds the offset to resume from.",
               },
             ],
             isError: true,
           };
         }
 
-        const records = response.bodyObject?.result ?? [];
+        let startOffset = offset;
+        if (cursor) {
+          try {
+            startOffset = decodeCursor(cursor, request);
+          } catch (error) {
+            return {
+              content: [{ type: "text" as const, text: `Error querying table: ${(error as Error).message}` }],
+              isError: true,
+            };
+          }
+        }
+
+        // Paging is opt-in so a plain call sends exactly the request it always did.
+        const paging = startOffset !== undefined || all_pages;
+        const target = all_pages ? max_records : limit;
+        const onProgress = all_pages ? progressReporter(extra) : undefined;
+
+        // Under all_pages only the first records are kept; the rest are counted,
+        // and their field names collected, so a large walk stays a small result.
+        const records: Record<string, unknown>[] = [];
+        const fieldNames = new Set<string>();
+        let fetched = 0;
+        let nextOffset = startOffset ?? 0;
+        let pages = 0;
+        let complete = false;
+
+        while (fetched < target) {
+          const requested = Math.min(limit, target - fetched);
+          const response = await withConnectionRetry(instance, (snInstance) =>
+            fetchTablePage(snInstance, request, paging ? nextOffset : undefined, requested)
+          );
+
+          if (response.status !== 200) {
+            // Records already fetched are not thrown away silently: the text says
+            // how far the walk got and how to resume from there.
+            const resume =
+              fetched > 0
+                ? ` Stopped after ${fetched} record(s); resume with cursor ${encodeCursor(request, nextOffset)}`
+                : "";
+            return {
+              content: [
+                {
+                  type: "text" as const,
+                  text: `Error querying table "${table}": HTTP ${response.status} ${response.statusText}.${resume}`,
+                },
+              ],
+              isError: true,
+            };
+          }
+
+          const page: Record<string, unknown>[] = response.bodyObject?.result ?? [];
+          if (all_pages) {
+            records.push(...page.slice(0, ALL_PAGES_SAMPLE_SIZE - records.length));
+            page.forEach((record) => Object.keys(record).forEach((name) => fieldNames.add(name)));
+          } else {
+            records.push(...page);
+          }
+          fetched += page.length;
+          nextOffset += page.length;
+          pages += 1;
+          onProgress?.(`Fetched ${fetched} record(s) from ${table} (page ${pages})`);
+
+          if (page.length < requested) {
+            complete = true;
+            break;
+          }
+          if (!all_pages) break;
+        }
+
+        const nextCursor = paging && !complete ? encodeCursor(request, nextOffset) : undefined;
+
         const lines: string[] = [];
 
         lines.push("=== Query Results ===");
         lines.push(`Table: ${table}`);
         if (query) lines.push(`Query: ${query}`);
         if (fields) lines.push(`Fields: ${fields}`);
-        lines.push(`Records returned: ${records.length}`);
+        if (paging) lines.push(`Offset: ${startOffset ?? 0} (ordered by sys_id)`);
+        if (all_pages) lines.push(`Pages fetched: ${pages}`);
+        lines.push(`Records ${all_pages ? "found" : "returned"}: ${fetched}`);
+        if (all_pages && fieldNames.size > 0) lines.push(`Field names: ${[...fieldNames].join(", ")}`);
 
         if (records.length === 0) {
           lines.push("");
           lines.push("No records found matching the query.");
+        } else if (all_pages) {
+          lines.push("");
+          lines.push(`First ${records.length} record(s), one per line:`);
+          records.forEach((record) => lines.push(JSON.stringify(record)));
         } else {
           records.forEach((record, index) => {
             lines.push("");
@@ -145,16 +260,26 @@ export function registerQueryTableTool(server: McpServer): void {
         }
 
         lines.push("");
-        lines.push(`=== ${records.length} record(s) returned ===`);
+        lines.push(`=== ${fetched} record(s) ${all_pages ? "found" : "returned"} ===`);
+        if (all_pages && fetched > records.length) {
+          lines.push("Only the first records are shown. Use export_table to get all of them in a file.");
+        }
+        if (nextCursor) {
+          lines.push(`More records exist. To continue, call again with cursor: ${nextCursor}`);
+        } else if (!paging && records.length === limit) {
+          lines.push(
+            "The limit was reached, so more records may exist. Use all_pages, or offset, to page through them."
+          );
+        }
 
-        return {
-          content: [
-            {
-              type: "text" as const,
-              text: lines.join("\n"),
-            },
-          ],
-        };
+        return structuredResult(lines.join("\n"), {
+          table,
+          query,
+          fields,
+          records,
+          ...(paging ? { offset: startOffset ?? 0, complete, nextCursor } : {}),
+          ...(all_pages ? { recordCount: fetched, fieldNames: [...fieldNames], pages } : {}),
+        });
       } catch (error) {
         const message =
           error instanceof Error ? error.message : String(error);
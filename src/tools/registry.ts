@@ -33,6 +33,10 @@ import {
   registerUpdateStoreAppTool,
   registerValidateAppInstallTool,
 } from "../tools/app-manager.js";
+import {
+  registerPullApplicationTool,
+  registerPushApplicationTool,
+} from "../tools/app-sync.js";
 import {
   registerRunAtfTestSuiteTool,
   registerRunAtfTestTool,
@@ -68,25 +72,39 @@ import {
   registerListInstanceTablesTool,
   registerListPluginsTool,
 } from "../tools/discovery.js";
+import {
+  registerDiffRecordsTool,
+} from "../tools/diff-records.js";
 import {
   registerExecuteScriptTool,
 } from "../tools/execute-script.js";
+import {
+  registerExportTableTool,
+} from "../tools/export-table.js";
 import {
   registerFindAtfTestsTool,
 } from "../tools/find-atf-tests.js";
 import {
+  registerAwaitFlowContextTool,
   registerCancelFlowTool,
   registerCopyFlowTool,
+  registerDescribeFlowTool,
   registerExecuteActionTool,
   registerExecuteFlowTool,
   registerExecuteSubflowTool,
+  registerFlowDependenciesTool,
   registerGetFlowContextStatusTool,
   registerGetFlowErrorTool,
   registerGetFlowExecutionDetailsTool,
   registerGetFlowLogsTool,
   registerGetFlowOutputsTool,
+  registerSearchFlowExecutionsTool,
   registerTestFlowTool,
 } from "../tools/flow.js";
+import {
+  registerCreateFlowTool,
+  registerUpdateFlowTool,
+} from "../tools/flow-authoring.js";
 import {
   registerCheckInstanceHealthTool,
 } from "../tools/health.js";
@@ -130,6 +148,15 @@ import {
   registerListScopedAppsTool,
   registerSetCurrentScopeTool,
 } from "../tools/scope.js";
+import {
+  registerListSavedScriptsTool,
+  registerRunSavedScriptTool,
+} from "../tools/script-library.js";
+import {
+  registerListScriptWatchesTool,
+  registerUnwatchScriptsTool,
+  registerWatchScriptsTool,
+} from "../tools/script-watch.js";
 import {
   registerPullScriptTool,
   registerPushScriptTool,
@@ -143,6 +170,10 @@ import {
   registerResolveIncidentTool,
 } from "../tools/task.js";
 import {
+  registerUndoOperationTool,
+} from "../tools/undo.js";
+import {
+  registerAnalyzeUpdateSetConflictsTool,
   registerCloneUpdateSetTool,
   registerCreateUpdateSetTool,
   registerGetCurrentUpdateSetTool,
@@ -151,6 +182,15 @@ import {
   registerMoveUpdateSetRecordsTool,
   registerSetCurrentUpdateSetTool,
 } from "../tools/updateset.js";
+import {
+  registerCommitUpdateSetTool,
+  registerExportUpdateSetTool,
+  registerImportUpdateSetXmlTool,
+  registerListUpdateSetProblemsTool,
+  registerPreviewUpdateSetTool,
+  registerResolveUpdateSetProblemsTool,
+  registerRetrieveUpdateSetTool,
+} from "../tools/updateset-promotion.js";
 import {
   registerCreateWorkflowTool,
 } from "../tools/workflow.js";
@@ -176,6 +216,9 @@ export const TOOL_REGISTRY: Record<string, ToolRegistrar> = {
   search_store_apps: registerSearchStoreAppsTool,
   update_store_app: registerUpdateStoreAppTool,
   validate_app_install: registerValidateAppInstallTool,
+  // ---- app-sync
+  pull_application: registerPullApplicationTool,
+  push_application: registerPushApplicationTool,
   // ---- atf
   run_atf_test: registerRunAtfTestTool,
   run_atf_test_suite: registerRunAtfTestSuiteTool,
@@ -204,22 +247,33 @@ export const TOOL_REGISTRY: Record<string, ToolRegistrar> = {
   // ---- discovery
   list_instance_tables: registerListInstanceTablesTool,
   list_plugins: registerListPluginsTool,
+  // ---- diff-records
+  diff_records: registerDiffRecordsTool,
   // ---- execute-script
   execute_script: registerExecuteScriptTool,
+  // ---- export-table
+  export_table: registerExportTableTool,
   // ---- find-atf-tests
   find_atf_tests: registerFindAtfTestsTool,
   // ---- flow
+  await_flow_context: registerAwaitFlowContextTool,
   cancel_flow: registerCancelFlowTool,
   copy_flow: registerCopyFlowTool,
+  describe_flow: registerDescribeFlowTool,
   execute_action: registerExecuteActionTool,
   execute_flow: registerExecuteFlowTool,
   execute_subflow: registerExecuteSubflowTool,
+  flow_dependencies: registerFlowDependenciesTool,
   get_flow_context_status: registerGetFlowContextStatusTool,
   get_flow_error: registerGetFlowErrorTool,
   get_flow_execution_details: registerGetFlowExecutionDetailsTool,
   get_flow_logs: registerGetFlowLogsTool,
   get_flow_outputs: registerGetFlowOutputsTool,
+  search_flow_executions: registerSearchFlowExecutionsTool,
   test_flow: registerTestFlowTool,
+  // ---- flow-authoring
+  create_flow: registerCreateFlowTool,
+  update_flow: registerUpdateFlowTool,
   // ---- health
   check_instance_health: registerCheckInstanceHealthTool,
   // ---- knowledge
@@ -253,6 +307,13 @@ export const TOOL_REGISTRY: Record<string, ToolRegistrar> = {
   get_current_scope: registerGetCurrentScopeTool,
   list_scoped_apps: registerListScopedAppsTool,
   set_current_scope: registerSetCurrentScopeTool,
+  // ---- script-library
+  list_saved_scripts: registerListSavedScriptsTool,
+  run_saved_script: registerRunSavedScriptTool,
+  // ---- script-watch
+  list_script_watches: registerListScriptWatchesTool,
+  unwatch_scripts: registerUnwatchScriptsTool,
+  watch_scripts: registerWatchScriptsTool,
   // ---- scriptsync
   pull_script: registerPullScriptTool,
   push_script: registerPushScriptTool,
@@ -263,7 +324,10 @@ export const TOOL_REGISTRY: Record<string, ToolRegistrar> = {
   close_incident: registerCloseIncidentTool,
   find_task: registerFindTaskTool,
   resolve_incident: registerResolveIncidentTool,
+  // ---- undo
+  undo_operation: registerUndoOperationTool,
   // ---- updateset
+  analyze_update_set_conflicts: registerAnalyzeUpdateSetConflictsTool,
   clone_update_set: registerCloneUpdateSetTool,
   create_update_set: registerCreateUpdateSetTool,
   get_current_update_set: registerGetCurrentUpdateSetTool,
@@ -271,6 +335,14 @@ export const TOOL_REGISTRY: Record<string, ToolRegistrar> = {
   list_update_sets: registerListUpdateSetsTool,
   move_update_set_records: registerMoveUpdateSetRecordsTool,
   set_current_update_set: registerSetCurrentUpdateSetTool,
+  // ---- updateset-promotion
+  commit_update_set: registerCommitUpdateSetTool,
+  export_update_set: registerExportUpdateSetTool,
+  import_update_set_xml: registerImportUpdateSetXmlTool,
+  list_update_set_problems: registerListUpdateSetProblemsTool,
+  preview_update_set: registerPreviewUpdateSetTool,
+  resolve_update_set_problems: registerResolveUpdateSetProblemsTool,
+  retrieve_update_set: registerRetrieveUpdateSetTool,
   // ---- workflow
   create_workflow: registerCreateWorkflowTool,
   // ---- xml-record
@@ -3,6 +3,7 @@ import { z } from "zod";
 import { SchemaDiscovery } from "@sonisoft/now-sdk-ext-core";
 import { withConnectionRetry } from "../common/connection.js";
 import { annotationsFor } from "../common/annotations.js";
+import { recordSchema, structuredResult } from "../common/structured.js";
 
 /**
  * Registers the discover_table_schema tool on the MCP server.
@@ -73,6 +74,16 @@ export function registerDiscoverTableSchemaTool(server: McpServer): void {
             "Include business rules defined on the table."
           ),
       },
+      outputSchema: {
+        table: z.string(),
+        label: z.string().optional(),
+        superClass: z.string().nullish(),
+        fields: z.array(recordSchema),
+        choiceTables: z.array(recordSchema).optional(),
+        relationships: z.array(recordSchema).optional(),
+        uiPolicies: z.array(recordSchema).optional(),
+        businessRules: z.array(recordSchema).optional(),
+      },
     },
     async ({
       instance,
@@ -172,14 +183,7 @@ export function registerDiscoverTableSchemaTool(server: McpServer): void {
         lines.push("");
         lines.push(`=== ${schema.fields.length} field(s) discovered ===`);
 
-        return {
-          content: [
-            {
-              type: "text" as const,
-              text: lines.join("\n"),
-            },
-          ],
-        };
+        return structuredResult(lines.join("\n"), schema);
       } catch (error) {
         const message =
           error instanceof Error ? error.message : String(error);
@@ -236,6 +240,19 @@ export function registerExplainFieldTool(server: McpServer): void {
               '"state", "priority", "assigned_to").'
           ),
       },
+      outputSchema: {
+        table: z.string(),
+        field: z.string(),
+        label: z.string().optional(),
+        type: z.string().optional(),
+        maxLength: z.unknown(),
+        mandatory: z.unknown(),
+        readOnly: z.unknown(),
+        comments: z.string().nullish(),
+        help: z.string().nullish(),
+        referenceTable: z.string().nullish(),
+        choices: z.array(recordSchema).optional(),
+      },
     },
     async ({ instance, table, field }) => {
       try {
@@ -278,14 +295,7 @@ export function registerExplainFieldTool(server: McpServer): void {
           lines.push(`=== ${explanation.choices.length} choice(s) ===`);
         }
 
-        return {
-          content: [
-            {
-              type: "text" as const,
-              text: lines.join("\n"),
-            },
-          ],
-        };
+        return structuredResult(lines.join("\n"), explanation);
       } catch (error) {
         const message =
           error instanceof Error ? error.message : String(error);
@@ -336,6 +346,12 @@ export function registerValidateCatalogTool(server: McpServer): void {
             "The sys_id of the catalog item to validate."
           ),
       },
+      outputSchema: {
+        valid: z.boolean(),
+        errors: z.number(),
+        warnings: z.number(),
+        issues: z.array(recordSchema),
+      },
     },
     async ({ instance, catalog_item_sys_id }) => {
       try {
@@ -383,14 +399,7 @@ export function registerValidateCatalogTool(server: McpServer): void {
           `=== ${result.issues.length} issue(s): ${result.errors} error(s), ${result.warnings} warning(s) ===`
         );
 
-        return {
-          content: [
-            {
-              type: "text" as const,
-              text: lines.join("\n"),
-            },
-          ],
-        };
+        return structuredResult(lines.join("\n"), result);
       } catch (error) {
         const message =
           error instanceof Error ? error.message : String(error);
@@ -3,6 +3,7 @@ import { z } from "zod";
 import { ScopeManager } from "@sonisoft/now-sdk-ext-core";
 import { withConnectionRetry } from "../common/connection.js";
 import { annotationsFor } from "../common/annotations.js";
+import { recordSchema, structuredResult } from "../common/structured.js";
 
 /**
  * Registers the get_current_scope tool on the MCP server.
@@ -30,6 +31,10 @@ export function registerGetCurrentScopeTool(server: McpServer): void {
             "If not provided, falls back to the SN_AUTH_ALIAS environment variable."
           ),
       },
+      outputSchema: {
+        found: z.boolean(),
+        application: recordSchema.optional(),
+      },
     },
     async ({ instance }) => {
       try {
@@ -39,14 +44,9 @@ export function registerGetCurrentScopeTool(server: McpServer): void {
         });
 
         if (!result) {
-          return {
-            content: [
-              {
-                type: "text" as const,
-                text: "No current application scope found.",
-              },
-            ],
-          };
+          return structuredResult("No current application scope found.", {
+            found: false,
+          });
         }
 
         const lines: string[] = [
@@ -58,14 +58,10 @@ export function registerGetCurrentScopeTool(server: McpServer): void {
           `Active:  ${result.active || "(unknown)"}`,
         ];
 
-        return {
-          content: [
-            {
-              type: "text" as const,
-              text: lines.join("\n"),
-            },
-          ],
-        };
+        return structuredResult(lines.join("\n"), {
+          found: true,
+          application: result,
+        });
       } catch (error) {
         const message =
           error instanceof Error ? error.message : String(error);
@@ -119,6 +115,15 @@ export function registerSetCurrentScopeTool(server: McpServer): void {
             'or "global" for the Global scope.'
           ),
       },
+      outputSchema: {
+        success: z.boolean(),
+        application: z.string().optional(),
+        scope: z.string().nullish(),
+        sysId: z.string().optional(),
+        verified: z.boolean().optional(),
+        previousScope: recordSchema.nullish(),
+        warnings: z.array(z.string()),
+      },
     },
     async ({ instance, app_sys_id }) => {
       try {
@@ -152,14 +157,7 @@ export function registerSetCurrentScopeTool(server: McpServer): void {
           }
         }
 
-        return {
-          content: [
-            {
-              type: "text" as const,
-              text: lines.join("\n"),
-            },
-          ],
-        };
+        return structuredResult(lines.join("\n"), result);
       } catch (error) {
         const message =
           error instanceof Error ? error.message : String(error);
@@ -221,6 +219,9 @@ export function registerListScopedAppsTool(server: McpServer): void {
             "minimum 1, maximum 200."
           ),
       },
+      outputSchema: {
+        applications: z.array(recordSchema),
+      },
     },
     async ({ instance, query, limit }) => {
       try {
@@ -230,14 +231,10 @@ export function registerListScopedAppsTool(server: McpServer): void {
         });
 
         if (!apps || apps.length === 0) {
-          return {
-            content: [
-              {
-                type: "text" as const,
-                text: "No scoped applications found matching the criteria.",
-              },
-            ],
-          };
+          return structuredResult(
+            "No scoped applications found matching the criteria.",
+            { applications: [] }
+          );
         }
 
         const lines: string[] = [
@@ -257,14 +254,7 @@ export function registerListScopedAppsTool(server: McpServer): void {
           );
         }
 
-        return {
-          content: [
-            {
-              type: "text" as const,
-              text: lines.join("\n"),
-            },
-          ],
-        };
+        return structuredResult(lines.join("\n"), { applications: apps });
       } catch (error) {
         const message =
           error instanceof Error ? error.message : String(error);
@@ -0,0 +1,190 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { annotationsFor } from "../common/annotations.js";
+import { structuredResult } from "../common/structured.js";
+import { runBackgroundScript, scriptOutputShape } from "../common/background-script.js";
+import {
+  bindParams,
+  describeParam,
+  listSavedScripts,
+  loadSavedScript,
+  renderSavedScript,
+  scriptLibraryDirectory,
+} from "../common/script-library.js";
+
+const paramSchema = z.object({
+  name: z.string(),
+  type: z.string(),
+  values: z.array(z.string()).optional(),
+  required: z.boolean(),
+  default: z.union([z.string(), z.number(), z.boolean()]).optional(),
+  description: z.string(),
+});
+
+/**
+ * Registers the list_saved_scripts tool on the MCP server.
+ *
+ * Lists the scripts in the NEX_SCRIPT_LIBRARY directory with the parameters their
+ * headers declare.
+ */
+export function registerListSavedScriptsTool(server: McpServer): void {
+  server.registerTool(
+    "list_saved_scripts",
+    {
+      annotations: annotationsFor("list_saved_scripts"),
+      title: "List Saved Scripts",
+      description:
+        "List the background scripts in the local script library (the NEX_SCRIPT_LIBRARY " +
+        "directory): each script's name, what it does, its default scope and the " +
+        "parameters it takes. Run one with run_saved_script. Check here before writing " +
+        "a diagnostic script for execute_script — it may already exist.",
+      inputSchema: {},
+      outputSchema: {
+        library: z.string(),
+        scripts: z.array(
+          z.object({
+            name: z.string(),
+            file: z.string(),
+            description: z.string(),
+            scope: z.string().optional(),
+            params: z.array(paramSchema),
+            error: z.string().optional(),
+          })
+        ),
+      },
+    },
+    async () => {
+      try {
+        const library = scriptLibraryDirectory();
+        const scripts = await listSavedScripts();
+
+        const lines: string[] = [];
+        lines.push(`=== Saved Scripts (${scripts.length}) ===`);
+        lines.push(`Library: ${library}`);
+        if (scripts.length === 0) {
+          lines.push("No .js files in the library.");
+        }
+        for (const script of scripts) {
+          lines.push("");
+          lines.push(script.description ? `${script.name} — ${script.description}` : script.name);
+          if (script.error) {
+            lines.push(`  Cannot be run: ${script.error}`);
+            continue;
+          }
+          if (script.scope) lines.push(`  Scope: ${script.scope}`);
+          for (const param of script.params) {
+            lines.push(`  - ${describeParam(param)}${param.description ? `: ${param.description}` : ""}`);
+          }
+        }
+
+        return structuredResult(lines.join("\n"), { library, scripts });
+      } catch (error) {
+        const message =
+          error instanceof Error ? error.message : String(error);
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Error listing saved scripts: ${message}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+}
+
+/**
+ * Registers the run_saved_script tool on the MCP server.
+ *
+ * Runs a library script by name with checked, escaped parameters, the way
+ * execute_script runs an inline one.
+ */
+export function registerRunSavedScriptTool(server: McpServer): void {
+  server.registerTool(
+    "run_saved_script",
+    {
+      annotations: annotationsFor("run_saved_script"),
+      title: "Run Saved Script",
+      description:
+        "Run a script from the local script library (see list_saved_scripts) on a " +
+        "ServiceNow instance via Scripts - Background. Parameters are checked against " +
+        "the types the script's header declares and bound as JavaScript variables, " +
+        "so values are never spliced into the code unescaped.\n\n" +
+        "The result has the same shape as execute_script's: output, logs by level, " +
+        "the nex.result value, and with preview: true the GlideRecord writes that " +
+        "were intercepted.\n\n" +
+        "IMPORTANT: This executes code directly on the ServiceNow instance, exactly " +
+        "as execute_script does.",
+      inputSchema: {
+        instance: z
+          .string()
+          .optional()
+          .describe(
+            "The ServiceNow instance auth alias (e.g., " +
+              '"myinstance", "prod"). If not provided, falls back ' +
+              "to the SN_AUTH_ALIAS environment variable."
+          ),
+        name: z
+          .string()
+          .describe('The script\'s name as list_saved_scripts shows it, e.g. "find-orphans".'),
+        params: z
+          .record(z.union([z.string(), z.number(), z.boolean()]))
+          .optional()
+          .describe("Values for the parameters the script declares, by name."),
+        scope: z
+          .string()
+          .optional()
+          .describe(
+            "The application scope to run in. Defaults to the @scope in the script's " +
+              'header, or "global".'
+          ),
+        preview: z
+          .boolean()
+          .default(false)
+          .describe(
+            "When true, GlideRecord and GlideRecordSecure writes the script makes " +
+              "directly are intercepted and listed in changes rather than committed. " +
+              "Writes made inside Script Includes or other APIs it calls are not " +
+              "intercepted."
+          ),
+      },
+      outputSchema: {
+        ...scriptOutputShape,
+        name: z.string(),
+        params: z.record(z.union([z.string(), z.number(), z.boolean(), z.null()])),
+      },
+    },
+    async ({ instance, name, params, scope, preview }) => {
+      try {
+        const { script, source } = await loadSavedScript(name);
+        const bound = bindParams(script, params ?? {});
+        const run = await runBackgroundScript(
+          instance,
+          renderSavedScript(source, bound),
+          scope ?? script.scope ?? "global",
+          {
+            preview,
+            scriptFile: script.file,
+            // JSON has no undefined: an unset optional parameter is reported as null.
+            extra: { name, params: Object.fromEntries(Object.entries(bound).map(([k, v]) => [k, v ?? null])) },
+          }
+        );
+        return structuredResult(run.text, run.structured);
+      } catch (error) {
+        const message =
+          error instanceof Error ? error.message : String(error);
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Error running saved script: ${message}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+}
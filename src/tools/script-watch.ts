@@ -0,0 +1,370 @@
+import { resolve } from "node:path";
+import { existsSync } from "node:fs";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { LoggingLevel } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import { annotationsFor, requirementFor } from "../common/annotations.js";
+import { auditCall } from "../common/audit.js";
+import { resolveCallAlias } from "../common/instance-policy.js";
+import { getLogger } from "../common/logging.js";
+import { fieldChanges } from "../common/dry-run.js";
+import { readSidecar } from "../common/script-sidecar.js";
+import { checkScriptPush, pushScriptRecord } from "../common/script-push.js";
+import { scriptTable } from "../common/script-tables.js";
+import {
+  DEFAULT_DEBOUNCE_MS,
+  findWatch,
+  startWatch,
+  stopWatch,
+  stopWatchesFor,
+  watchesFor,
+  type ScriptWatch,
+  type WatchOutcome,
+  type WatchSpec,
+  type WatchStatus,
+} from "../common/script-watch.js";
+import { structuredResult } from "../common/structured.js";
+
+const log = getLogger("watch_scripts");
+
+/** The logger name on every notification, so a client can tell these apart. */
+const NOTIFICATION_LOGGER = "watch_scripts";
+
+const LEVELS: Record<WatchStatus, LoggingLevel> = {
+  pushed: "info",
+  unchanged: "debug",
+  conflict: "warning",
+  error: "error",
+};
+
+const watchSchema = z.object({
+  id: z.string(),
+  filePath: z.string(),
+  instance: z.string().optional(),
+  scriptType: z.string(),
+  scriptName: z.string(),
+  sysId: z.string(),
+  debounceMs: z.number(),
+  startedAt: z.string(),
+  pushCount: z.number(),
+  last: z
+    .object({ at: z.string(), status: z.enum(["pushed", "unchanged", "conflict", "error"]), message: z.string() })
+    .optional(),
+});
+
+function toOutput(watch: ScriptWatch): z.infer<typeof watchSchema> {
+  const { alias, ...rest } = watch;
+  return { ...rest, instance: alias };
+}
+
+function describeWatch(watch: ScriptWatch): string {
+  return `${watch.id}  ${watch.filePath} -> ${watch.scriptType} "${watch.scriptName}" on ${watch.alias ?? "(default)"}`;
+}
+
+function outcome(status: WatchStatus, message: string): WatchOutcome {
+  return { at: new Date().toISOString(), status, message };
+}
+
+/** Fire-and-forget, like progress: a lost notification must not stop the watch. */
+function notify(server: McpServer, level: LoggingLevel, watch: ScriptWatch, status: string, message: string): void {
+  server
+    .sendLoggingMessage({
+      level,
+      logger: NOTIFICATION_LOGGER,
+      data: {
+        watchId: watch.id,
+        filePath: watch.filePath,
+        scriptType: watch.scriptType,
+        scriptName: watch.scriptName,
+        instance: watch.alias,
+        status,
+        message,
+      },
+    })
+    .catch((error: unknown) => log.debug("Could not send a watch notification", { id: watch.id, error }));
+}
+
+/**
+ * One settled change: check it as push_script would, push it, and tell the client.
+ * Automatic pushes happen outside any tool call, so they are audited here as
+ * watch_scripts rather than by the guard.
+ */
+async function pushChange(server: McpServer, watch: ScriptWatch): Promise<WatchOutcome> {
+  const definition = scriptTable(watch.scriptType);
+  if (!definition) {
+    return outcome("error", `${watch.scriptType} is no longer a script table. Not pushed.`);
+  }
+  const check = await checkScriptPush(watch.alias, definition, watch.scriptName, watch.filePath, false);
+  if (!check.current) {
+    return outcome("error", `No ${watch.scriptType} record named "${watch.scriptName}" exists any more. Not pushed.`);
+  }
+  if (!check.base) {
+    return outcome("error", "The file's pull record is gone, so a push could not be checked for conflicts. Not pushed.");
+  }
+  // Before the conflict check: a save that changes nothing is not worth a warning,
+  // even when the instance copy has moved on.
+  const base = check.base.base;
+  if (Object.entries(check.local).every(([field, content]) => content === base[field])) {
+    return outcome("unchanged", "The files match what was last pulled or pushed. Not pushed.");
+  }
+  if (check.conflicts.length > 0) {
+    const { pulled, remote } = check.conflicts[0];
+    return outcome(
+      "conflict",
+      `The instance copy changed since the pull (sys_mod_count ${pulled.sys_mod_count} -> ` +
+        `${remote.sys_mod_count}). Not pushed. push_script shows both edits; merge them and ` +
+        "push with force: true, or pull_script again."
+    );
+  }
+  const fields = fieldChanges(check.current, check.local).map((c) => c.field);
+  if (fields.length === 0) {
+    return outcome("unchanged", "The instance already matches the files. Not pushed.");
+  }
+
+  notify(server, "info", watch, "pushing", `Pushing ${watch.filePath} to ${watch.scriptType} "${watch.scriptName}".`);
+  await auditCall(
+    { tool: "watch_scripts", verbs: requirementFor("watch_scripts").verbs, alias: watch.alias },
+    [
+      {
+        instance: watch.alias,
+        script_type: watch.scriptType,
+        script_name: watch.scriptName,
+        file_path: watch.filePath,
+        watch_id: watch.id,
+      },
+    ],
+    async () => {
+      const data = Object.fromEntries(fields.map((field) => [field, check.local[field]]));
+      await pushScriptRecord(watch.alias, definition, watch.sysId, data, watch.filePath);
+      return { structuredContent: { sysId: watch.sysId, fields } };
+    }
+  );
+  return outcome("pushed", `Pushed ${fields.join(", ")} to ${watch.scriptType} "${watch.scriptName}".`);
+}
+
+function onChange(server: McpServer) {
+  return async (watch: ScriptWatch): Promise<WatchOutcome> => {
+    // The session that started the watch has gone; nobody would hear about the pushes.
+    if (!server.isConnected()) {
+      stopWatchesFor(server);
+      return outcome("error", "The session that started this watch has ended. Watch stopped.");
+    }
+    let result: WatchOutcome;
+    try {
+      result = await pushChange(server, watch);
+    } catch (error) {
+      result = outcome("error", error instanceof Error ? error.message : String(error));
+    }
+    notify(server, LEVELS[result.status], watch, result.status, result.message);
+    return result;
+  };
+}
+
+/** Why `filePath` cannot be watched on `alias`, or its watch spec. */
+function planWatch(filePath: string, alias: string | undefined, debounceMs: number): WatchSpec | string {
+  if (!existsSync(filePath)) {
+    return `${filePath}: no such file or directory.`;
+  }
+  const sidecar = readSidecar(filePath);
+  if (!sidecar || !scriptTable(sidecar.table)) {
+    return `${filePath}: not pulled with pull_script, so there is no record to push it to. Pull it first.`;
+  }
+  if (sidecar.instance && sidecar.instance !== alias) {
+    return (
+      `${filePath}: pulled from "${sidecar.instance}", not ${alias ? `"${alias}"` : "the default instance"}. ` +
+      `Pass instance: "${sidecar.instance}".`
+    );
+  }
+  const existing = findWatch(filePath);
+  if (existing) {
+    return `${filePath}: already watched (${existing.id}).`;
+  }
+  return {
+    filePath,
+    alias,
+    scriptType: sidecar.table,
+    scriptName: sidecar.name,
+    sysId: sidecar.sys_id,
+    debounceMs,
+  };
+}
+
+/**
+ * Registers the watch_scripts tool on the MCP server.
+ *
+ * Watches files written by pull_script and pushes each saved change.
+ */
+export function registerWatchScriptsTool(server: McpServer): void {
+  server.registerTool(
+    "watch_scripts",
+    {
+      annotations: annotationsFor("watch_scripts"),
+      title: "Watch Scripts",
+      description:
+        "Watch local script files (or multi-field record directories) previously written by " +
+        "pull_script and push each saved change to the record it was pulled from, until unwatch_scripts stops the watch or " +
+        "the session ends. Changes are debounced, so an editor's save is one push.\n\n" +
+        "IMPORTANT: This modifies code on the ServiceNow instance on every save, without " +
+        "asking again. Each push is checked for conflicts exactly as push_script checks " +
+        "one; a conflicting change is not pushed.\n\n" +
+        'Every push and its outcome is sent as an MCP logging notification from logger "' +
+        NOTIFICATION_LOGGER +
+        '". list_script_watches shows the latest outcome for each file.',
+      inputSchema: {
+        instance: z
+          .string()
+          .optional()
+          .describe(
+            "The ServiceNow instance auth alias the files were pulled from. If not " +
+              "provided, falls back to the SN_AUTH_ALIAS environment variable."
+          ),
+        file_paths: z
+          .array(z.string())
+          .min(1)
+          .max(50)
+          .describe(
+            "Local files, or directories of multi-field records, written by pull_script. " +
+              "Either all are watched, or none."
+          ),
+        debounce_ms: z
+          .number()
+          .int()
+          .min(100)
+          .max(60000)
+          .default(DEFAULT_DEBOUNCE_MS)
+          .describe("How long a file must stay unchanged before it is pushed."),
+      },
+      outputSchema: {
+        watches: z.array(watchSchema),
+      },
+    },
+    async ({ instance, file_paths, debounce_ms }) => {
+      try {
+        const alias = resolveCallAlias(instance);
+        const planned = [...new Set(file_paths.map((p) => resolve(p)))].map((p) => planWatch(p, alias, debounce_ms));
+        const problems = planned.filter((p): p is string => typeof p === "string");
+        if (problems.length > 0) {
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: `Error watching scripts: nothing was watched.\n${problems.map((p) => `  ${p}`).join("\n")}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+
+        const started = (planned as WatchSpec[]).map((spec) => startWatch(server, spec, onChange(server)));
+
+        const lines: string[] = [];
+        lines.push("=== Watching Scripts ===");
+        for (const watch of started) lines.push(describeWatch(watch));
+        lines.push("");
+        lines.push(
+          `Each save is pushed ${debounce_ms} ms after the file stops changing. Outcomes arrive as ` +
+            `logging notifications from "${NOTIFICATION_LOGGER}"; stop with unwatch_scripts.`
+        );
+
+        return structuredResult(lines.join("\n"), { watches: started.map(toOutput) });
+      } catch (error) {
+        const message =
+          error instanceof Error ? error.message : String(error);
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Error watching scripts: ${message}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+}
+
+/**
+ * Registers the unwatch_scripts tool on the MCP server.
+ *
+ * Stops watches started by watch_scripts in this session.
+ */
+export function registerUnwatchScriptsTool(server: McpServer): void {
+  server.registerTool(
+    "unwatch_scripts",
+    {
+      annotations: annotationsFor("unwatch_scripts"),
+      title: "Unwatch Scripts",
+      description:
+        "Stop watches started by watch_scripts in this session. Without watch_ids, stops " +
+        "them all. A push already under way finishes.",
+      inputSchema: {
+        watch_ids: z
+          .array(z.string())
+          .optional()
+          .describe("Ids from watch_scripts or list_script_watches. Omit to stop every watch."),
+      },
+      outputSchema: {
+        stopped: z.array(watchSchema),
+        unknown: z.array(z.string()),
+      },
+    },
+    async ({ watch_ids }) => {
+      const stopped: ScriptWatch[] = [];
+      const unknown: string[] = [];
+      if (watch_ids) {
+        for (const id of watch_ids) {
+          const watch = stopWatch(server, id);
+          if (watch) stopped.push(watch);
+          else unknown.push(id);
+        }
+      } else {
+        stopped.push(...stopWatchesFor(server));
+      }
+
+      const lines: string[] = [];
+      lines.push("=== Unwatch Scripts ===");
+      lines.push(stopped.length > 0 ? `Stopped ${stopped.length}:` : "Nothing was being watched.");
+      for (const watch of stopped) lines.push(`  ${describeWatch(watch)} (${watch.pushCount} pushed)`);
+      if (unknown.length > 0) lines.push(`Not watches of this session: ${unknown.join(", ")}`);
+
+      return structuredResult(lines.join("\n"), { stopped: stopped.map(toOutput), unknown });
+    }
+  );
+}
+
+/**
+ * Registers the list_script_watches tool on the MCP server.
+ *
+ * Lists this session's watches and what each last did.
+ */
+export function registerListScriptWatchesTool(server: McpServer): void {
+  server.registerTool(
+    "list_script_watches",
+    {
+      annotations: annotationsFor("list_script_watches"),
+      title: "List Script Watches",
+      description:
+        "List the files watch_scripts is watching in this session, with how many pushes " +
+        "each has made and the outcome of the latest change.",
+      inputSchema: {},
+      outputSchema: {
+        watches: z.array(watchSchema),
+      },
+    },
+    async () => {
+      const watches = watchesFor(server);
+
+      const lines: string[] = [];
+      lines.push("=== Script Watches ===");
+      if (watches.length === 0) lines.push("Nothing is being watched.");
+      for (const watch of watches) {
+        lines.push(describeWatch(watch));
+        lines.push(`  Pushes: ${watch.pushCount}`);
+        if (watch.last) lines.push(`  Last: ${watch.last.status} at ${watch.last.at} — ${watch.last.message}`);
+      }
+
+      return structuredResult(lines.join("\n"), { watches: watches.map(toOutput) });
+    }
+  );
+}
@@ -1,13 +1,89 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
-import { ScriptSync } from "@sonisoft/now-sdk-ext-core";
-import { withConnectionRetry } from "../common/connection.js";
 import { annotationsFor } from "../common/annotations.js";
+import { resolveCallAlias } from "../common/instance-policy.js";
+import { structuredResult } from "../common/structured.js";
+import { type ScriptConflict } from "../common/script-sidecar.js";
+import { scriptTable, scriptTables, type ScriptTable } from "../common/script-tables.js";
+import { checkScriptPush, pullScriptRecord, pushScriptRecord } from "../common/script-push.js";
+import {
+  describeChanges,
+  dryRunParam,
+  fieldChanges,
+  previewOutputShape,
+} from "../common/dry-run.js";
+
+/** The registry entry for `scriptType`, or an error naming the ones there are. */
+function definitionFor(scriptType: string): ScriptTable {
+  const definition = scriptTable(scriptType);
+  if (!definition) {
+    throw new Error(
+      `"${scriptType}" is not a script table. Known: ${scriptTables().map((t) => t.table).join(", ")}. ` +
+        "Others can be added with NEX_SCRIPT_TABLES in the server's environment."
+    );
+  }
+  return definition;
+}
+
+/** The supported tables and their fields, for the tool descriptions. */
+function describeTables(): string {
+  return scriptTables()
+    .map((t) =>
+      t.fields.length === 1
+        ? `- ${t.table} (${t.fields[0].field})`
+        : `- ${t.table} (${t.fields.map((f) => `${f.field}.${f.extension}`).join(", ")}) — a directory`
+    )
+    .join("\n");
+}
+
+const scriptTypeParam = (verb: string) =>
+  z
+    .string()
+    .describe(
+      `The table holding the script to ${verb}, e.g. "sys_script_include". One of the tables ` +
+        "listed in this tool's description."
+    );
+
+const filesSchema = z.array(z.object({ field: z.string(), path: z.string() }));
+
+function describeConflicts(definition: ScriptTable, scriptName: string, conflicts: ScriptConflict[]): string {
+  const lines: string[] = [];
+  const { pulled, remote } = conflicts[0];
+  lines.push("=== Push Script Refused: Conflict ===");
+  lines.push(`Script: ${scriptName}`);
+  lines.push(`Type: ${definition.table}`);
+  lines.push(
+    `The instance copy changed since it was pulled (sys_mod_count ${pulled.sys_mod_count} -> ` +
+      `${remote.sys_mod_count}, updated ${remote.sys_updated_on}). Pushing would discard ` +
+      "that change. Nothing was pushed."
+  );
+  for (const conflict of conflicts) {
+    lines.push("");
+    if (definition.fields.length > 1) lines.push(`--- Field: ${conflict.field} ---`);
+    lines.push(
+      conflict.overlapping
+        ? "The two edits touch the same lines."
+        : "The two edits touch different lines; merging them by hand should be straightforward."
+    );
+    lines.push("");
+    lines.push("Your edit (pulled -> local file):");
+    lines.push(conflict.localDiff || "(no changes)");
+    lines.push("");
+    lines.push("Their edit (pulled -> instance now):");
+    lines.push(conflict.remoteDiff);
+  }
+  lines.push("");
+  lines.push(
+    "Merge their change into the local file and push again with force: true, or pull_script " +
+      "again to start over from the instance copy."
+  );
+  return lines.join("\n");
+}
 
 /**
  * Registers the pull_script tool on the MCP server.
  *
- * Pulls a script from ServiceNow and saves it to a local file.
+ * Pulls a script record from ServiceNow and saves its script fields to local files.
  */
 export function registerPullScriptTool(server: McpServer): void {
   server.registerTool(
@@ -16,16 +92,12 @@ export function registerPullScriptTool(server: McpServer): void {
       annotations: annotationsFor("pull_script"),
       title: "Pull Script from ServiceNow",
       description:
-        "Pull a script (Script Include, Business Rule, UI Script, UI Action, " +
-        "Client Script) from a ServiceNow instance and save it to a local file. " +
-        "The script content is read from the appropriate table and written to the " +
-        "specified file path.\n\n" +
-        "Supported script types:\n" +
-        "- sys_script_include (Script Include)\n" +
-        "- sys_script (Business Rule)\n" +
-        "- sys_ui_script (UI Script)\n" +
-        "- sys_ui_action (UI Action)\n" +
-        "- sys_script_client (Client Script)",
+        "Pull a script record from a ServiceNow instance and save it locally. A record " +
+        "with one script field is written to file_path. A record with several — a UI " +
+        "page, a Service Portal widget — is written to a directory at file_path, one " +
+        "<field>.<extension> file per field.\n\n" +
+        "Supported tables (script fields):\n" +
+        describeTables(),
       inputSchema: {
         instance: z
           .string()
@@ -39,50 +111,70 @@ export function registerPullScriptTool(server: McpServer): void {
           .string()
           .describe(
             "The name of the script record on the instance " +
-              '(e.g., "MyScriptInclude").'
+              '(e.g., "MyScriptInclude"). For sp_widget, the widget id.'
           ),
-        script_type: z
-          .enum([
-            "sys_script_include",
-            "sys_script",
-            "sys_ui_script",
-            "sys_ui_action",
-            "sys_script_client",
-          ])
-          .describe("The type of script to pull."),
+        script_type: scriptTypeParam("pull"),
+        sys_id: z
+          .string()
+          .optional()
+          .describe("The record's sys_id, when several records share the name."),
         file_path: z
           .string()
-          .describe("Local file path to write the script content to."),
+          .describe(
+            "Local file path to write the script to, or the directory to write the " +
+              "fields of a multi-field record to."
+          ),
+      },
+      outputSchema: {
+        success: z.boolean(),
+        scriptName: z.string().optional(),
+        scriptType: z.string().optional(),
+        sysId: z.string().optional(),
+        filePath: z.string().optional(),
+        message: z.string().optional(),
+        error: z.string().optional(),
+        sidecarPath: z.string().optional(),
+        files: filesSchema.optional(),
       },
     },
-    async ({ instance, script_name, script_type, file_path }) => {
+    async ({ instance, script_name, script_type, sys_id, file_path }) => {
       try {
-        const result = await withConnectionRetry(
-          instance,
-          async (snInstance) => {
-            const sync = new ScriptSync(snInstance);
-            return await sync.pullScript({
-              scriptName: script_name,
-              scriptType: script_type,
-              filePath: file_path,
-            });
-          }
+        const definition = definitionFor(script_type);
+        const { record, files, sidecar } = await pullScriptRecord(
+          resolveCallAlias(instance),
+          definition,
+          sys_id ? { sysId: sys_id } : { name: script_name },
+          file_path
         );
+        const sysId = String(record.sys_id);
 
         const lines: string[] = [];
         lines.push("=== Pull Script Result ===");
-        lines.push(`Success: ${result.success}`);
-        lines.push(`Script: ${result.scriptName}`);
-        lines.push(`Type: ${result.scriptType}`);
-        if (result.sysId) lines.push(`sys_id: ${result.sysId}`);
-        lines.push(`File: ${result.filePath}`);
-        lines.push(`Message: ${result.message}`);
-        if (result.error) lines.push(`Error: ${result.error}`);
+        lines.push("Success: true");
+        lines.push(`Script: ${script_name}`);
+        lines.push(`Type: ${script_type}`);
+        lines.push(`sys_id: ${sysId}`);
+        if (files.length === 1) {
+          lines.push(`File: ${file_path}`);
+        } else {
+          lines.push(`Directory: ${file_path}`);
+          for (const { field, file } of files) lines.push(`  ${field}: ${file}`);
+        }
+        lines.push("Message: Script pulled successfully");
+        if (!sidecar) {
+          lines.push("Note: the modification stamps could not be recorded, so push_script cannot check this file for conflicts.");
+        }
 
-        return {
-          content: [{ type: "text" as const, text: lines.join("\n") }],
-          isError: !result.success,
-        };
+        return structuredResult(lines.join("\n"), {
+          success: true,
+          scriptName: script_name,
+          scriptType: script_type,
+          sysId,
+          filePath: file_path,
+          message: "Script pulled successfully",
+          sidecarPath: sidecar,
+          files: files.map(({ field, file }) => ({ field, path: file })),
+        });
       } catch (error) {
         const message =
           error instanceof Error ? error.message : String(error);
@@ -103,7 +195,7 @@ export function registerPullScriptTool(server: McpServer): void {
 /**
  * Registers the push_script tool on the MCP server.
  *
- * Pushes a local script file to ServiceNow.
+ * Pushes local script files to their record on ServiceNow.
  */
 export function registerPushScriptTool(server: McpServer): void {
   server.registerTool(
@@ -113,16 +205,16 @@ export function registerPushScriptTool(server: McpServer): void {
       title: "Push Script to ServiceNow",
       description:
         "Push a local script file to a ServiceNow instance, updating the script " +
-        "field on the matching record. The file is read from the specified path " +
-        "and the record is found by name in the appropriate table.\n\n" +
+        "field on the matching record. For a table with several script fields, " +
+        "file_path is the directory pull_script wrote, and every field whose file " +
+        "differs from the instance is updated.\n\n" +
         "IMPORTANT: This modifies code on the ServiceNow instance. The record " +
         "must already exist — this updates an existing script, it does not create new ones.\n\n" +
-        "Supported script types:\n" +
-        "- sys_script_include (Script Include)\n" +
-        "- sys_script (Business Rule)\n" +
-        "- sys_ui_script (UI Script)\n" +
-        "- sys_ui_action (UI Action)\n" +
-        "- sys_script_client (Client Script)",
+        "If the file was written by pull_script and the instance copy has been changed " +
+        "since, the push is refused with a three-way diff — your edit and theirs — " +
+        "unless force is true.\n\n" +
+        "Supported tables (script fields):\n" +
+        describeTables(),
       inputSchema: {
         instance: z
           .string()
@@ -137,47 +229,124 @@ export function registerPushScriptTool(server: McpServer): void {
           .describe(
             "The name of the script record to update on the instance."
           ),
-        script_type: z
-          .enum([
-            "sys_script_include",
-            "sys_script",
-            "sys_ui_script",
-            "sys_ui_action",
-            "sys_script_client",
-          ])
-          .describe("The type of script to push."),
+        script_type: scriptTypeParam("push"),
         file_path: z
           .string()
-          .describe("Local file path to read the script content from."),
+          .describe(
+            "Local file path to read the script from, or the directory holding the " +
+              "fields of a multi-field record."
+          ),
+        force: z
+          .boolean()
+          .default(false)
+          .describe(
+            "When true, pushes even if the instance copy changed since the file was " +
+              "pulled, overwriting that change."
+          ),
+        dry_run: dryRunParam,
+      },
+      outputSchema: {
+        success: z.boolean(),
+        scriptName: z.string().optional(),
+        scriptType: z.string().optional(),
+        sysId: z.string().optional(),
+        message: z.string().optional(),
+        error: z.string().optional(),
+        conflictChecked: z.boolean().optional(),
+        fields: z.array(z.string()).optional(),
+        missingFields: z.array(z.string()).optional(),
+        ...previewOutputShape,
       },
     },
-    async ({ instance, script_name, script_type, file_path }) => {
+    async ({ instance, script_name, script_type, file_path, force, dry_run }) => {
       try {
-        const result = await withConnectionRetry(
-          instance,
-          async (snInstance) => {
-            const sync = new ScriptSync(snInstance);
-            return await sync.pushScript({
-              scriptName: script_name,
-              scriptType: script_type,
-              filePath: file_path,
-            });
-          }
+        const definition = definitionFor(script_type);
+        const alias = resolveCallAlias(instance);
+        const { local, missing, base, current, conflicts } = await checkScriptPush(
+          alias,
+          definition,
+          script_name,
+          file_path,
+          force
         );
+        if (!current) {
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: dry_run
+                  ? `Dry run: no ${script_type} record named "${script_name}" exists, so the push would fail.`
+                  : `Error pushing script: no ${script_type} record named "${script_name}" exists.`,
+              },
+            ],
+            isError: true,
+          };
+        }
+
+        if (conflicts.length > 0) {
+          return {
+            content: [{ type: "text" as const, text: describeConflicts(definition, script_name, conflicts) }],
+            isError: true,
+          };
+        }
+
+        const sysId = String(current.sys_id);
+        const changed = fieldChanges(current, local);
+        const conflictChecked = !!base && !force;
+        if (dry_run) {
+          const changes =
+            changed.length > 0
+              ? [{ table: script_type, sys_id: sysId, action: "update" as const, fields: changed }]
+              : [];
+          return structuredResult(describeChanges(changes).join("\n"), {
+            success: true,
+            scriptName: script_name,
+            scriptType: script_type,
+            sysId,
+            message:
+              changed.length > 0
+                ? "Dry run: the script fields listed would be replaced with the files' content."
+                : "Dry run: the files match the instance; nothing would change.",
+            conflictChecked,
+            missingFields: missing,
+            dryRun: true,
+            changes,
+          });
+        }
+
+        const fields = changed.map((c) => c.field);
+        if (fields.length > 0) {
+          const data = Object.fromEntries(fields.map((field) => [field, local[field]]));
+          await pushScriptRecord(alias, definition, sysId, data, file_path);
+        }
+        const message =
+          fields.length > 0 ? "Script pushed successfully" : "The instance already matches the files; nothing was pushed";
 
         const lines: string[] = [];
         lines.push("=== Push Script Result ===");
-        lines.push(`Success: ${result.success}`);
-        lines.push(`Script: ${result.scriptName}`);
-        lines.push(`Type: ${result.scriptType}`);
-        if (result.sysId) lines.push(`sys_id: ${result.sysId}`);
-        lines.push(`Message: ${result.message}`);
-        if (result.error) lines.push(`Error: ${result.error}`);
+        lines.push("Success: true");
+        lines.push(`Script: ${script_name}`);
+        lines.push(`Type: ${script_type}`);
+        lines.push(`sys_id: ${sysId}`);
+        if (definition.fields.length > 1 && fields.length > 0) lines.push(`Fields: ${fields.join(", ")}`);
+        lines.push(`Message: ${message}`);
+        if (missing.length > 0) {
+          lines.push(`Not pushed, no file: ${missing.join(", ")}`);
+        }
+        if (!base) {
+          lines.push("Note: this file has no pull record, so the push was not checked for conflicts.");
+        }
 
-        return {
-          content: [{ type: "text" as const, text: lines.join("\n") }],
-          isError: !result.success,
-        };
+        return structuredResult(lines.join("\n"), {
+          success: true,
+          scriptName: script_name,
+          scriptType: script_type,
+          sysId,
+          message,
+          conflictChecked,
+          fields,
+          missingFields: missing,
+        });
       } catch (error) {
         const message =
           error instanceof Error ? error.message : String(error);
@@ -3,6 +3,7 @@ import { z } from "zod";
 import { TaskOperations } from "@sonisoft/now-sdk-ext-core";
 import { withConnectionRetry } from "../common/connection.js";
 import { annotationsFor } from "../common/annotations.js";
+import { recordSchema, structuredResult } from "../common/structured.js";
 
 /**
  * Instance parameter description shared across all task tools.
@@ -54,6 +55,9 @@ export function registerAddTaskCommentTool(server: McpServer): void {
             "instead of a customer-visible comment. Defaults to false."
           ),
       },
+      outputSchema: {
+        record: recordSchema,
+      },
     },
     async ({ instance, table, record_sys_id, comment, is_work_note }) => {
       try {
@@ -69,14 +73,10 @@ export function registerAddTaskCommentTool(server: McpServer): void {
 
         const noteType = is_work_note ? "Work note" : "Comment";
         const number = result.number ? ` (${result.number})` : "";
-        return {
-          content: [
-            {
-              type: "text" as const,
-              text: `${noteType} added successfully to ${table}/${result.sys_id}${number}.`,
-            },
-          ],
-        };
+        return structuredResult(
+          `${noteType} added successfully to ${table}/${result.sys_id}${number}.`,
+          { record: result }
+        );
       } catch (error) {
         const message =
           error instanceof Error ? error.message : String(error);
@@ -135,6 +135,9 @@ export function registerAssignTaskTool(server: McpServer): void {
             "assignment_group field is also updated."
           ),
       },
+      outputSchema: {
+        record: recordSchema,
+      },
     },
     async ({ instance, table, record_sys_id, assigned_to, assignment_group }) => {
       try {
@@ -149,14 +152,10 @@ export function registerAssignTaskTool(server: McpServer): void {
         });
 
         const number = result.number ? ` (${result.number})` : "";
-        return {
-          content: [
-            {
-              type: "text" as const,
-              text: `Task ${table}/${result.sys_id}${number} assigned successfully to ${assigned_to}.`,
-            },
-          ],
-        };
+        return structuredResult(
+          `Task ${table}/${result.sys_id}${number} assigned successfully to ${assigned_to}.`,
+          { record: result }
+        );
       } catch (error) {
         const message =
           error instanceof Error ? error.message : String(error);
@@ -211,6 +210,9 @@ export function registerResolveIncidentTool(server: McpServer): void {
             '"Solved (Work Around)", "Not Solved (Not Reproducible)").'
           ),
       },
+      outputSchema: {
+        record: recordSchema,
+      },
     },
     async ({ instance, sys_id, resolution_notes, close_code }) => {
       try {
@@ -225,14 +227,10 @@ export function registerResolveIncidentTool(server: McpServer): void {
 
         const number = result.number ? ` ${result.number}` : "";
         const state = result.state ?? "6";
-        return {
-          content: [
-            {
-              type: "text" as const,
-              text: `Incident${number} (${result.sys_id}) resolved successfully. State: ${state}.`,
-            },
-          ],
-        };
+        return structuredResult(
+          `Incident${number} (${result.sys_id}) resolved successfully. State: ${state}.`,
+          { record: result }
+        );
       } catch (error) {
         const message =
           error instanceof Error ? error.message : String(error);
@@ -285,6 +283,9 @@ export function registerCloseIncidentTool(server: McpServer): void {
             '"Solved (Work Around)", "Closed/Resolved by Caller").'
           ),
       },
+      outputSchema: {
+        record: recordSchema,
+      },
     },
     async ({ instance, sys_id, close_notes, close_code }) => {
       try {
@@ -299,14 +300,10 @@ export function registerCloseIncidentTool(server: McpServer): void {
 
         const number = result.number ? ` ${result.number}` : "";
         const state = result.state ?? "7";
-        return {
-          content: [
-            {
-              type: "text" as const,
-              text: `Incident${number} (${result.sys_id}) closed successfully. State: ${state}.`,
-            },
-          ],
-        };
+        return structuredResult(
+          `Incident${number} (${result.sys_id}) closed successfully. State: ${state}.`,
+          { record: result }
+        );
       } catch (error) {
         const message =
           error instanceof Error ? error.message : String(error);
@@ -352,6 +349,9 @@ export function registerApproveChangeTool(server: McpServer): void {
           .optional()
           .describe("Optional comments to include with the approval."),
       },
+      outputSchema: {
+        record: recordSchema,
+      },
     },
     async ({ instance, sys_id, comments }) => {
       try {
@@ -365,14 +365,10 @@ export function registerApproveChangeTool(server: McpServer): void {
 
         const number = result.number ? ` ${result.number}` : "";
         const approval = (result as Record<string, unknown>).approval ?? "approved";
-        return {
-          content: [
-            {
-              type: "text" as const,
-              text: `Change request${number} (${result.sys_id}) approved successfully. Approval: ${approval}.`,
-            },
-          ],
-        };
+        return structuredResult(
+          `Change request${number} (${result.sys_id}) approved successfully. Approval: ${approval}.`,
+          { record: result }
+        );
       } catch (error) {
         const message =
           error instanceof Error ? error.message : String(error);
@@ -423,6 +419,10 @@ export function registerFindTaskTool(server: McpServer): void {
             'The task number to find (e.g., "INC0010001", "CHG0030002", "PRB0040001").'
           ),
       },
+      outputSchema: {
+        found: z.boolean(),
+        record: recordSchema.optional(),
+      },
     },
     async ({ instance, table, number }) => {
       try {
@@ -432,24 +432,16 @@ export function registerFindTaskTool(server: McpServer): void {
         });
 
         if (!result) {
-          return {
-            content: [
-              {
-                type: "text" as const,
-                text: `No record found in ${table} with number "${number}".`,
-              },
-            ],
-          };
+          return structuredResult(
+            `No record found in ${table} with number "${number}".`,
+            { found: false }
+          );
         }
 
-        return {
-          content: [
-            {
-              type: "text" as const,
-              text: JSON.stringify(result, null, 2),
-            },
-          ],
-        };
+        return structuredResult(JSON.stringify(result, null, 2), {
+          found: true,
+          record: result,
+        });
       } catch (error) {
         const message =
           error instanceof Error ? error.message : String(error);
@@ -1,8 +1,10 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
 import { TOOL_PACKAGES } from "../config/tool-packages.js";
 import { resolveToolPackage, ResolvedPackage } from "../common/tool-packages.js";
 import { allToolNames } from "./registry.js";
 import { annotationsFor } from "../common/annotations.js";
+import { structuredResult } from "../common/structured.js";
 
 /**
  * `list_tool_packages` — what is loaded, and what else could be.
@@ -25,6 +27,18 @@ export function registerListToolPackagesTool(server: McpServer, active: Resolved
                 "server but be filtered out of this session, in which case the answer is a " +
                 "different MCP_TOOL_PACKAGE rather than a missing feature.",
             inputSchema: {},
+            outputSchema: {
+                active: z.object({
+                    names: z.array(z.string()),
+                    tools: z.array(z.string()),
+                    fellBack: z.boolean(),
+                    unknownPackages: z.array(z.string()),
+                }),
+                totalTools: z.number(),
+                available: z.array(
+                    z.object({ name: z.string(), description: z.string(), toolCount: z.number() }),
+                ),
+            },
         },
         () => {
             const total = allToolNames().length;
@@ -44,6 +58,7 @@ export function registerListToolPackagesTool(server: McpServer, active: Resolved
 
             lines.push("");
             lines.push("=== Available ===");
+            const available: { name: string; description: string; toolCount: number }[] = [];
             for (const [name, pkg] of Object.entries(TOOL_PACKAGES).sort(([a], [b]) => a.localeCompare(b))) {
                 // Resolve each so the count reflects what would actually register,
                 // not how many names the config happens to list.
@@ -51,12 +66,22 @@ export function registerListToolPackagesTool(server: McpServer, active: Resolved
                 const marker = active.names.includes(name) ? " (active)" : "";
                 lines.push(`${name}${marker} — ${resolved.tools.length} tools`);
                 lines.push(`   ${pkg.description}`);
+                available.push({ name, description: pkg.description, toolCount: resolved.tools.length });
             }
 
             lines.push("");
             lines.push("Set MCP_TOOL_PACKAGE to change this. Comma-separated names are unioned.");
 
-            return { content: [{ type: "text" as const, text: lines.join("\n") }] };
+            return structuredResult(lines.join("\n"), {
+                active: {
+                    names: active.names,
+                    tools: active.tools,
+                    fellBack: active.fellBack,
+                    unknownPackages: active.unknownPackages,
+                },
+                totalTools: total,
+                available,
+            });
         },
     );
 }
@@ -0,0 +1,222 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { BatchOperations } from "@sonisoft/now-sdk-ext-core";
+import { withConnectionRetry } from "../common/connection.js";
+import { annotationsFor } from "../common/annotations.js";
+import { resolveCallAlias } from "../common/instance-policy.js";
+import { errorListSchema, structuredResult } from "../common/structured.js";
+import {
+  describeChanges,
+  dryRunParam,
+  fieldChanges,
+  previewOutputShape,
+  type RecordChange,
+} from "../common/dry-run.js";
+import {
+  loadJournal,
+  planUndo,
+  saveJournal,
+  type UndoConflict,
+} from "../common/undo-journal.js";
+
+const conflictSchema = z.object({
+  table: z.string(),
+  sys_id: z.string(),
+  reason: z.string(),
+  fields: z.array(z.object({ field: z.string(), expected: z.unknown(), current: z.unknown() })).optional(),
+});
+
+function describeConflict(conflict: UndoConflict): string[] {
+  if (conflict.reason === "deleted") {
+    return [`  ${conflict.table} ${conflict.sys_id}: deleted since`];
+  }
+  return [
+    `  ${conflict.table} ${conflict.sys_id}: changed since by someone else`,
+    ...(conflict.fields ?? []).map(
+      (f) =>
+        `    ${f.field}: this operation set ${JSON.stringify(f.expected ?? null)}, now ${JSON.stringify(f.current ?? null)}`
+    ),
+  ];
+}
+
+/**
+ * Registers the undo_operation tool on the MCP server.
+ *
+ * Restores the fields a journaled bulk update changed to their prior values.
+ */
+export function registerUndoOperationTool(server: McpServer): void {
+  server.registerTool(
+    "undo_operation",
+    {
+      annotations: annotationsFor("undo_operation"),
+      title: "Undo Operation",
+      description:
+        "Undo a batch_update_records or query_update_records call by restoring the " +
+        "fields it changed to their values before it ran. Takes the operation id that " +
+        "call returned. Needs the server's undo journal (NEX_UNDO_DIR) to have been on " +
+        "when the update ran.\n\n" +
+        "Records that someone else has changed since — one of the same fields now " +
+        "holds a different value — are reported as conflicts and left alone, unless " +
+        "force is true. Records already restored are skipped, so calling again after " +
+        "resolving conflicts is safe.\n\n" +
+        "IMPORTANT: This modifies records on the ServiceNow instance. Use dry_run to " +
+        "see what would be restored first.",
+      inputSchema: {
+        instance: z
+          .string()
+          .optional()
+          .describe(
+            "The ServiceNow instance auth alias (e.g., " +
+              '"myinstance", "prod"). If not provided, falls back ' +
+              "to the SN_AUTH_ALIAS environment variable. Must be the instance " +
+              "the operation ran on."
+          ),
+        operation_id: z
+          .string()
+          .describe("The undoOperationId returned by the update being undone."),
+        force: z
+          .boolean()
+          .default(false)
+          .describe(
+            "When true, conflicting records are restored too, overwriting the changes " +
+              "made since. Also allows undoing an operation whose outcome was never recorded."
+          ),
+        dry_run: dryRunParam,
+      },
+      outputSchema: {
+        operationId: z.string(),
+        tool: z.string(),
+        restoredCount: z.number(),
+        conflicts: z.array(conflictSchema),
+        errors: errorListSchema,
+        complete: z.boolean(),
+        ...previewOutputShape,
+      },
+    },
+    async ({ instance, operation_id, force, dry_run }) => {
+      try {
+        const entry = loadJournal(operation_id);
+
+        // The guard checked policy against the alias this call names, so the call
+        // must name the one the operation changed — not quietly connect elsewhere.
+        const alias = resolveCallAlias(instance);
+        if ((entry.alias ?? undefined) !== alias) {
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text:
+                  `Error undoing operation: "${operation_id}" ran on instance "${entry.alias}", ` +
+                  `not "${alias ?? "(none)"}". Pass instance: "${entry.alias}".`,
+              },
+            ],
+            isError: true,
+          };
+        }
+        if (entry.status === "pending" && !force) {
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text:
+                  `Error undoing operation: "${operation_id}" has no recorded outcome — the server ` +
+                  "could not read the records back after the write, so which of them it changed is " +
+                  "unknown. Pass force: true to restore every journaled record to its prior values.",
+              },
+            ],
+            isError: true,
+          };
+        }
+
+        const outcome = await withConnectionRetry(instance, async (snInstance) => {
+          const { restore, conflicts, current } = await planUndo(snInstance, entry, force);
+
+          const changes: RecordChange[] = restore.map((r) => ({
+            table: r.table,
+            sys_id: r.sys_id,
+            action: "update",
+            fields: fieldChanges(current.get(`${r.table}:${r.sys_id}`), r.before),
+          }));
+          if (dry_run || restore.length === 0) {
+            return { restore, conflicts, changes, updatedCount: 0, errors: [] as unknown[] };
+          }
+
+          const batch = new BatchOperations(snInstance);
+          const result = await batch.batchUpdate({
+            updates: restore.map((r) => ({ table: r.table, sysId: r.sys_id, data: r.before })),
+            stopOnError: false,
+          });
+          const failed = new Set(result.errors.map((e) => e.updateIndex));
+          restore.forEach((r, index) => {
+            if (!failed.has(index)) r.undone = true;
+          });
+          return { restore, conflicts, changes, updatedCount: result.updatedCount, errors: result.errors as unknown[] };
+        });
+
+        if (dry_run) {
+          const lines = [...describeChanges(outcome.changes)];
+          if (outcome.conflicts.length > 0) {
+            lines.push("", "Conflicts (would be skipped):", ...outcome.conflicts.flatMap(describeConflict));
+          }
+          return structuredResult(lines.join("\n"), {
+            operationId: entry.id,
+            tool: entry.tool,
+            restoredCount: 0,
+            conflicts: outcome.conflicts,
+            errors: [],
+            complete: false,
+            dryRun: true,
+            changes: outcome.changes,
+          });
+        }
+
+        const complete = entry.records.every((r) => r.undone);
+        if (complete) entry.status = "undone";
+        saveJournal(entry);
+
+        const lines: string[] = [];
+        lines.push("=== Undo Operation Result ===");
+        lines.push(`Operation: ${entry.id} (${entry.tool}, ${entry.createdAt})`);
+        lines.push(`Instance: ${entry.alias}`);
+        lines.push(`Restored: ${outcome.updatedCount} record(s)`);
+        if (outcome.conflicts.length > 0) {
+          lines.push("");
+          lines.push(`Conflicts — not restored (${outcome.conflicts.length}):`);
+          lines.push(...outcome.conflicts.flatMap(describeConflict));
+          lines.push("");
+          lines.push("Call again with force: true to restore these too, overwriting the later changes.");
+        }
+        if (outcome.errors.length > 0) {
+          lines.push("");
+          lines.push("Errors:");
+          for (const err of outcome.errors) {
+            lines.push(`  ${JSON.stringify(err)}`);
+          }
+        }
+        lines.push("");
+        lines.push(complete ? "The operation is fully undone." : "The operation is not fully undone.");
+
+        return structuredResult(lines.join("\n"), {
+          operationId: entry.id,
+          tool: entry.tool,
+          restoredCount: outcome.updatedCount,
+          conflicts: outcome.conflicts,
+          errors: outcome.errors,
+          complete,
+        });
+      } catch (error) {
+        const message =
+          error instanceof Error ? error.message : String(error);
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Error undoing operation: ${message}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+}
@@ -0,0 +1,622 @@
+import { existsSync } from "node:fs";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { dirname, resolve } from "node:path";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { progressReporter } from "../common/progress.js";
+import { annotationsFor } from "../common/annotations.js";
+import { structuredResult } from "../common/structured.js";
+import {
+  awaitTracker,
+  listPreviewProblems,
+  loadRemoteUpdateSet,
+  readRemoteUpdateSet,
+  readUpdateSet,
+  resolvePreviewProblems,
+  retrieveUpdateSet,
+  startCommit,
+  startPreview,
+  type PreviewProblem,
+  type TrackerResult,
+} from "../common/update-set-promotion.js";
+import { buildUnloadXml, parseUnloadXml } from "../common/update-set-xml.js";
+
+const INSTANCE_DESC =
+  "The ServiceNow instance auth alias to promote INTO — the target. " +
+  "This is the alias configured via `snc configure` (e.g., " +
+  '"test", "prod"). If not provided, falls back to the SN_AUTH_ALIAS environment variable.';
+
+const REMOTE_UPDATE_SET_DESC =
+  "The sys_id of the retrieved update set (sys_remote_update_set) on the target, " +
+  "as retrieve_update_set returned it.";
+
+const problemSchema = z.object({
+  sys_id: z.string(),
+  type: z.string(),
+  status: z.string(),
+  description: z.string(),
+  update: z.string().optional(),
+  missingItem: z.string().optional(),
+  missingItemTable: z.string().optional(),
+  resolution: z.string(),
+});
+
+const trackerSchema = z.object({
+  progressId: z.string(),
+  finished: z.boolean(),
+  state: z.string(),
+  percentComplete: z.number(),
+  message: z.string().optional(),
+});
+
+const timeoutParam = (defaultSeconds: number) =>
+  z
+    .number()
+    .int()
+    .min(0)
+    .max(3600)
+    .default(defaultSeconds)
+    .describe(
+      "How long to wait for the instance to finish, in seconds. If it has not " +
+        "finished by then the tool returns anyway; the work carries on on the instance."
+    );
+
+function describeProblems(problems: PreviewProblem[]): string[] {
+  const lines: string[] = [];
+  for (const problem of problems) {
+    lines.push("");
+    lines.push(`[${problem.type.toUpperCase()}] ${problem.sys_id}${problem.status !== "unresolved" ? ` (${problem.status})` : ""}`);
+    if (problem.update) lines.push(`  Update: ${problem.update}`);
+    lines.push(`  ${problem.description}`);
+    if (problem.missingItem) {
+      lines.push(`  Missing: ${problem.missingItemTable ? `${problem.missingItemTable} ` : ""}${problem.missingItem}`);
+    }
+    if (problem.status === "unresolved") lines.push(`  Resolution: ${problem.resolution}`);
+  }
+  return lines;
+}
+
+function describeTracker(label: string, tracker: TrackerResult, timeoutSeconds: number): string {
+  if (!tracker.finished) {
+    return (
+      `${label} is still running after ${timeoutSeconds}s (${tracker.percentComplete}%, progress ${tracker.progressId}). ` +
+      "It carries on on the instance; check the update set's state with list_update_set_problems."
+    );
+  }
+  return `${label}: ${tracker.state}${tracker.message ? ` — ${tracker.message}` : ""}`;
+}
+
+/**
+ * Registers the retrieve_update_set tool on the MCP server.
+ *
+ * Copies a completed update set from a source instance into a target instance as a
+ * retrieved update set, ready to preview.
+ */
+export function registerRetrieveUpdateSetTool(server: McpServer): void {
+  server.registerTool(
+    "retrieve_update_set",
+    {
+      annotations: annotationsFor("retrieve_update_set"),
+      title: "Retrieve Update Set",
+      description:
+        "Retrieve a completed update set from a source instance into a target instance, " +
+        "the first step of promoting it. Creates a retrieved update set " +
+        "(sys_remote_update_set) on the target in state 'loaded' with a copy of every " +
+        "update; nothing is applied until commit_update_set.\n\n" +
+        "Then: preview_update_set, resolve its problems with resolve_update_set_problems, " +
+        "and commit_update_set.",
+      inputSchema: {
+        instance: z.string().optional().describe(INSTANCE_DESC),
+        source_instance: z
+          .string()
+          .describe('The auth alias of the instance the update set comes from, e.g. "dev".'),
+        update_set_sys_id: z
+          .string()
+          .describe("The sys_id of the update set on the source instance. It must be complete."),
+      },
+      outputSchema: {
+        sourceUpdateSetId: z.string(),
+        sourceUpdateSetName: z.string(),
+        remoteUpdateSetId: z.string(),
+        updateCount: z.number(),
+      },
+    },
+    async ({ instance, source_instance, update_set_sys_id }, extra) => {
+      try {
+        const onProgress = progressReporter(extra);
+        const result = await retrieveUpdateSet(source_instance, instance, update_set_sys_id, onProgress);
+
+        const lines: string[] = [];
+        lines.push("=== Update Set Retrieved ===");
+        lines.push(`Source: ${result.source.name} (${result.source.sys_id}) on ${source_instance}`);
+        lines.push(`Retrieved update set: ${result.remoteUpdateSetId}`);
+        lines.push(`Updates: ${result.updateCount}`);
+        lines.push("");
+        lines.push("Next: preview_update_set with this retrieved update set.");
+
+        return structuredResult(lines.join("\n"), {
+          sourceUpdateSetId: result.source.sys_id,
+          sourceUpdateSetName: result.source.name,
+          remoteUpdateSetId: result.remoteUpdateSetId,
+          updateCount: result.updateCount,
+        });
+      } catch (error) {
+        const message =
+          error instanceof Error ? error.message : String(error);
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Error retrieving update set: ${message}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+}
+
+/**
+ * Registers the export_update_set tool on the MCP server.
+ *
+ * Writes a completed update set and its updates to a local file as unload XML.
+ */
+export function registerExportUpdateSetTool(server: McpServer): void {
+  server.registerTool(
+    "export_update_set",
+    {
+      annotations: annotationsFor("export_update_set"),
+      title: "Export Update Set",
+      description:
+        "Export a completed update set and all its updates to a local XML file in the " +
+        "platform's unload format — the file \"Export to XML\" produces, for checking " +
+        "into git or attaching to a change. Load it into another instance with " +
+        "import_update_set_xml, or through the platform's \"Import Update Set from XML\".",
+      inputSchema: {
+        instance: z
+          .string()
+          .optional()
+          .describe(
+            "The ServiceNow instance auth alias the update set is on. If not provided, " +
+              "falls back to the SN_AUTH_ALIAS environment variable."
+          ),
+        update_set_sys_id: z
+          .string()
+          .describe("The sys_id of the update set to export. It must be complete."),
+        file_path: z
+          .string()
+          .describe("Local file path to write. Parent directories are created."),
+        overwrite: z
+          .boolean()
+          .default(false)
+          .describe("When true, replaces an existing file at file_path. Otherwise an existing file is an error."),
+      },
+      outputSchema: {
+        updateSetId: z.string(),
+        name: z.string(),
+        filePath: z.string(),
+        updateCount: z.number(),
+        bytes: z.number(),
+      },
+    },
+    async ({ instance, update_set_sys_id, file_path, overwrite }, extra) => {
+      try {
+        const filePath = resolve(file_path);
+        // Checked before any request so a mistake costs nothing; the write is exclusive too.
+        if (!overwrite && existsSync(filePath)) {
+          throw new Error(`"${filePath}" already exists. Pass overwrite: true to replace it.`);
+        }
+
+        const onProgress = progressReporter(extra);
+        const { source, copy } = await readUpdateSet(instance, update_set_sys_id, onProgress);
+        const xml = buildUnloadXml(copy);
+        await mkdir(dirname(filePath), { recursive: true });
+        await writeFile(filePath, xml, { flag: overwrite ? "w" : "wx" });
+        const bytes = Buffer.byteLength(xml);
+
+        const lines: string[] = [];
+        lines.push("=== Update Set Exported ===");
+        lines.push(`Update set: ${source.name} (${source.sys_id})`);
+        lines.push(`File: ${filePath}`);
+        lines.push(`Updates: ${copy.updates.length}`);
+        lines.push(`Size: ${bytes} bytes`);
+
+        return structuredResult(lines.join("\n"), {
+          updateSetId: source.sys_id,
+          name: source.name,
+          filePath,
+          updateCount: copy.updates.length,
+          bytes,
+        });
+      } catch (error) {
+        const message =
+          error instanceof Error ? error.message : String(error);
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Error exporting update set: ${message}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+}
+
+/**
+ * Registers the import_update_set_xml tool on the MCP server.
+ *
+ * Loads an exported update set file into an instance as a retrieved update set,
+ * ready to preview.
+ */
+export function registerImportUpdateSetXmlTool(server: McpServer): void {
+  server.registerTool(
+    "import_update_set_xml",
+    {
+      annotations: annotationsFor("import_update_set_xml"),
+      title: "Import Update Set XML",
+      description:
+        "Load an update set exported as XML (by export_update_set or the platform's " +
+        "\"Export to XML\") into an instance as a retrieved update set in state 'loaded' — " +
+        "what \"Import Update Set from XML\" does. Nothing is applied until " +
+        "commit_update_set; continue with preview_update_set.",
+      inputSchema: {
+        instance: z.string().optional().describe(INSTANCE_DESC),
+        file_path: z
+          .string()
+          .describe("Local path of the exported update set XML file."),
+      },
+      outputSchema: {
+        name: z.string(),
+        filePath: z.string(),
+        remoteUpdateSetId: z.string(),
+        updateCount: z.number(),
+      },
+    },
+    async ({ instance, file_path }, extra) => {
+      try {
+        const filePath = resolve(file_path);
+        const copy = parseUnloadXml(await readFile(filePath, "utf8"));
+
+        const onProgress = progressReporter(extra);
+        const result = await loadRemoteUpdateSet(instance, copy, onProgress);
+
+        const lines: string[] = [];
+        lines.push("=== Update Set Imported ===");
+        lines.push(`Update set: ${copy.header.name}`);
+        lines.push(`File: ${filePath}`);
+        lines.push(`Retrieved update set: ${result.remoteUpdateSetId}`);
+        lines.push(`Updates: ${result.updateCount}`);
+        lines.push("");
+        lines.push("Next: preview_update_set with this retrieved update set.");
+
+        return structuredResult(lines.join("\n"), {
+          name: copy.header.name ?? "",
+          filePath,
+          remoteUpdateSetId: result.remoteUpdateSetId,
+          updateCount: result.updateCount,
+        });
+      } catch (error) {
+        const message =
+          error instanceof Error ? error.message : String(error);
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Error importing update set XML: ${message}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+}
+
+/**
+ * Registers the preview_update_set tool on the MCP server.
+ *
+ * Runs the update set preview on a retrieved update set and reports its problems.
+ */
+export function registerPreviewUpdateSetTool(server: McpServer): void {
+  server.registerTool(
+    "preview_update_set",
+    {
+      annotations: annotationsFor("preview_update_set"),
+      title: "Preview Update Set",
+      description:
+        "Run the update set preview on a retrieved update set, as the Preview Update Set " +
+        "button does, wait for it, and list the problems it found with how each is " +
+        "usually resolved. Previewing again regenerates the problems from scratch. " +
+        "Sends progress notifications while the preview runs, when the client asks for them.",
+      inputSchema: {
+        instance: z.string().optional().describe(INSTANCE_DESC),
+        remote_update_set_sys_id: z.string().describe(REMOTE_UPDATE_SET_DESC),
+        timeout_seconds: timeoutParam(600),
+      },
+      outputSchema: {
+        remoteUpdateSetId: z.string(),
+        name: z.string(),
+        state: z.string(),
+        tracker: trackerSchema,
+        problems: z.array(problemSchema),
+      },
+    },
+    async ({ instance, remote_update_set_sys_id, timeout_seconds }, extra) => {
+      try {
+        const onProgress = progressReporter(extra);
+        const progressId = await startPreview(instance, remote_update_set_sys_id);
+        const tracker = await awaitTracker(instance, progressId, {
+          label: "Preview",
+          timeoutMs: timeout_seconds * 1000,
+          onProgress,
+        });
+        const remote = await readRemoteUpdateSet(instance, remote_update_set_sys_id);
+        const problems = tracker.finished ? await listPreviewProblems(instance, remote_update_set_sys_id) : [];
+
+        const lines: string[] = [];
+        lines.push(`=== Update Set Preview: ${remote.name} ===`);
+        lines.push(describeTracker("Preview", tracker, timeout_seconds));
+        lines.push(`State: ${remote.state}`);
+        if (tracker.finished) {
+          lines.push(
+            problems.length === 0
+              ? "No problems. Ready for commit_update_set."
+              : `Problems to resolve before committing: ${problems.length}`
+          );
+          lines.push(...describeProblems(problems));
+        }
+
+        return structuredResult(lines.join("\n"), {
+          remoteUpdateSetId: remote.sys_id,
+          name: remote.name,
+          state: remote.state,
+          tracker,
+          problems,
+        });
+      } catch (error) {
+        const message =
+          error instanceof Error ? error.message : String(error);
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Error previewing update set: ${message}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+}
+
+/**
+ * Registers the list_update_set_problems tool on the MCP server.
+ *
+ * Lists a retrieved update set's preview problems with their resolutions.
+ */
+export function registerListUpdateSetProblemsTool(server: McpServer): void {
+  server.registerTool(
+    "list_update_set_problems",
+    {
+      annotations: annotationsFor("list_update_set_problems"),
+      title: "List Update Set Problems",
+      description:
+        "List the preview problems of a retrieved update set, with how each kind is " +
+        "usually resolved, and the update set's state (loaded, previewed, committed). " +
+        "By default only problems not yet accepted or skipped are listed.",
+      inputSchema: {
+        instance: z.string().optional().describe(INSTANCE_DESC),
+        remote_update_set_sys_id: z.string().describe(REMOTE_UPDATE_SET_DESC),
+        include_resolved: z
+          .boolean()
+          .default(false)
+          .describe("When true, also list problems already accepted or skipped."),
+      },
+      outputSchema: {
+        remoteUpdateSetId: z.string(),
+        name: z.string(),
+        state: z.string(),
+        problems: z.array(problemSchema),
+      },
+    },
+    async ({ instance, remote_update_set_sys_id, include_resolved }) => {
+      try {
+        const remote = await readRemoteUpdateSet(instance, remote_update_set_sys_id);
+        const problems = await listPreviewProblems(instance, remote_update_set_sys_id, include_resolved);
+
+        const lines: string[] = [];
+        lines.push(`=== Preview Problems: ${remote.name} ===`);
+        lines.push(`State: ${remote.state}`);
+        lines.push(`Problems: ${problems.length}${include_resolved ? "" : " unresolved"}`);
+        lines.push(...describeProblems(problems));
+
+        return structuredResult(lines.join("\n"), {
+          remoteUpdateSetId: remote.sys_id,
+          name: remote.name,
+          state: remote.state,
+          problems,
+        });
+      } catch (error) {
+        const message =
+          error instanceof Error ? error.message : String(error);
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Error listing update set problems: ${message}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+}
+
+/**
+ * Registers the resolve_update_set_problems tool on the MCP server.
+ *
+ * Accepts or skips preview problems of a retrieved update set.
+ */
+export function registerResolveUpdateSetProblemsTool(server: McpServer): void {
+  server.registerTool(
+    "resolve_update_set_problems",
+    {
+      annotations: annotationsFor("resolve_update_set_problems"),
+      title: "Resolve Update Set Problems",
+      description:
+        "Accept or skip preview problems of a retrieved update set, as the Accept remote " +
+        "update and Skip remote update buttons do. Accept commits the update anyway; " +
+        "skip leaves it out of the commit.\n\n" +
+        "IMPORTANT: Accepting a problem can overwrite a newer change on the target when " +
+        "the update set is committed. Read each problem's resolution first.",
+      inputSchema: {
+        instance: z.string().optional().describe(INSTANCE_DESC),
+        remote_update_set_sys_id: z.string().describe(REMOTE_UPDATE_SET_DESC),
+        problem_sys_ids: z
+          .array(z.string())
+          .min(1)
+          .describe("The sys_ids of the problems to resolve, from list_update_set_problems."),
+        action: z
+          .enum(["accept", "skip"])
+          .describe("accept: apply the update anyway. skip: leave the update out of the commit."),
+      },
+      outputSchema: {
+        action: z.enum(["accept", "skip"]),
+        resolved: z.array(z.string()),
+        notFound: z.array(z.string()),
+        remaining: z.number(),
+      },
+    },
+    async ({ instance, remote_update_set_sys_id, problem_sys_ids, action }) => {
+      try {
+        const { resolved, notFound } = await resolvePreviewProblems(
+          instance,
+          remote_update_set_sys_id,
+          problem_sys_ids,
+          action
+        );
+        const remaining = await listPreviewProblems(instance, remote_update_set_sys_id);
+
+        const lines: string[] = [];
+        lines.push(`=== Problems ${action === "accept" ? "Accepted" : "Skipped"}: ${resolved.length} ===`);
+        if (notFound.length > 0) {
+          lines.push(`Not problems of this update set, left alone: ${notFound.join(", ")}`);
+        }
+        lines.push(
+          remaining.length === 0
+            ? "No unresolved problems remain. Ready for commit_update_set."
+            : `Unresolved problems remaining: ${remaining.length}`
+        );
+
+        return structuredResult(lines.join("\n"), {
+          action,
+          resolved,
+          notFound,
+          remaining: remaining.length,
+        });
+      } catch (error) {
+        const message =
+          error instanceof Error ? error.message : String(error);
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Error resolving update set problems: ${message}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+}
+
+/**
+ * Registers the commit_update_set tool on the MCP server.
+ *
+ * Commits a previewed retrieved update set whose problems are all resolved.
+ */
+export function registerCommitUpdateSetTool(server: McpServer): void {
+  server.registerTool(
+    "commit_update_set",
+    {
+      annotations: annotationsFor("commit_update_set"),
+      title: "Commit Update Set",
+      description:
+        "Commit a retrieved update set on the target instance, applying every update in " +
+        "it that was not skipped. It must have been previewed, and every preview problem " +
+        "accepted or skipped; the tool refuses otherwise, as the Commit Update Set button " +
+        "does. Sends progress notifications while the commit runs, when the client asks for them.\n\n" +
+        "IMPORTANT: This changes the target instance's configuration. A committed update " +
+        "set can only be undone by backing it out.",
+      inputSchema: {
+        instance: z.string().optional().describe(INSTANCE_DESC),
+        remote_update_set_sys_id: z.string().describe(REMOTE_UPDATE_SET_DESC),
+        timeout_seconds: timeoutParam(1800),
+      },
+      outputSchema: {
+        remoteUpdateSetId: z.string(),
+        name: z.string(),
+        state: z.string(),
+        tracker: trackerSchema,
+      },
+    },
+    async ({ instance, remote_update_set_sys_id, timeout_seconds }, extra) => {
+      try {
+        const before = await readRemoteUpdateSet(instance, remote_update_set_sys_id);
+        if (before.state !== "previewed") {
+          throw new Error(
+            `"${before.name}" is ${before.state}, not previewed. ` +
+              (before.state === "committed" ? "It is already committed." : "Run preview_update_set first.")
+          );
+        }
+        const unresolved = await listPreviewProblems(instance, remote_update_set_sys_id);
+        if (unresolved.length > 0) {
+          throw new Error(
+            `"${before.name}" has ${unresolved.length} unresolved preview problem(s). ` +
+              "Accept or skip each with resolve_update_set_problems first; list_update_set_problems shows them."
+          );
+        }
+
+        const onProgress = progressReporter(extra);
+        const progressId = await startCommit(instance, remote_update_set_sys_id);
+        const tracker = await awaitTracker(instance, progressId, {
+          label: "Commit",
+          timeoutMs: timeout_seconds * 1000,
+          onProgress,
+        });
+        const remote = await readRemoteUpdateSet(instance, remote_update_set_sys_id);
+
+        const lines: string[] = [];
+        lines.push(`=== Update Set Commit: ${remote.name} ===`);
+        lines.push(describeTracker("Commit", tracker, timeout_seconds));
+        lines.push(`State: ${remote.state}`);
+
+        return structuredResult(lines.join("\n"), {
+          remoteUpdateSetId: remote.sys_id,
+          name: remote.name,
+          state: remote.state,
+          tracker,
+        });
+      } catch (error) {
+        const message =
+          error instanceof Error ? error.message : String(error);
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Error committing update set: ${message}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+}
@@ -3,7 +3,20 @@ import { z } from "zod";
 import { UpdateSetManager } from "@sonisoft/now-sdk-ext-core";
 import { withConnectionRetry } from "../common/connection.js";
 import { progressReporter } from "../common/progress.js";
+import { analyzeUpdateSetConflicts } from "../common/update-set-conflicts.js";
 import { annotationsFor } from "../common/annotations.js";
+import {
+  errorListSchema,
+  recordSchema,
+  structuredResult,
+} from "../common/structured.js";
+import {
+  describeChanges,
+  dryRunParam,
+  fieldChanges,
+  previewOutputShape,
+  readRecords,
+} from "../common/dry-run.js";
 
 /**
  * Registers the get_current_update_set tool on the MCP server.
@@ -30,6 +43,10 @@ export function registerGetCurrentUpdateSetTool(server: McpServer): void {
             "If not provided, falls back to the SN_AUTH_ALIAS environment variable."
           ),
       },
+      outputSchema: {
+        found: z.boolean(),
+        updateSet: recordSchema.optional(),
+      },
     },
     async ({ instance }) => {
       try {
@@ -39,14 +56,10 @@ export function registerGetCurrentUpdateSetTool(server: McpServer): void {
         });
 
         if (!result) {
-          return {
-            content: [
-              {
-                type: "text" as const,
-                text: "No current update set is set for this session.",
-              },
-            ],
-          };
+          return structuredResult(
+            "No current update set is set for this session.",
+            { found: false }
+          );
         }
 
         const lines = [
@@ -57,14 +70,10 @@ export function registerGetCurrentUpdateSetTool(server: McpServer): void {
           `Application: ${result.application || "(none)"}`,
         ];
 
-        return {
-          content: [
-            {
-              type: "text" as const,
-              text: lines.join("\n"),
-            },
-          ],
-        };
+        return structuredResult(lines.join("\n"), {
+          found: true,
+          updateSet: result,
+        });
       } catch (error) {
         const message =
           error instanceof Error ? error.message : String(error);
@@ -128,6 +137,9 @@ export function registerListUpdateSetsTool(server: McpServer): void {
             '"sys_id,name,state,description").'
           ),
       },
+      outputSchema: {
+        updateSets: z.array(recordSchema),
+      },
     },
     async ({ instance, query, limit, fields }) => {
       try {
@@ -137,14 +149,9 @@ export function registerListUpdateSetsTool(server: McpServer): void {
         });
 
         if (!results || results.length === 0) {
-          return {
-            content: [
-              {
-                type: "text" as const,
-                text: "No update sets found matching the criteria.",
-              },
-            ],
-          };
+          return structuredResult("No update sets found matching the criteria.", {
+            updateSets: [],
+          });
         }
 
         const lines = results.map((us, index) => {
@@ -159,14 +166,10 @@ export function registerListUpdateSetsTool(server: McpServer): void {
           return parts.join("\n");
         });
 
-        return {
-          content: [
-            {
-              type: "text" as const,
-              text: `Found ${results.length} update set(s):\n\n${lines.join("\n\n")}`,
-            },
-          ],
-        };
+        return structuredResult(
+          `Found ${results.length} update set(s):\n\n${lines.join("\n\n")}`,
+          { updateSets: results }
+        );
       } catch (error) {
         const message =
           error instanceof Error ? error.message : String(error);
@@ -222,6 +225,9 @@ export function registerCreateUpdateSetTool(server: McpServer): void {
             "Optional application scope sys_id to associate with the update set."
           ),
       },
+      outputSchema: {
+        updateSet: recordSchema,
+      },
     },
     async ({ instance, name, description, application }) => {
       try {
@@ -238,14 +244,7 @@ export function registerCreateUpdateSetTool(server: McpServer): void {
           `State: ${result.state}`,
         ];
 
-        return {
-          content: [
-            {
-              type: "text" as const,
-              text: lines.join("\n"),
-            },
-          ],
-        };
+        return structuredResult(lines.join("\n"), { updateSet: result });
       } catch (error) {
         const message =
           error instanceof Error ? error.message : String(error);
@@ -295,6 +294,10 @@ export function registerSetCurrentUpdateSetTool(server: McpServer): void {
           .string()
           .describe("The sys_id of the update set to set as current."),
       },
+      outputSchema: {
+        name: z.string(),
+        sysId: z.string(),
+      },
     },
     async ({ instance, name, sys_id }) => {
       try {
@@ -303,14 +306,10 @@ export function registerSetCurrentUpdateSetTool(server: McpServer): void {
           return await manager.setCurrentUpdateSet({ name, sysId: sys_id });
         });
 
-        return {
-          content: [
-            {
-              type: "text" as const,
-              text: `Current update set changed to "${name}" (${sys_id}). All subsequent changes will be captured in this update set.`,
-            },
-          ],
-        };
+        return structuredResult(
+          `Current update set changed to "${name}" (${sys_id}). All subsequent changes will be captured in this update set.`,
+          { name, sysId: sys_id }
+        );
       } catch (error) {
         const message =
           error instanceof Error ? error.message : String(error);
@@ -358,6 +357,11 @@ export function registerInspectUpdateSetTool(server: McpServer): void {
           .string()
           .describe("The sys_id of the update set to inspect."),
       },
+      outputSchema: {
+        updateSet: recordSchema,
+        totalRecords: z.number(),
+        components: z.array(recordSchema),
+      },
     },
     async ({ instance, sys_id }) => {
       try {
@@ -386,14 +390,7 @@ export function registerInspectUpdateSetTool(server: McpServer): void {
           }
         }
 
-        return {
-          content: [
-            {
-              type: "text" as const,
-              text: lines.join("\n"),
-            },
-          ],
-        };
+        return structuredResult(lines.join("\n"), result);
       } catch (error) {
         const message =
           error instanceof Error ? error.message : String(error);
@@ -444,6 +441,14 @@ export function registerCloneUpdateSetTool(server: McpServer): void {
           .string()
           .describe("The name for the new cloned update set."),
       },
+      outputSchema: {
+        sourceUpdateSetId: z.string(),
+        sourceUpdateSetName: z.string().optional(),
+        newUpdateSetId: z.string(),
+        newUpdateSetName: z.string().optional(),
+        recordsCloned: z.number(),
+        totalSourceRecords: z.number(),
+      },
     },
     async ({ instance, source_sys_id, new_name }, extra) => {
       try {
@@ -459,9 +464,7 @@ export function registerCloneUpdateSetTool(server: McpServer): void {
         lines.push(`New: ${result.newUpdateSetName} (${result.newUpdateSetId})`);
         lines.push(`Records cloned: ${result.recordsCloned}/${result.totalSourceRecords}`);
 
-        return {
-          content: [{ type: "text" as const, text: lines.join("\n") }],
-        };
+        return structuredResult(lines.join("\n"), result);
       } catch (error) {
         const message =
           error instanceof Error ? error.message : String(error);
@@ -522,10 +525,56 @@ export function registerMoveUpdateSetRecordsTool(server: McpServer): void {
             "The sys_id of the source update set to move all records FROM. " +
             "Used when record_sys_ids is not specified."
           ),
+        dry_run: dryRunParam,
+      },
+      outputSchema: {
+        targetUpdateSetId: z.string(),
+        moved: z.number(),
+        failed: z.number(),
+        errors: errorListSchema.optional(),
+        ...previewOutputShape,
       },
     },
-    async ({ instance, target_update_set_id, record_sys_ids, source_update_set }) => {
+    async ({ instance, target_update_set_id, record_sys_ids, source_update_set, dry_run }) => {
       try {
+        if (dry_run) {
+          const query =
+            record_sys_ids && record_sys_ids.length > 0
+              ? `sys_idIN${record_sys_ids.join(",")}`
+              : source_update_set
+                ? `update_set=${source_update_set}`
+                : undefined;
+          if (!query) {
+            return {
+              content: [
+                {
+                  type: "text" as const,
+                  text: "Dry run: provide record_sys_ids or source_update_set to say which records would move.",
+                },
+              ],
+              isError: true,
+            };
+          }
+
+          const preview = await withConnectionRetry(instance, (snInstance) =>
+            readRecords(snInstance, "sys_update_xml", query, ["name", "update_set"])
+          );
+          const changes = preview.records.map((record) => ({
+            table: "sys_update_xml",
+            sys_id: String(record.sys_id),
+            action: "update" as const,
+            fields: fieldChanges(record, { update_set: target_update_set_id }),
+          }));
+          return structuredResult(describeChanges(changes, preview.truncated).join("\n"), {
+            targetUpdateSetId: target_update_set_id,
+            moved: 0,
+            failed: 0,
+            dryRun: true,
+            changes,
+            truncated: preview.truncated,
+          });
+        }
+
         const result = await withConnectionRetry(instance, async (snInstance) => {
           const manager = new UpdateSetManager(snInstance);
           return await manager.moveRecordsToUpdateSet(target_update_set_id, {
@@ -548,9 +597,146 @@ export function registerMoveUpdateSetRecordsTool(server: McpServer): void {
           }
         }
 
+        return structuredResult(lines.join("\n"), {
+          targetUpdateSetId: target_update_set_id,
+          ...result,
+        });
+      } catch (error) {
+        const message =
+          error instanceof Error ? error.message : String(error);
         return {
-          content: [{ type: "text" as const, text: lines.join("\n") }],
+          content: [
+            {
+              type: "text" as const,
+              text: `Error moving update set records: ${message}`,
+            },
+          ],
+          isError: true,
         };
+      }
+    }
+  );
+}
+
+/**
+ * Registers the analyze_update_set_conflicts tool on the MCP server.
+ *
+ * Reports the records that more than one update set holds an update for, and updates
+ * captured in the Default update set that belong with a named one.
+ */
+export function registerAnalyzeUpdateSetConflictsTool(server: McpServer): void {
+  server.registerTool(
+    "analyze_update_set_conflicts",
+    {
+      annotations: annotationsFor("analyze_update_set_conflicts"),
+      title: "Analyze Update Set Conflicts",
+      description:
+        "Compare several update sets before merging or promoting them: report every " +
+        "record (sys_update_xml name) that more than one of them holds an update for, " +
+        "with each set's newest author and timestamp for it — whichever set commits " +
+        "last wins that record. Also reports updates to the same records captured in " +
+        "the Default update set, which would not be promoted with the named set; " +
+        "move_update_set_records can move them.\n\n" +
+        "Choose the sets with update_set_sys_ids, or with a query as list_update_sets takes.",
+      inputSchema: {
+        instance: z
+          .string()
+          .optional()
+          .describe(
+            "The ServiceNow instance auth alias to connect to. " +
+            "This is the alias configured via `snc configure` (e.g., " +
+            '"myinstance", "prod", "test"). The user will typically refer to ' +
+            "this by name when saying things like \"on my myinstance instance\". " +
+            "If not provided, falls back to the SN_AUTH_ALIAS environment variable."
+          ),
+        update_set_sys_ids: z
+          .array(z.string())
+          .optional()
+          .describe("The sys_ids of the update sets to compare."),
+        query: z
+          .string()
+          .optional()
+          .describe(
+            'Encoded query over sys_update_set choosing the sets to compare (e.g., "state=in progress"). ' +
+            "At most 100 sets."
+          ),
+      },
+      outputSchema: {
+        updateSets: z.array(
+          z.object({ sys_id: z.string(), name: z.string(), state: z.string(), updateCount: z.number() })
+        ),
+        conflictCount: z.number(),
+        conflicts: z.array(
+          z.object({
+            name: z.string(),
+            targetName: z.string(),
+            type: z.string(),
+            sets: z.array(
+              z.object({ sys_id: z.string(), name: z.string(), author: z.string(), updatedOn: z.string() })
+            ),
+          })
+        ),
+        misplaced: z.array(
+          z.object({
+            updateSysId: z.string(),
+            name: z.string(),
+            targetName: z.string(),
+            type: z.string(),
+            defaultUpdateSet: z.object({ sys_id: z.string(), name: z.string() }),
+            author: z.string(),
+            updatedOn: z.string(),
+            belongsTo: z.array(z.object({ sys_id: z.string(), name: z.string() })),
+            newer: z.boolean(),
+          })
+        ),
+      },
+    },
+    async ({ instance, update_set_sys_ids, query }, extra) => {
+      try {
+        if ((update_set_sys_ids === undefined) === (query === undefined)) {
+          throw new Error("Pass exactly one of update_set_sys_ids or query.");
+        }
+        const onProgress = progressReporter(extra);
+        const result = await analyzeUpdateSetConflicts(
+          instance,
+          { sysIds: update_set_sys_ids, query },
+          onProgress
+        );
+
+        const lines: string[] = [];
+        lines.push(`=== Update Set Conflicts (${result.conflicts.length}) ===`);
+        lines.push(
+          `Compared: ${result.updateSets.map((set) => `${set.name} (${set.updateCount} updates)`).join(", ")}`
+        );
+        if (result.conflicts.length === 0) {
+          lines.push("No record is updated by more than one of these sets.");
+        }
+        for (const conflict of result.conflicts) {
+          lines.push("");
+          lines.push(`${conflict.targetName || conflict.name} [${conflict.type}] — ${conflict.name}`);
+          for (const set of conflict.sets) {
+            lines.push(`  ${set.name}: ${set.author} at ${set.updatedOn}`);
+          }
+        }
+        if (result.misplaced.length > 0) {
+          lines.push("");
+          lines.push(`=== Captured in Default (${result.misplaced.length}) ===`);
+          for (const update of result.misplaced) {
+            lines.push("");
+            lines.push(`${update.targetName || update.name} [${update.type}] — ${update.name}`);
+            lines.push(
+              `  ${update.defaultUpdateSet.name}: ${update.author} at ${update.updatedOn}` +
+              `${update.newer ? " (NEWER than the named set's update)" : ""}`
+            );
+            lines.push(`  Belongs with: ${update.belongsTo.map((set) => set.name).join(", ")}`);
+            lines.push(`  sys_update_xml: ${update.updateSysId}`);
+          }
+        }
+
+        return structuredResult(lines.join("\n"), {
+          ...result,
+          conflictCount: result.conflicts.length,
+        });
       } catch (error) {
         const message =
           error instanceof Error ? error.message : String(error);
@@ -558,7 +744,7 @@ export function registerMoveUpdateSetRecordsTool(server: McpServer): void {
           content: [
             {
               type: "text" as const,
-              text: `Error moving update set records: ${message}`,
+              text: `Error analyzing update set conflicts: ${message}`,
             },
           ],
           isError: true,
@@ -4,6 +4,7 @@ import { WorkflowManager } from "@sonisoft/now-sdk-ext-core";
 import { withConnectionRetry } from "../common/connection.js";
 import { progressReporter } from "../common/progress.js";
 import { annotationsFor } from "../common/annotations.js";
+import { structuredResult } from "../common/structured.js";
 
 /**
  * Registers the create_workflow tool on the MCP server.
@@ -129,6 +130,14 @@ export function registerCreateWorkflowTool(server: McpServer): void {
           .optional()
           .describe("Whether the workflow version is active."),
       },
+      outputSchema: {
+        workflowSysId: z.string(),
+        versionSysId: z.string(),
+        published: z.boolean(),
+        startActivity: z.string().nullish(),
+        activitySysIds: z.record(z.string()),
+        transitionSysIds: z.array(z.string()),
+      },
     },
     async ({
       instance,
@@ -192,9 +201,7 @@ export function registerCreateWorkflowTool(server: McpServer): void {
           }
         }
 
-        return {
-          content: [{ type: "text" as const, text: lines.join("\n") }],
-        };
+        return structuredResult(lines.join("\n"), result);
       } catch (error) {
         const message =
           error instanceof Error ? error.message : String(error);
@@ -3,6 +3,15 @@ import { z } from "zod";
 import { XMLRecordManager } from "@sonisoft/now-sdk-ext-core";
 import { withConnectionRetry } from "../common/connection.js";
 import { annotationsFor } from "../common/annotations.js";
+import { structuredResult } from "../common/structured.js";
+import {
+  describeChanges,
+  dryRunParam,
+  fieldChanges,
+  previewOutputShape,
+  readRecords,
+  type RecordChange,
+} from "../common/dry-run.js";
 
 /**
  * Instance parameter description shared across XML record tools.
@@ -50,6 +59,12 @@ export function registerExportRecordXmlTool(server: McpServer): void {
           .string()
           .describe("The sys_id of the record to export."),
       },
+      outputSchema: {
+        table: z.string(),
+        sysId: z.string(),
+        unloadDate: z.string().nullish(),
+        xml: z.string(),
+      },
     },
     async ({ instance, table, sys_id }) => {
       try {
@@ -63,14 +78,7 @@ export function registerExportRecordXmlTool(server: McpServer): void {
           (result.unloadDate ? ` (unload date: ${result.unloadDate})` : "") +
           ` — ${Buffer.byteLength(result.xml, "utf8")} bytes of XML`;
 
-        return {
-          content: [
-            {
-              type: "text" as const,
-              text: summary + "\n\n" + result.xml,
-            },
-          ],
-        };
+        return structuredResult(summary + "\n\n" + result.xml, result);
       } catch (error) {
         const message =
           error instanceof Error ? error.message : String(error);
@@ -92,6 +100,53 @@ export function registerExportRecordXmlTool(server: McpServer): void {
 // 2. import_records_xml
 // ============================================================
 
+/**
+ * System fields an import rewrites on every record. Left out of a preview's field
+ * changes because they would differ on every update and bury the ones that matter.
+ */
+const AUDIT_FIELDS = new Set([
+  "sys_created_by",
+  "sys_created_on",
+  "sys_mod_count",
+  "sys_updated_by",
+  "sys_updated_on",
+]);
+
+function decodeXmlText(raw: string): string {
+  const cdata = /^<!\[CDATA\[([\s\S]*)\]\]>$/.exec(raw.trim());
+  if (cdata) return cdata[1];
+  return raw
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+/**
+ * The `<table>` elements of an unload document, as flat field maps.
+ *
+ * Unload XML is one element per record with one child per field, so a pair of regexes
+ * reads it faithfully without pulling in an XML parser for a preview. Elements for
+ * other tables — an update set export carries several — are skipped, because the
+ * import only targets one.
+ */
+function parseUnloadRecords(xml: string, table: string): Record<string, string>[] {
+  const escaped = table.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  const recordPattern = new RegExp(`<${escaped}(?:\\s[^>]*)?>([\\s\\S]*?)</${escaped}>`, "g");
+  const fieldPattern = /<([A-Za-z_][\w.]*)(?:\s[^>]*)?(?:\/>|>([\s\S]*?)<\/\1>)/g;
+
+  const records: Record<string, string>[] = [];
+  for (const [, body] of xml.matchAll(recordPattern)) {
+    const fields: Record<string, string> = {};
+    for (const [, name, value] of body.matchAll(fieldPattern)) {
+      fields[name] = value === undefined ? "" : decodeXmlText(value);
+    }
+    records.push(fields);
+  }
+  return records;
+}
+
 /**
  * Registers the import_records_xml tool on the MCP server.
  *
@@ -125,10 +180,59 @@ export function registerImportRecordsXmlTool(server: McpServer): void {
             "The target table to import the records into (e.g., 'sys_script_include', " +
             "'sys_script', 'incident'). Must match the table in the XML content."
           ),
+        dry_run: dryRunParam,
+      },
+      outputSchema: {
+        success: z.boolean(),
+        targetTable: z.string(),
+        ...previewOutputShape,
       },
     },
-    async ({ instance, xml_content, target_table }) => {
+    async ({ instance, xml_content, target_table, dry_run }) => {
       try {
+        if (dry_run) {
+          // An import inserts or updates by sys_id, so which of the two each record
+          // would be is decided by whether that sys_id exists now.
+          const incoming = parseUnloadRecords(xml_content, target_table);
+          const sysIds = incoming.map((r) => r.sys_id).filter((id): id is string => Boolean(id));
+          const fields = [...new Set(incoming.flatMap((r) => Object.keys(r)))].filter(
+            (f) => !AUDIT_FIELDS.has(f)
+          );
+          const existing =
+            sysIds.length === 0
+              ? []
+              : (
+                  await withConnectionRetry(instance, (snInstance) =>
+                    readRecords(snInstance, target_table, `sys_idIN${sysIds.join(",")}`, fields, sysIds.length)
+                  )
+                ).records;
+          const bySysId = new Map(existing.map((r) => [String(r.sys_id), r]));
+
+          const changes: RecordChange[] = incoming.map((record) => {
+            const data = Object.fromEntries(
+              Object.entries(record).filter(([f]) => !AUDIT_FIELDS.has(f) && f !== "sys_id")
+            );
+            const current = record.sys_id ? bySysId.get(record.sys_id) : undefined;
+            return {
+              table: target_table,
+              sys_id: record.sys_id,
+              action: current ? "update" : "create",
+              fields: fieldChanges(current, data),
+            };
+          });
+
+          const lines = describeChanges(changes);
+          if (incoming.length === 0) {
+            lines.push(`No <${target_table}> records were found in the XML.`);
+          }
+          return structuredResult(lines.join("\n"), {
+            success: true,
+            targetTable: target_table,
+            dryRun: true,
+            changes,
+          });
+        }
+
         const result = await withConnectionRetry(instance, async (snInstance) => {
           const mgr = new XMLRecordManager(snInstance);
           return await mgr.importRecords({
@@ -149,14 +253,10 @@ export function registerImportRecordsXmlTool(server: McpServer): void {
           };
         }
 
-        return {
-          content: [
-            {
-              type: "text" as const,
-              text: `Successfully imported records into table '${result.targetTable}'.`,
-            },
-          ],
-        };
+        return structuredResult(
+          `Successfully imported records into table '${result.targetTable}'.`,
+          result
+        );
       } catch (error) {
         const message =
           error instanceof Error ? error.message : String(error);
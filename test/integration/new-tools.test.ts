@@ -391,7 +391,6 @@ describe('New Tools Integration Tests', () => {
           table: 'incident',
           query: 'active=true',
           data: { short_description: 'DRY RUN - should not change' },
-          confirm: false,
         },
       })
 
@@ -410,7 +409,6 @@ describe('New Tools Integration Tests', () => {
           table: 'incident',
           query: 'active=true',
           data: { priority: '3' },
-          confirm: false,
           limit: 5,
         },
       })
@@ -429,7 +427,6 @@ describe('New Tools Integration Tests', () => {
           instance: SN_INSTANCE,
           table: 'incident',
           query: 'active=false^short_description=INTEGRATION_TEST_NONEXISTENT_XYZ',
-          confirm: false,
         },
       })
 
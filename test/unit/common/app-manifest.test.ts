@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeEach, afterEach } from "@jest/globals";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import {
+    baseNames,
+    contentHash,
+    localChanges,
+    localPath,
+    readManifest,
+    recordFiles,
+    untrackedFiles,
+    writeManifest,
+    type AppManifest,
+} from "../../../src/common/app-manifest.js";
+import { SCRIPT_TABLES } from "../../../src/common/script-tables.js";
+
+const table = (name: string) => SCRIPT_TABLES.find((t) => t.table === name)!;
+
+describe("baseNames", () => {
+    it("makes names safe for a file system", () => {
+        const names = baseNames([{ sys_id: "a", name: "incident.* / write" }, { sys_id: "b", name: "" }]);
+        expect(names.get("a")).toBe("incident._ _ write");
+        expect(names.get("b")).toBe("b");
+    });
+
+    it("appends the sys_id to every record sharing a name, whatever the order", () => {
+        const records = [
+            { sys_id: "1", name: "Validate" },
+            { sys_id: "2", name: "validate" },
+            { sys_id: "3", name: "Other" },
+        ];
+        const forward = baseNames(records);
+        const backward = baseNames([...records].reverse());
+
+        expect(forward.get("1")).toBe("Validate-1");
+        expect(forward.get("2")).toBe("validate-2");
+        expect(forward.get("3")).toBe("Other");
+        expect([...backward.entries()].sort()).toEqual([...forward.entries()].sort());
+    });
+});
+
+describe("recordFiles", () => {
+    it("is one file for a single-field table and a folder for a multi-field one", () => {
+        expect(recordFiles(table("sys_script_include"), "Util")).toEqual({
+            script: "sys_script_include/Util.js",
+        });
+        expect(recordFiles(table("sys_ui_page"), "home")).toEqual({
+            html: "sys_ui_page/home/html.html",
+            client_script: "sys_ui_page/home/client_script.js",
+            processing_script: "sys_ui_page/home/processing_script.js",
+        });
+    });
+});
+
+describe("with a folder", () => {
+    let dir: string;
+    let manifest: AppManifest;
+
+    beforeEach(() => {
+        dir = mkdtempSync(join(tmpdir(), "nex-app-"));
+        mkdirSync(join(dir, "sys_script_include"));
+        writeFileSync(join(dir, "sys_script_include", "A.js"), "a()");
+        writeFileSync(join(dir, "sys_script_include", "B.js"), "edited");
+        manifest = {
+            version: 1,
+            scope: "x_app",
+            scopeSysId: "s",
+            instance: "dev",
+            pulledAt: "2026-01-01T00:00:00.000Z",
+            records: ["A", "B", "C"].map((name) => ({
+                table: "sys_script_include",
+                sys_id: name.toLowerCase(),
+                name,
+                sys_updated_on: "2026-01-01 00:00:00",
+                files: { script: `sys_script_include/${name}.js` },
+                hashes: { script: contentHash(`${name.toLowerCase()}()`) },
+            })),
+        };
+    });
+
+    afterEach(() => {
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("finds edited and missing files", () => {
+        const { changed, missing } = localChanges(dir, manifest);
+
+        expect(changed.map((c) => [c.path, c.field, c.content])).toEqual([["sys_script_include/B.js", "script", "edited"]]);
+        expect(missing).toEqual(["sys_script_include/C.js"]);
+    });
+
+    it("lists untracked files, skipping dot-folders and the manifest", () => {
+        writeManifest(dir, manifest);
+        writeFileSync(join(dir, "sys_script_include", "New.js"), "");
+        mkdirSync(join(dir, ".git"));
+        writeFileSync(join(dir, ".git", "HEAD"), "");
+
+        expect(untrackedFiles(dir, manifest)).toEqual(["sys_script_include/New.js"]);
+    });
+
+    it("round-trips the manifest", () => {
+        writeManifest(dir, manifest);
+        expect(readManifest(dir)).toEqual(manifest);
+    });
+
+    it("refuses a manifest path that leaves the folder", () => {
+        expect(() => localPath(dir, "../outside.js")).toThrow(/outside the application folder/);
+        expect(localPath(dir, "sys_script/x.js")).toBe(join(dir, "sys_script", "x.js"));
+    });
+});
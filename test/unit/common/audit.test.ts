@@ -0,0 +1,160 @@
+/**
+ * The audit trail. What matters is what reaches the file: one parseable line per
+ * permitted change, credentials never, and an entry even when the tool throws.
+ */
+
+import { jest, describe, it, expect, beforeEach, afterEach } from "@jest/globals";
+import { mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+// The logger pulls in core; nothing here is about what it prints.
+jest.unstable_mockModule("../../../src/common/logging.js", () => ({
+    getLogger: () => ({ info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() }),
+}));
+
+const { affectedRecords, auditCall, auditEnabled, initAudit, redactArguments, resetAuditForTests } = await import(
+    "../../../src/common/audit.js"
+);
+
+let dir: string;
+let path: string;
+
+beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "nex-audit-"));
+    path = join(dir, "nested", "audit.jsonl");
+});
+
+afterEach(() => {
+    resetAuditForTests();
+    rmSync(dir, { recursive: true, force: true });
+});
+
+function entries(): Record<string, unknown>[] {
+    return readFileSync(path, "utf8")
+        .trim()
+        .split("\n")
+        .map((line) => JSON.parse(line) as Record<string, unknown>);
+}
+
+describe("initAudit", () => {
+    it("is off without NEX_AUDIT_LOG", () => {
+        initAudit({});
+        expect(auditEnabled()).toBe(false);
+    });
+
+    it("creates the directory and opens the file", () => {
+        initAudit({ NEX_AUDIT_LOG: path });
+        expect(auditEnabled()).toBe(true);
+    });
+
+    it("throws when the path cannot be opened, rather than auditing nothing", () => {
+        expect(() => initAudit({ NEX_AUDIT_LOG: dir })).toThrow(/NEX_AUDIT_LOG/);
+    });
+});
+
+describe("auditCall", () => {
+    const call = { tool: "update_record", verbs: ["write"] as const, alias: "dev" };
+
+    it("passes straight through when auditing is off", async () => {
+        await expect(auditCall(call, [{}], async () => "result")).resolves.toBe("result");
+    });
+
+    it("appends one line per call with the outcome and the records touched", async () => {
+        initAudit({ NEX_AUDIT_LOG: path });
+
+        await auditCall(call, [{ table: "incident", sys_id: "abc", data: { state: "2" } }], async () => ({
+            content: [],
+        }));
+        await auditCall(call, [{ table: "incident", sys_id: "def" }], async () => ({ content: [], isError: true }));
+
+        const [first, second] = entries();
+        expect(first).toMatchObject({
+            alias: "dev",
+            tool: "update_record",
+            verbs: ["write"],
+            arguments: { table: "incident", sys_id: "abc", data: { state: "2" } },
+            isError: false,
+            records: [{ table: "incident", sys_id: "abc" }],
+        });
+        expect(typeof first.durationMs).toBe("number");
+        expect(new Date(first.timestamp as string).toISOString()).toBe(first.timestamp);
+        expect(second.isError).toBe(true);
+    });
+
+    it("records a call that throws, then rethrows", async () => {
+        initAudit({ NEX_AUDIT_LOG: path });
+
+        await expect(
+            auditCall(call, [{ sys_id: "abc" }], async () => {
+                throw new Error("HTTP 500 with Bearer abcdefghijklmnop");
+            }),
+        ).rejects.toThrow("HTTP 500");
+
+        const [entry] = entries();
+        expect(entry.isError).toBe(true);
+        expect(entry.error).toBe("HTTP 500 with Bearer [redacted]");
+    });
+
+    it("records nothing for a result that reports it was only a preview", async () => {
+        initAudit({ NEX_AUDIT_LOG: path });
+        await auditCall(call, [{ table: "incident" }], async () => ({ content: [], structuredContent: { dryRun: true } }));
+        await auditCall(call, [{ table: "incident" }], async () => ({ content: [] }));
+        expect(entries()).toHaveLength(1);
+    });
+
+    it("records the alias as null when none resolved", async () => {
+        initAudit({ NEX_AUDIT_LOG: path });
+        await auditCall({ ...call, alias: undefined }, [{}], async () => ({ content: [] }));
+        expect(entries()[0].alias).toBeNull();
+    });
+});
+
+describe("redactArguments", () => {
+    it("replaces credential-shaped keys at any depth", () => {
+        expect(
+            redactArguments({ table: "x", data: { password: "p", nested: [{ client_secret: "s" }] }, apiKey: "k" }),
+        ).toEqual({
+            table: "x",
+            data: { password: "[redacted]", nested: [{ client_secret: "[redacted]" }] },
+            apiKey: "[redacted]",
+        });
+    });
+
+    it("scrubs bearer credentials inside strings", () => {
+        expect(redactArguments({ script: "h.setRequestHeader('Authorization', 'Bearer abcdefghijk');" })).toEqual({
+            script: "h.setRequestHeader('Authorization', 'Bearer [redacted]');",
+        });
+    });
+
+    it("truncates very long strings and says by how much", () => {
+        const long = "x".repeat(64 * 1024 + 10);
+        expect(redactArguments(long)).toMatch(/…\[truncated 10 chars\]$/);
+    });
+});
+
+describe("affectedRecords", () => {
+    it("reads sys_ids from the arguments and the structured result", () => {
+        expect(
+            affectedRecords(
+                { table: "kb_knowledge", sys_id: "a" },
+                { article: { sys_id: "b" }, created: [{ table: "incident", sys_id: "c" }] },
+            ),
+        ).toEqual([
+            { table: "kb_knowledge", sys_id: "a" },
+            { table: "kb_knowledge", sys_id: "b" },
+            { table: "incident", sys_id: "c" },
+        ]);
+    });
+
+    it("reads sys_ids lists and de-duplicates", () => {
+        expect(affectedRecords({ table: "incident", sys_ids: ["a", "b"] }, { sys_id: "a" })).toEqual([
+            { table: "incident", sys_id: "a" },
+            { table: "incident", sys_id: "b" },
+        ]);
+    });
+
+    it("returns nothing when no record is named", () => {
+        expect(affectedRecords({ script: "gs.info(1)" }, { result: "ok" })).toEqual([]);
+    });
+});
@@ -0,0 +1,82 @@
+/**
+ * Confirmation tokens. The properties that make the second call safe: a token only
+ * redeems for the operation it previewed, only while fresh, and only once.
+ */
+
+import { describe, it, expect, afterEach } from "@jest/globals";
+
+const {
+    ConfirmationError,
+    CONFIRMATION_TTL_MS,
+    issueConfirmation,
+    redeemConfirmation,
+    resetConfirmationsForTests,
+} = await import("../../../src/common/confirmation.js");
+
+const binding = {
+    tool: "query_update_records",
+    alias: "dev",
+    table: "incident",
+    query: "active=true",
+    data: { state: "2", priority: "3" },
+};
+
+afterEach(() => {
+    resetConfirmationsForTests();
+});
+
+describe("issueConfirmation", () => {
+    it("issues a distinct opaque token each time, with its expiry", () => {
+        const now = Date.UTC(2026, 0, 1);
+        const first = issueConfirmation(binding, 4, now);
+        const second = issueConfirmation(binding, 4, now);
+
+        expect(first.token).not.toBe(second.token);
+        expect(first.token).toMatch(/^[A-Za-z0-9_-]{24}$/);
+        expect(first.expiresAt).toBe(new Date(now + CONFIRMATION_TTL_MS).toISOString());
+    });
+});
+
+describe("redeemConfirmation", () => {
+    it("returns the previewed count for the same operation", () => {
+        const { token } = issueConfirmation(binding, 4);
+        expect(redeemConfirmation(token, { ...binding })).toBe(4);
+    });
+
+    it("does not care about the order of the data's keys", () => {
+        const { token } = issueConfirmation(binding, 4);
+        expect(redeemConfirmation(token, { ...binding, data: { priority: "3", state: "2" } })).toBe(4);
+    });
+
+    it.each([
+        ["alias", { alias: "prod" }],
+        ["table", { table: "problem" }],
+        ["query", { query: "active=false" }],
+        ["data", { data: { state: "3", priority: "3" } }],
+        ["limit", { limit: 10 }],
+        ["tool", { tool: "query_delete_records" }],
+    ])("refuses a different %s, and leaves the token usable", (_, change) => {
+        const { token } = issueConfirmation(binding, 4);
+
+        expect(() => redeemConfirmation(token, { ...binding, ...change })).toThrow(/different operation/);
+        expect(redeemConfirmation(token, binding)).toBe(4);
+    });
+
+    it("refuses an expired token, and forgets it", () => {
+        const now = Date.now();
+        const { token } = issueConfirmation(binding, 4, now);
+
+        expect(() => redeemConfirmation(token, binding, now + CONFIRMATION_TTL_MS)).toThrow(/expired/);
+        expect(() => redeemConfirmation(token, binding, now)).toThrow(/unknown/);
+    });
+
+    it("refuses a token it never issued", () => {
+        expect(() => redeemConfirmation("made-up", binding)).toThrow(ConfirmationError);
+    });
+
+    it("spends the token as it checks it, so it redeems once", () => {
+        const { token } = issueConfirmation(binding, 4);
+        expect(redeemConfirmation(token, binding)).toBe(4);
+        expect(() => redeemConfirmation(token, binding)).toThrow(/already been used/);
+    });
+});
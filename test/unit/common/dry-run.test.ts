@@ -0,0 +1,119 @@
+/**
+ * The pieces every preview is built from. The guard's enforcement of NEX_DRY_RUN is in
+ * guard.test.ts; what is pinned here is that a preview reads, compares and reports
+ * the way the tools rely on.
+ */
+
+import { jest, describe, it, expect, afterEach } from "@jest/globals";
+
+const mockTableGet = jest.fn<(...args: unknown[]) => Promise<unknown>>();
+jest.unstable_mockModule("@sonisoft/now-sdk-ext-core", () => ({
+    TableAPIRequest: jest.fn().mockImplementation(() => ({ get: mockTableGet })),
+}));
+
+const {
+    describeChanges,
+    dryRunFromEnvironment,
+    fieldChanges,
+    installDryRun,
+    PREVIEW_LIMIT,
+    readRecords,
+    resetDryRunForTests,
+    serverDryRun,
+} = await import("../../../src/common/dry-run.js");
+
+afterEach(() => {
+    resetDryRunForTests();
+    mockTableGet.mockReset();
+});
+
+describe("dryRunFromEnvironment", () => {
+    const parse = (value: string | undefined) => {
+        const warnings: string[] = [];
+        return { on: dryRunFromEnvironment({ NEX_DRY_RUN: value }, (m) => warnings.push(m)), warnings };
+    };
+
+    it.each([undefined, "", "0", "false", "OFF"])("is off for %p", (value) => {
+        expect(parse(value).on).toBe(false);
+    });
+
+    it.each(["1", "true", "Yes", "on"])("is on for %p", (value) => {
+        expect(parse(value)).toEqual({ on: true, warnings: [] });
+    });
+
+    it("turns ON for an unrecognised value, and says so", () => {
+        const { on, warnings } = parse("ture");
+        expect(on).toBe(true);
+        expect(warnings[0]).toContain("ture");
+    });
+});
+
+describe("installDryRun", () => {
+    it("sets the server-wide mode", () => {
+        installDryRun(true);
+        expect(serverDryRun()).toBe(true);
+    });
+});
+
+describe("fieldChanges", () => {
+    it("lists only the fields that would differ", () => {
+        expect(fieldChanges({ state: "2", priority: "3" }, { state: "2", priority: 1 })).toEqual([
+            { field: "priority", before: "3", after: 1 },
+        ]);
+    });
+
+    it("compares as strings, the way the Table API returns values", () => {
+        expect(fieldChanges({ active: "true", count: "3" }, { active: true, count: 3 })).toEqual([]);
+    });
+
+    it("reports every field when there is no current record", () => {
+        expect(fieldChanges(undefined, { name: "x" })).toEqual([{ field: "name", before: undefined, after: "x" }]);
+    });
+});
+
+describe("readRecords", () => {
+    it("reads raw values for the named fields plus sys_id, one past the limit", async () => {
+        mockTableGet.mockResolvedValue({ status: 200, bodyObject: { result: [{ sys_id: "a" }] } });
+
+        const result = await readRecords({} as never, "incident", "active=true", ["state"], 5);
+
+        expect(result).toEqual({ records: [{ sys_id: "a" }], truncated: false });
+        expect(mockTableGet).toHaveBeenCalledWith("incident", {
+            sysparm_query: "active=true",
+            sysparm_limit: 6,
+            sysparm_exclude_reference_link: "true",
+            sysparm_fields: "sys_id,state",
+        });
+    });
+
+    it("reports truncation when more records exist than the limit", async () => {
+        mockTableGet.mockResolvedValue({ status: 200, bodyObject: { result: [{}, {}, {}] } });
+
+        const result = await readRecords({} as never, "incident", "", [], 2);
+
+        expect(result.records).toHaveLength(2);
+        expect(result.truncated).toBe(true);
+    });
+
+    it("throws on a failed read rather than previewing nothing", async () => {
+        // An empty preview would read as "nothing would change".
+        mockTableGet.mockResolvedValue({ status: 403, statusText: "Forbidden" });
+        await expect(readRecords({} as never, "incident", "", [])).rejects.toThrow(/HTTP 403 Forbidden/);
+    });
+});
+
+describe("describeChanges", () => {
+    it("says nothing was changed and shows each field's before and after", () => {
+        const text = describeChanges([
+            { table: "incident", sys_id: "a", action: "update", fields: [{ field: "state", before: "1", after: "2" }] },
+        ]).join("\n");
+
+        expect(text).toContain("nothing was changed");
+        expect(text).toContain("UPDATE incident a");
+        expect(text).toContain('state: "1" -> "2"');
+    });
+
+    it("notes truncation", () => {
+        expect(describeChanges([], true).join("\n")).toContain(`first ${PREVIEW_LIMIT}`);
+    });
+});
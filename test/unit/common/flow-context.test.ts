@@ -0,0 +1,113 @@
+import { jest, describe, it, expect, beforeEach } from "@jest/globals";
+
+const mockStatus = jest.fn<(contextId: string) => Promise<any>>();
+const mockOutputs = jest.fn<(contextId: string) => Promise<any>>();
+const mockError = jest.fn<(contextId: string) => Promise<any>>();
+const mockTableGet = jest.fn<(table: string, params: Record<string, unknown>) => Promise<unknown>>();
+jest.unstable_mockModule("@sonisoft/now-sdk-ext-core", () => ({
+    FlowManager: jest.fn().mockImplementation(() => ({
+        getFlowContextStatus: mockStatus,
+        getFlowOutputs: mockOutputs,
+        getFlowError: mockError,
+    })),
+    TableAPIRequest: jest.fn().mockImplementation(() => ({ get: mockTableGet })),
+}));
+jest.unstable_mockModule("../../../src/common/connection.js", () => ({
+    withConnectionRetry: async (_alias: unknown, operation: (instance: unknown) => Promise<unknown>) => operation({}),
+    isRetryableResponse: () => false,
+}));
+
+const { awaitFlowContext } = await import("../../../src/common/flow-context.js");
+
+const CONTEXT = "a".repeat(32);
+const RECORD = "b".repeat(32);
+
+const status = (state: string) => ({ contextId: CONTEXT, found: true, state, name: "Onboard new hire" });
+
+/** The context goes through `states`, one per poll, staying in the last. */
+function states(...sequence: string[]) {
+    let poll = 0;
+    mockStatus.mockImplementation(async () => status(sequence[Math.min(poll++, sequence.length - 1)]));
+}
+
+describe("awaitFlowContext", () => {
+    beforeEach(() => {
+        mockStatus.mockReset();
+        mockOutputs.mockReset();
+        mockError.mockReset();
+        mockTableGet.mockReset();
+        mockTableGet.mockImplementation(async (table) => ({
+            status: 200,
+            bodyObject: {
+                result:
+                    table === "sys_flow_context"
+                        ? [{ source_record: RECORD }]
+                        : [{ sys_id: "c".repeat(32), "approver.name": "Dana Manager" }],
+            },
+        }));
+    });
+
+    it("reports each change of state once, approvals included, and returns the outputs", async () => {
+        states("QUEUED", "IN_PROGRESS", "IN_PROGRESS", "WAITING", "WAITING", "COMPLETE");
+        mockOutputs.mockResolvedValue({ success: true, contextId: CONTEXT, outputs: { user: "dana" } });
+        const progress: string[] = [];
+
+        const result = await awaitFlowContext("dev", CONTEXT, {
+            timeoutMs: 10000,
+            onProgress: (message) => progress.push(message),
+            firstPollMs: 1,
+        });
+
+        expect(progress).toEqual([
+            "Onboard new hire: QUEUED",
+            "Onboard new hire: IN_PROGRESS",
+            "Onboard new hire: WAITING — waiting for approval from Dana Manager",
+            "Onboard new hire: COMPLETE",
+        ]);
+        expect(result).toMatchObject({ state: "COMPLETE", finished: true, outputs: { user: "dana" } });
+        expect(result.transitions.map((t) => t.state)).toEqual(["QUEUED", "IN_PROGRESS", "WAITING", "COMPLETE"]);
+        expect(mockTableGet.mock.calls.find(([table]) => table === "sysapproval_approver")![1].sysparm_query).toContain(
+            `document_id=${RECORD}^state=requested`,
+        );
+    });
+
+    it("returns the error of a failed context", async () => {
+        states("ERROR");
+        mockError.mockResolvedValue({ success: true, contextId: CONTEXT, flowErrorMessage: "Lookup user: no record found" });
+
+        const result = await awaitFlowContext("dev", CONTEXT, { timeoutMs: 1000 });
+
+        expect(result).toMatchObject({ state: "ERROR", finished: true, flowErrorMessage: "Lookup user: no record found" });
+        expect(mockOutputs).not.toHaveBeenCalled();
+    });
+
+    it("backs off between polls, and stops at the timeout without failing", async () => {
+        states("IN_PROGRESS");
+        let now = 0;
+        const delays: number[] = [];
+        const clock = jest.spyOn(Date, "now").mockImplementation(() => now);
+        const timer = jest.spyOn(global, "setTimeout").mockImplementation(((resolve: () => void, ms: number) => {
+            delays.push(ms);
+            now += ms;
+            resolve();
+            return 0;
+        }) as unknown as typeof setTimeout);
+
+        try {
+            const result = await awaitFlowContext("dev", CONTEXT, { timeoutMs: 60000 });
+
+            expect(delays).toEqual([1000, 2000, 4000, 8000, 15000, 15000, 15000]);
+            expect(result).toMatchObject({ state: "IN_PROGRESS", finished: false, elapsedMs: 60000 });
+            expect(result.transitions).toHaveLength(1);
+        } finally {
+            clock.mockRestore();
+            timer.mockRestore();
+        }
+    });
+
+    it("refuses a context the instance does not have", async () => {
+        mockStatus.mockResolvedValue({ contextId: CONTEXT, found: false });
+
+        await expect(awaitFlowContext("dev", CONTEXT, { timeoutMs: 1000 })).rejects.toThrow(`No flow context ${CONTEXT}.`);
+    });
+});
@@ -0,0 +1,362 @@
+import { jest, describe, it, expect, beforeEach } from "@jest/globals";
+
+const mockTableGet = jest.fn<(table: string, params: Record<string, unknown>) => Promise<unknown>>();
+const mockBatchCreate = jest.fn<(request: any) => Promise<any>>();
+const mockBatchUpdate = jest.fn<(request: any) => Promise<any>>();
+const mockQueryDelete = jest.fn<(request: any) => Promise<any>>();
+jest.unstable_mockModule("@sonisoft/now-sdk-ext-core", () => ({
+    TableAPIRequest: jest.fn().mockImplementation(() => ({ get: mockTableGet })),
+    BatchOperations: jest.fn().mockImplementation(() => ({ batchCreate: mockBatchCreate, batchUpdate: mockBatchUpdate })),
+    QueryBatchOperations: jest.fn().mockImplementation(() => ({ queryDelete: mockQueryDelete })),
+    ScopeManager: jest.fn().mockImplementation(() => ({
+        getCurrentApplication: async () => ({ sys_id: "a".repeat(32), name: "Acme HR", scope: "x_acme_hr" }),
+    })),
+    UpdateSetManager: jest.fn().mockImplementation(() => ({
+        getCurrentUpdateSet: async () => ({ sys_id: "u".repeat(32), name: "HR-12 onboarding" }),
+    })),
+}));
+jest.unstable_mockModule("../../../src/common/connection.js", () => ({
+    withConnectionRetry: async (_alias: unknown, operation: (instance: unknown) => Promise<unknown>) => operation({}),
+    isRetryableResponse: () => false,
+}));
+
+const { createFlow, previewFlowUpdate, updateFlow, FlowDefinitionError } = await import("../../../src/common/flow-definition.js");
+
+const TRIGGER = "1".repeat(32);
+const LOOK_UP = "2".repeat(32);
+const UPDATE = "3".repeat(32);
+const LOG_GLOBAL = "4".repeat(32);
+const LOG_ACME = "5".repeat(32);
+const NOTIFY = "6".repeat(32);
+const EXISTING = "7".repeat(32);
+
+const definition = (name: string, scope: string, extra: Record<string, string> = {}) => ({
+    name,
+    "sys_scope.scope": scope,
+    active: "true",
+    ...extra,
+});
+const variable = (sysId: string, model: string, element: string, mandatory = false) => ({
+    sys_id: sysId,
+    model,
+    element,
+    label: element,
+    internal_type: "string",
+    mandatory: String(mandatory),
+    reference: "",
+});
+
+/** Answers reads the way an instance with a few actions, a subflow and a trigger would. */
+function instance(flows: Record<string, string>[] = []) {
+    const tables: Record<string, Record<string, string>[]> = {
+        sys_hub_trigger_definition: [{ sys_id: TRIGGER, type: "record_create", ...definition("Created", "global") }],
+        sys_hub_trigger_input: [variable("t1", TRIGGER, "table", true), variable("t2", TRIGGER, "condition")],
+        sys_hub_trigger_output: [variable("t3", TRIGGER, "current")],
+        sys_hub_action_type_definition: [
+            { sys_id: LOOK_UP, internal_name: "look_up_record", ...definition("Look Up Record", "global") },
+            { sys_id: UPDATE, internal_name: "update_record", ...definition("Update Record", "global") },
+            { sys_id: LOG_GLOBAL, internal_name: "log", ...definition("Log", "global") },
+            { sys_id: LOG_ACME, internal_name: "log", ...definition("Log", "x_acme_hr") },
+        ],
+        sys_hub_action_input: [
+            variable("i1", LOOK_UP, "table", true),
+            variable("i2", LOOK_UP, "conditions"),
+            variable("i3", UPDATE, "record", true),
+            variable("i4", UPDATE, "values"),
+        ],
+        sys_hub_action_output: [variable("o1", LOOK_UP, "Record"), variable("o2", UPDATE, "Record")],
+        sys_hub_flow_input: [variable("f1", NOTIFY, "user", true)],
+        sys_hub_flow_output: [],
+        sys_hub_flow_logic_definition: [
+            { sys_id: "8".repeat(32), type: "IF" },
+            { sys_id: "9".repeat(32), type: "ELSE" },
+        ],
+    };
+    const subflows = [{ sys_id: NOTIFY, internal_name: "notify_manager", ...definition("Notify Manager", "x_acme_hr") }];
+    mockTableGet.mockImplementation(async (table, params) => {
+        const query = String(params.sysparm_query);
+        let result = tables[table] ?? [];
+        if (table === "sys_hub_flow") {
+            result = query.startsWith("type=subflow") ? subflows : query.startsWith("type=flow") ? flows : [];
+        }
+        return { status: 200, bodyObject: { result } };
+    });
+}
+
+const created = (operations: { saveAs?: string }[]) => ({
+    createdCount: operations.length,
+    sysIds: Object.fromEntries(operations.filter((op) => op.saveAs).map((op, i) => [op.saveAs, `${i}`.padStart(32, "c")])),
+    errors: [],
+});
+
+const ONBOARDING = {
+    name: "Onboard new hire",
+    trigger: { type: "record_create", inputs: { table: "sn_hr_core_case", condition: "active=true" } },
+    steps: [
+        { id: "lookup", action: "look_up_record", inputs: { table: "sys_user", conditions: "sys_id={{trigger.current.opened_for}}" } },
+        {
+            id: "has_user",
+            if: "{{lookup.Record}}ISNOTEMPTY",
+            then: [{ id: "notify", subflow: "x_acme_hr.notify_manager", inputs: { user: "{{lookup.Record}}" } }],
+            else: [{ id: "note", action: "global.log", inputs: {} }],
+        },
+    ],
+};
+
+describe("createFlow", () => {
+    beforeEach(() => {
+        mockTableGet.mockReset();
+        mockBatchCreate.mockReset();
+        mockBatchCreate.mockImplementation(async (request) => created(request.operations));
+    });
+
+    it("writes the flow, its trigger, steps and input values, naming steps in pills by ui_id", async () => {
+        instance();
+
+        const result = await createFlow("dev", ONBOARDING);
+
+        const { operations, transaction } = mockBatchCreate.mock.calls[0][0];
+        expect(transaction).toBe(true);
+        expect(operations.map((op: any) => op.table)).toEqual([
+            "sys_hub_flow",
+            "sys_hub_trigger_instance",
+            "sys_variable_value",
+            "sys_variable_value",
+            "sys_hub_action_instance",
+            "sys_variable_value",
+            "sys_variable_value",
+            "sys_hub_flow_logic",
+            "sys_hub_sub_flow_instance",
+            "sys_variable_value",
+            "sys_hub_flow_logic",
+            "sys_hub_action_instance",
+        ]);
+        const [flow, trigger, , , lookup, , conditions, ifLogic, notify, user, elseLogic, note] = operations;
+        expect(flow.data).toMatchObject({ name: "Onboard new hire", internal_name: "onboard_new_hire", type: "flow", active: false });
+        expect(trigger.data).toMatchObject({ flow: "${flow}", trigger_definition: TRIGGER, trigger_type: "record_create" });
+        expect(lookup.data).toMatchObject({ flow: "${flow}", action_type: LOOK_UP, order: 1, parent_ui_id: "" });
+        expect(conditions.data).toEqual({
+            document: "sys_hub_action_instance",
+            document_key: "${step_lookup}",
+            variable: "i2",
+            value: `sys_id={{${trigger.data.ui_id}.current.opened_for}}`,
+        });
+        expect(JSON.parse(ifLogic.data.values)).toEqual({ condition: `{{${lookup.data.ui_id}.Record}}ISNOTEMPTY` });
+        expect(notify.data).toMatchObject({ subflow: NOTIFY, parent_ui_id: ifLogic.data.ui_id });
+        expect(user.data.value).toBe(`{{${lookup.data.ui_id}.Record}}`);
+        expect(elseLogic.data).toMatchObject({ connected_to: ifLogic.data.ui_id, logic_definition: "9".repeat(32) });
+        expect(note.data).toMatchObject({ action_type: LOG_GLOBAL, parent_ui_id: elseLogic.data.ui_id });
+
+        expect(result).toMatchObject({
+            name: "Onboard new hire",
+            type: "flow",
+            recordCount: 12,
+            application: { scope: "x_acme_hr" },
+            updateSet: { name: "HR-12 onboarding" },
+        });
+        expect(result.steps.map((step) => [step.id, step.kind])).toEqual([
+            ["lookup", "action"],
+            ["has_user", "if"],
+            ["notify", "subflow"],
+            ["has_user", "else"],
+            ["note", "action"],
+        ]);
+        expect(result.steps.every((step) => /^c*\d+$/.test(step.sys_id))).toBe(true);
+    });
+
+    it("reports every problem with its path and step, and writes nothing", async () => {
+        instance();
+
+        const error = await createFlow("dev", {
+            name: "Broken",
+            trigger: { type: "record_create", inputs: {} },
+            steps: [
+                { id: "early", action: "update_record", inputs: { record: "{{lookup.Record}}", colour: "red" } },
+                { id: "lookup", action: "look_up_record", inputs: { table: "sys_user" } },
+                { id: "check", if: "{{lookup.Record}}ISNOTEMPTY", then: [{ id: "inner", action: "look_up_record", inputs: { table: "x" } }] },
+                { id: "after", action: "log", inputs: {} },
+                { id: "late", action: "update_record", inputs: { record: "{{inner.Record}}", values: "{{lookup.Nothing}}" } },
+                { id: "lookup", subflow: "nope" },
+            ],
+        }).catch((e: unknown) => e);
+
+        expect(error).toBeInstanceOf(FlowDefinitionError);
+        expect((error as InstanceType<typeof FlowDefinitionError>).problems).toEqual([
+            { path: "steps[5].id", step: "lookup", message: 'Step id "lookup" is already used at steps[1].' },
+            { path: "trigger.inputs", message: 'Created needs its mandatory input "table".' },
+            {
+                path: "steps[0].inputs.record",
+                step: "early",
+                message: '{{lookup.Record}}: step "lookup" has not always run by this point: it is later, or in a branch this step is not in.',
+            },
+            { path: "steps[0].inputs.colour", step: "early", message: 'Update Record has no input "colour"; it has record, values.' },
+            {
+                path: "steps[3].action",
+                step: "after",
+                message: '"log" names 2 actions; use the scoped name: global.log, x_acme_hr.log.',
+            },
+            {
+                path: "steps[4].inputs.record",
+                step: "late",
+                message: '{{inner.Record}}: step "inner" has not always run by this point: it is later, or in a branch this step is not in.',
+            },
+            { path: "steps[4].inputs.values", step: "late", message: '{{lookup.Nothing}}: Look Up Record has no output "Nothing"; it has Record.' },
+            { path: "steps[5].subflow", step: "lookup", message: 'There is no subflow "nope".' },
+        ]);
+        expect((error as Error).message).toContain('- steps[0].inputs.colour (step "early"): Update Record has no input "colour"');
+        expect(mockBatchCreate).not.toHaveBeenCalled();
+    });
+
+    it("gives a subflow declared inputs and outputs instead of a trigger", async () => {
+        instance();
+
+        const subflowProblems = await createFlow("dev", {
+            name: "Escalate",
+            type: "subflow",
+            trigger: { type: "record_create" },
+            inputs: [{ name: "case_id", mandatory: true }],
+            steps: [{ id: "lookup", action: "look_up_record", inputs: { table: "{{trigger.table}}", conditions: "{{inputs.caseid}}" } }],
+        }).catch((e: InstanceType<typeof FlowDefinitionError>) => e.problems.map((p) => p.message));
+        expect(subflowProblems).toEqual([
+            "A subflow has no trigger; it runs when a flow calls it.",
+            "{{trigger.table}}: a subflow has no trigger; pass what it needs as inputs.",
+            '{{inputs.caseid}}: the subflow declares no input "caseid".',
+        ]);
+
+        await createFlow("dev", {
+            name: "Escalate",
+            type: "subflow",
+            inputs: [{ name: "case_id", mandatory: true }],
+            outputs: [{ name: "manager", type: "reference", reference: "sys_user" }],
+            steps: [{ id: "lookup", action: "look_up_record", inputs: { table: "sn_hr_core_case", conditions: "sys_id={{inputs.case_id}}" } }],
+        });
+        const { operations } = mockBatchCreate.mock.calls[0][0];
+        expect(operations[0].data.type).toBe("subflow");
+        expect(operations[1]).toEqual({
+            table: "sys_hub_flow_input",
+            data: { model: "${flow}", element: "case_id", label: "case_id", internal_type: "string", mandatory: true, reference: "", order: 100 },
+        });
+        expect(operations[2].data).toMatchObject({ element: "manager", internal_type: "reference", reference: "sys_user" });
+        expect(operations[operations.length - 1].data.value).toBe("sys_id={{inputs.case_id}}");
+    });
+
+    it("names the step whose record the instance refused", async () => {
+        instance();
+        mockBatchCreate.mockResolvedValue({
+            createdCount: 4,
+            sysIds: { flow: EXISTING },
+            errors: [{ operationIndex: 4, table: "sys_hub_action_instance", error: "ACL denied" }],
+        });
+
+        await expect(createFlow("dev", ONBOARDING)).rejects.toThrow(
+            'Wrote 4 of 12 records, then the instance refused the sys_hub_action_instance record for steps[0] (step "lookup"): ' +
+                `ACL denied. Draft flow ${EXISTING} is incomplete; delete it before creating it again.`,
+        );
+    });
+
+    it("refuses a name the current application already has a flow by", async () => {
+        instance();
+        const read = mockTableGet.getMockImplementation()!;
+        mockTableGet.mockImplementation(async (table, params) =>
+            String(params.sysparm_query).startsWith("internal_name=onboard^sys_scope=")
+                ? { status: 200, bodyObject: { result: [{ sys_id: EXISTING, type: "flow" }] } }
+                : read(table, params),
+        );
+
+        await expect(
+            createFlow("dev", { name: "Onboard", trigger: { type: "record_create", inputs: { table: "incident" } }, steps: [] }),
+        ).rejects.toThrow(`Acme HR already has a flow "onboard" (${EXISTING}). Use update_flow to change it, or choose another name.`);
+        expect(mockBatchCreate).not.toHaveBeenCalled();
+    });
+});
+
+describe("updateFlow", () => {
+    beforeEach(() => {
+        mockTableGet.mockReset();
+        mockBatchCreate.mockReset();
+        mockBatchUpdate.mockReset();
+        mockQueryDelete.mockReset();
+        mockBatchCreate.mockImplementation(async (request) => created(request.operations));
+        mockBatchUpdate.mockResolvedValue({ updatedCount: 1, errors: [] });
+        mockQueryDelete.mockImplementation(async ({ query }) => ({ success: true, deletedCount: String(query).split(",").length }));
+    });
+
+    /** An inactive Onboard flow whose current definition is a trigger, one step and one input value. */
+    function existingFlow() {
+        instance([{ sys_id: EXISTING, internal_name: "onboard_new_hire", ...definition("Onboard", "x_acme_hr", { active: "false" }) }]);
+        const answer = mockTableGet.getMockImplementation()!;
+        const previous: Record<string, Record<string, string>[]> = {
+            sys_hub_trigger_instance: [{ sys_id: "old_trigger" }],
+            sys_hub_action_instance: [{ sys_id: "old_step" }],
+            sys_variable_value: [{ sys_id: "old_value" }],
+        };
+        mockTableGet.mockImplementation(async (table, params) =>
+            previous[table] ? { status: 200, bodyObject: { result: previous[table] } } : answer(table, params),
+        );
+    }
+
+    it("writes the new definition, then deletes the previous one by sys_id", async () => {
+        existingFlow();
+
+        const result = await updateFlow("dev", "x_acme_hr.onboard_new_hire", ONBOARDING);
+
+        expect(mockBatchUpdate.mock.calls[0][0].updates[0]).toMatchObject({ table: "sys_hub_flow", sysId: EXISTING, data: { name: "Onboard new hire" } });
+        const { operations } = mockBatchCreate.mock.calls[0][0];
+        expect(operations[0]).toMatchObject({ table: "sys_hub_trigger_instance", data: { flow: EXISTING } });
+        // Only records read before the write are deleted, and only once it has worked
+        expect(mockQueryDelete.mock.calls.map(([request]) => [request.table, request.query])).toEqual([
+            ["sys_variable_value", "sys_idINold_value"],
+            ["sys_hub_trigger_instance", "sys_idINold_trigger"],
+            ["sys_hub_action_instance", "sys_idINold_step"],
+            ["sys_hub_flow_input", "sys_idINf1"],
+        ]);
+        expect(mockBatchCreate.mock.invocationCallOrder[0]).toBeLessThan(mockQueryDelete.mock.invocationCallOrder[0]);
+        expect(result).toMatchObject({ flowSysId: EXISTING, internalName: "onboard_new_hire", recordCount: 12, removedCount: 4 });
+    });
+
+    it("leaves the previous definition in place when the new one cannot be written", async () => {
+        existingFlow();
+        mockBatchCreate.mockResolvedValue({
+            createdCount: 0,
+            sysIds: {},
+            errors: [{ operationIndex: 0, table: "sys_hub_trigger_instance", error: "ACL denied" }],
+        });
+
+        await expect(updateFlow("dev", EXISTING, ONBOARDING)).rejects.toThrow("still holds its previous definition");
+        // Neither the flow's own fields nor its previous records were touched
+        expect(mockBatchUpdate).not.toHaveBeenCalled();
+        expect(mockQueryDelete).not.toHaveBeenCalled();
+    });
+
+    it("previews the records it would write and delete, changing nothing", async () => {
+        existingFlow();
+
+        const preview = await previewFlowUpdate("dev", EXISTING, ONBOARDING);
+
+        expect(preview.changes[0]).toMatchObject({ table: "sys_hub_flow", sys_id: EXISTING, action: "update" });
+        expect(preview.changes.filter((change) => change.action === "create")).toHaveLength(11);
+        expect(preview.changes.filter((change) => change.action === "delete").map((change) => change.sys_id)).toEqual([
+            "old_value",
+            "old_trigger",
+            "old_step",
+            "f1",
+        ]);
+        expect(mockBatchUpdate).not.toHaveBeenCalled();
+        expect(mockBatchCreate).not.toHaveBeenCalled();
+        expect(mockQueryDelete).not.toHaveBeenCalled();
+    });
+
+    it("refuses an active flow, and a flow the definition would turn into a subflow", async () => {
+        instance([{ sys_id: EXISTING, internal_name: "onboard_new_hire", ...definition("Onboard", "x_acme_hr") }]);
+
+        await expect(updateFlow("dev", EXISTING, ONBOARDING)).rejects.toThrow(
+            "Onboard is active, and would run half-replaced while it is rewritten. Deactivate it in Flow Designer first.",
+        );
+        await expect(updateFlow("dev", EXISTING, { ...ONBOARDING, type: "subflow" })).rejects.toThrow(
+            "Onboard is a flow and the definition is a subflow; a flow cannot become a subflow.",
+        );
+        await expect(updateFlow("dev", "nothing_here", ONBOARDING)).rejects.toThrow('There is no flow or subflow "nothing_here".');
+        expect(mockBatchUpdate).not.toHaveBeenCalled();
+        expect(mockQueryDelete).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,134 @@
+import { jest, describe, it, expect, beforeEach } from "@jest/globals";
+
+const mockTableGet = jest.fn<(table: string, params: Record<string, any>) => Promise<unknown>>();
+jest.unstable_mockModule("@sonisoft/now-sdk-ext-core", () => ({
+    TableAPIRequest: jest.fn().mockImplementation(() => ({ get: mockTableGet })),
+}));
+jest.unstable_mockModule("../../../src/common/connection.js", () => ({
+    withConnectionRetry: async (_alias: unknown, operation: (instance: unknown) => Promise<unknown>) => operation({}),
+    isRetryableResponse: () => false,
+}));
+
+const { flowDependencies } = await import("../../../src/common/flow-dependencies.js");
+
+const id = (c: string) => c.repeat(32);
+const [SUBFLOW, ACTION, ALERT, MAJOR, P1, TRIGGER] = ["1", "2", "3", "4", "5", "6"].map(id);
+
+const component = (sys_id: string, internal_name: string, scope: string, extra: Record<string, string> = {}) => ({
+    sys_id,
+    name: internal_name,
+    internal_name,
+    "sys_scope.scope": scope,
+    active: "true",
+    ...extra,
+});
+
+/**
+ * Monitoring Alert (flow) and Major Incident (subflow, twice) run Create Incident;
+ * P1 Escalation (inactive flow) runs Major Incident; Create Incident runs Notify.
+ */
+const TABLES: Record<string, Record<string, string>[]> = {
+    sys_hub_flow: [
+        component(SUBFLOW, "create_incident", "x_app", { type: "subflow" }),
+        component(ALERT, "monitoring_alert", "x_app", { type: "flow" }),
+        component(MAJOR, "major_incident", "x_app", { type: "subflow" }),
+        component(P1, "p1_escalation", "x_app", { type: "flow", active: "false" }),
+    ],
+    sys_hub_action_type_definition: [component(ACTION, "notify", "global")],
+    sys_hub_trigger_definition: [{ sys_id: TRIGGER, name: "Created", type: "record_create", active: "true" }],
+    sys_hub_sub_flow_instance: [
+        { flow: ALERT, subflow: SUBFLOW },
+        { flow: MAJOR, subflow: SUBFLOW },
+        { flow: MAJOR, subflow: SUBFLOW },
+        { flow: P1, subflow: MAJOR },
+    ],
+    sys_hub_action_instance: [{ flow: SUBFLOW, action_type: ACTION }],
+    sys_hub_trigger_instance: [
+        { flow: ALERT, trigger_definition: TRIGGER },
+        { flow: P1, trigger_definition: TRIGGER },
+    ],
+};
+
+/** Applies the `field=value`, `fieldINa,b` and `^OR` clauses the walk sends. */
+function matches(record: Record<string, string>, query: string): boolean {
+    const groups: string[][] = [];
+    for (const clause of query.split("^")) {
+        if (clause.startsWith("ORDERBY")) continue;
+        if (clause.startsWith("OR")) groups[groups.length - 1].push(clause.slice(2));
+        else groups.push([clause]);
+    }
+    return groups.every((group) =>
+        group.some((clause) => {
+            const [, field, op, value] = /^([\w.]+?)(IN|=)(.*)$/.exec(clause)!;
+            return op === "IN" ? value.split(",").includes(record[field]) : record[field] === value;
+        }),
+    );
+}
+
+describe("flowDependencies", () => {
+    beforeEach(() => {
+        mockTableGet.mockReset();
+        mockTableGet.mockImplementation(async (table, params) => ({
+            status: 200,
+            bodyObject: { result: (TABLES[table] ?? []).filter((record) => matches(record, params.sysparm_query)) },
+        }));
+    });
+
+    it("walks callers to the flows a change reaches, and callees down to actions", async () => {
+        const result = await flowDependencies("dev", "x_app.create_incident", { direction: "both", depth: 5 });
+
+        expect(result.root).toMatchObject({ kind: "subflow", sys_id: SUBFLOW });
+        expect(result.callers).toEqual([
+            expect.objectContaining({
+                kind: "flow",
+                sys_id: ALERT,
+                uses: 1,
+                trigger: { type: "record_create", name: "Created" },
+                children: [],
+            }),
+            expect.objectContaining({
+                kind: "subflow",
+                sys_id: MAJOR,
+                uses: 2,
+                children: [expect.objectContaining({ sys_id: P1, active: false, trigger: { type: "record_create", name: "Created" } })],
+            }),
+        ]);
+        expect(result.callees).toEqual([expect.objectContaining({ kind: "action", sys_id: ACTION, children: [] })]);
+        expect(result).toMatchObject({ callerCount: 3, calleeCount: 1, activeCallingFlows: 1 });
+    });
+
+    it("marks what the depth cut off, and walks only the direction asked", async () => {
+        const result = await flowDependencies("dev", SUBFLOW, { direction: "callers", depth: 1 });
+
+        expect(result.callees).toBeUndefined();
+        expect(result.callers!.map((node) => [node.sys_id, node.truncated ?? false])).toEqual([
+            [ALERT, false],
+            [MAJOR, true],
+        ]);
+        expect(result.callers![1].children).toEqual([]);
+    });
+
+    it("shows a component met again without expanding it again", async () => {
+        TABLES.sys_hub_action_instance.push({ flow: MAJOR, action_type: ACTION });
+        try {
+            const result = await flowDependencies("dev", "major_incident", { kind: "subflow", direction: "callees", depth: 5 });
+
+            expect(result.callees).toEqual([
+                expect.objectContaining({ sys_id: ACTION }),
+                expect.objectContaining({
+                    sys_id: SUBFLOW,
+                    children: [expect.objectContaining({ sys_id: ACTION, repeated: true, children: [] })],
+                }),
+            ]);
+            expect(result.calleeCount).toBe(2);
+        } finally {
+            TABLES.sys_hub_action_instance.pop();
+        }
+    });
+
+    it("refuses a name that matches nothing", async () => {
+        await expect(flowDependencies("dev", "x_app.nope", { direction: "both", depth: 5 })).rejects.toThrow(
+            'There is no flow, subflow or action "x_app.nope".',
+        );
+    });
+});
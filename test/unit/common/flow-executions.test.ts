@@ -0,0 +1,124 @@
+import { jest, describe, it, expect, beforeEach } from "@jest/globals";
+
+const mockTableGet = jest.fn<(table: string, params: Record<string, any>) => Promise<unknown>>();
+jest.unstable_mockModule("@sonisoft/now-sdk-ext-core", () => ({
+    TableAPIRequest: jest.fn().mockImplementation(() => ({ get: mockTableGet })),
+}));
+jest.unstable_mockModule("../../../src/common/connection.js", () => ({
+    withConnectionRetry: async (_alias: unknown, operation: (instance: unknown) => Promise<unknown>) => operation({}),
+    isRetryableResponse: () => false,
+}));
+
+const { executionQuery, searchFlowExecutions, summarizeFlowFailures } = await import(
+    "../../../src/common/flow-executions.js"
+);
+
+const id = (n: number) => n.toString(16).padStart(32, "0");
+
+/** Failed contexts of "Onboard new hire", one per entry, failing as `errors` says. */
+function failures(errors: { step: string; message: string; flow?: string }[]) {
+    const contexts = errors.map((error, n) => ({
+        sys_id: id(n + 1),
+        name: error.flow ?? "Onboard new hire",
+        state: "ERROR",
+        sys_created_on: `2026-10-19 0${n}:00:00`,
+    }));
+    // Each context logs its failure, then the flow reports it stopped
+    const logs = errors.flatMap((error, n) => [
+        { context: id(n + 1), action: error.step, message: error.message },
+        { context: id(n + 1), action: "", message: "Flow ended in error" },
+    ]);
+    mockTableGet.mockImplementation(async (table) => ({
+        status: 200,
+        bodyObject: { result: table === "sys_flow_context" ? contexts : table === "sys_flow_log" ? logs : [] },
+    }));
+}
+
+describe("executionQuery", () => {
+    it("builds the sys_flow_context query, escaping ^ in names", () => {
+        expect(
+            executionQuery({
+                flowName: "HR^Onboard",
+                states: ["ERROR", "CANCELLED"],
+                sinceHours: 24,
+                until: "2026-10-19 00:00:00",
+            }),
+        ).toBe(
+            "nameLIKEHR^^Onboard^stateINERROR,CANCELLED^sys_created_on>=javascript:gs.hoursAgo(24)^sys_created_on<2026-10-19 00:00:00",
+        );
+    });
+
+    it("refuses a date-time it cannot pass on as-is", () => {
+        expect(() => executionQuery({ since: "2026-10-19T00:00:00Z" })).toThrow(
+            'since must be a date-time as YYYY-MM-DD HH:MM:SS, not "2026-10-19T00:00:00Z".',
+        );
+    });
+});
+
+describe("summarizeFlowFailures", () => {
+    beforeEach(() => {
+        mockTableGet.mockReset();
+    });
+
+    it("groups failures by first error, masking ids and numbers", async () => {
+        failures([
+            { step: "Lookup user", message: "No user for employee 100482" },
+            { step: "Lookup user", message: "No user for employee 100517", flow: "Offboard leaver" },
+            { step: "Create account", message: "Connection timed out" },
+            { step: "Lookup user", message: "No user for employee 100900" },
+        ]);
+
+        const summary = await summarizeFlowFailures("dev", { sinceHours: 24 });
+
+        expect(summary.failureCount).toBe(4);
+        expect(summary.bySteps).toEqual([
+            { step: "Lookup user", count: 3 },
+            { step: "Create account", count: 1 },
+        ]);
+        expect(summary.groups[0]).toMatchObject({
+            step: "Lookup user",
+            message: "No user for employee <n>",
+            count: 3,
+            example: "No user for employee 100482",
+            firstSeen: "2026-10-19 00:00:00",
+            lastSeen: "2026-10-19 03:00:00",
+            flows: { "Onboard new hire": 2, "Offboard leaver": 1 },
+        });
+        const [, query] = mockTableGet.mock.calls.find(([table]) => table === "sys_flow_context")!;
+        expect(query.sysparm_query).toContain("stateINERROR^sys_created_on>=javascript:gs.hoursAgo(24)");
+    });
+
+    it("counts a failure that logged no error as unknown", async () => {
+        failures([{ step: "Lookup user", message: "No user for employee 100482" }]);
+        const logs = mockTableGet.getMockImplementation()!;
+        mockTableGet.mockImplementation(async (table, params) =>
+            table === "sys_flow_log" ? { status: 200, bodyObject: { result: [] } } : logs(table, params),
+        );
+
+        const summary = await summarizeFlowFailures("dev", {});
+
+        expect(summary.groups).toEqual([expect.objectContaining({ step: "(unknown)", message: "(no error logged)", count: 1 })]);
+    });
+});
+
+describe("searchFlowExecutions", () => {
+    beforeEach(() => {
+        mockTableGet.mockReset();
+    });
+
+    it("finds executions by error text through their logs", async () => {
+        failures([{ step: "Lookup user", message: "No user for employee 100482" }]);
+
+        const result = await searchFlowExecutions("dev", { errorText: "No user" }, 10);
+
+        expect(result.executions).toEqual([
+            expect.objectContaining({
+                sys_id: id(1),
+                failure: { step: "Lookup user", message: "No user for employee 100482" },
+            }),
+        ]);
+        const queries = mockTableGet.mock.calls.map(([table, params]) => `${table}: ${params.sysparm_query}`);
+        expect(queries[0]).toMatch(/^sys_flow_log: level=-1\^messageLIKENo user\^ORDERBYDESCsys_created_on/);
+        expect(queries[1]).toContain(`sys_flow_context: sys_idIN${id(1)}`);
+    });
+});
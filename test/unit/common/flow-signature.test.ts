@@ -0,0 +1,101 @@
+import { jest, describe, it, expect, beforeEach } from "@jest/globals";
+
+const mockTableGet = jest.fn<(table: string, params: Record<string, any>) => Promise<unknown>>();
+jest.unstable_mockModule("@sonisoft/now-sdk-ext-core", () => ({
+    TableAPIRequest: jest.fn().mockImplementation(() => ({ get: mockTableGet })),
+}));
+jest.unstable_mockModule("../../../src/common/connection.js", () => ({
+    withConnectionRetry: async (_alias: unknown, operation: (instance: unknown) => Promise<unknown>) => operation({}),
+    isRetryableResponse: () => false,
+}));
+
+const { checkExecutionInputs, describeFlow, inputProblems } = await import("../../../src/common/flow-signature.js");
+
+const variable = (name: string, type: string, mandatory = false) => ({ sys_id: name, name, label: name, type, mandatory });
+
+describe("inputProblems", () => {
+    it("lists every missing mandatory input and every value of the wrong type", () => {
+        const inputs = [
+            variable("caller", "reference", true),
+            variable("count", "integer"),
+            variable("ratio", "decimal"),
+            variable("notify", "boolean"),
+            variable("due", "glide_date_time"),
+            variable("tags", "array.string"),
+            variable("payload", "object"),
+            variable("note", "string", true),
+        ];
+
+        expect(
+            inputProblems(inputs, {
+                caller: "Dana Manager",
+                count: 2.5,
+                ratio: "0.75",
+                notify: "yes",
+                due: "2026-10-19T08:00:00Z",
+                tags: "urgent",
+                payload: { a: 1 },
+                note: "",
+            }),
+        ).toEqual([
+            { input: "caller", message: 'expects a record sys_id (reference), got "Dana Manager"' },
+            { input: "count", message: "expects a whole number (integer), got 2.5" },
+            { input: "notify", message: 'expects true or false, got "yes"' },
+            { input: "due", message: 'expects a date-time as YYYY-MM-DD HH:MM:SS, got "2026-10-19T08:00:00Z"' },
+            { input: "tags", message: 'expects an array (array.string), got "urgent"' },
+            { input: "note", message: "missing, and mandatory (string)" },
+        ]);
+    });
+
+    it("passes types it does not know, and leaves optional inputs out", () => {
+        expect(inputProblems([variable("when", "glide_duration"), variable("count", "integer")], { when: "1 00:00:00" })).toEqual([]);
+    });
+});
+
+describe("flow signatures on the instance", () => {
+    const FLOW = "a".repeat(32);
+    const ACTION = "b".repeat(32);
+
+    beforeEach(() => {
+        mockTableGet.mockReset();
+    });
+
+    /** A flow and an action both named "notify", in different scopes. */
+    function twoNamedNotify() {
+        mockTableGet.mockImplementation(async (table, params) => ({
+            status: 200,
+            bodyObject: {
+                result:
+                    table === "sys_hub_flow" && params.sysparm_query.startsWith("type=flow")
+                        ? [{ sys_id: FLOW, name: "Notify", internal_name: "notify", "sys_scope.scope": "global", active: "true" }]
+                        : table === "sys_hub_action_type_definition"
+                          ? [{ sys_id: ACTION, name: "Notify", internal_name: "notify", "sys_scope.scope": "x_acme", active: "true" }]
+                          : table === "sys_hub_action_input"
+                            ? [{ sys_id: "i1", model: ACTION, element: "to", internal_type: "string", mandatory: "true" }]
+                            : [],
+            },
+        }));
+    }
+
+    it("refuses a name several components share, and resolves it by kind", async () => {
+        twoNamedNotify();
+
+        await expect(describeFlow("dev", "notify")).rejects.toThrow(
+            `"notify" names 2 components: flow global.notify (${FLOW}), action x_acme.notify (${ACTION}). Pass a scoped name or a sys_id.`,
+        );
+        const action = await describeFlow("dev", "notify", "action");
+        expect(action.component.sys_id).toBe(ACTION);
+        expect(action.inputs.map((input) => input.name)).toEqual(["to"]);
+    });
+
+    it("leaves a name it cannot resolve, or cannot read, to the instance", async () => {
+        twoNamedNotify();
+        await expect(checkExecutionInputs({} as never, "subflow", "global.notify", {})).resolves.toBeUndefined();
+        await expect(checkExecutionInputs({} as never, "action", "x_acme.notify", {})).rejects.toThrow(
+            "- to: missing, and mandatory (string)",
+        );
+
+        mockTableGet.mockResolvedValue({ status: 403, statusText: "Forbidden" });
+        await expect(checkExecutionInputs({} as never, "action", "x_acme.notify", {})).resolves.toBeUndefined();
+    });
+});
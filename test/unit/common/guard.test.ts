@@ -9,12 +9,27 @@
  */
 
 import { describe, it, expect, afterEach } from "@jest/globals";
+import { mkdtempSync, readFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
 import { installPolicy, denyLayer, grantLayer, resetPolicyForTests } from "@sonisoft/now-sdk-ext-core";
 
 import { annotationsFor, requirementFor } from "../../../src/common/annotations.js";
+import { initAudit, resetAuditForTests } from "../../../src/common/audit.js";
+import { installDryRun, resetDryRunForTests } from "../../../src/common/dry-run.js";
 import { guardServer } from "../../../src/common/guard.js";
-
-afterEach(() => resetPolicyForTests());
+import {
+    installInstancePolicy,
+    instanceRulesFromEnvironment,
+    resetInstancePolicyForTests,
+} from "../../../src/common/instance-policy.js";
+
+afterEach(() => {
+    resetPolicyForTests();
+    resetInstancePolicyForTests();
+    resetAuditForTests();
+    resetDryRunForTests();
+});
 
 describe("requirement derivation", () => {
     it("treats read tools as needing nothing", () => {
@@ -227,3 +242,152 @@ describe("guardServer", () => {
         ).toThrow(/No annotations defined/);
     });
 });
+
+describe("guardServer with per-alias rules", () => {
+    function guardedWith(env: NodeJS.ProcessEnv, tool: string) {
+        installPolicy([grantLayer("default", ["write", "execute"])]);
+        installInstancePolicy(instanceRulesFromEnvironment(env, () => undefined));
+        const server = fakeServer();
+        const guarded = guardServer(server as never);
+        const calls: unknown[] = [];
+        (guarded as unknown as ReturnType<typeof fakeServer>).registerTool(tool, {}, async (args) => {
+            calls.push(args);
+            return { content: [] };
+        });
+        return { handler: server.handlers.get(tool)!, calls };
+    }
+
+    it("refuses a write on the denied alias and names the alias", async () => {
+        const { handler, calls } = guardedWith({ NEX_POLICY_DENY_prod: "write" }, "update_kb_article");
+
+        const result = (await handler({ instance: "prod" })) as { isError?: boolean; content: { text: string }[] };
+        expect(calls).toHaveLength(0);
+        expect(result.isError).toBe(true);
+        expect(result.content[0].text).toContain('"prod"');
+        expect(result.content[0].text).toContain("NEX_POLICY_DENY_prod");
+    });
+
+    it("permits the same write on another alias in the same session", async () => {
+        const { handler, calls } = guardedWith({ NEX_POLICY_DENY_prod: "write" }, "update_kb_article");
+
+        await handler({ instance: "dev" });
+        expect(calls).toHaveLength(1);
+    });
+
+    it("applies the rule to calls that omit instance and fall back to SN_AUTH_ALIAS", async () => {
+        const saved = process.env.SN_AUTH_ALIAS;
+        process.env.SN_AUTH_ALIAS = "prod";
+        try {
+            const { handler, calls } = guardedWith({ NEX_POLICY_DENY_prod: "write" }, "update_kb_article");
+            await handler({});
+            expect(calls).toHaveLength(0);
+        } finally {
+            if (saved === undefined) delete process.env.SN_AUTH_ALIAS;
+            else process.env.SN_AUTH_ALIAS = saved;
+        }
+    });
+
+    it("lets read tools through on a fully denied alias", async () => {
+        const { handler, calls } = guardedWith({ NEX_POLICY_DENY_prod: "all" }, "query_table");
+
+        await handler({ instance: "prod" });
+        expect(calls).toHaveLength(1);
+    });
+
+    it("does not gate LOCAL-target writes by alias", async () => {
+        // pull_script takes an instance to read FROM; the write lands on disk.
+        const { handler, calls } = guardedWith({ NEX_POLICY_DENY_prod: "all" }, "pull_script");
+
+        await handler({ instance: "prod" });
+        expect(calls).toHaveLength(1);
+    });
+});
+
+describe("guardServer with NEX_AUDIT_LOG", () => {
+    function guardedTool(tool: string) {
+        const server = fakeServer();
+        const guarded = guardServer(server as never);
+        (guarded as unknown as ReturnType<typeof fakeServer>).registerTool(tool, {}, async () => ({ content: [] }));
+        return server.handlers.get(tool)!;
+    }
+
+    it("writes an entry for a permitted instance write, with its alias", async () => {
+        const path = join(mkdtempSync(join(tmpdir(), "nex-guard-audit-")), "audit.jsonl");
+        installPolicy([grantLayer("default", ["write", "execute"])]);
+        initAudit({ NEX_AUDIT_LOG: path });
+
+        await guardedTool("update_kb_article")({ instance: "dev", sys_id: "abc" });
+
+        const entry = JSON.parse(readFileSync(path, "utf8").trim());
+        expect(entry).toMatchObject({ tool: "update_kb_article", alias: "dev", records: [{ sys_id: "abc" }] });
+    });
+
+    it("writes nothing for reads or refusals", async () => {
+        const path = join(mkdtempSync(join(tmpdir(), "nex-guard-audit-")), "audit.jsonl");
+        installPolicy([denyLayer("test-deny", ["write"])]);
+        initAudit({ NEX_AUDIT_LOG: path });
+
+        await guardedTool("query_table")({ instance: "dev" });
+        await guardedTool("update_kb_article")({ instance: "dev", sys_id: "abc" });
+
+        expect(readFileSync(path, "utf8")).toBe("");
+    });
+});
+
+describe("guardServer under NEX_DRY_RUN", () => {
+    function register(tool: string, config: unknown) {
+        installPolicy([grantLayer("default", ["write", "execute"])]);
+        const server = fakeServer();
+        const guarded = guardServer(server as never);
+        const calls: unknown[] = [];
+        (guarded as unknown as ReturnType<typeof fakeServer>).registerTool(tool, config, async (args) => {
+            calls.push(args);
+            return { content: [] };
+        });
+        return { handler: server.handlers.get(tool)!, calls };
+    }
+
+    it("forces dry_run on for a tool that can preview, whatever the model passed", async () => {
+        installDryRun(true);
+        const { handler, calls } = register("query_update_records", { inputSchema: { dry_run: {} } });
+
+        await handler({ table: "incident", confirm: true, dry_run: false });
+        expect(calls).toEqual([{ table: "incident", confirm: true, dry_run: true }]);
+    });
+
+    it("does not call a write tool that has no preview", async () => {
+        installDryRun(true);
+        const { handler, calls } = register("create_kb_article", { inputSchema: { title: {} } });
+
+        const result = (await handler({})) as { isError?: boolean; content: { text: string }[] };
+        expect(calls).toHaveLength(0);
+        expect(result.isError).toBe(true);
+        expect(result.content[0].text).toContain("NEX_DRY_RUN");
+    });
+
+    it("does not call execute tools at all", async () => {
+        installDryRun(true);
+        const { handler, calls } = register("execute_script", { inputSchema: { script: {} } });
+
+        await handler({ script: "gs.info(1)" });
+        expect(calls).toHaveLength(0);
+    });
+
+    it("leaves read tools alone", async () => {
+        installDryRun(true);
+        const { handler, calls } = register("query_table", { inputSchema: { table: {} } });
+
+        await handler({ table: "incident" });
+        expect(calls).toEqual([{ table: "incident" }]);
+    });
+
+    it("does not audit a per-call preview", async () => {
+        const path = join(mkdtempSync(join(tmpdir(), "nex-guard-audit-")), "audit.jsonl");
+        initAudit({ NEX_AUDIT_LOG: path });
+        const { handler, calls } = register("push_script", { inputSchema: { dry_run: {} } });
+
+        await handler({ dry_run: true });
+        expect(calls).toHaveLength(1);
+        expect(readFileSync(path, "utf8")).toBe("");
+    });
+});
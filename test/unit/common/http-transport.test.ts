@@ -0,0 +1,251 @@
+import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals'
+import { request } from 'node:http'
+import { Client } from '@modelcontextprotocol/sdk/client/index.js'
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js'
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
+
+// The logger pulls in core; these tests only need to see what was warned.
+const mockWarn = jest.fn()
+jest.unstable_mockModule('../../../src/common/logging.js', () => ({
+  getLogger: () => ({ info: jest.fn(), warn: mockWarn, error: jest.fn(), debug: jest.fn() }),
+}))
+
+const {
+  httpConfigFromEnvironment,
+  startHttpTransport,
+  transportFromEnvironment,
+  MCP_PATH,
+} = await import('../../../src/common/http-transport.js')
+
+type Running = Awaited<ReturnType<typeof startHttpTransport>>
+
+const TOKEN = 'test-token'
+
+/** A minimal server per session, counted so tests can see one was built per client. */
+function factory(built: McpServer[]): () => McpServer {
+  return () => {
+    const server = new McpServer({ name: 'http-test', version: '1.0.0' })
+    server.registerTool('ping', { description: 'Replies pong.', inputSchema: {} }, async () => ({
+      content: [{ type: 'text' as const, text: 'pong' }],
+    }))
+    built.push(server)
+    return server
+  }
+}
+
+async function connect(running: Running, token?: string): Promise<Client> {
+  const url = new URL(`http://127.0.0.1:${running.address.port}${MCP_PATH}`)
+  const transport = new StreamableHTTPClientTransport(url, {
+    requestInit: token ? { headers: { Authorization: `Bearer ${token}` } } : undefined,
+  })
+  const client = new Client({ name: 'test-client', version: '1.0.0' })
+  await client.connect(transport)
+  return client
+}
+
+describe('transportFromEnvironment', () => {
+  it('defaults to stdio', () => {
+    expect(transportFromEnvironment({})).toBe('stdio')
+  })
+
+  it('accepts http, case-insensitively', () => {
+    expect(transportFromEnvironment({ MCP_TRANSPORT: ' HTTP ' })).toBe('http')
+  })
+
+  it('throws on an unknown value rather than silently running stdio', () => {
+    expect(() => transportFromEnvironment({ MCP_TRANSPORT: 'sse' })).toThrow(/MCP_TRANSPORT/)
+  })
+})
+
+describe('httpConfigFromEnvironment', () => {
+  it('binds loopback on port 3000 by default', () => {
+    expect(httpConfigFromEnvironment({})).toEqual({ host: '127.0.0.1', port: 3000, token: undefined })
+  })
+
+  it('reads host, port and token', () => {
+    const config = httpConfigFromEnvironment({
+      MCP_HTTP_HOST: '0.0.0.0',
+      MCP_HTTP_PORT: '8080',
+      MCP_HTTP_TOKEN: 'secret',
+    })
+    expect(config).toEqual({ host: '0.0.0.0', port: 8080, token: 'secret' })
+  })
+
+  it('refuses a non-loopback bind without a token', () => {
+    // The failure this guards against is an open port fronting every instance credential.
+    expect(() => httpConfigFromEnvironment({ MCP_HTTP_HOST: '0.0.0.0' })).toThrow(/MCP_HTTP_TOKEN/)
+  })
+
+  it('reads allowed origins and the session idle time', () => {
+    const config = httpConfigFromEnvironment({
+      MCP_HTTP_ALLOWED_ORIGINS: 'https://a.example, https://b.example',
+      MCP_HTTP_SESSION_IDLE_MINUTES: '5',
+    })
+    expect(config).toMatchObject({ allowedOrigins: ['https://a.example', 'https://b.example'], sessionIdleMs: 300000 })
+    expect(() => httpConfigFromEnvironment({ MCP_HTTP_SESSION_IDLE_MINUTES: '0' })).toThrow(/MCP_HTTP_SESSION_IDLE_MINUTES/)
+  })
+
+  it('rejects a port that is not a port', () => {
+    expect(() => httpConfigFromEnvironment({ MCP_HTTP_PORT: 'abc' })).toThrow(/MCP_HTTP_PORT/)
+    expect(() => httpConfigFromEnvironment({ MCP_HTTP_PORT: '70000' })).toThrow(/MCP_HTTP_PORT/)
+  })
+})
+
+describe('startHttpTransport', () => {
+  let running: Running
+  let built: McpServer[]
+  let clients: Client[]
+
+  beforeEach(async () => {
+    mockWarn.mockClear()
+    built = []
+    clients = []
+    running = await startHttpTransport(factory(built), { host: '127.0.0.1', port: 0, token: TOKEN })
+  })
+
+  afterEach(async () => {
+    for (const c of clients) await c.close()
+    await running.close()
+  })
+
+  it('serves tools to a client presenting the token', async () => {
+    const client = await connect(running, TOKEN)
+    clients.push(client)
+
+    const result = await client.callTool({ name: 'ping', arguments: {} })
+    expect((result.content as any[])[0].text).toBe('pong')
+  })
+
+  it('rejects a request without the token before building a server', async () => {
+    const res = await fetch(`http://127.0.0.1:${running.address.port}${MCP_PATH}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'initialize', params: {} }),
+    })
+    expect(res.status).toBe(401)
+    expect(res.headers.get('www-authenticate')).toBe('Bearer')
+    expect(built).toHaveLength(0)
+  })
+
+  it('rejects a wrong token', async () => {
+    await expect(connect(running, 'not-the-token')).rejects.toThrow()
+    expect(built).toHaveLength(0)
+  })
+
+  it('builds a separate server for each session', async () => {
+    clients.push(await connect(running, TOKEN), await connect(running, TOKEN))
+
+    expect(built).toHaveLength(2)
+    expect(built[0]).not.toBe(built[1])
+    expect(running.sessionCount()).toBe(2)
+  })
+
+  it('answers an unknown session id with 404 so the client re-initializes', async () => {
+    const res = await fetch(`http://127.0.0.1:${running.address.port}${MCP_PATH}`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${TOKEN}`,
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+        'Mcp-Session-Id': 'no-such-session',
+      },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+    })
+    expect(res.status).toBe(404)
+  })
+
+  it('serves nothing outside the MCP path', async () => {
+    const res = await fetch(`http://127.0.0.1:${running.address.port}/`, {
+      headers: { Authorization: `Bearer ${TOKEN}` },
+    })
+    expect(res.status).toBe(404)
+  })
+
+  it('forgets a session once the client terminates it', async () => {
+    const client = await connect(running, TOKEN)
+    await (client.transport as StreamableHTTPClientTransport).terminateSession()
+    await client.close()
+
+    expect(running.sessionCount()).toBe(0)
+  })
+})
+
+describe('startHttpTransport without a token', () => {
+  const initialize = (port: number, headers: Record<string, string>) =>
+    fetch(`http://127.0.0.1:${port}${MCP_PATH}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream', ...headers },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'initialize', params: {} }),
+    })
+
+  it('refuses a Host other than its own loopback address, as a rebound page sends', async () => {
+    const built: McpServer[] = []
+    const running = await startHttpTransport(factory(built), { host: '127.0.0.1', port: 0 })
+    try {
+      // fetch will not send a Host of its choosing; node:http will.
+      const status = await new Promise<number | undefined>((resolve, reject) => {
+        const req = request(
+          {
+            host: '127.0.0.1',
+            port: running.address.port,
+            path: MCP_PATH,
+            method: 'POST',
+            headers: { Host: `attacker.example:${running.address.port}`, 'Content-Type': 'application/json' },
+          },
+          (res) => {
+            res.resume()
+            resolve(res.statusCode)
+          }
+        )
+        req.on('error', reject)
+        req.end(JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'initialize', params: {} }))
+      })
+      expect(status).toBe(403)
+      expect(built).toHaveLength(0)
+    } finally {
+      await running.close()
+    }
+  })
+
+  it('refuses an Origin it was not told to trust, and accepts one it was', async () => {
+    const running = await startHttpTransport(factory([]), {
+      host: '127.0.0.1',
+      port: 0,
+      allowedOrigins: ['https://inspector.example'],
+    })
+    try {
+      expect((await initialize(running.address.port, { Origin: 'https://evil.example' })).status).toBe(403)
+      const trusted = await initialize(running.address.port, { Origin: 'https://inspector.example' })
+      expect(trusted.status).not.toBe(403)
+      await trusted.body?.cancel()
+    } finally {
+      await running.close()
+    }
+  })
+
+  it('closes a session its client left without ending it', async () => {
+    const running = await startHttpTransport(factory([]), { host: '127.0.0.1', port: 0, sessionIdleMs: 50 })
+    try {
+      const client = await connect(running)
+      expect(running.sessionCount()).toBe(1)
+      await client.close()
+
+      for (let i = 0; i < 40 && running.sessionCount() > 0; i++) {
+        await new Promise((resolve) => setTimeout(resolve, 25))
+      }
+      expect(running.sessionCount()).toBe(0)
+    } finally {
+      await running.close()
+    }
+  })
+
+  it('warns that it is accepting unauthenticated requests', async () => {
+    mockWarn.mockClear()
+    const running = await startHttpTransport(factory([]), { host: '127.0.0.1', port: 0 })
+    try {
+      expect(mockWarn).toHaveBeenCalledWith(expect.stringContaining('no MCP_HTTP_TOKEN'), expect.anything())
+    } finally {
+      await running.close()
+    }
+  })
+})
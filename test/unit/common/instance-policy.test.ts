@@ -0,0 +1,140 @@
+/**
+ * Per-alias policy rules. The parser is pinned separately from the guard because its
+ * failure mode is quiet: a rule that does not parse the way the operator meant simply
+ * stops applying, and nothing else would notice.
+ */
+
+import { describe, it, expect, afterEach } from "@jest/globals";
+
+import {
+    checkInstance,
+    describeInstancePolicy,
+    installInstancePolicy,
+    instanceRulesFromEnvironment,
+    resetInstancePolicyForTests,
+    resolveCallAlias,
+} from "../../../src/common/instance-policy.js";
+
+afterEach(() => resetInstancePolicyForTests());
+
+function parse(env: NodeJS.ProcessEnv) {
+    const warnings: string[] = [];
+    const rules = instanceRulesFromEnvironment(env, (m) => warnings.push(m));
+    return { rules, warnings };
+}
+
+describe("instanceRulesFromEnvironment", () => {
+    it("reads NEX_POLICY_DENY_<alias>", () => {
+        const { rules } = parse({ NEX_POLICY_DENY_prod: "write,execute" });
+        expect(rules).toEqual([{ pattern: "prod", deny: ["write", "execute"], source: "NEX_POLICY_DENY_prod" }]);
+    });
+
+    it("expands all", () => {
+        expect(parse({ NEX_POLICY_DENY_prod: "all" }).rules[0].deny).toEqual(["write", "execute"]);
+    });
+
+    it("does not mistake NEX_POLICY_DENY itself for an alias rule", () => {
+        // The process-wide variable is core's; reading it here too would apply it twice.
+        expect(parse({ NEX_POLICY_DENY: "all" }).rules).toEqual([]);
+    });
+
+    it("drops a rule that denies nothing", () => {
+        expect(parse({ NEX_POLICY_DENY_dev: "" }).rules).toEqual([]);
+    });
+
+    it("fails closed on an unrecognised verb, and says so", () => {
+        const { rules, warnings } = parse({ NEX_POLICY_DENY_prod: "wirte" });
+        expect(rules[0].deny).toEqual(["write", "execute"]);
+        expect(warnings[0]).toContain("wirte");
+    });
+
+    it("reads a pattern list", () => {
+        const { rules } = parse({ NEX_POLICY_INSTANCE_DENY: "prod*:all; *-uat:write" });
+        expect(rules).toEqual([
+            { pattern: "prod*", deny: ["write", "execute"], source: "NEX_POLICY_INSTANCE_DENY" },
+            { pattern: "*-uat", deny: ["write"], source: "NEX_POLICY_INSTANCE_DENY" },
+        ]);
+    });
+
+    it("fails closed on a pattern entry with no verbs", () => {
+        const { rules, warnings } = parse({ NEX_POLICY_INSTANCE_DENY: "prod" });
+        expect(rules).toEqual([{ pattern: "prod", deny: ["write", "execute"], source: "NEX_POLICY_INSTANCE_DENY" }]);
+        expect(warnings).toHaveLength(1);
+    });
+});
+
+describe("checkInstance", () => {
+    it("refuses a denied verb on the named alias only", () => {
+        installInstancePolicy(parse({ NEX_POLICY_DENY_prod: "write" }).rules);
+        expect(checkInstance("prod", ["write"])).toEqual({
+            alias: "prod",
+            verbs: ["write"],
+            source: "NEX_POLICY_DENY_prod",
+        });
+        expect(checkInstance("dev", ["write"])).toBeUndefined();
+    });
+
+    it("matches aliases case-insensitively", () => {
+        installInstancePolicy(parse({ NEX_POLICY_DENY_PROD: "write" }).rules);
+        expect(checkInstance("prod", ["write"])).toBeDefined();
+    });
+
+    it("matches glob patterns against the whole alias", () => {
+        installInstancePolicy(parse({ NEX_POLICY_INSTANCE_DENY: "prod*:write" }).rules);
+        expect(checkInstance("prod-eu", ["write"])).toBeDefined();
+        expect(checkInstance("preprod", ["write"])).toBeUndefined();
+    });
+
+    it("treats regex metacharacters in a pattern literally", () => {
+        installInstancePolicy(parse({ NEX_POLICY_INSTANCE_DENY: "acme.prod:write" }).rules);
+        expect(checkInstance("acme.prod", ["write"])).toBeDefined();
+        expect(checkInstance("acmexprod", ["write"])).toBeUndefined();
+    });
+
+    it("refuses an execute tool on an alias that only denies write", () => {
+        // Execute tools need BOTH verbs; denying either is enough to stop them.
+        installInstancePolicy(parse({ NEX_POLICY_DENY_prod: "write" }).rules);
+        expect(checkInstance("prod", ["execute", "write"])?.verbs).toEqual(["write"]);
+    });
+
+    it("does not refuse a read", () => {
+        installInstancePolicy(parse({ NEX_POLICY_DENY_prod: "all" }).rules);
+        expect(checkInstance("prod", [])).toBeUndefined();
+    });
+
+    it("has nothing to say when no alias resolves", () => {
+        installInstancePolicy(parse({ NEX_POLICY_INSTANCE_DENY: "*:all" }).rules);
+        expect(checkInstance(undefined, ["write"])).toBeUndefined();
+    });
+});
+
+describe("resolveCallAlias", () => {
+    const saved = process.env.SN_AUTH_ALIAS;
+    afterEach(() => {
+        if (saved === undefined) delete process.env.SN_AUTH_ALIAS;
+        else process.env.SN_AUTH_ALIAS = saved;
+    });
+
+    it("prefers the explicit instance argument", () => {
+        process.env.SN_AUTH_ALIAS = "dev";
+        expect(resolveCallAlias("prod")).toBe("prod");
+    });
+
+    it("falls back to SN_AUTH_ALIAS, as the connection does", () => {
+        // Otherwise omitting `instance` would be a way around a rule on the default alias.
+        process.env.SN_AUTH_ALIAS = "prod";
+        expect(resolveCallAlias(undefined)).toBe("prod");
+        expect(resolveCallAlias("")).toBe("prod");
+    });
+});
+
+describe("describeInstancePolicy", () => {
+    it("lists each rule and the default alias's effective verdict", () => {
+        const { rules } = parse({ NEX_POLICY_DENY_prod: "write", NEX_POLICY_INSTANCE_DENY: "*-uat:execute" });
+        expect(describeInstancePolicy(rules, "prod")).toEqual([
+            { alias: "prod", write: "denied", execute: "permitted", source: "NEX_POLICY_DENY_prod" },
+            { alias: "*-uat", write: "permitted", execute: "denied", source: "NEX_POLICY_INSTANCE_DENY" },
+            { alias: "prod (SN_AUTH_ALIAS)", write: "denied", execute: "permitted", source: "NEX_POLICY_DENY_prod" },
+        ]);
+    });
+});
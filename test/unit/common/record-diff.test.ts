@@ -0,0 +1,95 @@
+import { describe, it, expect } from "@jest/globals";
+
+import {
+    compareRecordSets,
+    DEFAULT_IGNORED_FIELDS,
+    diffRecords,
+    fieldFilter,
+} from "../../../src/common/record-diff.js";
+
+const compared = fieldFilter(DEFAULT_IGNORED_FIELDS);
+
+describe("fieldFilter", () => {
+    it("ignores sys_updated_* and sys_mod_count by default", () => {
+        expect(["sys_updated_on", "sys_updated_by", "sys_mod_count"].filter(compared)).toEqual([]);
+        expect(compared("sys_created_on")).toBe(true);
+    });
+
+    it("treats only * as a wildcard", () => {
+        const filter = fieldFilter(["u_a?c", "u_x.y"]);
+        expect(filter("u_abc")).toBe(true);
+        expect(filter("u_a?c")).toBe(false);
+        expect(filter("u_xzy")).toBe(true);
+    });
+});
+
+describe("diffRecords", () => {
+    it("lists the differing compared fields, in name order", () => {
+        const source = { name: "Util", script: "a()", active: "true", sys_updated_on: "2026-01-01" };
+        const target = { name: "Util", script: "b()", active: "false", sys_updated_on: "2026-02-01" };
+
+        expect(diffRecords(source, target, compared)).toEqual([
+            { field: "active", source: "true", target: "false" },
+            { field: "script", source: "a()", target: "b()" },
+        ]);
+    });
+
+    it("reports a field present on one side only", () => {
+        expect(diffRecords({ u_new: "" }, {}, compared)).toEqual([{ field: "u_new", source: "", target: null }]);
+    });
+
+    it("compares reference values without their instance-specific links", () => {
+        const source = { group: { link: "https://test/api/x", value: "abc" } };
+        const target = { group: { link: "https://prod/api/x", value: "abc" } };
+        expect(diffRecords(source, target, compared)).toEqual([]);
+    });
+});
+
+describe("compareRecordSets", () => {
+    const compareAll = (source: Record<string, unknown>[], target: Record<string, unknown>[]) =>
+        compareRecordSets(source, target, "name", fieldFilter(["sys_id", "name"]));
+
+    it("sorts records into missing, extra, differing and identical", () => {
+        const result = compareAll(
+            [
+                { sys_id: "1", name: "a", script: "x" },
+                { sys_id: "2", name: "b", script: "x" },
+                { sys_id: "3", name: "c", script: "x" },
+            ],
+            [
+                { sys_id: "9", name: "a", script: "x" },
+                { sys_id: "8", name: "b", script: "y" },
+                { sys_id: "7", name: "d", script: "x" },
+            ],
+        );
+
+        expect(result).toEqual({
+            missing: [{ key: "c", sys_id: "3" }],
+            extra: [{ key: "d", sys_id: "7" }],
+            differing: [
+                {
+                    key: "b",
+                    sourceSysId: "2",
+                    targetSysId: "8",
+                    differences: [{ field: "script", source: "x", target: "y" }],
+                },
+            ],
+            identicalCount: 1,
+            duplicateKeys: [],
+        });
+    });
+
+    it("reports a key that is not unique instead of pairing it at random", () => {
+        const result = compareAll(
+            [
+                { sys_id: "1", name: "a" },
+                { sys_id: "2", name: "a" },
+            ],
+            [{ sys_id: "9", name: "a" }],
+        );
+
+        expect(result.duplicateKeys).toEqual([{ side: "source", key: "a" }]);
+        expect(result.extra).toEqual([]);
+        expect(result.identicalCount).toBe(0);
+    });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect } from "@jest/globals";
+import { runInNewContext } from "node:vm";
+
+import { instrumentScript, parseScriptOutput, usesScriptChannel } from "../../../src/common/script-channel.js";
+
+/** Runs an instrumented script against a `gs` that only prints, as the instance would. */
+function run(script: string): string[] {
+    const printed: string[] = [];
+    runInNewContext(instrumentScript(script), { gs: { print: (line: string) => printed.push(String(line)) } });
+    return printed;
+}
+
+describe("instrumentScript", () => {
+    it("leaves a script that uses neither logs nor results exactly as written", () => {
+        const script = "var gr = new GlideRecord('incident');\ngs.print(gr.getRowCount());";
+
+        expect(usesScriptChannel(script)).toBe(false);
+        expect(instrumentScript(script)).toBe(script);
+    });
+
+    it("keeps the user's line numbers", () => {
+        const script = "gs.info('a');\ngs.print('b');\n";
+
+        expect(instrumentScript(script).split("\n")).toHaveLength(script.split("\n").length);
+    });
+
+    it("tags each level and formats arguments the way gs.info does", () => {
+        const printed = run("gs.info('{0} of {1}', 2, 3); gs . warn('two\\nlines'); gs.error('bad'); gs.print('plain');");
+
+        expect(parseScriptOutput(printed)).toMatchObject({
+            output: ["2 of 3", "two", "lines", "bad", "plain"],
+            print: ["plain"],
+            logs: { info: ["2 of 3"], warn: ["two", "lines"], error: ["bad"] },
+        });
+    });
+
+    it("leaves calls in strings and comments, and on other objects, as written", () => {
+        const script =
+            "var s = \"call gs.info(x)\" + 'gs.warn(y)';\n" +
+            "// gs.error(z)\n/* gs.info(w) */ var t = `gs.info(v)`;\n" +
+            "foo.gs.info('not global'); mygs.info('nor this');";
+
+        expect(usesScriptChannel(script)).toBe(false);
+        expect(instrumentScript(script)).toBe(script);
+    });
+
+    it("rewrites a call beside a string that mentions one", () => {
+        const printed = run("var foo = { gs: { info: function () {} } }; foo.gs.info('x'); gs.info('say \"gs.info(x)\"');");
+
+        expect(parseScriptOutput(printed)).toMatchObject({ print: [], logs: { info: ['say "gs.info(x)"'] } });
+    });
+
+    it("returns the last result as parsed JSON", () => {
+        const printed = run("nex.result(1); nex.result({ names: ['a', 'b'], none: null });");
+
+        expect(parseScriptOutput(printed).result).toEqual({ value: { names: ["a", "b"], none: null } });
+    });
+
+    it("returns null for an undefined result", () => {
+        expect(parseScriptOutput(run("nex.result(undefined);")).result).toEqual({ value: null });
+    });
+});
+
+describe("parseScriptOutput", () => {
+    it("treats an unknown tag as an ordinary line", () => {
+        const parsed = parseScriptOutput(["[[nex:debug]] x", "[[nex:info no end"]);
+
+        expect(parsed.print).toEqual(["[[nex:debug]] x", "[[nex:info no end"]);
+        expect(parsed.logs.info).toEqual([]);
+    });
+
+    it("marks warnings and errors in the display lines", () => {
+        expect(parseScriptOutput(["[[nex:warn]] w", "[[nex:error]] e"]).display).toEqual(["WARN: w", "ERROR: e"]);
+    });
+});
@@ -0,0 +1,144 @@
+import { afterEach, describe, it, expect } from "@jest/globals";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { runInNewContext } from "node:vm";
+
+import {
+    bindParams,
+    initScriptLibrary,
+    jsLiteral,
+    parseScriptHeader,
+    renderSavedScript,
+    resetScriptLibraryForTests,
+    scriptLibraryDirectory,
+    type SavedScript,
+} from "../../../src/common/script-library.js";
+
+const HEADER = `/**
+ * Lists records whose reference field
+ * points at nothing.
+ * @scope x_acme_app
+ * @param {string} table - Table to check
+ * @param {integer} [limit=100] - Most records to list
+ * @param {"open"|"closed"} [state] Only records in this state
+ * @param {sys_id} [group]
+ * @author someone
+ */
+var gr = new GlideRecord(table);
+`;
+
+describe("parseScriptHeader", () => {
+    it("reads the description, scope and typed parameters", () => {
+        expect(parseScriptHeader(HEADER)).toEqual({
+            description: "Lists records whose reference field points at nothing.",
+            scope: "x_acme_app",
+            params: [
+                { name: "table", type: "string", required: true, description: "Table to check" },
+                { name: "limit", type: "integer", required: false, default: 100, description: "Most records to list" },
+                { name: "state", type: "enum", values: ["open", "closed"], required: false, description: "Only records in this state" },
+                { name: "group", type: "sys_id", required: false, description: "" },
+            ],
+        });
+    });
+
+    it("finds nothing in a script without a header", () => {
+        expect(parseScriptHeader("// just a script\ngs.print(1);")).toEqual({ description: "", params: [] });
+    });
+
+    it.each([
+        ["@param {date} when", "unknown type"],
+        ["@param {string} gs", "cannot be a parameter name"],
+        ["@param {object} nex", "cannot be a parameter name"],
+        ["@param {string} __nexLog", "cannot be a parameter name"],
+        ["@param {string} a-b", "cannot be a parameter name"],
+        ["@param {integer} [n=1.5]", "whole number"],
+        ["@param {string} a\n * @param {number} a", "declared twice"],
+        ["@param table", "cannot read"],
+    ])("refuses %s", (tag, message) => {
+        expect(() => parseScriptHeader(`/**\n * ${tag}\n */`)).toThrow(message);
+    });
+});
+
+describe("bindParams", () => {
+    const script: SavedScript = { name: "find-orphans", file: "/lib/find-orphans.js", ...parseScriptHeader(HEADER) };
+
+    it("converts values to their types and fills in defaults", () => {
+        expect(bindParams(script, { table: "incident", state: "open" })).toEqual({
+            table: "incident",
+            limit: 100,
+            state: "open",
+            group: undefined,
+        });
+        expect(bindParams(script, { table: "incident", limit: "25" }).limit).toBe(25);
+    });
+
+    it("lists every problem at once, with the parameters it expected", () => {
+        expect(() => bindParams(script, { limit: "lots", state: "pending", group: "abc", colour: "red" })).toThrow(
+            'colour is not a parameter of find-orphans. table is required. limit must be a number, not "lots". ' +
+                'state must be one of "open", "closed". group must be a 32-character sys_id, not "abc". ' +
+                'Parameters of find-orphans: table (string, required); limit (integer, default 100); ' +
+                'state ("open"|"closed", optional); group (sys_id, optional).',
+        );
+    });
+});
+
+describe("renderSavedScript", () => {
+    it.each([
+        ["quotes and backslashes", `it's "quoted" \\ and \\n not a newline`],
+        ["an attempt to close the string", `"); gs.deleteRecords(); ("`],
+        ["line breaks", "one\ntwo\r\u2028three\u2029four"],
+    ])("binds a string with %s as exactly that string", (_label, value) => {
+        const rendered = renderSavedScript("out = table;", { table: value });
+
+        const context: { out?: unknown } = {};
+        runInNewContext(rendered, context);
+
+        expect(context.out).toBe(value);
+        // Rhino's ES5 strings end at U+2028 and U+2029 as at a newline.
+        expect(rendered).not.toMatch(/[\n\r\u2028\u2029]/);
+    });
+
+    it("binds numbers, booleans and unset parameters as literals", () => {
+        expect(renderSavedScript("run();", { limit: 5, dry: false, state: undefined })).toBe(
+            "var limit = 5, dry = false, state = undefined; run();",
+        );
+        expect(jsLiteral(true)).toBe("true");
+    });
+
+    it("sends a script without parameters as written", () => {
+        expect(renderSavedScript("run();", {})).toBe("run();");
+    });
+});
+
+describe("initScriptLibrary", () => {
+    let dir: string | undefined;
+
+    afterEach(() => {
+        resetScriptLibraryForTests();
+        if (dir) rmSync(dir, { recursive: true, force: true });
+        dir = undefined;
+    });
+
+    it("uses the directory NEX_SCRIPT_LIBRARY names", () => {
+        dir = mkdtempSync(join(tmpdir(), "nex-library-"));
+
+        initScriptLibrary({ NEX_SCRIPT_LIBRARY: dir });
+
+        expect(scriptLibraryDirectory()).toBe(dir);
+    });
+
+    it("refuses a path that is not a directory", () => {
+        dir = mkdtempSync(join(tmpdir(), "nex-library-"));
+        writeFileSync(join(dir, "file.js"), "");
+
+        expect(() => initScriptLibrary({ NEX_SCRIPT_LIBRARY: join(dir, "file.js") })).toThrow("is not a directory");
+        expect(() => initScriptLibrary({ NEX_SCRIPT_LIBRARY: join(dir, "missing") })).toThrow("cannot read");
+    });
+
+    it("says how to configure one when unset", () => {
+        initScriptLibrary({});
+
+        expect(() => scriptLibraryDirectory()).toThrow("Set NEX_SCRIPT_LIBRARY");
+    });
+});
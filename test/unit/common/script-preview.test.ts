@@ -0,0 +1,191 @@
+import { jest, describe, it, expect } from "@jest/globals";
+import { runInNewContext } from "node:vm";
+
+// dry-run.js, for PREVIEW_LIMIT, imports core for its Table API reads.
+jest.unstable_mockModule("@sonisoft/now-sdk-ext-core", () => ({
+    TableAPIRequest: jest.fn(),
+}));
+
+const { instrumentScript, parseScriptOutput } = await import("../../../src/common/script-channel.js");
+const { describePreview, PREVIEW_TAGS, previewScript, readPreview } = await import(
+    "../../../src/common/script-preview.js"
+);
+
+type Row = Record<string, string>;
+
+/**
+ * Just enough GlideRecord to run a preview against: one table of rows, field change
+ * tracking, and writes that throw — a preview must never reach them.
+ */
+function fakeGlide(rows: Row[]) {
+    let guid = 0;
+    class GlideRecord {
+        private row: Row = {};
+        private loaded: Row = {};
+        private matches: Row[] = [];
+        private query_ = "";
+        constructor(private table: string) {}
+        getElements() {
+            const names = new Set([...Object.keys(this.row), ...Object.keys(this.loaded)]);
+            return [...names].map((name) => ({ getName: () => name, changes: () => this.row[name] !== this.loaded[name] }));
+        }
+        getValue(field: string) {
+            return this.row[field] ?? null;
+        }
+        setValue(field: string, value: string) {
+            this.row[field] = value;
+        }
+        initialize() {
+            this.row = {};
+            this.loaded = {};
+        }
+        get(sysId: string) {
+            const found = rows.find((r) => r.sys_id === sysId);
+            if (found) this.load(found);
+            return !!found;
+        }
+        addEncodedQuery(query: string) {
+            this.query_ = query;
+        }
+        getEncodedQuery() {
+            return this.query_;
+        }
+        query() {
+            const [field, value] = this.query_.split("=");
+            this.matches = rows.filter((r) => !this.query_ || r[field] === value);
+        }
+        getRowCount() {
+            return this.matches.length;
+        }
+        next() {
+            const found = this.matches.shift();
+            if (found) this.load(found);
+            return !!found;
+        }
+        getUniqueValue() {
+            return this.row.sys_id ?? "";
+        }
+        setNewGuidValue(id: string) {
+            this.row.sys_id = id;
+            this.loaded.sys_id = id;
+        }
+        isNewRecord() {
+            return !this.loaded.sys_id || !rows.some((r) => r.sys_id === this.loaded.sys_id);
+        }
+        getTableName() {
+            return this.table;
+        }
+        getRecordClassName() {
+            return this.table;
+        }
+        insert(): string {
+            throw new Error("insert reached the instance");
+        }
+        update(): string {
+            throw new Error("update reached the instance");
+        }
+        deleteRecord(): boolean {
+            throw new Error("deleteRecord reached the instance");
+        }
+        updateMultiple() {
+            throw new Error("updateMultiple reached the instance");
+        }
+        deleteMultiple() {
+            throw new Error("deleteMultiple reached the instance");
+        }
+        private load(found: Row) {
+            this.row = { ...found };
+            this.loaded = { ...found };
+        }
+    }
+    return {
+        GlideRecord,
+        GlideRecordSecure: GlideRecord,
+        generateGUID: () => `new${++guid}`,
+    };
+}
+
+/** Runs `script` in preview against `rows` and returns what the preview reported. */
+function preview(script: string, rows: Row[]) {
+    const printed: string[] = [];
+    const glide = fakeGlide(rows);
+    const gs = { print: (line: string) => printed.push(String(line)), generateGUID: glide.generateGUID };
+    runInNewContext(previewScript(instrumentScript(script)), {
+        gs,
+        GlideRecord: glide.GlideRecord,
+        GlideRecordSecure: glide.GlideRecordSecure,
+    });
+    const parsed = parseScriptOutput(printed, PREVIEW_TAGS);
+    return { parsed, report: readPreview(parsed.extra) };
+}
+
+const incidents = (): Row[] => [
+    { sys_id: "i1", number: "INC1", priority: "3", state: "1" },
+    { sys_id: "i2", number: "INC2", priority: "3", state: "2" },
+    { sys_id: "i3", number: "INC3", priority: "1", state: "1" },
+];
+
+describe("previewScript", () => {
+    it("reports updates with before and after values, and leaves the rows alone", () => {
+        const rows = incidents();
+        const { report } = preview(
+            "var gr = new GlideRecord('incident'); gr.addEncodedQuery('priority=3'); gr.query();\n" +
+                "while (gr.next()) { gr.setValue('priority', '4'); gr.update(); }",
+            rows,
+        );
+
+        expect(report.changes).toEqual([
+            { table: "incident", sys_id: "i1", action: "update", fields: [{ field: "priority", before: "3", after: "4" }] },
+            { table: "incident", sys_id: "i2", action: "update", fields: [{ field: "priority", before: "3", after: "4" }] },
+        ]);
+        expect(rows).toEqual(incidents());
+    });
+
+    it("reports an insert and hands the script a sys_id to carry on with", () => {
+        const { parsed, report } = preview(
+            "var gr = new GlideRecordSecure('incident'); gr.initialize(); gr.setValue('number', 'INC9');\n" +
+                "var id = gr.insert(); nex.result(id);",
+            [],
+        );
+
+        expect(report.changes).toEqual([
+            { table: "incident", action: "create", fields: [{ field: "number", before: null, after: "INC9" }] },
+        ]);
+        expect(parsed.result).toEqual({ value: "new1" });
+    });
+
+    it("reports each record a deleteMultiple or updateMultiple would touch", () => {
+        const { report } = preview(
+            "var d = new GlideRecord('incident'); d.addEncodedQuery('state=1'); d.deleteMultiple();\n" +
+                "var u = new GlideRecord('incident'); u.addEncodedQuery('state=2'); u.setValue('state', '7'); u.updateMultiple();\n" +
+                "var one = new GlideRecord('incident'); one.get('i2'); one.deleteRecord();",
+            incidents(),
+        );
+
+        expect(report.changes).toEqual([
+            { table: "incident", sys_id: "i1", action: "delete" },
+            { table: "incident", sys_id: "i3", action: "delete" },
+            { table: "incident", sys_id: "i2", action: "update", fields: [{ field: "state", before: "2", after: "7" }] },
+            { table: "incident", sys_id: "i2", action: "delete" },
+        ]);
+    });
+
+    it("counts writes past the limit without printing them", () => {
+        const rows = Array.from({ length: 150 }, (_, i) => ({ sys_id: `s${i}`, flag: "a" }));
+
+        const { report } = preview(
+            "var gr = new GlideRecord('u_thing'); gr.addEncodedQuery('flag=a'); gr.deleteMultiple();",
+            rows,
+        );
+
+        expect(report).toMatchObject({ total: 150, truncated: true });
+        expect(report.changes).toHaveLength(100);
+        expect(describePreview(report).at(-1)).toBe("(Showing the first 100 of 150 writes.)");
+    });
+
+    it("keeps the user's line numbers on the first lines", () => {
+        const script = "var a = 1;\nvar b = 2;";
+
+        expect(previewScript(script).split("\n").slice(0, 2)).toEqual([expect.stringMatching(/var a = 1;$/), "var b = 2;"]);
+    });
+});
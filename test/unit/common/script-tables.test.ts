@@ -0,0 +1,77 @@
+import { afterEach, describe, it, expect } from "@jest/globals";
+
+import {
+    initScriptTables,
+    resetScriptTablesForTests,
+    scriptTable,
+    scriptTables,
+    scriptTablesFromEnvironment,
+    SCRIPT_TABLES,
+} from "../../../src/common/script-tables.js";
+
+describe("scriptTablesFromEnvironment", () => {
+    it("reads tables, name fields and extensions, with defaults", () => {
+        const tables = scriptTablesFromEnvironment({
+            NEX_SCRIPT_TABLES: "x_acme_rule=condition_script, action_script;\n x_acme_page:title=body.html,client_script",
+        });
+
+        expect(tables).toEqual([
+            {
+                table: "x_acme_rule",
+                nameField: "name",
+                fields: [
+                    { field: "condition_script", extension: "js" },
+                    { field: "action_script", extension: "js" },
+                ],
+            },
+            {
+                table: "x_acme_page",
+                nameField: "title",
+                fields: [
+                    { field: "body", extension: "html" },
+                    { field: "client_script", extension: "js" },
+                ],
+            },
+        ]);
+    });
+
+    it("is empty when unset", () => {
+        expect(scriptTablesFromEnvironment({})).toEqual([]);
+    });
+
+    it.each([
+        ["x_acme_rule", "is not table=field"],
+        ["x_acme rule=script", "does not name a table"],
+        ["x_acme_rule=", "at least one"],
+        ["x_acme_rule=script,script", "each field once"],
+        ["x_acme_rule=script.min.js", "unusable field"],
+    ])("refuses %s", (value, message) => {
+        expect(() => scriptTablesFromEnvironment({ NEX_SCRIPT_TABLES: value })).toThrow(message);
+    });
+});
+
+describe("initScriptTables", () => {
+    afterEach(() => {
+        resetScriptTablesForTests();
+    });
+
+    it("replaces a built-in table's fields and adds new tables after the built-ins", () => {
+        initScriptTables({ NEX_SCRIPT_TABLES: "sys_script_fix=script,description.txt; x_acme_rule=condition_script" });
+
+        expect(scriptTable("sys_script_fix")?.fields).toEqual([
+            { field: "script", extension: "js" },
+            { field: "description", extension: "txt" },
+        ]);
+        expect(scriptTables().map((t) => t.table)).toEqual([
+            ...SCRIPT_TABLES.map((t) => t.table),
+            "x_acme_rule",
+        ]);
+    });
+
+    it("knows only the built-ins without configuration", () => {
+        initScriptTables({});
+
+        expect(scriptTables()).toBe(SCRIPT_TABLES);
+        expect(scriptTable("x_acme_rule")).toBeUndefined();
+    });
+});
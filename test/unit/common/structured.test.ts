@@ -0,0 +1,91 @@
+import { describe, it, expect } from '@jest/globals'
+import { z } from 'zod'
+import { readdirSync, readFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
+import { createTestClientServer } from '../../helpers/mcp-test-helpers.js'
+import { recordSchema, structuredResult } from '../../../src/common/structured.js'
+
+/**
+ * Each registerTool(...) call in src/tools/, as the name plus the source up to the
+ * next registration. Read from source for the same reason annotations.test.ts does:
+ * importing every tool module would drag in core, which these tests do not need.
+ */
+function registrations(): { name: string; body: string }[] {
+  const dir = join(process.cwd(), 'src/tools')
+  const found: { name: string; body: string }[] = []
+  for (const file of readdirSync(dir).filter((f) => f.endsWith('.ts'))) {
+    const src = readFileSync(join(dir, file), 'utf8')
+    const matches = [...src.matchAll(/server\.registerTool\(\s*\n\s*"([a-z_]+)"/g)]
+    matches.forEach((m, i) => {
+      const end = i + 1 < matches.length ? matches[i + 1].index : src.length
+      found.push({ name: m[1], body: src.slice(m.index, end) })
+    })
+  }
+  return found
+}
+
+function registerCountingTool(server: McpServer, count: number): void {
+  server.registerTool(
+    'counting_tool',
+    {
+      title: 'Counting Tool',
+      description: 'Returns a count as text and as structured content.',
+      inputSchema: {},
+      outputSchema: { count: z.number(), records: z.array(recordSchema) },
+    },
+    async () => structuredResult(`Found ${count} record(s)`, { count, records: [] })
+  )
+}
+
+describe('structured output coverage', () => {
+  it('declares an outputSchema on every registered tool', () => {
+    // The SDK only validates structuredContent against a schema that exists, and
+    // clients only learn the shape from tools/list. A tool without one is a tool
+    // whose structured output nobody can rely on.
+    const missing = registrations()
+      .filter((r) => !/outputSchema:/.test(r.body))
+      .map((r) => r.name)
+    expect(missing).toEqual([])
+  })
+
+  it('has every tool that declares a schema return structured content', () => {
+    // A declared schema with a plain text return is a protocol error at call time,
+    // not at registration, so it would only surface when someone used the tool.
+    const plain = registrations()
+      .filter((r) => !/structuredResult\(/.test(r.body))
+      .map((r) => r.name)
+    expect(plain).toEqual([])
+  })
+})
+
+describe('structuredResult', () => {
+  it('keeps the text block first and alone', () => {
+    const result = structuredResult('hello', { n: 1 })
+    expect(result.content).toEqual([{ type: 'text', text: 'hello' }])
+  })
+
+  it('passes the structured object through unchanged', () => {
+    const payload = { n: 1, nested: { a: ['x'] } }
+    expect(structuredResult('hello', payload).structuredContent).toBe(payload)
+  })
+
+  it('does not mark the result as an error', () => {
+    expect(structuredResult('hello', {}).isError).toBeUndefined()
+  })
+
+  it('reaches a real client as both text and structuredContent', async () => {
+    const { client, server } = await createTestClientServer((s) => registerCountingTool(s, 3))
+    try {
+      const { tools } = await client.listTools()
+      expect(tools[0].outputSchema?.properties).toHaveProperty('count')
+
+      const result = await client.callTool({ name: 'counting_tool', arguments: {} })
+      expect((result.content as any[])[0].text).toBe('Found 3 record(s)')
+      expect(result.structuredContent).toEqual({ count: 3, records: [] })
+    } finally {
+      await client.close()
+      await server.close()
+    }
+  })
+})
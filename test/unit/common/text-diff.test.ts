@@ -0,0 +1,108 @@
+import { describe, it, expect } from "@jest/globals";
+
+import { changedRanges, diffLines, rangesOverlap, unifiedDiff } from "../../../src/common/text-diff.js";
+
+const lines = (...l: string[]) => l.join("\n") + "\n";
+
+/** Applies an edit script to its old text, which must give the new one. */
+function apply(ops: ReturnType<typeof diffLines>): string {
+    return ops
+        .filter((op) => op.kind !== "delete")
+        .map((op) => op.line)
+        .join("\n");
+}
+
+describe("diffLines", () => {
+    it("finds a minimal edit script", () => {
+        const ops = diffLines(lines("a", "b", "c", "d"), lines("a", "x", "c", "d", "e"));
+
+        expect(ops).toEqual([
+            { kind: "equal", line: "a" },
+            { kind: "delete", line: "b" },
+            { kind: "insert", line: "x" },
+            { kind: "equal", line: "c" },
+            { kind: "equal", line: "d" },
+            { kind: "insert", line: "e" },
+        ]);
+    });
+
+    it("produces scripts that rebuild the new text", () => {
+        const before = lines("function f() {", "  return 1;", "}", "", "function g() {", "  return 2;", "}");
+        const after = lines("function f() {", "  return 10;", "}", "function g() {", "  log();", "  return 2;", "}", "x");
+
+        expect(apply(diffLines(before, after))).toBe(after.replace(/\n$/, ""));
+    });
+
+    it("diffs large, scattered edits and rebuilds the new text", () => {
+        const before = Array.from({ length: 8000 }, (_, i) => `line ${i}`);
+        const after = before.map((line, i) => (i % 10 === 0 ? `${line} changed` : line));
+        const ops = diffLines(lines(...before), lines(...after));
+
+        expect(apply(ops)).toBe(after.join("\n"));
+        expect(ops.filter((op) => op.kind === "insert")).toHaveLength(800);
+    });
+
+    it("ignores CRLF against LF and a trailing newline", () => {
+        expect(diffLines("a\r\nb\r\n", "a\nb").every((op) => op.kind === "equal")).toBe(true);
+    });
+});
+
+describe("changedRanges and rangesOverlap", () => {
+    const base = lines("1", "2", "3", "4", "5", "6", "7", "8");
+
+    it("tells edits to different lines from edits to the same ones", () => {
+        const ours = changedRanges(diffLines(base, lines("1", "TWO", "3", "4", "5", "6", "7", "8")));
+        const theirs = changedRanges(diffLines(base, lines("1", "2", "3", "4", "5", "6", "SEVEN", "8")));
+        const clash = changedRanges(diffLines(base, lines("1", "two", "3", "4", "5", "6", "7", "8")));
+
+        expect(ours).toEqual([{ start: 1, end: 2 }]);
+        expect(rangesOverlap(ours, theirs)).toBe(false);
+        expect(rangesOverlap(ours, clash)).toBe(true);
+    });
+
+    it("counts an insertion where the other edit begins", () => {
+        const inserted = changedRanges(diffLines(base, lines("1", "new", "2", "3", "4", "5", "6", "7", "8")));
+        const edited = changedRanges(diffLines(base, lines("1", "TWO", "3", "4", "5", "6", "7", "8")));
+
+        expect(inserted).toEqual([{ start: 1, end: 1 }]);
+        expect(rangesOverlap(inserted, edited)).toBe(true);
+    });
+});
+
+describe("unifiedDiff", () => {
+    it("is empty for identical text", () => {
+        expect(unifiedDiff("a\n", "a\n", { before: "x", after: "y" })).toBe("");
+    });
+
+    it("writes hunks with context and line numbers, merging close ones", () => {
+        const numbers = Array.from({ length: 20 }, (_, i) => String(i + 1));
+        const edited = [...numbers];
+        edited[5] = "six";
+        edited[7] = "eight";
+        edited.push("21");
+
+        expect(unifiedDiff(lines(...numbers), lines(...edited), { before: "pulled", after: "local" })).toBe(
+            [
+                "--- pulled",
+                "+++ local",
+                "@@ -3,9 +3,9 @@",
+                " 3",
+                " 4",
+                " 5",
+                "-6",
+                "+six",
+                " 7",
+                "-8",
+                "+eight",
+                " 9",
+                " 10",
+                " 11",
+                "@@ -18,3 +18,4 @@",
+                " 18",
+                " 19",
+                " 20",
+                "+21",
+            ].join("\n"),
+        );
+    });
+});
@@ -0,0 +1,202 @@
+/**
+ * The undo journal against a fake table. What is pinned: the before-values reach disk
+ * ahead of the write, only records the write actually changed are kept, and undo
+ * tells a record someone else has since changed from one it can safely restore.
+ */
+
+import { jest, describe, it, expect, beforeEach, afterEach } from "@jest/globals";
+import { existsSync, mkdtempSync, readdirSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+/** table -> sys_id -> record. Reads filter it the way the Table API would. */
+let tables: Record<string, Record<string, Record<string, unknown>>>;
+
+const mockTableGet = jest.fn(async (table: unknown, params: unknown) => {
+    const query = String((params as Record<string, unknown>).sysparm_query ?? "");
+    const rows = Object.values(tables[table as string] ?? {});
+    const matched = query.startsWith("sys_idIN")
+        ? rows.filter((r) => query.slice(8).split(",").includes(String(r.sys_id)))
+        : rows.filter((r) => !query || query.split("^").every((c) => String(r[c.split("=")[0]]) === c.split("=")[1]));
+    return { status: 200, bodyObject: { result: matched.map((r) => ({ ...r })) } };
+});
+jest.unstable_mockModule("@sonisoft/now-sdk-ext-core", () => ({
+    TableAPIRequest: jest.fn().mockImplementation(() => ({ get: mockTableGet })),
+}));
+jest.unstable_mockModule("../../../src/common/logging.js", () => ({
+    getLogger: () => ({ info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() }),
+}));
+
+const { initUndoJournal, journaledWrite, loadJournal, planUndo, resetUndoJournalForTests, undoJournalEnabled } =
+    await import("../../../src/common/undo-journal.js");
+
+let dir: string;
+const meta = { tool: "batch_update_records", alias: "dev" };
+const sn = {} as never;
+
+/** Sets fields on a record the way an update would, bumping sys_mod_count. */
+function update(table: string, sysId: string, data: Record<string, unknown>): void {
+    const record = tables[table][sysId];
+    Object.assign(record, data, { sys_mod_count: String(Number(record.sys_mod_count) + 1) });
+}
+
+beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "nex-undo-"));
+    tables = {
+        incident: {
+            a: { sys_id: "a", state: "1", priority: "3", sys_mod_count: "4" },
+            b: { sys_id: "b", state: "1", priority: "3", sys_mod_count: "9" },
+        },
+    };
+});
+
+afterEach(() => {
+    resetUndoJournalForTests();
+    rmSync(dir, { recursive: true, force: true });
+});
+
+describe("initUndoJournal", () => {
+    it("is off without NEX_UNDO_DIR, and a write passes straight through", async () => {
+        initUndoJournal({});
+        expect(undoJournalEnabled()).toBe(false);
+
+        const outcome = await journaledWrite(sn, meta, [{ table: "incident", fields: ["state"], sysIds: ["a"] }], async () => "ok");
+
+        expect(outcome).toEqual({ result: "ok" });
+        expect(mockTableGet).not.toHaveBeenCalled();
+    });
+
+    it("creates the directory", () => {
+        initUndoJournal({ NEX_UNDO_DIR: join(dir, "nested") });
+        expect(existsSync(join(dir, "nested"))).toBe(true);
+    });
+});
+
+describe("journaledWrite", () => {
+    beforeEach(() => {
+        initUndoJournal({ NEX_UNDO_DIR: dir });
+        mockTableGet.mockClear();
+    });
+
+    it("saves the before-values before the write runs", async () => {
+        let onDisk: string[] = [];
+        await journaledWrite(sn, meta, [{ table: "incident", fields: ["state"], sysIds: ["a"] }], async () => {
+            onDisk = readdirSync(dir);
+            update("incident", "a", { state: "2" });
+        });
+
+        expect(onDisk).toHaveLength(1);
+        const pending = loadJournal(onDisk[0].replace(/\.json$/, ""));
+        expect(pending.records[0].before).toEqual({ state: "1" });
+    });
+
+    it("keeps only the records the write changed, with the values it left", async () => {
+        const { operationId } = await journaledWrite(
+            sn,
+            meta,
+            [{ table: "incident", query: "state=1", fields: ["state"] }],
+            async () => update("incident", "b", { state: "2" }),
+        );
+
+        const entry = loadJournal(operationId!);
+        expect(entry).toMatchObject({ tool: "batch_update_records", alias: "dev", status: "applied" });
+        expect(entry.records).toEqual([
+            { table: "incident", sys_id: "b", before: { state: "1" }, after: { state: "2" }, modCount: "10" },
+        ]);
+    });
+
+    it("still records the outcome when the write throws", async () => {
+        await expect(
+            journaledWrite(sn, meta, [{ table: "incident", fields: ["state"], sysIds: ["a", "b"] }], async () => {
+                update("incident", "a", { state: "2" });
+                throw new Error("HTTP 500 on b");
+            }),
+        ).rejects.toThrow("HTTP 500");
+
+        const [file] = readdirSync(dir);
+        const entry = loadJournal(file.replace(/\.json$/, ""));
+        expect(entry.status).toBe("applied");
+        expect(entry.records.map((r) => r.sys_id)).toEqual(["a"]);
+    });
+
+    it("refuses, before writing, when more records match than it can cover", async () => {
+        const { MAX_JOURNAL_RECORDS } = await import("../../../src/common/undo-journal.js");
+        tables.incident = Object.fromEntries(
+            Array.from({ length: MAX_JOURNAL_RECORDS + 1 }, (_, i) => [`r${i}`, { sys_id: `r${i}`, state: "1" }]),
+        );
+        const write = jest.fn(async () => undefined);
+
+        await expect(
+            journaledWrite(sn, meta, [{ table: "incident", query: "state=1", fields: ["state"] }], write),
+        ).rejects.toThrow(/Nothing was changed/);
+        expect(write).not.toHaveBeenCalled();
+    });
+});
+
+describe("planUndo", () => {
+    let operationId: string;
+
+    beforeEach(async () => {
+        initUndoJournal({ NEX_UNDO_DIR: dir });
+        ({ operationId } = await journaledWrite(
+            sn,
+            meta,
+            [{ table: "incident", fields: ["state"], sysIds: ["a", "b"] }],
+            async () => {
+                update("incident", "a", { state: "2" });
+                update("incident", "b", { state: "2" });
+            },
+        ));
+    });
+
+    it("restores records nobody has touched since", async () => {
+        const plan = await planUndo(sn, loadJournal(operationId), false);
+        expect(plan.restore.map((r) => r.sys_id)).toEqual(["a", "b"]);
+        expect(plan.conflicts).toEqual([]);
+    });
+
+    it("restores a record whose OTHER fields have changed since", async () => {
+        update("incident", "a", { priority: "1" });
+        const plan = await planUndo(sn, loadJournal(operationId), false);
+        expect(plan.restore.map((r) => r.sys_id)).toEqual(["a", "b"]);
+    });
+
+    it("reports a record whose journaled field has changed since, and a deleted one", async () => {
+        update("incident", "a", { state: "6" });
+        delete tables.incident.b;
+
+        const plan = await planUndo(sn, loadJournal(operationId), false);
+
+        expect(plan.restore).toEqual([]);
+        expect(plan.conflicts).toEqual([
+            {
+                table: "incident",
+                sys_id: "a",
+                reason: "modified",
+                fields: [{ field: "state", expected: "2", current: "6" }],
+            },
+            { table: "incident", sys_id: "b", reason: "deleted" },
+        ]);
+    });
+
+    it("restores a modified record when forced, but never a deleted one", async () => {
+        update("incident", "a", { state: "6" });
+        delete tables.incident.b;
+
+        const plan = await planUndo(sn, loadJournal(operationId), true);
+
+        expect(plan.restore.map((r) => r.sys_id)).toEqual(["a"]);
+        expect(plan.conflicts.map((c) => c.reason)).toEqual(["deleted"]);
+    });
+});
+
+describe("loadJournal", () => {
+    it("refuses an id that could name a file outside the journal", () => {
+        initUndoJournal({ NEX_UNDO_DIR: dir });
+        expect(() => loadJournal("../secrets")).toThrow(/not an operation id/);
+    });
+
+    it("says the journal is off when it is", () => {
+        expect(() => loadJournal("x")).toThrow(/NEX_UNDO_DIR/);
+    });
+});
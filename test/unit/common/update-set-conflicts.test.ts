@@ -0,0 +1,122 @@
+import { jest, describe, it, expect, beforeEach } from "@jest/globals";
+
+const mockTableGet = jest.fn<(table: string, params: Record<string, unknown>) => Promise<unknown>>();
+jest.unstable_mockModule("@sonisoft/now-sdk-ext-core", () => ({
+    TableAPIRequest: jest.fn().mockImplementation(() => ({ get: mockTableGet })),
+}));
+jest.unstable_mockModule("../../../src/common/connection.js", () => ({
+    withConnectionRetry: async (_alias: unknown, operation: (instance: unknown) => Promise<unknown>) => operation({}),
+    isRetryableResponse: () => false,
+}));
+
+const { analyzeUpdateSetConflicts } = await import("../../../src/common/update-set-conflicts.js");
+
+const FEATURE_A = "a".repeat(32);
+const FEATURE_B = "b".repeat(32);
+const DEFAULT = "d".repeat(32);
+
+const update = (sysId: string, name: string, set: string, by: string, on: string) => ({
+    sys_id: sysId,
+    name,
+    target_name: name.toUpperCase(),
+    type: "Script Include",
+    update_set: set,
+    sys_updated_by: by,
+    sys_updated_on: on,
+});
+
+/** Answers reads the way the instance would, for the few queries the analysis makes. */
+function instance(defaultUpdates: unknown[] = []) {
+    mockTableGet.mockImplementation(async (table, params) => {
+        const query = String(params.sysparm_query);
+        let result: unknown[] = [];
+        if (table === "sys_update_set" && query.startsWith("is_default=true")) {
+            result = [{ sys_id: DEFAULT, name: "Default" }];
+        } else if (table === "sys_update_set") {
+            result = [
+                { sys_id: FEATURE_A, name: "FEAT-A", state: "in progress", application: "global", is_default: "false" },
+                { sys_id: FEATURE_B, name: "FEAT-B", state: "complete", application: "global", is_default: "false" },
+            ];
+        } else if (query.startsWith(`update_setIN${DEFAULT}`)) {
+            result = defaultUpdates;
+        } else {
+            result = [
+                update("1".repeat(32), "sys_script_include_x", FEATURE_A, "alice", "2026-10-01 09:00:00"),
+                update("2".repeat(32), "sys_script_include_x", FEATURE_A, "carol", "2026-10-03 09:00:00"),
+                update("3".repeat(32), "sys_script_include_x", FEATURE_B, "bob", "2026-10-02 09:00:00"),
+                update("4".repeat(32), "sys_script_y", FEATURE_B, "bob", "2026-10-02 10:00:00"),
+            ];
+        }
+        return { status: 200, bodyObject: { result } };
+    });
+}
+
+describe("analyzeUpdateSetConflicts", () => {
+    beforeEach(() => {
+        mockTableGet.mockReset();
+    });
+
+    it("reports records updated in more than one set, with each set's newest author and time", async () => {
+        instance();
+
+        const result = await analyzeUpdateSetConflicts("dev", { sysIds: [FEATURE_A, FEATURE_B] });
+
+        expect(result.updateSets).toEqual([
+            { sys_id: FEATURE_A, name: "FEAT-A", state: "in progress", updateCount: 2 },
+            { sys_id: FEATURE_B, name: "FEAT-B", state: "complete", updateCount: 2 },
+        ]);
+        expect(result.conflicts).toEqual([
+            {
+                name: "sys_script_include_x",
+                targetName: "SYS_SCRIPT_INCLUDE_X",
+                type: "Script Include",
+                sets: [
+                    { sys_id: FEATURE_A, name: "FEAT-A", author: "carol", updatedOn: "2026-10-03 09:00:00" },
+                    { sys_id: FEATURE_B, name: "FEAT-B", author: "bob", updatedOn: "2026-10-02 09:00:00" },
+                ],
+            },
+        ]);
+        expect(result.misplaced).toEqual([]);
+        expect(mockTableGet.mock.calls[0][1].sysparm_query).toBe(`sys_idIN${FEATURE_A},${FEATURE_B}^ORDERBYsys_id`);
+    });
+
+    it("finds updates to the same records captured in Default, and whether they are newer", async () => {
+        instance([
+            update("5".repeat(32), "sys_script_y", DEFAULT, "dave", "2026-10-04 08:00:00"),
+            update("6".repeat(32), "sys_script_include_x", DEFAULT, "erin", "2026-09-01 08:00:00"),
+        ]);
+
+        const result = await analyzeUpdateSetConflicts("dev", { query: "state!=ignore" });
+
+        expect(result.misplaced).toEqual([
+            expect.objectContaining({
+                updateSysId: "6".repeat(32),
+                name: "sys_script_include_x",
+                defaultUpdateSet: { sys_id: DEFAULT, name: "Default" },
+                belongsTo: [
+                    { sys_id: FEATURE_A, name: "FEAT-A" },
+                    { sys_id: FEATURE_B, name: "FEAT-B" },
+                ],
+                newer: false,
+            }),
+            expect.objectContaining({
+                updateSysId: "5".repeat(32),
+                name: "sys_script_y",
+                author: "dave",
+                belongsTo: [{ sys_id: FEATURE_B, name: "FEAT-B" }],
+                newer: true,
+            }),
+        ]);
+        const defaultRead = mockTableGet.mock.calls.find(([, params]) => String(params.sysparm_query).startsWith(`update_setIN${DEFAULT}`));
+        expect(defaultRead![1].sysparm_query).toContain("^nameINsys_script_include_x,sys_script_y");
+    });
+
+    it("refuses sys_ids that are not sys_ids, and ones the instance does not have", async () => {
+        instance();
+
+        await expect(analyzeUpdateSetConflicts("dev", { sysIds: ["x^ORsys_id!=1"] })).rejects.toThrow('"x^ORsys_id!=1" is not a sys_id.');
+        await expect(analyzeUpdateSetConflicts("dev", { sysIds: [FEATURE_A, "c".repeat(32)] })).rejects.toThrow(
+            `No update set ${"c".repeat(32)}.`,
+        );
+    });
+});
@@ -0,0 +1,88 @@
+import { describe, it, expect } from "@jest/globals";
+
+import { buildUnloadXml, parseUnloadXml } from "../../../src/common/update-set-xml.js";
+
+const COPY = {
+    header: { name: "FEAT-1 <catalog> & more", description: "", application: "global", remote_sys_id: "a".repeat(32) },
+    updates: [
+        {
+            name: "sys_script_include_1",
+            payload: '<?xml version="1.0" encoding="UTF-8"?><record_update table="sys_script_include"><script><![CDATA[if (a < b && c) {}]]></script></record_update>',
+            sys_recorded_at: "18c0e1f2a3b",
+        },
+        { name: "sys_script_2", payload: "" },
+    ],
+};
+
+// What the platform's own export looks like: display values, CDATA, stamps.
+const PLATFORM_EXPORT = `<?xml version="1.0" encoding="UTF-8"?><unload unload_date="2026-01-05 10:00:00">
+<sys_remote_update_set action="INSERT_OR_UPDATE">
+<application display_value="Global">global</application>
+<name>FEAT-2</name>
+<remote_sys_id>${"c".repeat(32)}</remote_sys_id>
+<state>loaded</state>
+<sys_created_by>admin</sys_created_by>
+<sys_id>${"b".repeat(32)}</sys_id>
+</sys_remote_update_set>
+<!-- an update -->
+<sys_update_xml action="INSERT_OR_UPDATE">
+<name>sys_ui_policy_1</name>
+<payload><![CDATA[<record_update><sys_ui_policy>&amp;</sys_ui_policy></record_update>]]></payload>
+<remote_update_set display_value="FEAT-2">${"b".repeat(32)}</remote_update_set>
+<sys_id>${"d".repeat(32)}</sys_id>
+<target_name>Hide &quot;fields&quot; &#38; more</target_name>
+<update_set display_value=""/>
+</sys_update_xml>
+</unload>
+`;
+
+describe("buildUnloadXml and parseUnloadXml", () => {
+    it("round-trip an update set exactly", () => {
+        const xml = buildUnloadXml(COPY, new Date("2026-10-19T08:30:00Z"));
+
+        expect(xml).toMatch(/^<\?xml version="1.0" encoding="UTF-8"\?><unload unload_date="2026-10-19 08:30:00">/);
+        expect(xml).toContain("<name>FEAT-1 &lt;catalog&gt; &amp; more</name>");
+        expect(xml).toContain("<description/>");
+        expect(parseUnloadXml(xml)).toEqual(COPY);
+    });
+
+    it("points every update at the new sys_remote_update_set", () => {
+        const xml = buildUnloadXml(COPY);
+        const remoteId = /<sys_remote_update_set[^]*?<sys_id>([0-9a-f]{32})<\/sys_id>/.exec(xml)![1];
+
+        expect(xml.match(new RegExp(`<remote_update_set>${remoteId}</remote_update_set>`, "g"))).toHaveLength(2);
+    });
+
+    it("reads the platform's own export, dropping what only meant something where it was exported", () => {
+        expect(parseUnloadXml(PLATFORM_EXPORT)).toEqual({
+            header: { application: "global", name: "FEAT-2", remote_sys_id: "c".repeat(32) },
+            updates: [
+                {
+                    name: "sys_ui_policy_1",
+                    payload: "<record_update><sys_ui_policy>&amp;</sys_ui_policy></record_update>",
+                    target_name: 'Hide "fields" & more',
+                },
+            ],
+        });
+    });
+
+    it.each([
+        ["a file that is not XML", "not xml at all", "Not an unload file"],
+        ["an unclosed record", "<unload><sys_remote_update_set><name>x</name></unload>", "closes nothing open"],
+        ["an unload of another table", "<unload><incident><number>INC1</number></incident></unload>", "holds <incident> records"],
+        ["an unload without an update set", "<unload></unload>", "holds no sys_remote_update_set"],
+        [
+            "a batch export",
+            "<unload><sys_remote_update_set><sys_id>1</sys_id></sys_remote_update_set><sys_remote_update_set><sys_id>2</sys_id></sys_remote_update_set></unload>",
+            "holds 2 update sets (a batch export)",
+        ],
+        [
+            "an update of another set",
+            "<unload><sys_remote_update_set><sys_id>1</sys_id></sys_remote_update_set><sys_update_xml><name>u</name><remote_update_set>2</remote_update_set></sys_update_xml></unload>",
+            'Update "u" belongs to update set 2, not 1',
+        ],
+        ["a field holding elements", "<unload><sys_remote_update_set><name><b>x</b></name></sys_remote_update_set></unload>", "holds elements"],
+    ])("refuses %s", (_label, xml, message) => {
+        expect(() => parseUnloadXml(xml)).toThrow(message);
+    });
+});
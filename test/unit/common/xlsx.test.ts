@@ -0,0 +1,95 @@
+/**
+ * The XLSX writer. Opened here the way a spreadsheet would: through the zip's central
+ * directory, checking each entry's CRC, then reading the sheet XML.
+ */
+
+import { describe, it, expect } from "@jest/globals";
+import { inflateRawSync } from "node:zlib";
+
+const { buildXlsx, columnName, MAX_CELL_LENGTH, sheetName } = await import("../../../src/common/xlsx.js");
+
+/** Entry name -> contents, read from the central directory as an unzip tool would. */
+function unzip(data: Buffer): Map<string, string> {
+    const end = data.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]));
+    const count = data.readUInt16LE(end + 10);
+    let at = data.readUInt32LE(end + 16);
+
+    const entries = new Map<string, string>();
+    for (let i = 0; i < count; i++) {
+        expect(data.readUInt32LE(at)).toBe(0x02014b50);
+        const size = data.readUInt32LE(at + 20);
+        const nameLength = data.readUInt16LE(at + 28);
+        const local = data.readUInt32LE(at + 42);
+        const name = data.toString("utf8", at + 46, at + 46 + nameLength);
+
+        const localNameLength = data.readUInt16LE(local + 26);
+        const start = local + 30 + localNameLength;
+        const content = inflateRawSync(data.subarray(start, start + size));
+        entries.set(name, content.toString("utf8"));
+        at += 46 + nameLength;
+    }
+    return entries;
+}
+
+describe("buildXlsx", () => {
+    it("writes the parts a spreadsheet needs to open the file", () => {
+        const { data } = buildXlsx("incident", ["number"], [["INC001"]]);
+        expect([...unzip(data).keys()]).toEqual([
+            "[Content_Types].xml",
+            "_rels/.rels",
+            "xl/workbook.xml",
+            "xl/_rels/workbook.xml.rels",
+            "xl/worksheets/sheet1.xml",
+        ]);
+    });
+
+    it("puts the header in row 1 and each record in a row of its own, as strings", () => {
+        const sheet = unzip(buildXlsx("incident", ["number", "priority"], [["INC001", "0012"]]).data).get(
+            "xl/worksheets/sheet1.xml",
+        )!;
+
+        expect(sheet).toContain('<c r="A1" t="inlineStr"><is><t>number</t></is></c>');
+        expect(sheet).toContain('<c r="B1" t="inlineStr"><is><t>priority</t></is></c>');
+        // A number-looking value stays text, leading zeros and all.
+        expect(sheet).toContain('<c r="B2" t="inlineStr"><is><t>0012</t></is></c>');
+    });
+
+    it("escapes markup and drops characters XML cannot hold", () => {
+        const sheet = unzip(buildXlsx("t", ["a"], [['<b>"x" & y</b>\u0001']]).data).get("xl/worksheets/sheet1.xml")!;
+        expect(sheet).toContain("&lt;b&gt;&quot;x&quot; &amp; y&lt;/b&gt;</t>");
+    });
+
+    it("leaves empty values out and keeps edge whitespace", () => {
+        const sheet = unzip(buildXlsx("t", ["a", "b"], [["", " x"]]).data).get("xl/worksheets/sheet1.xml")!;
+        expect(sheet).not.toContain('r="A2"');
+        expect(sheet).toContain('<t xml:space="preserve"> x</t>');
+    });
+
+    it("cuts over-long cells and counts them", () => {
+        const { data, truncatedCells } = buildXlsx("t", ["a"], [["x".repeat(MAX_CELL_LENGTH + 5)]]);
+        expect(truncatedCells).toBe(1);
+        expect(unzip(data).get("xl/worksheets/sheet1.xml")).toContain(`<t>${"x".repeat(MAX_CELL_LENGTH)}</t>`);
+    });
+});
+
+describe("columnName", () => {
+    it.each([
+        [0, "A"],
+        [25, "Z"],
+        [26, "AA"],
+        [701, "ZZ"],
+        [702, "AAA"],
+    ])("names column %p %p", (index, name) => {
+        expect(columnName(index)).toBe(name);
+    });
+});
+
+describe("sheetName", () => {
+    it("replaces characters Excel forbids and keeps to 31 characters", () => {
+        expect(sheetName("x_[a]:b/c*d?e\\f_with_a_long_table_name")).toBe("x__a__b_c_d_e_f_with_a_long_tab");
+    });
+
+    it("never returns an empty name", () => {
+        expect(sheetName("")).toBe("Sheet1");
+    });
+});
@@ -0,0 +1,264 @@
+import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals'
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { Client } from "@modelcontextprotocol/sdk/client/index.js"
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js"
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js"
+
+// ---- Mock external dependencies before importing the module under test ----
+
+const mockWithConnectionRetry = jest.fn<(alias: any, op: any) => Promise<any>>()
+jest.unstable_mockModule('../../../src/common/connection.js', () => ({
+  withConnectionRetry: mockWithConnectionRetry,
+  isRetryableResponse: () => false,
+}))
+
+/** table -> records. Tables absent here answer 400, as an instance without the plugin does. */
+let tables: Record<string, Record<string, any>[]>
+/** Tables that exist but refuse the read, as an ACL or an expired session would. */
+let forbidden: Set<string>
+
+const mockGet = jest.fn(async (table: string, params: any) => {
+  if (forbidden.has(table)) return { status: 403, statusText: 'Forbidden' }
+  const rows = tables[table]
+  if (!rows) return { status: 400, statusText: 'Bad Request', bodyObject: { error: { message: `Invalid table ${table}` } } }
+  const query = String(params.sysparm_query ?? '')
+  let matched: Record<string, any>[]
+  if (query.startsWith('sys_idIN')) {
+    const ids = query.slice(8).split(',')
+    matched = rows.filter((r) => ids.includes(r.sys_id))
+  } else {
+    const [field, value] = query.replace('^ORDERBYsys_id', '').split('=')
+    matched = rows.filter((r) => r[field] === value)
+  }
+  const offset = params.sysparm_offset ?? 0
+  return { status: 200, bodyObject: { result: matched.slice(offset, offset + params.sysparm_limit).map((r) => ({ ...r })) } }
+})
+const mockBatchUpdate = jest.fn(async ({ updates }: any) => {
+  for (const u of updates) {
+    Object.assign(tables[u.table].find((r) => r.sys_id === u.sysId)!, u.data, { sys_updated_on: 'pushed' })
+  }
+  return { success: true, updatedCount: updates.length, errors: [] as any[] }
+})
+jest.unstable_mockModule('@sonisoft/now-sdk-ext-core', () => ({
+  TableAPIRequest: jest.fn().mockImplementation(() => ({ get: mockGet })),
+  BatchOperations: jest.fn().mockImplementation(() => ({ batchUpdate: mockBatchUpdate })),
+}))
+
+jest.unstable_mockModule('../../../src/common/progress.js', () => ({
+  progressReporter: () => undefined,
+}))
+
+const { registerPullApplicationTool, registerPushApplicationTool } = await import('../../../src/tools/app-sync.js')
+
+const text = (result: any) => (result.content as any[])[0].text as string
+
+describe('pull_application and push_application', () => {
+  let server: McpServer
+  let client: Client
+  let dir: string
+
+  beforeEach(async () => {
+    jest.clearAllMocks()
+    dir = join(mkdtempSync(join(tmpdir(), 'nex-app-sync-')), 'app')
+    mockWithConnectionRetry.mockImplementation(async (_alias: any, operation: any) => operation({}))
+    forbidden = new Set()
+    tables = {
+      sys_scope: [
+        { sys_id: 'scope1', scope: 'x_acme', name: 'Acme' },
+        { sys_id: 'global', scope: 'global', name: 'Global' },
+      ],
+      sys_script_include: [
+        { sys_id: 'si1', name: 'AcmeUtil', script: 'util()', sys_scope: 'scope1', sys_updated_on: 't1' },
+        { sys_id: 'si2', name: 'Elsewhere', script: 'x()', sys_scope: 'other', sys_updated_on: 't1' },
+      ],
+      sys_script: [
+        { sys_id: 'br1', name: 'Validate', script: 'one()', sys_scope: 'scope1', sys_updated_on: 't1' },
+        { sys_id: 'br2', name: 'Validate', script: 'two()', sys_scope: 'scope1', sys_updated_on: 't1' },
+      ],
+      sys_ui_page: [
+        { sys_id: 'pg1', name: 'home', html: '<p/>', client_script: 'c()', processing_script: '', sys_scope: 'scope1', sys_updated_on: 't1' },
+      ],
+    }
+
+    server = new McpServer({ name: "test-server", version: "1.0.0" })
+    registerPullApplicationTool(server)
+    registerPushApplicationTool(server)
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair()
+    await server.connect(serverTransport)
+    client = new Client({ name: "test-client", version: "1.0.0" })
+    await client.connect(clientTransport)
+  })
+
+  afterEach(async () => {
+    await client.close()
+    await server.close()
+    rmSync(join(dir, '..'), { recursive: true, force: true })
+  })
+
+  const pull = (extra: Record<string, unknown> = {}) =>
+    client.callTool({ name: 'pull_application', arguments: { instance: 'dev', scope: 'x_acme', directory: dir, ...extra } })
+  const push = (extra: Record<string, unknown> = {}) =>
+    client.callTool({ name: 'push_application', arguments: { instance: 'dev', directory: dir, ...extra } })
+  const file = (path: string) => readFileSync(join(dir, path), 'utf8')
+
+  describe('pull_application', () => {
+    it('should mirror the scope into a deterministic layout with a manifest', async () => {
+      const result = await pull()
+
+      expect(result.isError).toBeFalsy()
+      expect(file('sys_script_include/AcmeUtil.js')).toBe('util()')
+      expect(file('sys_script/Validate-br1.js')).toBe('one()')
+      expect(file('sys_script/Validate-br2.js')).toBe('two()')
+      expect(file('sys_ui_page/home/client_script.js')).toBe('c()')
+      expect(existsSync(join(dir, 'sys_script_include/Elsewhere.js'))).toBe(false)
+
+      const manifest = JSON.parse(file('nex-app.json'))
+      expect(manifest).toMatchObject({ scope: 'x_acme', scopeSysId: 'scope1', instance: 'dev' })
+      expect(manifest.records.find((r: any) => r.sys_id === 'si1')).toMatchObject({
+        table: 'sys_script_include',
+        sys_updated_on: 't1',
+        files: { script: 'sys_script_include/AcmeUtil.js' },
+      })
+      expect(result.structuredContent).toMatchObject({
+        recordCount: 4,
+        filesWritten: 6,
+        skippedTables: expect.arrayContaining([{ table: 'sp_widget', reason: 'HTTP 400 Bad Request' }]),
+      })
+    })
+
+    it('should refuse to replace unpushed local edits unless told to', async () => {
+      await pull()
+      writeFileSync(join(dir, 'sys_script_include/AcmeUtil.js'), 'mine()')
+
+      const refused = await pull()
+      expect(refused.isError).toBe(true)
+      expect(text(refused)).toContain('sys_script_include/AcmeUtil.js')
+      expect(file('sys_script_include/AcmeUtil.js')).toBe('mine()')
+
+      await pull({ overwrite: true })
+      expect(file('sys_script_include/AcmeUtil.js')).toBe('util()')
+    })
+
+    it('should refuse a first pull into a folder that already holds files, unless told to', async () => {
+      mkdirSync(join(dir, 'sys_script_include'), { recursive: true })
+      writeFileSync(join(dir, 'sys_script_include/AcmeUtil.js'), 'unrelated()')
+
+      const refused = await pull()
+      expect(refused.isError).toBe(true)
+      expect(text(refused)).toContain('not empty')
+      expect(file('sys_script_include/AcmeUtil.js')).toBe('unrelated()')
+
+      await pull({ overwrite: true })
+      expect(file('sys_script_include/AcmeUtil.js')).toBe('util()')
+    })
+
+    it('should remove the files of records no longer in the scope', async () => {
+      await pull()
+      tables.sys_ui_page = []
+
+      const result = await pull()
+
+      expect((result.structuredContent as any).removed).toEqual([
+        'sys_ui_page/home/client_script.js',
+        'sys_ui_page/home/html.html',
+        'sys_ui_page/home/processing_script.js',
+      ])
+      expect(existsSync(join(dir, 'sys_ui_page/home'))).toBe(false)
+    })
+
+    it('should fail, changing nothing, when a table that exists refuses the read', async () => {
+      await pull()
+      forbidden.add('sys_ui_page')
+
+      const result = await pull()
+
+      expect(result.isError).toBe(true)
+      expect(text(result)).toContain('HTTP 403')
+      expect(file('sys_ui_page/home/client_script.js')).toBe('c()')
+    })
+
+    it('should keep the files and manifest entries of a table skipped this time', async () => {
+      await pull()
+      delete tables.sys_ui_page
+
+      const result = await pull()
+
+      expect((result.structuredContent as any).removed).toEqual([])
+      expect(file('sys_ui_page/home/client_script.js')).toBe('c()')
+      const manifest = JSON.parse(file('nex-app.json'))
+      expect(manifest.records.find((r: any) => r.sys_id === 'pg1')).toMatchObject({ table: 'sys_ui_page' })
+    })
+
+    it('should refuse the global scope', async () => {
+      const result = await pull({ scope: 'global' })
+
+      expect(result.isError).toBe(true)
+      expect(existsSync(dir)).toBe(false)
+    })
+  })
+
+  describe('push_application', () => {
+    beforeEach(async () => {
+      await pull()
+    })
+
+    it('should push only the edited files, and record the new stamp', async () => {
+      writeFileSync(join(dir, 'sys_ui_page/home/client_script.js'), 'c2()')
+
+      const result = await push()
+
+      expect(result.isError).toBeFalsy()
+      expect(mockBatchUpdate).toHaveBeenCalledWith({
+        updates: [{ table: 'sys_ui_page', sysId: 'pg1', data: { client_script: 'c2()' } }],
+        stopOnError: false,
+      })
+      expect((result.structuredContent as any).pushed).toEqual([
+        { table: 'sys_ui_page', sys_id: 'pg1', name: 'home', fields: ['client_script'] },
+      ])
+
+      // Our own push is not a conflict next time, and the file is no longer "changed".
+      mockBatchUpdate.mockClear()
+      const again = await push()
+      expect(mockBatchUpdate).not.toHaveBeenCalled()
+      expect(text(again)).toContain('Nothing was pushed')
+    })
+
+    it('should refuse a record changed on the instance since the pull, unless forced', async () => {
+      writeFileSync(join(dir, 'sys_script_include/AcmeUtil.js'), 'mine()')
+      tables.sys_script_include[0].sys_updated_on = 't2'
+
+      const result = await push()
+
+      expect(mockBatchUpdate).not.toHaveBeenCalled()
+      expect((result.structuredContent as any).conflicts).toEqual([
+        expect.objectContaining({ sys_id: 'si1', reason: expect.stringContaining('changed on the instance') }),
+      ])
+
+      await push({ force: true })
+      expect(tables.sys_script_include[0].script).toBe('mine()')
+    })
+
+    it('should preview under dry_run without writing', async () => {
+      writeFileSync(join(dir, 'sys_script/Validate-br2.js'), 'three()')
+      writeFileSync(join(dir, 'sys_script/New.js'), 'new()')
+
+      const result = await push({ dry_run: true })
+
+      expect(mockBatchUpdate).not.toHaveBeenCalled()
+      expect(result.structuredContent).toMatchObject({
+        dryRun: true,
+        changes: [{ sys_id: 'br2', fields: [{ field: 'script', before: 'two()', after: 'three()' }] }],
+        untrackedFiles: ['sys_script/New.js'],
+      })
+    })
+
+    it('should refuse to push to an instance other than the one pulled from', async () => {
+      const result = await push({ instance: 'prod' })
+
+      expect(result.isError).toBe(true)
+      expect(text(result)).toContain('Pass instance: "dev"')
+    })
+  })
+})
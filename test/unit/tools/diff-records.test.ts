@@ -0,0 +1,205 @@
+import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals'
+import { Client } from "@modelcontextprotocol/sdk/client/index.js"
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js"
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js"
+
+// ---- Mock external dependencies before importing the module under test ----
+
+const mockWithConnectionRetry = jest.fn<(alias: any, op: any) => Promise<any>>()
+jest.unstable_mockModule('../../../src/common/connection.js', () => ({
+  withConnectionRetry: mockWithConnectionRetry,
+  isRetryableResponse: () => false,
+}))
+
+/** Called with the alias the Table API request was made on. */
+const mockGet = jest.fn<(alias: string, table: string, params: any) => Promise<any>>()
+jest.unstable_mockModule('@sonisoft/now-sdk-ext-core', () => ({
+  TableAPIRequest: jest.fn().mockImplementation((sn: any) => ({
+    get: (table: string, params: any) => mockGet(sn.alias, table, params),
+  })),
+}))
+
+jest.unstable_mockModule('../../../src/common/progress.js', () => ({
+  progressReporter: () => undefined,
+}))
+
+const { registerDiffRecordsTool } = await import('../../../src/tools/diff-records.js')
+
+const text = (result: any) => (result.content as any[])[0].text as string
+const ok = (result: Record<string, unknown>[]) => ({ status: 200, bodyObject: { result } })
+
+describe('diff_records', () => {
+  let server: McpServer
+  let client: Client
+
+  beforeEach(async () => {
+    jest.clearAllMocks()
+    mockWithConnectionRetry.mockImplementation(async (alias: any, operation: any) => operation({ alias }))
+
+    server = new McpServer({ name: "test-server", version: "1.0.0" })
+    registerDiffRecordsTool(server)
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair()
+    await server.connect(serverTransport)
+    client = new Client({ name: "test-client", version: "1.0.0" })
+    await client.connect(clientTransport)
+  })
+
+  afterEach(async () => {
+    await client.close()
+    await server.close()
+  })
+
+  const call = (args: Record<string, unknown>) =>
+    client.callTool({
+      name: 'diff_records',
+      arguments: { source_instance: 'test', target_instance: 'prod', table: 'sys_script_include', ...args },
+    })
+
+  describe('record mode', () => {
+    it('should diff one record found by key, ignoring sys_updated_* noise', async () => {
+      mockGet.mockImplementation(async (alias) =>
+        ok([
+          {
+            sys_id: alias === 'test' ? 's1' : 's2',
+            name: 'Util',
+            script: alias === 'test' ? 'new()' : 'old()',
+            sys_updated_on: alias,
+          },
+        ])
+      )
+
+      const result = await call({ key_field: 'name', key_value: 'Util' })
+
+      expect(mockGet).toHaveBeenCalledWith('test', 'sys_script_include', expect.objectContaining({
+        sysparm_query: 'name=Util',
+        sysparm_limit: 2,
+        sysparm_exclude_reference_link: 'true',
+      }))
+      expect(result.structuredContent).toMatchObject({
+        mode: 'record',
+        identical: false,
+        sourceFound: true,
+        targetFound: true,
+        differences: [{ field: 'script', source: 'new()', target: 'old()' }],
+      })
+      expect(text(result)).toContain('test: "new()"')
+    })
+
+    it('should say when the record exists on one side only', async () => {
+      mockGet.mockImplementation(async (alias) => ok(alias === 'test' ? [{ sys_id: 'a' }] : []))
+
+      const result = await call({ sys_id: 'a' })
+
+      expect(result.structuredContent).toMatchObject({ identical: false, sourceFound: true, targetFound: false })
+      expect(text(result)).toContain('exists on test only')
+    })
+
+    it('should say when the record exists on neither instance', async () => {
+      mockGet.mockResolvedValue(ok([]))
+
+      const result = await call({ sys_id: 'a' })
+
+      expect(result.structuredContent).toMatchObject({ identical: false, sourceFound: false, targetFound: false })
+      expect(text(result)).toContain('The record exists on neither instance.')
+      expect(text(result)).not.toContain('only')
+    })
+
+    it('should refuse a key shared by several records', async () => {
+      mockGet.mockResolvedValue(ok([{ sys_id: 'a', name: 'Util' }, { sys_id: 'b', name: 'Util' }]))
+
+      const result = await call({ key_field: 'name', key_value: 'Util' })
+
+      expect(result.isError).toBe(true)
+      expect(text(result)).toContain('More than one')
+    })
+
+    it('should name the sys_id when several records match it', async () => {
+      mockGet.mockResolvedValue(ok([{ sys_id: 'a' }, { sys_id: 'a' }]))
+
+      const result = await call({ sys_id: 'a' })
+
+      expect(result.isError).toBe(true)
+      expect(text(result)).toContain('has sys_id "a"')
+      expect(text(result)).not.toContain('undefined')
+    })
+
+    it('should always fetch the key and sys_id when fields are narrowed', async () => {
+      mockGet.mockResolvedValue(ok([{ sys_id: 'a', name: 'Util', script: 'x' }]))
+
+      await call({ key_field: 'name', key_value: 'Util', fields: 'script' })
+
+      expect(mockGet.mock.calls[0][2].sysparm_fields).toBe('script,sys_id,name')
+    })
+  })
+
+  describe('table mode', () => {
+    it('should list missing, extra and differing records', async () => {
+      mockGet.mockImplementation(async (alias) =>
+        ok(
+          alias === 'test'
+            ? [
+                { sys_id: '1', name: 'a', script: 'x' },
+                { sys_id: '2', name: 'b', script: 'x' },
+                { sys_id: '3', name: 'c', script: 'x' },
+              ]
+            : [
+                { sys_id: '1', name: 'a', script: 'x' },
+                { sys_id: '2', name: 'b', script: 'y' },
+                { sys_id: '4', name: 'd', script: 'x' },
+              ]
+        )
+      )
+
+      const result = await call({ query: 'active=true' })
+
+      expect(mockGet.mock.calls[0][2]).toMatchObject({ sysparm_query: 'active=true^ORDERBYsys_id', sysparm_offset: 0 })
+      expect(result.structuredContent).toMatchObject({
+        mode: 'table',
+        identical: false,
+        sourceCount: 3,
+        targetCount: 3,
+        identicalCount: 1,
+        missing: [{ key: '3', sys_id: '3' }],
+        extra: [{ key: '4', sys_id: '4' }],
+        differing: [{ key: '2', differences: [{ field: 'script', source: 'x', target: 'y' }] }],
+      })
+      expect(text(result)).toContain('Missing from prod (1)')
+      expect(text(result)).toContain('Only in prod (1)')
+    })
+
+    it('should refuse rather than diff a partial read', async () => {
+      mockGet.mockResolvedValue(ok([{ sys_id: '1' }, { sys_id: '2' }, { sys_id: '3' }]))
+
+      const result = await call({ query: '', max_records: 2 })
+
+      expect(result.isError).toBe(true)
+      expect(text(result)).toContain('More than 2 records')
+    })
+
+    it('should name the instance a failed read came from', async () => {
+      mockGet.mockImplementation(async (alias) =>
+        alias === 'prod' ? { status: 403, statusText: 'Forbidden' } : ok([])
+      )
+
+      const result = await call({ query: 'active=true' })
+
+      expect(result.isError).toBe(true)
+      expect(text(result)).toContain('HTTP 403 Forbidden reading "sys_script_include" on prod')
+    })
+  })
+
+  it('should require exactly one of sys_id, key_value and query', async () => {
+    const result = await call({ sys_id: 'a', query: 'active=true' })
+
+    expect(result.isError).toBe(true)
+    expect(text(result)).toContain('exactly one')
+    expect(mockGet).not.toHaveBeenCalled()
+  })
+
+  it('should refuse to compare an instance with itself', async () => {
+    const result = await call({ target_instance: 'test', sys_id: 'a' })
+
+    expect(result.isError).toBe(true)
+    expect(mockGet).not.toHaveBeenCalled()
+  })
+})
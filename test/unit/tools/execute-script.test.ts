@@ -1,4 +1,7 @@
 import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals'
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
 import { Client } from "@modelcontextprotocol/sdk/client/index.js"
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js"
 import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js"
@@ -15,6 +18,7 @@ jest.unstable_mockModule('@sonisoft/now-sdk-ext-core', () => ({
   BackgroundScriptExecutor: jest.fn().mockImplementation(() => ({
     executeScript: mockExecuteScript,
   })),
+  TableAPIRequest: jest.fn(),
 }))
 
 // Dynamic import after mocks (required for ESM)
@@ -61,13 +65,14 @@ describe('execute_script tool', () => {
       expect(props).toHaveProperty('script')
       expect(props).toHaveProperty('scope')
       expect(props).toHaveProperty('params')
+      expect(props).toHaveProperty('file_path')
     })
 
-    it('should not require instance (it is optional)', async () => {
+    it('should not require instance, or script since file_path can stand in for it', async () => {
       const { tools } = await client.listTools()
       const tool = tools.find((t) => t.name === 'execute_script')!
-      expect(tool.inputSchema.required).toContain('script')
-      expect(tool.inputSchema.required).not.toContain('instance')
+      expect(tool.inputSchema.required ?? []).not.toContain('script')
+      expect(tool.inputSchema.required ?? []).not.toContain('instance')
     })
   })
 
@@ -198,6 +203,172 @@ describe('execute_script tool', () => {
     })
   })
 
+  describe('local script files', () => {
+    let dir: string
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'nex-execute-script-'))
+    })
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true })
+    })
+
+    it('should run the file, with params substituted, and report its path', async () => {
+      const file = join(dir, 'fix.js')
+      writeFileSync(file, "var gr = new GlideRecord('{table}');\ngs.print('done');\n")
+      mockExecuteScript.mockResolvedValue({ scriptResults: [{ line: 'done' }] })
+
+      const result = await client.callTool({
+        name: 'execute_script',
+        arguments: { instance: 'testinstance', file_path: file, params: { table: 'incident' } },
+      })
+
+      expect(result.isError).toBeFalsy()
+      expect(mockExecuteScript.mock.calls[0][0]).toBe("var gr = new GlideRecord('incident');\ngs.print('done');\n")
+      expect(result.structuredContent).toMatchObject({ scope: 'global', scriptFile: file, output: ['done'] })
+      expect((result.structuredContent as any).executionTimeMs).toEqual(expect.any(Number))
+    })
+
+    it.each([
+      ['both', { script: 'gs.print(1);', file_path: '/tmp/x.js' }],
+      ['neither', {}],
+    ])('should refuse %s of script and file_path', async (_label, args) => {
+      const result = await client.callTool({ name: 'execute_script', arguments: { instance: 'testinstance', ...args } })
+
+      expect(result.isError).toBe(true)
+      expect((result.content as any[])[0].text).toContain('exactly one of script or file_path')
+      expect(mockExecuteScript).not.toHaveBeenCalled()
+    })
+
+    it('should report a file that cannot be read', async () => {
+      const result = await client.callTool({
+        name: 'execute_script',
+        arguments: { instance: 'testinstance', file_path: join(dir, 'missing.js') },
+      })
+
+      expect(result.isError).toBe(true)
+      expect((result.content as any[])[0].text).toContain('Error executing script')
+      expect(mockExecuteScript).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('results and log levels', () => {
+    it('should rewrite log calls and add the helpers only when the script uses them', async () => {
+      mockExecuteScript.mockResolvedValue({ scriptResults: [] })
+
+      await client.callTool({
+        name: 'execute_script',
+        arguments: { instance: 'testinstance', script: "gs.warn('careful');\nnex.result({ n: 1 });" },
+      })
+
+      const sent = mockExecuteScript.mock.calls[0][0] as string
+      expect(sent).toContain("__nexLog('warn')('careful');\nnex.result({ n: 1 });")
+      expect(sent.split('\n')).toHaveLength(2)
+    })
+
+    it('should separate the levels and parse the result', async () => {
+      mockExecuteScript.mockResolvedValue({
+        scriptResults: [
+          { line: '*** Script: [[nex:info]] Checked 12 records' },
+          { line: 'plain print' },
+          { line: '*** Script: [[nex:warn]] 2 have no owner' },
+          { line: '*** Script: [[nex:error]] INC0001 is locked' },
+          { line: '*** Script: [[nex:result]] {"fixed":10,"skipped":["INC0001"]}' },
+        ],
+      })
+
+      const result = await client.callTool({
+        name: 'execute_script',
+        arguments: { instance: 'testinstance', script: "gs.info('Checked');", scope: 'x_acme_app' },
+      })
+
+      const text = (result.content as any[])[0].text
+      expect(text).toContain('Checked 12 records\nplain print\nWARN: 2 have no owner\nERROR: INC0001 is locked')
+      expect(text).toContain('[Result]')
+      expect(result.structuredContent).toMatchObject({
+        scope: 'x_acme_app',
+        output: ['Checked 12 records', 'plain print', '2 have no owner', 'INC0001 is locked'],
+        print: ['plain print'],
+        logs: { info: ['Checked 12 records'], warn: ['2 have no owner'], error: ['INC0001 is locked'] },
+        result: { fixed: 10, skipped: ['INC0001'] },
+      })
+    })
+
+    it('should report a result that is not JSON without failing the call', async () => {
+      mockExecuteScript.mockResolvedValue({ scriptResults: [{ line: '[[nex:result]] {oops' }] })
+
+      const result = await client.callTool({
+        name: 'execute_script',
+        arguments: { instance: 'testinstance', script: 'nex.result(x);' },
+      })
+
+      expect(result.isError).toBeFalsy()
+      expect((result.structuredContent as any).resultError).toContain('not JSON')
+      expect((result.structuredContent as any).result).toBeUndefined()
+    })
+  })
+
+  describe('preview', () => {
+    it('should wrap the script and report intercepted writes as changes', async () => {
+      mockExecuteScript.mockResolvedValue({
+        scriptResults: [
+          { line: '*** Script: [[nex:change]] {"table":"incident","sys_id":"i1","action":"update","fields":[{"field":"priority","before":"3","after":"4"}]}' },
+          { line: 'Updated 1' },
+          { line: '*** Script: [[nex:preview]] {"total":1}' },
+        ],
+      })
+
+      const result = await client.callTool({
+        name: 'execute_script',
+        arguments: { instance: 'testinstance', script: "var gr = new GlideRecord('incident');", preview: true },
+      })
+
+      const sent = mockExecuteScript.mock.calls[0][0] as string
+      expect(sent).toContain("(function (GlideRecord, GlideRecordSecure) { var gr = new GlideRecord('incident');")
+      const text = (result.content as any[])[0].text
+      expect(text).toContain('PREVIEW')
+      expect(text).toContain('UPDATE incident i1\n  priority: "3" -> "4"')
+      expect(text).toContain('Updated 1')
+      expect(result.structuredContent).toMatchObject({
+        preview: true,
+        changeCount: 1,
+        truncated: false,
+        output: ['Updated 1'],
+        changes: [{ table: 'incident', sys_id: 'i1', action: 'update' }],
+      })
+    })
+
+    it('should warn when the instance reports writes the preview did not intercept', async () => {
+      mockExecuteScript.mockResolvedValue({
+        scriptResults: [{ line: '[[nex:preview]] {"total":0}' }],
+        affectedRecords: '2',
+      })
+
+      const result = await client.callTool({
+        name: 'execute_script',
+        arguments: { instance: 'testinstance', script: 'new MyFixer().run();', preview: true },
+      })
+
+      const text = (result.content as any[])[0].text
+      expect(text).toContain('The script made no GlideRecord writes.')
+      expect(text).toContain('WARNING')
+      expect(text).toContain('were committed')
+    })
+
+    it('should send the script unwrapped without preview', async () => {
+      mockExecuteScript.mockResolvedValue({ scriptResults: [{ line: 'ok' }] })
+
+      const result = await client.callTool({
+        name: 'execute_script',
+        arguments: { instance: 'testinstance', script: "var gr = new GlideRecord('incident');" },
+      })
+
+      expect(mockExecuteScript.mock.calls[0][0]).toBe("var gr = new GlideRecord('incident');")
+      expect((result.structuredContent as any).changes).toBeUndefined()
+    })
+  })
+
   describe('output formatting', () => {
     it('should include affected records when present', async () => {
       // withConnectionRetry uses default mock implementation
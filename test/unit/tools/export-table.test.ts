@@ -0,0 +1,241 @@
+import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals'
+import { Client } from "@modelcontextprotocol/sdk/client/index.js"
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js"
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js"
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+
+// ---- Mock external dependencies before importing the module under test ----
+
+const mockWithConnectionRetry = jest.fn<(alias: any, op: any) => Promise<any>>()
+const mockIsRetryableResponse = jest.fn<(resp: any) => boolean>()
+jest.unstable_mockModule('../../../src/common/connection.js', () => ({
+  withConnectionRetry: mockWithConnectionRetry,
+  isRetryableResponse: mockIsRetryableResponse,
+}))
+
+const mockGet = jest.fn<(...args: any[]) => Promise<any>>()
+jest.unstable_mockModule('@sonisoft/now-sdk-ext-core', () => ({
+  TableAPIRequest: jest.fn().mockImplementation(() => ({
+    get: mockGet,
+  })),
+}))
+
+const mockProgress = jest.fn<(message: string) => void>()
+jest.unstable_mockModule('../../../src/common/progress.js', () => ({
+  progressReporter: () => mockProgress,
+}))
+
+// Dynamic import after mocks (required for ESM)
+const { registerExportTableTool, toCsv } = await import('../../../src/tools/export-table.js')
+
+const ok = (result: Record<string, unknown>[]) => ({ status: 200, bodyObject: { result } })
+
+describe('export_table tool', () => {
+  let server: McpServer
+  let client: Client
+  let dir: string
+
+  beforeEach(async () => {
+    jest.clearAllMocks()
+    mockWithConnectionRetry.mockImplementation(async (_alias: any, operation: any) => {
+      return operation({})
+    })
+    mockIsRetryableResponse.mockReturnValue(false)
+    dir = mkdtempSync(join(tmpdir(), 'nex-export-'))
+
+    server = new McpServer({ name: "test-server", version: "1.0.0" })
+    registerExportTableTool(server)
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair()
+    await server.connect(serverTransport)
+
+    client = new Client({ name: "test-client", version: "1.0.0" })
+    await client.connect(clientTransport)
+  })
+
+  afterEach(async () => {
+    await client.close()
+    await server.close()
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  const exportTable = (args: Record<string, unknown>) =>
+    client.callTool({ name: 'export_table', arguments: { table: 'incident', ...args } })
+
+  describe('tool registration', () => {
+    it('should require table and file_path but not instance', async () => {
+      const { tools } = await client.listTools()
+      const tool = tools.find((t) => t.name === 'export_table')!
+      expect(tool.inputSchema.required).toEqual(expect.arrayContaining(['table', 'file_path']))
+      expect(tool.inputSchema.required).not.toContain('instance')
+    })
+  })
+
+  describe('writing files', () => {
+    it('should write a CSV with a header row and report the row count', async () => {
+      mockGet.mockResolvedValue(ok([
+        { number: 'INC001', short_description: 'Printer, on fire' },
+        { number: 'INC002', short_description: 'Says "hello"' },
+      ]))
+      const file = join(dir, 'out', 'incidents.csv')
+
+      const result = await exportTable({ file_path: file, fields: 'number,short_description' })
+
+      expect(result.isError).toBeFalsy()
+      expect(readFileSync(file, 'utf8')).toBe(
+        'number,short_description\r\n' +
+        'INC001,"Printer, on fire"\r\n' +
+        'INC002,"Says ""hello"""\r\n'
+      )
+      expect(result.structuredContent).toMatchObject({
+        format: 'csv',
+        filePath: file,
+        rowCount: 2,
+        columns: ['number', 'short_description'],
+        complete: true,
+      })
+    })
+
+    it('should write one JSON object per line for .jsonl', async () => {
+      mockGet.mockResolvedValue(ok([{ sys_id: 'a', state: '1' }, { sys_id: 'b' }]))
+      const file = join(dir, 'incidents.jsonl')
+
+      await exportTable({ file_path: file })
+
+      expect(readFileSync(file, 'utf8')).toBe(
+        '{"sys_id":"a","state":"1"}\n{"sys_id":"b","state":null}\n'
+      )
+    })
+
+    it('should write an XLSX workbook when asked, whatever the extension', async () => {
+      mockGet.mockResolvedValue(ok([{ number: 'INC001' }]))
+      const file = join(dir, 'incidents.bin')
+
+      const result = await exportTable({ file_path: file, format: 'xlsx' })
+
+      // A zip's local file header.
+      expect(readFileSync(file).subarray(0, 4)).toEqual(Buffer.from([0x50, 0x4b, 0x03, 0x04]))
+      expect((result.structuredContent as any).format).toBe('xlsx')
+    })
+
+    it('should refuse an extension it cannot map to a format', async () => {
+      const result = await exportTable({ file_path: join(dir, 'incidents.txt') })
+
+      expect(result.isError).toBe(true)
+      expect((result.content as any[])[0].text).toContain('cannot tell the format')
+      expect(mockGet).not.toHaveBeenCalled()
+    })
+
+    it('should not replace an existing file unless overwrite is set', async () => {
+      const file = join(dir, 'incidents.csv')
+      writeFileSync(file, 'keep me')
+      mockGet.mockResolvedValue(ok([{ number: 'INC001' }]))
+
+      const refused = await exportTable({ file_path: file })
+      expect(refused.isError).toBe(true)
+      expect(readFileSync(file, 'utf8')).toBe('keep me')
+      expect(mockGet).not.toHaveBeenCalled()
+
+      await exportTable({ file_path: file, overwrite: true })
+      expect(readFileSync(file, 'utf8')).toContain('INC001')
+    })
+  })
+
+  describe('values', () => {
+    it('should request raw values with plain reference ids by default', async () => {
+      mockGet.mockResolvedValue(ok([]))
+
+      await exportTable({ file_path: join(dir, 'x.csv'), query: 'active=true' })
+
+      expect(mockGet).toHaveBeenCalledWith('incident', {
+        sysparm_limit: 1000,
+        sysparm_query: 'active=true^ORDERBYsys_id',
+        sysparm_offset: 0,
+        sysparm_exclude_reference_link: 'true',
+      })
+    })
+
+    it('should request display values for values: display', async () => {
+      mockGet.mockResolvedValue(ok([]))
+
+      await exportTable({ file_path: join(dir, 'x.csv'), values: 'display' })
+
+      expect(mockGet.mock.calls[0][1]).toMatchObject({ sysparm_display_value: 'true' })
+    })
+
+    it('should write a raw and a display column per field for values: both', async () => {
+      mockGet.mockResolvedValue(ok([
+        { assigned_to: { value: 'u1', display_value: 'Ada Lovelace' } },
+      ]))
+      const file = join(dir, 'x.csv')
+
+      const result = await exportTable({ file_path: file, fields: 'assigned_to', values: 'both' })
+
+      expect(mockGet.mock.calls[0][1]).toMatchObject({ sysparm_display_value: 'all' })
+      expect(readFileSync(file, 'utf8')).toBe('assigned_to,assigned_to_display\r\nu1,Ada Lovelace\r\n')
+      expect((result.structuredContent as any).columns).toEqual(['assigned_to', 'assigned_to_display'])
+    })
+  })
+
+  describe('paging', () => {
+    it('should read page after page until the query is exhausted', async () => {
+      const many = Array.from({ length: 1000 }, (_, i) => ({ sys_id: `id${i}` }))
+      mockGet.mockResolvedValueOnce(ok(many)).mockResolvedValueOnce(ok([{ sys_id: 'last' }]))
+
+      const result = await exportTable({ file_path: join(dir, 'x.jsonl') })
+
+      expect(mockGet.mock.calls.map((call) => call[1].sysparm_offset)).toEqual([0, 1000])
+      expect(result.structuredContent).toMatchObject({ rowCount: 1001, pages: 2, complete: true })
+      expect(mockProgress).toHaveBeenCalledTimes(2)
+    })
+
+    it('should stop at max_records and hand back a cursor for the rest', async () => {
+      mockGet.mockResolvedValue(ok([{ sys_id: 'a' }, { sys_id: 'b' }]))
+
+      const first = await exportTable({ file_path: join(dir, 'part1.csv'), max_records: 2 })
+      const cursor = (first.structuredContent as any).nextCursor
+      expect(cursor).toEqual(expect.any(String))
+      expect((first.content as any[])[0].text).toContain('more records exist')
+
+      mockGet.mockResolvedValue(ok([{ sys_id: 'c' }]))
+      const second = await exportTable({ file_path: join(dir, 'part2.csv'), max_records: 2, cursor })
+
+      expect(mockGet).toHaveBeenLastCalledWith('incident', expect.objectContaining({ sysparm_offset: 2 }))
+      expect(second.structuredContent).toMatchObject({ rowCount: 1, complete: true })
+    })
+
+    it('should write nothing when a page fails', async () => {
+      const many = Array.from({ length: 1000 }, (_, i) => ({ sys_id: `id${i}` }))
+      mockGet
+        .mockResolvedValueOnce(ok(many))
+        .mockResolvedValueOnce({ bodyObject: null, status: 500, statusText: 'Server Error' })
+      const file = join(dir, 'x.csv')
+
+      const result = await exportTable({ file_path: file })
+
+      expect(result.isError).toBe(true)
+      const text = (result.content as any[])[0].text
+      expect(text).toContain('HTTP 500')
+      expect(text).toContain('after 1000 record(s)')
+      expect(existsSync(file)).toBe(false)
+    })
+  })
+})
+
+describe('toCsv', () => {
+  it('should quote edge whitespace and line breaks and serialise objects as JSON', () => {
+    expect(toCsv(['a', 'b'], [{ a: ' x', b: { link: 'l' } }, { a: 'one\ntwo' }])).toBe(
+      'a,b\r\n" x","{""link"":""l""}"\r\n"one\ntwo",\r\n'
+    )
+  })
+
+  it('should prefix cells a spreadsheet would run as formulas, leaving plain numbers', () => {
+    const rows = [{ a: '=HYPERLINK("http://x")', b: '-5' }, { a: '@SUM(A1)', b: '+1+2' }, { a: '\tcmd', b: '-x' }]
+    expect(toCsv(['a', 'b'], rows)).toBe(
+      'a,b\r\n"\'=HYPERLINK(""http://x"")",-5\r\n\'@SUM(A1),\'+1+2\r\n\'\tcmd,\'-x\r\n'
+    )
+    expect(toCsv(['a'], [{ a: '=1+1' }], false)).toBe('a\r\n=1+1\r\n')
+  })
+})
@@ -0,0 +1,176 @@
+import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals'
+import { Client } from "@modelcontextprotocol/sdk/client/index.js"
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js"
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js"
+
+// ---- Mock external dependencies before importing the module under test ----
+
+const mockWithConnectionRetry = jest.fn<(alias: any, op: any) => Promise<any>>()
+jest.unstable_mockModule('../../../src/common/connection.js', () => ({
+  withConnectionRetry: mockWithConnectionRetry,
+  isRetryableResponse: () => false,
+}))
+
+const mockGet = jest.fn<(table: string, params: any) => Promise<any>>()
+const mockBatchCreate = jest.fn<(options: any) => Promise<any>>()
+jest.unstable_mockModule('@sonisoft/now-sdk-ext-core', () => ({
+  TableAPIRequest: jest.fn().mockImplementation(() => ({ get: mockGet })),
+  BatchOperations: jest.fn().mockImplementation(() => ({ batchCreate: mockBatchCreate })),
+  QueryBatchOperations: jest.fn(),
+  ScopeManager: jest.fn().mockImplementation(() => ({
+    getCurrentApplication: async () => ({ sys_id: 'a'.repeat(32), name: 'Acme HR', scope: 'x_acme_hr' }),
+  })),
+  UpdateSetManager: jest.fn().mockImplementation(() => ({
+    getCurrentUpdateSet: async () => ({ sys_id: 'b'.repeat(32), name: 'HR-12 onboarding' }),
+  })),
+}))
+
+// progress.js pulls in the logger, and through it core; a per-test spy is all that matters here
+const mockProgress = jest.fn<(message: string) => void>()
+const mockProgressReporter = jest.fn<(extra: any) => any>()
+jest.unstable_mockModule('../../../src/common/progress.js', () => ({
+  progressReporter: mockProgressReporter,
+}))
+
+const { registerCreateFlowTool, registerUpdateFlowTool } = await import('../../../src/tools/flow-authoring.js')
+
+const text = (result: any) => (result.content as any[])[0].text as string
+
+const TRIGGER = 'c'.repeat(32)
+const LOOK_UP = 'd'.repeat(32)
+const FLOW = 'e'.repeat(32)
+
+/** An instance with one trigger type and one action, and no flows yet. */
+function instance() {
+  const records: Record<string, any[]> = {
+    sys_hub_trigger_definition: [{ sys_id: TRIGGER, name: 'Created', type: 'record_create', 'sys_scope.scope': 'global', active: 'true' }],
+    sys_hub_trigger_input: [{ sys_id: 't1', model: TRIGGER, element: 'table', mandatory: 'true' }],
+    sys_hub_action_type_definition: [
+      { sys_id: LOOK_UP, name: 'Look Up Record', internal_name: 'look_up_record', 'sys_scope.scope': 'global', active: 'true' },
+    ],
+    sys_hub_action_input: [{ sys_id: 'i1', model: LOOK_UP, element: 'table', mandatory: 'true' }],
+    sys_hub_action_output: [{ sys_id: 'o1', model: LOOK_UP, element: 'Record' }],
+  }
+  mockGet.mockImplementation(async (table: string) => ({ status: 200, bodyObject: { result: records[table] ?? [] } }))
+}
+
+describe('create_flow and update_flow tools', () => {
+  let server: McpServer
+  let client: Client
+
+  beforeEach(async () => {
+    jest.clearAllMocks()
+    mockWithConnectionRetry.mockImplementation(async (_alias: any, operation: any) => operation({}))
+    mockProgressReporter.mockReturnValue(mockProgress)
+    mockBatchCreate.mockImplementation(async ({ operations }: any) => ({
+      createdCount: operations.length,
+      sysIds: { flow: FLOW, step_lookup: 'f'.repeat(32) },
+      errors: [],
+    }))
+    instance()
+
+    server = new McpServer({ name: "test-server", version: "1.0.0" })
+    registerCreateFlowTool(server)
+    registerUpdateFlowTool(server)
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair()
+    await server.connect(serverTransport)
+
+    client = new Client({ name: "test-client", version: "1.0.0" })
+    await client.connect(clientTransport)
+  })
+
+  afterEach(async () => {
+    await client.close()
+    await server.close()
+  })
+
+  it('should take a definition, and update_flow the flow to replace as well', async () => {
+    const { tools } = await client.listTools()
+    const create = tools.find((t) => t.name === 'create_flow')!
+    const update = tools.find((t) => t.name === 'update_flow')!
+    expect(create.inputSchema.required).toEqual(['definition'])
+    expect(update.inputSchema.required).toEqual(['flow_id', 'definition'])
+    expect((create.inputSchema.properties!.definition as any).properties).toHaveProperty('steps')
+  })
+
+  it('should create the flow and say where it was written', async () => {
+    const result = await client.callTool({
+      name: 'create_flow',
+      arguments: {
+        instance: 'dev',
+        definition: {
+          name: 'Onboard new hire',
+          trigger: { type: 'record_create', inputs: { table: 'sn_hr_core_case' } },
+          steps: [{ id: 'lookup', action: 'look_up_record', inputs: { table: 'sys_user' } }],
+        },
+      },
+    })
+
+    expect(result.isError).toBeFalsy()
+    expect(text(result)).toContain('=== Flow Created ===')
+    expect(text(result)).toContain('Application: Acme HR (x_acme_hr)')
+    expect(text(result)).toContain('Update set: HR-12 onboarding')
+    expect(text(result)).toContain(`lookup                   action   sys_hub_action_instance/${'f'.repeat(32)}`)
+    expect(result.structuredContent).toMatchObject({ flowSysId: FLOW, internalName: 'onboard_new_hire', recordCount: 5 })
+    expect(mockProgress).toHaveBeenCalledWith('Wrote 5 records')
+  })
+
+  it('should list every problem in the definition by step, writing nothing', async () => {
+    const result = await client.callTool({
+      name: 'create_flow',
+      arguments: {
+        definition: {
+          name: 'Broken',
+          trigger: { type: 'record_create', inputs: { table: 'incident' } },
+          steps: [
+            { id: 'lookup', action: 'look_up_record', inputs: { table: '{{missing.Record}}' } },
+            { id: 'send', action: 'send_email' },
+          ],
+        },
+      },
+    })
+
+    expect(result.isError).toBe(true)
+    expect(text(result)).toBe(
+      'Error creating flow: The definition has 2 problems:\n' +
+        '- steps[0].inputs.table (step "lookup"): {{missing.Record}}: there is no step "missing".\n' +
+        '- steps[1].action (step "send"): There is no action "send_email".'
+    )
+    expect(mockBatchCreate).not.toHaveBeenCalled()
+  })
+
+  it('should preview an update with dry_run, writing nothing', async () => {
+    instance()
+    const answer = mockGet.getMockImplementation()!
+    mockGet.mockImplementation(async (table: string, params: any) =>
+      table === 'sys_hub_flow' && String(params.sysparm_query).startsWith('type=flow')
+        ? {
+            status: 200,
+            bodyObject: {
+              result: [{ sys_id: FLOW, name: 'Onboard', internal_name: 'onboard_new_hire', 'sys_scope.scope': 'x_acme_hr', active: 'false' }],
+            },
+          }
+        : answer(table, params)
+    )
+
+    const result = await client.callTool({
+      name: 'update_flow',
+      arguments: {
+        flow_id: FLOW,
+        dry_run: true,
+        definition: {
+          name: 'Onboard new hire',
+          trigger: { type: 'record_create', inputs: { table: 'sn_hr_core_case' } },
+          steps: [{ id: 'lookup', action: 'look_up_record', inputs: { table: 'sys_user' } }],
+        },
+      },
+    })
+
+    expect(result.isError).toBeFalsy()
+    expect(text(result)).toContain('=== DRY RUN — nothing was changed ===')
+    expect(text(result)).toContain('4 record(s) would be written')
+    expect(result.structuredContent).toMatchObject({ dryRun: true, flowSysId: FLOW })
+    expect(mockBatchCreate).not.toHaveBeenCalled()
+  })
+})
@@ -8,27 +8,48 @@ import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js"
 const mockWithConnectionRetry = jest.fn<(alias: any, op: any) => Promise<any>>()
 jest.unstable_mockModule('../../../src/common/connection.js', () => ({
   withConnectionRetry: mockWithConnectionRetry,
+  isRetryableResponse: () => false,
 }))
 
 const mockTestFlow = jest.fn<(...args: any[]) => Promise<any>>()
 const mockCopyFlow = jest.fn<(...args: any[]) => Promise<any>>()
 const mockGetFlowContextDetails = jest.fn<(...args: any[]) => Promise<any>>()
 const mockGetFlowLogs = jest.fn<(...args: any[]) => Promise<any>>()
+const mockGetFlowContextStatus = jest.fn<(...args: any[]) => Promise<any>>()
+const mockGetFlowOutputs = jest.fn<(...args: any[]) => Promise<any>>()
+const mockExecuteFlow = jest.fn<(...args: any[]) => Promise<any>>()
+const mockTableGet = jest.fn<(table: string, params: any) => Promise<any>>()
 jest.unstable_mockModule('@sonisoft/now-sdk-ext-core', () => ({
   FlowManager: jest.fn().mockImplementation(() => ({
     testFlow: mockTestFlow,
     copyFlow: mockCopyFlow,
     getFlowContextDetails: mockGetFlowContextDetails,
     getFlowLogs: mockGetFlowLogs,
+    getFlowContextStatus: mockGetFlowContextStatus,
+    getFlowOutputs: mockGetFlowOutputs,
+    executeFlow: mockExecuteFlow,
   })),
+  TableAPIRequest: jest.fn().mockImplementation(() => ({ get: mockTableGet })),
+}))
+
+// progress.js pulls in the logger, and through it core; a per-test spy is all that matters here
+const mockProgress = jest.fn<(message: string) => void>()
+const mockProgressReporter = jest.fn<(extra: any) => any>()
+jest.unstable_mockModule('../../../src/common/progress.js', () => ({
+  progressReporter: mockProgressReporter,
 }))
 
 // Dynamic import after mocks (required for ESM)
 const {
+  registerAwaitFlowContextTool,
+  registerDescribeFlowTool,
+  registerExecuteFlowTool,
+  registerFlowDependenciesTool,
   registerTestFlowTool,
   registerCopyFlowTool,
   registerGetFlowExecutionDetailsTool,
   registerGetFlowLogsTool,
+  registerSearchFlowExecutionsTool,
 } = await import('../../../src/tools/flow.js')
 
 // ============================================================
@@ -897,3 +918,339 @@ describe('get_flow_logs tool', () => {
     })
   })
 })
+
+// ============================================================
+// await_flow_context
+// ============================================================
+
+describe('await_flow_context tool', () => {
+  let server: McpServer
+  let client: Client
+
+  beforeEach(async () => {
+    jest.clearAllMocks()
+    mockWithConnectionRetry.mockImplementation(async (_alias: any, operation: any) => {
+      return operation({})
+    })
+    mockProgressReporter.mockReturnValue(mockProgress)
+
+    server = new McpServer({ name: "test-server", version: "1.0.0" })
+    registerAwaitFlowContextTool(server)
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair()
+    await server.connect(serverTransport)
+
+    client = new Client({ name: "test-client", version: "1.0.0" })
+    await client.connect(clientTransport)
+  })
+
+  afterEach(async () => {
+    await client.close()
+    await server.close()
+  })
+
+  it('should require only context_id', async () => {
+    const { tools } = await client.listTools()
+    const tool = tools.find((t) => t.name === 'await_flow_context')!
+    expect(tool.inputSchema.required).toEqual(['context_id'])
+    expect(tool.inputSchema.properties).toHaveProperty('timeout_seconds')
+  })
+
+  it('should return the outputs of a finished context in one result', async () => {
+    mockGetFlowContextStatus.mockResolvedValue({
+      contextId: 'ctx1', found: true, state: 'COMPLETE', name: 'Onboard new hire',
+    })
+    mockGetFlowOutputs.mockResolvedValue({ success: true, contextId: 'ctx1', outputs: { user: 'dana' } })
+
+    const result: any = await client.callTool({
+      name: 'await_flow_context',
+      arguments: { context_id: 'ctx1' },
+    })
+
+    expect(result.isError).toBeFalsy()
+    const text = result.content[0].text
+    expect(text).toContain('State: COMPLETE')
+    expect(text).toContain('"user": "dana"')
+    expect(result.structuredContent).toMatchObject({ state: 'COMPLETE', finished: true, outputs: { user: 'dana' } })
+    expect(mockProgress).toHaveBeenCalledWith('Onboard new hire: COMPLETE')
+  })
+
+  it('should return an error result for an unknown context', async () => {
+    mockGetFlowContextStatus.mockResolvedValue({ contextId: 'nope', found: false })
+
+    const result: any = await client.callTool({
+      name: 'await_flow_context',
+      arguments: { context_id: 'nope' },
+    })
+
+    expect(result.isError).toBe(true)
+    expect(result.content[0].text).toBe('Error awaiting flow context: No flow context nope.')
+  })
+})
+
+// ============================================================
+// search_flow_executions
+// ============================================================
+
+describe('search_flow_executions tool', () => {
+  let server: McpServer
+  let client: Client
+
+  const CONTEXT = 'c'.repeat(32)
+
+  beforeEach(async () => {
+    jest.clearAllMocks()
+    mockWithConnectionRetry.mockImplementation(async (_alias: any, operation: any) => {
+      return operation({})
+    })
+    mockProgressReporter.mockReturnValue(mockProgress)
+    mockTableGet.mockImplementation(async (table: string) => ({
+      status: 200,
+      bodyObject: {
+        result:
+          table === 'sys_flow_context'
+            ? [{ sys_id: CONTEXT, name: 'Onboard new hire', state: 'ERROR', sys_created_on: '2026-10-19 08:55:41' }]
+            : [{ context: CONTEXT, action: 'Lookup user', message: 'No record found for employee 100482' }],
+      },
+    }))
+
+    server = new McpServer({ name: "test-server", version: "1.0.0" })
+    registerSearchFlowExecutionsTool(server)
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair()
+    await server.connect(serverTransport)
+
+    client = new Client({ name: "test-client", version: "1.0.0" })
+    await client.connect(clientTransport)
+  })
+
+  afterEach(async () => {
+    await client.close()
+    await server.close()
+  })
+
+  it('should list executions with the step each failed one failed in', async () => {
+    const result: any = await client.callTool({
+      name: 'search_flow_executions',
+      arguments: { flow_name: 'Onboard', states: ['ERROR'], since_hours: 24 },
+    })
+
+    expect(result.isError).toBeFalsy()
+    const text = result.content[0].text
+    expect(text).toContain('Query: nameLIKEOnboard^stateINERROR^sys_created_on>=javascript:gs.hoursAgo(24)')
+    expect(text).toContain('[2026-10-19 08:55:41] ERROR       Onboard new hire')
+    expect(text).toContain('Failed in: Lookup user')
+    expect(result.structuredContent.executions[0]).toMatchObject({
+      sys_id: CONTEXT,
+      failure: { step: 'Lookup user', message: 'No record found for employee 100482' },
+    })
+  })
+
+  it('should group failures by step and error in the failures view', async () => {
+    const result: any = await client.callTool({
+      name: 'search_flow_executions',
+      arguments: { since_hours: 24, view: 'failures' },
+    })
+
+    expect(result.isError).toBeFalsy()
+    const text = result.content[0].text
+    expect(text).toContain('1 failures, 1 in step "Lookup user"')
+    expect(text).toContain('Lookup user: No record found for employee <n>')
+    expect(result.structuredContent).toMatchObject({ failureCount: 1, bySteps: [{ step: 'Lookup user', count: 1 }] })
+    expect(mockProgress).toHaveBeenCalledWith('Read 1 failed executions')
+  })
+
+  it('should return an error result for a malformed date-time', async () => {
+    const result: any = await client.callTool({
+      name: 'search_flow_executions',
+      arguments: { since: 'yesterday' },
+    })
+
+    expect(result.isError).toBe(true)
+    expect(result.content[0].text).toBe(
+      'Error searching flow executions: since must be a date-time as YYYY-MM-DD HH:MM:SS, not "yesterday".'
+    )
+  })
+})
+
+// ============================================================
+// describe_flow, and the input check of the execute tools
+// ============================================================
+
+describe('describe_flow tool and execute input validation', () => {
+  let server: McpServer
+  let client: Client
+
+  const FLOW = 'f'.repeat(32)
+
+  beforeEach(async () => {
+    jest.clearAllMocks()
+    mockWithConnectionRetry.mockImplementation(async (_alias: any, operation: any) => {
+      return operation({})
+    })
+    const records: Record<string, any[]> = {
+      sys_hub_flow: [
+        { sys_id: FLOW, name: 'Escalate Incident', internal_name: 'escalate_incident', 'sys_scope.scope': 'global', active: 'true' },
+      ],
+      sys_hub_flow_input: [
+        { sys_id: 'i1', model: FLOW, element: 'incident', label: 'Incident', internal_type: 'reference', mandatory: 'true', reference: 'incident' },
+        { sys_id: 'i2', model: FLOW, element: 'level', label: 'Level', internal_type: 'integer', mandatory: 'false' },
+      ],
+      sys_hub_flow_output: [{ sys_id: 'o1', model: FLOW, element: 'escalated', label: 'Escalated', internal_type: 'boolean', mandatory: 'false' }],
+    }
+    // Only the flow query matches; subflows and actions have nothing by that name
+    mockTableGet.mockImplementation(async (table: string, params: any) => ({
+      status: 200,
+      bodyObject: {
+        result: table === 'sys_hub_flow' && !params.sysparm_query.startsWith('type=flow') ? [] : records[table] ?? [],
+      },
+    }))
+    mockExecuteFlow.mockResolvedValue({ success: true, flowObjectName: 'global.escalate_incident', flowObjectType: 'flow' })
+
+    server = new McpServer({ name: "test-server", version: "1.0.0" })
+    registerDescribeFlowTool(server)
+    registerExecuteFlowTool(server)
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair()
+    await server.connect(serverTransport)
+
+    client = new Client({ name: "test-client", version: "1.0.0" })
+    await client.connect(clientTransport)
+  })
+
+  afterEach(async () => {
+    await client.close()
+    await server.close()
+  })
+
+  it('should list the declared inputs and outputs', async () => {
+    const result: any = await client.callTool({
+      name: 'describe_flow',
+      arguments: { name: 'global.escalate_incident' },
+    })
+
+    expect(result.isError).toBeFalsy()
+    const text = result.content[0].text
+    expect(text).toContain('Type: flow')
+    expect(text).toContain('Inputs (2):')
+    expect(text).toContain('incident                 reference        mandatory -> incident')
+    expect(result.structuredContent.outputs).toEqual([
+      expect.objectContaining({ name: 'escalated', type: 'boolean', mandatory: false }),
+    ])
+  })
+
+  it('should return an error result for a name that matches nothing', async () => {
+    const result: any = await client.callTool({
+      name: 'describe_flow',
+      arguments: { name: 'global.nope', type: 'action' },
+    })
+
+    expect(result.isError).toBe(true)
+    expect(result.content[0].text).toBe('Error describing flow: There is no action "global.nope".')
+  })
+
+  it('should refuse to execute with inputs that do not fit, running nothing', async () => {
+    const result: any = await client.callTool({
+      name: 'execute_flow',
+      arguments: { scoped_name: 'global.escalate_incident', inputs: { level: 'high' } },
+    })
+
+    expect(result.isError).toBe(true)
+    expect(result.content[0].text).toBe(
+      'Error executing flow: The inputs do not match what flow global.escalate_incident declares:\n' +
+        '- incident: missing, and mandatory (reference)\n' +
+        '- level: expects a number (integer), got "high"'
+    )
+    expect(mockExecuteFlow).not.toHaveBeenCalled()
+  })
+
+  it('should execute with inputs that fit, or when told not to check', async () => {
+    const fits: any = await client.callTool({
+      name: 'execute_flow',
+      arguments: { scoped_name: 'global.escalate_incident', inputs: { incident: 'a'.repeat(32), level: 2 } },
+    })
+    const unchecked: any = await client.callTool({
+      name: 'execute_flow',
+      arguments: { scoped_name: 'global.escalate_incident', inputs: {}, validate_inputs: false },
+    })
+
+    expect(fits.isError).toBeFalsy()
+    expect(unchecked.isError).toBeFalsy()
+    expect(mockExecuteFlow).toHaveBeenCalledTimes(2)
+  })
+})
+
+// ============================================================
+// flow_dependencies
+// ============================================================
+
+describe('flow_dependencies tool', () => {
+  let server: McpServer
+  let client: Client
+
+  const ACTION = 'a'.repeat(32)
+  const FLOW = 'f'.repeat(32)
+
+  beforeEach(async () => {
+    jest.clearAllMocks()
+    mockWithConnectionRetry.mockImplementation(async (_alias: any, operation: any) => {
+      return operation({})
+    })
+    // One inactive flow runs the action, in two steps
+    mockTableGet.mockImplementation(async (table: string, params: any) => {
+      const query: string = params.sysparm_query
+      const result =
+        table === 'sys_hub_action_type_definition' && query.includes('notify')
+          ? [{ sys_id: ACTION, name: 'Notify', internal_name: 'notify', 'sys_scope.scope': 'global', active: 'true' }]
+          : table === 'sys_hub_action_instance' && query.startsWith('action_type')
+            ? [{ flow: FLOW, action_type: ACTION }, { flow: FLOW, action_type: ACTION }]
+            : table === 'sys_hub_flow' && query.startsWith('type=flow') && query.includes(FLOW)
+              ? [{ sys_id: FLOW, name: 'Page On Call', internal_name: 'page_on_call', 'sys_scope.scope': 'global', active: 'false' }]
+              : []
+      return { status: 200, bodyObject: { result } }
+    })
+
+    server = new McpServer({ name: "test-server", version: "1.0.0" })
+    registerFlowDependenciesTool(server)
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair()
+    await server.connect(serverTransport)
+
+    client = new Client({ name: "test-client", version: "1.0.0" })
+    await client.connect(clientTransport)
+  })
+
+  afterEach(async () => {
+    await client.close()
+    await server.close()
+  })
+
+  it('should list the callers of an action as a tree', async () => {
+    const result: any = await client.callTool({
+      name: 'flow_dependencies',
+      arguments: { name: 'global.notify' },
+    })
+
+    expect(result.isError).toBeFalsy()
+    const text = result.content[0].text
+    expect(text).toContain('action   global.notify  "Notify"  active')
+    expect(text).toContain('Callers (1, 0 active flows affected by a change):')
+    expect(text).toContain('  flow     global.page_on_call  "Page On Call"  INACTIVE  (2 steps)')
+    expect(text).toContain('Callees (0):')
+    expect(result.structuredContent.callers).toEqual([
+      expect.objectContaining({ sys_id: FLOW, uses: 2, active: false, children: [] }),
+    ])
+  })
+
+  it('should return an error result for a name that matches nothing', async () => {
+    const result: any = await client.callTool({
+      name: 'flow_dependencies',
+      arguments: { name: 'global.nope', direction: 'callers' },
+    })
+
+    expect(result.isError).toBe(true)
+    expect(result.content[0].text).toBe(
+      'Error reading flow dependencies: There is no flow, subflow or action "global.nope".'
+    )
+  })
+})
@@ -19,6 +19,7 @@ const mockGetArticle = jest.fn<(...args: any[]) => Promise<any>>()
 const mockCreateArticle = jest.fn<(...args: any[]) => Promise<any>>()
 const mockUpdateArticle = jest.fn<(...args: any[]) => Promise<any>>()
 const mockPublishArticle = jest.fn<(...args: any[]) => Promise<any>>()
+const mockTableGet = jest.fn<(...args: any[]) => Promise<any>>()
 
 jest.unstable_mockModule('@sonisoft/now-sdk-ext-core', () => ({
   KnowledgeManager: jest.fn().mockImplementation(() => ({
@@ -32,6 +33,7 @@ jest.unstable_mockModule('@sonisoft/now-sdk-ext-core', () => ({
     updateArticle: mockUpdateArticle,
     publishArticle: mockPublishArticle,
   })),
+  TableAPIRequest: jest.fn().mockImplementation(() => ({ get: mockTableGet })),
 }))
 
 const {
@@ -460,6 +462,33 @@ describe('update_kb_article tool', () => {
     expect(tool.inputSchema.required).toContain('sys_id')
   })
 
+  it('should preview with dry_run and not update', async () => {
+    mockTableGet.mockResolvedValue({
+      status: 200,
+      bodyObject: { result: [{ sys_id: 'art1', short_description: 'Old Title', active: 'true' }] },
+    })
+
+    const result = await client.callTool({
+      name: 'update_kb_article',
+      arguments: { sys_id: 'art1', short_description: 'New Title', active: true, dry_run: true },
+    })
+
+    expect(result.isError).toBeFalsy()
+    expect(mockUpdateArticle).not.toHaveBeenCalled()
+    expect(result.structuredContent).toMatchObject({
+      dryRun: true,
+      changes: [
+        {
+          table: 'kb_knowledge',
+          sys_id: 'art1',
+          action: 'update',
+          fields: [{ field: 'short_description', before: 'Old Title', after: 'New Title' }],
+        },
+      ],
+    })
+    expect(mockTableGet).toHaveBeenCalledWith('kb_knowledge', expect.objectContaining({ sysparm_query: 'sys_id=art1' }))
+  })
+
   it('should update an article and return success', async () => {
     mockUpdateArticle.mockResolvedValue({
       sys_id: 'art1',
@@ -0,0 +1,256 @@
+import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals'
+import { Client } from "@modelcontextprotocol/sdk/client/index.js"
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js"
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js"
+
+// ---- Mock external dependencies before importing the module under test ----
+
+const mockWithConnectionRetry = jest.fn<(alias: any, op: any) => Promise<any>>()
+jest.unstable_mockModule('../../../src/common/connection.js', () => ({
+  withConnectionRetry: mockWithConnectionRetry,
+}))
+
+const mockQueryUpdate = jest.fn<(...args: any[]) => Promise<any>>()
+const mockQueryDelete = jest.fn<(...args: any[]) => Promise<any>>()
+const mockTableGet = jest.fn<(...args: any[]) => Promise<any>>()
+jest.unstable_mockModule('@sonisoft/now-sdk-ext-core', () => ({
+  QueryBatchOperations: jest.fn().mockImplementation(() => ({
+    queryUpdate: mockQueryUpdate,
+    queryDelete: mockQueryDelete,
+  })),
+  TableAPIRequest: jest.fn().mockImplementation(() => ({ get: mockTableGet })),
+}))
+
+jest.unstable_mockModule('../../../src/common/progress.js', () => ({
+  progressReporter: () => undefined,
+}))
+
+jest.unstable_mockModule('../../../src/common/logging.js', () => ({
+  getLogger: () => ({ info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() }),
+}))
+
+const { registerQueryUpdateRecordsTool, registerQueryDeleteRecordsTool } = await import(
+  '../../../src/tools/query-batch.js'
+)
+const { resetConfirmationsForTests } = await import('../../../src/common/confirmation.js')
+
+const text = (result: any) => (result.content as any[])[0].text as string
+
+/** Core's confirm=false answer: the count only. */
+const counted = (matchCount: number) => ({ dryRun: true, matchCount })
+
+describe('query_update_records', () => {
+  let server: McpServer
+  let client: Client
+  const args = { instance: 'dev', table: 'incident', query: 'active=true', data: { state: '2' } }
+
+  beforeEach(async () => {
+    jest.clearAllMocks()
+    resetConfirmationsForTests()
+    mockWithConnectionRetry.mockImplementation(async (_alias: any, operation: any) => operation({}))
+    mockTableGet.mockResolvedValue({
+      status: 200,
+      bodyObject: { result: [{ sys_id: 'a', state: '1' }, { sys_id: 'b', state: '1' }] },
+    })
+
+    server = new McpServer({ name: "test-server", version: "1.0.0" })
+    registerQueryUpdateRecordsTool(server)
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair()
+    await server.connect(serverTransport)
+    client = new Client({ name: "test-client", version: "1.0.0" })
+    await client.connect(clientTransport)
+  })
+
+  afterEach(async () => {
+    await client.close()
+    await server.close()
+  })
+
+  const call = (extra: Record<string, unknown> = {}) =>
+    client.callTool({ name: 'query_update_records', arguments: { ...args, ...extra } })
+
+  it('should no longer accept confirm as a way to execute', async () => {
+    mockQueryUpdate.mockResolvedValue(counted(2))
+
+    const result = await call({ confirm: true })
+
+    expect(mockQueryUpdate).toHaveBeenCalledTimes(1)
+    expect(mockQueryUpdate.mock.calls[0][0]).toMatchObject({ confirm: false })
+    expect((result.structuredContent as any).dryRun).toBe(true)
+  })
+
+  it('should preview with the count, a sample and a confirmation token', async () => {
+    mockQueryUpdate.mockResolvedValue(counted(2))
+
+    const result = await call()
+
+    expect(result.isError).toBeFalsy()
+    expect(result.structuredContent).toMatchObject({
+      matchCount: 2,
+      dryRun: true,
+      changes: [
+        { sys_id: 'a', action: 'update', fields: [{ field: 'state', before: '1', after: '2' }] },
+        { sys_id: 'b', action: 'update' },
+      ],
+      confirmationToken: expect.any(String),
+      confirmationExpiresAt: expect.any(String),
+    })
+    expect(text(result)).toContain('No changes were made')
+    expect(text(result)).toContain((result.structuredContent as any).confirmationToken)
+  })
+
+  it('should execute only when the preview token is presented, and only once', async () => {
+    mockQueryUpdate.mockResolvedValue(counted(2))
+    const preview = await call()
+    const token = (preview.structuredContent as any).confirmationToken
+
+    mockQueryUpdate
+      .mockResolvedValueOnce(counted(2))
+      .mockResolvedValueOnce({ success: true, matchCount: 2, updatedCount: 2, executionTimeMs: 5 })
+    const result = await call({ confirmation_token: token })
+
+    expect(result.isError).toBeFalsy()
+    expect(mockQueryUpdate).toHaveBeenLastCalledWith(expect.objectContaining({ confirm: true, data: { state: '2' } }))
+    expect(text(result)).toContain('Updated: 2')
+
+    const again = await call({ confirmation_token: token })
+    expect(again.isError).toBe(true)
+    expect(text(again)).toContain('already been used')
+  })
+
+  it('should run only one of two confirmed calls that arrive together', async () => {
+    mockQueryUpdate.mockResolvedValue(counted(2))
+    const token = ((await call()).structuredContent as any).confirmationToken
+    mockQueryUpdate.mockClear()
+    mockQueryUpdate.mockImplementation(async ({ confirm }: any) =>
+      confirm ? { success: true, matchCount: 2, updatedCount: 2, executionTimeMs: 5 } : counted(2)
+    )
+
+    const results = await Promise.all([call({ confirmation_token: token }), call({ confirmation_token: token })])
+
+    expect(results.filter((r) => !r.isError)).toHaveLength(1)
+    expect(text(results.find((r) => r.isError))).toContain('already been used')
+    expect(mockQueryUpdate.mock.calls.filter(([request]) => request.confirm)).toHaveLength(1)
+  })
+
+  it('should refuse a token presented with different data', async () => {
+    mockQueryUpdate.mockResolvedValue(counted(2))
+    const token = ((await call()).structuredContent as any).confirmationToken
+    mockQueryUpdate.mockClear()
+
+    const result = await call({ data: { state: '7' }, confirmation_token: token })
+
+    expect(result.isError).toBe(true)
+    expect(text(result)).toContain('different operation')
+    expect(mockQueryUpdate).not.toHaveBeenCalled()
+  })
+
+  it('should refuse and spend the token when the match count has changed', async () => {
+    mockQueryUpdate.mockResolvedValue(counted(2))
+    const token = ((await call()).structuredContent as any).confirmationToken
+
+    mockQueryUpdate.mockResolvedValue(counted(3))
+    const result = await call({ confirmation_token: token })
+
+    expect(result.isError).toBe(true)
+    expect(text(result)).toContain('changed from 2 to 3')
+    expect(mockQueryUpdate).not.toHaveBeenCalledWith(expect.objectContaining({ confirm: true }))
+
+    mockQueryUpdate.mockResolvedValue(counted(2))
+    expect(text(await call({ confirmation_token: token }))).toContain('already been used')
+  })
+
+  it('should issue no token under dry_run, and ignore one presented', async () => {
+    mockQueryUpdate.mockResolvedValue(counted(2))
+    const token = ((await call()).structuredContent as any).confirmationToken
+
+    const result = await call({ dry_run: true, confirmation_token: token })
+
+    expect((result.structuredContent as any).confirmationToken).toBeUndefined()
+    expect(mockQueryUpdate).not.toHaveBeenCalledWith(expect.objectContaining({ confirm: true }))
+  })
+
+  it('should issue no token when nothing matches', async () => {
+    mockQueryUpdate.mockResolvedValue(counted(0))
+    mockTableGet.mockResolvedValue({ status: 200, bodyObject: { result: [] } })
+
+    const result = await call()
+
+    expect((result.structuredContent as any).confirmationToken).toBeUndefined()
+    expect(text(result)).toContain('nothing to confirm')
+  })
+})
+
+describe('query_delete_records', () => {
+  let server: McpServer
+  let client: Client
+  const args = { instance: 'dev', table: 'incident', query: 'active=false' }
+
+  beforeEach(async () => {
+    jest.clearAllMocks()
+    resetConfirmationsForTests()
+    mockWithConnectionRetry.mockImplementation(async (_alias: any, operation: any) => operation({}))
+    mockTableGet.mockResolvedValue({ status: 200, bodyObject: { result: [{ sys_id: 'a' }] } })
+
+    server = new McpServer({ name: "test-server", version: "1.0.0" })
+    registerQueryDeleteRecordsTool(server)
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair()
+    await server.connect(serverTransport)
+    client = new Client({ name: "test-client", version: "1.0.0" })
+    await client.connect(clientTransport)
+  })
+
+  afterEach(async () => {
+    await client.close()
+    await server.close()
+  })
+
+  const call = (extra: Record<string, unknown> = {}) =>
+    client.callTool({ name: 'query_delete_records', arguments: { ...args, ...extra } })
+
+  it('should preview, then delete on the confirmed call', async () => {
+    mockQueryDelete.mockResolvedValue(counted(1))
+    const preview = await call()
+    expect(text(preview)).toContain('No records were deleted')
+    expect(preview.structuredContent).toMatchObject({ changes: [{ sys_id: 'a', action: 'delete' }] })
+
+    mockQueryDelete
+      .mockResolvedValueOnce(counted(1))
+      .mockResolvedValueOnce({ success: true, matchCount: 1, deletedCount: 1, executionTimeMs: 3 })
+    const result = await call({ confirmation_token: (preview.structuredContent as any).confirmationToken })
+
+    expect(result.isError).toBeFalsy()
+    expect(mockQueryDelete).toHaveBeenLastCalledWith(expect.objectContaining({ confirm: true }))
+    expect(text(result)).toContain('Deleted: 1')
+  })
+
+  it('should run only one of two confirmed calls that arrive together', async () => {
+    mockQueryDelete.mockResolvedValue(counted(1))
+    const token = ((await call()).structuredContent as any).confirmationToken
+    mockQueryDelete.mockClear()
+    mockQueryDelete.mockImplementation(async ({ confirm }: any) =>
+      confirm ? { success: true, matchCount: 1, deletedCount: 1, executionTimeMs: 3 } : counted(1)
+    )
+
+    const results = await Promise.all([call({ confirmation_token: token }), call({ confirmation_token: token })])
+
+    expect(results.filter((r) => !r.isError)).toHaveLength(1)
+    expect(mockQueryDelete.mock.calls.filter(([request]) => request.confirm)).toHaveLength(1)
+  })
+
+  it('should refuse a token issued for an update', async () => {
+    // Same table and query, different tool: tokens do not cross over.
+    mockQueryDelete.mockResolvedValue(counted(1))
+    const { issueConfirmation } = await import('../../../src/common/confirmation.js')
+    const { token } = issueConfirmation(
+      { tool: 'query_update_records', alias: 'dev', table: 'incident', query: 'active=false' },
+      1
+    )
+
+    const result = await call({ confirmation_token: token })
+
+    expect(result.isError).toBe(true)
+    expect(text(result)).toContain('different operation')
+    expect(mockQueryDelete).not.toHaveBeenCalled()
+  })
+})
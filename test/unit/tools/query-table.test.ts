@@ -19,6 +19,13 @@ jest.unstable_mockModule('@sonisoft/now-sdk-ext-core', () => ({
   })),
 }))
 
+// progress.js pulls in the logger, and through it core; a per-test spy is all that matters here
+const mockProgress = jest.fn<(message: string) => void>()
+const mockProgressReporter = jest.fn<(extra: any) => any>()
+jest.unstable_mockModule('../../../src/common/progress.js', () => ({
+  progressReporter: mockProgressReporter,
+}))
+
 // Dynamic import after mocks (required for ESM)
 const { registerQueryTableTool } = await import('../../../src/tools/query-table.js')
 
@@ -32,6 +39,7 @@ describe('query_table tool', () => {
       return operation({})
     })
     mockIsRetryableResponse.mockReturnValue(false)
+    mockProgressReporter.mockReturnValue(mockProgress)
 
     server = new McpServer({ name: "test-server", version: "1.0.0" })
     registerQueryTableTool(server)
@@ -110,6 +118,26 @@ describe('query_table tool', () => {
       expect(text).toContain('--- Record 2 ---')
     })
 
+    it('should return the records as structured content', async () => {
+      const records = [{ sys_id: 'abc', number: 'INC001' }]
+      mockGet.mockResolvedValue({
+        bodyObject: { result: records },
+        status: 200,
+        statusText: 'OK',
+      })
+
+      const result = await client.callTool({
+        name: 'query_table',
+        arguments: { table: 'incident', query: 'active=true' },
+      })
+
+      expect(result.structuredContent).toEqual({
+        table: 'incident',
+        query: 'active=true',
+        records,
+      })
+    })
+
     it('should pass the instance alias to getServiceNowInstance', async () => {
       // withConnectionRetry uses default mock implementation
       mockGet.mockResolvedValue({
@@ -280,6 +308,194 @@ describe('query_table tool', () => {
     })
   })
 
+  describe('paging', () => {
+    const page = (from: number, count: number) => ({
+      status: 200,
+      bodyObject: {
+        result: Array.from({ length: count }, (_, i) => ({ sys_id: `id${from + i}` })),
+      },
+    })
+
+    it('should order by sys_id and pass sysparm_offset when offset is given', async () => {
+      mockGet.mockResolvedValue(page(40, 20))
+
+      const result = await client.callTool({
+        name: 'query_table',
+        arguments: { table: 'incident', query: 'active=true', offset: 40 },
+      })
+
+      expect(mockGet).toHaveBeenCalledWith('incident', {
+        sysparm_limit: 20,
+        sysparm_query: 'active=true^ORDERBYsys_id',
+        sysparm_offset: 40,
+      })
+      const structured = result.structuredContent as any
+      expect(structured.offset).toBe(40)
+      expect(structured.complete).toBe(false)
+      expect(structured.nextCursor).toEqual(expect.any(String))
+    })
+
+    it('should resume from a cursor where the previous call stopped', async () => {
+      mockGet.mockResolvedValueOnce(page(0, 20)).mockResolvedValueOnce(page(20, 5))
+
+      const first = await client.callTool({
+        name: 'query_table',
+        arguments: { table: 'incident', offset: 0 },
+      })
+      const cursor = (first.structuredContent as any).nextCursor
+
+      const second = await client.callTool({
+        name: 'query_table',
+        arguments: { table: 'incident', cursor },
+      })
+
+      expect(mockGet).toHaveBeenLastCalledWith('incident', {
+        sysparm_limit: 20,
+        sysparm_query: 'ORDERBYsys_id',
+        sysparm_offset: 20,
+      })
+      const structured = second.structuredContent as any
+      expect(structured.records).toHaveLength(5)
+      expect(structured.complete).toBe(true)
+      expect(structured.nextCursor).toBeUndefined()
+    })
+
+    it('should reject a cursor issued for a different query', async () => {
+      mockGet.mockResolvedValue(page(0, 20))
+      const first = await client.callTool({
+        name: 'query_table',
+        arguments: { table: 'incident', query: 'active=true', offset: 0 },
+      })
+
+      const result = await client.callTool({
+        name: 'query_table',
+        arguments: {
+          table: 'incident',
+          query: 'active=false',
+          cursor: (first.structuredContent as any).nextCursor,
+        },
+      })
+
+      expect(result.isError).toBe(true)
+      expect((result.content as any[])[0].text).toContain('different query')
+      expect(mockGet).toHaveBeenCalledTimes(1)
+    })
+
+    it('should reject a cursor it did not issue', async () => {
+      const result = await client.callTool({
+        name: 'query_table',
+        arguments: { table: 'incident', cursor: 'not-a-cursor' },
+      })
+
+      expect(result.isError).toBe(true)
+      expect((result.content as any[])[0].text).toContain('not one this server issued')
+      expect(mockGet).not.toHaveBeenCalled()
+    })
+
+    it('should reject a cursor given together with an offset', async () => {
+      const result = await client.callTool({
+        name: 'query_table',
+        arguments: { table: 'incident', cursor: 'not-a-cursor', offset: 40 },
+      })
+
+      expect(result.isError).toBe(true)
+      expect((result.content as any[])[0].text).toContain('either cursor or offset')
+      expect(mockGet).not.toHaveBeenCalled()
+    })
+
+    it('should walk every page with all_pages and report progress', async () => {
+      mockGet
+        .mockResolvedValueOnce(page(0, 2))
+        .mockResolvedValueOnce(page(2, 2))
+        .mockResolvedValueOnce(page(4, 1))
+
+      const result = await client.callTool({
+        name: 'query_table',
+        arguments: { table: 'incident', limit: 2, all_pages: true },
+      })
+
+      expect(mockGet).toHaveBeenCalledTimes(3)
+      expect(mockGet.mock.calls.map((call) => call[1].sysparm_offset)).toEqual([0, 2, 4])
+      const structured = result.structuredContent as any
+      expect(structured.records.map((r: any) => r.sys_id)).toEqual(['id0', 'id1', 'id2', 'id3', 'id4'])
+      expect(structured.recordCount).toBe(5)
+      expect(structured.fieldNames).toEqual(['sys_id'])
+      expect(structured.pages).toBe(3)
+      expect(structured.complete).toBe(true)
+      expect(structured.nextCursor).toBeUndefined()
+      expect(mockProgress).toHaveBeenCalledTimes(3)
+      expect((result.content as any[])[0].text).toContain('{"sys_id":"id4"}')
+    })
+
+    it('should stop at max_records and return a cursor to continue', async () => {
+      mockGet.mockResolvedValueOnce(page(0, 2)).mockResolvedValueOnce(page(2, 1))
+
+      const result = await client.callTool({
+        name: 'query_table',
+        arguments: { table: 'incident', limit: 2, all_pages: true, max_records: 3 },
+      })
+
+      // The last page asks only for what is left under the cap.
+      expect(mockGet.mock.calls[1][1]).toMatchObject({ sysparm_limit: 1, sysparm_offset: 2 })
+      const structured = result.structuredContent as any
+      expect(structured.recordCount).toBe(3)
+      expect(structured.complete).toBe(false)
+      expect(structured.nextCursor).toEqual(expect.any(String))
+      expect((result.content as any[])[0].text).toContain('More records exist')
+    })
+
+    it('should count every record under all_pages but return only the first ones', async () => {
+      mockGet
+        .mockResolvedValueOnce(page(0, 10))
+        .mockResolvedValueOnce(page(10, 10))
+        .mockResolvedValueOnce(page(20, 10))
+        .mockResolvedValueOnce(page(30, 5))
+
+      const result = await client.callTool({
+        name: 'query_table',
+        arguments: { table: 'incident', limit: 10, all_pages: true },
+      })
+
+      const structured = result.structuredContent as any
+      expect(structured.recordCount).toBe(35)
+      expect(structured.records).toHaveLength(20)
+      expect(structured.records[19].sys_id).toBe('id19')
+      const text = (result.content as any[])[0].text
+      expect(text).toContain('Records found: 35')
+      expect(text).not.toContain('id20')
+      expect(text).toContain('export_table')
+    })
+
+    it('should say how far it got when a later page fails', async () => {
+      mockGet
+        .mockResolvedValueOnce(page(0, 2))
+        .mockResolvedValueOnce({ bodyObject: null, status: 500, statusText: 'Server Error' })
+
+      const result = await client.callTool({
+        name: 'query_table',
+        arguments: { table: 'incident', limit: 2, all_pages: true },
+      })
+
+      expect(result.isError).toBe(true)
+      const text = (result.content as any[])[0].text
+      expect(text).toContain('HTTP 500')
+      expect(text).toContain('Stopped after 2 record(s)')
+      expect(text).toContain('resume with cursor')
+    })
+
+    it('should hint at paging when a plain call fills its limit', async () => {
+      mockGet.mockResolvedValue(page(0, 20))
+
+      const result = await client.callTool({
+        name: 'query_table',
+        arguments: { table: 'incident' },
+      })
+
+      expect((result.content as any[])[0].text).toContain('more records may exist')
+      expect(result.structuredContent).not.toHaveProperty('nextCursor')
+    })
+  })
+
   describe('error handling', () => {
     it('should return isError when credentials fail', async () => {
       mockWithConnectionRetry.mockRejectedValue(
@@ -0,0 +1,133 @@
+import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals'
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { Client } from "@modelcontextprotocol/sdk/client/index.js"
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js"
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js"
+
+// ---- Mock external dependencies before importing the module under test ----
+
+const mockWithConnectionRetry = jest.fn<(alias: any, op: any) => Promise<any>>()
+jest.unstable_mockModule('../../../src/common/connection.js', () => ({
+  withConnectionRetry: mockWithConnectionRetry,
+}))
+
+const mockExecuteScript = jest.fn<(...args: any[]) => Promise<any>>()
+const mockExecutor = jest.fn().mockImplementation(() => ({ executeScript: mockExecuteScript }))
+jest.unstable_mockModule('@sonisoft/now-sdk-ext-core', () => ({
+  BackgroundScriptExecutor: mockExecutor,
+  TableAPIRequest: jest.fn(),
+}))
+
+const { registerListSavedScriptsTool, registerRunSavedScriptTool } = await import('../../../src/tools/script-library.js')
+const { initScriptLibrary, resetScriptLibraryForTests } = await import('../../../src/common/script-library.js')
+
+const text = (result: any) => (result.content as any[])[0].text as string
+
+const ORPHANS = `/**
+ * Lists records whose reference points at nothing.
+ * @scope x_acme_app
+ * @param {string} table - Table to check
+ * @param {integer} [limit=100] - Most records to list
+ */
+gs.info('checking {0}', table);
+`
+
+describe('list_saved_scripts and run_saved_script', () => {
+  let server: McpServer
+  let client: Client
+  let dir: string
+
+  beforeEach(async () => {
+    jest.clearAllMocks()
+    mockWithConnectionRetry.mockImplementation(async (_alias: any, operation: any) => operation({}))
+    mockExecuteScript.mockResolvedValue({ scriptResults: [{ line: '[[nex:info]] checking incident' }] })
+
+    dir = mkdtempSync(join(tmpdir(), 'nex-script-library-'))
+    writeFileSync(join(dir, 'find-orphans.js'), ORPHANS)
+    mkdirSync(join(dir, 'sla'))
+    writeFileSync(join(dir, 'sla', 'recalc.js'), '/**\n * Recalculates SLAs.\n * @param {date} since\n */\n')
+    writeFileSync(join(dir, 'notes.txt'), 'not a script')
+    initScriptLibrary({ NEX_SCRIPT_LIBRARY: dir })
+
+    server = new McpServer({ name: "test-server", version: "1.0.0" })
+    registerListSavedScriptsTool(server)
+    registerRunSavedScriptTool(server)
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair()
+    await server.connect(serverTransport)
+    client = new Client({ name: "test-client", version: "1.0.0" })
+    await client.connect(clientTransport)
+  })
+
+  afterEach(async () => {
+    resetScriptLibraryForTests()
+    await client.close()
+    await server.close()
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  const run = (args: Record<string, unknown>) =>
+    client.callTool({ name: 'run_saved_script', arguments: { instance: 'dev', ...args } })
+
+  it('should list the scripts with their parameters, and say which cannot run', async () => {
+    const result = await client.callTool({ name: 'list_saved_scripts', arguments: {} })
+
+    expect(result.isError).toBeFalsy()
+    expect(text(result)).toContain('find-orphans — Lists records whose reference points at nothing.')
+    expect(text(result)).toContain('  - limit (integer, default 100): Most records to list')
+    expect(text(result)).toContain('Cannot be run: unknown type {date}')
+    expect((result.structuredContent as any).scripts).toEqual([
+      expect.objectContaining({ name: 'find-orphans', scope: 'x_acme_app', params: [expect.objectContaining({ name: 'table' }), expect.anything()] }),
+      expect.objectContaining({ name: 'sla/recalc', error: expect.stringContaining('unknown type') }),
+    ])
+  })
+
+  it('should run a script with its parameters bound as escaped variables in its own scope', async () => {
+    const result = await run({ name: 'find-orphans', params: { table: "inc'ident" } })
+
+    expect(result.isError).toBeFalsy()
+    const sent = mockExecuteScript.mock.calls[0][0] as string
+    expect(sent).toContain(`var table = "inc'ident", limit = 100; /**`)
+    expect(sent).toContain("__nexLog('info')('checking {0}', table);")
+    expect(mockExecuteScript.mock.calls[0][1]).toBe('x_acme_app')
+    expect(result.structuredContent).toMatchObject({
+      name: 'find-orphans',
+      params: { table: "inc'ident", limit: 100 },
+      scope: 'x_acme_app',
+      logs: { info: ['checking incident'] },
+      scriptFile: join(dir, 'find-orphans.js'),
+    })
+  })
+
+  it('should let the call choose the scope and preview', async () => {
+    await run({ name: 'find-orphans', params: { table: 'incident' }, scope: 'global', preview: true })
+
+    expect(mockExecuteScript.mock.calls[0][1]).toBe('global')
+    expect(mockExecuteScript.mock.calls[0][0]).toContain('__nexPreview.wrap(GlideRecord)')
+  })
+
+  it('should refuse parameters that do not match the header, before running anything', async () => {
+    const result = await run({ name: 'find-orphans', params: { limit: 'ten' } })
+
+    expect(result.isError).toBe(true)
+    expect(text(result)).toContain('Error running saved script: table is required. limit must be a number')
+    expect(mockExecuteScript).not.toHaveBeenCalled()
+  })
+
+  it('should refuse a name outside the library', async () => {
+    const result = await run({ name: '../find-orphans' })
+
+    expect(result.isError).toBe(true)
+    expect(text(result)).toContain('No saved script "../find-orphans". Known: find-orphans, sla/recalc.')
+  })
+
+  it('should say how to configure a library when there is none', async () => {
+    resetScriptLibraryForTests()
+
+    const result = await client.callTool({ name: 'list_saved_scripts', arguments: {} })
+
+    expect(result.isError).toBe(true)
+    expect(text(result)).toContain('NEX_SCRIPT_LIBRARY')
+  })
+})
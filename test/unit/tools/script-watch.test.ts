@@ -0,0 +1,178 @@
+import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals'
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { Client } from "@modelcontextprotocol/sdk/client/index.js"
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js"
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js"
+import { LoggingMessageNotificationSchema } from "@modelcontextprotocol/sdk/types.js"
+
+// ---- Mock external dependencies before importing the module under test ----
+
+const mockWithConnectionRetry = jest.fn<(alias: any, op: any) => Promise<any>>()
+jest.unstable_mockModule('../../../src/common/connection.js', () => ({
+  withConnectionRetry: mockWithConnectionRetry,
+}))
+
+/** The one record on the instance, as in scriptsync.test.ts. */
+let remote: Record<string, string>
+
+const mockTableGet = jest.fn(async () => ({ status: 200, bodyObject: { result: [{ ...remote }] } }))
+const mockBatchUpdate = jest.fn(async ({ updates }: any) => {
+  bump(updates[0].data.script)
+  return { success: true, updatedCount: 1, errors: [] as any[] }
+})
+jest.unstable_mockModule('@sonisoft/now-sdk-ext-core', () => ({
+  TableAPIRequest: jest.fn().mockImplementation(() => ({ get: mockTableGet })),
+  BatchOperations: jest.fn().mockImplementation(() => ({ batchUpdate: mockBatchUpdate })),
+}))
+
+jest.unstable_mockModule('../../../src/common/logging.js', () => ({
+  getLogger: () => ({ info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() }),
+}))
+
+const { registerPullScriptTool } = await import('../../../src/tools/scriptsync.js')
+const { registerListScriptWatchesTool, registerUnwatchScriptsTool, registerWatchScriptsTool } = await import(
+  '../../../src/tools/script-watch.js'
+)
+const { resetWatchesForTests } = await import('../../../src/common/script-watch.js')
+
+const text = (result: any) => (result.content as any[])[0].text as string
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+function bump(script: string) {
+  const count = Number(remote.sys_mod_count) + 1
+  Object.assign(remote, { script, sys_mod_count: String(count), sys_updated_on: `2026-05-0${count} 10:00:00` })
+}
+
+describe('watch_scripts, unwatch_scripts and list_script_watches', () => {
+  let server: McpServer
+  let client: Client
+  let dir: string
+  let file: string
+  let notifications: { level: string; data: any }[]
+
+  beforeEach(async () => {
+    jest.clearAllMocks()
+    dir = mkdtempSync(join(tmpdir(), 'nex-script-watch-'))
+    file = join(dir, 'Util.js')
+    notifications = []
+    mockWithConnectionRetry.mockImplementation(async (_alias: any, operation: any) => operation({}))
+    remote = { sys_id: 'si1', name: 'Util', script: 'a();\n', sys_mod_count: '1', sys_updated_on: '2026-05-01 10:00:00' }
+
+    server = new McpServer({ name: "test-server", version: "1.0.0" }, { capabilities: { logging: {} } })
+    registerPullScriptTool(server)
+    registerWatchScriptsTool(server)
+    registerUnwatchScriptsTool(server)
+    registerListScriptWatchesTool(server)
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair()
+    await server.connect(serverTransport)
+    client = new Client({ name: "test-client", version: "1.0.0" })
+    client.setNotificationHandler(LoggingMessageNotificationSchema, (n) => {
+      notifications.push({ level: n.params.level, data: n.params.data })
+    })
+    await client.connect(clientTransport)
+
+    await client.callTool({
+      name: 'pull_script',
+      arguments: { instance: 'dev', script_name: 'Util', script_type: 'sys_script_include', file_path: file },
+    })
+  })
+
+  afterEach(async () => {
+    resetWatchesForTests()
+    await client.close()
+    await server.close()
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  const watch = (extra: Record<string, unknown> = {}) =>
+    client.callTool({ name: 'watch_scripts', arguments: { instance: 'dev', file_paths: [file], debounce_ms: 100, ...extra } })
+  const list = async () => ((await client.callTool({ name: 'list_script_watches', arguments: {} })).structuredContent as any).watches
+
+  /** Waits for the watch to report `status`. */
+  async function outcome(status: string) {
+    for (let waited = 0; waited < 5000; waited += 25) {
+      const found = notifications.find((n) => n.data.status === status)
+      if (found) return found
+      await sleep(25)
+    }
+    throw new Error(`no "${status}" notification; got ${JSON.stringify(notifications)}`)
+  }
+
+  it('should push a burst of saves once, and report the push and its outcome', async () => {
+    const started = await watch()
+    expect(started.isError).toBeFalsy()
+    expect((started.structuredContent as any).watches).toEqual([
+      expect.objectContaining({ filePath: file, instance: 'dev', scriptType: 'sys_script_include', scriptName: 'Util', sysId: 'si1' }),
+    ])
+
+    writeFileSync(file, 'b();\n')
+    writeFileSync(file, 'c();\n')
+    writeFileSync(file, 'd();\n')
+
+    expect(await outcome('pushed')).toMatchObject({ level: 'info', data: { filePath: file, scriptName: 'Util' } })
+    expect(notifications.map((n) => n.data.status)).toEqual(['pushing', 'pushed'])
+    expect(mockBatchUpdate).toHaveBeenCalledTimes(1)
+    expect(remote.script).toBe('d();\n')
+    expect(await list()).toEqual([expect.objectContaining({ pushCount: 1, last: expect.objectContaining({ status: 'pushed' }) })])
+  })
+
+  it('should not push a change that would discard an edit made on the instance', async () => {
+    await watch()
+    bump('theirs();\n')
+
+    writeFileSync(file, 'ours();\n')
+
+    expect(await outcome('conflict')).toMatchObject({ level: 'warning' })
+    expect(mockBatchUpdate).not.toHaveBeenCalled()
+  })
+
+  it('should not push a save that leaves the file as it was pulled', async () => {
+    await watch()
+
+    writeFileSync(file, remote.script)
+
+    expect(await outcome('unchanged')).toMatchObject({ level: 'debug' })
+    expect(mockBatchUpdate).not.toHaveBeenCalled()
+  })
+
+  it('should refuse files not pulled with pull_script, and watch none of them', async () => {
+    const stray = join(dir, 'Stray.js')
+    writeFileSync(stray, 'x();\n')
+
+    const result = await watch({ file_paths: [file, stray] })
+
+    expect(result.isError).toBe(true)
+    expect(text(result)).toContain('Stray.js: not pulled with pull_script')
+    expect(await list()).toEqual([])
+  })
+
+  it('should refuse an instance other than the one the file was pulled from', async () => {
+    const result = await watch({ instance: 'prod' })
+
+    expect(result.isError).toBe(true)
+    expect(text(result)).toContain('Pass instance: "dev"')
+  })
+
+  it('should refuse a file that is already watched', async () => {
+    await watch()
+
+    const again = await watch()
+
+    expect(again.isError).toBe(true)
+    expect(text(again)).toContain('already watched')
+  })
+
+  it('should stop pushing once unwatched', async () => {
+    const id = ((await watch()).structuredContent as any).watches[0].id
+
+    const result = await client.callTool({ name: 'unwatch_scripts', arguments: { watch_ids: [id, 'w-unknown'] } })
+    writeFileSync(file, 'later();\n')
+    await sleep(300)
+
+    expect(result.structuredContent).toMatchObject({ stopped: [expect.objectContaining({ id })], unknown: ['w-unknown'] })
+    expect(mockBatchUpdate).not.toHaveBeenCalled()
+    expect(await list()).toEqual([])
+  })
+})
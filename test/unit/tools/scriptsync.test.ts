@@ -0,0 +1,249 @@
+import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals'
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { Client } from "@modelcontextprotocol/sdk/client/index.js"
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js"
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js"
+
+// ---- Mock external dependencies before importing the module under test ----
+
+const mockWithConnectionRetry = jest.fn<(alias: any, op: any) => Promise<any>>()
+jest.unstable_mockModule('../../../src/common/connection.js', () => ({
+  withConnectionRetry: mockWithConnectionRetry,
+}))
+
+/** Records on the instance, by table. Pull reads them and push updates them, as the Table API would. */
+let tables: Record<string, Record<string, string>[]>
+let remote: Record<string, string>
+
+const mockTableGet = jest.fn(async (table: string, params: any) => {
+  const [field, value] = String(params.sysparm_query).split('=')
+  const matched = (tables[table] ?? []).filter((r) => r[field] === value)
+  return { status: 200, bodyObject: { result: matched.slice(0, params.sysparm_limit).map((r) => ({ ...r })) } }
+})
+const mockBatchUpdate = jest.fn(async ({ updates }: any) => {
+  const { table, sysId, data } = updates[0]
+  bump(tables[table].find((r) => r.sys_id === sysId)!, data)
+  return { success: true, updatedCount: 1, errors: [] as any[] }
+})
+jest.unstable_mockModule('@sonisoft/now-sdk-ext-core', () => ({
+  TableAPIRequest: jest.fn().mockImplementation(() => ({ get: mockTableGet })),
+  BatchOperations: jest.fn().mockImplementation(() => ({ batchUpdate: mockBatchUpdate })),
+}))
+
+jest.unstable_mockModule('../../../src/common/logging.js', () => ({
+  getLogger: () => ({ info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() }),
+}))
+
+const { registerPullScriptTool, registerPushScriptTool } = await import('../../../src/tools/scriptsync.js')
+const { initScriptTables, resetScriptTablesForTests } = await import('../../../src/common/script-tables.js')
+
+const text = (result: any) => (result.content as any[])[0].text as string
+
+/** An edit on the instance: new content, new stamps. */
+function bump(record: Record<string, string>, data: Record<string, string>) {
+  const count = Number(record.sys_mod_count) + 1
+  Object.assign(record, data, { sys_mod_count: String(count), sys_updated_on: `2026-05-0${count} 10:00:00` })
+}
+
+describe('pull_script and push_script', () => {
+  let server: McpServer
+  let client: Client
+  let dir: string
+  let file: string
+
+  beforeEach(async () => {
+    jest.clearAllMocks()
+    dir = mkdtempSync(join(tmpdir(), 'nex-scriptsync-'))
+    file = join(dir, 'Util.js')
+    mockWithConnectionRetry.mockImplementation(async (_alias: any, operation: any) => operation({}))
+    remote = {
+      sys_id: 'si1',
+      name: 'Util',
+      script: 'a();\nb();\nc();\nd();\ne();\nf();\ng();\nh();\n',
+      sys_mod_count: '1',
+      sys_updated_on: '2026-05-01 10:00:00',
+    }
+    tables = { sys_script_include: [remote] }
+
+    server = new McpServer({ name: "test-server", version: "1.0.0" })
+    registerPullScriptTool(server)
+    registerPushScriptTool(server)
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair()
+    await server.connect(serverTransport)
+    client = new Client({ name: "test-client", version: "1.0.0" })
+    await client.connect(clientTransport)
+  })
+
+  afterEach(async () => {
+    resetScriptTablesForTests()
+    await client.close()
+    await server.close()
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  const args = () => ({ instance: 'dev', script_name: 'Util', script_type: 'sys_script_include', file_path: file })
+  const pull = () => client.callTool({ name: 'pull_script', arguments: args() })
+  const push = (extra: Record<string, unknown> = {}) =>
+    client.callTool({ name: 'push_script', arguments: { ...args(), ...extra } })
+
+  it('should record the stamps and the pulled content beside the file', async () => {
+    const result = await pull()
+
+    const sidecar = join(dir, '.Util.js.nex.json')
+    expect((result.structuredContent as any).sidecarPath).toBe(sidecar)
+    expect(JSON.parse(readFileSync(sidecar, 'utf8'))).toMatchObject({
+      table: 'sys_script_include',
+      sys_id: 'si1',
+      sys_mod_count: '1',
+      sys_updated_on: '2026-05-01 10:00:00',
+      base: { script: remote.script },
+    })
+  })
+
+  it('should push when nobody else has changed the record, and again after its own push', async () => {
+    await pull()
+    writeFileSync(file, remote.script.replace('b();', 'B();'))
+
+    const first = await push()
+    expect(first.isError).toBeFalsy()
+    expect((first.structuredContent as any).conflictChecked).toBe(true)
+
+    writeFileSync(file, remote.script.replace('c();', 'C();'))
+    const second = await push()
+    expect(second.isError).toBeFalsy()
+    expect(mockBatchUpdate).toHaveBeenCalledTimes(2)
+  })
+
+  it('should refuse with both diffs when the instance copy changed since the pull', async () => {
+    await pull()
+    writeFileSync(file, remote.script.replace('b();', 'ours();'))
+    bump(remote, { script: remote.script.replace('g();', 'theirs();') })
+
+    const result = await push()
+
+    expect(result.isError).toBe(true)
+    expect(mockBatchUpdate).not.toHaveBeenCalled()
+    expect(text(result)).toContain('sys_mod_count 1 -> 2')
+    expect(text(result)).toContain('+ours();')
+    expect(text(result)).toContain('+theirs();')
+    expect(text(result)).toContain('touch different lines')
+  })
+
+  it('should push over the change with force', async () => {
+    await pull()
+    writeFileSync(file, 'ours();\n')
+    bump(remote, { script: 'theirs();\n' })
+
+    const result = await push({ force: true })
+
+    expect(result.isError).toBeFalsy()
+    expect(remote.script).toBe('ours();\n')
+  })
+
+  it('should not call a change to other fields a conflict', async () => {
+    await pull()
+    writeFileSync(file, 'ours();\n')
+    bump(remote, { active: 'false' })
+
+    expect((await push()).isError).toBeFalsy()
+  })
+
+  it('should push an unpulled file unchecked, and say so', async () => {
+    writeFileSync(file, 'ours();\n')
+
+    const result = await push()
+
+    expect(result.isError).toBeFalsy()
+    expect(existsSync(join(dir, '.Util.js.nex.json'))).toBe(true)
+    expect((result.structuredContent as any).conflictChecked).toBe(false)
+    expect(text(result)).toContain('not checked for conflicts')
+  })
+
+  it('should report a conflict in a dry run too', async () => {
+    await pull()
+    writeFileSync(file, 'ours();\n')
+    bump(remote, { script: 'theirs();\n' })
+
+    const result = await push({ dry_run: true })
+
+    expect(result.isError).toBe(true)
+    expect(text(result)).toContain('Conflict')
+  })
+
+  it('should round-trip a record with several script fields through a directory', async () => {
+    tables.sys_ui_page = [
+      { sys_id: 'pg1', name: 'home', html: '<p/>', client_script: 'c()', processing_script: 'p()', sys_mod_count: '1', sys_updated_on: 't1' },
+    ]
+    const page = join(dir, 'home')
+    const pageArgs = { instance: 'dev', script_name: 'home', script_type: 'sys_ui_page', file_path: page }
+
+    const pulled = await client.callTool({ name: 'pull_script', arguments: pageArgs })
+    expect((pulled.structuredContent as any).files).toEqual([
+      { field: 'html', path: join(page, 'html.html') },
+      { field: 'client_script', path: join(page, 'client_script.js') },
+      { field: 'processing_script', path: join(page, 'processing_script.js') },
+    ])
+    expect(readFileSync(join(page, 'html.html'), 'utf8')).toBe('<p/>')
+    expect(existsSync(join(dir, '.home.nex.json'))).toBe(true)
+
+    writeFileSync(join(page, 'client_script.js'), 'c2()')
+    const pushed = await client.callTool({ name: 'push_script', arguments: pageArgs })
+
+    expect(mockBatchUpdate).toHaveBeenCalledWith({
+      updates: [{ table: 'sys_ui_page', sysId: 'pg1', data: { client_script: 'c2()' } }],
+      stopOnError: true,
+    })
+    expect(pushed.structuredContent).toMatchObject({ fields: ['client_script'], conflictChecked: true })
+  })
+
+  it('should refuse a table that is not a script table', async () => {
+    const result = await client.callTool({
+      name: 'pull_script',
+      arguments: { instance: 'dev', script_name: 'Rule', script_type: 'x_acme_rule', file_path: file },
+    })
+
+    expect(result.isError).toBe(true)
+    expect(text(result)).toContain('NEX_SCRIPT_TABLES')
+  })
+
+  it('should pull and push a table added with NEX_SCRIPT_TABLES', async () => {
+    initScriptTables({ NEX_SCRIPT_TABLES: 'x_acme_rule:label=condition_script' })
+    tables.x_acme_rule = [{ sys_id: 'r1', label: 'Rule', condition_script: 'true', sys_mod_count: '1', sys_updated_on: 't1' }]
+    const ruleArgs = { instance: 'dev', script_name: 'Rule', script_type: 'x_acme_rule', file_path: join(dir, 'Rule.js') }
+
+    await client.callTool({ name: 'pull_script', arguments: ruleArgs })
+    expect(readFileSync(join(dir, 'Rule.js'), 'utf8')).toBe('true')
+
+    writeFileSync(join(dir, 'Rule.js'), 'false')
+    await client.callTool({ name: 'push_script', arguments: ruleArgs })
+    expect(tables.x_acme_rule[0].condition_script).toBe('false')
+  })
+
+  it('should ask for a sys_id when several records share the name', async () => {
+    tables.sys_script = [
+      { sys_id: 'br1', name: 'Validate', script: 'one()', sys_mod_count: '1', sys_updated_on: 't1' },
+      { sys_id: 'br2', name: 'Validate', script: 'two()', sys_mod_count: '1', sys_updated_on: 't1' },
+    ]
+    const brArgs = { instance: 'dev', script_name: 'Validate', script_type: 'sys_script', file_path: file }
+
+    const ambiguous = await client.callTool({ name: 'pull_script', arguments: brArgs })
+    expect(ambiguous.isError).toBe(true)
+    expect(text(ambiguous)).toContain('Pass sys_id')
+
+    await client.callTool({ name: 'pull_script', arguments: { ...brArgs, sys_id: 'br2' } })
+    expect(readFileSync(file, 'utf8')).toBe('two()')
+  })
+
+  it('should refuse to look up a name holding ^, which would widen the query', async () => {
+    const result = await client.callTool({
+      name: 'pull_script',
+      arguments: { ...args(), script_name: 'Util^ORname=Other' },
+    })
+
+    expect(result.isError).toBe(true)
+    expect(text(result)).toContain('Pass sys_id')
+    expect(mockTableGet).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,169 @@
+import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals'
+import { mkdtempSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { Client } from "@modelcontextprotocol/sdk/client/index.js"
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js"
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js"
+
+// ---- Mock external dependencies before importing the module under test ----
+
+const mockWithConnectionRetry = jest.fn<(alias: any, op: any) => Promise<any>>()
+jest.unstable_mockModule('../../../src/common/connection.js', () => ({
+  withConnectionRetry: mockWithConnectionRetry,
+}))
+
+/** table -> sys_id -> record, read and written by the mocks below. */
+let tables: Record<string, Record<string, Record<string, any>>>
+
+const mockTableGet = jest.fn(async (table: any, params: any) => {
+  const ids = String(params.sysparm_query).replace(/^sys_idIN/, '').split(',')
+  const rows = Object.values(tables[table] ?? {}).filter((r) => ids.includes(r.sys_id))
+  return { status: 200, bodyObject: { result: rows.map((r) => ({ ...r })) } }
+})
+const mockBatchUpdate = jest.fn(async ({ updates }: any) => {
+  updates.forEach((u: any) => update(u.table, u.sysId, u.data))
+  return { success: true, updatedCount: updates.length, errors: [] as any[] }
+})
+jest.unstable_mockModule('@sonisoft/now-sdk-ext-core', () => ({
+  TableAPIRequest: jest.fn().mockImplementation(() => ({ get: mockTableGet })),
+  BatchOperations: jest.fn().mockImplementation(() => ({ batchUpdate: mockBatchUpdate })),
+}))
+
+jest.unstable_mockModule('../../../src/common/logging.js', () => ({
+  getLogger: () => ({ info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() }),
+}))
+
+const { registerUndoOperationTool } = await import('../../../src/tools/undo.js')
+const { initUndoJournal, journaledWrite, loadJournal, resetUndoJournalForTests } = await import(
+  '../../../src/common/undo-journal.js'
+)
+
+const text = (result: any) => (result.content as any[])[0].text as string
+
+function update(table: string, sysId: string, data: Record<string, unknown>) {
+  const record = tables[table][sysId]
+  Object.assign(record, data, { sys_mod_count: String(Number(record.sys_mod_count) + 1) })
+}
+
+describe('undo_operation', () => {
+  let server: McpServer
+  let client: Client
+  let dir: string
+  let operationId: string
+
+  beforeEach(async () => {
+    jest.clearAllMocks()
+    dir = mkdtempSync(join(tmpdir(), 'nex-undo-tool-'))
+    initUndoJournal({ NEX_UNDO_DIR: dir })
+    mockWithConnectionRetry.mockImplementation(async (_alias: any, operation: any) => operation({}))
+    tables = {
+      incident: {
+        a: { sys_id: 'a', state: '1', sys_mod_count: '0' },
+        b: { sys_id: 'b', state: '1', sys_mod_count: '0' },
+      },
+    }
+
+    // The operation being undone: both records set to state 2.
+    ;({ operationId } = (await journaledWrite(
+      {} as never,
+      { tool: 'batch_update_records', alias: 'dev' },
+      [{ table: 'incident', fields: ['state'], sysIds: ['a', 'b'] }],
+      async () => {
+        update('incident', 'a', { state: '2' })
+        update('incident', 'b', { state: '2' })
+      }
+    )) as { operationId: string })
+
+    server = new McpServer({ name: "test-server", version: "1.0.0" })
+    registerUndoOperationTool(server)
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair()
+    await server.connect(serverTransport)
+    client = new Client({ name: "test-client", version: "1.0.0" })
+    await client.connect(clientTransport)
+  })
+
+  afterEach(async () => {
+    await client.close()
+    await server.close()
+    resetUndoJournalForTests()
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  const call = (extra: Record<string, unknown> = {}) =>
+    client.callTool({ name: 'undo_operation', arguments: { instance: 'dev', operation_id: operationId, ...extra } })
+
+  it('should restore the prior values and mark the operation undone', async () => {
+    const result = await call()
+
+    expect(result.isError).toBeFalsy()
+    expect(mockBatchUpdate).toHaveBeenCalledWith({
+      updates: [
+        { table: 'incident', sysId: 'a', data: { state: '1' } },
+        { table: 'incident', sysId: 'b', data: { state: '1' } },
+      ],
+      stopOnError: false,
+    })
+    expect(result.structuredContent).toMatchObject({ restoredCount: 2, conflicts: [], complete: true })
+    expect(loadJournal(operationId).status).toBe('undone')
+
+    // Everything is already restored: a second call has nothing to do.
+    mockBatchUpdate.mockClear()
+    const again = await call()
+    expect(mockBatchUpdate).not.toHaveBeenCalled()
+    expect(again.structuredContent).toMatchObject({ restoredCount: 0, complete: true })
+  })
+
+  it('should skip a record changed since, and restore it once forced', async () => {
+    update('incident', 'b', { state: '6' })
+
+    const result = await call()
+
+    expect(result.structuredContent).toMatchObject({
+      restoredCount: 1,
+      conflicts: [{ sys_id: 'b', reason: 'modified', fields: [{ field: 'state', expected: '2', current: '6' }] }],
+      complete: false,
+    })
+    expect(text(result)).toContain('force: true')
+    expect(tables.incident.b.state).toBe('6')
+
+    const forced = await call({ force: true })
+    expect(forced.structuredContent).toMatchObject({ restoredCount: 1, complete: true })
+    expect(tables.incident.b.state).toBe('1')
+  })
+
+  it('should keep a record whose restore failed for the next call', async () => {
+    mockBatchUpdate.mockResolvedValueOnce({ success: false, updatedCount: 1, errors: [{ updateIndex: 1, error: 'ACL' }] })
+
+    const result = await call()
+
+    expect(result.structuredContent).toMatchObject({ restoredCount: 1, complete: false })
+    expect(loadJournal(operationId).records.map((r) => !!r.undone)).toEqual([true, false])
+  })
+
+  it('should preview under dry_run without writing', async () => {
+    const result = await call({ dry_run: true })
+
+    expect(mockBatchUpdate).not.toHaveBeenCalled()
+    expect(result.structuredContent).toMatchObject({
+      dryRun: true,
+      changes: [{ sys_id: 'a', action: 'update', fields: [{ field: 'state', before: '2', after: '1' }] }, { sys_id: 'b' }],
+    })
+    expect(loadJournal(operationId).status).toBe('applied')
+  })
+
+  it('should refuse to undo on a different instance than the operation ran on', async () => {
+    const result = await call({ instance: 'prod' })
+
+    expect(result.isError).toBe(true)
+    expect(text(result)).toContain('Pass instance: "dev"')
+    expect(mockWithConnectionRetry).not.toHaveBeenCalled()
+  })
+
+  it('should report an unknown operation id', async () => {
+    const result = await call({ operation_id: '20260101T000000Z-deadbeef' })
+
+    expect(result.isError).toBe(true)
+    expect(text(result)).toContain('No undo journal entry')
+  })
+})
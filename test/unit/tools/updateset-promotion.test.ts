@@ -0,0 +1,423 @@
+import { jest, describe, it, expect, beforeEach, afterEach } from '@jest/globals'
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { Client } from "@modelcontextprotocol/sdk/client/index.js"
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js"
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js"
+
+// ---- Mock external dependencies before importing the module under test ----
+
+const mockWithConnectionRetry = jest.fn<(alias: any, op: any) => Promise<any>>()
+jest.unstable_mockModule('../../../src/common/connection.js', () => ({
+  withConnectionRetry: mockWithConnectionRetry,
+  isRetryableResponse: () => false,
+}))
+
+const mockGet = jest.fn<(table: string, params: any) => Promise<any>>()
+const mockBatchCreate = jest.fn<(options: any) => Promise<any>>()
+const mockExecuteScript = jest.fn<(...args: any[]) => Promise<any>>()
+jest.unstable_mockModule('@sonisoft/now-sdk-ext-core', () => ({
+  TableAPIRequest: jest.fn().mockImplementation(() => ({ get: mockGet })),
+  BatchOperations: jest.fn().mockImplementation(() => ({ batchCreate: mockBatchCreate })),
+  BackgroundScriptExecutor: jest.fn().mockImplementation(() => ({ executeScript: mockExecuteScript })),
+}))
+
+// progress.js pulls in the logger, and through it core; a per-test spy is all that matters here
+const mockProgress = jest.fn<(message: string) => void>()
+const mockProgressReporter = jest.fn<(extra: any) => any>()
+jest.unstable_mockModule('../../../src/common/progress.js', () => ({
+  progressReporter: mockProgressReporter,
+}))
+
+const {
+  registerCommitUpdateSetTool,
+  registerExportUpdateSetTool,
+  registerImportUpdateSetXmlTool,
+  registerListUpdateSetProblemsTool,
+  registerPreviewUpdateSetTool,
+  registerResolveUpdateSetProblemsTool,
+  registerRetrieveUpdateSetTool,
+} = await import('../../../src/tools/updateset-promotion.js')
+const { problemResolution } = await import('../../../src/common/update-set-promotion.js')
+
+const text = (result: any) => (result.content as any[])[0].text as string
+
+const SOURCE_SET = 'a'.repeat(32)
+const REMOTE_SET = 'b'.repeat(32)
+const PROGRESS = 'c'.repeat(32)
+const PROBLEM = 'd'.repeat(32)
+
+const ok = (result: any[]) => ({ status: 200, bodyObject: { result } })
+const scriptResult = (value: unknown) => ({ scriptResults: [{ line: `[[nex:result]] ${JSON.stringify(value)}` }] })
+
+/** Answers Table API reads from a table -> records map, the way the instance would. */
+function tables(records: Record<string, any[] | ((params: any) => any[])>) {
+  mockGet.mockImplementation(async (table: string, params: any) => {
+    const found = records[table]
+    return ok(typeof found === 'function' ? found(params) : found ?? [])
+  })
+}
+
+describe('update set promotion tools', () => {
+  let server: McpServer
+  let client: Client
+
+  beforeEach(async () => {
+    jest.clearAllMocks()
+    mockWithConnectionRetry.mockImplementation(async (alias: any, operation: any) => operation({ alias }))
+    mockProgressReporter.mockReturnValue(mockProgress)
+
+    server = new McpServer({ name: "test-server", version: "1.0.0" })
+    registerRetrieveUpdateSetTool(server)
+    registerPreviewUpdateSetTool(server)
+    registerListUpdateSetProblemsTool(server)
+    registerResolveUpdateSetProblemsTool(server)
+    registerCommitUpdateSetTool(server)
+    registerExportUpdateSetTool(server)
+    registerImportUpdateSetXmlTool(server)
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair()
+    await server.connect(serverTransport)
+    client = new Client({ name: "test-client", version: "1.0.0" })
+    await client.connect(clientTransport)
+  })
+
+  afterEach(async () => {
+    await client.close()
+    await server.close()
+  })
+
+  const call = (name: string, args: Record<string, unknown>) =>
+    client.callTool({ name, arguments: { instance: 'test', ...args } })
+
+  describe('retrieve_update_set', () => {
+    it('should copy a complete set and its updates from the source into a loaded remote update set', async () => {
+      tables({
+        sys_update_set: [{ sys_id: SOURCE_SET, name: 'FEAT-1', state: 'complete', description: 'd', application: 'global' }],
+        sys_update_xml: [
+          { name: 'sys_script_include_1', payload: '<xml/>' },
+          { name: 'sys_script_2', payload: '<xml/>' },
+        ],
+        sys_remote_update_set: [],
+      })
+      mockBatchCreate
+        .mockResolvedValueOnce({ createdCount: 1, sysIds: { remote: REMOTE_SET }, errors: [] })
+        .mockResolvedValueOnce({ createdCount: 2, sysIds: {}, errors: [] })
+
+      const result = await call('retrieve_update_set', { source_instance: 'dev', update_set_sys_id: SOURCE_SET })
+
+      expect(result.isError).toBeFalsy()
+      expect(mockWithConnectionRetry.mock.calls.map((c) => c[0])).toEqual(['dev', 'test'])
+      expect(mockBatchCreate.mock.calls[0][0].operations[0]).toMatchObject({
+        table: 'sys_remote_update_set',
+        data: { name: 'FEAT-1', remote_sys_id: SOURCE_SET, state: 'loaded' },
+      })
+      expect(mockBatchCreate.mock.calls[1][0].operations).toEqual([
+        { table: 'sys_update_xml', data: { name: 'sys_script_include_1', payload: '<xml/>', remote_update_set: REMOTE_SET, update_set: '' } },
+        { table: 'sys_update_xml', data: { name: 'sys_script_2', payload: '<xml/>', remote_update_set: REMOTE_SET, update_set: '' } },
+      ])
+      expect(result.structuredContent).toEqual({
+        sourceUpdateSetId: SOURCE_SET,
+        sourceUpdateSetName: 'FEAT-1',
+        remoteUpdateSetId: REMOTE_SET,
+        updateCount: 2,
+      })
+    })
+
+    it('should refuse a set that is still in progress', async () => {
+      tables({ sys_update_set: [{ sys_id: SOURCE_SET, name: 'FEAT-1', state: 'in progress' }] })
+
+      const result = await call('retrieve_update_set', { source_instance: 'dev', update_set_sys_id: SOURCE_SET })
+
+      expect(result.isError).toBe(true)
+      expect(text(result)).toContain('Update set "FEAT-1" is in progress on dev')
+      expect(mockBatchCreate).not.toHaveBeenCalled()
+    })
+
+    it('should refuse a second retrieval of a set that was never committed', async () => {
+      tables({
+        sys_update_set: [{ sys_id: SOURCE_SET, name: 'FEAT-1', state: 'complete' }],
+        sys_remote_update_set: [{ sys_id: REMOTE_SET, state: 'previewed' }],
+      })
+
+      const result = await call('retrieve_update_set', { source_instance: 'dev', update_set_sys_id: SOURCE_SET })
+
+      expect(result.isError).toBe(true)
+      expect(text(result)).toContain(`already retrieved as ${REMOTE_SET} (previewed)`)
+      expect(mockBatchCreate).not.toHaveBeenCalled()
+    })
+
+    it('should say the retrieved set is incomplete when an update cannot be written', async () => {
+      tables({
+        sys_update_set: [{ sys_id: SOURCE_SET, name: 'FEAT-1', state: 'complete' }],
+        sys_update_xml: [{ name: 'one' }],
+      })
+      mockBatchCreate
+        .mockResolvedValueOnce({ createdCount: 1, sysIds: { remote: REMOTE_SET }, errors: [] })
+        .mockResolvedValueOnce({ createdCount: 0, sysIds: {}, errors: [{ operationIndex: 0, error: 'ACL' }] })
+
+      const result = await call('retrieve_update_set', { source_instance: 'dev', update_set_sys_id: SOURCE_SET })
+
+      expect(result.isError).toBe(true)
+      expect(text(result)).toContain(`Wrote 0 of 1 updates into retrieved update set ${REMOTE_SET}, then: ACL. It is incomplete`)
+    })
+
+    it('should refuse an update set id that is not a sys_id', async () => {
+      const result = await call('retrieve_update_set', { source_instance: 'dev', update_set_sys_id: "x'); gs.x('" })
+
+      expect(result.isError).toBe(true)
+      expect(text(result)).toContain('update_set_sys_id must be a 32-character sys_id')
+      expect(mockGet).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('export_update_set and import_update_set_xml', () => {
+    let dir: string
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'nex-update-set-'))
+    })
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true })
+    })
+
+    it('should export a set to unload XML that loads back into a target as a retrieved update set', async () => {
+      tables({
+        sys_update_set: [{ sys_id: SOURCE_SET, name: 'FEAT-1', state: 'complete', application: 'global' }],
+        sys_update_xml: [{ name: 'sys_script_include_1', payload: '<record_update/>' }],
+        sys_remote_update_set: [],
+      })
+      const file = join(dir, 'sets', 'FEAT-1.xml')
+
+      const exported = await call('export_update_set', { instance: 'dev', update_set_sys_id: SOURCE_SET, file_path: file })
+
+      expect(exported.isError).toBeFalsy()
+      expect(readFileSync(file, 'utf8')).toContain('<payload>&lt;record_update/&gt;</payload>')
+      expect(exported.structuredContent).toMatchObject({ updateSetId: SOURCE_SET, name: 'FEAT-1', filePath: file, updateCount: 1 })
+
+      mockBatchCreate
+        .mockResolvedValueOnce({ createdCount: 1, sysIds: { remote: REMOTE_SET }, errors: [] })
+        .mockResolvedValueOnce({ createdCount: 1, sysIds: {}, errors: [] })
+
+      const imported = await call('import_update_set_xml', { file_path: file })
+
+      expect(imported.isError).toBeFalsy()
+      expect(mockBatchCreate.mock.calls[0][0].operations[0].data).toMatchObject({
+        name: 'FEAT-1',
+        remote_sys_id: SOURCE_SET,
+        origin_sys_id: SOURCE_SET,
+        state: 'loaded',
+      })
+      expect(mockBatchCreate.mock.calls[1][0].operations).toEqual([
+        { table: 'sys_update_xml', data: { name: 'sys_script_include_1', payload: '<record_update/>', remote_update_set: REMOTE_SET, update_set: '' } },
+      ])
+      expect(imported.structuredContent).toEqual({ name: 'FEAT-1', filePath: file, remoteUpdateSetId: REMOTE_SET, updateCount: 1 })
+    })
+
+    it('should not replace an existing file unless asked, and read nothing first', async () => {
+      const file = join(dir, 'FEAT-1.xml')
+      writeFileSync(file, 'keep')
+
+      const result = await call('export_update_set', { update_set_sys_id: SOURCE_SET, file_path: file })
+
+      expect(result.isError).toBe(true)
+      expect(text(result)).toContain('already exists. Pass overwrite: true')
+      expect(readFileSync(file, 'utf8')).toBe('keep')
+      expect(mockGet).not.toHaveBeenCalled()
+    })
+
+    it('should write no file when the set is not complete', async () => {
+      tables({ sys_update_set: [{ sys_id: SOURCE_SET, name: 'FEAT-1', state: 'in progress' }] })
+      const file = join(dir, 'FEAT-1.xml')
+
+      const result = await call('export_update_set', { update_set_sys_id: SOURCE_SET, file_path: file })
+
+      expect(result.isError).toBe(true)
+      expect(existsSync(file)).toBe(false)
+    })
+
+    it('should refuse a file that is not an update set export before touching the instance', async () => {
+      const file = join(dir, 'records.xml')
+      writeFileSync(file, '<unload><incident><number>INC1</number></incident></unload>')
+
+      const result = await call('import_update_set_xml', { file_path: file })
+
+      expect(result.isError).toBe(true)
+      expect(text(result)).toContain('Error importing update set XML: The file holds <incident> records')
+      expect(mockBatchCreate).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('preview_update_set', () => {
+    it('should start the preview worker, wait for it and list the problems with their resolutions', async () => {
+      mockExecuteScript.mockResolvedValue(scriptResult({ progressId: PROGRESS }))
+      tables({
+        sys_execution_tracker: [{ state: '2', percent_complete: '100', message: 'Preview complete' }],
+        sys_remote_update_set: [{ sys_id: REMOTE_SET, name: 'FEAT-1', state: 'previewed' }],
+        sys_update_preview_problem: [
+          {
+            sys_id: PROBLEM,
+            type: 'error',
+            status: '',
+            description: 'Could not find a record in sys_user_group for column group referenced in this update',
+            'remote_update.target_name': 'My Include',
+          },
+        ],
+      })
+
+      const result = await call('preview_update_set', { remote_update_set_sys_id: REMOTE_SET })
+
+      expect(result.isError).toBeFalsy()
+      const script = mockExecuteScript.mock.calls[0][0] as string
+      expect(script).toContain("worker.setScriptIncludeMethod('generatePreviewRecordsWithUpdate');")
+      expect(script).toContain(`worker.putMethodArg('sys_id', "${REMOTE_SET}");`)
+      expect(text(result)).toContain('Preview: successful — Preview complete')
+      expect(text(result)).toContain('Resolution: A record this update refers to is missing on the target.')
+      expect(result.structuredContent).toMatchObject({
+        state: 'previewed',
+        tracker: { progressId: PROGRESS, finished: true, state: 'successful', percentComplete: 100 },
+        problems: [{ sys_id: PROBLEM, type: 'error', status: 'unresolved', update: 'My Include' }],
+      })
+      const problemQuery = mockGet.mock.calls.find((c) => c[0] === 'sys_update_preview_problem')![1].sysparm_query
+      expect(problemQuery).toContain(`remote_update_set=${REMOTE_SET}^statusISEMPTY`)
+    })
+
+    it('should report progress while the preview runs', async () => {
+      mockExecuteScript.mockResolvedValue(scriptResult({ progressId: PROGRESS }))
+      tables({
+        sys_execution_tracker: [{ state: '2', percent_complete: '100', message: 'Preview complete' }],
+        sys_remote_update_set: [{ sys_id: REMOTE_SET, name: 'FEAT-1', state: 'previewed' }],
+      })
+
+      await call('preview_update_set', { remote_update_set_sys_id: REMOTE_SET })
+
+      expect(mockProgress).toHaveBeenCalledWith('Preview: 100% — Preview complete')
+    })
+
+    it('should return without problems when the preview outlasts the timeout', async () => {
+      mockExecuteScript.mockResolvedValue(scriptResult({ progressId: PROGRESS }))
+      tables({
+        sys_execution_tracker: [{ state: '1', percent_complete: '40' }],
+        sys_remote_update_set: [{ sys_id: REMOTE_SET, name: 'FEAT-1', state: 'loaded' }],
+      })
+
+      const result = await call('preview_update_set', { remote_update_set_sys_id: REMOTE_SET, timeout_seconds: 0 })
+
+      expect(result.isError).toBeFalsy()
+      expect(text(result)).toContain(`Preview is still running after 0s (40%, progress ${PROGRESS})`)
+      expect((result.structuredContent as any).problems).toEqual([])
+      expect(mockGet.mock.calls.some((c) => c[0] === 'sys_update_preview_problem')).toBe(false)
+    })
+
+    it('should report what the instance said when the set does not exist', async () => {
+      mockExecuteScript.mockResolvedValue(scriptResult({ error: `No retrieved update set ${REMOTE_SET}` }))
+
+      const result = await call('preview_update_set', { remote_update_set_sys_id: REMOTE_SET })
+
+      expect(result.isError).toBe(true)
+      expect(text(result)).toContain(`Error previewing update set: No retrieved update set ${REMOTE_SET}`)
+    })
+  })
+
+  describe('list_update_set_problems', () => {
+    it('should list resolved problems too when asked', async () => {
+      tables({
+        sys_remote_update_set: [{ sys_id: REMOTE_SET, name: 'FEAT-1', state: 'previewed' }],
+        sys_update_preview_problem: [{ sys_id: PROBLEM, type: 'warning', status: 'skipped', description: 'x' }],
+      })
+
+      const result = await call('list_update_set_problems', { remote_update_set_sys_id: REMOTE_SET, include_resolved: true })
+
+      expect(text(result)).toContain(`[WARNING] ${PROBLEM} (skipped)`)
+      const problemQuery = mockGet.mock.calls.find((c) => c[0] === 'sys_update_preview_problem')![1].sysparm_query
+      expect(problemQuery).not.toContain('statusISEMPTY')
+    })
+  })
+
+  describe('resolve_update_set_problems', () => {
+    it('should skip the problems through the platform action and say what remains', async () => {
+      mockExecuteScript.mockResolvedValue(scriptResult({ resolved: [PROBLEM], notFound: [] }))
+      tables({ sys_update_preview_problem: [] })
+
+      const result = await call('resolve_update_set_problems', {
+        remote_update_set_sys_id: REMOTE_SET,
+        problem_sys_ids: [PROBLEM],
+        action: 'skip',
+      })
+
+      expect(result.isError).toBeFalsy()
+      const script = mockExecuteScript.mock.calls[0][0] as string
+      expect(script).toContain('problemAction.skipUpdate();')
+      expect(script).not.toContain('ignoreProblem')
+      expect(script).toContain(`problem.getValue('remote_update_set') != "${REMOTE_SET}"`)
+      expect(text(result)).toContain('No unresolved problems remain. Ready for commit_update_set.')
+      expect(result.structuredContent).toEqual({ action: 'skip', resolved: [PROBLEM], notFound: [], remaining: 0 })
+    })
+
+    it('should refuse problem ids that are not sys_ids before running anything', async () => {
+      const result = await call('resolve_update_set_problems', {
+        remote_update_set_sys_id: REMOTE_SET,
+        problem_sys_ids: ["'); gs.x('"],
+        action: 'accept',
+      })
+
+      expect(result.isError).toBe(true)
+      expect(mockExecuteScript).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('commit_update_set', () => {
+    it('should commit a previewed set with no unresolved problems', async () => {
+      mockExecuteScript.mockResolvedValue(scriptResult({ progressId: PROGRESS }))
+      let committed = false
+      tables({
+        sys_remote_update_set: () => [{ sys_id: REMOTE_SET, name: 'FEAT-1', state: committed ? 'committed' : 'previewed' }],
+        sys_update_preview_problem: [],
+        sys_execution_tracker: () => {
+          committed = true
+          return [{ state: '2', percent_complete: '100', message: 'Commit complete' }]
+        },
+      })
+
+      const result = await call('commit_update_set', { remote_update_set_sys_id: REMOTE_SET })
+
+      expect(result.isError).toBeFalsy()
+      expect(mockExecuteScript.mock.calls[0][0]).toContain(`worker.setUpdateSetSysId("${REMOTE_SET}");`)
+      expect(text(result)).toContain('Commit: successful — Commit complete')
+      expect(result.structuredContent).toMatchObject({ state: 'committed', tracker: { finished: true } })
+    })
+
+    it('should refuse a set with unresolved problems', async () => {
+      tables({
+        sys_remote_update_set: [{ sys_id: REMOTE_SET, name: 'FEAT-1', state: 'previewed' }],
+        sys_update_preview_problem: [{ sys_id: PROBLEM, type: 'error', status: '', description: 'x' }],
+      })
+
+      const result = await call('commit_update_set', { remote_update_set_sys_id: REMOTE_SET })
+
+      expect(result.isError).toBe(true)
+      expect(text(result)).toContain('"FEAT-1" has 1 unresolved preview problem(s)')
+      expect(mockExecuteScript).not.toHaveBeenCalled()
+    })
+
+    it('should refuse a set that has not been previewed', async () => {
+      tables({ sys_remote_update_set: [{ sys_id: REMOTE_SET, name: 'FEAT-1', state: 'loaded' }] })
+
+      const result = await call('commit_update_set', { remote_update_set_sys_id: REMOTE_SET })
+
+      expect(result.isError).toBe(true)
+      expect(text(result)).toContain('"FEAT-1" is loaded, not previewed. Run preview_update_set first.')
+    })
+  })
+
+  describe('problemResolution', () => {
+    it.each([
+      ['Found a local update that is newer than this one', 'Accept to overwrite it'],
+      ['Application x_acme_app is not installed', 'Install that application first'],
+      ['Something else', 'Accept to apply the update anyway'],
+    ])('suggests a resolution for "%s"', (description, expected) => {
+      expect(problemResolution(description)).toContain(expected)
+    })
+  })
+})
@@ -12,11 +12,13 @@ jest.unstable_mockModule('../../../src/common/connection.js', () => ({
 
 const mockExportRecord = jest.fn<(...args: any[]) => Promise<any>>()
 const mockImportRecords = jest.fn<(...args: any[]) => Promise<any>>()
+const mockTableGet = jest.fn<(...args: any[]) => Promise<any>>()
 jest.unstable_mockModule('@sonisoft/now-sdk-ext-core', () => ({
   XMLRecordManager: jest.fn().mockImplementation(() => ({
     exportRecord: mockExportRecord,
     importRecords: mockImportRecords,
   })),
+  TableAPIRequest: jest.fn().mockImplementation(() => ({ get: mockTableGet })),
 }))
 
 // Dynamic import after mocks (required for ESM)
@@ -243,6 +245,55 @@ describe('import_records_xml tool', () => {
     })
   })
 
+  describe('dry_run', () => {
+    const xml =
+      '<unload unload_date="2026-01-01">' +
+      '<sys_script_include action="INSERT_OR_UPDATE">' +
+      '<sys_id>aaa</sys_id><name>Existing</name><script><![CDATA[var a = 1 < 2;]]></script>' +
+      '<sys_updated_on>2026-01-01 00:00:00</sys_updated_on>' +
+      '</sys_script_include>' +
+      '<sys_script_include action="INSERT_OR_UPDATE">' +
+      '<sys_id>bbb</sys_id><name>New &amp; shiny</name><active/>' +
+      '</sys_script_include>' +
+      '</unload>'
+
+    it('should report updates and creates by sys_id without importing', async () => {
+      mockTableGet.mockResolvedValue({
+        status: 200,
+        bodyObject: { result: [{ sys_id: 'aaa', name: 'Existing', script: 'var a = 0;' }] },
+      })
+
+      const result = await client.callTool({
+        name: 'import_records_xml',
+        arguments: { xml_content: xml, target_table: 'sys_script_include', dry_run: true },
+      })
+
+      expect(result.isError).toBeFalsy()
+      expect(mockImportRecords).not.toHaveBeenCalled()
+      expect(mockTableGet).toHaveBeenCalledWith(
+        'sys_script_include',
+        expect.objectContaining({ sysparm_query: 'sys_idINaaa,bbb' })
+      )
+      expect((result.structuredContent as any).changes).toEqual([
+        {
+          table: 'sys_script_include',
+          sys_id: 'aaa',
+          action: 'update',
+          fields: [{ field: 'script', before: 'var a = 0;', after: 'var a = 1 < 2;' }],
+        },
+        {
+          table: 'sys_script_include',
+          sys_id: 'bbb',
+          action: 'create',
+          fields: [
+            { field: 'name', after: 'New & shiny' },
+            { field: 'active', after: '' },
+          ],
+        },
+      ])
+    })
+  })
+
   describe('error handling', () => {
     it('should return isError when import throws', async () => {
       mockImportRecords.mockRejectedValue(new Error('CSRF token failure'))